@@ -0,0 +1,145 @@
+-- Add booking cancellation and partial seat release support
+
+-- Track who cancelled a booking and why
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_by VARCHAR(255);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+-- Track when a ticket was revoked
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_booking_id ON tickets(booking_id);
+
+-- RPC function to cancel a whole booking or release some of its seats.
+-- Pass NULL for p_seat_codes to cancel every seat in the booking.
+CREATE OR REPLACE FUNCTION cancel_booking_seats(
+    p_booking_id UUID,
+    p_seat_codes TEXT[] DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL,
+    p_cancelled_by TEXT DEFAULT 'system'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_show_status TEXT;
+    v_booked TEXT[];
+    v_cancel TEXT[];
+    v_remaining TEXT[];
+    v_invalid TEXT[];
+    v_revoked INTEGER;
+BEGIN
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Booking not found'
+        );
+    END IF;
+
+    -- Take the same lock as book_seats_atomic so freed seats are never double-booked
+    PERFORM pg_advisory_xact_lock(hashtext(v_booking.show_id::text));
+
+    -- Re-read the booking now that we hold the show lock
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_id
+    FOR UPDATE;
+
+    IF v_booking.status = 'CANCELLED' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Booking is already cancelled'
+        );
+    END IF;
+
+    SELECT status INTO v_show_status
+    FROM shows
+    WHERE id = v_booking.show_id;
+
+    IF v_show_status = 'SHOW_DONE' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Bookings for a completed show cannot be cancelled'
+        );
+    END IF;
+
+    -- seat_code is stored either as a JSON array or as a comma separated list
+    IF left(v_booking.seat_code, 1) = '[' THEN
+        SELECT array_agg(value) INTO v_booked
+        FROM json_array_elements_text(v_booking.seat_code::json);
+    ELSE
+        SELECT array_agg(trim(seat)) INTO v_booked
+        FROM unnest(string_to_array(v_booking.seat_code, ',')) AS seat;
+    END IF;
+
+    v_cancel := COALESCE(p_seat_codes, v_booked);
+
+    IF array_length(v_cancel, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'No seats selected for cancellation'
+        );
+    END IF;
+
+    SELECT array_agg(seat) INTO v_invalid
+    FROM unnest(v_cancel) AS seat
+    WHERE NOT (seat = ANY(v_booked));
+
+    IF v_invalid IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Some seats are not part of this booking',
+            'invalid_seats', v_invalid
+        );
+    END IF;
+
+    SELECT array_agg(seat ORDER BY ord) INTO v_remaining
+    FROM unnest(v_booked) WITH ORDINALITY AS t(seat, ord)
+    WHERE NOT (seat = ANY(v_cancel));
+
+    -- Revoke the tickets for the released seats
+    UPDATE tickets
+    SET status = 'REVOKED', revoked_at = NOW()
+    WHERE booking_id = p_booking_id
+    AND seat_code = ANY(v_cancel)
+    AND status = 'ACTIVE';
+
+    GET DIAGNOSTICS v_revoked = ROW_COUNT;
+
+    IF v_remaining IS NULL THEN
+        -- Every seat released: cancel the booking itself
+        UPDATE bookings
+        SET status = 'CANCELLED',
+            cancelled_at = NOW(),
+            cancelled_by = p_cancelled_by,
+            cancellation_reason = p_reason
+        WHERE id = p_booking_id;
+    ELSE
+        -- Partial release: keep the booking for the remaining seats
+        UPDATE bookings
+        SET seat_code = array_to_json(v_remaining)::text
+        WHERE id = p_booking_id;
+    END IF;
+
+    -- Freed seats make a full house bookable again
+    UPDATE shows
+    SET status = 'ACTIVE'
+    WHERE id = v_booking.show_id
+    AND status = 'HOUSE_FULL';
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', p_booking_id,
+        'show_id', v_booking.show_id,
+        'cancelled_seats', v_cancel,
+        'remaining_seats', COALESCE(v_remaining, '{}'),
+        'revoked_tickets', v_revoked,
+        'booking_cancelled', v_remaining IS NULL
+    );
+END;
+$$;
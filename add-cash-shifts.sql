@@ -0,0 +1,173 @@
+-- Cash drawer shifts: what each staff member took between opening and
+-- closing their drawer, and whether the cash they counted matches
+-- Run this after add-refunds.sql
+--
+-- Expected totals come from the payments ledger: payments the staff member
+-- collected while the shift was open, by method. Cash refunds paid out of
+-- their drawer in that time come off the expected cash.
+
+CREATE TABLE IF NOT EXISTS cash_shifts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    staff_email VARCHAR(255) NOT NULL,
+    staff_name VARCHAR(255),
+    status VARCHAR(10) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'CLOSED')),
+    opening_float DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+    opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    closed_by VARCHAR(255), -- An admin may close a drawer someone left open
+    -- Filled in at close
+    expected_totals JSONB, -- Collected per payment method, e.g. {"CASH": 1200, "UPI": 500}
+    bookings INTEGER,
+    cash_refunds DECIMAL(10,2),
+    expected_cash DECIMAL(10,2), -- Float plus cash taken less cash refunds paid
+    counted_cash DECIMAL(10,2) CHECK (counted_cash >= 0),
+    variance DECIMAL(10,2), -- Counted less expected; negative when the drawer is short
+    notes TEXT
+);
+
+-- Whose drawer a cash refund was paid from, chosen when it is approved.
+-- The admin approving it is often not at a counter at all.
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS paid_by VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_paid_by ON refunds(paid_by);
+
+-- One open drawer per staff member
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_shifts_one_open ON cash_shifts(staff_email) WHERE status = 'OPEN';
+CREATE INDEX IF NOT EXISTS idx_cash_shifts_opened_at ON cash_shifts(opened_at);
+
+-- What the shift should hold so far, or at close for a closed shift
+CREATE OR REPLACE FUNCTION cash_shift_totals(p_shift_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_shift RECORD;
+    v_until TIMESTAMP WITH TIME ZONE;
+    v_totals JSONB;
+    v_bookings INTEGER;
+    v_cash_refunds DECIMAL(10,2);
+BEGIN
+    SELECT * INTO v_shift
+    FROM cash_shifts
+    WHERE id = p_shift_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHIFT_NOT_FOUND',
+            'error', 'Shift not found'
+        );
+    END IF;
+
+    v_until := COALESCE(v_shift.closed_at, NOW());
+
+    SELECT COALESCE(jsonb_object_agg(method, total), '{}') INTO v_totals
+    FROM (
+        SELECT method, SUM(amount) AS total
+        FROM payments
+        WHERE collected_by = v_shift.staff_email
+        AND collected_at >= v_shift.opened_at
+        AND collected_at <= v_until
+        GROUP BY method
+    ) AS by_method;
+
+    -- A split payment counts its booking under each method; count it once
+    SELECT COUNT(DISTINCT booking_id) INTO v_bookings
+    FROM payments
+    WHERE collected_by = v_shift.staff_email
+    AND collected_at >= v_shift.opened_at
+    AND collected_at <= v_until;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_cash_refunds
+    FROM refunds
+    WHERE status = 'APPROVED'
+    AND method = 'CASH'
+    AND paid_by = v_shift.staff_email
+    AND reviewed_at >= v_shift.opened_at
+    AND reviewed_at <= v_until;
+
+    RETURN json_build_object(
+        'success', true,
+        'shift_id', v_shift.id,
+        'expected_totals', v_totals,
+        'bookings', v_bookings,
+        'cash_refunds', v_cash_refunds,
+        'expected_cash', v_shift.opening_float + COALESCE((v_totals->>'CASH')::DECIMAL, 0) - v_cash_refunds
+    );
+END;
+$$;
+
+-- Closes a drawer: stores the expected totals as they stand now next to the
+-- cash counted, so the report doesn't change if payments are edited later
+CREATE OR REPLACE FUNCTION close_cash_shift(
+    p_shift_id UUID,
+    p_counted_cash DECIMAL,
+    p_notes TEXT DEFAULT NULL,
+    p_closed_by TEXT DEFAULT 'system'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_shift RECORD;
+    v_totals JSON;
+    v_expected_cash DECIMAL(10,2);
+BEGIN
+    SELECT * INTO v_shift
+    FROM cash_shifts
+    WHERE id = p_shift_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHIFT_NOT_FOUND',
+            'error', 'Shift not found'
+        );
+    END IF;
+
+    IF v_shift.status <> 'OPEN' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHIFT_CLOSED',
+            'error', 'This shift is already closed'
+        );
+    END IF;
+
+    IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_COUNT',
+            'error', 'Enter the cash counted in the drawer'
+        );
+    END IF;
+
+    v_totals := cash_shift_totals(p_shift_id);
+    v_expected_cash := (v_totals->>'expected_cash')::DECIMAL;
+
+    UPDATE cash_shifts
+    SET status = 'CLOSED',
+        closed_at = NOW(),
+        closed_by = p_closed_by,
+        expected_totals = (v_totals->'expected_totals')::JSONB,
+        bookings = (v_totals->>'bookings')::INTEGER,
+        cash_refunds = (v_totals->>'cash_refunds')::DECIMAL,
+        expected_cash = v_expected_cash,
+        counted_cash = p_counted_cash,
+        variance = p_counted_cash - v_expected_cash,
+        notes = p_notes
+    WHERE id = p_shift_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'shift_id', p_shift_id,
+        'expected_totals', v_totals->'expected_totals',
+        'bookings', (v_totals->>'bookings')::INTEGER,
+        'cash_refunds', (v_totals->>'cash_refunds')::DECIMAL,
+        'expected_cash', v_expected_cash,
+        'counted_cash', p_counted_cash,
+        'variance', p_counted_cash - v_expected_cash
+    );
+END;
+$$;
@@ -0,0 +1,379 @@
+-- Group bookings and season passes
+-- Run this after add-promo-codes.sql; it replaces book_seats_atomic
+--
+-- A group booking is one booking for a whole block of seats, made under a
+-- group name (a school, a tour operator). It gets an invoice number and, when
+-- the show has a group rate and the block is big enough, group_discount_percent
+-- off every seat before any promo code.
+--
+-- A season pass belongs to a customer and holds a number of admissions that
+-- can be spent on any show inside its dates. Each ticket booked on the pass
+-- uses one admission; revoked tickets give theirs back.
+
+ALTER TABLE shows ADD COLUMN IF NOT EXISTS group_min_seats INTEGER;
+ALTER TABLE shows ADD COLUMN IF NOT EXISTS group_discount_percent DECIMAL(5,2);
+
+ALTER TABLE shows DROP CONSTRAINT IF EXISTS shows_group_rate_check;
+ALTER TABLE shows ADD CONSTRAINT shows_group_rate_check
+CHECK (
+    (group_min_seats IS NULL OR group_min_seats > 1)
+    AND (group_discount_percent IS NULL OR (group_discount_percent > 0 AND group_discount_percent <= 100))
+);
+
+CREATE TABLE IF NOT EXISTS season_passes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    pass_code VARCHAR(30) NOT NULL UNIQUE,
+    name VARCHAR(255) NOT NULL, -- e.g. Festival Week 2026
+    admissions INTEGER NOT NULL CHECK (admissions > 0),
+    valid_from DATE,
+    valid_until DATE,
+    price DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (price >= 0), -- What the customer paid for the pass
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until >= valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_season_passes_customer_id ON season_passes(customer_id);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS group_name VARCHAR(255);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS group_discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS invoice_number VARCHAR(30) UNIQUE;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS season_pass_id UUID REFERENCES season_passes(id) ON DELETE SET NULL;
+
+-- tickets.discount_amount now also holds the ticket's share of the group rate
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS season_pass_id UUID REFERENCES season_passes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_season_pass_id ON tickets(season_pass_id);
+
+-- Admissions left on a pass
+CREATE OR REPLACE FUNCTION season_pass_balance(p_season_pass_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT sp.admissions - (
+        SELECT COUNT(*)::INTEGER
+        FROM tickets
+        WHERE season_pass_id = sp.id
+        AND status <> 'REVOKED'
+    )
+    FROM season_passes sp
+    WHERE sp.id = p_season_pass_id;
+$$;
+
+-- Replace book_seats_atomic for group bookings and season pass redemption
+DROP FUNCTION IF EXISTS book_seats_atomic(UUID, TEXT[], TEXT, UUID, TEXT, TEXT, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION book_seats_atomic(
+    p_show_id UUID,
+    p_seat_codes TEXT[],
+    p_booked_by TEXT,
+    p_customer_id UUID DEFAULT NULL,
+    p_generated_by TEXT DEFAULT NULL,
+    p_holder_id TEXT DEFAULT NULL,
+    p_seat_categories JSONB DEFAULT '{}', -- Seat code to ticket category; missing seats are ADULT
+    p_promo_code TEXT DEFAULT NULL,
+    p_group_name TEXT DEFAULT NULL, -- Makes this a group booking with an invoice
+    p_season_pass_id UUID DEFAULT NULL -- Pays for every seat from this pass
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_show RECORD;
+    v_booking_id UUID;
+    v_seat_code TEXT;
+    v_ticket_id UUID;
+    v_ticket_code TEXT;
+    v_seq INTEGER;
+    v_date_prefix TEXT;
+    v_tickets JSON[] := '{}';
+    v_conflicts TEXT[];
+    v_price DECIMAL(10,2);
+    v_category TEXT;
+    v_total DECIMAL(10,2) := 0;
+    v_prices DECIMAL(10,2)[] := '{}';
+    v_subtotal DECIMAL(10,2) := 0;
+    v_promo JSON;
+    v_promo_code_id UUID;
+    v_promo_code TEXT;
+    v_discount DECIMAL(10,2) := 0;
+    v_ticket_discount DECIMAL(10,2);
+    v_discount_left DECIMAL(10,2);
+    v_index INTEGER := 0;
+    v_group_name TEXT := NULLIF(TRIM(p_group_name), '');
+    v_group_rate BOOLEAN := false;
+    v_group_discount DECIMAL(10,2) := 0;
+    v_group_share DECIMAL(10,2);
+    v_group_shares DECIMAL(10,2)[] := '{}';
+    v_invoice_number TEXT;
+    v_pass RECORD;
+    v_invoice_seq INTEGER;
+BEGIN
+    IF p_seat_codes IS NULL OR array_length(p_seat_codes, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'No seats selected'
+        );
+    END IF;
+
+    IF array_length(p_seat_codes, 1) <> (SELECT COUNT(DISTINCT seat) FROM unnest(p_seat_codes) AS seat) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'The same seat was selected more than once'
+        );
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_each_text(COALESCE(p_seat_categories, '{}'::jsonb))
+        WHERE value NOT IN ('ADULT', 'CHILD', 'SENIOR', 'FOREIGNER', 'COMPLIMENTARY')
+    ) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_CATEGORY',
+            'error', 'Unknown ticket category'
+        );
+    END IF;
+
+    IF p_season_pass_id IS NOT NULL AND NULLIF(TRIM(p_promo_code), '') IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEASON_PASS_INVALID',
+            'error', 'A season pass cannot be combined with a promo code'
+        );
+    END IF;
+
+    -- Lock the show to prevent concurrent bookings
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    -- Get show details
+    SELECT id, price, date, status, group_min_seats, group_discount_percent INTO v_show
+    FROM shows
+    WHERE id = p_show_id AND active = true;
+
+    IF NOT FOUND OR COALESCE(v_show.status, 'ACTIVE') NOT IN ('ACTIVE', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'This show is no longer open for booking'
+        );
+    END IF;
+
+    -- Check for conflicts against every confirmed booking, whatever its seat_code format,
+    -- and against live holds from other terminals
+    SELECT array_agg(DISTINCT requested) INTO v_conflicts
+    FROM unnest(p_seat_codes) AS requested
+    WHERE EXISTS (
+        SELECT 1 FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        AND requested = ANY(booking_seat_codes(seat_code))
+    )
+    OR EXISTS (
+        SELECT 1 FROM seat_holds
+        WHERE show_id = p_show_id
+        AND seat_code = requested
+        AND expires_at > NOW()
+        AND holder_id IS DISTINCT FROM p_holder_id
+    );
+
+    IF v_conflicts IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEAT_CONFLICT',
+            'error', 'Some seats have already been booked or are held at another counter',
+            'conflicts', v_conflicts
+        );
+    END IF;
+
+    IF p_season_pass_id IS NOT NULL THEN
+        -- Serialise redemptions so two counters cannot spend the same balance
+        PERFORM pg_advisory_xact_lock(hashtext('season_pass:' || p_season_pass_id::text));
+
+        SELECT * INTO v_pass FROM season_passes WHERE id = p_season_pass_id;
+
+        IF NOT FOUND THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'SEASON_PASS_NOT_FOUND',
+                'error', 'Season pass not found'
+            );
+        END IF;
+
+        IF NOT v_pass.active
+        OR v_pass.customer_id IS DISTINCT FROM p_customer_id
+        OR (v_pass.valid_from IS NOT NULL AND v_show.date < v_pass.valid_from)
+        OR (v_pass.valid_until IS NOT NULL AND v_show.date > v_pass.valid_until) THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'SEASON_PASS_INVALID',
+                'error', 'This season pass cannot be used by this customer for this show'
+            );
+        END IF;
+
+        IF season_pass_balance(p_season_pass_id) < array_length(p_seat_codes, 1) THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'SEASON_PASS_BALANCE',
+                'error', 'Not enough admissions left on this season pass',
+                'balance', season_pass_balance(p_season_pass_id)
+            );
+        END IF;
+    END IF;
+
+    -- The group rate applies once a group books at least the show's minimum
+    v_group_rate := p_season_pass_id IS NULL
+        AND v_group_name IS NOT NULL
+        AND v_show.group_discount_percent IS NOT NULL
+        AND array_length(p_seat_codes, 1) >= COALESCE(v_show.group_min_seats, 1);
+
+    -- Price every seat before any promo discount. Season pass seats are
+    -- prepaid, so they carry no price.
+    FOREACH v_seat_code IN ARRAY p_seat_codes
+    LOOP
+        IF p_season_pass_id IS NOT NULL THEN
+            v_price := 0;
+        ELSE
+            v_price := ticket_price(p_show_id, v_seat_code, COALESCE(p_seat_categories->>v_seat_code, 'ADULT'));
+        END IF;
+
+        v_group_share := 0;
+        IF v_group_rate THEN
+            v_group_share := ROUND(v_price * v_show.group_discount_percent / 100, 2);
+            v_group_discount := v_group_discount + v_group_share;
+        END IF;
+
+        v_prices := array_append(v_prices, v_price - v_group_share);
+        v_group_shares := array_append(v_group_shares, v_group_share);
+    END LOOP;
+
+    SELECT COALESCE(SUM(price), 0) INTO v_subtotal FROM unnest(v_prices) AS price;
+
+    IF NULLIF(TRIM(p_promo_code), '') IS NOT NULL THEN
+        -- Serialise bookings using the same code so usage limits hold
+        PERFORM pg_advisory_xact_lock(hashtext('promo:' || UPPER(TRIM(p_promo_code))));
+
+        v_promo := validate_promo_code(p_promo_code, p_show_id, p_customer_id, v_subtotal);
+
+        IF NOT (v_promo->>'success')::BOOLEAN THEN
+            RETURN v_promo;
+        END IF;
+
+        IF p_customer_id IS NULL AND v_promo->>'max_uses_per_customer' IS NOT NULL THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'PROMO_CUSTOMER_REQUIRED',
+                'error', 'Select a customer to use this promo code'
+            );
+        END IF;
+
+        v_promo_code_id := (v_promo->>'promo_code_id')::UUID;
+        v_promo_code := v_promo->>'code';
+        v_discount := (v_promo->>'discount_amount')::DECIMAL(10,2);
+    END IF;
+
+    v_discount_left := v_discount;
+
+    -- Ticket numbers are sequential per show date, so serialise shows sharing a date
+    v_date_prefix := 'TKT-' || to_char(v_show.date, 'YYYYMMDD') || '-';
+    PERFORM pg_advisory_xact_lock(hashtext(v_date_prefix));
+
+    SELECT COALESCE(MAX(split_part(ticket_code, '-', 3)::INTEGER), 0) + 1
+    INTO v_seq
+    FROM tickets
+    WHERE ticket_code LIKE v_date_prefix || '%'
+    AND split_part(ticket_code, '-', 3) ~ '^[0-9]+$';
+
+    -- Group bookings get one invoice for the whole block, numbered per day
+    IF v_group_name IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('INV-'));
+
+        SELECT COALESCE(MAX(split_part(invoice_number, '-', 3)::INTEGER), 0) + 1
+        INTO v_invoice_seq
+        FROM bookings
+        WHERE invoice_number LIKE 'INV-' || to_char(NOW(), 'YYYYMMDD') || '-%';
+
+        v_invoice_number := 'INV-' || to_char(NOW(), 'YYYYMMDD') || '-' || lpad(v_invoice_seq::text, 4, '0');
+    END IF;
+
+    -- Create ONE booking for all seats
+    INSERT INTO bookings (
+        show_id, seat_code, booked_by, customer_id, status,
+        promo_code_id, promo_code, discount_amount,
+        group_name, group_discount_amount, invoice_number, season_pass_id
+    )
+    VALUES (
+        p_show_id, array_to_json(p_seat_codes)::text, p_booked_by, p_customer_id, 'CONFIRMED',
+        v_promo_code_id, v_promo_code, v_discount,
+        v_group_name, v_group_discount, v_invoice_number, p_season_pass_id
+    )
+    RETURNING id INTO v_booking_id;
+
+    -- Create tickets for each seat under the same booking
+    FOREACH v_seat_code IN ARRAY p_seat_codes
+    LOOP
+        v_ticket_code := v_date_prefix || lpad(v_seq::text, 4, '0') || '-' || v_seat_code;
+        v_category := COALESCE(p_seat_categories->>v_seat_code, 'ADULT');
+        v_index := v_index + 1;
+
+        -- Spread the discount over the tickets by price; the last ticket takes
+        -- whatever rounding leaves over
+        IF v_index = array_length(p_seat_codes, 1) THEN
+            v_ticket_discount := v_discount_left;
+        ELSIF v_subtotal > 0 THEN
+            v_ticket_discount := ROUND(v_discount * v_prices[v_index] / v_subtotal, 2);
+        ELSE
+            v_ticket_discount := 0;
+        END IF;
+        v_discount_left := v_discount_left - v_ticket_discount;
+
+        v_price := v_prices[v_index] - v_ticket_discount;
+        v_total := v_total + v_price;
+
+        INSERT INTO tickets (
+            booking_id, show_id, seat_code, ticket_code,
+            price, discount_amount, category, season_pass_id, generated_by, status
+        )
+        VALUES (
+            v_booking_id, p_show_id, v_seat_code, v_ticket_code,
+            v_price, v_ticket_discount + v_group_shares[v_index], v_category, p_season_pass_id, COALESCE(p_generated_by, p_booked_by), 'ACTIVE'
+        )
+        RETURNING id INTO v_ticket_id;
+
+        v_tickets := array_append(v_tickets, json_build_object(
+            'id', v_ticket_id,
+            'booking_id', v_booking_id,
+            'seat_code', v_seat_code,
+            'ticket_code', v_ticket_code,
+            'price', v_price,
+            'discount_amount', v_ticket_discount + v_group_shares[v_index],
+            'category', v_category
+        ));
+
+        v_seq := v_seq + 1;
+    END LOOP;
+
+    -- The seats are booked now, so their holds are no longer needed
+    DELETE FROM seat_holds
+    WHERE show_id = p_show_id
+    AND seat_code = ANY(p_seat_codes);
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', v_booking_id,
+        'tickets', array_to_json(v_tickets),
+        'booking_count', array_length(p_seat_codes, 1),
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount,
+        'promo_code', v_promo_code,
+        'group_discount_amount', v_group_discount,
+        'invoice_number', v_invoice_number,
+        'season_pass_id', p_season_pass_id,
+        'total_amount', v_total
+    );
+END;
+$$;
@@ -0,0 +1,395 @@
+-- Sign-in lockout, idle timeout and a login history for staff accounts
+-- Run this after add-password-policy.sql
+-- Replaces authenticate_user, current_app_user, reset_password_with_token
+-- and private.session_user_id from add-password-policy.sql
+--
+-- After max_failed_logins wrong passwords in a row (5 by default) an account
+-- is locked for a minute, and each further failure locks it for twice as
+-- long, up to an hour. Signing in successfully, a password reset or
+-- unlocking the account from Staff Management starts the count again.
+--
+-- A session also ends once it has gone idle_minutes (15 by default) without
+-- the app reporting any activity, so an unattended counter terminal doesn't
+-- stay signed in. Both can be changed:
+--
+--   UPDATE private.session_settings SET max_failed_logins = 5, idle_minutes = 15;
+--
+-- Every sign-in attempt is recorded with the IP address and browser it came
+-- from. Users can see their own; staff.manage sees everyone's.
+
+ALTER TABLE private.session_settings ADD COLUMN IF NOT EXISTS max_failed_logins INTEGER NOT NULL DEFAULT 5
+    CHECK (max_failed_logins > 0);
+ALTER TABLE private.session_settings ADD COLUMN IF NOT EXISTS idle_minutes INTEGER NOT NULL DEFAULT 15
+    CHECK (idle_minutes > 0);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS failed_login_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+GRANT SELECT (failed_login_count, locked_until) ON users TO authenticated;
+GRANT UPDATE (failed_login_count, locked_until) ON users TO authenticated;
+
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS last_active_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+CREATE TABLE IF NOT EXISTS login_attempts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE, -- NULL for an unknown email
+    email VARCHAR(255) NOT NULL,
+    success BOOLEAN NOT NULL,
+    failure_reason VARCHAR(30), -- INVALID_CREDENTIALS or LOCKED
+    ip_address VARCHAR(64),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_user_id ON login_attempts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_created_at ON login_attempts(created_at);
+
+-- Written only by authenticate_user
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS login_attempts_select ON login_attempts;
+CREATE POLICY login_attempts_select ON login_attempts
+    FOR SELECT TO authenticated
+    USING (user_id = (SELECT app_user_id()) OR (SELECT app_user_can('staff.manage')));
+
+CREATE OR REPLACE FUNCTION private.idle_minutes()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE((SELECT idle_minutes FROM private.session_settings WHERE id = 1), 15);
+$$;
+
+-- A header of the current API request; NULL outside one
+CREATE OR REPLACE FUNCTION private.request_header(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT NULLIF(current_setting('request.headers', true), '')::json->>p_name;
+$$;
+
+-- The address the request came from, as the Supabase proxy passes it on
+CREATE OR REPLACE FUNCTION private.request_ip()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT NULLIF(trim(split_part(private.request_header('x-forwarded-for'), ',', 1)), '');
+$$;
+
+-- Records a sign-in attempt; a NULL reason means it succeeded. Attempts are
+-- kept for 90 days.
+CREATE OR REPLACE FUNCTION private.record_login_attempt(
+    p_user_id UUID,
+    p_email TEXT,
+    p_failure_reason TEXT
+)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+    DELETE FROM login_attempts WHERE created_at < NOW() - INTERVAL '90 days';
+
+    INSERT INTO login_attempts (user_id, email, success, failure_reason, ip_address, user_agent)
+    VALUES (
+        p_user_id, p_email, p_failure_reason IS NULL, p_failure_reason,
+        private.request_ip(), private.request_header('user-agent')
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION private.account_locked_error(p_locked_until TIMESTAMP WITH TIME ZONE)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT json_build_object(
+        'success', false,
+        'error_code', 'ACCOUNT_LOCKED',
+        'error', format(
+            'Too many failed sign-ins. Try again in %s minute%s.',
+            minutes, CASE WHEN minutes = 1 THEN '' ELSE 's' END
+        ),
+        'locked_until', p_locked_until
+    )
+    FROM (SELECT ceil(extract(epoch FROM p_locked_until - NOW()) / 60)::int AS minutes) m;
+$$;
+
+-- Replace private.session_user_id so sessions left idle end
+CREATE OR REPLACE FUNCTION private.session_user_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT u.id
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.id = (request_claims()->>'session_id')::uuid
+    AND s.user_id = (request_claims()->>'sub')::uuid
+    AND s.ended_at IS NULL
+    AND s.expires_at > NOW()
+    AND s.last_active_at > NOW() - make_interval(mins => private.idle_minutes())
+    AND u.active = true;
+$$;
+
+-- Replace authenticate_user to lock accounts after repeated failures and
+-- record every attempt
+CREATE OR REPLACE FUNCTION authenticate_user(
+    p_email TEXT,
+    p_password TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_settings RECORD;
+    v_user RECORD;
+    v_matches BOOLEAN := false;
+    v_session_id UUID;
+    v_expires_at TIMESTAMP WITH TIME ZONE;
+    v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT * INTO v_settings FROM private.session_settings WHERE id = 1;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_CONFIGURED',
+            'error', 'Sign-in is not set up yet: the JWT secret has not been stored'
+        );
+    END IF;
+
+    SELECT id, email, role, full_name, password_hash, password_scheme, failed_login_count, locked_until
+    INTO v_user
+    FROM users
+    WHERE email = p_email
+    AND active = true;
+
+    -- The password isn't even checked while the account is locked, so
+    -- guessing gets nowhere
+    IF FOUND AND v_user.locked_until > NOW() THEN
+        PERFORM private.record_login_attempt(v_user.id, p_email, 'LOCKED');
+        RETURN private.account_locked_error(v_user.locked_until);
+    END IF;
+
+    IF v_user.id IS NOT NULL THEN
+        IF v_user.password_scheme = 'sha256-bcrypt' THEN
+            v_matches := v_user.password_hash = crypt(encode(digest(p_password, 'sha256'), 'hex'), v_user.password_hash);
+        ELSE
+            v_matches := v_user.password_hash = crypt(p_password, v_user.password_hash);
+        END IF;
+    ELSE
+        -- Hash anyway, so an unknown email takes as long as a wrong password
+        PERFORM crypt(p_password, gen_salt('bf', 10));
+    END IF;
+
+    IF NOT v_matches THEN
+        PERFORM private.record_login_attempt(v_user.id, p_email, 'INVALID_CREDENTIALS');
+
+        -- Each failure from max_failed_logins on locks the account for twice
+        -- as long as the one before, from a minute up to an hour
+        IF v_user.id IS NOT NULL THEN
+            UPDATE users
+            SET failed_login_count = failed_login_count + 1,
+                locked_until = CASE
+                    WHEN failed_login_count + 1 >= v_settings.max_failed_logins THEN
+                        NOW() + LEAST(60, power(2, failed_login_count + 1 - v_settings.max_failed_logins)) * INTERVAL '1 minute'
+                END
+            WHERE id = v_user.id
+            RETURNING locked_until INTO v_locked_until;
+
+            IF v_locked_until IS NOT NULL THEN
+                RETURN private.account_locked_error(v_locked_until);
+            END IF;
+        END IF;
+
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_CREDENTIALS',
+            'error', 'Invalid email or password'
+        );
+    END IF;
+
+    IF v_user.password_scheme <> 'bcrypt' THEN
+        UPDATE users
+        SET password_hash = crypt(p_password, gen_salt('bf', 10)),
+            password_scheme = 'bcrypt'
+        WHERE id = v_user.id;
+    END IF;
+
+    -- Passwords set before the policy, such as the default admin's, are
+    -- replaced before the user can do anything else
+    IF private.password_policy_error(p_password, v_user.email) IS NOT NULL THEN
+        UPDATE users
+        SET must_change_password = true
+        WHERE id = v_user.id;
+    END IF;
+
+    IF v_user.failed_login_count > 0 OR v_user.locked_until IS NOT NULL THEN
+        UPDATE users
+        SET failed_login_count = 0,
+            locked_until = NULL
+        WHERE id = v_user.id;
+    END IF;
+
+    PERFORM private.record_login_attempt(v_user.id, p_email, NULL);
+
+    v_expires_at := NOW() + make_interval(hours => v_settings.session_hours);
+
+    INSERT INTO user_sessions (user_id, expires_at)
+    VALUES (v_user.id, v_expires_at)
+    RETURNING id INTO v_session_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'token', private.sign_session_token(jsonb_build_object(
+            'aud', 'authenticated',
+            'role', 'authenticated', -- The database role requests run as, not the app role
+            'sub', v_user.id,
+            'email', v_user.email,
+            'session_id', v_session_id,
+            'iat', floor(extract(epoch FROM NOW())),
+            'exp', floor(extract(epoch FROM v_expires_at))
+        ), v_settings.jwt_secret),
+        'expires_at', v_expires_at,
+        'idle_minutes', v_settings.idle_minutes,
+        'ip_address', private.request_ip(),
+        'user', private.app_user_json(v_user.id)
+    );
+END;
+$$;
+
+-- Replace current_app_user to tell the app how long a session can sit idle
+CREATE OR REPLACE FUNCTION current_app_user()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user RECORD;
+BEGIN
+    SELECT u.id, u.email, u.role, u.full_name, s.expires_at
+    INTO v_user
+    FROM users u
+    JOIN user_sessions s ON s.id = (request_claims()->>'session_id')::uuid
+    WHERE u.id = private.session_user_id();
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SESSION',
+            'error', 'Your session has ended. Sign in again.'
+        );
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'expires_at', v_user.expires_at,
+        'idle_minutes', private.idle_minutes(),
+        'user', private.app_user_json(v_user.id)
+    );
+END;
+$$;
+
+-- Called by the app while someone is using it, so their session stays open
+CREATE OR REPLACE FUNCTION keep_session_alive()
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    UPDATE user_sessions
+    SET last_active_at = NOW()
+    WHERE id = (request_claims()->>'session_id')::uuid
+    AND user_id = private.session_user_id()
+    RETURNING expires_at INTO v_expires_at;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SESSION',
+            'error', 'Your session has ended. Sign in again.'
+        );
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'expires_at', v_expires_at,
+        'idle_minutes', private.idle_minutes()
+    );
+END;
+$$;
+
+-- Replace reset_password_with_token so a reset also unlocks the account
+CREATE OR REPLACE FUNCTION reset_password_with_token(
+    p_token TEXT,
+    p_new_password TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_reset RECORD;
+    v_policy_error TEXT;
+BEGIN
+    SELECT r.id, r.user_id, u.email
+    INTO v_reset
+    FROM password_resets r
+    JOIN users u ON u.id = r.user_id
+    WHERE r.token_hash = encode(digest(p_token, 'sha256'), 'hex')
+    AND r.used_at IS NULL
+    AND r.expires_at > NOW()
+    AND u.active = true
+    FOR UPDATE OF r;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_TOKEN',
+            'error', 'This reset link has expired or has already been used. Ask for a new one.'
+        );
+    END IF;
+
+    v_policy_error := private.password_policy_error(p_new_password, v_reset.email);
+
+    IF v_policy_error IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'WEAK_PASSWORD',
+            'error', v_policy_error
+        );
+    END IF;
+
+    UPDATE users
+    SET password_hash = crypt(p_new_password, gen_salt('bf', 10)),
+        password_scheme = 'bcrypt',
+        must_change_password = false,
+        password_changed_at = NOW(),
+        failed_login_count = 0,
+        locked_until = NULL,
+        updated_at = NOW()
+    WHERE id = v_reset.user_id;
+
+    UPDATE password_resets SET used_at = NOW() WHERE id = v_reset.id;
+
+    UPDATE user_sessions
+    SET ended_at = NOW()
+    WHERE user_id = v_reset.user_id
+    AND ended_at IS NULL;
+
+    RETURN json_build_object(
+        'success', true,
+        'email', v_reset.email
+    );
+END;
+$$;
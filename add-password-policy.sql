@@ -0,0 +1,530 @@
+-- Password changes, admin-initiated resets and a password policy for staff
+-- accounts
+-- Run this after add-permissions.sql
+-- Replaces app_user_id from add-sessions.sql, and create_user,
+-- authenticate_user, current_app_user and private.app_user_json from
+-- add-permissions.sql
+--
+-- Passwords need at least 10 characters, with letters and numbers, and
+-- can't contain the name part of the user's email address. Users who must
+-- change their password (new accounts added through the app, and anyone
+-- who signs in with a password that breaks the policy) can sign in, but
+-- can do nothing else until they have chosen a new one.
+--
+-- A reset gives a one-time link that works for 24 hours. Whoever resets a
+-- password passes the link on; the user picks a new password with it and
+-- every session they had is ended.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS must_change_password BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP WITH TIME ZONE;
+
+GRANT SELECT (must_change_password, password_changed_at) ON users TO authenticated;
+GRANT UPDATE (must_change_password) ON users TO authenticated;
+
+-- Only the token's hash is kept, so the table can't be used to sign in
+CREATE TABLE IF NOT EXISTS password_resets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_resets_user_id ON password_resets(user_id);
+
+-- Only reachable through the functions below
+ALTER TABLE password_resets ENABLE ROW LEVEL SECURITY;
+
+-- Why a password breaks the policy, or NULL if it doesn't;
+-- src/utils/passwords.ts mirrors this
+CREATE OR REPLACE FUNCTION private.password_policy_error(p_password TEXT, p_email TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN length(p_password) < 10 THEN 'Passwords need at least 10 characters'
+        WHEN p_password !~ '[A-Za-z]' OR p_password !~ '[0-9]' THEN 'Passwords need both letters and numbers'
+        WHEN length(split_part(p_email, '@', 1)) >= 3
+            AND position(lower(split_part(p_email, '@', 1)) IN lower(p_password)) > 0
+            THEN 'Passwords can''t contain your email address'
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION private.password_matches(p_user_id UUID, p_password TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    SELECT COALESCE((
+        SELECT CASE
+            WHEN password_scheme = 'sha256-bcrypt'
+                THEN password_hash = crypt(encode(digest(p_password, 'sha256'), 'hex'), password_hash)
+            ELSE password_hash = crypt(p_password, password_hash)
+        END
+        FROM users
+        WHERE id = p_user_id
+    ), false);
+$$;
+
+-- The user behind the request's live session, whether or not they still
+-- have to change their password
+CREATE OR REPLACE FUNCTION private.session_user_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT u.id
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.id = (request_claims()->>'session_id')::uuid
+    AND s.user_id = (request_claims()->>'sub')::uuid
+    AND s.ended_at IS NULL
+    AND s.expires_at > NOW()
+    AND u.active = true;
+$$;
+
+-- Replace app_user_id so a user who must change their password gets no
+-- access until they have
+CREATE OR REPLACE FUNCTION app_user_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT id
+    FROM users
+    WHERE id = private.session_user_id()
+    AND NOT must_change_password;
+$$;
+
+-- Replace private.app_user_json to say whether the user must change their
+-- password
+CREATE OR REPLACE FUNCTION private.app_user_json(p_user_id UUID)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT json_build_object(
+        'id', u.id,
+        'email', u.email,
+        'role', u.role,
+        'role_label', r.label,
+        'full_name', u.full_name,
+        'must_change_password', u.must_change_password,
+        'permissions', CASE
+            WHEN u.role = 'admin' THEN ARRAY(SELECT key FROM permissions ORDER BY key)
+            ELSE ARRAY(SELECT permission FROM role_permissions WHERE role = u.role ORDER BY permission)
+        END
+    )
+    FROM users u
+    LEFT JOIN roles r ON r.name = u.role
+    WHERE u.id = p_user_id;
+$$;
+
+-- Replace create_user to apply the password policy, and to have users added
+-- through the app choose their own password when they first sign in
+CREATE OR REPLACE FUNCTION create_user(
+    p_email TEXT,
+    p_password TEXT,
+    p_role TEXT DEFAULT 'staff',
+    p_full_name TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_policy_error TEXT;
+BEGIN
+    -- Through the API adding users takes staff.manage, and adding an admin
+    -- takes an admin. Scripts run in the SQL editor carry no claims, so they
+    -- can still create the first admin.
+    IF request_claims() IS NOT NULL AND NOT app_user_can('staff.manage') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'You are not allowed to add users'
+        );
+    END IF;
+
+    IF request_claims() IS NOT NULL AND p_role = 'admin' AND app_user_role() IS DISTINCT FROM 'admin' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'Only an admin can add admins'
+        );
+    END IF;
+
+    v_policy_error := private.password_policy_error(p_password, p_email);
+
+    IF v_policy_error IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'WEAK_PASSWORD',
+            'error', v_policy_error
+        );
+    END IF;
+
+    -- Whoever added the user knows this password, so the user replaces it
+    INSERT INTO users (email, password_hash, password_scheme, role, full_name, must_change_password)
+    VALUES (
+        p_email, crypt(p_password, gen_salt('bf', 10)), 'bcrypt', p_role, p_full_name,
+        request_claims() IS NOT NULL
+    )
+    RETURNING id INTO v_user_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'user_id', v_user_id,
+        'email', p_email,
+        'role', p_role
+    );
+EXCEPTION
+    WHEN unique_violation THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'User with this email already exists'
+        );
+    WHEN foreign_key_violation THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'UNKNOWN_ROLE',
+            'error', 'There is no role called ' || p_role
+        );
+    WHEN OTHERS THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', SQLERRM
+        );
+END;
+$$;
+
+-- Replace authenticate_user to send anyone whose password breaks the policy
+-- to choose a new one
+CREATE OR REPLACE FUNCTION authenticate_user(
+    p_email TEXT,
+    p_password TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_settings RECORD;
+    v_user RECORD;
+    v_matches BOOLEAN := false;
+    v_session_id UUID;
+    v_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT * INTO v_settings FROM private.session_settings WHERE id = 1;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_CONFIGURED',
+            'error', 'Sign-in is not set up yet: the JWT secret has not been stored'
+        );
+    END IF;
+
+    SELECT id, email, role, full_name, password_hash, password_scheme
+    INTO v_user
+    FROM users
+    WHERE email = p_email
+    AND active = true;
+
+    IF FOUND THEN
+        IF v_user.password_scheme = 'sha256-bcrypt' THEN
+            v_matches := v_user.password_hash = crypt(encode(digest(p_password, 'sha256'), 'hex'), v_user.password_hash);
+        ELSE
+            v_matches := v_user.password_hash = crypt(p_password, v_user.password_hash);
+        END IF;
+    ELSE
+        -- Hash anyway, so an unknown email takes as long as a wrong password
+        PERFORM crypt(p_password, gen_salt('bf', 10));
+    END IF;
+
+    IF NOT v_matches THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_CREDENTIALS',
+            'error', 'Invalid email or password'
+        );
+    END IF;
+
+    IF v_user.password_scheme <> 'bcrypt' THEN
+        UPDATE users
+        SET password_hash = crypt(p_password, gen_salt('bf', 10)),
+            password_scheme = 'bcrypt'
+        WHERE id = v_user.id;
+    END IF;
+
+    -- Passwords set before the policy, such as the default admin's, are
+    -- replaced before the user can do anything else
+    IF private.password_policy_error(p_password, v_user.email) IS NOT NULL THEN
+        UPDATE users
+        SET must_change_password = true
+        WHERE id = v_user.id;
+    END IF;
+
+    v_expires_at := NOW() + make_interval(hours => v_settings.session_hours);
+
+    INSERT INTO user_sessions (user_id, expires_at)
+    VALUES (v_user.id, v_expires_at)
+    RETURNING id INTO v_session_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'token', private.sign_session_token(jsonb_build_object(
+            'aud', 'authenticated',
+            'role', 'authenticated', -- The database role requests run as, not the app role
+            'sub', v_user.id,
+            'email', v_user.email,
+            'session_id', v_session_id,
+            'iat', floor(extract(epoch FROM NOW())),
+            'exp', floor(extract(epoch FROM v_expires_at))
+        ), v_settings.jwt_secret),
+        'expires_at', v_expires_at,
+        'user', private.app_user_json(v_user.id)
+    );
+END;
+$$;
+
+-- Replace current_app_user so users who must change their password can
+-- still load the app to do it
+CREATE OR REPLACE FUNCTION current_app_user()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user RECORD;
+BEGIN
+    SELECT u.id, u.email, u.role, u.full_name, s.expires_at
+    INTO v_user
+    FROM users u
+    JOIN user_sessions s ON s.id = (request_claims()->>'session_id')::uuid
+    WHERE u.id = private.session_user_id();
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SESSION',
+            'error', 'Your session has ended. Sign in again.'
+        );
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'expires_at', v_user.expires_at,
+        'user', private.app_user_json(v_user.id)
+    );
+END;
+$$;
+
+-- Change the signed-in user's password. Their other sessions are ended, so
+-- anyone else using the old password is signed out.
+CREATE OR REPLACE FUNCTION change_password(
+    p_current_password TEXT,
+    p_new_password TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_user_id UUID := private.session_user_id();
+    v_email TEXT;
+    v_policy_error TEXT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SESSION',
+            'error', 'Your session has ended. Sign in again.'
+        );
+    END IF;
+
+    IF NOT private.password_matches(v_user_id, p_current_password) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'WRONG_PASSWORD',
+            'error', 'Your current password is not right'
+        );
+    END IF;
+
+    IF p_new_password = p_current_password THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SAME_PASSWORD',
+            'error', 'Choose a password you aren''t using now'
+        );
+    END IF;
+
+    SELECT email INTO v_email FROM users WHERE id = v_user_id;
+    v_policy_error := private.password_policy_error(p_new_password, v_email);
+
+    IF v_policy_error IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'WEAK_PASSWORD',
+            'error', v_policy_error
+        );
+    END IF;
+
+    UPDATE users
+    SET password_hash = crypt(p_new_password, gen_salt('bf', 10)),
+        password_scheme = 'bcrypt',
+        must_change_password = false,
+        password_changed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_user_id;
+
+    UPDATE user_sessions
+    SET ended_at = NOW()
+    WHERE user_id = v_user_id
+    AND id <> (request_claims()->>'session_id')::uuid
+    AND ended_at IS NULL;
+
+    RETURN json_build_object(
+        'success', true,
+        'user', private.app_user_json(v_user_id)
+    );
+END;
+$$;
+
+-- Start a reset for a user, returning the one-time token for their link.
+-- Any earlier link for them stops working.
+CREATE OR REPLACE FUNCTION create_password_reset(p_user_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_user RECORD;
+    v_token TEXT;
+    v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + INTERVAL '24 hours';
+BEGIN
+    -- Through the API resets take staff.manage, and resetting an admin takes
+    -- an admin, as changing users does
+    IF request_claims() IS NOT NULL AND NOT app_user_can('staff.manage') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'You are not allowed to reset passwords'
+        );
+    END IF;
+
+    SELECT id, email, role INTO v_user FROM users WHERE id = p_user_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'USER_NOT_FOUND',
+            'error', 'User not found'
+        );
+    END IF;
+
+    IF request_claims() IS NOT NULL AND v_user.role = 'admin' AND app_user_role() IS DISTINCT FROM 'admin' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'Only an admin can reset an admin''s password'
+        );
+    END IF;
+
+    DELETE FROM password_resets
+    WHERE user_id = v_user.id
+    AND used_at IS NULL;
+
+    v_token := private.base64url(gen_random_bytes(24));
+
+    INSERT INTO password_resets (user_id, token_hash, created_by, expires_at)
+    VALUES (v_user.id, encode(digest(v_token, 'sha256'), 'hex'), app_user_email(), v_expires_at);
+
+    RETURN json_build_object(
+        'success', true,
+        'token', v_token,
+        'email', v_user.email,
+        'expires_at', v_expires_at
+    );
+END;
+$$;
+
+-- Set a new password with a reset token. Needs no session, since the user
+-- can't sign in; the token can only be used once.
+CREATE OR REPLACE FUNCTION reset_password_with_token(
+    p_token TEXT,
+    p_new_password TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_reset RECORD;
+    v_policy_error TEXT;
+BEGIN
+    SELECT r.id, r.user_id, u.email
+    INTO v_reset
+    FROM password_resets r
+    JOIN users u ON u.id = r.user_id
+    WHERE r.token_hash = encode(digest(p_token, 'sha256'), 'hex')
+    AND r.used_at IS NULL
+    AND r.expires_at > NOW()
+    AND u.active = true
+    FOR UPDATE OF r;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_TOKEN',
+            'error', 'This reset link has expired or has already been used. Ask for a new one.'
+        );
+    END IF;
+
+    v_policy_error := private.password_policy_error(p_new_password, v_reset.email);
+
+    IF v_policy_error IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'WEAK_PASSWORD',
+            'error', v_policy_error
+        );
+    END IF;
+
+    UPDATE users
+    SET password_hash = crypt(p_new_password, gen_salt('bf', 10)),
+        password_scheme = 'bcrypt',
+        must_change_password = false,
+        password_changed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_reset.user_id;
+
+    UPDATE password_resets SET used_at = NOW() WHERE id = v_reset.id;
+
+    UPDATE user_sessions
+    SET ended_at = NOW()
+    WHERE user_id = v_reset.user_id
+    AND ended_at IS NULL;
+
+    RETURN json_build_object(
+        'success', true,
+        'email', v_reset.email
+    );
+END;
+$$;
@@ -0,0 +1,1774 @@
+-- Roles with configurable permissions, in place of the fixed admin and
+-- staff roles
+-- Run this after add-row-level-security.sql
+-- Replaces create_user, authenticate_user and current_app_user from
+-- add-sessions.sql, cancel_booking_seats, cancel_show and reschedule_show
+-- from add-row-level-security.sql, book_seats_atomic, check_in_ticket and
+-- close_cash_shift, and every policy that checked for the admin role.
+-- Adds review_refund, in place of updating refunds directly.
+--
+-- A role grants a set of permissions, such as booking.create or
+-- report.view. Admins hold every permission and are the only ones who can
+-- change roles, so no one can grant themselves more than they have been
+-- given. Existing users keep their role: the staff role starts with what
+-- staff could do before.
+
+-- Every permission the app checks; src/utils/permissions.ts mirrors this
+CREATE TABLE IF NOT EXISTS permissions (
+    key VARCHAR(40) PRIMARY KEY,
+    description TEXT NOT NULL
+);
+
+INSERT INTO permissions (key, description) VALUES
+    ('show.edit', 'Add, edit and delete shows and series'),
+    ('show.cancel', 'Cancel and reschedule shows, and send their notifications'),
+    ('layout.edit', 'Design seating layouts'),
+    ('booking.create', 'Sell tickets, hold seats and manage the waitlist'),
+    ('booking.cancel', 'Cancel bookings and raise refunds'),
+    ('ticket.view', 'See ticket history'),
+    ('ticket.checkin', 'Check tickets in at the gate'),
+    ('customer.view', 'See customers and their bookings'),
+    ('customer.edit', 'Add, edit and remove customers and sell season passes'),
+    ('promo.edit', 'Manage promo codes'),
+    ('refund.approve', 'Approve and reject refunds'),
+    ('cash.shift', 'Run a cash drawer'),
+    ('cash.manage', 'See and close every cash shift'),
+    ('report.view', 'See the dashboard, reports, analytics and activity log'),
+    ('settings.edit', 'Change venues, holidays, the show lifecycle and the refund policy'),
+    ('staff.manage', 'Add staff and change their roles')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+CREATE TABLE IF NOT EXISTS roles (
+    name VARCHAR(30) PRIMARY KEY CHECK (name ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+    label VARCHAR(60) NOT NULL,
+    description TEXT,
+    built_in BOOLEAN NOT NULL DEFAULT false, -- Can't be removed
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+    role VARCHAR(30) NOT NULL REFERENCES roles(name) ON DELETE CASCADE ON UPDATE CASCADE,
+    permission VARCHAR(40) NOT NULL REFERENCES permissions(key) ON DELETE CASCADE,
+    PRIMARY KEY (role, permission)
+);
+
+-- Admins hold every permission without it being listed here
+INSERT INTO roles (name, label, description, built_in) VALUES
+    ('admin', 'Admin', 'Everything, including changing roles', true),
+    ('staff', 'Staff', 'Sells tickets and looks after customers', true),
+    ('manager', 'Manager', 'Runs shows, layouts, prices and the box office', false),
+    ('box-office', 'Box Office', 'Sells and cancels tickets at the counter', false),
+    ('gate-checker', 'Gate Checker', 'Checks tickets in at the gate', false),
+    ('accountant', 'Accountant', 'Reports, refunds and cash shifts', false)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission)
+SELECT role, permission
+FROM (VALUES
+    ('staff', ARRAY['booking.create', 'booking.cancel', 'ticket.view', 'ticket.checkin',
+        'customer.view', 'customer.edit', 'cash.shift']),
+    ('manager', ARRAY['show.edit', 'show.cancel', 'layout.edit', 'booking.create', 'booking.cancel',
+        'ticket.view', 'ticket.checkin', 'customer.view', 'customer.edit', 'promo.edit',
+        'refund.approve', 'cash.shift', 'cash.manage', 'report.view']),
+    ('box-office', ARRAY['booking.create', 'booking.cancel', 'ticket.view', 'customer.view',
+        'customer.edit', 'cash.shift']),
+    ('gate-checker', ARRAY['ticket.view', 'ticket.checkin']),
+    ('accountant', ARRAY['ticket.view', 'customer.view', 'refund.approve', 'cash.manage', 'report.view'])
+) AS defaults(role, permissions), unnest(permissions) AS permission
+-- Only for roles that have none yet, so running this again keeps any changes
+WHERE NOT EXISTS (SELECT 1 FROM role_permissions rp WHERE rp.role = defaults.role)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_fkey;
+ALTER TABLE users ADD CONSTRAINT users_role_fkey
+    FOREIGN KEY (role) REFERENCES roles(name) ON UPDATE CASCADE;
+
+-- Whether the signed-in user's role grants a permission
+CREATE OR REPLACE FUNCTION app_user_can(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        app_user_role() = 'admin' OR EXISTS (
+            SELECT 1 FROM role_permissions
+            WHERE role = app_user_role()
+            AND permission = p_permission
+        ),
+        false
+    );
+$$;
+
+-- A user as the app sees them, with what their role lets them do
+CREATE OR REPLACE FUNCTION private.app_user_json(p_user_id UUID)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT json_build_object(
+        'id', u.id,
+        'email', u.email,
+        'role', u.role,
+        'role_label', r.label,
+        'full_name', u.full_name,
+        'permissions', CASE
+            WHEN u.role = 'admin' THEN ARRAY(SELECT key FROM permissions ORDER BY key)
+            ELSE ARRAY(SELECT permission FROM role_permissions WHERE role = u.role ORDER BY permission)
+        END
+    )
+    FROM users u
+    LEFT JOIN roles r ON r.name = u.role
+    WHERE u.id = p_user_id;
+$$;
+
+-- Save a role and its permissions in one go; only admins get past the policies
+CREATE OR REPLACE FUNCTION save_role(
+    p_name TEXT,
+    p_label TEXT,
+    p_description TEXT,
+    p_permissions TEXT[]
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF p_name = 'admin' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'BUILT_IN_ROLE',
+            'error', 'Admins always hold every permission'
+        );
+    END IF;
+
+    IF NULLIF(TRIM(p_label), '') IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'LABEL_REQUIRED',
+            'error', 'Enter a name for the role'
+        );
+    END IF;
+
+    INSERT INTO roles (name, label, description)
+    VALUES (p_name, TRIM(p_label), NULLIF(TRIM(p_description), ''))
+    ON CONFLICT (name) DO UPDATE
+    SET label = EXCLUDED.label,
+        description = EXCLUDED.description,
+        updated_at = NOW();
+
+    DELETE FROM role_permissions
+    WHERE role = p_name
+    AND permission <> ALL(p_permissions);
+
+    INSERT INTO role_permissions (role, permission)
+    SELECT p_name, permission
+    FROM unnest(p_permissions) AS permission
+    ON CONFLICT DO NOTHING;
+
+    RETURN json_build_object('success', true, 'name', p_name);
+EXCEPTION
+    WHEN insufficient_privilege THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'Only an admin can change roles'
+        );
+    WHEN check_violation THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_NAME',
+            'error', 'Role names use lower-case letters, digits and dashes'
+        );
+    WHEN foreign_key_violation THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'UNKNOWN_PERMISSION',
+            'error', 'One of the permissions does not exist'
+        );
+END;
+$$;
+
+ALTER TABLE permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS permissions_select ON permissions;
+CREATE POLICY permissions_select ON permissions
+    FOR SELECT TO authenticated
+    USING ((SELECT app_user_id()) IS NOT NULL);
+
+DROP POLICY IF EXISTS roles_select ON roles;
+CREATE POLICY roles_select ON roles
+    FOR SELECT TO authenticated
+    USING ((SELECT app_user_id()) IS NOT NULL);
+
+DROP POLICY IF EXISTS roles_admin_write ON roles;
+CREATE POLICY roles_admin_write ON roles
+    FOR ALL TO authenticated
+    USING ((SELECT app_user_role()) = 'admin' AND NOT built_in)
+    WITH CHECK ((SELECT app_user_role()) = 'admin');
+
+DROP POLICY IF EXISTS roles_admin_update_built_in ON roles;
+CREATE POLICY roles_admin_update_built_in ON roles
+    FOR UPDATE TO authenticated
+    USING ((SELECT app_user_role()) = 'admin' AND built_in AND name <> 'admin')
+    WITH CHECK ((SELECT app_user_role()) = 'admin');
+
+DROP POLICY IF EXISTS role_permissions_select ON role_permissions;
+CREATE POLICY role_permissions_select ON role_permissions
+    FOR SELECT TO authenticated
+    USING ((SELECT app_user_id()) IS NOT NULL);
+
+DROP POLICY IF EXISTS role_permissions_admin_write ON role_permissions;
+CREATE POLICY role_permissions_admin_write ON role_permissions
+    FOR ALL TO authenticated
+    USING ((SELECT app_user_role()) = 'admin')
+    WITH CHECK ((SELECT app_user_role()) = 'admin' AND role <> 'admin');
+
+-- Tables anyone signed in reads and a permission lets them change, in place
+-- of the admin-only writes from add-row-level-security.sql
+DO $$
+DECLARE
+    v_table TEXT;
+    v_permission TEXT;
+BEGIN
+    FOR v_table, v_permission IN
+        SELECT * FROM (VALUES
+            ('shows', 'show.edit'),
+            ('show_series', 'show.edit'),
+            ('show_booking_moves', 'show.cancel'),
+            ('layouts', 'layout.edit'),
+            ('seats', 'layout.edit'),
+            ('promo_codes', 'promo.edit'),
+            ('venues', 'settings.edit'),
+            ('holidays', 'settings.edit'),
+            ('show_status_transitions', 'settings.edit'),
+            ('show_lifecycle_settings', 'settings.edit'),
+            ('refund_policy_settings', 'settings.edit'),
+            ('customers', 'customer.edit'),
+            ('season_passes', 'customer.edit'),
+            ('seat_holds', 'booking.create'),
+            ('waitlist_entries', 'booking.create'),
+            ('customer_notifications', 'show.cancel')
+        ) AS tables(table_name, permission)
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_table || '_admin_write', v_table);
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_table || '_signed_in', v_table);
+
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_table || '_select', v_table);
+        EXECUTE format(
+            'CREATE POLICY %I ON %I FOR SELECT TO authenticated USING ((SELECT app_user_id()) IS NOT NULL)',
+            v_table || '_select', v_table
+        );
+
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_table || '_write', v_table);
+        EXECUTE format(
+            'CREATE POLICY %I ON %I FOR ALL TO authenticated '
+            'USING ((SELECT app_user_can(%L))) WITH CHECK ((SELECT app_user_can(%L)))',
+            v_table || '_write', v_table, v_permission, v_permission
+        );
+    END LOOP;
+END;
+$$;
+
+-- Bookings, tickets, payments and refunds are written only by the
+-- functions below, which check for the permission themselves. Deleting any
+-- of them stays with admins.
+
+-- Anyone with a drawer opens and closes their own; cash.manage covers every
+-- drawer
+DROP POLICY IF EXISTS cash_shifts_select ON cash_shifts;
+CREATE POLICY cash_shifts_select ON cash_shifts
+    FOR SELECT TO authenticated
+    USING (staff_email = (SELECT app_user_email()) OR (SELECT app_user_can('cash.manage')));
+
+DROP POLICY IF EXISTS cash_shifts_insert ON cash_shifts;
+CREATE POLICY cash_shifts_insert ON cash_shifts
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        status = 'OPEN' AND (
+            (staff_email = (SELECT app_user_email()) AND (SELECT app_user_can('cash.shift')))
+            OR (SELECT app_user_can('cash.manage'))
+        )
+    );
+
+DROP POLICY IF EXISTS cash_shifts_admin_update ON cash_shifts;
+DROP POLICY IF EXISTS cash_shifts_update ON cash_shifts;
+CREATE POLICY cash_shifts_update ON cash_shifts
+    FOR UPDATE TO authenticated
+    USING ((SELECT app_user_can('cash.manage')))
+    WITH CHECK ((SELECT app_user_can('cash.manage')));
+
+DROP POLICY IF EXISTS activity_logs_select ON activity_logs;
+CREATE POLICY activity_logs_select ON activity_logs
+    FOR SELECT TO authenticated
+    USING (performed_by = (SELECT app_user_email()) OR (SELECT app_user_can('report.view')));
+
+-- staff.manage covers everyone but admins; only admins add, change or
+-- remove admins
+DROP POLICY IF EXISTS users_select ON users;
+CREATE POLICY users_select ON users
+    FOR SELECT TO authenticated
+    USING (id = (SELECT app_user_id()) OR (SELECT app_user_can('staff.manage')));
+
+DROP POLICY IF EXISTS users_admin_update ON users;
+DROP POLICY IF EXISTS users_update ON users;
+CREATE POLICY users_update ON users
+    FOR UPDATE TO authenticated
+    USING ((SELECT app_user_can('staff.manage')) AND (role <> 'admin' OR (SELECT app_user_role()) = 'admin'))
+    WITH CHECK ((SELECT app_user_can('staff.manage')) AND (role <> 'admin' OR (SELECT app_user_role()) = 'admin'));
+
+DROP POLICY IF EXISTS users_admin_delete ON users;
+DROP POLICY IF EXISTS users_delete ON users;
+CREATE POLICY users_delete ON users
+    FOR DELETE TO authenticated
+    USING ((SELECT app_user_can('staff.manage')) AND (role <> 'admin' OR (SELECT app_user_role()) = 'admin'));
+
+-- Moving a layout to another venue moves its shows, which needs layout.edit
+-- rather than show.edit
+ALTER FUNCTION move_layout_shows_venue() SECURITY DEFINER SET search_path = public;
+
+-- Replace create_user to check for staff.manage
+CREATE OR REPLACE FUNCTION create_user(
+    p_email TEXT,
+    p_password TEXT,
+    p_role TEXT DEFAULT 'staff',
+    p_full_name TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_user_id UUID;
+BEGIN
+    -- Through the API adding users takes staff.manage, and adding an admin
+    -- takes an admin. Scripts run in the SQL editor carry no claims, so they
+    -- can still create the first admin.
+    IF request_claims() IS NOT NULL AND NOT app_user_can('staff.manage') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'You are not allowed to add users'
+        );
+    END IF;
+
+    IF request_claims() IS NOT NULL AND p_role = 'admin' AND app_user_role() IS DISTINCT FROM 'admin' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'Only an admin can add admins'
+        );
+    END IF;
+
+    INSERT INTO users (email, password_hash, password_scheme, role, full_name)
+    VALUES (p_email, crypt(p_password, gen_salt('bf', 10)), 'bcrypt', p_role, p_full_name)
+    RETURNING id INTO v_user_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'user_id', v_user_id,
+        'email', p_email,
+        'role', p_role
+    );
+EXCEPTION
+    WHEN unique_violation THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'User with this email already exists'
+        );
+    WHEN foreign_key_violation THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'UNKNOWN_ROLE',
+            'error', 'There is no role called ' || p_role
+        );
+    WHEN OTHERS THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', SQLERRM
+        );
+END;
+$$;
+
+-- Replace authenticate_user and current_app_user to include the user's
+-- role and permissions
+CREATE OR REPLACE FUNCTION authenticate_user(
+    p_email TEXT,
+    p_password TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_settings RECORD;
+    v_user RECORD;
+    v_matches BOOLEAN := false;
+    v_session_id UUID;
+    v_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT * INTO v_settings FROM private.session_settings WHERE id = 1;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_CONFIGURED',
+            'error', 'Sign-in is not set up yet: the JWT secret has not been stored'
+        );
+    END IF;
+
+    SELECT id, email, role, full_name, password_hash, password_scheme
+    INTO v_user
+    FROM users
+    WHERE email = p_email
+    AND active = true;
+
+    IF FOUND THEN
+        IF v_user.password_scheme = 'sha256-bcrypt' THEN
+            v_matches := v_user.password_hash = crypt(encode(digest(p_password, 'sha256'), 'hex'), v_user.password_hash);
+        ELSE
+            v_matches := v_user.password_hash = crypt(p_password, v_user.password_hash);
+        END IF;
+    ELSE
+        -- Hash anyway, so an unknown email takes as long as a wrong password
+        PERFORM crypt(p_password, gen_salt('bf', 10));
+    END IF;
+
+    IF NOT v_matches THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_CREDENTIALS',
+            'error', 'Invalid email or password'
+        );
+    END IF;
+
+    IF v_user.password_scheme <> 'bcrypt' THEN
+        UPDATE users
+        SET password_hash = crypt(p_password, gen_salt('bf', 10)),
+            password_scheme = 'bcrypt'
+        WHERE id = v_user.id;
+    END IF;
+
+    v_expires_at := NOW() + make_interval(hours => v_settings.session_hours);
+
+    INSERT INTO user_sessions (user_id, expires_at)
+    VALUES (v_user.id, v_expires_at)
+    RETURNING id INTO v_session_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'token', private.sign_session_token(jsonb_build_object(
+            'aud', 'authenticated',
+            'role', 'authenticated', -- The database role requests run as, not the app role
+            'sub', v_user.id,
+            'email', v_user.email,
+            'session_id', v_session_id,
+            'iat', floor(extract(epoch FROM NOW())),
+            'exp', floor(extract(epoch FROM v_expires_at))
+        ), v_settings.jwt_secret),
+        'expires_at', v_expires_at,
+        'user', private.app_user_json(v_user.id)
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION current_app_user()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user RECORD;
+BEGIN
+    SELECT u.id, u.email, u.role, u.full_name, s.expires_at
+    INTO v_user
+    FROM users u
+    JOIN user_sessions s ON s.id = (request_claims()->>'session_id')::uuid
+    WHERE u.id = app_user_id();
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SESSION',
+            'error', 'Your session has ended. Sign in again.'
+        );
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'expires_at', v_user.expires_at,
+        'user', private.app_user_json(v_user.id)
+    );
+END;
+$$;
+
+-- Replace cancel_booking_seats to check for booking.cancel
+CREATE OR REPLACE FUNCTION cancel_booking_seats(
+    p_booking_id UUID,
+    p_seat_codes TEXT[] DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_cancelled_by TEXT := COALESCE(app_user_email(), 'system');
+    v_booking RECORD;
+    v_show_status TEXT;
+    v_booked TEXT[];
+    v_cancel TEXT[];
+    v_remaining TEXT[];
+    v_invalid TEXT[];
+    v_revoked INTEGER;
+    v_ticket_amount DECIMAL(10,2);
+    v_refund_percent DECIMAL(5,2);
+    v_refund_method TEXT;
+    v_refund_id UUID;
+    v_refund_amount DECIMAL(10,2);
+    v_waitlist_offers INTEGER;
+BEGIN
+    -- Through the API cancelling takes booking.cancel
+    IF request_claims() IS NOT NULL AND NOT app_user_can('booking.cancel') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'You are not allowed to cancel bookings'
+        );
+    END IF;
+
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Booking not found'
+        );
+    END IF;
+
+    -- Take the same lock as book_seats_atomic so freed seats are never double-booked
+    PERFORM pg_advisory_xact_lock(hashtext(v_booking.show_id::text));
+
+    -- Re-read the booking now that we hold the show lock
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_id
+    FOR UPDATE;
+
+    IF v_booking.status = 'CANCELLED' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Booking is already cancelled'
+        );
+    END IF;
+
+    SELECT status INTO v_show_status
+    FROM shows
+    WHERE id = v_booking.show_id;
+
+    IF v_show_status = 'SHOW_DONE' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Bookings for a completed show cannot be cancelled'
+        );
+    END IF;
+
+    -- seat_code is stored either as a JSON array or as a comma separated list
+    IF left(v_booking.seat_code, 1) = '[' THEN
+        SELECT array_agg(value) INTO v_booked
+        FROM json_array_elements_text(v_booking.seat_code::json);
+    ELSE
+        SELECT array_agg(trim(seat)) INTO v_booked
+        FROM unnest(string_to_array(v_booking.seat_code, ',')) AS seat;
+    END IF;
+
+    v_cancel := COALESCE(p_seat_codes, v_booked);
+
+    IF array_length(v_cancel, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'No seats selected for cancellation'
+        );
+    END IF;
+
+    SELECT array_agg(seat) INTO v_invalid
+    FROM unnest(v_cancel) AS seat
+    WHERE NOT (seat = ANY(v_booked));
+
+    IF v_invalid IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Some seats are not part of this booking',
+            'invalid_seats', v_invalid
+        );
+    END IF;
+
+    SELECT array_agg(seat ORDER BY ord) INTO v_remaining
+    FROM unnest(v_booked) WITH ORDINALITY AS t(seat, ord)
+    WHERE NOT (seat = ANY(v_cancel));
+
+    -- Revoke the tickets for the released seats
+    WITH revoked AS (
+        UPDATE tickets
+        SET status = 'REVOKED', revoked_at = NOW()
+        WHERE booking_id = p_booking_id
+        AND seat_code = ANY(v_cancel)
+        AND status = 'ACTIVE'
+        RETURNING price
+    )
+    SELECT COUNT(*), COALESCE(SUM(price), 0) INTO v_revoked, v_ticket_amount
+    FROM revoked;
+
+    -- Raise a refund for what the released tickets were sold for, at the
+    -- policy rate. Season pass and free tickets have nothing to refund.
+    IF v_ticket_amount > 0 THEN
+        v_refund_percent := refund_policy_percent(v_booking.show_id);
+        v_refund_amount := ROUND(v_ticket_amount * v_refund_percent / 100, 2);
+
+        -- Refund the way most of the booking was paid
+        SELECT method INTO v_refund_method
+        FROM payments
+        WHERE booking_id = p_booking_id
+        ORDER BY amount DESC
+        LIMIT 1;
+
+        INSERT INTO refunds (
+            booking_id, show_id, seat_codes, ticket_amount, policy_percent,
+            amount, method, reason, requested_by
+        )
+        VALUES (
+            p_booking_id, v_booking.show_id, v_cancel, v_ticket_amount, v_refund_percent,
+            v_refund_amount, COALESCE(v_refund_method, 'CASH'), p_reason, v_cancelled_by
+        )
+        RETURNING id INTO v_refund_id;
+    END IF;
+
+    IF v_remaining IS NULL THEN
+        -- Every seat released: cancel the booking itself
+        UPDATE bookings
+        SET status = 'CANCELLED',
+            cancelled_at = NOW(),
+            cancelled_by = v_cancelled_by,
+            cancellation_reason = p_reason
+        WHERE id = p_booking_id;
+    ELSE
+        -- Partial release: keep the booking for the remaining seats
+        UPDATE bookings
+        SET seat_code = array_to_json(v_remaining)::text
+        WHERE id = p_booking_id;
+    END IF;
+
+    -- Freed seats make a full house bookable again
+    UPDATE shows
+    SET status = 'ACTIVE'
+    WHERE id = v_booking.show_id
+    AND status = 'HOUSE_FULL';
+
+    -- Offer the freed seats to anyone waiting for the show
+    v_waitlist_offers := offer_waitlist_seats(v_booking.show_id);
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', p_booking_id,
+        'show_id', v_booking.show_id,
+        'cancelled_seats', v_cancel,
+        'remaining_seats', COALESCE(v_remaining, '{}'),
+        'revoked_tickets', v_revoked,
+        'booking_cancelled', v_remaining IS NULL,
+        'refund_id', v_refund_id,
+        'refund_amount', COALESCE(v_refund_amount, 0),
+        'refund_percent', v_refund_percent,
+        'waitlist_offers', v_waitlist_offers
+    );
+END;
+$$;
+
+-- Replace cancel_show to check for show.cancel
+CREATE OR REPLACE FUNCTION cancel_show(
+    p_show_id UUID,
+    p_reason TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_cancelled_by TEXT := COALESCE(app_user_email(), 'system');
+    v_show RECORD;
+    v_booking RECORD;
+    v_seats TEXT[];
+    v_amount DECIMAL(10,2);
+    v_bookings INTEGER := 0;
+    v_tickets INTEGER := 0;
+    v_refunded DECIMAL(10,2) := 0;
+    v_revoked INTEGER;
+BEGIN
+    -- Through the API cancelling takes show.cancel
+    IF request_claims() IS NOT NULL AND NOT app_user_can('show.cancel') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'You are not allowed to cancel shows'
+        );
+    END IF;
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'REASON_REQUIRED',
+            'error', 'Enter a reason for the cancellation'
+        );
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    SELECT id, title, date, time, COALESCE(status, 'ACTIVE') AS status INTO v_show
+    FROM shows
+    WHERE id = p_show_id;
+
+    IF NOT FOUND OR v_show.status NOT IN ('ACTIVE', 'HOUSE_FULL', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'Only upcoming or running shows can be cancelled'
+        );
+    END IF;
+
+    FOR v_booking IN
+        SELECT id, seat_code
+        FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        ORDER BY booking_time
+        FOR UPDATE
+    LOOP
+        v_seats := booking_seat_codes(v_booking.seat_code);
+
+        WITH revoked AS (
+            UPDATE tickets
+            SET status = 'REVOKED', revoked_at = NOW()
+            WHERE booking_id = v_booking.id
+            AND status = 'ACTIVE'
+            RETURNING id, seat_code, price
+        ),
+        moves AS (
+            INSERT INTO show_booking_moves (from_show_id, booking_id, ticket_id, from_seat, outcome, moved_by)
+            SELECT p_show_id, v_booking.id, id, seat_code, 'REFUNDED', v_cancelled_by
+            FROM revoked
+        )
+        SELECT COUNT(*), COALESCE(SUM(price), 0) INTO v_revoked, v_amount
+        FROM revoked;
+
+        PERFORM refund_venue_cancelled_seats(
+            v_booking.id, p_show_id, v_seats, v_amount,
+            'Show cancelled: ' || p_reason, v_cancelled_by
+        );
+
+        UPDATE bookings
+        SET status = 'CANCELLED',
+            cancelled_at = NOW(),
+            cancelled_by = v_cancelled_by,
+            cancellation_reason = 'Show cancelled: ' || p_reason
+        WHERE id = v_booking.id;
+
+        PERFORM queue_booking_notification(
+            v_booking.id, p_show_id, 'SHOW_CANCELLED',
+            format(
+                'We are sorry: %s on %s at %s has been cancelled (%s). Your booking for seats %s is cancelled and %s will be refunded in full.',
+                v_show.title, to_char(v_show.date, 'DD Mon YYYY'), to_char(v_show.time, 'HH12:MI AM'), p_reason,
+                array_to_string(v_seats, ', '),
+                CASE WHEN v_amount > 0 THEN '₹' || v_amount::TEXT ELSE 'any payment' END
+            )
+        );
+
+        v_bookings := v_bookings + 1;
+        v_tickets := v_tickets + v_revoked;
+        v_refunded := v_refunded + v_amount;
+    END LOOP;
+
+    -- Nobody can be offered seats at a cancelled show
+    UPDATE waitlist_entries
+    SET status = 'CANCELLED'
+    WHERE show_id = p_show_id
+    AND status IN ('WAITING', 'OFFERED');
+
+    DELETE FROM seat_holds WHERE show_id = p_show_id;
+
+    UPDATE shows
+    SET status = 'CANCELLED',
+        status_reason = p_reason,
+        status_changed_by = v_cancelled_by,
+        status_changed_at = NOW()
+    WHERE id = p_show_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'cancelled_bookings', v_bookings,
+        'revoked_tickets', v_tickets,
+        'refund_amount', v_refunded
+    );
+END;
+$$;
+
+-- Replace reschedule_show to check for show.cancel
+CREATE OR REPLACE FUNCTION reschedule_show(
+    p_show_id UUID,
+    p_date DATE,
+    p_time TIME,
+    p_reason TEXT,
+    p_layout_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_rescheduled_by TEXT := COALESCE(app_user_email(), 'system');
+    v_show RECORD;
+    v_layout_id UUID;
+    v_structure JSONB;
+    v_layout_seats TEXT[];
+    v_taken TEXT[] := '{}';
+    v_new_show_id UUID;
+    v_booking RECORD;
+    v_seats TEXT[];
+    v_seat TEXT;
+    v_new_seat TEXT;
+    v_new_seats TEXT[];
+    v_refund_seats TEXT[];
+    v_ticket RECORD;
+    v_amount DECIMAL(10,2);
+    v_kept INTEGER := 0;
+    v_reseated INTEGER := 0;
+    v_refunded INTEGER := 0;
+    v_bookings INTEGER := 0;
+BEGIN
+    -- Through the API rescheduling takes show.cancel
+    IF request_claims() IS NOT NULL AND NOT app_user_can('show.cancel') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'You are not allowed to reschedule shows'
+        );
+    END IF;
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'REASON_REQUIRED',
+            'error', 'Enter a reason for the reschedule'
+        );
+    END IF;
+
+    -- The new show is at the venue of the layout it will use
+    IF show_starts_at(p_date, p_time, (
+        SELECT venue_id FROM layouts
+        WHERE id = COALESCE(p_layout_id, (SELECT layout_id FROM shows WHERE id = p_show_id))
+    )) <= NOW() THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_DATE',
+            'error', 'The new date and time must be in the future'
+        );
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    SELECT *, COALESCE(status, 'ACTIVE') AS current_status INTO v_show
+    FROM shows
+    WHERE id = p_show_id;
+
+    IF NOT FOUND OR v_show.current_status NOT IN ('ACTIVE', 'HOUSE_FULL', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'Only upcoming or running shows can be rescheduled'
+        );
+    END IF;
+
+    v_layout_id := COALESCE(p_layout_id, v_show.layout_id);
+
+    SELECT structure INTO v_structure FROM layouts WHERE id = v_layout_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'LAYOUT_NOT_FOUND',
+            'error', 'Layout not found'
+        );
+    END IF;
+
+    INSERT INTO shows (
+        title, date, time, price, tier_prices, category_prices,
+        group_min_seats, group_discount_percent, description, layout_id, series_id
+    )
+    VALUES (
+        v_show.title, p_date, p_time, v_show.price, v_show.tier_prices, v_show.category_prices,
+        v_show.group_min_seats, v_show.group_discount_percent, v_show.description, v_layout_id, v_show.series_id
+    )
+    RETURNING id INTO v_new_show_id;
+
+    PERFORM pg_advisory_xact_lock(hashtext(v_new_show_id::text));
+
+    -- On the same layout every seat exists. Otherwise seats the new layout
+    -- also has are kept first, so re-seating never takes someone's own seat.
+    IF v_layout_id IS DISTINCT FROM v_show.layout_id THEN
+        v_layout_seats := layout_seat_codes(v_structure);
+
+        SELECT COALESCE(array_agg(seat), '{}') INTO v_taken
+        FROM bookings b, unnest(booking_seat_codes(b.seat_code)) AS seat
+        WHERE b.show_id = p_show_id
+        AND b.status = 'CONFIRMED'
+        AND seat = ANY(v_layout_seats);
+    END IF;
+
+    FOR v_booking IN
+        SELECT id, seat_code
+        FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        ORDER BY booking_time
+        FOR UPDATE
+    LOOP
+        v_seats := booking_seat_codes(v_booking.seat_code);
+        v_new_seats := '{}';
+        v_refund_seats := '{}';
+        v_amount := 0;
+
+        FOREACH v_seat IN ARRAY v_seats
+        LOOP
+            SELECT id, price INTO v_ticket
+            FROM tickets
+            WHERE booking_id = v_booking.id
+            AND seat_code = v_seat
+            AND status = 'ACTIVE'
+            LIMIT 1;
+
+            IF v_layout_seats IS NULL OR v_seat = ANY(v_layout_seats) THEN
+                v_new_seat := v_seat;
+                v_kept := v_kept + 1;
+            ELSE
+                SELECT seat INTO v_new_seat
+                FROM unnest(v_layout_seats) WITH ORDINALITY AS t(seat, ord)
+                WHERE NOT (seat = ANY(v_taken))
+                ORDER BY ord
+                LIMIT 1;
+
+                IF v_new_seat IS NOT NULL THEN
+                    v_taken := array_append(v_taken, v_new_seat);
+                    v_reseated := v_reseated + 1;
+                END IF;
+            END IF;
+
+            IF v_new_seat IS NULL THEN
+                -- No seat left on the new layout
+                UPDATE tickets
+                SET status = 'REVOKED', revoked_at = NOW()
+                WHERE id = v_ticket.id;
+
+                v_refund_seats := array_append(v_refund_seats, v_seat);
+                v_amount := v_amount + COALESCE(v_ticket.price, 0);
+                v_refunded := v_refunded + 1;
+            ELSE
+                UPDATE tickets
+                SET show_id = v_new_show_id,
+                    seat_code = v_new_seat
+                WHERE id = v_ticket.id;
+
+                v_new_seats := array_append(v_new_seats, v_new_seat);
+            END IF;
+
+            INSERT INTO show_booking_moves (
+                from_show_id, to_show_id, booking_id, ticket_id,
+                from_seat, to_seat, outcome, moved_by
+            )
+            VALUES (
+                p_show_id,
+                CASE WHEN v_new_seat IS NULL THEN NULL ELSE v_new_show_id END,
+                v_booking.id, v_ticket.id, v_seat, v_new_seat,
+                CASE
+                    WHEN v_new_seat IS NULL THEN 'REFUNDED'
+                    WHEN v_new_seat = v_seat THEN 'KEPT_SEAT'
+                    ELSE 'RESEATED'
+                END,
+                v_rescheduled_by
+            );
+        END LOOP;
+
+        PERFORM refund_venue_cancelled_seats(
+            v_booking.id, p_show_id, v_refund_seats, v_amount,
+            'Show rescheduled: ' || p_reason, v_rescheduled_by
+        );
+
+        IF array_length(v_new_seats, 1) IS NULL THEN
+            UPDATE bookings
+            SET status = 'CANCELLED',
+                cancelled_at = NOW(),
+                cancelled_by = v_rescheduled_by,
+                cancellation_reason = 'Show rescheduled: no seats on the new layout'
+            WHERE id = v_booking.id;
+        ELSE
+            UPDATE bookings
+            SET show_id = v_new_show_id,
+                seat_code = array_to_json(v_new_seats)::text
+            WHERE id = v_booking.id;
+        END IF;
+
+        PERFORM queue_booking_notification(
+            v_booking.id, p_show_id, 'SHOW_RESCHEDULED',
+            format(
+                '%s on %s at %s has been rescheduled to %s at %s (%s).',
+                v_show.title, to_char(v_show.date, 'DD Mon YYYY'), to_char(v_show.time, 'HH12:MI AM'),
+                to_char(p_date, 'DD Mon YYYY'), to_char(p_time, 'HH12:MI AM'), p_reason
+            ) ||
+            CASE WHEN array_length(v_new_seats, 1) IS NULL THEN ''
+                WHEN v_new_seats = v_seats THEN format(' Your tickets are still valid for seats %s.', array_to_string(v_new_seats, ', '))
+                ELSE format(' Your tickets are still valid; your seats are now %s.', array_to_string(v_new_seats, ', '))
+            END ||
+            CASE WHEN array_length(v_refund_seats, 1) IS NULL THEN ''
+                ELSE format(' Seats %s could not be moved and will be refunded in full.', array_to_string(v_refund_seats, ', '))
+            END
+        );
+
+        v_bookings := v_bookings + 1;
+    END LOOP;
+
+    -- The waitlist carries over; offers start again at the new show
+    DELETE FROM seat_holds WHERE show_id = p_show_id;
+
+    UPDATE waitlist_entries
+    SET show_id = v_new_show_id,
+        status = 'WAITING',
+        offered_seats = NULL,
+        offered_at = NULL,
+        offer_expires_at = NULL
+    WHERE show_id = p_show_id
+    AND status IN ('WAITING', 'OFFERED');
+
+    UPDATE shows
+    SET status = 'RESCHEDULED',
+        status_reason = p_reason,
+        status_changed_by = v_rescheduled_by,
+        status_changed_at = NOW(),
+        rescheduled_to = v_new_show_id
+    WHERE id = p_show_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'new_show_id', v_new_show_id,
+        'moved_bookings', v_bookings,
+        'kept_seats', v_kept,
+        'reseated_seats', v_reseated,
+        'refunded_seats', v_refunded
+    );
+END;
+$$;
+
+-- Replace book_seats_atomic to check for booking.create and record tickets
+-- and payments under the signed-in user, rather than whoever the caller
+-- names. Bookings, tickets and payments have no insert policy, so selling
+-- goes through here.
+DROP FUNCTION IF EXISTS book_seats_atomic(UUID, TEXT[], TEXT, UUID, TEXT, TEXT, JSONB, TEXT, TEXT, UUID, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION book_seats_atomic(
+    p_show_id UUID,
+    p_seat_codes TEXT[],
+    p_booked_by TEXT,
+    p_customer_id UUID DEFAULT NULL,
+    p_holder_id TEXT DEFAULT NULL,
+    p_seat_categories JSONB DEFAULT '{}', -- Seat code to ticket category; missing seats are ADULT
+    p_promo_code TEXT DEFAULT NULL,
+    p_group_name TEXT DEFAULT NULL, -- Makes this a group booking with an invoice
+    p_season_pass_id UUID DEFAULT NULL, -- Pays for every seat from this pass
+    p_payments JSONB DEFAULT NULL, -- [{ "method", "amount", "reference" }]; must add up to the total
+    p_waitlist_entry_id UUID DEFAULT NULL -- The waitlist offer these seats were claimed from
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_issued_by TEXT := COALESCE(app_user_email(), p_booked_by);
+    v_show RECORD;
+    v_booking_id UUID;
+    v_seat_code TEXT;
+    v_ticket_id UUID;
+    v_ticket_code TEXT;
+    v_seq INTEGER;
+    v_date_prefix TEXT;
+    v_tickets JSON[] := '{}';
+    v_conflicts TEXT[];
+    v_price DECIMAL(10,2);
+    v_category TEXT;
+    v_total DECIMAL(10,2) := 0;
+    v_prices DECIMAL(10,2)[] := '{}';
+    v_subtotal DECIMAL(10,2) := 0;
+    v_promo JSON;
+    v_promo_code_id UUID;
+    v_promo_code TEXT;
+    v_discount DECIMAL(10,2) := 0;
+    v_ticket_discount DECIMAL(10,2);
+    v_discount_left DECIMAL(10,2);
+    v_index INTEGER := 0;
+    v_group_name TEXT := NULLIF(TRIM(p_group_name), '');
+    v_group_rate BOOLEAN := false;
+    v_group_discount DECIMAL(10,2) := 0;
+    v_group_share DECIMAL(10,2);
+    v_group_shares DECIMAL(10,2)[] := '{}';
+    v_invoice_number TEXT;
+    v_pass RECORD;
+    v_invoice_seq INTEGER;
+    v_paid DECIMAL(10,2);
+BEGIN
+    -- Through the API selling takes booking.create
+    IF request_claims() IS NOT NULL AND NOT app_user_can('booking.create') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'You are not allowed to sell tickets'
+        );
+    END IF;
+
+    IF p_seat_codes IS NULL OR array_length(p_seat_codes, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'No seats selected'
+        );
+    END IF;
+
+    IF array_length(p_seat_codes, 1) <> (SELECT COUNT(DISTINCT seat) FROM unnest(p_seat_codes) AS seat) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'The same seat was selected more than once'
+        );
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_each_text(COALESCE(p_seat_categories, '{}'::jsonb))
+        WHERE value NOT IN ('ADULT', 'CHILD', 'SENIOR', 'FOREIGNER', 'COMPLIMENTARY')
+    ) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_CATEGORY',
+            'error', 'Unknown ticket category'
+        );
+    END IF;
+
+    IF p_payments IS NOT NULL AND (
+        jsonb_typeof(p_payments) <> 'array'
+        OR EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_payments) AS payment
+            WHERE payment->>'method' IS NULL
+            OR payment->>'method' NOT IN ('CASH', 'UPI', 'CARD', 'VOUCHER')
+            OR (payment->>'amount')::DECIMAL(10,2) IS NULL
+            OR (payment->>'amount')::DECIMAL(10,2) <= 0
+        )
+    ) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_PAYMENT',
+            'error', 'Every payment needs a method and an amount above zero'
+        );
+    END IF;
+
+    IF p_season_pass_id IS NOT NULL AND NULLIF(TRIM(p_promo_code), '') IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEASON_PASS_INVALID',
+            'error', 'A season pass cannot be combined with a promo code'
+        );
+    END IF;
+
+    -- Lock the show to prevent concurrent bookings
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    -- Get show details
+    SELECT id, price, date, status, group_min_seats, group_discount_percent INTO v_show
+    FROM shows
+    WHERE id = p_show_id AND active = true;
+
+    IF NOT FOUND OR COALESCE(v_show.status, 'ACTIVE') NOT IN ('ACTIVE', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'This show is no longer open for booking'
+        );
+    END IF;
+
+    -- Check for conflicts against every confirmed booking, whatever its seat_code format,
+    -- and against live holds from other terminals
+    SELECT array_agg(DISTINCT requested) INTO v_conflicts
+    FROM unnest(p_seat_codes) AS requested
+    WHERE EXISTS (
+        SELECT 1 FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        AND requested = ANY(booking_seat_codes(seat_code))
+    )
+    OR EXISTS (
+        SELECT 1 FROM seat_holds
+        WHERE show_id = p_show_id
+        AND seat_code = requested
+        AND expires_at > NOW()
+        AND holder_id IS DISTINCT FROM p_holder_id
+    );
+
+    IF v_conflicts IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEAT_CONFLICT',
+            'error', 'Some seats have already been booked or are held at another counter',
+            'conflicts', v_conflicts
+        );
+    END IF;
+
+    IF p_season_pass_id IS NOT NULL THEN
+        -- Serialise redemptions so two counters cannot spend the same balance
+        PERFORM pg_advisory_xact_lock(hashtext('season_pass:' || p_season_pass_id::text));
+
+        SELECT * INTO v_pass FROM season_passes WHERE id = p_season_pass_id;
+
+        IF NOT FOUND THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'SEASON_PASS_NOT_FOUND',
+                'error', 'Season pass not found'
+            );
+        END IF;
+
+        IF NOT v_pass.active
+        OR v_pass.customer_id IS DISTINCT FROM p_customer_id
+        OR (v_pass.valid_from IS NOT NULL AND v_show.date < v_pass.valid_from)
+        OR (v_pass.valid_until IS NOT NULL AND v_show.date > v_pass.valid_until) THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'SEASON_PASS_INVALID',
+                'error', 'This season pass cannot be used by this customer for this show'
+            );
+        END IF;
+
+        IF season_pass_balance(p_season_pass_id) < array_length(p_seat_codes, 1) THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'SEASON_PASS_BALANCE',
+                'error', 'Not enough admissions left on this season pass',
+                'balance', season_pass_balance(p_season_pass_id)
+            );
+        END IF;
+    END IF;
+
+    -- The group rate applies once a group books at least the show's minimum
+    v_group_rate := p_season_pass_id IS NULL
+        AND v_group_name IS NOT NULL
+        AND v_show.group_discount_percent IS NOT NULL
+        AND array_length(p_seat_codes, 1) >= COALESCE(v_show.group_min_seats, 1);
+
+    -- Price every seat before any promo discount. Season pass seats are
+    -- prepaid, so they carry no price.
+    FOREACH v_seat_code IN ARRAY p_seat_codes
+    LOOP
+        IF p_season_pass_id IS NOT NULL THEN
+            v_price := 0;
+        ELSE
+            v_price := ticket_price(p_show_id, v_seat_code, COALESCE(p_seat_categories->>v_seat_code, 'ADULT'));
+        END IF;
+
+        v_group_share := 0;
+        IF v_group_rate THEN
+            v_group_share := ROUND(v_price * v_show.group_discount_percent / 100, 2);
+            v_group_discount := v_group_discount + v_group_share;
+        END IF;
+
+        v_prices := array_append(v_prices, v_price - v_group_share);
+        v_group_shares := array_append(v_group_shares, v_group_share);
+    END LOOP;
+
+    SELECT COALESCE(SUM(price), 0) INTO v_subtotal FROM unnest(v_prices) AS price;
+
+    IF NULLIF(TRIM(p_promo_code), '') IS NOT NULL THEN
+        -- Serialise bookings using the same code so usage limits hold
+        PERFORM pg_advisory_xact_lock(hashtext('promo:' || UPPER(TRIM(p_promo_code))));
+
+        v_promo := validate_promo_code(p_promo_code, p_show_id, p_customer_id, v_subtotal);
+
+        IF NOT (v_promo->>'success')::BOOLEAN THEN
+            RETURN v_promo;
+        END IF;
+
+        IF p_customer_id IS NULL AND v_promo->>'max_uses_per_customer' IS NOT NULL THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'PROMO_CUSTOMER_REQUIRED',
+                'error', 'Select a customer to use this promo code'
+            );
+        END IF;
+
+        v_promo_code_id := (v_promo->>'promo_code_id')::UUID;
+        v_promo_code := v_promo->>'code';
+        v_discount := (v_promo->>'discount_amount')::DECIMAL(10,2);
+    END IF;
+
+    v_discount_left := v_discount;
+
+    -- Payments have to cover the booking exactly; change for cash is given at
+    -- the counter and not recorded
+    IF p_payments IS NOT NULL THEN
+        SELECT COALESCE(SUM((payment->>'amount')::DECIMAL(10,2)), 0) INTO v_paid
+        FROM jsonb_array_elements(p_payments) AS payment;
+
+        IF v_paid <> v_subtotal - v_discount THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'PAYMENT_MISMATCH',
+                'error', 'Payments do not add up to the booking total',
+                'total_amount', v_subtotal - v_discount,
+                'paid_amount', v_paid
+            );
+        END IF;
+    END IF;
+
+    -- Ticket numbers are sequential per show date, so serialise shows sharing a date
+    v_date_prefix := 'TKT-' || to_char(v_show.date, 'YYYYMMDD') || '-';
+    PERFORM pg_advisory_xact_lock(hashtext(v_date_prefix));
+
+    SELECT COALESCE(MAX(split_part(ticket_code, '-', 3)::INTEGER), 0) + 1
+    INTO v_seq
+    FROM tickets
+    WHERE ticket_code LIKE v_date_prefix || '%'
+    AND split_part(ticket_code, '-', 3) ~ '^[0-9]+$';
+
+    -- Group bookings get one invoice for the whole block, numbered per day
+    IF v_group_name IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('INV-'));
+
+        SELECT COALESCE(MAX(split_part(invoice_number, '-', 3)::INTEGER), 0) + 1
+        INTO v_invoice_seq
+        FROM bookings
+        WHERE invoice_number LIKE 'INV-' || to_char(NOW(), 'YYYYMMDD') || '-%';
+
+        v_invoice_number := 'INV-' || to_char(NOW(), 'YYYYMMDD') || '-' || lpad(v_invoice_seq::text, 4, '0');
+    END IF;
+
+    -- Create ONE booking for all seats
+    INSERT INTO bookings (
+        show_id, seat_code, booked_by, customer_id, status,
+        promo_code_id, promo_code, discount_amount,
+        group_name, group_discount_amount, invoice_number, season_pass_id
+    )
+    VALUES (
+        p_show_id, array_to_json(p_seat_codes)::text, p_booked_by, p_customer_id, 'CONFIRMED',
+        v_promo_code_id, v_promo_code, v_discount,
+        v_group_name, v_group_discount, v_invoice_number, p_season_pass_id
+    )
+    RETURNING id INTO v_booking_id;
+
+    -- Create tickets for each seat under the same booking
+    FOREACH v_seat_code IN ARRAY p_seat_codes
+    LOOP
+        v_ticket_code := v_date_prefix || lpad(v_seq::text, 4, '0') || '-' || v_seat_code;
+        v_category := COALESCE(p_seat_categories->>v_seat_code, 'ADULT');
+        v_index := v_index + 1;
+
+        -- Spread the discount over the tickets by price; the last ticket takes
+        -- whatever rounding leaves over
+        IF v_index = array_length(p_seat_codes, 1) THEN
+            v_ticket_discount := v_discount_left;
+        ELSIF v_subtotal > 0 THEN
+            v_ticket_discount := ROUND(v_discount * v_prices[v_index] / v_subtotal, 2);
+        ELSE
+            v_ticket_discount := 0;
+        END IF;
+        v_discount_left := v_discount_left - v_ticket_discount;
+
+        v_price := v_prices[v_index] - v_ticket_discount;
+        v_total := v_total + v_price;
+
+        INSERT INTO tickets (
+            booking_id, show_id, seat_code, ticket_code,
+            price, discount_amount, category, season_pass_id, generated_by, status
+        )
+        VALUES (
+            v_booking_id, p_show_id, v_seat_code, v_ticket_code,
+            v_price, v_ticket_discount + v_group_shares[v_index], v_category, p_season_pass_id, v_issued_by, 'ACTIVE'
+        )
+        RETURNING id INTO v_ticket_id;
+
+        v_tickets := array_append(v_tickets, json_build_object(
+            'id', v_ticket_id,
+            'booking_id', v_booking_id,
+            'seat_code', v_seat_code,
+            'ticket_code', v_ticket_code,
+            'price', v_price,
+            'discount_amount', v_ticket_discount + v_group_shares[v_index],
+            'category', v_category
+        ));
+
+        v_seq := v_seq + 1;
+    END LOOP;
+
+    IF p_payments IS NOT NULL THEN
+        INSERT INTO payments (booking_id, method, amount, reference, collected_by)
+        SELECT
+            v_booking_id,
+            payment->>'method',
+            (payment->>'amount')::DECIMAL(10,2),
+            NULLIF(TRIM(payment->>'reference'), ''),
+            v_issued_by
+        FROM jsonb_array_elements(p_payments) AS payment;
+    END IF;
+
+    -- The seats are booked now, so their holds are no longer needed
+    DELETE FROM seat_holds
+    WHERE show_id = p_show_id
+    AND seat_code = ANY(p_seat_codes);
+
+    -- The customer got their seats; an offer that ran out while staff were
+    -- booking it still counts
+    IF p_waitlist_entry_id IS NOT NULL THEN
+        UPDATE waitlist_entries
+        SET status = 'CLAIMED',
+            booking_id = v_booking_id
+        WHERE id = p_waitlist_entry_id
+        AND status IN ('OFFERED', 'EXPIRED');
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', v_booking_id,
+        'tickets', array_to_json(v_tickets),
+        'booking_count', array_length(p_seat_codes, 1),
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount,
+        'promo_code', v_promo_code,
+        'group_discount_amount', v_group_discount,
+        'invoice_number', v_invoice_number,
+        'season_pass_id', p_season_pass_id,
+        'paid_amount', COALESCE(v_paid, 0),
+        'total_amount', v_total
+    );
+END;
+$$;
+
+-- Replace check_in_ticket to check for ticket.checkin and admit tickets
+-- under the signed-in user. Tickets have no update policy, so checking in
+-- goes through here.
+DROP FUNCTION IF EXISTS check_in_ticket(TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION check_in_ticket(
+    p_ticket_code TEXT,
+    p_show_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_checked_in_by TEXT := COALESCE(app_user_email(), 'system');
+    v_ticket RECORD;
+    v_show_title TEXT;
+    v_checked_in_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    -- Through the API checking in takes ticket.checkin
+    IF request_claims() IS NOT NULL AND NOT app_user_can('ticket.checkin') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'You are not allowed to check tickets in'
+        );
+    END IF;
+
+    SELECT * INTO v_ticket
+    FROM tickets
+    WHERE ticket_code = trim(p_ticket_code)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_FOUND',
+            'error', 'No ticket found with this code'
+        );
+    END IF;
+
+    SELECT title INTO v_show_title
+    FROM shows
+    WHERE id = v_ticket.show_id;
+
+    IF v_ticket.show_id <> p_show_id THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'WRONG_SHOW',
+            'error', 'This ticket is for a different show: ' || COALESCE(v_show_title, 'unknown show')
+        );
+    END IF;
+
+    IF v_ticket.status = 'REVOKED' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'REVOKED',
+            'error', 'This ticket has been revoked'
+        );
+    END IF;
+
+    IF v_ticket.status = 'COMPLETED' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'COMPLETED',
+            'error', 'This ticket is for a show that has already finished'
+        );
+    END IF;
+
+    IF v_ticket.checked_in_at IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'ALREADY_USED',
+            -- The app adds the time, on the venue's clock
+            'error', 'This ticket was already used' || COALESCE(' by ' || v_ticket.checked_in_by, ''),
+            'checked_in_at', v_ticket.checked_in_at,
+            'checked_in_by', v_ticket.checked_in_by
+        );
+    END IF;
+
+    UPDATE tickets
+    SET checked_in_at = NOW(), checked_in_by = v_checked_in_by
+    WHERE id = v_ticket.id
+    RETURNING checked_in_at INTO v_checked_in_at;
+
+    RETURN json_build_object(
+        'success', true,
+        'ticket', json_build_object(
+            'id', v_ticket.id,
+            'booking_id', v_ticket.booking_id,
+            'show_id', v_ticket.show_id,
+            'show_title', v_show_title,
+            'seat_code', v_ticket.seat_code,
+            'ticket_code', v_ticket.ticket_code,
+            'checked_in_at', v_checked_in_at,
+            'checked_in_by', v_checked_in_by
+        )
+    );
+END;
+$$;
+
+-- Replace close_cash_shift to check for cash.shift on the caller's own
+-- drawer, or cash.manage, and close it under the signed-in user. Only
+-- cash.manage updates shifts directly, so the figures a shift closes with
+-- come from here.
+DROP FUNCTION IF EXISTS close_cash_shift(UUID, DECIMAL, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION close_cash_shift(
+    p_shift_id UUID,
+    p_counted_cash DECIMAL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_closed_by TEXT := COALESCE(app_user_email(), 'system');
+    v_shift RECORD;
+    v_totals JSON;
+    v_expected_cash DECIMAL(10,2);
+BEGIN
+    SELECT * INTO v_shift
+    FROM cash_shifts
+    WHERE id = p_shift_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHIFT_NOT_FOUND',
+            'error', 'Shift not found'
+        );
+    END IF;
+
+    -- Through the API a cashier closes only their own drawer
+    IF request_claims() IS NOT NULL AND NOT (
+        (v_shift.staff_email = app_user_email() AND app_user_can('cash.shift'))
+        OR app_user_can('cash.manage')
+    ) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'You are not allowed to close this shift'
+        );
+    END IF;
+
+    IF v_shift.status <> 'OPEN' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHIFT_CLOSED',
+            'error', 'This shift is already closed'
+        );
+    END IF;
+
+    IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_COUNT',
+            'error', 'Enter the cash counted in the drawer'
+        );
+    END IF;
+
+    v_totals := cash_shift_totals(p_shift_id);
+    v_expected_cash := (v_totals->>'expected_cash')::DECIMAL;
+
+    UPDATE cash_shifts
+    SET status = 'CLOSED',
+        closed_at = NOW(),
+        closed_by = v_closed_by,
+        expected_totals = (v_totals->'expected_totals')::JSONB,
+        bookings = (v_totals->>'bookings')::INTEGER,
+        cash_refunds = (v_totals->>'cash_refunds')::DECIMAL,
+        expected_cash = v_expected_cash,
+        counted_cash = p_counted_cash,
+        variance = p_counted_cash - v_expected_cash,
+        notes = p_notes
+    WHERE id = p_shift_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'shift_id', p_shift_id,
+        'expected_totals', v_totals->'expected_totals',
+        'bookings', (v_totals->>'bookings')::INTEGER,
+        'cash_refunds', (v_totals->>'cash_refunds')::DECIMAL,
+        'expected_cash', v_expected_cash,
+        'counted_cash', p_counted_cash,
+        'variance', p_counted_cash - v_expected_cash
+    );
+END;
+$$;
+
+-- Approve or reject a pending refund under the signed-in user. Refunds have
+-- no update policy, so reviewing goes through here. A cash refund is paid
+-- from the drawer of whoever raised it, or of the reviewer.
+CREATE OR REPLACE FUNCTION review_refund(
+    p_refund_id UUID,
+    p_approve BOOLEAN,
+    p_amount DECIMAL DEFAULT NULL, -- What is paid back; the policy amount if NULL
+    p_method TEXT DEFAULT NULL, -- How it is paid back; the booking's main method if NULL
+    p_note TEXT DEFAULT NULL,
+    p_paid_by TEXT DEFAULT NULL -- Whose drawer a cash refund comes out of; whoever raised it if NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_reviewed_by TEXT := COALESCE(app_user_email(), 'system');
+    v_refund RECORD;
+    v_amount DECIMAL(10,2);
+    v_method TEXT;
+    v_paid_by TEXT;
+BEGIN
+    -- Through the API reviewing takes refund.approve
+    IF request_claims() IS NOT NULL AND NOT app_user_can('refund.approve') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'You are not allowed to review refunds'
+        );
+    END IF;
+
+    SELECT * INTO v_refund
+    FROM refunds
+    WHERE id = p_refund_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'REFUND_NOT_FOUND',
+            'error', 'Refund not found'
+        );
+    END IF;
+
+    -- Stops two reviewers paying the same refund out twice
+    IF v_refund.status <> 'PENDING' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'ALREADY_REVIEWED',
+            'error', 'This refund has already been reviewed'
+        );
+    END IF;
+
+    IF NOT p_approve THEN
+        UPDATE refunds
+        SET status = 'REJECTED',
+            review_note = NULLIF(TRIM(p_note), ''),
+            reviewed_by = v_reviewed_by,
+            reviewed_at = NOW()
+        WHERE id = p_refund_id;
+
+        RETURN json_build_object(
+            'success', true,
+            'refund_id', p_refund_id,
+            'status', 'REJECTED'
+        );
+    END IF;
+
+    v_amount := COALESCE(p_amount, v_refund.amount);
+    v_method := COALESCE(p_method, v_refund.method);
+
+    IF v_amount < 0 OR v_amount > v_refund.ticket_amount THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_AMOUNT',
+            'error', 'Refund must be between ₹0 and ₹' || v_refund.ticket_amount
+        );
+    END IF;
+
+    IF v_method = 'CASH' THEN
+        v_paid_by := COALESCE(p_paid_by, v_refund.requested_by);
+
+        IF v_paid_by NOT IN (v_refund.requested_by, v_reviewed_by) THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'INVALID_DRAWER',
+                'error', 'A cash refund is paid from the drawer of whoever raised or reviewed it'
+            );
+        END IF;
+    END IF;
+
+    UPDATE refunds
+    SET status = 'APPROVED',
+        amount = v_amount,
+        method = v_method,
+        paid_by = v_paid_by,
+        review_note = NULLIF(TRIM(p_note), ''),
+        reviewed_by = v_reviewed_by,
+        reviewed_at = NOW()
+    WHERE id = p_refund_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'refund_id', p_refund_id,
+        'status', 'APPROVED',
+        'amount', v_amount,
+        'method', v_method,
+        'paid_by', v_paid_by
+    );
+END;
+$$;
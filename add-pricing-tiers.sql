@@ -0,0 +1,215 @@
+-- Price tiers per layout section, overridable per show, and per-seat prices
+-- Run this after add-seat-holds.sql and add-seat-designer.sql; it replaces book_seats_atomic
+--
+-- Tiers live in the layout structure:
+--   { "tiers": [{ "name": "VIP", "price": 500 }], "sections": [{ "name": "North", "tier": "VIP", ... }] }
+-- A seat is priced from the first of these that is set:
+--   1. seats.price for that seat
+--   2. shows.tier_prices for the section's tier
+--   3. the tier price in the layout
+--   4. shows.price
+
+-- Per-show tier price overrides, e.g. { "VIP": 750 }
+ALTER TABLE shows ADD COLUMN IF NOT EXISTS tier_prices JSONB NOT NULL DEFAULT '{}';
+
+-- Price of one seat for a show. Seat codes are Section-RowLetter-SeatNumber.
+CREATE OR REPLACE FUNCTION seat_price(p_show_id UUID, p_seat_code TEXT)
+RETURNS DECIMAL(10,2)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_show RECORD;
+    v_parts TEXT[];
+    v_seat_price DECIMAL(10,2);
+    v_tier TEXT;
+    v_tier_price DECIMAL(10,2);
+BEGIN
+    SELECT s.price, s.tier_prices, s.layout_id, l.structure INTO v_show
+    FROM shows s
+    LEFT JOIN layouts l ON l.id = s.layout_id
+    WHERE s.id = p_show_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    v_parts := regexp_match(p_seat_code, '^(.+)-([A-Z])-([0-9]+)$');
+    IF v_parts IS NULL THEN
+        RETURN v_show.price;
+    END IF;
+
+    SELECT price INTO v_seat_price
+    FROM seats
+    WHERE layout_id = v_show.layout_id
+    AND section = v_parts[1]
+    AND row = v_parts[2]
+    AND seat_number = v_parts[3];
+
+    IF v_seat_price IS NOT NULL THEN
+        RETURN v_seat_price;
+    END IF;
+
+    SELECT section->>'tier' INTO v_tier
+    FROM jsonb_array_elements(COALESCE(v_show.structure->'sections', '[]'::jsonb)) AS section
+    WHERE section->>'name' = v_parts[1]
+    LIMIT 1;
+
+    IF v_tier IS NULL THEN
+        RETURN v_show.price;
+    END IF;
+
+    IF v_show.tier_prices ? v_tier THEN
+        RETURN (v_show.tier_prices->>v_tier)::DECIMAL(10,2);
+    END IF;
+
+    SELECT (tier->>'price')::DECIMAL(10,2) INTO v_tier_price
+    FROM jsonb_array_elements(COALESCE(v_show.structure->'tiers', '[]'::jsonb)) AS tier
+    WHERE tier->>'name' = v_tier
+    LIMIT 1;
+
+    RETURN COALESCE(v_tier_price, v_show.price);
+END;
+$$;
+
+-- Replace book_seats_atomic so each ticket carries its own seat price
+CREATE OR REPLACE FUNCTION book_seats_atomic(
+    p_show_id UUID,
+    p_seat_codes TEXT[],
+    p_booked_by TEXT,
+    p_customer_id UUID DEFAULT NULL,
+    p_generated_by TEXT DEFAULT NULL,
+    p_holder_id TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_show RECORD;
+    v_booking_id UUID;
+    v_seat_code TEXT;
+    v_ticket_id UUID;
+    v_ticket_code TEXT;
+    v_seq INTEGER;
+    v_date_prefix TEXT;
+    v_tickets JSON[] := '{}';
+    v_conflicts TEXT[];
+    v_price DECIMAL(10,2);
+    v_total DECIMAL(10,2) := 0;
+BEGIN
+    IF p_seat_codes IS NULL OR array_length(p_seat_codes, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'No seats selected'
+        );
+    END IF;
+
+    IF array_length(p_seat_codes, 1) <> (SELECT COUNT(DISTINCT seat) FROM unnest(p_seat_codes) AS seat) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'The same seat was selected more than once'
+        );
+    END IF;
+
+    -- Lock the show to prevent concurrent bookings
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    -- Get show details
+    SELECT id, price, date, status INTO v_show
+    FROM shows
+    WHERE id = p_show_id AND active = true;
+
+    IF NOT FOUND OR COALESCE(v_show.status, 'ACTIVE') NOT IN ('ACTIVE', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'This show is no longer open for booking'
+        );
+    END IF;
+
+    -- Check for conflicts against every confirmed booking, whatever its seat_code format,
+    -- and against live holds from other terminals
+    SELECT array_agg(DISTINCT requested) INTO v_conflicts
+    FROM unnest(p_seat_codes) AS requested
+    WHERE EXISTS (
+        SELECT 1 FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        AND requested = ANY(booking_seat_codes(seat_code))
+    )
+    OR EXISTS (
+        SELECT 1 FROM seat_holds
+        WHERE show_id = p_show_id
+        AND seat_code = requested
+        AND expires_at > NOW()
+        AND holder_id IS DISTINCT FROM p_holder_id
+    );
+
+    IF v_conflicts IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEAT_CONFLICT',
+            'error', 'Some seats have already been booked or are held at another counter',
+            'conflicts', v_conflicts
+        );
+    END IF;
+
+    -- Ticket numbers are sequential per show date, so serialise shows sharing a date
+    v_date_prefix := 'TKT-' || to_char(v_show.date, 'YYYYMMDD') || '-';
+    PERFORM pg_advisory_xact_lock(hashtext(v_date_prefix));
+
+    SELECT COALESCE(MAX(split_part(ticket_code, '-', 3)::INTEGER), 0) + 1
+    INTO v_seq
+    FROM tickets
+    WHERE ticket_code LIKE v_date_prefix || '%'
+    AND split_part(ticket_code, '-', 3) ~ '^[0-9]+$';
+
+    -- Create ONE booking for all seats
+    INSERT INTO bookings (show_id, seat_code, booked_by, customer_id, status)
+    VALUES (p_show_id, array_to_json(p_seat_codes)::text, p_booked_by, p_customer_id, 'CONFIRMED')
+    RETURNING id INTO v_booking_id;
+
+    -- Create tickets for each seat under the same booking
+    FOREACH v_seat_code IN ARRAY p_seat_codes
+    LOOP
+        v_ticket_code := v_date_prefix || lpad(v_seq::text, 4, '0') || '-' || v_seat_code;
+        v_price := seat_price(p_show_id, v_seat_code);
+        v_total := v_total + v_price;
+
+        INSERT INTO tickets (
+            booking_id, show_id, seat_code, ticket_code,
+            price, generated_by, status
+        )
+        VALUES (
+            v_booking_id, p_show_id, v_seat_code, v_ticket_code,
+            v_price, COALESCE(p_generated_by, p_booked_by), 'ACTIVE'
+        )
+        RETURNING id INTO v_ticket_id;
+
+        v_tickets := array_append(v_tickets, json_build_object(
+            'id', v_ticket_id,
+            'booking_id', v_booking_id,
+            'seat_code', v_seat_code,
+            'ticket_code', v_ticket_code,
+            'price', v_price
+        ));
+
+        v_seq := v_seq + 1;
+    END LOOP;
+
+    -- The seats are booked now, so their holds are no longer needed
+    DELETE FROM seat_holds
+    WHERE show_id = p_show_id
+    AND seat_code = ANY(p_seat_codes);
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', v_booking_id,
+        'tickets', array_to_json(v_tickets),
+        'booking_count', array_length(p_seat_codes, 1),
+        'total_amount', v_total
+    );
+END;
+$$;
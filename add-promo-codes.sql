@@ -0,0 +1,376 @@
+-- Promo codes: percentage or fixed discounts applied at the counter
+-- Run this after add-ticket-categories.sql; it replaces book_seats_atomic
+--
+-- A code can be limited to one show, to shows on dates between valid_from and
+-- valid_until, to max_uses confirmed bookings in total and to
+-- max_uses_per_customer confirmed bookings per customer. Codes stop working
+-- at expires_at. Cancelled bookings give their use back.
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code VARCHAR(30) NOT NULL UNIQUE CHECK (code = UPPER(code) AND code <> ''),
+    description TEXT,
+    discount_type VARCHAR(10) NOT NULL CHECK (discount_type IN ('PERCENT', 'FIXED')),
+    discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+    show_id UUID REFERENCES shows(id) ON DELETE CASCADE,
+    valid_from DATE,
+    valid_until DATE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    max_uses INTEGER CHECK (max_uses > 0),
+    max_uses_per_customer INTEGER CHECK (max_uses_per_customer > 0),
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (discount_type <> 'PERCENT' OR discount_value <= 100),
+    CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until >= valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_codes_show_id ON promo_codes(show_id);
+
+-- What was applied to each booking. The code is copied so reports still read
+-- correctly if the promo code is deleted.
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES promo_codes(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS promo_code VARCHAR(30);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_promo_code_id ON bookings(promo_code_id);
+
+-- tickets.price is what the customer paid for the seat after the discount;
+-- discount_amount is the share of the booking discount taken off it
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Checks a code against a show and customer and works out the discount on
+-- p_subtotal. Returns the same success / error_code shape as book_seats_atomic.
+-- Without a customer the per-customer limit is skipped so the counter can
+-- preview the discount; book_seats_atomic insists on a customer for those codes.
+CREATE OR REPLACE FUNCTION validate_promo_code(
+    p_code TEXT,
+    p_show_id UUID,
+    p_customer_id UUID,
+    p_subtotal DECIMAL(10,2)
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_promo RECORD;
+    v_show_date DATE;
+    v_uses INTEGER;
+    v_discount DECIMAL(10,2);
+BEGIN
+    SELECT * INTO v_promo
+    FROM promo_codes
+    WHERE code = UPPER(TRIM(p_code));
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'PROMO_NOT_FOUND',
+            'error', 'Promo code not found'
+        );
+    END IF;
+
+    IF NOT v_promo.active THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'PROMO_INACTIVE',
+            'error', 'This promo code has been switched off'
+        );
+    END IF;
+
+    IF v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= NOW() THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'PROMO_EXPIRED',
+            'error', 'This promo code has expired'
+        );
+    END IF;
+
+    SELECT date INTO v_show_date FROM shows WHERE id = p_show_id;
+
+    IF (v_promo.show_id IS NOT NULL AND v_promo.show_id <> p_show_id)
+    OR (v_promo.valid_from IS NOT NULL AND v_show_date < v_promo.valid_from)
+    OR (v_promo.valid_until IS NOT NULL AND v_show_date > v_promo.valid_until) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'PROMO_NOT_VALID_FOR_SHOW',
+            'error', 'This promo code cannot be used for this show'
+        );
+    END IF;
+
+    IF v_promo.max_uses IS NOT NULL THEN
+        SELECT COUNT(*) INTO v_uses
+        FROM bookings
+        WHERE promo_code_id = v_promo.id
+        AND status = 'CONFIRMED';
+
+        IF v_uses >= v_promo.max_uses THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'PROMO_USAGE_LIMIT',
+                'error', 'This promo code has been used up'
+            );
+        END IF;
+    END IF;
+
+    IF v_promo.max_uses_per_customer IS NOT NULL AND p_customer_id IS NOT NULL THEN
+        SELECT COUNT(*) INTO v_uses
+        FROM bookings
+        WHERE promo_code_id = v_promo.id
+        AND customer_id = p_customer_id
+        AND status = 'CONFIRMED';
+
+        IF v_uses >= v_promo.max_uses_per_customer THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'PROMO_CUSTOMER_LIMIT',
+                'error', 'This customer has already used this promo code'
+            );
+        END IF;
+    END IF;
+
+    IF v_promo.discount_type = 'PERCENT' THEN
+        v_discount := ROUND(p_subtotal * v_promo.discount_value / 100, 2);
+    ELSE
+        v_discount := LEAST(v_promo.discount_value, p_subtotal);
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'promo_code_id', v_promo.id,
+        'code', v_promo.code,
+        'discount_type', v_promo.discount_type,
+        'discount_value', v_promo.discount_value,
+        'max_uses_per_customer', v_promo.max_uses_per_customer,
+        'discount_amount', v_discount
+    );
+END;
+$$;
+
+-- Replace book_seats_atomic so a promo code can be applied to the booking
+DROP FUNCTION IF EXISTS book_seats_atomic(UUID, TEXT[], TEXT, UUID, TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION book_seats_atomic(
+    p_show_id UUID,
+    p_seat_codes TEXT[],
+    p_booked_by TEXT,
+    p_customer_id UUID DEFAULT NULL,
+    p_generated_by TEXT DEFAULT NULL,
+    p_holder_id TEXT DEFAULT NULL,
+    p_seat_categories JSONB DEFAULT '{}', -- Seat code to ticket category; missing seats are ADULT
+    p_promo_code TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_show RECORD;
+    v_booking_id UUID;
+    v_seat_code TEXT;
+    v_ticket_id UUID;
+    v_ticket_code TEXT;
+    v_seq INTEGER;
+    v_date_prefix TEXT;
+    v_tickets JSON[] := '{}';
+    v_conflicts TEXT[];
+    v_price DECIMAL(10,2);
+    v_category TEXT;
+    v_total DECIMAL(10,2) := 0;
+    v_prices DECIMAL(10,2)[] := '{}';
+    v_subtotal DECIMAL(10,2) := 0;
+    v_promo JSON;
+    v_promo_code_id UUID;
+    v_promo_code TEXT;
+    v_discount DECIMAL(10,2) := 0;
+    v_ticket_discount DECIMAL(10,2);
+    v_discount_left DECIMAL(10,2);
+    v_index INTEGER := 0;
+BEGIN
+    IF p_seat_codes IS NULL OR array_length(p_seat_codes, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'No seats selected'
+        );
+    END IF;
+
+    IF array_length(p_seat_codes, 1) <> (SELECT COUNT(DISTINCT seat) FROM unnest(p_seat_codes) AS seat) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'The same seat was selected more than once'
+        );
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_each_text(COALESCE(p_seat_categories, '{}'::jsonb))
+        WHERE value NOT IN ('ADULT', 'CHILD', 'SENIOR', 'FOREIGNER', 'COMPLIMENTARY')
+    ) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_CATEGORY',
+            'error', 'Unknown ticket category'
+        );
+    END IF;
+
+    -- Lock the show to prevent concurrent bookings
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    -- Get show details
+    SELECT id, price, date, status INTO v_show
+    FROM shows
+    WHERE id = p_show_id AND active = true;
+
+    IF NOT FOUND OR COALESCE(v_show.status, 'ACTIVE') NOT IN ('ACTIVE', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'This show is no longer open for booking'
+        );
+    END IF;
+
+    -- Check for conflicts against every confirmed booking, whatever its seat_code format,
+    -- and against live holds from other terminals
+    SELECT array_agg(DISTINCT requested) INTO v_conflicts
+    FROM unnest(p_seat_codes) AS requested
+    WHERE EXISTS (
+        SELECT 1 FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        AND requested = ANY(booking_seat_codes(seat_code))
+    )
+    OR EXISTS (
+        SELECT 1 FROM seat_holds
+        WHERE show_id = p_show_id
+        AND seat_code = requested
+        AND expires_at > NOW()
+        AND holder_id IS DISTINCT FROM p_holder_id
+    );
+
+    IF v_conflicts IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEAT_CONFLICT',
+            'error', 'Some seats have already been booked or are held at another counter',
+            'conflicts', v_conflicts
+        );
+    END IF;
+
+    -- Price every seat before any discount
+    FOREACH v_seat_code IN ARRAY p_seat_codes
+    LOOP
+        v_prices := array_append(v_prices, ticket_price(
+            p_show_id, v_seat_code, COALESCE(p_seat_categories->>v_seat_code, 'ADULT')
+        ));
+    END LOOP;
+
+    SELECT COALESCE(SUM(price), 0) INTO v_subtotal FROM unnest(v_prices) AS price;
+
+    IF NULLIF(TRIM(p_promo_code), '') IS NOT NULL THEN
+        -- Serialise bookings using the same code so usage limits hold
+        PERFORM pg_advisory_xact_lock(hashtext('promo:' || UPPER(TRIM(p_promo_code))));
+
+        v_promo := validate_promo_code(p_promo_code, p_show_id, p_customer_id, v_subtotal);
+
+        IF NOT (v_promo->>'success')::BOOLEAN THEN
+            RETURN v_promo;
+        END IF;
+
+        IF p_customer_id IS NULL AND v_promo->>'max_uses_per_customer' IS NOT NULL THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'PROMO_CUSTOMER_REQUIRED',
+                'error', 'Select a customer to use this promo code'
+            );
+        END IF;
+
+        v_promo_code_id := (v_promo->>'promo_code_id')::UUID;
+        v_promo_code := v_promo->>'code';
+        v_discount := (v_promo->>'discount_amount')::DECIMAL(10,2);
+    END IF;
+
+    v_discount_left := v_discount;
+
+    -- Ticket numbers are sequential per show date, so serialise shows sharing a date
+    v_date_prefix := 'TKT-' || to_char(v_show.date, 'YYYYMMDD') || '-';
+    PERFORM pg_advisory_xact_lock(hashtext(v_date_prefix));
+
+    SELECT COALESCE(MAX(split_part(ticket_code, '-', 3)::INTEGER), 0) + 1
+    INTO v_seq
+    FROM tickets
+    WHERE ticket_code LIKE v_date_prefix || '%'
+    AND split_part(ticket_code, '-', 3) ~ '^[0-9]+$';
+
+    -- Create ONE booking for all seats
+    INSERT INTO bookings (
+        show_id, seat_code, booked_by, customer_id, status,
+        promo_code_id, promo_code, discount_amount
+    )
+    VALUES (
+        p_show_id, array_to_json(p_seat_codes)::text, p_booked_by, p_customer_id, 'CONFIRMED',
+        v_promo_code_id, v_promo_code, v_discount
+    )
+    RETURNING id INTO v_booking_id;
+
+    -- Create tickets for each seat under the same booking
+    FOREACH v_seat_code IN ARRAY p_seat_codes
+    LOOP
+        v_ticket_code := v_date_prefix || lpad(v_seq::text, 4, '0') || '-' || v_seat_code;
+        v_category := COALESCE(p_seat_categories->>v_seat_code, 'ADULT');
+        v_index := v_index + 1;
+
+        -- Spread the discount over the tickets by price; the last ticket takes
+        -- whatever rounding leaves over
+        IF v_index = array_length(p_seat_codes, 1) THEN
+            v_ticket_discount := v_discount_left;
+        ELSIF v_subtotal > 0 THEN
+            v_ticket_discount := ROUND(v_discount * v_prices[v_index] / v_subtotal, 2);
+        ELSE
+            v_ticket_discount := 0;
+        END IF;
+        v_discount_left := v_discount_left - v_ticket_discount;
+
+        v_price := v_prices[v_index] - v_ticket_discount;
+        v_total := v_total + v_price;
+
+        INSERT INTO tickets (
+            booking_id, show_id, seat_code, ticket_code,
+            price, discount_amount, category, generated_by, status
+        )
+        VALUES (
+            v_booking_id, p_show_id, v_seat_code, v_ticket_code,
+            v_price, v_ticket_discount, v_category, COALESCE(p_generated_by, p_booked_by), 'ACTIVE'
+        )
+        RETURNING id INTO v_ticket_id;
+
+        v_tickets := array_append(v_tickets, json_build_object(
+            'id', v_ticket_id,
+            'booking_id', v_booking_id,
+            'seat_code', v_seat_code,
+            'ticket_code', v_ticket_code,
+            'price', v_price,
+            'discount_amount', v_ticket_discount,
+            'category', v_category
+        ));
+
+        v_seq := v_seq + 1;
+    END LOOP;
+
+    -- The seats are booked now, so their holds are no longer needed
+    DELETE FROM seat_holds
+    WHERE show_id = p_show_id
+    AND seat_code = ANY(p_seat_codes);
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', v_booking_id,
+        'tickets', array_to_json(v_tickets),
+        'booking_count', array_length(p_seat_codes, 1),
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount,
+        'promo_code', v_promo_code,
+        'total_amount', v_total
+    );
+END;
+$$;
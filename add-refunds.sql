@@ -0,0 +1,261 @@
+-- Refunds for cancelled bookings, raised at the refund policy rate and paid
+-- out once an admin approves them
+-- Run this after add-payments.sql; it replaces cancel_booking_seats
+--
+-- Net revenue is every ticket sold less approved refunds. Tickets revoked
+-- before this migration are given an approved full refund below, so past
+-- revenue figures don't change.
+
+-- Refund policy, a single row edited from Settings. Each rule gives the
+-- percent refunded when cancelling at least hours_before_show hours before
+-- the show starts; the rule with the most hours that applies wins and no
+-- rule means no refund.
+CREATE TABLE IF NOT EXISTS refund_policy_settings (
+    id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    rules JSONB NOT NULL DEFAULT '[{"hours_before_show": 24, "refund_percent": 100}, {"hours_before_show": 0, "refund_percent": 50}]',
+    updated_by VARCHAR(255),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (jsonb_typeof(rules) = 'array')
+);
+
+INSERT INTO refund_policy_settings (id) VALUES (1)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS refunds (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- Refund history feeds net revenue and the cash shift totals, so a
+    -- booking or show with refunds can't be deleted
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE RESTRICT,
+    show_id UUID REFERENCES shows(id) ON DELETE RESTRICT,
+    seat_codes TEXT[] NOT NULL,
+    ticket_amount DECIMAL(10,2) NOT NULL, -- What the cancelled tickets were sold for
+    policy_percent DECIMAL(5,2) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL, -- Policy amount until an admin approves a different one
+    method VARCHAR(10) NOT NULL CHECK (method IN ('CASH', 'UPI', 'CARD', 'VOUCHER')),
+    reason TEXT,
+    status VARCHAR(10) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+    requested_by VARCHAR(255) NOT NULL,
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reviewed_by VARCHAR(255),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_note TEXT,
+    CHECK (amount >= 0 AND amount <= ticket_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_booking_id ON refunds(booking_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_status ON refunds(status);
+CREATE INDEX IF NOT EXISTS idx_refunds_reviewed_at ON refunds(reviewed_at);
+
+-- Tickets revoked before refunds were recorded were refunded in full
+INSERT INTO refunds (
+    booking_id, show_id, seat_codes, ticket_amount, policy_percent, amount, method,
+    reason, status, requested_by, requested_at, reviewed_by, reviewed_at
+)
+SELECT
+    t.booking_id, t.show_id, array_agg(t.seat_code), SUM(t.price), 100, SUM(t.price), 'CASH',
+    'Recorded before refunds were tracked', 'APPROVED', 'system',
+    COALESCE(MAX(t.revoked_at), MAX(t.generated_at)), 'system', COALESCE(MAX(t.revoked_at), MAX(t.generated_at))
+FROM tickets t
+WHERE t.status = 'REVOKED'
+AND t.price > 0
+AND NOT EXISTS (SELECT 1 FROM refunds r WHERE r.booking_id = t.booking_id)
+GROUP BY t.booking_id, t.show_id;
+
+-- Percent of the ticket price refunded if the show is cancelled now, in the
+-- timezone shows are entered in
+CREATE OR REPLACE FUNCTION refund_policy_percent(p_show_id UUID)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_hours_left NUMERIC;
+    v_percent DECIMAL;
+BEGIN
+    SELECT EXTRACT(EPOCH FROM ((s.date + s.time) AT TIME ZONE l.timezone) - NOW()) / 3600
+    INTO v_hours_left
+    FROM shows s, show_lifecycle_settings l
+    WHERE s.id = p_show_id AND l.id = 1;
+
+    IF v_hours_left IS NULL OR v_hours_left < 0 THEN
+        RETURN 0;
+    END IF;
+
+    SELECT (rule->>'refund_percent')::DECIMAL INTO v_percent
+    FROM refund_policy_settings, jsonb_array_elements(rules) AS rule
+    WHERE id = 1
+    AND (rule->>'hours_before_show')::NUMERIC <= v_hours_left
+    ORDER BY (rule->>'hours_before_show')::NUMERIC DESC
+    LIMIT 1;
+
+    RETURN COALESCE(v_percent, 0);
+END;
+$$;
+
+-- Replace cancel_booking_seats so every cancellation raises a refund
+CREATE OR REPLACE FUNCTION cancel_booking_seats(
+    p_booking_id UUID,
+    p_seat_codes TEXT[] DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL,
+    p_cancelled_by TEXT DEFAULT 'system'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_show_status TEXT;
+    v_booked TEXT[];
+    v_cancel TEXT[];
+    v_remaining TEXT[];
+    v_invalid TEXT[];
+    v_revoked INTEGER;
+    v_ticket_amount DECIMAL(10,2);
+    v_refund_percent DECIMAL(5,2);
+    v_refund_method TEXT;
+    v_refund_id UUID;
+    v_refund_amount DECIMAL(10,2);
+BEGIN
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Booking not found'
+        );
+    END IF;
+
+    -- Take the same lock as book_seats_atomic so freed seats are never double-booked
+    PERFORM pg_advisory_xact_lock(hashtext(v_booking.show_id::text));
+
+    -- Re-read the booking now that we hold the show lock
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_id
+    FOR UPDATE;
+
+    IF v_booking.status = 'CANCELLED' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Booking is already cancelled'
+        );
+    END IF;
+
+    SELECT status INTO v_show_status
+    FROM shows
+    WHERE id = v_booking.show_id;
+
+    IF v_show_status = 'SHOW_DONE' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Bookings for a completed show cannot be cancelled'
+        );
+    END IF;
+
+    -- seat_code is stored either as a JSON array or as a comma separated list
+    IF left(v_booking.seat_code, 1) = '[' THEN
+        SELECT array_agg(value) INTO v_booked
+        FROM json_array_elements_text(v_booking.seat_code::json);
+    ELSE
+        SELECT array_agg(trim(seat)) INTO v_booked
+        FROM unnest(string_to_array(v_booking.seat_code, ',')) AS seat;
+    END IF;
+
+    v_cancel := COALESCE(p_seat_codes, v_booked);
+
+    IF array_length(v_cancel, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'No seats selected for cancellation'
+        );
+    END IF;
+
+    SELECT array_agg(seat) INTO v_invalid
+    FROM unnest(v_cancel) AS seat
+    WHERE NOT (seat = ANY(v_booked));
+
+    IF v_invalid IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Some seats are not part of this booking',
+            'invalid_seats', v_invalid
+        );
+    END IF;
+
+    SELECT array_agg(seat ORDER BY ord) INTO v_remaining
+    FROM unnest(v_booked) WITH ORDINALITY AS t(seat, ord)
+    WHERE NOT (seat = ANY(v_cancel));
+
+    -- Revoke the tickets for the released seats
+    WITH revoked AS (
+        UPDATE tickets
+        SET status = 'REVOKED', revoked_at = NOW()
+        WHERE booking_id = p_booking_id
+        AND seat_code = ANY(v_cancel)
+        AND status = 'ACTIVE'
+        RETURNING price
+    )
+    SELECT COUNT(*), COALESCE(SUM(price), 0) INTO v_revoked, v_ticket_amount
+    FROM revoked;
+
+    -- Raise a refund for what the released tickets were sold for, at the
+    -- policy rate. Season pass and free tickets have nothing to refund.
+    IF v_ticket_amount > 0 THEN
+        v_refund_percent := refund_policy_percent(v_booking.show_id);
+        v_refund_amount := ROUND(v_ticket_amount * v_refund_percent / 100, 2);
+
+        -- Refund the way most of the booking was paid
+        SELECT method INTO v_refund_method
+        FROM payments
+        WHERE booking_id = p_booking_id
+        ORDER BY amount DESC
+        LIMIT 1;
+
+        INSERT INTO refunds (
+            booking_id, show_id, seat_codes, ticket_amount, policy_percent,
+            amount, method, reason, requested_by
+        )
+        VALUES (
+            p_booking_id, v_booking.show_id, v_cancel, v_ticket_amount, v_refund_percent,
+            v_refund_amount, COALESCE(v_refund_method, 'CASH'), p_reason, p_cancelled_by
+        )
+        RETURNING id INTO v_refund_id;
+    END IF;
+
+    IF v_remaining IS NULL THEN
+        -- Every seat released: cancel the booking itself
+        UPDATE bookings
+        SET status = 'CANCELLED',
+            cancelled_at = NOW(),
+            cancelled_by = p_cancelled_by,
+            cancellation_reason = p_reason
+        WHERE id = p_booking_id;
+    ELSE
+        -- Partial release: keep the booking for the remaining seats
+        UPDATE bookings
+        SET seat_code = array_to_json(v_remaining)::text
+        WHERE id = p_booking_id;
+    END IF;
+
+    -- Freed seats make a full house bookable again
+    UPDATE shows
+    SET status = 'ACTIVE'
+    WHERE id = v_booking.show_id
+    AND status = 'HOUSE_FULL';
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', p_booking_id,
+        'show_id', v_booking.show_id,
+        'cancelled_seats', v_cancel,
+        'remaining_seats', COALESCE(v_remaining, '{}'),
+        'revoked_tickets', v_revoked,
+        'booking_cancelled', v_remaining IS NULL,
+        'refund_id', v_refund_id,
+        'refund_amount', COALESCE(v_refund_amount, 0),
+        'refund_percent', v_refund_percent
+    );
+END;
+$$;
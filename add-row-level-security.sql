@@ -0,0 +1,1034 @@
+-- Row level security: the database enforces the same admin and staff split
+-- as the app's routes, so the API key in the browser can't be used to get
+-- round it
+-- Run this after add-sessions.sql
+-- Replaces advance_show_lifecycle, cancel_booking_seats, cancel_show,
+-- reschedule_show, hold_seats and claim_waitlist_offer, and tightens the
+-- users_select policy from add-sessions.sql. Run add-permissions.sql
+-- straight after: until then no one can sell or check in tickets, review
+-- refunds or close a shift through the API.
+--
+-- Requests without a live session (the anon key on its own, or a token
+-- whose session has ended) get no access to any table. Signed-in users get:
+--
+--   Everyone signed in: read every table but users, seeing only their own
+--     cash shifts and activity log entries; manage customers, the waitlist,
+--     seat holds and season passes; send notifications; open their own
+--     cash shift; write the activity log
+--   Admins only: change shows, series, layouts, seats, venues, holidays,
+--     promo codes and settings; delete bookings, tickets and payments;
+--     process refunds; see every cash shift, the activity log and every user
+--
+-- No one writes bookings, tickets, payments or refunds directly, or closes
+-- a cash shift by hand. Selling, checking in, cancelling and closing a
+-- shift go through functions that run as their owner and check the caller
+-- themselves, so prices, statuses, who took the money and what a drawer
+-- held can't be made up. Other functions run with the caller's rights, so
+-- these rules apply inside them too. Scripts run in the SQL editor carry no
+-- claims, and are not affected.
+--
+-- Functions that record who did something take it from the session, not
+-- from an argument the caller could fill in with any name. Scripts run in
+-- the SQL editor and the scheduled lifecycle job have no session, so they
+-- fall back to 'system' or 'scheduler', or to the booking name for tickets
+-- and payments.
+
+CREATE OR REPLACE FUNCTION app_user_email()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT email FROM users WHERE id = app_user_id();
+$$;
+
+-- Policies call the session functions through a SELECT so they run once
+-- per statement rather than once per row
+
+-- Reference data: everyone signed in reads it, admins change it
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    FOREACH v_table IN ARRAY ARRAY[
+        'layouts', 'seats', 'venues', 'holidays', 'show_series', 'shows',
+        'show_booking_moves', 'show_status_transitions', 'show_lifecycle_settings',
+        'promo_codes', 'refund_policy_settings'
+    ] LOOP
+        EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', v_table);
+
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_table || '_select', v_table);
+        EXECUTE format(
+            'CREATE POLICY %I ON %I FOR SELECT TO authenticated USING ((SELECT app_user_id()) IS NOT NULL)',
+            v_table || '_select', v_table
+        );
+
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_table || '_admin_write', v_table);
+        EXECUTE format(
+            'CREATE POLICY %I ON %I FOR ALL TO authenticated '
+            'USING ((SELECT app_user_role()) = ''admin'') WITH CHECK ((SELECT app_user_role()) = ''admin'')',
+            v_table || '_admin_write', v_table
+        );
+    END LOOP;
+END;
+$$;
+
+-- Box office records: everyone signed in reads them; only admins delete them
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    FOREACH v_table IN ARRAY ARRAY['bookings', 'tickets'] LOOP
+        EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', v_table);
+
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_table || '_select', v_table);
+        EXECUTE format(
+            'CREATE POLICY %I ON %I FOR SELECT TO authenticated USING ((SELECT app_user_id()) IS NOT NULL)',
+            v_table || '_select', v_table
+        );
+
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_table || '_admin_delete', v_table);
+        EXECUTE format(
+            'CREATE POLICY %I ON %I FOR DELETE TO authenticated USING ((SELECT app_user_role()) = ''admin'')',
+            v_table || '_admin_delete', v_table
+        );
+    END LOOP;
+END;
+$$;
+
+-- Worked on by everyone at the counter
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    FOREACH v_table IN ARRAY ARRAY[
+        'customers', 'season_passes', 'seat_holds', 'waitlist_entries', 'customer_notifications'
+    ] LOOP
+        EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', v_table);
+
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_table || '_signed_in', v_table);
+        EXECUTE format(
+            'CREATE POLICY %I ON %I FOR ALL TO authenticated '
+            'USING ((SELECT app_user_id()) IS NOT NULL) WITH CHECK ((SELECT app_user_id()) IS NOT NULL)',
+            v_table || '_signed_in', v_table
+        );
+    END LOOP;
+END;
+$$;
+
+-- Money taken is read by everyone signed in; only admins delete it
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS payments_select ON payments;
+CREATE POLICY payments_select ON payments
+    FOR SELECT TO authenticated
+    USING ((SELECT app_user_id()) IS NOT NULL);
+
+DROP POLICY IF EXISTS payments_admin_delete ON payments;
+CREATE POLICY payments_admin_delete ON payments
+    FOR DELETE TO authenticated
+    USING ((SELECT app_user_role()) = 'admin');
+
+-- Raised by cancelling a booking and processed by review_refund in
+-- add-permissions.sql; only admins delete them
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS refunds_select ON refunds;
+CREATE POLICY refunds_select ON refunds
+    FOR SELECT TO authenticated
+    USING ((SELECT app_user_id()) IS NOT NULL);
+
+DROP POLICY IF EXISTS refunds_admin_delete ON refunds;
+CREATE POLICY refunds_admin_delete ON refunds
+    FOR DELETE TO authenticated
+    USING ((SELECT app_user_role()) = 'admin');
+
+-- Staff see and open their own shift; admins see and change every shift
+ALTER TABLE cash_shifts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS cash_shifts_select ON cash_shifts;
+CREATE POLICY cash_shifts_select ON cash_shifts
+    FOR SELECT TO authenticated
+    USING (staff_email = (SELECT app_user_email()) OR (SELECT app_user_role()) = 'admin');
+
+DROP POLICY IF EXISTS cash_shifts_insert ON cash_shifts;
+CREATE POLICY cash_shifts_insert ON cash_shifts
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        status = 'OPEN'
+        AND (staff_email = (SELECT app_user_email()) OR (SELECT app_user_role()) = 'admin')
+    );
+
+DROP POLICY IF EXISTS cash_shifts_update ON cash_shifts;
+DROP POLICY IF EXISTS cash_shifts_admin_update ON cash_shifts;
+CREATE POLICY cash_shifts_admin_update ON cash_shifts
+    FOR UPDATE TO authenticated
+    USING ((SELECT app_user_role()) = 'admin')
+    WITH CHECK ((SELECT app_user_role()) = 'admin');
+
+DROP POLICY IF EXISTS cash_shifts_admin_delete ON cash_shifts;
+CREATE POLICY cash_shifts_admin_delete ON cash_shifts
+    FOR DELETE TO authenticated
+    USING ((SELECT app_user_role()) = 'admin');
+
+-- Everyone's actions are logged, under their own name only. Staff can read
+-- back only their own entries, which adding one needs; admins read and
+-- clear the whole log.
+ALTER TABLE activity_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS activity_logs_insert ON activity_logs;
+CREATE POLICY activity_logs_insert ON activity_logs
+    FOR INSERT TO authenticated
+    WITH CHECK ((SELECT app_user_id()) IS NOT NULL AND performed_by = (SELECT app_user_email()));
+
+DROP POLICY IF EXISTS activity_logs_select ON activity_logs;
+CREATE POLICY activity_logs_select ON activity_logs
+    FOR SELECT TO authenticated
+    USING (performed_by = (SELECT app_user_email()) OR (SELECT app_user_role()) = 'admin');
+
+DROP POLICY IF EXISTS activity_logs_admin_delete ON activity_logs;
+CREATE POLICY activity_logs_admin_delete ON activity_logs
+    FOR DELETE TO authenticated
+    USING ((SELECT app_user_role()) = 'admin');
+
+-- Staff see only themselves; admins see everyone
+DROP POLICY IF EXISTS users_select ON users;
+CREATE POLICY users_select ON users
+    FOR SELECT TO authenticated
+    USING (id = (SELECT app_user_id()) OR (SELECT app_user_role()) = 'admin');
+
+-- Replace advance_show_lifecycle so status changes are logged under the
+-- signed-in user, or the scheduler. Moving shows on is safe for anyone
+-- signed in to trigger, and needs to change shows.
+DROP FUNCTION IF EXISTS advance_show_lifecycle(TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION advance_show_lifecycle(
+    p_log_changes BOOLEAN DEFAULT true
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_performed_by TEXT := COALESCE(app_user_email(), 'scheduler');
+    v_settings RECORD;
+    v_show RECORD;
+    v_status TEXT;
+    v_new_status TEXT;
+    v_starts_at TIMESTAMP WITH TIME ZONE;
+    v_capacity INTEGER;
+    v_booked INTEGER;
+    v_completed INTEGER;
+    v_changes JSON[] := '{}';
+BEGIN
+    SELECT * INTO v_settings FROM show_lifecycle_settings WHERE id = 1;
+
+    FOR v_show IN
+        SELECT s.id, s.title, s.date, s.time, s.venue_id, l.structure
+        FROM shows s
+        LEFT JOIN layouts l ON l.id = s.layout_id
+        WHERE COALESCE(s.status, 'ACTIVE') NOT IN ('SHOW_DONE', 'CANCELLED', 'RESCHEDULED')
+        ORDER BY s.date, s.time
+    LOOP
+        -- Same lock as booking and cancellation, then re-read the status under it
+        PERFORM pg_advisory_xact_lock(hashtext(v_show.id::text));
+
+        SELECT COALESCE(status, 'ACTIVE') INTO v_status FROM shows WHERE id = v_show.id;
+        IF v_status IN ('SHOW_DONE', 'CANCELLED', 'RESCHEDULED') THEN
+            CONTINUE;
+        END IF;
+
+        v_starts_at := show_starts_at(v_show.date, v_show.time, v_show.venue_id);
+        v_new_status := NULL;
+        v_completed := 0;
+
+        IF NOW() >= v_starts_at + make_interval(mins => v_settings.done_after_minutes) THEN
+            v_new_status := 'SHOW_DONE';
+        ELSIF NOW() >= v_starts_at + make_interval(mins => v_settings.started_after_minutes) THEN
+            IF v_status = 'ACTIVE' THEN
+                v_new_status := 'SHOW_STARTED';
+            END IF;
+        ELSIF v_status = 'ACTIVE' THEN
+            v_capacity := layout_seat_capacity(v_show.structure);
+
+            SELECT COALESCE(SUM(array_length(booking_seat_codes(seat_code), 1)), 0)
+            INTO v_booked
+            FROM bookings
+            WHERE show_id = v_show.id
+            AND status = 'CONFIRMED';
+
+            IF v_capacity > 0 AND v_booked >= v_capacity THEN
+                v_new_status := 'HOUSE_FULL';
+            END IF;
+        END IF;
+
+        IF v_new_status IS NULL THEN
+            CONTINUE;
+        END IF;
+
+        UPDATE shows SET status = v_new_status WHERE id = v_show.id;
+
+        IF v_new_status = 'SHOW_DONE' THEN
+            UPDATE tickets
+            SET status = 'COMPLETED'
+            WHERE show_id = v_show.id
+            AND status = 'ACTIVE';
+
+            GET DIAGNOSTICS v_completed = ROW_COUNT;
+        END IF;
+
+        IF p_log_changes THEN
+            PERFORM log_activity(
+                'STATUS_CHANGE',
+                'SHOW',
+                v_show.id,
+                v_show.title,
+                jsonb_build_object(
+                    'from_status', v_status,
+                    'to_status', v_new_status,
+                    'completed_tickets', v_completed
+                ),
+                v_performed_by
+            );
+        END IF;
+
+        v_changes := array_append(v_changes, json_build_object(
+            'show_id', v_show.id,
+            'show_title', v_show.title,
+            'from_status', v_status,
+            'to_status', v_new_status,
+            'completed_tickets', v_completed
+        ));
+    END LOOP;
+
+    RETURN json_build_object(
+        'success', true,
+        'changes', array_to_json(v_changes)
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION advance_show_lifecycle(BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION advance_show_lifecycle(BOOLEAN) TO authenticated;
+
+-- The scheduled job called the old version by name; point it at this one
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'advance-show-lifecycle',
+            '* * * * *',
+            $cron$SELECT advance_show_lifecycle()$cron$
+        );
+    END IF;
+END;
+$$;
+
+-- Only the cancelling and rescheduling functions raise refunds for seats the
+-- venue couldn't honour
+REVOKE EXECUTE ON FUNCTION refund_venue_cancelled_seats(UUID, UUID, TEXT[], DECIMAL, TEXT, TEXT)
+    FROM PUBLIC, anon, authenticated;
+
+-- Replace cancel_booking_seats so staff can reopen a full house
+DROP FUNCTION IF EXISTS cancel_booking_seats(UUID, TEXT[], TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION cancel_booking_seats(
+    p_booking_id UUID,
+    p_seat_codes TEXT[] DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_cancelled_by TEXT := COALESCE(app_user_email(), 'system');
+    v_booking RECORD;
+    v_show_status TEXT;
+    v_booked TEXT[];
+    v_cancel TEXT[];
+    v_remaining TEXT[];
+    v_invalid TEXT[];
+    v_revoked INTEGER;
+    v_ticket_amount DECIMAL(10,2);
+    v_refund_percent DECIMAL(5,2);
+    v_refund_method TEXT;
+    v_refund_id UUID;
+    v_refund_amount DECIMAL(10,2);
+    v_waitlist_offers INTEGER;
+BEGIN
+    -- Through the API only signed-in staff can cancel bookings
+    IF request_claims() IS NOT NULL AND app_user_id() IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'Sign in to cancel bookings'
+        );
+    END IF;
+
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Booking not found'
+        );
+    END IF;
+
+    -- Take the same lock as book_seats_atomic so freed seats are never double-booked
+    PERFORM pg_advisory_xact_lock(hashtext(v_booking.show_id::text));
+
+    -- Re-read the booking now that we hold the show lock
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_id
+    FOR UPDATE;
+
+    IF v_booking.status = 'CANCELLED' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Booking is already cancelled'
+        );
+    END IF;
+
+    SELECT status INTO v_show_status
+    FROM shows
+    WHERE id = v_booking.show_id;
+
+    IF v_show_status = 'SHOW_DONE' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Bookings for a completed show cannot be cancelled'
+        );
+    END IF;
+
+    -- seat_code is stored either as a JSON array or as a comma separated list
+    IF left(v_booking.seat_code, 1) = '[' THEN
+        SELECT array_agg(value) INTO v_booked
+        FROM json_array_elements_text(v_booking.seat_code::json);
+    ELSE
+        SELECT array_agg(trim(seat)) INTO v_booked
+        FROM unnest(string_to_array(v_booking.seat_code, ',')) AS seat;
+    END IF;
+
+    v_cancel := COALESCE(p_seat_codes, v_booked);
+
+    IF array_length(v_cancel, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'No seats selected for cancellation'
+        );
+    END IF;
+
+    SELECT array_agg(seat) INTO v_invalid
+    FROM unnest(v_cancel) AS seat
+    WHERE NOT (seat = ANY(v_booked));
+
+    IF v_invalid IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Some seats are not part of this booking',
+            'invalid_seats', v_invalid
+        );
+    END IF;
+
+    SELECT array_agg(seat ORDER BY ord) INTO v_remaining
+    FROM unnest(v_booked) WITH ORDINALITY AS t(seat, ord)
+    WHERE NOT (seat = ANY(v_cancel));
+
+    -- Revoke the tickets for the released seats
+    WITH revoked AS (
+        UPDATE tickets
+        SET status = 'REVOKED', revoked_at = NOW()
+        WHERE booking_id = p_booking_id
+        AND seat_code = ANY(v_cancel)
+        AND status = 'ACTIVE'
+        RETURNING price
+    )
+    SELECT COUNT(*), COALESCE(SUM(price), 0) INTO v_revoked, v_ticket_amount
+    FROM revoked;
+
+    -- Raise a refund for what the released tickets were sold for, at the
+    -- policy rate. Season pass and free tickets have nothing to refund.
+    IF v_ticket_amount > 0 THEN
+        v_refund_percent := refund_policy_percent(v_booking.show_id);
+        v_refund_amount := ROUND(v_ticket_amount * v_refund_percent / 100, 2);
+
+        -- Refund the way most of the booking was paid
+        SELECT method INTO v_refund_method
+        FROM payments
+        WHERE booking_id = p_booking_id
+        ORDER BY amount DESC
+        LIMIT 1;
+
+        INSERT INTO refunds (
+            booking_id, show_id, seat_codes, ticket_amount, policy_percent,
+            amount, method, reason, requested_by
+        )
+        VALUES (
+            p_booking_id, v_booking.show_id, v_cancel, v_ticket_amount, v_refund_percent,
+            v_refund_amount, COALESCE(v_refund_method, 'CASH'), p_reason, v_cancelled_by
+        )
+        RETURNING id INTO v_refund_id;
+    END IF;
+
+    IF v_remaining IS NULL THEN
+        -- Every seat released: cancel the booking itself
+        UPDATE bookings
+        SET status = 'CANCELLED',
+            cancelled_at = NOW(),
+            cancelled_by = v_cancelled_by,
+            cancellation_reason = p_reason
+        WHERE id = p_booking_id;
+    ELSE
+        -- Partial release: keep the booking for the remaining seats
+        UPDATE bookings
+        SET seat_code = array_to_json(v_remaining)::text
+        WHERE id = p_booking_id;
+    END IF;
+
+    -- Freed seats make a full house bookable again
+    UPDATE shows
+    SET status = 'ACTIVE'
+    WHERE id = v_booking.show_id
+    AND status = 'HOUSE_FULL';
+
+    -- Offer the freed seats to anyone waiting for the show
+    v_waitlist_offers := offer_waitlist_seats(v_booking.show_id);
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', p_booking_id,
+        'show_id', v_booking.show_id,
+        'cancelled_seats', v_cancel,
+        'remaining_seats', COALESCE(v_remaining, '{}'),
+        'revoked_tickets', v_revoked,
+        'booking_cancelled', v_remaining IS NULL,
+        'refund_id', v_refund_id,
+        'refund_amount', COALESCE(v_refund_amount, 0),
+        'refund_percent', v_refund_percent,
+        'waitlist_offers', v_waitlist_offers
+    );
+END;
+$$;
+
+-- Replace cancel_show so only admins can cancel shows
+DROP FUNCTION IF EXISTS cancel_show(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION cancel_show(
+    p_show_id UUID,
+    p_reason TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_cancelled_by TEXT := COALESCE(app_user_email(), 'system');
+    v_show RECORD;
+    v_booking RECORD;
+    v_seats TEXT[];
+    v_amount DECIMAL(10,2);
+    v_bookings INTEGER := 0;
+    v_tickets INTEGER := 0;
+    v_refunded DECIMAL(10,2) := 0;
+    v_revoked INTEGER;
+BEGIN
+    -- Through the API only an admin can cancel shows
+    IF request_claims() IS NOT NULL AND app_user_role() IS DISTINCT FROM 'admin' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'Only an admin can cancel shows'
+        );
+    END IF;
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'REASON_REQUIRED',
+            'error', 'Enter a reason for the cancellation'
+        );
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    SELECT id, title, date, time, COALESCE(status, 'ACTIVE') AS status INTO v_show
+    FROM shows
+    WHERE id = p_show_id;
+
+    IF NOT FOUND OR v_show.status NOT IN ('ACTIVE', 'HOUSE_FULL', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'Only upcoming or running shows can be cancelled'
+        );
+    END IF;
+
+    FOR v_booking IN
+        SELECT id, seat_code
+        FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        ORDER BY booking_time
+        FOR UPDATE
+    LOOP
+        v_seats := booking_seat_codes(v_booking.seat_code);
+
+        WITH revoked AS (
+            UPDATE tickets
+            SET status = 'REVOKED', revoked_at = NOW()
+            WHERE booking_id = v_booking.id
+            AND status = 'ACTIVE'
+            RETURNING id, seat_code, price
+        ),
+        moves AS (
+            INSERT INTO show_booking_moves (from_show_id, booking_id, ticket_id, from_seat, outcome, moved_by)
+            SELECT p_show_id, v_booking.id, id, seat_code, 'REFUNDED', v_cancelled_by
+            FROM revoked
+        )
+        SELECT COUNT(*), COALESCE(SUM(price), 0) INTO v_revoked, v_amount
+        FROM revoked;
+
+        PERFORM refund_venue_cancelled_seats(
+            v_booking.id, p_show_id, v_seats, v_amount,
+            'Show cancelled: ' || p_reason, v_cancelled_by
+        );
+
+        UPDATE bookings
+        SET status = 'CANCELLED',
+            cancelled_at = NOW(),
+            cancelled_by = v_cancelled_by,
+            cancellation_reason = 'Show cancelled: ' || p_reason
+        WHERE id = v_booking.id;
+
+        PERFORM queue_booking_notification(
+            v_booking.id, p_show_id, 'SHOW_CANCELLED',
+            format(
+                'We are sorry: %s on %s at %s has been cancelled (%s). Your booking for seats %s is cancelled and %s will be refunded in full.',
+                v_show.title, to_char(v_show.date, 'DD Mon YYYY'), to_char(v_show.time, 'HH12:MI AM'), p_reason,
+                array_to_string(v_seats, ', '),
+                CASE WHEN v_amount > 0 THEN '₹' || v_amount::TEXT ELSE 'any payment' END
+            )
+        );
+
+        v_bookings := v_bookings + 1;
+        v_tickets := v_tickets + v_revoked;
+        v_refunded := v_refunded + v_amount;
+    END LOOP;
+
+    -- Nobody can be offered seats at a cancelled show
+    UPDATE waitlist_entries
+    SET status = 'CANCELLED'
+    WHERE show_id = p_show_id
+    AND status IN ('WAITING', 'OFFERED');
+
+    DELETE FROM seat_holds WHERE show_id = p_show_id;
+
+    UPDATE shows
+    SET status = 'CANCELLED',
+        status_reason = p_reason,
+        status_changed_by = v_cancelled_by,
+        status_changed_at = NOW()
+    WHERE id = p_show_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'cancelled_bookings', v_bookings,
+        'revoked_tickets', v_tickets,
+        'refund_amount', v_refunded
+    );
+END;
+$$;
+
+-- Replace reschedule_show so only admins can reschedule shows
+DROP FUNCTION IF EXISTS reschedule_show(UUID, DATE, TIME, TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION reschedule_show(
+    p_show_id UUID,
+    p_date DATE,
+    p_time TIME,
+    p_reason TEXT,
+    p_layout_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_rescheduled_by TEXT := COALESCE(app_user_email(), 'system');
+    v_show RECORD;
+    v_layout_id UUID;
+    v_structure JSONB;
+    v_layout_seats TEXT[];
+    v_taken TEXT[] := '{}';
+    v_new_show_id UUID;
+    v_booking RECORD;
+    v_seats TEXT[];
+    v_seat TEXT;
+    v_new_seat TEXT;
+    v_new_seats TEXT[];
+    v_refund_seats TEXT[];
+    v_ticket RECORD;
+    v_amount DECIMAL(10,2);
+    v_kept INTEGER := 0;
+    v_reseated INTEGER := 0;
+    v_refunded INTEGER := 0;
+    v_bookings INTEGER := 0;
+BEGIN
+    -- Through the API only an admin can reschedule shows
+    IF request_claims() IS NOT NULL AND app_user_role() IS DISTINCT FROM 'admin' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'Only an admin can reschedule shows'
+        );
+    END IF;
+
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'REASON_REQUIRED',
+            'error', 'Enter a reason for the reschedule'
+        );
+    END IF;
+
+    -- The new show is at the venue of the layout it will use
+    IF show_starts_at(p_date, p_time, (
+        SELECT venue_id FROM layouts
+        WHERE id = COALESCE(p_layout_id, (SELECT layout_id FROM shows WHERE id = p_show_id))
+    )) <= NOW() THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_DATE',
+            'error', 'The new date and time must be in the future'
+        );
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    SELECT *, COALESCE(status, 'ACTIVE') AS current_status INTO v_show
+    FROM shows
+    WHERE id = p_show_id;
+
+    IF NOT FOUND OR v_show.current_status NOT IN ('ACTIVE', 'HOUSE_FULL', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'Only upcoming or running shows can be rescheduled'
+        );
+    END IF;
+
+    v_layout_id := COALESCE(p_layout_id, v_show.layout_id);
+
+    SELECT structure INTO v_structure FROM layouts WHERE id = v_layout_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'LAYOUT_NOT_FOUND',
+            'error', 'Layout not found'
+        );
+    END IF;
+
+    INSERT INTO shows (
+        title, date, time, price, tier_prices, category_prices,
+        group_min_seats, group_discount_percent, description, layout_id, series_id
+    )
+    VALUES (
+        v_show.title, p_date, p_time, v_show.price, v_show.tier_prices, v_show.category_prices,
+        v_show.group_min_seats, v_show.group_discount_percent, v_show.description, v_layout_id, v_show.series_id
+    )
+    RETURNING id INTO v_new_show_id;
+
+    PERFORM pg_advisory_xact_lock(hashtext(v_new_show_id::text));
+
+    -- On the same layout every seat exists. Otherwise seats the new layout
+    -- also has are kept first, so re-seating never takes someone's own seat.
+    IF v_layout_id IS DISTINCT FROM v_show.layout_id THEN
+        v_layout_seats := layout_seat_codes(v_structure);
+
+        SELECT COALESCE(array_agg(seat), '{}') INTO v_taken
+        FROM bookings b, unnest(booking_seat_codes(b.seat_code)) AS seat
+        WHERE b.show_id = p_show_id
+        AND b.status = 'CONFIRMED'
+        AND seat = ANY(v_layout_seats);
+    END IF;
+
+    FOR v_booking IN
+        SELECT id, seat_code
+        FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        ORDER BY booking_time
+        FOR UPDATE
+    LOOP
+        v_seats := booking_seat_codes(v_booking.seat_code);
+        v_new_seats := '{}';
+        v_refund_seats := '{}';
+        v_amount := 0;
+
+        FOREACH v_seat IN ARRAY v_seats
+        LOOP
+            SELECT id, price INTO v_ticket
+            FROM tickets
+            WHERE booking_id = v_booking.id
+            AND seat_code = v_seat
+            AND status = 'ACTIVE'
+            LIMIT 1;
+
+            IF v_layout_seats IS NULL OR v_seat = ANY(v_layout_seats) THEN
+                v_new_seat := v_seat;
+                v_kept := v_kept + 1;
+            ELSE
+                SELECT seat INTO v_new_seat
+                FROM unnest(v_layout_seats) WITH ORDINALITY AS t(seat, ord)
+                WHERE NOT (seat = ANY(v_taken))
+                ORDER BY ord
+                LIMIT 1;
+
+                IF v_new_seat IS NOT NULL THEN
+                    v_taken := array_append(v_taken, v_new_seat);
+                    v_reseated := v_reseated + 1;
+                END IF;
+            END IF;
+
+            IF v_new_seat IS NULL THEN
+                -- No seat left on the new layout
+                UPDATE tickets
+                SET status = 'REVOKED', revoked_at = NOW()
+                WHERE id = v_ticket.id;
+
+                v_refund_seats := array_append(v_refund_seats, v_seat);
+                v_amount := v_amount + COALESCE(v_ticket.price, 0);
+                v_refunded := v_refunded + 1;
+            ELSE
+                UPDATE tickets
+                SET show_id = v_new_show_id,
+                    seat_code = v_new_seat
+                WHERE id = v_ticket.id;
+
+                v_new_seats := array_append(v_new_seats, v_new_seat);
+            END IF;
+
+            INSERT INTO show_booking_moves (
+                from_show_id, to_show_id, booking_id, ticket_id,
+                from_seat, to_seat, outcome, moved_by
+            )
+            VALUES (
+                p_show_id,
+                CASE WHEN v_new_seat IS NULL THEN NULL ELSE v_new_show_id END,
+                v_booking.id, v_ticket.id, v_seat, v_new_seat,
+                CASE
+                    WHEN v_new_seat IS NULL THEN 'REFUNDED'
+                    WHEN v_new_seat = v_seat THEN 'KEPT_SEAT'
+                    ELSE 'RESEATED'
+                END,
+                v_rescheduled_by
+            );
+        END LOOP;
+
+        PERFORM refund_venue_cancelled_seats(
+            v_booking.id, p_show_id, v_refund_seats, v_amount,
+            'Show rescheduled: ' || p_reason, v_rescheduled_by
+        );
+
+        IF array_length(v_new_seats, 1) IS NULL THEN
+            UPDATE bookings
+            SET status = 'CANCELLED',
+                cancelled_at = NOW(),
+                cancelled_by = v_rescheduled_by,
+                cancellation_reason = 'Show rescheduled: no seats on the new layout'
+            WHERE id = v_booking.id;
+        ELSE
+            UPDATE bookings
+            SET show_id = v_new_show_id,
+                seat_code = array_to_json(v_new_seats)::text
+            WHERE id = v_booking.id;
+        END IF;
+
+        PERFORM queue_booking_notification(
+            v_booking.id, p_show_id, 'SHOW_RESCHEDULED',
+            format(
+                '%s on %s at %s has been rescheduled to %s at %s (%s).',
+                v_show.title, to_char(v_show.date, 'DD Mon YYYY'), to_char(v_show.time, 'HH12:MI AM'),
+                to_char(p_date, 'DD Mon YYYY'), to_char(p_time, 'HH12:MI AM'), p_reason
+            ) ||
+            CASE WHEN array_length(v_new_seats, 1) IS NULL THEN ''
+                WHEN v_new_seats = v_seats THEN format(' Your tickets are still valid for seats %s.', array_to_string(v_new_seats, ', '))
+                ELSE format(' Your tickets are still valid; your seats are now %s.', array_to_string(v_new_seats, ', '))
+            END ||
+            CASE WHEN array_length(v_refund_seats, 1) IS NULL THEN ''
+                ELSE format(' Seats %s could not be moved and will be refunded in full.', array_to_string(v_refund_seats, ', '))
+            END
+        );
+
+        v_bookings := v_bookings + 1;
+    END LOOP;
+
+    -- The waitlist carries over; offers start again at the new show
+    DELETE FROM seat_holds WHERE show_id = p_show_id;
+
+    UPDATE waitlist_entries
+    SET show_id = v_new_show_id,
+        status = 'WAITING',
+        offered_seats = NULL,
+        offered_at = NULL,
+        offer_expires_at = NULL
+    WHERE show_id = p_show_id
+    AND status IN ('WAITING', 'OFFERED');
+
+    UPDATE shows
+    SET status = 'RESCHEDULED',
+        status_reason = p_reason,
+        status_changed_by = v_rescheduled_by,
+        status_changed_at = NOW(),
+        rescheduled_to = v_new_show_id
+    WHERE id = p_show_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'new_show_id', v_new_show_id,
+        'moved_bookings', v_bookings,
+        'kept_seats', v_kept,
+        'reseated_seats', v_reseated,
+        'refunded_seats', v_refunded
+    );
+END;
+$$;
+
+-- Replace hold_seats and claim_waitlist_offer so seats are held under the
+-- signed-in user
+DROP FUNCTION IF EXISTS hold_seats(UUID, TEXT[], TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION hold_seats(
+    p_show_id UUID,
+    p_seat_codes TEXT[],
+    p_holder_id TEXT,
+    p_hold_seconds INTEGER DEFAULT 300
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_held_by TEXT := COALESCE(app_user_email(), 'system');
+    v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + make_interval(secs => LEAST(GREATEST(COALESCE(p_hold_seconds, 300), 30), 600));
+    v_conflicts TEXT[];
+BEGIN
+    -- Same lock as book_seats_atomic so a hold never races a booking
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    DELETE FROM seat_holds WHERE expires_at <= NOW();
+
+    SELECT array_agg(DISTINCT requested) INTO v_conflicts
+    FROM unnest(p_seat_codes) AS requested
+    WHERE EXISTS (
+        SELECT 1 FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        AND requested = ANY(booking_seat_codes(seat_code))
+    )
+    OR EXISTS (
+        SELECT 1 FROM seat_holds
+        WHERE show_id = p_show_id
+        AND seat_code = requested
+        AND holder_id <> p_holder_id
+    );
+
+    IF v_conflicts IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEAT_CONFLICT',
+            'error', 'Some seats are booked or held at another counter',
+            'conflicts', v_conflicts
+        );
+    END IF;
+
+    INSERT INTO seat_holds (show_id, seat_code, holder_id, held_by, expires_at)
+    SELECT p_show_id, seat, p_holder_id, v_held_by, v_expires_at
+    FROM unnest(p_seat_codes) AS seat
+    ON CONFLICT (show_id, seat_code) DO UPDATE
+    SET expires_at = EXCLUDED.expires_at;
+
+    UPDATE seat_holds
+    SET expires_at = v_expires_at
+    WHERE show_id = p_show_id
+    AND holder_id = p_holder_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'expires_at', v_expires_at
+    );
+END;
+$$;
+
+DROP FUNCTION IF EXISTS claim_waitlist_offer(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION claim_waitlist_offer(
+    p_entry_id UUID,
+    p_holder_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_held_by TEXT := COALESCE(app_user_email(), 'system');
+    v_entry RECORD;
+BEGIN
+    SELECT show_id INTO v_entry
+    FROM waitlist_entries
+    WHERE id = p_entry_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'ENTRY_NOT_FOUND',
+            'error', 'Waitlist entry not found'
+        );
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(v_entry.show_id::text));
+
+    SELECT * INTO v_entry
+    FROM waitlist_entries
+    WHERE id = p_entry_id
+    FOR UPDATE;
+
+    IF v_entry.status <> 'OFFERED' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_OFFER',
+            'error', 'This customer has no seats on offer'
+        );
+    END IF;
+
+    IF v_entry.offer_expires_at <= NOW() THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'OFFER_EXPIRED',
+            'error', 'The offer has expired'
+        );
+    END IF;
+
+    UPDATE seat_holds
+    SET holder_id = p_holder_id,
+        held_by = v_held_by
+    WHERE show_id = v_entry.show_id
+    AND holder_id = 'WAITLIST-' || p_entry_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'show_id', v_entry.show_id,
+        'customer_id', v_entry.customer_id,
+        'seat_codes', v_entry.offered_seats,
+        'expires_at', v_entry.offer_expires_at
+    );
+END;
+$$;
@@ -0,0 +1,9 @@
+-- Seat positions for the layout designer
+-- The designer writes one seats row per seat with its canvas position.
+-- Seats are identified by section, row letter and seat number, matching
+-- the seat codes stored on bookings (e.g. North-A-12).
+
+-- Seats inherit the show price unless a price is set on the seat itself
+ALTER TABLE seats ALTER COLUMN price DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_seats_layout_id ON seats(layout_id);
@@ -0,0 +1,253 @@
+-- Add temporary seat holds while a booking is being confirmed
+-- Run this after update-book-seats-atomic.sql; it replaces book_seats_atomic
+
+CREATE TABLE IF NOT EXISTS seat_holds (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    show_id UUID REFERENCES shows(id) ON DELETE CASCADE,
+    seat_code TEXT NOT NULL,
+    holder_id VARCHAR(100) NOT NULL, -- Booking terminal session holding the seat
+    held_by VARCHAR(255), -- Staff member at that terminal
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(show_id, seat_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seat_holds_show_id ON seat_holds(show_id);
+CREATE INDEX IF NOT EXISTS idx_seat_holds_expires_at ON seat_holds(expires_at);
+
+-- Publish hold changes so other terminals see held seats straight away
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE seat_holds;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+-- RPC function to hold seats for one terminal.
+-- Holding a seat also extends every other hold the terminal has on the show,
+-- so a selection expires as a whole. A hold lasts between 30 seconds and 10
+-- minutes, whatever the caller asks for.
+CREATE OR REPLACE FUNCTION hold_seats(
+    p_show_id UUID,
+    p_seat_codes TEXT[],
+    p_holder_id TEXT,
+    p_held_by TEXT DEFAULT NULL,
+    p_hold_seconds INTEGER DEFAULT 300
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + make_interval(secs => LEAST(GREATEST(COALESCE(p_hold_seconds, 300), 30), 600));
+    v_conflicts TEXT[];
+BEGIN
+    -- Same lock as book_seats_atomic so a hold never races a booking
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    DELETE FROM seat_holds WHERE expires_at <= NOW();
+
+    SELECT array_agg(DISTINCT requested) INTO v_conflicts
+    FROM unnest(p_seat_codes) AS requested
+    WHERE EXISTS (
+        SELECT 1 FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        AND requested = ANY(booking_seat_codes(seat_code))
+    )
+    OR EXISTS (
+        SELECT 1 FROM seat_holds
+        WHERE show_id = p_show_id
+        AND seat_code = requested
+        AND holder_id <> p_holder_id
+    );
+
+    IF v_conflicts IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEAT_CONFLICT',
+            'error', 'Some seats are booked or held at another counter',
+            'conflicts', v_conflicts
+        );
+    END IF;
+
+    INSERT INTO seat_holds (show_id, seat_code, holder_id, held_by, expires_at)
+    SELECT p_show_id, seat, p_holder_id, p_held_by, v_expires_at
+    FROM unnest(p_seat_codes) AS seat
+    ON CONFLICT (show_id, seat_code) DO UPDATE
+    SET expires_at = EXCLUDED.expires_at;
+
+    UPDATE seat_holds
+    SET expires_at = v_expires_at
+    WHERE show_id = p_show_id
+    AND holder_id = p_holder_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'expires_at', v_expires_at
+    );
+END;
+$$;
+
+-- RPC function to release a terminal's holds.
+-- Pass NULL for p_seat_codes to release every seat the terminal holds on the show.
+CREATE OR REPLACE FUNCTION release_seat_holds(
+    p_show_id UUID,
+    p_holder_id TEXT,
+    p_seat_codes TEXT[] DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_released INTEGER;
+BEGIN
+    DELETE FROM seat_holds
+    WHERE show_id = p_show_id
+    AND holder_id = p_holder_id
+    AND (p_seat_codes IS NULL OR seat_code = ANY(p_seat_codes));
+
+    GET DIAGNOSTICS v_released = ROW_COUNT;
+    RETURN v_released;
+END;
+$$;
+
+-- Replace book_seats_atomic so it honours holds from other terminals
+DROP FUNCTION IF EXISTS book_seats_atomic(UUID, TEXT[], TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION book_seats_atomic(
+    p_show_id UUID,
+    p_seat_codes TEXT[],
+    p_booked_by TEXT,
+    p_customer_id UUID DEFAULT NULL,
+    p_generated_by TEXT DEFAULT NULL,
+    p_holder_id TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_show RECORD;
+    v_booking_id UUID;
+    v_seat_code TEXT;
+    v_ticket_id UUID;
+    v_ticket_code TEXT;
+    v_seq INTEGER;
+    v_date_prefix TEXT;
+    v_tickets JSON[] := '{}';
+    v_conflicts TEXT[];
+BEGIN
+    IF p_seat_codes IS NULL OR array_length(p_seat_codes, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'No seats selected'
+        );
+    END IF;
+
+    IF array_length(p_seat_codes, 1) <> (SELECT COUNT(DISTINCT seat) FROM unnest(p_seat_codes) AS seat) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'The same seat was selected more than once'
+        );
+    END IF;
+
+    -- Lock the show to prevent concurrent bookings
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    -- Get show details
+    SELECT id, price, date, status INTO v_show
+    FROM shows
+    WHERE id = p_show_id AND active = true;
+
+    IF NOT FOUND OR COALESCE(v_show.status, 'ACTIVE') NOT IN ('ACTIVE', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'This show is no longer open for booking'
+        );
+    END IF;
+
+    -- Check for conflicts against every confirmed booking, whatever its seat_code format,
+    -- and against live holds from other terminals
+    SELECT array_agg(DISTINCT requested) INTO v_conflicts
+    FROM unnest(p_seat_codes) AS requested
+    WHERE EXISTS (
+        SELECT 1 FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        AND requested = ANY(booking_seat_codes(seat_code))
+    )
+    OR EXISTS (
+        SELECT 1 FROM seat_holds
+        WHERE show_id = p_show_id
+        AND seat_code = requested
+        AND expires_at > NOW()
+        AND holder_id IS DISTINCT FROM p_holder_id
+    );
+
+    IF v_conflicts IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEAT_CONFLICT',
+            'error', 'Some seats have already been booked or are held at another counter',
+            'conflicts', v_conflicts
+        );
+    END IF;
+
+    -- Ticket numbers are sequential per show date, so serialise shows sharing a date
+    v_date_prefix := 'TKT-' || to_char(v_show.date, 'YYYYMMDD') || '-';
+    PERFORM pg_advisory_xact_lock(hashtext(v_date_prefix));
+
+    SELECT COALESCE(MAX(split_part(ticket_code, '-', 3)::INTEGER), 0) + 1
+    INTO v_seq
+    FROM tickets
+    WHERE ticket_code LIKE v_date_prefix || '%'
+    AND split_part(ticket_code, '-', 3) ~ '^[0-9]+$';
+
+    -- Create ONE booking for all seats
+    INSERT INTO bookings (show_id, seat_code, booked_by, customer_id, status)
+    VALUES (p_show_id, array_to_json(p_seat_codes)::text, p_booked_by, p_customer_id, 'CONFIRMED')
+    RETURNING id INTO v_booking_id;
+
+    -- Create tickets for each seat under the same booking
+    FOREACH v_seat_code IN ARRAY p_seat_codes
+    LOOP
+        v_ticket_code := v_date_prefix || lpad(v_seq::text, 4, '0') || '-' || v_seat_code;
+
+        INSERT INTO tickets (
+            booking_id, show_id, seat_code, ticket_code,
+            price, generated_by, status
+        )
+        VALUES (
+            v_booking_id, p_show_id, v_seat_code, v_ticket_code,
+            v_show.price, COALESCE(p_generated_by, p_booked_by), 'ACTIVE'
+        )
+        RETURNING id INTO v_ticket_id;
+
+        v_tickets := array_append(v_tickets, json_build_object(
+            'id', v_ticket_id,
+            'booking_id', v_booking_id,
+            'seat_code', v_seat_code,
+            'ticket_code', v_ticket_code,
+            'price', v_show.price
+        ));
+
+        v_seq := v_seq + 1;
+    END LOOP;
+
+    -- The seats are booked now, so their holds are no longer needed
+    DELETE FROM seat_holds
+    WHERE show_id = p_show_id
+    AND seat_code = ANY(p_seat_codes);
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', v_booking_id,
+        'tickets', array_to_json(v_tickets),
+        'booking_count', array_length(p_seat_codes, 1),
+        'total_amount', v_show.price * array_length(p_seat_codes, 1)
+    );
+END;
+$$;
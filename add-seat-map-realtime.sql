@@ -0,0 +1,10 @@
+-- Publish booking changes so every counter's seat map updates live
+-- Run this after add-ticket-checkin.sql, which already publishes tickets
+
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE bookings;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END;
+$$;
@@ -0,0 +1,327 @@
+-- Signed, expiring sessions and salted password hashes for staff sign-in
+-- Run this after add-venue-timezones.sql
+-- Replaces create_user and authenticate_user from add-users-roles-table.sql
+--
+-- Signing in returns a JWT signed with the project's JWT secret. The app
+-- sends it with every request, so PostgREST checks its signature and expiry
+-- before anything runs, and the database knows which user and session is
+-- asking. Roles are always read from the users table, never from the token
+-- or the browser, so demoting or deactivating someone takes effect at once.
+--
+-- After running this, store the project's JWT secret (Project Settings →
+-- API → JWT Settings) so sessions can be signed:
+--
+--   INSERT INTO private.session_settings (jwt_secret) VALUES ('<JWT secret>')
+--   ON CONFLICT (id) DO UPDATE SET jwt_secret = EXCLUDED.jwt_secret;
+
+-- Kept out of the API: PostgREST only serves the public schema
+CREATE SCHEMA IF NOT EXISTS private;
+REVOKE ALL ON SCHEMA private FROM PUBLIC;
+
+CREATE TABLE IF NOT EXISTS private.session_settings (
+    id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    jwt_secret TEXT NOT NULL,
+    session_hours INTEGER NOT NULL DEFAULT 12 CHECK (session_hours > 0) -- About one shift
+);
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE -- Set when the user signs out
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+
+-- Only reachable through the functions below
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Existing passwords are unsalted sha256 hashes. Each one is wrapped in
+-- bcrypt now, so no unsalted hash is left, and replaced with a plain bcrypt
+-- hash of the password the next time its owner signs in.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_scheme VARCHAR(20) NOT NULL DEFAULT 'bcrypt';
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS check_password_scheme;
+ALTER TABLE users ADD CONSTRAINT check_password_scheme
+    CHECK (password_scheme IN ('bcrypt', 'sha256-bcrypt'));
+
+UPDATE users
+SET password_hash = crypt(password_hash, gen_salt('bf', 10)),
+    password_scheme = 'sha256-bcrypt'
+WHERE password_hash ~ '^[0-9a-f]{64}$';
+
+-- The claims of the token the current request was made with; NULL outside
+-- an API request, such as in the SQL editor
+CREATE OR REPLACE FUNCTION request_claims()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT NULLIF(current_setting('request.jwt.claims', true), '')::jsonb;
+$$;
+
+-- The signed-in user, if the request carries a live session of an active user
+CREATE OR REPLACE FUNCTION app_user_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT u.id
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.id = (request_claims()->>'session_id')::uuid
+    AND s.user_id = (request_claims()->>'sub')::uuid
+    AND s.ended_at IS NULL
+    AND s.expires_at > NOW()
+    AND u.active = true;
+$$;
+
+CREATE OR REPLACE FUNCTION app_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT role FROM users WHERE id = app_user_id();
+$$;
+
+CREATE OR REPLACE FUNCTION private.base64url(p_data BYTEA)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT translate(rtrim(encode(p_data, 'base64'), '='), E'+/\n', '-_');
+$$;
+
+-- An HS256 JWT, as PostgREST verifies them
+CREATE OR REPLACE FUNCTION private.sign_session_token(p_claims JSONB, p_secret TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+    WITH token AS (
+        SELECT private.base64url(convert_to('{"alg":"HS256","typ":"JWT"}', 'utf8')) || '.' ||
+               private.base64url(convert_to(p_claims::text, 'utf8')) AS unsigned
+    )
+    SELECT unsigned || '.' || private.base64url(hmac(unsigned, p_secret, 'sha256'))
+    FROM token;
+$$;
+
+CREATE OR REPLACE FUNCTION create_user(
+    p_email TEXT,
+    p_password TEXT,
+    p_role TEXT DEFAULT 'staff',
+    p_full_name TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_user_id UUID;
+BEGIN
+    -- Through the API only an admin can add users. Scripts run in the SQL
+    -- editor carry no claims, so they can still create the first admin.
+    IF request_claims() IS NOT NULL AND app_user_role() IS DISTINCT FROM 'admin' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_ALLOWED',
+            'error', 'Only an admin can add users'
+        );
+    END IF;
+
+    INSERT INTO users (email, password_hash, password_scheme, role, full_name)
+    VALUES (p_email, crypt(p_password, gen_salt('bf', 10)), 'bcrypt', p_role, p_full_name)
+    RETURNING id INTO v_user_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'user_id', v_user_id,
+        'email', p_email,
+        'role', p_role
+    );
+EXCEPTION
+    WHEN unique_violation THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'User with this email already exists'
+        );
+    WHEN OTHERS THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', SQLERRM
+        );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION authenticate_user(
+    p_email TEXT,
+    p_password TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_settings RECORD;
+    v_user RECORD;
+    v_matches BOOLEAN := false;
+    v_session_id UUID;
+    v_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT * INTO v_settings FROM private.session_settings WHERE id = 1;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_CONFIGURED',
+            'error', 'Sign-in is not set up yet: the JWT secret has not been stored'
+        );
+    END IF;
+
+    SELECT id, email, role, full_name, password_hash, password_scheme
+    INTO v_user
+    FROM users
+    WHERE email = p_email
+    AND active = true;
+
+    IF FOUND THEN
+        IF v_user.password_scheme = 'sha256-bcrypt' THEN
+            v_matches := v_user.password_hash = crypt(encode(digest(p_password, 'sha256'), 'hex'), v_user.password_hash);
+        ELSE
+            v_matches := v_user.password_hash = crypt(p_password, v_user.password_hash);
+        END IF;
+    ELSE
+        -- Hash anyway, so an unknown email takes as long as a wrong password
+        PERFORM crypt(p_password, gen_salt('bf', 10));
+    END IF;
+
+    IF NOT v_matches THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_CREDENTIALS',
+            'error', 'Invalid email or password'
+        );
+    END IF;
+
+    IF v_user.password_scheme <> 'bcrypt' THEN
+        UPDATE users
+        SET password_hash = crypt(p_password, gen_salt('bf', 10)),
+            password_scheme = 'bcrypt'
+        WHERE id = v_user.id;
+    END IF;
+
+    v_expires_at := NOW() + make_interval(hours => v_settings.session_hours);
+
+    INSERT INTO user_sessions (user_id, expires_at)
+    VALUES (v_user.id, v_expires_at)
+    RETURNING id INTO v_session_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'token', private.sign_session_token(jsonb_build_object(
+            'aud', 'authenticated',
+            'role', 'authenticated', -- The database role requests run as, not the app role
+            'sub', v_user.id,
+            'email', v_user.email,
+            'session_id', v_session_id,
+            'iat', floor(extract(epoch FROM NOW())),
+            'exp', floor(extract(epoch FROM v_expires_at))
+        ), v_settings.jwt_secret),
+        'expires_at', v_expires_at,
+        'user', json_build_object(
+            'id', v_user.id,
+            'email', v_user.email,
+            'role', v_user.role,
+            'full_name', v_user.full_name
+        )
+    );
+END;
+$$;
+
+-- The user behind the request's session, as the app should see them
+CREATE OR REPLACE FUNCTION current_app_user()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user RECORD;
+BEGIN
+    SELECT u.id, u.email, u.role, u.full_name, s.expires_at
+    INTO v_user
+    FROM users u
+    JOIN user_sessions s ON s.id = (request_claims()->>'session_id')::uuid
+    WHERE u.id = app_user_id();
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SESSION',
+            'error', 'Your session has ended. Sign in again.'
+        );
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'expires_at', v_user.expires_at,
+        'user', json_build_object(
+            'id', v_user.id,
+            'email', v_user.email,
+            'role', v_user.role,
+            'full_name', v_user.full_name
+        )
+    );
+END;
+$$;
+
+-- Signing out ends the session on the server too, so the token stops
+-- working even before it expires
+CREATE OR REPLACE FUNCTION end_session()
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE user_sessions
+    SET ended_at = NOW()
+    WHERE id = (request_claims()->>'session_id')::uuid
+    AND ended_at IS NULL;
+
+    RETURN json_build_object('success', true);
+END;
+$$;
+
+-- Password hashes never leave the database, and only admins change users
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON users FROM anon, authenticated;
+GRANT SELECT (id, email, role, full_name, created_at, updated_at, active) ON users TO authenticated;
+GRANT UPDATE (email, role, full_name, active, updated_at) ON users TO authenticated;
+GRANT DELETE ON users TO authenticated;
+
+DROP POLICY IF EXISTS users_select ON users;
+CREATE POLICY users_select ON users
+    FOR SELECT TO authenticated
+    USING (app_user_id() IS NOT NULL);
+
+DROP POLICY IF EXISTS users_admin_update ON users;
+CREATE POLICY users_admin_update ON users
+    FOR UPDATE TO authenticated
+    USING (app_user_role() = 'admin')
+    WITH CHECK (app_user_role() = 'admin');
+
+DROP POLICY IF EXISTS users_admin_delete ON users;
+CREATE POLICY users_admin_delete ON users
+    FOR DELETE TO authenticated
+    USING (app_user_role() = 'admin');
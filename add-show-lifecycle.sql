@@ -0,0 +1,218 @@
+-- Central show lifecycle: defined status transitions, configurable timings
+-- and one server-side function that advances every show.
+-- Run this after add-logs-table.sql and update-book-seats-atomic.sql
+
+-- Allowed status transitions. Any other change to shows.status is rejected.
+CREATE TABLE IF NOT EXISTS show_status_transitions (
+    from_status VARCHAR(20) NOT NULL,
+    to_status VARCHAR(20) NOT NULL,
+    PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO show_status_transitions (from_status, to_status) VALUES
+    ('ACTIVE', 'HOUSE_FULL'),
+    ('ACTIVE', 'SHOW_STARTED'),
+    ('ACTIVE', 'SHOW_DONE'),
+    ('HOUSE_FULL', 'ACTIVE'),
+    ('HOUSE_FULL', 'SHOW_DONE'),
+    ('SHOW_STARTED', 'SHOW_DONE')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION enforce_show_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF COALESCE(OLD.status, 'ACTIVE') = NEW.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM show_status_transitions
+        WHERE from_status = COALESCE(OLD.status, 'ACTIVE')
+        AND to_status = NEW.status
+    ) THEN
+        RAISE EXCEPTION 'Show status cannot change from % to %', COALESCE(OLD.status, 'ACTIVE'), NEW.status;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_show_status_transition ON shows;
+CREATE TRIGGER trg_enforce_show_status_transition
+    BEFORE UPDATE OF status ON shows
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_show_status_transition();
+
+-- Lifecycle timings, a single row edited from Settings
+CREATE TABLE IF NOT EXISTS show_lifecycle_settings (
+    id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    started_after_minutes INTEGER NOT NULL DEFAULT 0 CHECK (started_after_minutes >= 0),
+    done_after_minutes INTEGER NOT NULL DEFAULT 30 CHECK (done_after_minutes >= 0),
+    timezone VARCHAR(64) NOT NULL DEFAULT 'Asia/Kolkata',
+    updated_by VARCHAR(255),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (done_after_minutes >= started_after_minutes)
+);
+
+INSERT INTO show_lifecycle_settings (id) VALUES (1)
+ON CONFLICT (id) DO NOTHING;
+
+-- Total seats in a layout structure, old (rows x seatsPerRow) or new (rows[].seats) format
+CREATE OR REPLACE FUNCTION layout_seat_capacity(p_structure JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_section JSONB;
+    v_total INTEGER := 0;
+BEGIN
+    IF p_structure IS NULL OR jsonb_typeof(p_structure->'sections') <> 'array' THEN
+        RETURN 0;
+    END IF;
+
+    FOR v_section IN SELECT * FROM jsonb_array_elements(p_structure->'sections')
+    LOOP
+        IF jsonb_typeof(v_section->'rows') = 'array' THEN
+            v_total := v_total + COALESCE((
+                SELECT SUM((row_config->>'seats')::INTEGER)
+                FROM jsonb_array_elements(v_section->'rows') AS row_config
+            ), 0);
+        ELSE
+            v_total := v_total + COALESCE((v_section->>'rows')::INTEGER * (v_section->>'seatsPerRow')::INTEGER, 0);
+        END IF;
+    END LOOP;
+
+    RETURN v_total;
+END;
+$$;
+
+-- Moves every unfinished show to the status its time and bookings call for:
+--   ACTIVE -> HOUSE_FULL when every seat is booked
+--   ACTIVE -> SHOW_STARTED at start time + started_after_minutes
+--   any -> SHOW_DONE at start time + done_after_minutes, completing ACTIVE tickets
+-- p_log_changes writes activity_logs rows here; clients pass false and log
+-- through activityLogger instead.
+CREATE OR REPLACE FUNCTION advance_show_lifecycle(
+    p_performed_by TEXT DEFAULT 'scheduler',
+    p_log_changes BOOLEAN DEFAULT true
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_settings RECORD;
+    v_show RECORD;
+    v_status TEXT;
+    v_new_status TEXT;
+    v_starts_at TIMESTAMP WITH TIME ZONE;
+    v_capacity INTEGER;
+    v_booked INTEGER;
+    v_completed INTEGER;
+    v_changes JSON[] := '{}';
+BEGIN
+    SELECT * INTO v_settings FROM show_lifecycle_settings WHERE id = 1;
+
+    FOR v_show IN
+        SELECT s.id, s.title, s.date, s.time, l.structure
+        FROM shows s
+        LEFT JOIN layouts l ON l.id = s.layout_id
+        WHERE COALESCE(s.status, 'ACTIVE') <> 'SHOW_DONE'
+        ORDER BY s.date, s.time
+    LOOP
+        -- Same lock as booking and cancellation, then re-read the status under it
+        PERFORM pg_advisory_xact_lock(hashtext(v_show.id::text));
+
+        SELECT COALESCE(status, 'ACTIVE') INTO v_status FROM shows WHERE id = v_show.id;
+        IF v_status = 'SHOW_DONE' THEN
+            CONTINUE;
+        END IF;
+
+        v_starts_at := (v_show.date + v_show.time) AT TIME ZONE v_settings.timezone;
+        v_new_status := NULL;
+        v_completed := 0;
+
+        IF NOW() >= v_starts_at + make_interval(mins => v_settings.done_after_minutes) THEN
+            v_new_status := 'SHOW_DONE';
+        ELSIF NOW() >= v_starts_at + make_interval(mins => v_settings.started_after_minutes) THEN
+            IF v_status = 'ACTIVE' THEN
+                v_new_status := 'SHOW_STARTED';
+            END IF;
+        ELSIF v_status = 'ACTIVE' THEN
+            v_capacity := layout_seat_capacity(v_show.structure);
+
+            SELECT COALESCE(SUM(array_length(booking_seat_codes(seat_code), 1)), 0)
+            INTO v_booked
+            FROM bookings
+            WHERE show_id = v_show.id
+            AND status = 'CONFIRMED';
+
+            IF v_capacity > 0 AND v_booked >= v_capacity THEN
+                v_new_status := 'HOUSE_FULL';
+            END IF;
+        END IF;
+
+        IF v_new_status IS NULL THEN
+            CONTINUE;
+        END IF;
+
+        UPDATE shows SET status = v_new_status WHERE id = v_show.id;
+
+        IF v_new_status = 'SHOW_DONE' THEN
+            UPDATE tickets
+            SET status = 'COMPLETED'
+            WHERE show_id = v_show.id
+            AND status = 'ACTIVE';
+
+            GET DIAGNOSTICS v_completed = ROW_COUNT;
+        END IF;
+
+        IF p_log_changes THEN
+            PERFORM log_activity(
+                'STATUS_CHANGE',
+                'SHOW',
+                v_show.id,
+                v_show.title,
+                jsonb_build_object(
+                    'from_status', v_status,
+                    'to_status', v_new_status,
+                    'completed_tickets', v_completed
+                ),
+                p_performed_by
+            );
+        END IF;
+
+        v_changes := array_append(v_changes, json_build_object(
+            'show_id', v_show.id,
+            'show_title', v_show.title,
+            'from_status', v_status,
+            'to_status', v_new_status,
+            'completed_tickets', v_completed
+        ));
+    END LOOP;
+
+    RETURN json_build_object(
+        'success', true,
+        'changes', array_to_json(v_changes)
+    );
+END;
+$$;
+
+-- Run the lifecycle every minute on the server. Requires pg_cron
+-- (Database > Extensions in the Supabase dashboard); re-run this block
+-- after enabling it.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'advance-show-lifecycle',
+            '* * * * *',
+            $cron$SELECT advance_show_lifecycle('scheduler')$cron$
+        );
+    ELSE
+        RAISE NOTICE 'pg_cron is not enabled; show statuses will only advance when staff open Shows or Booking';
+    END IF;
+END;
+$$;
@@ -0,0 +1,630 @@
+-- Show cancellation and rescheduling. A cancelled show keeps its bookings on
+-- record with every ticket refunded in full; a rescheduled show moves its
+-- bookings to a new show at the new date and time.
+-- Run this after add-show-series.sql; it replaces advance_show_lifecycle
+--
+-- Ticket holders are told through customer_notifications, an outbox a
+-- delivery job (or staff, from the show's record in Shows) works through.
+-- show_booking_moves records where every seat went.
+
+ALTER TABLE shows DROP CONSTRAINT IF EXISTS check_show_status;
+ALTER TABLE shows ADD CONSTRAINT check_show_status
+CHECK (status IN ('ACTIVE', 'HOUSE_FULL', 'SHOW_STARTED', 'SHOW_DONE', 'CANCELLED', 'RESCHEDULED'));
+
+-- Both are final: a cancelled show is not run, a rescheduled one lives on
+-- as the show it moved to
+INSERT INTO show_status_transitions (from_status, to_status) VALUES
+    ('ACTIVE', 'CANCELLED'),
+    ('HOUSE_FULL', 'CANCELLED'),
+    ('SHOW_STARTED', 'CANCELLED'),
+    ('ACTIVE', 'RESCHEDULED'),
+    ('HOUSE_FULL', 'RESCHEDULED'),
+    ('SHOW_STARTED', 'RESCHEDULED')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE shows
+ADD COLUMN IF NOT EXISTS status_reason TEXT, -- Why the show was cancelled or rescheduled
+ADD COLUMN IF NOT EXISTS status_changed_by VARCHAR(255),
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS rescheduled_to UUID REFERENCES shows(id) ON DELETE SET NULL;
+
+-- A show with confirmed bookings only moves through reschedule_show, which
+-- takes its ticket holders along, tells them and records where each seat went
+CREATE OR REPLACE FUNCTION enforce_booked_show_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF (NEW.date, NEW.time, NEW.layout_id) IS NOT DISTINCT FROM (OLD.date, OLD.time, OLD.layout_id) THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM bookings WHERE show_id = OLD.id AND status = 'CONFIRMED') THEN
+        RAISE EXCEPTION 'This show has bookings; reschedule it to change its date, time or layout';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_booked_show_slot ON shows;
+CREATE TRIGGER trg_enforce_booked_show_slot
+    BEFORE UPDATE OF date, time, layout_id ON shows
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_booked_show_slot();
+
+-- One row per seat a cancellation or reschedule touched
+CREATE TABLE IF NOT EXISTS show_booking_moves (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    from_show_id UUID NOT NULL REFERENCES shows(id) ON DELETE CASCADE,
+    to_show_id UUID REFERENCES shows(id) ON DELETE SET NULL, -- NULL when the seat was refunded
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    ticket_id UUID REFERENCES tickets(id) ON DELETE SET NULL,
+    from_seat TEXT NOT NULL,
+    to_seat TEXT,
+    outcome VARCHAR(10) NOT NULL CHECK (outcome IN ('KEPT_SEAT', 'RESEATED', 'REFUNDED')),
+    moved_by VARCHAR(255),
+    moved_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_show_booking_moves_from_show_id ON show_booking_moves(from_show_id);
+CREATE INDEX IF NOT EXISTS idx_show_booking_moves_booking_id ON show_booking_moves(booking_id);
+
+CREATE TABLE IF NOT EXISTS customer_notifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE,
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    show_id UUID REFERENCES shows(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('SHOW_CANCELLED', 'SHOW_RESCHEDULED')),
+    recipient_name VARCHAR(255),
+    recipient_email VARCHAR(255),
+    recipient_phone VARCHAR(50),
+    message TEXT NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'SENT', 'FAILED')),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    sent_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_notifications_show_id ON customer_notifications(show_id);
+CREATE INDEX IF NOT EXISTS idx_customer_notifications_status ON customer_notifications(status);
+
+-- Publish new notifications so a delivery job can send them as they arrive
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE customer_notifications;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+-- Queue a notification for a booking's customer
+CREATE OR REPLACE FUNCTION queue_booking_notification(
+    p_booking_id UUID,
+    p_show_id UUID,
+    p_kind TEXT,
+    p_message TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO customer_notifications (
+        booking_id, customer_id, show_id, kind,
+        recipient_name, recipient_email, recipient_phone, message
+    )
+    SELECT
+        b.id, b.customer_id, p_show_id, p_kind,
+        COALESCE(c.name, b.booked_by), c.email, c.phone, p_message
+    FROM bookings b
+    LEFT JOIN customers c ON c.id = b.customer_id
+    WHERE b.id = p_booking_id;
+END;
+$$;
+
+-- Raise a full refund for tickets the venue could not honour, paid back the
+-- way most of the booking was paid
+CREATE OR REPLACE FUNCTION refund_venue_cancelled_seats(
+    p_booking_id UUID,
+    p_show_id UUID,
+    p_seat_codes TEXT[],
+    p_amount DECIMAL(10,2),
+    p_reason TEXT,
+    p_requested_by TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_method TEXT;
+BEGIN
+    IF p_amount <= 0 THEN
+        RETURN;
+    END IF;
+
+    SELECT method INTO v_method
+    FROM payments
+    WHERE booking_id = p_booking_id
+    ORDER BY amount DESC
+    LIMIT 1;
+
+    INSERT INTO refunds (
+        booking_id, show_id, seat_codes, ticket_amount, policy_percent,
+        amount, method, reason, requested_by
+    )
+    VALUES (
+        p_booking_id, p_show_id, p_seat_codes, p_amount, 100,
+        p_amount, COALESCE(v_method, 'CASH'), p_reason, p_requested_by
+    );
+END;
+$$;
+
+-- Cancel a show: every confirmed booking is cancelled, its tickets revoked
+-- and refunded in full, and the customer notified
+CREATE OR REPLACE FUNCTION cancel_show(
+    p_show_id UUID,
+    p_reason TEXT,
+    p_cancelled_by TEXT DEFAULT 'system'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_show RECORD;
+    v_booking RECORD;
+    v_seats TEXT[];
+    v_amount DECIMAL(10,2);
+    v_bookings INTEGER := 0;
+    v_tickets INTEGER := 0;
+    v_refunded DECIMAL(10,2) := 0;
+    v_revoked INTEGER;
+BEGIN
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'REASON_REQUIRED',
+            'error', 'Enter a reason for the cancellation'
+        );
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    SELECT id, title, date, time, COALESCE(status, 'ACTIVE') AS status INTO v_show
+    FROM shows
+    WHERE id = p_show_id;
+
+    IF NOT FOUND OR v_show.status NOT IN ('ACTIVE', 'HOUSE_FULL', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'Only upcoming or running shows can be cancelled'
+        );
+    END IF;
+
+    FOR v_booking IN
+        SELECT id, seat_code
+        FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        ORDER BY booking_time
+        FOR UPDATE
+    LOOP
+        v_seats := booking_seat_codes(v_booking.seat_code);
+
+        WITH revoked AS (
+            UPDATE tickets
+            SET status = 'REVOKED', revoked_at = NOW()
+            WHERE booking_id = v_booking.id
+            AND status = 'ACTIVE'
+            RETURNING id, seat_code, price
+        ),
+        moves AS (
+            INSERT INTO show_booking_moves (from_show_id, booking_id, ticket_id, from_seat, outcome, moved_by)
+            SELECT p_show_id, v_booking.id, id, seat_code, 'REFUNDED', p_cancelled_by
+            FROM revoked
+        )
+        SELECT COUNT(*), COALESCE(SUM(price), 0) INTO v_revoked, v_amount
+        FROM revoked;
+
+        PERFORM refund_venue_cancelled_seats(
+            v_booking.id, p_show_id, v_seats, v_amount,
+            'Show cancelled: ' || p_reason, p_cancelled_by
+        );
+
+        UPDATE bookings
+        SET status = 'CANCELLED',
+            cancelled_at = NOW(),
+            cancelled_by = p_cancelled_by,
+            cancellation_reason = 'Show cancelled: ' || p_reason
+        WHERE id = v_booking.id;
+
+        PERFORM queue_booking_notification(
+            v_booking.id, p_show_id, 'SHOW_CANCELLED',
+            format(
+                'We are sorry: %s on %s at %s has been cancelled (%s). Your booking for seats %s is cancelled and %s will be refunded in full.',
+                v_show.title, to_char(v_show.date, 'DD Mon YYYY'), to_char(v_show.time, 'HH12:MI AM'), p_reason,
+                array_to_string(v_seats, ', '),
+                CASE WHEN v_amount > 0 THEN '₹' || v_amount::TEXT ELSE 'any payment' END
+            )
+        );
+
+        v_bookings := v_bookings + 1;
+        v_tickets := v_tickets + v_revoked;
+        v_refunded := v_refunded + v_amount;
+    END LOOP;
+
+    -- Nobody can be offered seats at a cancelled show
+    UPDATE waitlist_entries
+    SET status = 'CANCELLED'
+    WHERE show_id = p_show_id
+    AND status IN ('WAITING', 'OFFERED');
+
+    DELETE FROM seat_holds WHERE show_id = p_show_id;
+
+    UPDATE shows
+    SET status = 'CANCELLED',
+        status_reason = p_reason,
+        status_changed_by = p_cancelled_by,
+        status_changed_at = NOW()
+    WHERE id = p_show_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'cancelled_bookings', v_bookings,
+        'revoked_tickets', v_tickets,
+        'refund_amount', v_refunded
+    );
+END;
+$$;
+
+-- Reschedule a show: a new show is created at the new date and time (on
+-- another layout if given) and every confirmed booking moves to it. Seats
+-- keep their codes where the new layout has them; the rest are re-seated in
+-- layout order, and seats that no longer fit are refunded in full.
+CREATE OR REPLACE FUNCTION reschedule_show(
+    p_show_id UUID,
+    p_date DATE,
+    p_time TIME,
+    p_reason TEXT,
+    p_layout_id UUID DEFAULT NULL,
+    p_rescheduled_by TEXT DEFAULT 'system'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_show RECORD;
+    v_timezone TEXT;
+    v_layout_id UUID;
+    v_structure JSONB;
+    v_layout_seats TEXT[];
+    v_taken TEXT[] := '{}';
+    v_new_show_id UUID;
+    v_booking RECORD;
+    v_seats TEXT[];
+    v_seat TEXT;
+    v_new_seat TEXT;
+    v_new_seats TEXT[];
+    v_refund_seats TEXT[];
+    v_ticket RECORD;
+    v_amount DECIMAL(10,2);
+    v_kept INTEGER := 0;
+    v_reseated INTEGER := 0;
+    v_refunded INTEGER := 0;
+    v_bookings INTEGER := 0;
+BEGIN
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'REASON_REQUIRED',
+            'error', 'Enter a reason for the reschedule'
+        );
+    END IF;
+
+    SELECT timezone INTO v_timezone FROM show_lifecycle_settings WHERE id = 1;
+
+    IF (p_date + p_time) AT TIME ZONE COALESCE(v_timezone, 'Asia/Kolkata') <= NOW() THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_DATE',
+            'error', 'The new date and time must be in the future'
+        );
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    SELECT *, COALESCE(status, 'ACTIVE') AS current_status INTO v_show
+    FROM shows
+    WHERE id = p_show_id;
+
+    IF NOT FOUND OR v_show.current_status NOT IN ('ACTIVE', 'HOUSE_FULL', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'Only upcoming or running shows can be rescheduled'
+        );
+    END IF;
+
+    v_layout_id := COALESCE(p_layout_id, v_show.layout_id);
+
+    SELECT structure INTO v_structure FROM layouts WHERE id = v_layout_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'LAYOUT_NOT_FOUND',
+            'error', 'Layout not found'
+        );
+    END IF;
+
+    INSERT INTO shows (
+        title, date, time, price, tier_prices, category_prices,
+        group_min_seats, group_discount_percent, description, layout_id, series_id
+    )
+    VALUES (
+        v_show.title, p_date, p_time, v_show.price, v_show.tier_prices, v_show.category_prices,
+        v_show.group_min_seats, v_show.group_discount_percent, v_show.description, v_layout_id, v_show.series_id
+    )
+    RETURNING id INTO v_new_show_id;
+
+    PERFORM pg_advisory_xact_lock(hashtext(v_new_show_id::text));
+
+    -- On the same layout every seat exists. Otherwise seats the new layout
+    -- also has are kept first, so re-seating never takes someone's own seat.
+    IF v_layout_id IS DISTINCT FROM v_show.layout_id THEN
+        v_layout_seats := layout_seat_codes(v_structure);
+
+        SELECT COALESCE(array_agg(seat), '{}') INTO v_taken
+        FROM bookings b, unnest(booking_seat_codes(b.seat_code)) AS seat
+        WHERE b.show_id = p_show_id
+        AND b.status = 'CONFIRMED'
+        AND seat = ANY(v_layout_seats);
+    END IF;
+
+    FOR v_booking IN
+        SELECT id, seat_code
+        FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        ORDER BY booking_time
+        FOR UPDATE
+    LOOP
+        v_seats := booking_seat_codes(v_booking.seat_code);
+        v_new_seats := '{}';
+        v_refund_seats := '{}';
+        v_amount := 0;
+
+        FOREACH v_seat IN ARRAY v_seats
+        LOOP
+            SELECT id, price INTO v_ticket
+            FROM tickets
+            WHERE booking_id = v_booking.id
+            AND seat_code = v_seat
+            AND status = 'ACTIVE'
+            LIMIT 1;
+
+            IF v_layout_seats IS NULL OR v_seat = ANY(v_layout_seats) THEN
+                v_new_seat := v_seat;
+                v_kept := v_kept + 1;
+            ELSE
+                SELECT seat INTO v_new_seat
+                FROM unnest(v_layout_seats) WITH ORDINALITY AS t(seat, ord)
+                WHERE NOT (seat = ANY(v_taken))
+                ORDER BY ord
+                LIMIT 1;
+
+                IF v_new_seat IS NOT NULL THEN
+                    v_taken := array_append(v_taken, v_new_seat);
+                    v_reseated := v_reseated + 1;
+                END IF;
+            END IF;
+
+            IF v_new_seat IS NULL THEN
+                -- No seat left on the new layout
+                UPDATE tickets
+                SET status = 'REVOKED', revoked_at = NOW()
+                WHERE id = v_ticket.id;
+
+                v_refund_seats := array_append(v_refund_seats, v_seat);
+                v_amount := v_amount + COALESCE(v_ticket.price, 0);
+                v_refunded := v_refunded + 1;
+            ELSE
+                UPDATE tickets
+                SET show_id = v_new_show_id,
+                    seat_code = v_new_seat
+                WHERE id = v_ticket.id;
+
+                v_new_seats := array_append(v_new_seats, v_new_seat);
+            END IF;
+
+            INSERT INTO show_booking_moves (
+                from_show_id, to_show_id, booking_id, ticket_id,
+                from_seat, to_seat, outcome, moved_by
+            )
+            VALUES (
+                p_show_id,
+                CASE WHEN v_new_seat IS NULL THEN NULL ELSE v_new_show_id END,
+                v_booking.id, v_ticket.id, v_seat, v_new_seat,
+                CASE
+                    WHEN v_new_seat IS NULL THEN 'REFUNDED'
+                    WHEN v_new_seat = v_seat THEN 'KEPT_SEAT'
+                    ELSE 'RESEATED'
+                END,
+                p_rescheduled_by
+            );
+        END LOOP;
+
+        PERFORM refund_venue_cancelled_seats(
+            v_booking.id, p_show_id, v_refund_seats, v_amount,
+            'Show rescheduled: ' || p_reason, p_rescheduled_by
+        );
+
+        IF array_length(v_new_seats, 1) IS NULL THEN
+            UPDATE bookings
+            SET status = 'CANCELLED',
+                cancelled_at = NOW(),
+                cancelled_by = p_rescheduled_by,
+                cancellation_reason = 'Show rescheduled: no seats on the new layout'
+            WHERE id = v_booking.id;
+        ELSE
+            UPDATE bookings
+            SET show_id = v_new_show_id,
+                seat_code = array_to_json(v_new_seats)::text
+            WHERE id = v_booking.id;
+        END IF;
+
+        PERFORM queue_booking_notification(
+            v_booking.id, p_show_id, 'SHOW_RESCHEDULED',
+            format(
+                '%s on %s at %s has been rescheduled to %s at %s (%s).',
+                v_show.title, to_char(v_show.date, 'DD Mon YYYY'), to_char(v_show.time, 'HH12:MI AM'),
+                to_char(p_date, 'DD Mon YYYY'), to_char(p_time, 'HH12:MI AM'), p_reason
+            ) ||
+            CASE WHEN array_length(v_new_seats, 1) IS NULL THEN ''
+                WHEN v_new_seats = v_seats THEN format(' Your tickets are still valid for seats %s.', array_to_string(v_new_seats, ', '))
+                ELSE format(' Your tickets are still valid; your seats are now %s.', array_to_string(v_new_seats, ', '))
+            END ||
+            CASE WHEN array_length(v_refund_seats, 1) IS NULL THEN ''
+                ELSE format(' Seats %s could not be moved and will be refunded in full.', array_to_string(v_refund_seats, ', '))
+            END
+        );
+
+        v_bookings := v_bookings + 1;
+    END LOOP;
+
+    -- The waitlist carries over; offers start again at the new show
+    DELETE FROM seat_holds WHERE show_id = p_show_id;
+
+    UPDATE waitlist_entries
+    SET show_id = v_new_show_id,
+        status = 'WAITING',
+        offered_seats = NULL,
+        offered_at = NULL,
+        offer_expires_at = NULL
+    WHERE show_id = p_show_id
+    AND status IN ('WAITING', 'OFFERED');
+
+    UPDATE shows
+    SET status = 'RESCHEDULED',
+        status_reason = p_reason,
+        status_changed_by = p_rescheduled_by,
+        status_changed_at = NOW(),
+        rescheduled_to = v_new_show_id
+    WHERE id = p_show_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'new_show_id', v_new_show_id,
+        'moved_bookings', v_bookings,
+        'kept_seats', v_kept,
+        'reseated_seats', v_reseated,
+        'refunded_seats', v_refunded
+    );
+END;
+$$;
+
+-- Replace advance_show_lifecycle so cancelled and rescheduled shows are left alone
+CREATE OR REPLACE FUNCTION advance_show_lifecycle(
+    p_performed_by TEXT DEFAULT 'scheduler',
+    p_log_changes BOOLEAN DEFAULT true
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_settings RECORD;
+    v_show RECORD;
+    v_status TEXT;
+    v_new_status TEXT;
+    v_starts_at TIMESTAMP WITH TIME ZONE;
+    v_capacity INTEGER;
+    v_booked INTEGER;
+    v_completed INTEGER;
+    v_changes JSON[] := '{}';
+BEGIN
+    SELECT * INTO v_settings FROM show_lifecycle_settings WHERE id = 1;
+
+    FOR v_show IN
+        SELECT s.id, s.title, s.date, s.time, l.structure
+        FROM shows s
+        LEFT JOIN layouts l ON l.id = s.layout_id
+        WHERE COALESCE(s.status, 'ACTIVE') NOT IN ('SHOW_DONE', 'CANCELLED', 'RESCHEDULED')
+        ORDER BY s.date, s.time
+    LOOP
+        -- Same lock as booking and cancellation, then re-read the status under it
+        PERFORM pg_advisory_xact_lock(hashtext(v_show.id::text));
+
+        SELECT COALESCE(status, 'ACTIVE') INTO v_status FROM shows WHERE id = v_show.id;
+        IF v_status IN ('SHOW_DONE', 'CANCELLED', 'RESCHEDULED') THEN
+            CONTINUE;
+        END IF;
+
+        v_starts_at := (v_show.date + v_show.time) AT TIME ZONE v_settings.timezone;
+        v_new_status := NULL;
+        v_completed := 0;
+
+        IF NOW() >= v_starts_at + make_interval(mins => v_settings.done_after_minutes) THEN
+            v_new_status := 'SHOW_DONE';
+        ELSIF NOW() >= v_starts_at + make_interval(mins => v_settings.started_after_minutes) THEN
+            IF v_status = 'ACTIVE' THEN
+                v_new_status := 'SHOW_STARTED';
+            END IF;
+        ELSIF v_status = 'ACTIVE' THEN
+            v_capacity := layout_seat_capacity(v_show.structure);
+
+            SELECT COALESCE(SUM(array_length(booking_seat_codes(seat_code), 1)), 0)
+            INTO v_booked
+            FROM bookings
+            WHERE show_id = v_show.id
+            AND status = 'CONFIRMED';
+
+            IF v_capacity > 0 AND v_booked >= v_capacity THEN
+                v_new_status := 'HOUSE_FULL';
+            END IF;
+        END IF;
+
+        IF v_new_status IS NULL THEN
+            CONTINUE;
+        END IF;
+
+        UPDATE shows SET status = v_new_status WHERE id = v_show.id;
+
+        IF v_new_status = 'SHOW_DONE' THEN
+            UPDATE tickets
+            SET status = 'COMPLETED'
+            WHERE show_id = v_show.id
+            AND status = 'ACTIVE';
+
+            GET DIAGNOSTICS v_completed = ROW_COUNT;
+        END IF;
+
+        IF p_log_changes THEN
+            PERFORM log_activity(
+                'STATUS_CHANGE',
+                'SHOW',
+                v_show.id,
+                v_show.title,
+                jsonb_build_object(
+                    'from_status', v_status,
+                    'to_status', v_new_status,
+                    'completed_tickets', v_completed
+                ),
+                p_performed_by
+            );
+        END IF;
+
+        v_changes := array_append(v_changes, json_build_object(
+            'show_id', v_show.id,
+            'show_title', v_show.title,
+            'from_status', v_status,
+            'to_status', v_new_status,
+            'completed_tickets', v_completed
+        ));
+    END LOOP;
+
+    RETURN json_build_object(
+        'success', true,
+        'changes', array_to_json(v_changes)
+    );
+END;
+$$;
@@ -0,0 +1,36 @@
+-- Recurring shows: a series generates its shows in bulk from a recurrence
+-- rule, skipping holidays
+-- Run this after add-waitlist.sql
+--
+-- Each show in a series is an ordinary show with series_id set, so it can
+-- still be edited or deleted on its own. Holidays only affect shows
+-- generated after they are added.
+
+CREATE TABLE IF NOT EXISTS holidays (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    date DATE NOT NULL UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS show_series (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    title VARCHAR(255) NOT NULL,
+    frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('DAILY', 'WEEKLY')),
+    weekdays SMALLINT[], -- WEEKLY only: 0 = Sunday to 6 = Saturday
+    start_date DATE NOT NULL,
+    until_date DATE, -- Series ends on this date...
+    occurrences INTEGER CHECK (occurrences > 0), -- ...or after this many shows
+    time TIME NOT NULL,
+    skip_holidays BOOLEAN NOT NULL DEFAULT true,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (until_date IS NOT NULL OR occurrences IS NOT NULL),
+    CHECK (frequency = 'DAILY' OR COALESCE(array_length(weekdays, 1), 0) > 0)
+);
+
+ALTER TABLE shows
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES show_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_shows_series_id ON shows(series_id);
@@ -0,0 +1,206 @@
+-- Ticket categories (adult, child, senior, foreigner, complimentary) with
+-- per-show price rules
+-- Run this after add-pricing-tiers.sql; it replaces book_seats_atomic
+--
+-- shows.category_prices holds one rule per category, applied to the seat price:
+--   { "CHILD": { "type": "PERCENT", "value": 50 }, "FOREIGNER": { "type": "FIXED", "value": 1500 } }
+-- Categories without a rule pay the seat price, except COMPLIMENTARY which is free.
+
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS category VARCHAR(20) NOT NULL DEFAULT 'ADULT';
+
+ALTER TABLE tickets DROP CONSTRAINT IF EXISTS tickets_category_check;
+ALTER TABLE tickets ADD CONSTRAINT tickets_category_check
+CHECK (category IN ('ADULT', 'CHILD', 'SENIOR', 'FOREIGNER', 'COMPLIMENTARY'));
+
+CREATE INDEX IF NOT EXISTS idx_tickets_category ON tickets(category);
+
+ALTER TABLE shows ADD COLUMN IF NOT EXISTS category_prices JSONB NOT NULL DEFAULT '{}';
+
+-- Price of one ticket: the seat price with the show's rule for the category applied
+CREATE OR REPLACE FUNCTION ticket_price(p_show_id UUID, p_seat_code TEXT, p_category TEXT)
+RETURNS DECIMAL(10,2)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_rule JSONB;
+    v_seat_price DECIMAL(10,2);
+BEGIN
+    SELECT category_prices->p_category INTO v_rule
+    FROM shows
+    WHERE id = p_show_id;
+
+    IF v_rule IS NULL THEN
+        IF p_category = 'COMPLIMENTARY' THEN
+            RETURN 0;
+        END IF;
+        RETURN seat_price(p_show_id, p_seat_code);
+    END IF;
+
+    IF v_rule->>'type' = 'FIXED' THEN
+        RETURN (v_rule->>'value')::DECIMAL(10,2);
+    END IF;
+
+    v_seat_price := seat_price(p_show_id, p_seat_code);
+    RETURN ROUND(v_seat_price * (v_rule->>'value')::DECIMAL / 100, 2);
+END;
+$$;
+
+-- Replace book_seats_atomic so each seat can be booked under its own category
+DROP FUNCTION IF EXISTS book_seats_atomic(UUID, TEXT[], TEXT, UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION book_seats_atomic(
+    p_show_id UUID,
+    p_seat_codes TEXT[],
+    p_booked_by TEXT,
+    p_customer_id UUID DEFAULT NULL,
+    p_generated_by TEXT DEFAULT NULL,
+    p_holder_id TEXT DEFAULT NULL,
+    p_seat_categories JSONB DEFAULT '{}' -- Seat code to ticket category; missing seats are ADULT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_show RECORD;
+    v_booking_id UUID;
+    v_seat_code TEXT;
+    v_ticket_id UUID;
+    v_ticket_code TEXT;
+    v_seq INTEGER;
+    v_date_prefix TEXT;
+    v_tickets JSON[] := '{}';
+    v_conflicts TEXT[];
+    v_price DECIMAL(10,2);
+    v_category TEXT;
+    v_total DECIMAL(10,2) := 0;
+BEGIN
+    IF p_seat_codes IS NULL OR array_length(p_seat_codes, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'No seats selected'
+        );
+    END IF;
+
+    IF array_length(p_seat_codes, 1) <> (SELECT COUNT(DISTINCT seat) FROM unnest(p_seat_codes) AS seat) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'The same seat was selected more than once'
+        );
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_each_text(COALESCE(p_seat_categories, '{}'::jsonb))
+        WHERE value NOT IN ('ADULT', 'CHILD', 'SENIOR', 'FOREIGNER', 'COMPLIMENTARY')
+    ) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_CATEGORY',
+            'error', 'Unknown ticket category'
+        );
+    END IF;
+
+    -- Lock the show to prevent concurrent bookings
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    -- Get show details
+    SELECT id, price, date, status INTO v_show
+    FROM shows
+    WHERE id = p_show_id AND active = true;
+
+    IF NOT FOUND OR COALESCE(v_show.status, 'ACTIVE') NOT IN ('ACTIVE', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'This show is no longer open for booking'
+        );
+    END IF;
+
+    -- Check for conflicts against every confirmed booking, whatever its seat_code format,
+    -- and against live holds from other terminals
+    SELECT array_agg(DISTINCT requested) INTO v_conflicts
+    FROM unnest(p_seat_codes) AS requested
+    WHERE EXISTS (
+        SELECT 1 FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        AND requested = ANY(booking_seat_codes(seat_code))
+    )
+    OR EXISTS (
+        SELECT 1 FROM seat_holds
+        WHERE show_id = p_show_id
+        AND seat_code = requested
+        AND expires_at > NOW()
+        AND holder_id IS DISTINCT FROM p_holder_id
+    );
+
+    IF v_conflicts IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEAT_CONFLICT',
+            'error', 'Some seats have already been booked or are held at another counter',
+            'conflicts', v_conflicts
+        );
+    END IF;
+
+    -- Ticket numbers are sequential per show date, so serialise shows sharing a date
+    v_date_prefix := 'TKT-' || to_char(v_show.date, 'YYYYMMDD') || '-';
+    PERFORM pg_advisory_xact_lock(hashtext(v_date_prefix));
+
+    SELECT COALESCE(MAX(split_part(ticket_code, '-', 3)::INTEGER), 0) + 1
+    INTO v_seq
+    FROM tickets
+    WHERE ticket_code LIKE v_date_prefix || '%'
+    AND split_part(ticket_code, '-', 3) ~ '^[0-9]+$';
+
+    -- Create ONE booking for all seats
+    INSERT INTO bookings (show_id, seat_code, booked_by, customer_id, status)
+    VALUES (p_show_id, array_to_json(p_seat_codes)::text, p_booked_by, p_customer_id, 'CONFIRMED')
+    RETURNING id INTO v_booking_id;
+
+    -- Create tickets for each seat under the same booking
+    FOREACH v_seat_code IN ARRAY p_seat_codes
+    LOOP
+        v_ticket_code := v_date_prefix || lpad(v_seq::text, 4, '0') || '-' || v_seat_code;
+        v_category := COALESCE(p_seat_categories->>v_seat_code, 'ADULT');
+        v_price := ticket_price(p_show_id, v_seat_code, v_category);
+        v_total := v_total + v_price;
+
+        INSERT INTO tickets (
+            booking_id, show_id, seat_code, ticket_code,
+            price, category, generated_by, status
+        )
+        VALUES (
+            v_booking_id, p_show_id, v_seat_code, v_ticket_code,
+            v_price, v_category, COALESCE(p_generated_by, p_booked_by), 'ACTIVE'
+        )
+        RETURNING id INTO v_ticket_id;
+
+        v_tickets := array_append(v_tickets, json_build_object(
+            'id', v_ticket_id,
+            'booking_id', v_booking_id,
+            'seat_code', v_seat_code,
+            'ticket_code', v_ticket_code,
+            'price', v_price,
+            'category', v_category
+        ));
+
+        v_seq := v_seq + 1;
+    END LOOP;
+
+    -- The seats are booked now, so their holds are no longer needed
+    DELETE FROM seat_holds
+    WHERE show_id = p_show_id
+    AND seat_code = ANY(p_seat_codes);
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', v_booking_id,
+        'tickets', array_to_json(v_tickets),
+        'booking_count', array_length(p_seat_codes, 1),
+        'total_amount', v_total
+    );
+END;
+$$;
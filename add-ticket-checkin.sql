@@ -0,0 +1,103 @@
+-- Add gate check-in support for tickets
+
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS checked_in_by VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_tickets_show_checked_in ON tickets(show_id, checked_in_at);
+
+-- RPC function to admit a ticket at the gate.
+-- Rejections come back as success = false with an error_code the UI can act on.
+CREATE OR REPLACE FUNCTION check_in_ticket(
+    p_ticket_code TEXT,
+    p_show_id UUID,
+    p_checked_in_by TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_ticket RECORD;
+    v_show_title TEXT;
+    v_checked_in_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT * INTO v_ticket
+    FROM tickets
+    WHERE ticket_code = trim(p_ticket_code)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NOT_FOUND',
+            'error', 'No ticket found with this code'
+        );
+    END IF;
+
+    SELECT title INTO v_show_title
+    FROM shows
+    WHERE id = v_ticket.show_id;
+
+    IF v_ticket.show_id <> p_show_id THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'WRONG_SHOW',
+            'error', 'This ticket is for a different show: ' || COALESCE(v_show_title, 'unknown show')
+        );
+    END IF;
+
+    IF v_ticket.status = 'REVOKED' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'REVOKED',
+            'error', 'This ticket has been revoked'
+        );
+    END IF;
+
+    IF v_ticket.status = 'COMPLETED' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'COMPLETED',
+            'error', 'This ticket is for a show that has already finished'
+        );
+    END IF;
+
+    IF v_ticket.checked_in_at IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'ALREADY_USED',
+            -- The app adds the time, on the venue's clock
+            'error', 'This ticket was already used' || COALESCE(' by ' || v_ticket.checked_in_by, ''),
+            'checked_in_at', v_ticket.checked_in_at,
+            'checked_in_by', v_ticket.checked_in_by
+        );
+    END IF;
+
+    UPDATE tickets
+    SET checked_in_at = NOW(), checked_in_by = p_checked_in_by
+    WHERE id = v_ticket.id
+    RETURNING checked_in_at INTO v_checked_in_at;
+
+    RETURN json_build_object(
+        'success', true,
+        'ticket', json_build_object(
+            'id', v_ticket.id,
+            'booking_id', v_ticket.booking_id,
+            'show_id', v_ticket.show_id,
+            'show_title', v_show_title,
+            'seat_code', v_ticket.seat_code,
+            'ticket_code', v_ticket.ticket_code,
+            'checked_in_at', v_checked_in_at,
+            'checked_in_by', p_checked_in_by
+        )
+    );
+END;
+$$;
+
+-- Publish ticket changes so every gate terminal sees live admitted counts
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE tickets;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END;
+$$;
@@ -0,0 +1,399 @@
+-- Show dates and times are wall-clock times at the show's venue
+-- Run this after add-venues.sql
+--
+-- Replaces refund_policy_percent, reschedule_show and advance_show_lifecycle
+-- so they read show times in the venue's timezone rather than the single
+-- timezone in show_lifecycle_settings, which is now only a fallback.
+
+-- The instant a show starts, given its date and time at the venue
+CREATE OR REPLACE FUNCTION show_starts_at(p_date DATE, p_time TIME, p_venue_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT (p_date + p_time) AT TIME ZONE COALESCE(
+        (SELECT timezone FROM venues WHERE id = p_venue_id),
+        (SELECT timezone FROM show_lifecycle_settings WHERE id = 1),
+        'Asia/Kolkata'
+    );
+$$;
+
+-- Replace refund_policy_percent to count hours left on the venue's clock
+CREATE OR REPLACE FUNCTION refund_policy_percent(p_show_id UUID)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_hours_left NUMERIC;
+    v_percent DECIMAL;
+BEGIN
+    SELECT EXTRACT(EPOCH FROM show_starts_at(date, time, venue_id) - NOW()) / 3600
+    INTO v_hours_left
+    FROM shows
+    WHERE id = p_show_id;
+
+    IF v_hours_left IS NULL OR v_hours_left < 0 THEN
+        RETURN 0;
+    END IF;
+
+    SELECT (rule->>'refund_percent')::DECIMAL INTO v_percent
+    FROM refund_policy_settings, jsonb_array_elements(rules) AS rule
+    WHERE id = 1
+    AND (rule->>'hours_before_show')::NUMERIC <= v_hours_left
+    ORDER BY (rule->>'hours_before_show')::NUMERIC DESC
+    LIMIT 1;
+
+    RETURN COALESCE(v_percent, 0);
+END;
+$$;
+
+-- Replace reschedule_show to check the new time at the new show's venue
+CREATE OR REPLACE FUNCTION reschedule_show(
+    p_show_id UUID,
+    p_date DATE,
+    p_time TIME,
+    p_reason TEXT,
+    p_layout_id UUID DEFAULT NULL,
+    p_rescheduled_by TEXT DEFAULT 'system'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_show RECORD;
+    v_layout_id UUID;
+    v_structure JSONB;
+    v_layout_seats TEXT[];
+    v_taken TEXT[] := '{}';
+    v_new_show_id UUID;
+    v_booking RECORD;
+    v_seats TEXT[];
+    v_seat TEXT;
+    v_new_seat TEXT;
+    v_new_seats TEXT[];
+    v_refund_seats TEXT[];
+    v_ticket RECORD;
+    v_amount DECIMAL(10,2);
+    v_kept INTEGER := 0;
+    v_reseated INTEGER := 0;
+    v_refunded INTEGER := 0;
+    v_bookings INTEGER := 0;
+BEGIN
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'REASON_REQUIRED',
+            'error', 'Enter a reason for the reschedule'
+        );
+    END IF;
+
+    -- The new show is at the venue of the layout it will use
+    IF show_starts_at(p_date, p_time, (
+        SELECT venue_id FROM layouts
+        WHERE id = COALESCE(p_layout_id, (SELECT layout_id FROM shows WHERE id = p_show_id))
+    )) <= NOW() THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_DATE',
+            'error', 'The new date and time must be in the future'
+        );
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    SELECT *, COALESCE(status, 'ACTIVE') AS current_status INTO v_show
+    FROM shows
+    WHERE id = p_show_id;
+
+    IF NOT FOUND OR v_show.current_status NOT IN ('ACTIVE', 'HOUSE_FULL', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'Only upcoming or running shows can be rescheduled'
+        );
+    END IF;
+
+    v_layout_id := COALESCE(p_layout_id, v_show.layout_id);
+
+    SELECT structure INTO v_structure FROM layouts WHERE id = v_layout_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'LAYOUT_NOT_FOUND',
+            'error', 'Layout not found'
+        );
+    END IF;
+
+    INSERT INTO shows (
+        title, date, time, price, tier_prices, category_prices,
+        group_min_seats, group_discount_percent, description, layout_id, series_id
+    )
+    VALUES (
+        v_show.title, p_date, p_time, v_show.price, v_show.tier_prices, v_show.category_prices,
+        v_show.group_min_seats, v_show.group_discount_percent, v_show.description, v_layout_id, v_show.series_id
+    )
+    RETURNING id INTO v_new_show_id;
+
+    PERFORM pg_advisory_xact_lock(hashtext(v_new_show_id::text));
+
+    -- On the same layout every seat exists. Otherwise seats the new layout
+    -- also has are kept first, so re-seating never takes someone's own seat.
+    IF v_layout_id IS DISTINCT FROM v_show.layout_id THEN
+        v_layout_seats := layout_seat_codes(v_structure);
+
+        SELECT COALESCE(array_agg(seat), '{}') INTO v_taken
+        FROM bookings b, unnest(booking_seat_codes(b.seat_code)) AS seat
+        WHERE b.show_id = p_show_id
+        AND b.status = 'CONFIRMED'
+        AND seat = ANY(v_layout_seats);
+    END IF;
+
+    FOR v_booking IN
+        SELECT id, seat_code
+        FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        ORDER BY booking_time
+        FOR UPDATE
+    LOOP
+        v_seats := booking_seat_codes(v_booking.seat_code);
+        v_new_seats := '{}';
+        v_refund_seats := '{}';
+        v_amount := 0;
+
+        FOREACH v_seat IN ARRAY v_seats
+        LOOP
+            SELECT id, price INTO v_ticket
+            FROM tickets
+            WHERE booking_id = v_booking.id
+            AND seat_code = v_seat
+            AND status = 'ACTIVE'
+            LIMIT 1;
+
+            IF v_layout_seats IS NULL OR v_seat = ANY(v_layout_seats) THEN
+                v_new_seat := v_seat;
+                v_kept := v_kept + 1;
+            ELSE
+                SELECT seat INTO v_new_seat
+                FROM unnest(v_layout_seats) WITH ORDINALITY AS t(seat, ord)
+                WHERE NOT (seat = ANY(v_taken))
+                ORDER BY ord
+                LIMIT 1;
+
+                IF v_new_seat IS NOT NULL THEN
+                    v_taken := array_append(v_taken, v_new_seat);
+                    v_reseated := v_reseated + 1;
+                END IF;
+            END IF;
+
+            IF v_new_seat IS NULL THEN
+                -- No seat left on the new layout
+                UPDATE tickets
+                SET status = 'REVOKED', revoked_at = NOW()
+                WHERE id = v_ticket.id;
+
+                v_refund_seats := array_append(v_refund_seats, v_seat);
+                v_amount := v_amount + COALESCE(v_ticket.price, 0);
+                v_refunded := v_refunded + 1;
+            ELSE
+                UPDATE tickets
+                SET show_id = v_new_show_id,
+                    seat_code = v_new_seat
+                WHERE id = v_ticket.id;
+
+                v_new_seats := array_append(v_new_seats, v_new_seat);
+            END IF;
+
+            INSERT INTO show_booking_moves (
+                from_show_id, to_show_id, booking_id, ticket_id,
+                from_seat, to_seat, outcome, moved_by
+            )
+            VALUES (
+                p_show_id,
+                CASE WHEN v_new_seat IS NULL THEN NULL ELSE v_new_show_id END,
+                v_booking.id, v_ticket.id, v_seat, v_new_seat,
+                CASE
+                    WHEN v_new_seat IS NULL THEN 'REFUNDED'
+                    WHEN v_new_seat = v_seat THEN 'KEPT_SEAT'
+                    ELSE 'RESEATED'
+                END,
+                p_rescheduled_by
+            );
+        END LOOP;
+
+        PERFORM refund_venue_cancelled_seats(
+            v_booking.id, p_show_id, v_refund_seats, v_amount,
+            'Show rescheduled: ' || p_reason, p_rescheduled_by
+        );
+
+        IF array_length(v_new_seats, 1) IS NULL THEN
+            UPDATE bookings
+            SET status = 'CANCELLED',
+                cancelled_at = NOW(),
+                cancelled_by = p_rescheduled_by,
+                cancellation_reason = 'Show rescheduled: no seats on the new layout'
+            WHERE id = v_booking.id;
+        ELSE
+            UPDATE bookings
+            SET show_id = v_new_show_id,
+                seat_code = array_to_json(v_new_seats)::text
+            WHERE id = v_booking.id;
+        END IF;
+
+        PERFORM queue_booking_notification(
+            v_booking.id, p_show_id, 'SHOW_RESCHEDULED',
+            format(
+                '%s on %s at %s has been rescheduled to %s at %s (%s).',
+                v_show.title, to_char(v_show.date, 'DD Mon YYYY'), to_char(v_show.time, 'HH12:MI AM'),
+                to_char(p_date, 'DD Mon YYYY'), to_char(p_time, 'HH12:MI AM'), p_reason
+            ) ||
+            CASE WHEN array_length(v_new_seats, 1) IS NULL THEN ''
+                WHEN v_new_seats = v_seats THEN format(' Your tickets are still valid for seats %s.', array_to_string(v_new_seats, ', '))
+                ELSE format(' Your tickets are still valid; your seats are now %s.', array_to_string(v_new_seats, ', '))
+            END ||
+            CASE WHEN array_length(v_refund_seats, 1) IS NULL THEN ''
+                ELSE format(' Seats %s could not be moved and will be refunded in full.', array_to_string(v_refund_seats, ', '))
+            END
+        );
+
+        v_bookings := v_bookings + 1;
+    END LOOP;
+
+    -- The waitlist carries over; offers start again at the new show
+    DELETE FROM seat_holds WHERE show_id = p_show_id;
+
+    UPDATE waitlist_entries
+    SET show_id = v_new_show_id,
+        status = 'WAITING',
+        offered_seats = NULL,
+        offered_at = NULL,
+        offer_expires_at = NULL
+    WHERE show_id = p_show_id
+    AND status IN ('WAITING', 'OFFERED');
+
+    UPDATE shows
+    SET status = 'RESCHEDULED',
+        status_reason = p_reason,
+        status_changed_by = p_rescheduled_by,
+        status_changed_at = NOW(),
+        rescheduled_to = v_new_show_id
+    WHERE id = p_show_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'new_show_id', v_new_show_id,
+        'moved_bookings', v_bookings,
+        'kept_seats', v_kept,
+        'reseated_seats', v_reseated,
+        'refunded_seats', v_refunded
+    );
+END;
+$$;
+
+-- Replace advance_show_lifecycle to start and finish shows on the venue's clock
+CREATE OR REPLACE FUNCTION advance_show_lifecycle(
+    p_performed_by TEXT DEFAULT 'scheduler',
+    p_log_changes BOOLEAN DEFAULT true
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_settings RECORD;
+    v_show RECORD;
+    v_status TEXT;
+    v_new_status TEXT;
+    v_starts_at TIMESTAMP WITH TIME ZONE;
+    v_capacity INTEGER;
+    v_booked INTEGER;
+    v_completed INTEGER;
+    v_changes JSON[] := '{}';
+BEGIN
+    SELECT * INTO v_settings FROM show_lifecycle_settings WHERE id = 1;
+
+    FOR v_show IN
+        SELECT s.id, s.title, s.date, s.time, s.venue_id, l.structure
+        FROM shows s
+        LEFT JOIN layouts l ON l.id = s.layout_id
+        WHERE COALESCE(s.status, 'ACTIVE') NOT IN ('SHOW_DONE', 'CANCELLED', 'RESCHEDULED')
+        ORDER BY s.date, s.time
+    LOOP
+        -- Same lock as booking and cancellation, then re-read the status under it
+        PERFORM pg_advisory_xact_lock(hashtext(v_show.id::text));
+
+        SELECT COALESCE(status, 'ACTIVE') INTO v_status FROM shows WHERE id = v_show.id;
+        IF v_status IN ('SHOW_DONE', 'CANCELLED', 'RESCHEDULED') THEN
+            CONTINUE;
+        END IF;
+
+        v_starts_at := show_starts_at(v_show.date, v_show.time, v_show.venue_id);
+        v_new_status := NULL;
+        v_completed := 0;
+
+        IF NOW() >= v_starts_at + make_interval(mins => v_settings.done_after_minutes) THEN
+            v_new_status := 'SHOW_DONE';
+        ELSIF NOW() >= v_starts_at + make_interval(mins => v_settings.started_after_minutes) THEN
+            IF v_status = 'ACTIVE' THEN
+                v_new_status := 'SHOW_STARTED';
+            END IF;
+        ELSIF v_status = 'ACTIVE' THEN
+            v_capacity := layout_seat_capacity(v_show.structure);
+
+            SELECT COALESCE(SUM(array_length(booking_seat_codes(seat_code), 1)), 0)
+            INTO v_booked
+            FROM bookings
+            WHERE show_id = v_show.id
+            AND status = 'CONFIRMED';
+
+            IF v_capacity > 0 AND v_booked >= v_capacity THEN
+                v_new_status := 'HOUSE_FULL';
+            END IF;
+        END IF;
+
+        IF v_new_status IS NULL THEN
+            CONTINUE;
+        END IF;
+
+        UPDATE shows SET status = v_new_status WHERE id = v_show.id;
+
+        IF v_new_status = 'SHOW_DONE' THEN
+            UPDATE tickets
+            SET status = 'COMPLETED'
+            WHERE show_id = v_show.id
+            AND status = 'ACTIVE';
+
+            GET DIAGNOSTICS v_completed = ROW_COUNT;
+        END IF;
+
+        IF p_log_changes THEN
+            PERFORM log_activity(
+                'STATUS_CHANGE',
+                'SHOW',
+                v_show.id,
+                v_show.title,
+                jsonb_build_object(
+                    'from_status', v_status,
+                    'to_status', v_new_status,
+                    'completed_tickets', v_completed
+                ),
+                p_performed_by
+            );
+        END IF;
+
+        v_changes := array_append(v_changes, json_build_object(
+            'show_id', v_show.id,
+            'show_title', v_show.title,
+            'from_status', v_status,
+            'to_status', v_new_status,
+            'completed_tickets', v_completed
+        ));
+    END LOOP;
+
+    RETURN json_build_object(
+        'success', true,
+        'changes', array_to_json(v_changes)
+    );
+END;
+$$;
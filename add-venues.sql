@@ -0,0 +1,96 @@
+-- Venues: layouts and shows belong to a venue, so more than one arena can be
+-- run from the same system
+-- Run this after add-show-rescheduling.sql
+--
+-- Everything that exists today is moved to a first venue named after the
+-- current setup. A show takes its layout's venue; the triggers below keep
+-- the two in step, so shows never set venue_id themselves. Moving a layout
+-- to another venue moves only its upcoming shows: shows already played,
+-- cancelled or moved stay where they were, so past reports per venue hold.
+
+CREATE TABLE IF NOT EXISTS venues (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    address TEXT,
+    timezone VARCHAR(64) NOT NULL DEFAULT 'Asia/Kolkata', -- Show dates and times at the venue are in this zone
+    contact_name VARCHAR(255),
+    contact_phone VARCHAR(20),
+    contact_email VARCHAR(255),
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE layouts ADD COLUMN IF NOT EXISTS venue_id UUID REFERENCES venues(id) ON DELETE RESTRICT;
+ALTER TABLE shows ADD COLUMN IF NOT EXISTS venue_id UUID REFERENCES venues(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_layouts_venue_id ON layouts(venue_id);
+CREATE INDEX IF NOT EXISTS idx_shows_venue_id ON shows(venue_id);
+
+-- The venue everything ran at before venues existed
+INSERT INTO venues (name, timezone, created_by)
+SELECT 'Main Venue', COALESCE((SELECT timezone FROM show_lifecycle_settings WHERE id = 1), 'Asia/Kolkata'), 'system'
+WHERE NOT EXISTS (SELECT 1 FROM venues);
+
+UPDATE layouts
+SET venue_id = (SELECT id FROM venues ORDER BY created_at LIMIT 1)
+WHERE venue_id IS NULL;
+
+UPDATE shows s
+SET venue_id = COALESCE(
+    (SELECT venue_id FROM layouts WHERE id = s.layout_id),
+    (SELECT id FROM venues ORDER BY created_at LIMIT 1)
+)
+WHERE venue_id IS NULL;
+
+ALTER TABLE layouts ALTER COLUMN venue_id SET NOT NULL;
+ALTER TABLE shows ALTER COLUMN venue_id SET NOT NULL;
+
+-- A show takes its venue from its layout. A show whose layout was deleted
+-- keeps the venue it had.
+CREATE OR REPLACE FUNCTION set_show_venue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.layout_id IS NOT NULL THEN
+        SELECT venue_id INTO NEW.venue_id FROM layouts WHERE id = NEW.layout_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_show_venue ON shows;
+CREATE TRIGGER trg_set_show_venue
+    BEFORE INSERT OR UPDATE OF layout_id, venue_id ON shows
+    FOR EACH ROW
+    EXECUTE FUNCTION set_show_venue();
+
+-- Moving a layout to another venue moves its upcoming shows with it.
+-- "Upcoming" is by the date at the venue the show is moving from.
+CREATE OR REPLACE FUNCTION move_layout_shows_venue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.venue_id IS DISTINCT FROM OLD.venue_id THEN
+        UPDATE shows s
+        SET venue_id = NEW.venue_id
+        WHERE s.layout_id = NEW.id
+        AND s.date >= (NOW() AT TIME ZONE COALESCE(
+            (SELECT timezone FROM venues WHERE id = s.venue_id),
+            'Asia/Kolkata'
+        ))::DATE
+        AND COALESCE(s.status, 'ACTIVE') NOT IN ('SHOW_DONE', 'CANCELLED', 'RESCHEDULED');
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_move_layout_shows_venue ON layouts;
+CREATE TRIGGER trg_move_layout_shows_venue
+    AFTER UPDATE OF venue_id ON layouts
+    FOR EACH ROW
+    EXECUTE FUNCTION move_layout_shows_venue();
@@ -0,0 +1,887 @@
+-- Waitlist for full shows: customers queue for a show, and seats freed by a
+-- cancellation are offered to them in the order they joined
+-- Run this after add-cash-shifts.sql; it replaces book_seats_atomic and
+-- cancel_booking_seats
+--
+-- An offer holds the seats for the customer (a seat hold with holder_id
+-- 'WAITLIST-<entry id>') until it expires. Staff claim an offer at a counter,
+-- which moves the hold to their terminal, and book it as usual. Expired
+-- offers go to the next customer in line.
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    show_id UUID NOT NULL REFERENCES shows(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    party_size INTEGER NOT NULL CHECK (party_size > 0),
+    notes TEXT,
+    status VARCHAR(10) NOT NULL DEFAULT 'WAITING' CHECK (status IN ('WAITING', 'OFFERED', 'CLAIMED', 'EXPIRED', 'CANCELLED')),
+    offered_seats TEXT[],
+    offered_at TIMESTAMP WITH TIME ZONE,
+    offer_expires_at TIMESTAMP WITH TIME ZONE,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL, -- Set once the offer is booked
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_show_id ON waitlist_entries(show_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_status ON waitlist_entries(status);
+
+-- Publish waitlist changes so staff see offers as they are made
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE waitlist_entries;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+-- A customer waits for a show once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_entries_one_per_customer
+ON waitlist_entries(show_id, customer_id)
+WHERE status IN ('WAITING', 'OFFERED');
+
+-- Every seat code in a layout structure in layout order, named the way the
+-- booking screen names them: section-rowLetter-seat, e.g. South-A-1
+CREATE OR REPLACE FUNCTION layout_seat_codes(p_structure JSONB)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_section JSONB;
+    v_row JSONB;
+    v_row_index INTEGER;
+    v_seats INTEGER;
+    v_codes TEXT[] := '{}';
+BEGIN
+    IF p_structure IS NULL OR jsonb_typeof(p_structure->'sections') <> 'array' THEN
+        RETURN v_codes;
+    END IF;
+
+    FOR v_section IN SELECT * FROM jsonb_array_elements(p_structure->'sections')
+    LOOP
+        IF jsonb_typeof(v_section->'rows') = 'array' THEN
+            v_row_index := 0;
+            FOR v_row IN SELECT * FROM jsonb_array_elements(v_section->'rows')
+            LOOP
+                v_seats := COALESCE((v_row->>'seats')::INTEGER, 0);
+                v_codes := v_codes || ARRAY(
+                    SELECT (v_section->>'name') || '-' || chr(65 + v_row_index) || '-' || seat
+                    FROM generate_series(1, v_seats) AS seat
+                );
+                v_row_index := v_row_index + 1;
+            END LOOP;
+        ELSE
+            -- Version 1: rows is a count and every row has seatsPerRow seats
+            FOR v_row_index IN 0 .. COALESCE((v_section->>'rows')::INTEGER, 0) - 1
+            LOOP
+                v_codes := v_codes || ARRAY(
+                    SELECT (v_section->>'name') || '-' || chr(65 + v_row_index) || '-' || seat
+                    FROM generate_series(1, COALESCE((v_section->>'seatsPerRow')::INTEGER, 0)) AS seat
+                );
+            END LOOP;
+        END IF;
+    END LOOP;
+
+    RETURN v_codes;
+END;
+$$;
+
+-- Offer a show's free seats to the waitlist, first come first served. Every
+-- seat of the show's layout that nobody has booked or is holding counts, so
+-- seats freed by separate cancellations add up. A party is only offered
+-- seats when there are enough for all of them; a party too big for what is
+-- free keeps its place and the seats go to the next party that fits. Seats
+-- nobody on the list can use stay free for anyone to book.
+-- Callers must already hold the show lock.
+DROP FUNCTION IF EXISTS offer_waitlist_seats(UUID, TEXT[], INTEGER);
+
+CREATE OR REPLACE FUNCTION offer_waitlist_seats(
+    p_show_id UUID,
+    p_claim_minutes INTEGER DEFAULT 30
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_free TEXT[];
+    v_entry RECORD;
+    v_offer TEXT[];
+    v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + make_interval(mins => p_claim_minutes);
+    v_offers INTEGER := 0;
+BEGIN
+    DELETE FROM seat_holds WHERE show_id = p_show_id AND expires_at <= NOW();
+
+    -- Only seats nobody has booked or is holding
+    SELECT array_agg(seat ORDER BY ord) INTO v_free
+    FROM shows s
+    JOIN layouts l ON l.id = s.layout_id,
+    unnest(layout_seat_codes(l.structure)) WITH ORDINALITY AS t(seat, ord)
+    WHERE s.id = p_show_id
+    AND NOT EXISTS (
+        SELECT 1 FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        AND seat = ANY(booking_seat_codes(seat_code))
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM seat_holds
+        WHERE show_id = p_show_id
+        AND seat_code = seat
+    );
+
+    FOR v_entry IN
+        SELECT id, party_size
+        FROM waitlist_entries
+        WHERE show_id = p_show_id
+        AND status = 'WAITING'
+        ORDER BY created_at
+        FOR UPDATE
+    LOOP
+        EXIT WHEN COALESCE(array_length(v_free, 1), 0) = 0;
+
+        IF v_entry.party_size <= array_length(v_free, 1) THEN
+            v_offer := v_free[1:v_entry.party_size];
+            v_free := v_free[v_entry.party_size + 1:array_length(v_free, 1)];
+
+            UPDATE waitlist_entries
+            SET status = 'OFFERED',
+                offered_seats = v_offer,
+                offered_at = NOW(),
+                offer_expires_at = v_expires_at
+            WHERE id = v_entry.id;
+
+            INSERT INTO seat_holds (show_id, seat_code, holder_id, held_by, expires_at)
+            SELECT p_show_id, seat, 'WAITLIST-' || v_entry.id, 'waitlist', v_expires_at
+            FROM unnest(v_offer) AS seat;
+
+            v_offers := v_offers + 1;
+        END IF;
+    END LOOP;
+
+    RETURN v_offers;
+END;
+$$;
+
+-- Expire offers that were not claimed in time and pass their seats on.
+-- Omit p_show_id to do every show.
+CREATE OR REPLACE FUNCTION expire_waitlist_offers(p_show_id UUID DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_show_id UUID;
+    v_entry RECORD;
+    v_expired INTEGER := 0;
+    v_offers INTEGER := 0;
+BEGIN
+    FOR v_show_id IN
+        SELECT DISTINCT show_id
+        FROM waitlist_entries
+        WHERE status = 'OFFERED'
+        AND offer_expires_at <= NOW()
+        AND (p_show_id IS NULL OR show_id = p_show_id)
+    LOOP
+        PERFORM pg_advisory_xact_lock(hashtext(v_show_id::text));
+
+        FOR v_entry IN
+            UPDATE waitlist_entries
+            SET status = 'EXPIRED'
+            WHERE show_id = v_show_id
+            AND status = 'OFFERED'
+            AND offer_expires_at <= NOW()
+            RETURNING id, offered_seats
+        LOOP
+            DELETE FROM seat_holds
+            WHERE show_id = v_show_id
+            AND holder_id = 'WAITLIST-' || v_entry.id;
+
+            v_expired := v_expired + 1;
+            v_offers := v_offers + offer_waitlist_seats(v_show_id);
+        END LOOP;
+    END LOOP;
+
+    RETURN json_build_object(
+        'success', true,
+        'expired', v_expired,
+        'offers', v_offers
+    );
+END;
+$$;
+
+-- Claim an offer at a booking terminal: the seats move to the terminal's
+-- hold until the offer runs out, ready to book for the customer
+CREATE OR REPLACE FUNCTION claim_waitlist_offer(
+    p_entry_id UUID,
+    p_holder_id TEXT,
+    p_held_by TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_entry RECORD;
+BEGIN
+    SELECT show_id INTO v_entry
+    FROM waitlist_entries
+    WHERE id = p_entry_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'ENTRY_NOT_FOUND',
+            'error', 'Waitlist entry not found'
+        );
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(v_entry.show_id::text));
+
+    SELECT * INTO v_entry
+    FROM waitlist_entries
+    WHERE id = p_entry_id
+    FOR UPDATE;
+
+    IF v_entry.status <> 'OFFERED' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_OFFER',
+            'error', 'This customer has no seats on offer'
+        );
+    END IF;
+
+    IF v_entry.offer_expires_at <= NOW() THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'OFFER_EXPIRED',
+            'error', 'The offer has expired'
+        );
+    END IF;
+
+    UPDATE seat_holds
+    SET holder_id = p_holder_id,
+        held_by = p_held_by
+    WHERE show_id = v_entry.show_id
+    AND holder_id = 'WAITLIST-' || p_entry_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'show_id', v_entry.show_id,
+        'customer_id', v_entry.customer_id,
+        'seat_codes', v_entry.offered_seats,
+        'expires_at', v_entry.offer_expires_at
+    );
+END;
+$$;
+
+-- Take a customer off the waitlist; seats they were offered go to the next
+-- in line
+CREATE OR REPLACE FUNCTION cancel_waitlist_entry(p_entry_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_entry RECORD;
+BEGIN
+    SELECT show_id INTO v_entry
+    FROM waitlist_entries
+    WHERE id = p_entry_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'ENTRY_NOT_FOUND',
+            'error', 'Waitlist entry not found'
+        );
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(v_entry.show_id::text));
+
+    UPDATE waitlist_entries
+    SET status = 'CANCELLED'
+    WHERE id = p_entry_id
+    AND status IN ('WAITING', 'OFFERED')
+    RETURNING * INTO v_entry;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_OFFER',
+            'error', 'This customer is no longer waiting'
+        );
+    END IF;
+
+    IF v_entry.offered_seats IS NOT NULL THEN
+        DELETE FROM seat_holds
+        WHERE show_id = v_entry.show_id
+        AND holder_id = 'WAITLIST-' || p_entry_id;
+
+        PERFORM offer_waitlist_seats(v_entry.show_id);
+    END IF;
+
+    RETURN json_build_object('success', true);
+END;
+$$;
+
+-- Replace book_seats_atomic so booking a claimed offer closes the waitlist entry
+DROP FUNCTION IF EXISTS book_seats_atomic(UUID, TEXT[], TEXT, UUID, TEXT, TEXT, JSONB, TEXT, TEXT, UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION book_seats_atomic(
+    p_show_id UUID,
+    p_seat_codes TEXT[],
+    p_booked_by TEXT,
+    p_customer_id UUID DEFAULT NULL,
+    p_generated_by TEXT DEFAULT NULL,
+    p_holder_id TEXT DEFAULT NULL,
+    p_seat_categories JSONB DEFAULT '{}', -- Seat code to ticket category; missing seats are ADULT
+    p_promo_code TEXT DEFAULT NULL,
+    p_group_name TEXT DEFAULT NULL, -- Makes this a group booking with an invoice
+    p_season_pass_id UUID DEFAULT NULL, -- Pays for every seat from this pass
+    p_payments JSONB DEFAULT NULL, -- [{ "method", "amount", "reference" }]; must add up to the total
+    p_waitlist_entry_id UUID DEFAULT NULL -- The waitlist offer these seats were claimed from
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_show RECORD;
+    v_booking_id UUID;
+    v_seat_code TEXT;
+    v_ticket_id UUID;
+    v_ticket_code TEXT;
+    v_seq INTEGER;
+    v_date_prefix TEXT;
+    v_tickets JSON[] := '{}';
+    v_conflicts TEXT[];
+    v_price DECIMAL(10,2);
+    v_category TEXT;
+    v_total DECIMAL(10,2) := 0;
+    v_prices DECIMAL(10,2)[] := '{}';
+    v_subtotal DECIMAL(10,2) := 0;
+    v_promo JSON;
+    v_promo_code_id UUID;
+    v_promo_code TEXT;
+    v_discount DECIMAL(10,2) := 0;
+    v_ticket_discount DECIMAL(10,2);
+    v_discount_left DECIMAL(10,2);
+    v_index INTEGER := 0;
+    v_group_name TEXT := NULLIF(TRIM(p_group_name), '');
+    v_group_rate BOOLEAN := false;
+    v_group_discount DECIMAL(10,2) := 0;
+    v_group_share DECIMAL(10,2);
+    v_group_shares DECIMAL(10,2)[] := '{}';
+    v_invoice_number TEXT;
+    v_pass RECORD;
+    v_invoice_seq INTEGER;
+    v_paid DECIMAL(10,2);
+BEGIN
+    IF p_seat_codes IS NULL OR array_length(p_seat_codes, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'No seats selected'
+        );
+    END IF;
+
+    IF array_length(p_seat_codes, 1) <> (SELECT COUNT(DISTINCT seat) FROM unnest(p_seat_codes) AS seat) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'NO_SEATS',
+            'error', 'The same seat was selected more than once'
+        );
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_each_text(COALESCE(p_seat_categories, '{}'::jsonb))
+        WHERE value NOT IN ('ADULT', 'CHILD', 'SENIOR', 'FOREIGNER', 'COMPLIMENTARY')
+    ) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_CATEGORY',
+            'error', 'Unknown ticket category'
+        );
+    END IF;
+
+    IF p_payments IS NOT NULL AND (
+        jsonb_typeof(p_payments) <> 'array'
+        OR EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_payments) AS payment
+            WHERE payment->>'method' IS NULL
+            OR payment->>'method' NOT IN ('CASH', 'UPI', 'CARD', 'VOUCHER')
+            OR (payment->>'amount')::DECIMAL(10,2) IS NULL
+            OR (payment->>'amount')::DECIMAL(10,2) <= 0
+        )
+    ) THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'INVALID_PAYMENT',
+            'error', 'Every payment needs a method and an amount above zero'
+        );
+    END IF;
+
+    IF p_season_pass_id IS NOT NULL AND NULLIF(TRIM(p_promo_code), '') IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEASON_PASS_INVALID',
+            'error', 'A season pass cannot be combined with a promo code'
+        );
+    END IF;
+
+    -- Lock the show to prevent concurrent bookings
+    PERFORM pg_advisory_xact_lock(hashtext(p_show_id::text));
+
+    -- Get show details
+    SELECT id, price, date, status, group_min_seats, group_discount_percent INTO v_show
+    FROM shows
+    WHERE id = p_show_id AND active = true;
+
+    IF NOT FOUND OR COALESCE(v_show.status, 'ACTIVE') NOT IN ('ACTIVE', 'SHOW_STARTED') THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SHOW_UNAVAILABLE',
+            'error', 'This show is no longer open for booking'
+        );
+    END IF;
+
+    -- Check for conflicts against every confirmed booking, whatever its seat_code format,
+    -- and against live holds from other terminals
+    SELECT array_agg(DISTINCT requested) INTO v_conflicts
+    FROM unnest(p_seat_codes) AS requested
+    WHERE EXISTS (
+        SELECT 1 FROM bookings
+        WHERE show_id = p_show_id
+        AND status = 'CONFIRMED'
+        AND requested = ANY(booking_seat_codes(seat_code))
+    )
+    OR EXISTS (
+        SELECT 1 FROM seat_holds
+        WHERE show_id = p_show_id
+        AND seat_code = requested
+        AND expires_at > NOW()
+        AND holder_id IS DISTINCT FROM p_holder_id
+    );
+
+    IF v_conflicts IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'SEAT_CONFLICT',
+            'error', 'Some seats have already been booked or are held at another counter',
+            'conflicts', v_conflicts
+        );
+    END IF;
+
+    IF p_season_pass_id IS NOT NULL THEN
+        -- Serialise redemptions so two counters cannot spend the same balance
+        PERFORM pg_advisory_xact_lock(hashtext('season_pass:' || p_season_pass_id::text));
+
+        SELECT * INTO v_pass FROM season_passes WHERE id = p_season_pass_id;
+
+        IF NOT FOUND THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'SEASON_PASS_NOT_FOUND',
+                'error', 'Season pass not found'
+            );
+        END IF;
+
+        IF NOT v_pass.active
+        OR v_pass.customer_id IS DISTINCT FROM p_customer_id
+        OR (v_pass.valid_from IS NOT NULL AND v_show.date < v_pass.valid_from)
+        OR (v_pass.valid_until IS NOT NULL AND v_show.date > v_pass.valid_until) THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'SEASON_PASS_INVALID',
+                'error', 'This season pass cannot be used by this customer for this show'
+            );
+        END IF;
+
+        IF season_pass_balance(p_season_pass_id) < array_length(p_seat_codes, 1) THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'SEASON_PASS_BALANCE',
+                'error', 'Not enough admissions left on this season pass',
+                'balance', season_pass_balance(p_season_pass_id)
+            );
+        END IF;
+    END IF;
+
+    -- The group rate applies once a group books at least the show's minimum
+    v_group_rate := p_season_pass_id IS NULL
+        AND v_group_name IS NOT NULL
+        AND v_show.group_discount_percent IS NOT NULL
+        AND array_length(p_seat_codes, 1) >= COALESCE(v_show.group_min_seats, 1);
+
+    -- Price every seat before any promo discount. Season pass seats are
+    -- prepaid, so they carry no price.
+    FOREACH v_seat_code IN ARRAY p_seat_codes
+    LOOP
+        IF p_season_pass_id IS NOT NULL THEN
+            v_price := 0;
+        ELSE
+            v_price := ticket_price(p_show_id, v_seat_code, COALESCE(p_seat_categories->>v_seat_code, 'ADULT'));
+        END IF;
+
+        v_group_share := 0;
+        IF v_group_rate THEN
+            v_group_share := ROUND(v_price * v_show.group_discount_percent / 100, 2);
+            v_group_discount := v_group_discount + v_group_share;
+        END IF;
+
+        v_prices := array_append(v_prices, v_price - v_group_share);
+        v_group_shares := array_append(v_group_shares, v_group_share);
+    END LOOP;
+
+    SELECT COALESCE(SUM(price), 0) INTO v_subtotal FROM unnest(v_prices) AS price;
+
+    IF NULLIF(TRIM(p_promo_code), '') IS NOT NULL THEN
+        -- Serialise bookings using the same code so usage limits hold
+        PERFORM pg_advisory_xact_lock(hashtext('promo:' || UPPER(TRIM(p_promo_code))));
+
+        v_promo := validate_promo_code(p_promo_code, p_show_id, p_customer_id, v_subtotal);
+
+        IF NOT (v_promo->>'success')::BOOLEAN THEN
+            RETURN v_promo;
+        END IF;
+
+        IF p_customer_id IS NULL AND v_promo->>'max_uses_per_customer' IS NOT NULL THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'PROMO_CUSTOMER_REQUIRED',
+                'error', 'Select a customer to use this promo code'
+            );
+        END IF;
+
+        v_promo_code_id := (v_promo->>'promo_code_id')::UUID;
+        v_promo_code := v_promo->>'code';
+        v_discount := (v_promo->>'discount_amount')::DECIMAL(10,2);
+    END IF;
+
+    v_discount_left := v_discount;
+
+    -- Payments have to cover the booking exactly; change for cash is given at
+    -- the counter and not recorded
+    IF p_payments IS NOT NULL THEN
+        SELECT COALESCE(SUM((payment->>'amount')::DECIMAL(10,2)), 0) INTO v_paid
+        FROM jsonb_array_elements(p_payments) AS payment;
+
+        IF v_paid <> v_subtotal - v_discount THEN
+            RETURN json_build_object(
+                'success', false,
+                'error_code', 'PAYMENT_MISMATCH',
+                'error', 'Payments do not add up to the booking total',
+                'total_amount', v_subtotal - v_discount,
+                'paid_amount', v_paid
+            );
+        END IF;
+    END IF;
+
+    -- Ticket numbers are sequential per show date, so serialise shows sharing a date
+    v_date_prefix := 'TKT-' || to_char(v_show.date, 'YYYYMMDD') || '-';
+    PERFORM pg_advisory_xact_lock(hashtext(v_date_prefix));
+
+    SELECT COALESCE(MAX(split_part(ticket_code, '-', 3)::INTEGER), 0) + 1
+    INTO v_seq
+    FROM tickets
+    WHERE ticket_code LIKE v_date_prefix || '%'
+    AND split_part(ticket_code, '-', 3) ~ '^[0-9]+$';
+
+    -- Group bookings get one invoice for the whole block, numbered per day
+    IF v_group_name IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('INV-'));
+
+        SELECT COALESCE(MAX(split_part(invoice_number, '-', 3)::INTEGER), 0) + 1
+        INTO v_invoice_seq
+        FROM bookings
+        WHERE invoice_number LIKE 'INV-' || to_char(NOW(), 'YYYYMMDD') || '-%';
+
+        v_invoice_number := 'INV-' || to_char(NOW(), 'YYYYMMDD') || '-' || lpad(v_invoice_seq::text, 4, '0');
+    END IF;
+
+    -- Create ONE booking for all seats
+    INSERT INTO bookings (
+        show_id, seat_code, booked_by, customer_id, status,
+        promo_code_id, promo_code, discount_amount,
+        group_name, group_discount_amount, invoice_number, season_pass_id
+    )
+    VALUES (
+        p_show_id, array_to_json(p_seat_codes)::text, p_booked_by, p_customer_id, 'CONFIRMED',
+        v_promo_code_id, v_promo_code, v_discount,
+        v_group_name, v_group_discount, v_invoice_number, p_season_pass_id
+    )
+    RETURNING id INTO v_booking_id;
+
+    -- Create tickets for each seat under the same booking
+    FOREACH v_seat_code IN ARRAY p_seat_codes
+    LOOP
+        v_ticket_code := v_date_prefix || lpad(v_seq::text, 4, '0') || '-' || v_seat_code;
+        v_category := COALESCE(p_seat_categories->>v_seat_code, 'ADULT');
+        v_index := v_index + 1;
+
+        -- Spread the discount over the tickets by price; the last ticket takes
+        -- whatever rounding leaves over
+        IF v_index = array_length(p_seat_codes, 1) THEN
+            v_ticket_discount := v_discount_left;
+        ELSIF v_subtotal > 0 THEN
+            v_ticket_discount := ROUND(v_discount * v_prices[v_index] / v_subtotal, 2);
+        ELSE
+            v_ticket_discount := 0;
+        END IF;
+        v_discount_left := v_discount_left - v_ticket_discount;
+
+        v_price := v_prices[v_index] - v_ticket_discount;
+        v_total := v_total + v_price;
+
+        INSERT INTO tickets (
+            booking_id, show_id, seat_code, ticket_code,
+            price, discount_amount, category, season_pass_id, generated_by, status
+        )
+        VALUES (
+            v_booking_id, p_show_id, v_seat_code, v_ticket_code,
+            v_price, v_ticket_discount + v_group_shares[v_index], v_category, p_season_pass_id, COALESCE(p_generated_by, p_booked_by), 'ACTIVE'
+        )
+        RETURNING id INTO v_ticket_id;
+
+        v_tickets := array_append(v_tickets, json_build_object(
+            'id', v_ticket_id,
+            'booking_id', v_booking_id,
+            'seat_code', v_seat_code,
+            'ticket_code', v_ticket_code,
+            'price', v_price,
+            'discount_amount', v_ticket_discount + v_group_shares[v_index],
+            'category', v_category
+        ));
+
+        v_seq := v_seq + 1;
+    END LOOP;
+
+    IF p_payments IS NOT NULL THEN
+        INSERT INTO payments (booking_id, method, amount, reference, collected_by)
+        SELECT
+            v_booking_id,
+            payment->>'method',
+            (payment->>'amount')::DECIMAL(10,2),
+            NULLIF(TRIM(payment->>'reference'), ''),
+            COALESCE(p_generated_by, p_booked_by)
+        FROM jsonb_array_elements(p_payments) AS payment;
+    END IF;
+
+    -- The seats are booked now, so their holds are no longer needed
+    DELETE FROM seat_holds
+    WHERE show_id = p_show_id
+    AND seat_code = ANY(p_seat_codes);
+
+    -- The customer got their seats; an offer that ran out while staff were
+    -- booking it still counts
+    IF p_waitlist_entry_id IS NOT NULL THEN
+        UPDATE waitlist_entries
+        SET status = 'CLAIMED',
+            booking_id = v_booking_id
+        WHERE id = p_waitlist_entry_id
+        AND status IN ('OFFERED', 'EXPIRED');
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', v_booking_id,
+        'tickets', array_to_json(v_tickets),
+        'booking_count', array_length(p_seat_codes, 1),
+        'subtotal_amount', v_subtotal,
+        'discount_amount', v_discount,
+        'promo_code', v_promo_code,
+        'group_discount_amount', v_group_discount,
+        'invoice_number', v_invoice_number,
+        'season_pass_id', p_season_pass_id,
+        'paid_amount', COALESCE(v_paid, 0),
+        'total_amount', v_total
+    );
+END;
+$$;
+
+-- Replace cancel_booking_seats so freed seats go to the waitlist
+CREATE OR REPLACE FUNCTION cancel_booking_seats(
+    p_booking_id UUID,
+    p_seat_codes TEXT[] DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL,
+    p_cancelled_by TEXT DEFAULT 'system'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_booking RECORD;
+    v_show_status TEXT;
+    v_booked TEXT[];
+    v_cancel TEXT[];
+    v_remaining TEXT[];
+    v_invalid TEXT[];
+    v_revoked INTEGER;
+    v_ticket_amount DECIMAL(10,2);
+    v_refund_percent DECIMAL(5,2);
+    v_refund_method TEXT;
+    v_refund_id UUID;
+    v_refund_amount DECIMAL(10,2);
+    v_waitlist_offers INTEGER;
+BEGIN
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Booking not found'
+        );
+    END IF;
+
+    -- Take the same lock as book_seats_atomic so freed seats are never double-booked
+    PERFORM pg_advisory_xact_lock(hashtext(v_booking.show_id::text));
+
+    -- Re-read the booking now that we hold the show lock
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_id
+    FOR UPDATE;
+
+    IF v_booking.status = 'CANCELLED' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Booking is already cancelled'
+        );
+    END IF;
+
+    SELECT status INTO v_show_status
+    FROM shows
+    WHERE id = v_booking.show_id;
+
+    IF v_show_status = 'SHOW_DONE' THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Bookings for a completed show cannot be cancelled'
+        );
+    END IF;
+
+    -- seat_code is stored either as a JSON array or as a comma separated list
+    IF left(v_booking.seat_code, 1) = '[' THEN
+        SELECT array_agg(value) INTO v_booked
+        FROM json_array_elements_text(v_booking.seat_code::json);
+    ELSE
+        SELECT array_agg(trim(seat)) INTO v_booked
+        FROM unnest(string_to_array(v_booking.seat_code, ',')) AS seat;
+    END IF;
+
+    v_cancel := COALESCE(p_seat_codes, v_booked);
+
+    IF array_length(v_cancel, 1) IS NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'No seats selected for cancellation'
+        );
+    END IF;
+
+    SELECT array_agg(seat) INTO v_invalid
+    FROM unnest(v_cancel) AS seat
+    WHERE NOT (seat = ANY(v_booked));
+
+    IF v_invalid IS NOT NULL THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', 'Some seats are not part of this booking',
+            'invalid_seats', v_invalid
+        );
+    END IF;
+
+    SELECT array_agg(seat ORDER BY ord) INTO v_remaining
+    FROM unnest(v_booked) WITH ORDINALITY AS t(seat, ord)
+    WHERE NOT (seat = ANY(v_cancel));
+
+    -- Revoke the tickets for the released seats
+    WITH revoked AS (
+        UPDATE tickets
+        SET status = 'REVOKED', revoked_at = NOW()
+        WHERE booking_id = p_booking_id
+        AND seat_code = ANY(v_cancel)
+        AND status = 'ACTIVE'
+        RETURNING price
+    )
+    SELECT COUNT(*), COALESCE(SUM(price), 0) INTO v_revoked, v_ticket_amount
+    FROM revoked;
+
+    -- Raise a refund for what the released tickets were sold for, at the
+    -- policy rate. Season pass and free tickets have nothing to refund.
+    IF v_ticket_amount > 0 THEN
+        v_refund_percent := refund_policy_percent(v_booking.show_id);
+        v_refund_amount := ROUND(v_ticket_amount * v_refund_percent / 100, 2);
+
+        -- Refund the way most of the booking was paid
+        SELECT method INTO v_refund_method
+        FROM payments
+        WHERE booking_id = p_booking_id
+        ORDER BY amount DESC
+        LIMIT 1;
+
+        INSERT INTO refunds (
+            booking_id, show_id, seat_codes, ticket_amount, policy_percent,
+            amount, method, reason, requested_by
+        )
+        VALUES (
+            p_booking_id, v_booking.show_id, v_cancel, v_ticket_amount, v_refund_percent,
+            v_refund_amount, COALESCE(v_refund_method, 'CASH'), p_reason, p_cancelled_by
+        )
+        RETURNING id INTO v_refund_id;
+    END IF;
+
+    IF v_remaining IS NULL THEN
+        -- Every seat released: cancel the booking itself
+        UPDATE bookings
+        SET status = 'CANCELLED',
+            cancelled_at = NOW(),
+            cancelled_by = p_cancelled_by,
+            cancellation_reason = p_reason
+        WHERE id = p_booking_id;
+    ELSE
+        -- Partial release: keep the booking for the remaining seats
+        UPDATE bookings
+        SET seat_code = array_to_json(v_remaining)::text
+        WHERE id = p_booking_id;
+    END IF;
+
+    -- Freed seats make a full house bookable again
+    UPDATE shows
+    SET status = 'ACTIVE'
+    WHERE id = v_booking.show_id
+    AND status = 'HOUSE_FULL';
+
+    -- Offer the freed seats to anyone waiting for the show
+    v_waitlist_offers := offer_waitlist_seats(v_booking.show_id);
+
+    RETURN json_build_object(
+        'success', true,
+        'booking_id', p_booking_id,
+        'show_id', v_booking.show_id,
+        'cancelled_seats', v_cancel,
+        'remaining_seats', COALESCE(v_remaining, '{}'),
+        'revoked_tickets', v_revoked,
+        'booking_cancelled', v_remaining IS NULL,
+        'refund_id', v_refund_id,
+        'refund_amount', COALESCE(v_refund_amount, 0),
+        'refund_percent', v_refund_percent,
+        'waitlist_offers', v_waitlist_offers
+    );
+END;
+$$;
+
+-- Expire unclaimed offers every minute on the server. Requires pg_cron, like
+-- the show lifecycle in add-show-lifecycle.sql; without it offers expire
+-- when staff open a waitlist.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'expire-waitlist-offers',
+            '* * * * *',
+            $cron$SELECT expire_waitlist_offers()$cron$
+        );
+    ELSE
+        RAISE NOTICE 'pg_cron is not enabled; waitlist offers will only expire when staff open a waitlist';
+    END IF;
+END;
+$$;
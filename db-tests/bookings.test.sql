@@ -0,0 +1,188 @@
+-- Booking seats: a seat can be sold once, a seat held at another counter
+-- can't be sold from here, the box office records are kept under the
+-- signed-in user, every free seat counts for the waitlist, and a booked
+-- show only moves by rescheduling. Runs against the last book_seats_atomic
+-- the migrations define. Run with db-tests/run.sh, after
+-- login-security.test.sql.
+
+\set ON_ERROR_STOP on
+SET client_min_messages = warning;
+
+\ir helpers.sql
+
+-- Test data, made from the SQL editor as the project owner
+SELECT create_user('counter@book.test', 'test-password-1', 'staff', 'Booking Counter');
+UPDATE users SET must_change_password = false WHERE email = 'counter@book.test';
+
+INSERT INTO shows (title, date, time, price, layout_id)
+SELECT 'Booking Test Show', CURRENT_DATE + 7, '19:00', 100, id
+FROM layouts
+WHERE name = 'Main Hall 360°';
+
+CREATE TABLE rls_test.show AS
+SELECT id FROM shows WHERE title = 'Booking Test Show';
+GRANT SELECT ON rls_test.show TO anon, authenticated;
+
+SELECT rls_test.sign_in('counter@book.test');
+SET ROLE authenticated;
+
+\echo 'a seat is sold once'
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM rls_test.show);
+    v_result JSON;
+BEGIN
+    v_result := book_seats_atomic(v_show_id, ARRAY['East-A-1', 'East-A-2'], 'counter@book.test');
+    ASSERT (v_result->>'success')::boolean, 'the first booking failed: ' || v_result::text;
+
+    v_result := book_seats_atomic(v_show_id, ARRAY['East-A-2', 'East-A-3'], 'counter@book.test');
+    ASSERT v_result->>'error_code' = 'SEAT_CONFLICT', 'a booked seat was sold again: ' || v_result::text;
+    ASSERT (v_result->'conflicts')::jsonb = '["East-A-2"]', 'the wrong seats conflict: ' || v_result::text;
+    ASSERT NOT EXISTS (
+        SELECT 1 FROM bookings
+        WHERE show_id = v_show_id AND 'East-A-3' = ANY(booking_seat_codes(seat_code))
+    ), 'a refused booking sold its other seats';
+END;
+$$;
+
+\echo 'a seat held at another counter'
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM rls_test.show);
+    v_result JSON;
+BEGIN
+    ASSERT (hold_seats(v_show_id, ARRAY['East-B-1'], 'counter-2')->>'success')::boolean, 'the seat could not be held';
+
+    v_result := book_seats_atomic(v_show_id, ARRAY['East-B-1'], 'counter@book.test', p_holder_id => 'counter-1');
+    ASSERT v_result->>'error_code' = 'SEAT_CONFLICT', 'a seat held elsewhere was sold: ' || v_result::text;
+
+    v_result := book_seats_atomic(v_show_id, ARRAY['East-B-1'], 'counter@book.test', p_holder_id => 'counter-2');
+    ASSERT (v_result->>'success')::boolean, 'the holding counter can not sell its seat: ' || v_result::text;
+
+    ASSERT (hold_seats(v_show_id, ARRAY['East-B-2'], 'counter-1', p_hold_seconds => 86400)->>'success')::boolean,
+        'the seat could not be held';
+    ASSERT (SELECT expires_at FROM seat_holds WHERE show_id = v_show_id AND seat_code = 'East-B-2')
+        <= NOW() + INTERVAL '10 minutes', 'a seat was held for longer than 10 minutes';
+END;
+$$;
+
+\echo 'a cancelled seat can be sold again'
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM rls_test.show);
+    v_result JSON;
+BEGIN
+    v_result := cancel_booking_seats(
+        (SELECT id FROM bookings WHERE show_id = v_show_id AND 'East-A-2' = ANY(booking_seat_codes(seat_code))),
+        ARRAY['East-A-2'], 'Changed plans'
+    );
+    ASSERT (v_result->>'success')::boolean, 'the seat could not be cancelled: ' || v_result::text;
+
+    v_result := book_seats_atomic(v_show_id, ARRAY['East-A-2'], 'counter@book.test');
+    ASSERT (v_result->>'success')::boolean, 'a cancelled seat can not be sold: ' || v_result::text;
+END;
+$$;
+
+\echo 'who did it comes from the session'
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM rls_test.show);
+    v_booking_id UUID;
+    v_shift_id UUID;
+    v_result JSON;
+BEGIN
+    v_result := book_seats_atomic(
+        v_show_id, ARRAY['East-C-1'], 'A Customer',
+        p_payments => '[{"method": "CASH", "amount": 100}]'
+    );
+    ASSERT (v_result->>'success')::boolean, 'the seat could not be sold: ' || v_result::text;
+    v_booking_id := (v_result->>'booking_id')::UUID;
+    ASSERT (SELECT generated_by FROM tickets WHERE booking_id = v_booking_id) = 'counter@book.test',
+        'the ticket is not under the seller';
+    ASSERT (SELECT collected_by FROM payments WHERE booking_id = v_booking_id) = 'counter@book.test',
+        'the payment is not under the seller';
+
+    v_result := cancel_booking_seats(v_booking_id, NULL, 'Changed plans');
+    ASSERT (SELECT cancelled_by FROM bookings WHERE id = v_booking_id) = 'counter@book.test',
+        'the cancellation is not under the seller';
+
+    v_result := check_in_ticket(
+        (SELECT ticket_code FROM tickets WHERE show_id = v_show_id AND seat_code = 'East-A-1'), v_show_id
+    );
+    ASSERT (v_result->>'success')::boolean, 'the ticket could not be checked in: ' || v_result::text;
+    ASSERT v_result->'ticket'->>'checked_in_by' = 'counter@book.test', 'the check-in is not under the gate';
+
+    PERFORM hold_seats(v_show_id, ARRAY['East-C-2'], 'counter-1');
+    ASSERT (SELECT held_by FROM seat_holds WHERE show_id = v_show_id AND seat_code = 'East-C-2') = 'counter@book.test',
+        'the hold is not under the seller';
+
+    INSERT INTO cash_shifts (staff_email) VALUES ('counter@book.test') RETURNING id INTO v_shift_id;
+    v_result := close_cash_shift(v_shift_id, 0);
+    ASSERT (v_result->>'success')::boolean, 'the shift could not be closed: ' || v_result::text;
+    ASSERT (SELECT closed_by FROM cash_shifts WHERE id = v_shift_id) = 'counter@book.test',
+        'the shift was not closed under its owner';
+END;
+$$;
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', false);
+
+\echo 'seats freed by separate cancellations add up for the waitlist'
+INSERT INTO shows (title, date, time, price, layout_id)
+SELECT 'Waitlist Test Show', CURRENT_DATE + 7, '19:00', 100, id
+FROM layouts
+WHERE name = 'Main Hall 360°';
+
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM shows WHERE title = 'Waitlist Test Show');
+    v_booking_id UUID;
+    v_customer_id UUID;
+    v_entry_id UUID;
+BEGIN
+    v_booking_id := (book_seats_atomic(
+        v_show_id,
+        layout_seat_codes((SELECT structure FROM layouts WHERE name = 'Main Hall 360°')),
+        'Full House'
+    )->>'booking_id')::UUID;
+
+    INSERT INTO customers (name) VALUES ('Party of Three') RETURNING id INTO v_customer_id;
+    INSERT INTO waitlist_entries (show_id, customer_id, party_size)
+    VALUES (v_show_id, v_customer_id, 3)
+    RETURNING id INTO v_entry_id;
+
+    PERFORM cancel_booking_seats(v_booking_id, ARRAY['North-A-1', 'North-A-2'], 'Changed plans');
+    ASSERT (SELECT status FROM waitlist_entries WHERE id = v_entry_id) = 'WAITING',
+        'a party of three was offered two seats';
+
+    PERFORM cancel_booking_seats(v_booking_id, ARRAY['West-C-8'], 'Changed plans');
+    ASSERT (SELECT status FROM waitlist_entries WHERE id = v_entry_id) = 'OFFERED',
+        'three free seats were not offered to a party of three';
+    ASSERT (SELECT offered_seats FROM waitlist_entries WHERE id = v_entry_id) @> ARRAY['North-A-1', 'North-A-2', 'West-C-8'],
+        'the wrong seats were offered';
+END;
+$$;
+
+\echo 'a booked show only moves by rescheduling'
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM shows WHERE title = 'Waitlist Test Show');
+    v_result JSON;
+BEGIN
+    BEGIN
+        UPDATE shows SET time = '20:00' WHERE id = v_show_id;
+        ASSERT false, 'a booked show was moved without rescheduling';
+    EXCEPTION
+        WHEN raise_exception THEN NULL;
+    END;
+
+    UPDATE shows SET price = 120 WHERE id = v_show_id;
+
+    v_result := reschedule_show(v_show_id, CURRENT_DATE + 8, '20:00', 'Moved to a later slot');
+    ASSERT (v_result->>'success')::boolean, 'the booked show could not be rescheduled: ' || v_result::text;
+END;
+$$;
+
+DROP SCHEMA rls_test CASCADE;
+
+\echo 'ok'
@@ -0,0 +1,48 @@
+-- Shared by the test files, which include it with \ir. Each file drops the
+-- rls_test schema when it is done.
+
+CREATE SCHEMA rls_test;
+GRANT USAGE ON SCHEMA rls_test TO anon, authenticated;
+
+-- Starts a session for a user and makes the requests that follow carry it
+CREATE FUNCTION rls_test.sign_in(p_email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_session_id UUID;
+BEGIN
+    SELECT id INTO v_user_id FROM users WHERE email = p_email;
+
+    INSERT INTO user_sessions (user_id, expires_at)
+    VALUES (v_user_id, NOW() + INTERVAL '1 hour')
+    RETURNING id INTO v_session_id;
+
+    PERFORM set_config('request.jwt.claims', json_build_object(
+        'role', 'authenticated',
+        'sub', v_user_id,
+        'session_id', v_session_id
+    )::text, false);
+END;
+$$;
+
+-- Runs a statement and undoes it. Returns the rows it read or changed, or
+-- NULL if the database refused it outright.
+CREATE FUNCTION rls_test.rows(p_sql TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_rows INTEGER;
+BEGIN
+    EXECUTE p_sql;
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    RAISE EXCEPTION USING ERRCODE = 'RLSTR', MESSAGE = v_rows::text;
+EXCEPTION
+    WHEN insufficient_privilege THEN
+        RETURN NULL;
+    WHEN SQLSTATE 'RLSTR' THEN
+        RETURN SQLERRM::INTEGER;
+END;
+$$;
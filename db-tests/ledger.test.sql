@@ -0,0 +1,96 @@
+-- The money ledger: payments and refunds outlive everything else, so a
+-- booking or show that has either can't be deleted, even by the project
+-- owner, and a cash refund comes out of the drawer that paid it. Run with
+-- db-tests/run.sh, after bookings.test.sql.
+
+\set ON_ERROR_STOP on
+SET client_min_messages = warning;
+
+-- Test data, made from the SQL editor as the project owner
+INSERT INTO shows (title, date, time, price, layout_id)
+SELECT title, CURRENT_DATE + 7, '19:00', 100, id
+FROM layouts, (VALUES ('Ledger Refunded Show'), ('Ledger Paid Show'), ('Ledger Empty Show')) AS show_titles (title)
+WHERE name = 'Main Hall 360°';
+
+SELECT book_seats_atomic(
+    (SELECT id FROM shows WHERE title = 'Ledger Refunded Show'), ARRAY['West-A-1', 'West-A-2'], 'ledger@test',
+    p_payments => '[{"method": "CASH", "amount": 200}]'
+);
+SELECT book_seats_atomic(
+    (SELECT id FROM shows WHERE title = 'Ledger Paid Show'), ARRAY['West-A-1'], 'ledger@test',
+    p_payments => '[{"method": "UPI", "amount": 100, "reference": "UPI-1"}]'
+);
+
+\echo 'a show whose bookings were all refunded'
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM shows WHERE title = 'Ledger Refunded Show');
+    v_result JSON;
+BEGIN
+    v_result := cancel_booking_seats((SELECT id FROM bookings WHERE show_id = v_show_id), NULL, 'Changed plans');
+    ASSERT (v_result->>'success')::boolean, 'the booking could not be cancelled: ' || v_result::text;
+    ASSERT (SELECT COUNT(*) FROM refunds WHERE show_id = v_show_id) = 1, 'cancelling raised no refund';
+    ASSERT NOT EXISTS (SELECT 1 FROM bookings WHERE show_id = v_show_id AND status = 'CONFIRMED'),
+        'the show still has a confirmed booking';
+
+    BEGIN
+        DELETE FROM shows WHERE id = v_show_id;
+        ASSERT false, 'a show with refunds was deleted';
+    EXCEPTION
+        WHEN restrict_violation THEN NULL;
+    END;
+
+    BEGIN
+        DELETE FROM refunds WHERE show_id = v_show_id;
+        DELETE FROM bookings WHERE show_id = v_show_id;
+        ASSERT false, 'a booking with payments was deleted';
+    EXCEPTION
+        WHEN restrict_violation THEN NULL;
+    END;
+
+    ASSERT (SELECT COUNT(*) FROM refunds WHERE show_id = v_show_id) = 1, 'the refund is gone';
+    ASSERT (SELECT SUM(amount) FROM payments p JOIN bookings b ON b.id = p.booking_id WHERE b.show_id = v_show_id) = 200,
+        'the payment is gone';
+END;
+$$;
+
+\echo 'a paid booking'
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM shows WHERE title = 'Ledger Paid Show');
+BEGIN
+    BEGIN
+        DELETE FROM shows WHERE id = v_show_id;
+        ASSERT false, 'a show with payments was deleted';
+    EXCEPTION
+        WHEN restrict_violation THEN NULL;
+    END;
+
+    ASSERT EXISTS (SELECT 1 FROM payments WHERE reference = 'UPI-1'), 'the payment is gone';
+END;
+$$;
+
+\echo 'a cash refund comes out of the drawer that paid it'
+INSERT INTO cash_shifts (staff_email, opening_float, opened_at)
+VALUES ('counter@ledger.test', 500, NOW() - INTERVAL '1 hour'), ('admin@ledger.test', 0, NOW() - INTERVAL '1 hour');
+
+UPDATE refunds
+SET status = 'APPROVED', amount = 150, method = 'CASH', reviewed_by = 'admin@ledger.test',
+    reviewed_at = NOW(), paid_by = 'counter@ledger.test'
+WHERE show_id = (SELECT id FROM shows WHERE title = 'Ledger Refunded Show');
+
+DO $$
+BEGIN
+    ASSERT (cash_shift_totals((SELECT id FROM cash_shifts WHERE staff_email = 'counter@ledger.test'))->>'cash_refunds')::DECIMAL = 150,
+        'the paying drawer is not short by the refund';
+    ASSERT (cash_shift_totals((SELECT id FROM cash_shifts WHERE staff_email = 'counter@ledger.test'))->>'expected_cash')::DECIMAL = 350,
+        'the paying drawer expects the wrong cash';
+    ASSERT (cash_shift_totals((SELECT id FROM cash_shifts WHERE staff_email = 'admin@ledger.test'))->>'cash_refunds')::DECIMAL = 0,
+        'the approver''s drawer paid the refund';
+END;
+$$;
+
+\echo 'a show nobody booked'
+DELETE FROM shows WHERE title = 'Ledger Empty Show';
+
+\echo 'ok'
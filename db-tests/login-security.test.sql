@@ -0,0 +1,170 @@
+-- Sign-in lockout, idle sessions and the login history. Run with
+-- db-tests/run.sh, after password-policy.test.sql.
+
+\set ON_ERROR_STOP on
+SET client_min_messages = warning;
+
+\ir helpers.sql
+
+-- Test data, made from the SQL editor as the project owner
+INSERT INTO private.session_settings (jwt_secret) VALUES ('test-jwt-secret-that-is-long-enough')
+ON CONFLICT (id) DO NOTHING;
+UPDATE private.session_settings SET max_failed_logins = 5, idle_minutes = 15;
+
+SELECT create_user('admin@ls.test', 'test-password-1', 'admin', 'Login Admin');
+SELECT create_user('counter@ls.test', 'test-password-1', 'staff', 'Login Counter');
+SELECT create_user('other@ls.test', 'test-password-1', 'staff', 'Login Other');
+
+-- Attempts arrive through the API, with the proxy's headers
+SELECT set_config('request.headers', '{"x-forwarded-for": "203.0.113.7, 10.0.0.1", "user-agent": "Counter 3"}', false);
+
+\echo 'lockout'
+DO $$
+DECLARE
+    v_result JSON;
+BEGIN
+    FOR i IN 1..4 LOOP
+        ASSERT authenticate_user('counter@ls.test', 'wrong-password-1')->>'error_code' = 'INVALID_CREDENTIALS',
+            'wrong passwords lock the account too soon';
+    END LOOP;
+
+    v_result := authenticate_user('counter@ls.test', 'wrong-password-1');
+    ASSERT v_result->>'error_code' = 'ACCOUNT_LOCKED', 'five wrong passwords do not lock the account';
+    ASSERT v_result->>'error' LIKE '%1 minute.', 'the first lock is not a minute: ' || v_result::text;
+
+    ASSERT authenticate_user('counter@ls.test', 'test-password-1')->>'error_code' = 'ACCOUNT_LOCKED',
+        'the right password gets into a locked account';
+    ASSERT authenticate_user('other@ls.test', 'test-password-1')->>'success' = 'true',
+        'locking one account locks others';
+END;
+$$;
+
+-- The first lock runs out
+UPDATE users SET locked_until = NOW() - INTERVAL '1 second' WHERE email = 'counter@ls.test';
+
+DO $$
+DECLARE
+    v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+    ASSERT authenticate_user('counter@ls.test', 'wrong-password-1')->>'error_code' = 'ACCOUNT_LOCKED',
+        'a failure after a lock does not lock again';
+
+    SELECT locked_until INTO v_locked_until FROM users WHERE email = 'counter@ls.test';
+    ASSERT v_locked_until BETWEEN NOW() + INTERVAL '110 seconds' AND NOW() + INTERVAL '130 seconds',
+        'the second lock is not twice as long';
+END;
+$$;
+
+UPDATE users SET locked_until = NOW() - INTERVAL '1 second' WHERE email = 'counter@ls.test';
+
+DO $$
+DECLARE
+    v_result JSON := authenticate_user('counter@ls.test', 'test-password-1');
+BEGIN
+    ASSERT (v_result->>'success')::boolean, 'the right password does not sign in after a lock: ' || v_result::text;
+    ASSERT (v_result->>'idle_minutes')::int = 15, 'the idle timeout is not sent';
+    ASSERT v_result->>'ip_address' = '203.0.113.7', 'the IP address is not sent';
+    ASSERT (SELECT failed_login_count = 0 AND locked_until IS NULL FROM users WHERE email = 'counter@ls.test'),
+        'signing in does not start the count again';
+END;
+$$;
+
+\echo 'a reset unlocks the account'
+UPDATE users SET failed_login_count = 5, locked_until = NOW() + INTERVAL '1 hour' WHERE email = 'counter@ls.test';
+
+DO $$
+BEGIN
+    ASSERT (reset_password_with_token(
+        create_password_reset((SELECT id FROM users WHERE email = 'counter@ls.test'))->>'token',
+        'reset-secret-55'
+    )->>'success')::boolean, 'the reset failed';
+    ASSERT (authenticate_user('counter@ls.test', 'reset-secret-55')->>'success')::boolean,
+        'a reset does not unlock the account';
+END;
+$$;
+
+\echo 'login history'
+DO $$
+DECLARE
+    v_attempt RECORD;
+BEGIN
+    ASSERT authenticate_user('nobody@ls.test', 'test-password-1')->>'error_code' = 'INVALID_CREDENTIALS',
+        'unknown emails sign in';
+    ASSERT EXISTS (SELECT 1 FROM login_attempts WHERE email = 'nobody@ls.test' AND user_id IS NULL AND NOT success),
+        'attempts with unknown emails are not recorded';
+
+    ASSERT (SELECT count(*) FROM login_attempts WHERE email = 'counter@ls.test') = 9,
+        'not every attempt is recorded';
+    ASSERT (SELECT count(*) FROM login_attempts WHERE email = 'counter@ls.test' AND failure_reason = 'LOCKED') = 1,
+        'attempts on a locked account are not recorded as such';
+
+    SELECT * INTO v_attempt FROM login_attempts WHERE email = 'counter@ls.test' ORDER BY created_at DESC LIMIT 1;
+    ASSERT v_attempt.success AND v_attempt.ip_address = '203.0.113.7' AND v_attempt.user_agent = 'Counter 3',
+        'the attempt''s address and browser are not recorded';
+END;
+$$;
+
+SELECT set_config('request.headers', '', false);
+
+SELECT rls_test.sign_in('counter@ls.test');
+SET ROLE authenticated;
+
+DO $$
+BEGIN
+    ASSERT rls_test.rows($q$SELECT * FROM login_attempts WHERE email = 'counter@ls.test'$q$) > 0,
+        'users can not see their own history';
+    ASSERT rls_test.rows($q$SELECT * FROM login_attempts WHERE email <> 'counter@ls.test'$q$) = 0,
+        'users can see other people''s history';
+    ASSERT rls_test.rows('DELETE FROM login_attempts') = 0, 'users can clear their history';
+    ASSERT rls_test.rows($q$UPDATE users SET locked_until = NULL$q$) = 0, 'users can unlock accounts';
+END;
+$$;
+
+RESET ROLE;
+SELECT rls_test.sign_in('admin@ls.test');
+SET ROLE authenticated;
+
+DO $$
+BEGIN
+    ASSERT rls_test.rows($q$SELECT * FROM login_attempts WHERE email = 'counter@ls.test'$q$) > 0,
+        'staff.manage can not see other people''s history';
+    ASSERT rls_test.rows($q$UPDATE users SET failed_login_count = 0, locked_until = NULL
+        WHERE email = 'counter@ls.test'$q$) = 1, 'staff.manage can not unlock accounts';
+END;
+$$;
+
+RESET ROLE;
+
+\echo 'idle sessions'
+SELECT rls_test.sign_in('counter@ls.test');
+SET ROLE authenticated;
+
+DO $$
+DECLARE
+    v_result JSON := keep_session_alive();
+BEGIN
+    ASSERT (v_result->>'success')::boolean, 'active sessions can not be kept alive';
+    ASSERT (v_result->>'idle_minutes')::int = 15, 'the idle timeout is not sent';
+    ASSERT (current_app_user()->>'idle_minutes')::int = 15, 'the idle timeout is not sent with the user';
+END;
+$$;
+
+RESET ROLE;
+UPDATE user_sessions
+SET last_active_at = NOW() - INTERVAL '16 minutes'
+WHERE id = (request_claims()->>'session_id')::uuid;
+SET ROLE authenticated;
+
+DO $$
+BEGIN
+    ASSERT app_user_id() IS NULL, 'idle sessions still work';
+    ASSERT rls_test.rows('SELECT * FROM shows') = 0, 'idle sessions can read shows';
+    ASSERT keep_session_alive()->>'error_code' = 'NO_SESSION', 'idle sessions can be revived';
+END;
+$$;
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', false);
+DROP SCHEMA rls_test CASCADE;
+
+\echo 'ok'
@@ -0,0 +1,163 @@
+-- Password changes, resets and the password policy. Run with
+-- db-tests/run.sh, after permissions.test.sql.
+
+\set ON_ERROR_STOP on
+SET client_min_messages = warning;
+
+\ir helpers.sql
+
+-- Test data, made from the SQL editor as the project owner
+INSERT INTO private.session_settings (jwt_secret) VALUES ('test-jwt-secret-that-is-long-enough')
+ON CONFLICT (id) DO NOTHING;
+
+SELECT create_user('admin@pw.test', 'test-password-1', 'admin', 'Password Admin');
+SELECT create_user('manager@pw.test', 'test-password-1', 'manager', 'Password Manager');
+SELECT save_role('pw-supervisor', 'Password Supervisor', NULL, ARRAY['staff.manage']);
+SELECT create_user('supervisor@pw.test', 'test-password-1', 'pw-supervisor', 'Password Supervisor');
+
+-- Set before the policy existed
+INSERT INTO users (email, password_hash, role, full_name)
+VALUES ('legacy@pw.test', crypt('short', gen_salt('bf', 4)), 'staff', 'Legacy Staff');
+
+\echo 'the policy'
+DO $$
+BEGIN
+    ASSERT create_user('weak@pw.test', 'short-1')->>'error_code' = 'WEAK_PASSWORD', 'short passwords are accepted';
+    ASSERT create_user('weak@pw.test', 'no-numbers-here')->>'error_code' = 'WEAK_PASSWORD',
+        'passwords without numbers are accepted';
+    ASSERT create_user('weak@pw.test', 'weak-password-1')->>'error_code' = 'WEAK_PASSWORD',
+        'passwords containing the email address are accepted';
+    ASSERT NOT (SELECT must_change_password FROM users WHERE email = 'admin@pw.test'),
+        'users added in the SQL editor must change their password';
+END;
+$$;
+
+\echo 'signing in with a password that breaks the policy'
+DO $$
+DECLARE
+    v_result JSON := authenticate_user('legacy@pw.test', 'short');
+BEGIN
+    ASSERT (v_result->>'success')::boolean, 'legacy passwords no longer sign in: ' || v_result::text;
+    ASSERT (v_result->'user'->>'must_change_password')::boolean, 'legacy passwords are not replaced';
+END;
+$$;
+
+\echo 'users added through the app choose their own password'
+SELECT rls_test.sign_in('admin@pw.test');
+SET ROLE authenticated;
+
+DO $$
+BEGIN
+    ASSERT (create_user('new@pw.test', 'test-password-1', 'staff')->>'success')::boolean,
+        'admins can not add users';
+END;
+$$;
+
+RESET ROLE;
+SELECT rls_test.sign_in('new@pw.test');
+SET ROLE authenticated;
+
+DO $$
+DECLARE
+    v_user JSON := current_app_user()->'user';
+BEGIN
+    ASSERT (v_user->>'must_change_password')::boolean, 'new users keep the password they were given';
+    ASSERT rls_test.rows('SELECT * FROM shows') = 0, 'users who must change their password can read shows';
+    ASSERT rls_test.rows($q$INSERT INTO customers (name) VALUES ('Early')$q$) IS NULL,
+        'users who must change their password can add customers';
+
+    ASSERT change_password('wrong-password-1', 'fresh-secret-22')->>'error_code' = 'WRONG_PASSWORD',
+        'the current password is not checked';
+    ASSERT change_password('test-password-1', 'test-password-1')->>'error_code' = 'SAME_PASSWORD',
+        'the password can be kept';
+    ASSERT change_password('test-password-1', 'short-2')->>'error_code' = 'WEAK_PASSWORD',
+        'the new password is not checked against the policy';
+    ASSERT (change_password('test-password-1', 'fresh-secret-22')->>'success')::boolean,
+        'users can not change their password';
+
+    ASSERT NOT (current_app_user()->'user'->>'must_change_password')::boolean,
+        'a changed password still has to be changed';
+    ASSERT app_user_id() IS NOT NULL, 'a changed password does not give access';
+END;
+$$;
+
+RESET ROLE;
+
+DO $$
+BEGIN
+    ASSERT (authenticate_user('new@pw.test', 'fresh-secret-22')->>'success')::boolean,
+        'the new password does not sign in';
+    ASSERT authenticate_user('new@pw.test', 'test-password-1')->>'error_code' = 'INVALID_CREDENTIALS',
+        'the old password still signs in';
+END;
+$$;
+
+\echo 'resets'
+SELECT rls_test.sign_in('manager@pw.test');
+SET ROLE authenticated;
+
+DO $$
+BEGIN
+    ASSERT create_password_reset((SELECT id FROM users WHERE email = 'new@pw.test'))->>'error_code' = 'NOT_ALLOWED',
+        'users without staff.manage can reset passwords';
+END;
+$$;
+
+RESET ROLE;
+SELECT rls_test.sign_in('supervisor@pw.test');
+SET ROLE authenticated;
+
+DO $$
+BEGIN
+    ASSERT create_password_reset((SELECT id FROM users WHERE email = 'admin@pw.test'))->>'error_code' = 'NOT_ALLOWED',
+        'staff.manage can reset an admin''s password';
+END;
+$$;
+
+RESET ROLE;
+
+-- Made with the supervisor's claims, so the reset is theirs
+CREATE TABLE rls_test.reset AS
+SELECT create_password_reset((SELECT id FROM users WHERE email = 'new@pw.test')) AS result;
+GRANT SELECT ON rls_test.reset TO anon;
+
+-- The user follows the link without being signed in
+SELECT rls_test.sign_in('new@pw.test');
+CREATE TABLE rls_test.new_user_session AS
+SELECT (request_claims()->>'session_id')::uuid AS id;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', false);
+SET ROLE anon;
+
+DO $$
+DECLARE
+    v_token TEXT := (SELECT result->>'token' FROM rls_test.reset);
+BEGIN
+    ASSERT v_token IS NOT NULL, 'staff.manage can not reset passwords: ' || (SELECT result::text FROM rls_test.reset);
+    ASSERT reset_password_with_token('not-a-token', 'reset-secret-33')->>'error_code' = 'INVALID_TOKEN',
+        'made-up tokens are accepted';
+    ASSERT reset_password_with_token(v_token, 'short-3')->>'error_code' = 'WEAK_PASSWORD',
+        'resets skip the policy';
+    ASSERT (reset_password_with_token(v_token, 'reset-secret-33')->>'success')::boolean,
+        'the reset link does not work';
+    ASSERT reset_password_with_token(v_token, 'reset-secret-44')->>'error_code' = 'INVALID_TOKEN',
+        'the reset link works twice';
+END;
+$$;
+
+RESET ROLE;
+
+DO $$
+BEGIN
+    ASSERT (SELECT ended_at IS NOT NULL FROM user_sessions WHERE id = (SELECT id FROM rls_test.new_user_session)),
+        'sessions from before the reset still work';
+    ASSERT (authenticate_user('new@pw.test', 'reset-secret-33')->>'success')::boolean,
+        'the reset password does not sign in';
+    ASSERT (SELECT count(*) FROM password_resets WHERE token_hash = (SELECT result->>'token' FROM rls_test.reset)) = 0,
+        'reset tokens are stored as they are';
+END;
+$$;
+
+SELECT set_config('request.jwt.claims', '', false);
+DROP SCHEMA rls_test CASCADE;
+
+\echo 'ok'
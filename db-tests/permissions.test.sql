@@ -0,0 +1,179 @@
+-- Roles and permissions: each role can do what its permissions allow and
+-- nothing more, and only admins can change what a role allows. Run with
+-- db-tests/run.sh, after row-level-security.test.sql.
+
+\set ON_ERROR_STOP on
+SET client_min_messages = warning;
+
+\ir helpers.sql
+
+-- Test data, made from the SQL editor as the project owner
+SELECT create_user('admin@perm.test', 'test-password-1', 'admin', 'Perm Admin');
+SELECT create_user('manager@perm.test', 'test-password-1', 'manager', 'Perm Manager');
+SELECT create_user('gate@perm.test', 'test-password-1', 'gate-checker', 'Perm Gate');
+SELECT create_user('accounts@perm.test', 'test-password-1', 'accountant', 'Perm Accounts');
+SELECT create_user('boxoffice@perm.test', 'test-password-1', 'box-office', 'Perm Box Office');
+
+INSERT INTO shows (title, date, time, price, layout_id)
+SELECT 'Permissions Test Show', CURRENT_DATE + 7, '19:00', 100, id
+FROM layouts
+WHERE name = 'Main Hall 360°';
+
+CREATE TABLE rls_test.show AS
+SELECT id FROM shows WHERE title = 'Permissions Test Show';
+GRANT SELECT ON rls_test.show TO anon, authenticated;
+
+SELECT book_seats_atomic((SELECT id FROM rls_test.show), ARRAY['South-A-1', 'South-A-2'], 'boxoffice@perm.test');
+SELECT book_seats_atomic((SELECT id FROM rls_test.show), ARRAY['South-C-1'], 'boxoffice@perm.test');
+SELECT cancel_booking_seats(
+    (SELECT id FROM bookings
+     WHERE show_id = (SELECT id FROM rls_test.show)
+     AND 'South-C-1' = ANY(booking_seat_codes(seat_code))),
+    NULL, 'Refund to review'
+);
+
+\echo 'the signed-in user carries their permissions'
+SELECT rls_test.sign_in('gate@perm.test');
+
+DO $$
+DECLARE
+    v_user JSON := current_app_user()->'user';
+BEGIN
+    ASSERT v_user->>'role_label' = 'Gate Checker', 'the role label is missing';
+    ASSERT (v_user->'permissions')::jsonb ? 'ticket.checkin', 'gate checkers can not check in';
+    ASSERT NOT (v_user->'permissions')::jsonb ? 'booking.create', 'gate checkers can sell tickets';
+END;
+$$;
+
+\echo 'gate checker'
+SET ROLE authenticated;
+
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM rls_test.show);
+BEGIN
+    ASSERT (check_in_ticket(
+        (SELECT ticket_code FROM tickets WHERE show_id = v_show_id AND seat_code = 'South-A-1'), v_show_id
+    )->>'success')::boolean, 'gate checkers can not check tickets in';
+    ASSERT rls_test.rows('UPDATE tickets SET checked_in_at = NOW()') = 0, 'gate checkers can check in without the gate';
+    ASSERT book_seats_atomic(v_show_id, ARRAY['South-B-1'], 'gate@perm.test')->>'error_code' = 'NOT_ALLOWED',
+        'gate checkers can sell tickets';
+    ASSERT cancel_booking_seats((SELECT id FROM bookings WHERE show_id = v_show_id LIMIT 1))->>'error_code' = 'NOT_ALLOWED',
+        'gate checkers can cancel bookings';
+    ASSERT rls_test.rows($q$INSERT INTO customers (name) VALUES ('Gate Guest')$q$) IS NULL,
+        'gate checkers can add customers';
+    ASSERT rls_test.rows($q$SELECT * FROM activity_logs WHERE performed_by <> 'gate@perm.test'$q$) = 0,
+        'gate checkers can read the activity log';
+END;
+$$;
+
+RESET ROLE;
+
+\echo 'accountant'
+SELECT rls_test.sign_in('accounts@perm.test');
+SET ROLE authenticated;
+
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM rls_test.show);
+BEGIN
+    ASSERT rls_test.rows('SELECT * FROM activity_logs') > 0, 'accountants can not read the activity log';
+    ASSERT check_in_ticket(
+        (SELECT ticket_code FROM tickets WHERE show_id = v_show_id AND seat_code = 'South-A-2'), v_show_id
+    )->>'error_code' = 'NOT_ALLOWED', 'accountants can check tickets in';
+    ASSERT rls_test.rows($q$UPDATE shows SET price = 1$q$) = 0, 'accountants can edit shows';
+    ASSERT rls_test.rows($q$UPDATE refunds SET status = 'APPROVED'$q$) = 0, 'accountants can approve refunds by hand';
+    ASSERT review_refund(
+        (SELECT id FROM refunds WHERE show_id = v_show_id), true, 0, 'CASH', NULL, 'gate@perm.test'
+    )->>'error_code' = 'INVALID_DRAWER', 'a cash refund can come out of anyone''s drawer';
+    ASSERT (review_refund((SELECT id FROM refunds WHERE show_id = v_show_id), true, 0, 'CASH')->>'success')::boolean,
+        'accountants can not approve refunds';
+    ASSERT (SELECT reviewed_by FROM refunds WHERE show_id = v_show_id) = 'accounts@perm.test',
+        'the refund is not under the reviewer';
+    ASSERT review_refund((SELECT id FROM refunds WHERE show_id = v_show_id), false)->>'error_code' = 'ALREADY_REVIEWED',
+        'a refund can be reviewed twice';
+    ASSERT rls_test.rows($q$INSERT INTO promo_codes (code, discount_type, discount_value)
+        VALUES ('ACCT10', 'PERCENT', 10)$q$) IS NULL, 'accountants can add promo codes';
+END;
+$$;
+
+RESET ROLE;
+
+\echo 'manager'
+SELECT rls_test.sign_in('manager@perm.test');
+SET ROLE authenticated;
+
+DO $$
+BEGIN
+    ASSERT rls_test.rows($q$INSERT INTO shows (title, date, time, price, layout_id)
+        SELECT 'Manager Show', CURRENT_DATE + 1, '18:00', 100, layout_id FROM shows LIMIT 1$q$) = 1,
+        'managers can not add shows';
+    ASSERT rls_test.rows($q$UPDATE layouts SET name = name$q$) > 0, 'managers can not edit layouts';
+    ASSERT rls_test.rows($q$UPDATE venues SET name = name$q$) = 0, 'managers can change venues';
+    ASSERT rls_test.rows('SELECT id FROM users') = 1, 'managers can see other users';
+    ASSERT create_user('new@perm.test', 'test-password-1')->>'error_code' = 'NOT_ALLOWED', 'managers can add users';
+    ASSERT save_role('manager', 'Manager', NULL, ARRAY['staff.manage'])->>'error_code' = 'NOT_ALLOWED',
+        'managers can change their own role';
+END;
+$$;
+
+RESET ROLE;
+
+\echo 'admin changes roles'
+SELECT rls_test.sign_in('admin@perm.test');
+SET ROLE authenticated;
+
+DO $$
+BEGIN
+    ASSERT (save_role('supervisor', 'Supervisor', 'Looks after the team', ARRAY['staff.manage', 'ticket.view'])->>'success')::boolean,
+        'admins can not add roles';
+    ASSERT save_role('admin', 'Admin', NULL, ARRAY['ticket.view'])->>'error_code' = 'BUILT_IN_ROLE',
+        'admins can narrow the admin role';
+    ASSERT save_role('Bad Name', 'Bad', NULL, ARRAY[]::TEXT[])->>'error_code' = 'INVALID_NAME',
+        'roles can have any name';
+    ASSERT rls_test.rows($q$DELETE FROM roles WHERE name = 'staff'$q$) = 0, 'admins can remove a built-in role';
+
+    BEGIN
+        DELETE FROM roles WHERE name = 'gate-checker';
+        ASSERT false, 'a role still in use was removed';
+    EXCEPTION
+        WHEN foreign_key_violation THEN NULL;
+    END;
+
+    ASSERT (create_user('supervisor@perm.test', 'test-password-1', 'supervisor')->>'success')::boolean,
+        'admins can not add users with a new role';
+END;
+$$;
+
+RESET ROLE;
+
+-- As if the supervisor had chosen their own password when they first signed in
+UPDATE users SET must_change_password = false WHERE email = 'supervisor@perm.test';
+
+\echo 'staff.manage without being an admin'
+SELECT rls_test.sign_in('supervisor@perm.test');
+SET ROLE authenticated;
+
+DO $$
+BEGIN
+    ASSERT rls_test.rows('SELECT id FROM users') > 1, 'staff.manage can not see users';
+    ASSERT rls_test.rows($q$UPDATE users SET role = 'box-office' WHERE email = 'gate@perm.test'$q$) = 1,
+        'staff.manage can not change roles';
+    ASSERT rls_test.rows($q$UPDATE users SET role = 'admin' WHERE email = 'gate@perm.test'$q$) IS NULL,
+        'staff.manage can make admins';
+    ASSERT rls_test.rows($q$UPDATE users SET active = false WHERE email = 'admin@perm.test'$q$) = 0,
+        'staff.manage can change admins';
+    ASSERT (create_user('new@perm.test', 'test-password-1', 'box-office')->>'success')::boolean,
+        'staff.manage can not add users';
+    ASSERT create_user('admin2@perm.test', 'test-password-1', 'admin')->>'error_code' = 'NOT_ALLOWED',
+        'staff.manage can add admins';
+    ASSERT save_role('supervisor', 'Supervisor', NULL, ARRAY['staff.manage', 'show.edit'])->>'error_code' = 'NOT_ALLOWED',
+        'staff.manage can change roles';
+END;
+$$;
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', false);
+DROP SCHEMA rls_test CASCADE;
+
+\echo 'ok'
@@ -0,0 +1,240 @@
+-- Row level security: what the anon key, staff and admins can do through the
+-- API. Run with db-tests/run.sh, which sets up a scratch database first.
+--
+-- Requests are made the way PostgREST makes them: the token's claims are
+-- put in request.jwt.claims and the statement runs as the token's role.
+
+\set ON_ERROR_STOP on
+SET client_min_messages = warning;
+
+\ir helpers.sql
+
+-- Test data, made from the SQL editor as the project owner
+SELECT create_user('admin@rls.test', 'test-password-1', 'admin', 'Test Admin');
+SELECT create_user('staff@rls.test', 'test-password-1', 'staff', 'Test Staff');
+SELECT create_user('other@rls.test', 'test-password-1', 'staff', 'Other Staff');
+
+INSERT INTO shows (title, date, time, price, layout_id)
+SELECT 'RLS Test Show', CURRENT_DATE + 7, '19:00', 100, id
+FROM layouts
+WHERE name = 'Main Hall 360°';
+
+INSERT INTO cash_shifts (staff_email, staff_name, opening_float)
+VALUES ('other@rls.test', 'Other Staff', 500);
+
+INSERT INTO cash_shifts (staff_email, staff_name, status, closed_at, expected_cash, counted_cash, variance)
+VALUES ('staff@rls.test', 'Test Staff', 'CLOSED', NOW(), 500, 400, -100);
+
+SELECT log_activity('CREATE', 'SHOW', NULL, 'RLS Test Show', NULL, 'admin@rls.test');
+
+CREATE TABLE rls_test.show AS
+SELECT id FROM shows WHERE title = 'RLS Test Show';
+GRANT SELECT ON rls_test.show TO anon, authenticated;
+
+CREATE TABLE rls_test.other_shift AS
+SELECT id FROM cash_shifts WHERE staff_email = 'other@rls.test';
+GRANT SELECT ON rls_test.other_shift TO authenticated;
+
+\echo 'anon key without a session'
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', false);
+SET ROLE anon;
+
+DO $$
+BEGIN
+    ASSERT rls_test.rows('SELECT * FROM shows') = 0, 'anon can read shows';
+    ASSERT rls_test.rows('SELECT * FROM bookings') = 0, 'anon can read bookings';
+    ASSERT rls_test.rows('SELECT * FROM customers') = 0, 'anon can read customers';
+    ASSERT rls_test.rows('SELECT id FROM users') IS NULL, 'anon can read users';
+    ASSERT rls_test.rows('SELECT * FROM activity_logs') = 0, 'anon can read the activity log';
+    ASSERT rls_test.rows($q$INSERT INTO customers (name, phone) VALUES ('Anon', '9000000000')$q$) IS NULL,
+        'anon can add customers';
+    ASSERT rls_test.rows('DELETE FROM shows') = 0, 'anon can delete shows';
+    ASSERT rls_test.rows('SELECT advance_show_lifecycle()') IS NULL, 'anon can move shows on';
+    ASSERT cancel_booking_seats(gen_random_uuid())->>'error_code' = 'NOT_ALLOWED', 'anon can cancel bookings';
+    ASSERT cancel_show((SELECT id FROM rls_test.show), 'Test')->>'error_code' = 'NOT_ALLOWED', 'anon can cancel shows';
+    ASSERT create_user('anon@rls.test', 'test-password-1')->>'error_code' = 'NOT_ALLOWED', 'anon can add users';
+END;
+$$;
+
+RESET ROLE;
+
+\echo 'staff: denied admin-only operations'
+SELECT rls_test.sign_in('staff@rls.test');
+SET ROLE authenticated;
+
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM rls_test.show);
+BEGIN
+    -- Users and the activity log
+    ASSERT rls_test.rows('SELECT id FROM users') = 1, 'staff can see other users';
+    ASSERT rls_test.rows($q$UPDATE users SET role = 'admin'$q$) = 0, 'staff can change users';
+    ASSERT rls_test.rows('DELETE FROM users') = 0, 'staff can remove users';
+    ASSERT rls_test.rows('SELECT password_hash FROM users') IS NULL, 'staff can read password hashes';
+    ASSERT create_user('new@rls.test', 'test-password-1', 'admin')->>'error_code' = 'NOT_ALLOWED', 'staff can add users';
+    ASSERT rls_test.rows('SELECT * FROM activity_logs') = 0, 'staff can read other people''s log entries';
+    ASSERT rls_test.rows('DELETE FROM activity_logs') = 0, 'staff can clear the activity log';
+    ASSERT rls_test.rows($q$INSERT INTO activity_logs (action, entity_type, performed_by)
+        VALUES ('DELETE', 'SHOW', 'admin@rls.test')$q$) IS NULL,
+        'staff can write the activity log as someone else';
+
+    -- Shows, layouts and the rest of the set-up
+    ASSERT rls_test.rows($q$INSERT INTO shows (title, date, time, price, layout_id)
+        SELECT 'Staff Show', CURRENT_DATE + 1, '18:00', 100, layout_id FROM shows LIMIT 1$q$) IS NULL,
+        'staff can add shows';
+    ASSERT rls_test.rows($q$UPDATE shows SET price = 1$q$) = 0, 'staff can edit shows';
+    ASSERT rls_test.rows('DELETE FROM shows') = 0, 'staff can delete shows';
+    ASSERT rls_test.rows($q$INSERT INTO layouts (name, structure) VALUES ('Staff Layout', '{}')$q$) IS NULL,
+        'staff can add layouts';
+    ASSERT rls_test.rows($q$UPDATE layouts SET name = 'Renamed'$q$) = 0, 'staff can edit layouts';
+    ASSERT rls_test.rows('DELETE FROM layouts') = 0, 'staff can delete layouts';
+    ASSERT rls_test.rows($q$UPDATE venues SET name = 'Renamed'$q$) = 0, 'staff can edit venues';
+    ASSERT rls_test.rows($q$INSERT INTO holidays (date, name) VALUES (CURRENT_DATE, 'Staff Day')$q$) IS NULL,
+        'staff can add holidays';
+    ASSERT rls_test.rows($q$INSERT INTO promo_codes (code, discount_type, discount_value)
+        VALUES ('STAFF50', 'PERCENT', 50)$q$) IS NULL, 'staff can add promo codes';
+    ASSERT rls_test.rows('UPDATE show_lifecycle_settings SET done_after_minutes = 0, started_after_minutes = 0') = 0,
+        'staff can change lifecycle settings';
+    ASSERT rls_test.rows($q$UPDATE refund_policy_settings SET rules = '[]'$q$) = 0,
+        'staff can change the refund policy';
+    ASSERT cancel_show(v_show_id, 'Staff test')->>'error_code' = 'NOT_ALLOWED', 'staff can cancel shows';
+    ASSERT reschedule_show(v_show_id, CURRENT_DATE + 8, '19:00', 'Staff test')->>'error_code' = 'NOT_ALLOWED',
+        'staff can reschedule shows';
+
+    -- Money and other people's drawers
+    ASSERT rls_test.rows('DELETE FROM bookings') = 0, 'staff can delete bookings';
+    ASSERT rls_test.rows('DELETE FROM tickets') = 0, 'staff can delete tickets';
+    ASSERT rls_test.rows('UPDATE payments SET amount = amount + 1') = 0, 'staff can change payments';
+    ASSERT rls_test.rows($q$UPDATE refunds SET status = 'APPROVED'$q$) = 0, 'staff can process refunds';
+    ASSERT review_refund(gen_random_uuid(), true)->>'error_code' = 'NOT_ALLOWED', 'staff can review refunds';
+    ASSERT rls_test.rows($q$SELECT * FROM cash_shifts WHERE staff_email <> 'staff@rls.test'$q$) = 0,
+        'staff can see other shifts';
+    ASSERT rls_test.rows($q$UPDATE cash_shifts SET counted_cash = 0 WHERE staff_email <> 'staff@rls.test'$q$) = 0,
+        'staff can change other shifts';
+    ASSERT rls_test.rows($q$INSERT INTO cash_shifts (staff_email) VALUES ('other@rls.test')$q$) IS NULL,
+        'staff can open a shift for someone else';
+    ASSERT close_cash_shift((SELECT id FROM rls_test.other_shift), 0)->>'error_code' = 'NOT_ALLOWED',
+        'staff can close someone else''s shift';
+    ASSERT rls_test.rows($q$UPDATE cash_shifts SET variance = 0, status = 'OPEN'$q$) = 0,
+        'staff can rewrite their own closed shift';
+    ASSERT rls_test.rows($q$INSERT INTO cash_shifts (staff_email, status, counted_cash, variance)
+        VALUES ('staff@rls.test', 'CLOSED', 500, 0)$q$) IS NULL, 'staff can add a shift that is already closed';
+END;
+$$;
+
+\echo 'staff: allowed at the counter'
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM rls_test.show);
+    v_result JSON;
+BEGIN
+    ASSERT rls_test.rows('SELECT * FROM shows') = 1, 'staff can not read shows';
+    ASSERT rls_test.rows('SELECT * FROM layouts') > 0, 'staff can not read layouts';
+    ASSERT rls_test.rows($q$INSERT INTO customers (name, phone) VALUES ('Walk-in', '9000000001')$q$) = 1,
+        'staff can not add customers';
+    INSERT INTO cash_shifts (staff_email) VALUES ('staff@rls.test');
+    v_result := close_cash_shift((SELECT id FROM cash_shifts WHERE status = 'OPEN'), 0);
+    ASSERT (v_result->>'success')::boolean, 'staff can not close their own shift: ' || v_result::text;
+    ASSERT rls_test.rows($q$SELECT log_activity('VIEW', 'SHOW', NULL, NULL, NULL, 'staff@rls.test')$q$) = 1,
+        'staff can not write the activity log';
+    ASSERT (advance_show_lifecycle(false)->>'success')::boolean, 'staff can not move shows on';
+
+    v_result := book_seats_atomic(v_show_id, ARRAY['North-A-1', 'North-A-2'], 'staff@rls.test');
+    ASSERT (v_result->>'success')::boolean, 'staff can not sell tickets: ' || v_result::text;
+END;
+$$;
+
+\echo 'staff: no writing bookings, tickets, payments or refunds directly'
+DO $$
+DECLARE
+    v_show_id UUID := (SELECT id FROM rls_test.show);
+    v_booking_id UUID := (SELECT id FROM bookings WHERE show_id = (SELECT id FROM rls_test.show));
+BEGIN
+    ASSERT rls_test.rows(format($q$INSERT INTO bookings (show_id, seat_code, booked_by)
+        VALUES (%L, 'North-C-1', 'staff@rls.test')$q$, v_show_id)) IS NULL,
+        'staff can book seats without paying for them';
+    ASSERT rls_test.rows($q$UPDATE bookings SET status = 'CANCELLED'$q$) = 0,
+        'staff can cancel bookings without a refund';
+    ASSERT rls_test.rows('UPDATE tickets SET price = 0') = 0, 'staff can change ticket prices';
+    ASSERT rls_test.rows(format($q$INSERT INTO payments (booking_id, method, amount, collected_by)
+        VALUES (%L, 'CASH', 100, 'other@rls.test')$q$, v_booking_id)) IS NULL,
+        'staff can record payments in someone else''s drawer';
+    ASSERT rls_test.rows(format($q$INSERT INTO refunds (
+        booking_id, show_id, seat_codes, ticket_amount, policy_percent, amount, method,
+        status, requested_by, reviewed_by, reviewed_at
+    ) VALUES (
+        %L, %L, ARRAY['North-A-2'], 100, 100, 100, 'CASH',
+        'APPROVED', 'staff@rls.test', 'admin@rls.test', NOW()
+    )$q$, v_booking_id, v_show_id)) IS NULL, 'staff can approve their own refunds';
+    ASSERT rls_test.rows(format(
+        $q$SELECT refund_venue_cancelled_seats(%L, %L, ARRAY['North-A-2'], 100, 'Test', 'staff@rls.test')$q$,
+        v_booking_id, v_show_id
+    )) IS NULL, 'staff can raise a full refund for any booking';
+END;
+$$;
+
+-- A full house reopens when a seat is given back
+RESET ROLE;
+UPDATE shows SET status = 'HOUSE_FULL' WHERE id = (SELECT id FROM rls_test.show);
+SET ROLE authenticated;
+
+DO $$
+DECLARE
+    v_result JSON;
+BEGIN
+    v_result := cancel_booking_seats(
+        (SELECT id FROM bookings WHERE show_id = (SELECT id FROM rls_test.show)),
+        ARRAY['North-A-1'], 'Changed plans'
+    );
+    ASSERT (v_result->>'success')::boolean, 'staff can not cancel tickets: ' || v_result::text;
+    ASSERT (SELECT status FROM shows WHERE id = (SELECT id FROM rls_test.show)) = 'ACTIVE',
+        'cancelling a seat did not reopen the full house';
+END;
+$$;
+
+\echo 'staff: signed out'
+SELECT end_session();
+
+DO $$
+BEGIN
+    ASSERT rls_test.rows('SELECT * FROM shows') = 0, 'an ended session can read shows';
+    ASSERT rls_test.rows($q$INSERT INTO customers (name, phone) VALUES ('Late', '9000000002')$q$) IS NULL,
+        'an ended session can add customers';
+    ASSERT cancel_booking_seats(gen_random_uuid())->>'error_code' = 'NOT_ALLOWED',
+        'an ended session can cancel bookings';
+END;
+$$;
+
+RESET ROLE;
+
+\echo 'admin'
+SELECT rls_test.sign_in('admin@rls.test');
+SET ROLE authenticated;
+
+DO $$
+BEGIN
+    ASSERT rls_test.rows('SELECT id FROM users') = 4, 'admins can not see every user';
+    ASSERT rls_test.rows($q$UPDATE users SET full_name = 'Renamed' WHERE email = 'staff@rls.test'$q$) = 1,
+        'admins can not change users';
+    ASSERT rls_test.rows('SELECT * FROM activity_logs') > 0, 'admins can not read the activity log';
+    ASSERT rls_test.rows('SELECT * FROM cash_shifts') = 3, 'admins can not see every shift';
+    ASSERT rls_test.rows($q$INSERT INTO shows (title, date, time, price, layout_id)
+        SELECT 'Admin Show', CURRENT_DATE + 1, '18:00', 100, layout_id FROM shows LIMIT 1$q$) = 1,
+        'admins can not add shows';
+    ASSERT rls_test.rows($q$UPDATE layouts SET name = name$q$) > 0, 'admins can not edit layouts';
+    ASSERT (book_seats_atomic((SELECT id FROM rls_test.show), ARRAY['North-B-1'], 'admin@rls.test')->>'success')::boolean,
+        'admins can not sell tickets';
+    -- Bookings with refunds or payments are kept whoever asks; see ledger.test.sql
+    ASSERT rls_test.rows($q$DELETE FROM bookings WHERE NOT EXISTS (
+        SELECT 1 FROM refunds WHERE refunds.booking_id = bookings.id
+    )$q$) = 1, 'admins can not delete bookings';
+    ASSERT (cancel_show((SELECT id FROM rls_test.show), 'Admin test')->>'success')::boolean,
+        'admins can not cancel shows';
+END;
+$$;
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', false);
+DROP SCHEMA rls_test CASCADE;
+
+\echo 'ok'
@@ -0,0 +1,77 @@
+#!/usr/bin/env bash
+# Runs the database tests against a local Postgres (14 or later).
+#
+# A scratch database is created (and dropped first if it is left over), set
+# up the way a new Supabase project is, and every migration is run in order
+# before the tests. Connect with the usual PGHOST, PGPORT, PGUSER and
+# PGPASSWORD variables, as a user that can create databases and roles.
+#
+#   npm run test:db
+#   TEST_DATABASE=other_name npm run test:db
+set -euo pipefail
+
+cd "$(dirname "$0")/.."
+
+DATABASE="${TEST_DATABASE:-kalari_test}"
+
+MIGRATIONS=(
+  supabase-schema.sql
+  add-show-status-field.sql
+  add-show-started-status.sql
+  update-ticket-status-constraint.sql
+  add-customers-table.sql
+  add-logs-table.sql
+  add-users-roles-table.sql
+  migration-unlimited-seat-codes.sql
+  add-booking-cancellation.sql
+  add-ticket-checkin.sql
+  update-book-seats-atomic.sql
+  add-seat-holds.sql
+  add-seat-map-realtime.sql
+  add-show-lifecycle.sql
+  add-seat-designer.sql
+  add-pricing-tiers.sql
+  add-ticket-categories.sql
+  add-promo-codes.sql
+  add-group-bookings-season-passes.sql
+  add-payments.sql
+  add-refunds.sql
+  add-cash-shifts.sql
+  add-waitlist.sql
+  add-show-series.sql
+  add-show-rescheduling.sql
+  add-venues.sql
+  add-venue-timezones.sql
+  add-sessions.sql
+  add-row-level-security.sql
+  add-permissions.sql
+  add-password-policy.sql
+  add-login-security.sql
+)
+
+TESTS=(
+  db-tests/row-level-security.test.sql
+  db-tests/permissions.test.sql
+  db-tests/password-policy.test.sql
+  db-tests/login-security.test.sql
+  db-tests/bookings.test.sql
+  db-tests/ledger.test.sql
+)
+
+psql_quiet() {
+  PGOPTIONS='-c client_min_messages=warning' psql -X -q -v ON_ERROR_STOP=1 "$@"
+}
+
+psql_quiet -d postgres -c "DROP DATABASE IF EXISTS \"$DATABASE\"" -c "CREATE DATABASE \"$DATABASE\""
+trap 'psql_quiet -d postgres -c "DROP DATABASE IF EXISTS \"$DATABASE\""' EXIT
+
+psql_quiet -d "$DATABASE" -f db-tests/supabase-setup.sql
+
+for migration in "${MIGRATIONS[@]}"; do
+  psql_quiet -d "$DATABASE" -f "$migration" > /dev/null
+done
+
+for test in "${TESTS[@]}"; do
+  echo "$test"
+  psql -X -q -v ON_ERROR_STOP=1 -d "$DATABASE" -f "$test"
+done
@@ -5,17 +5,25 @@
 -- Step 1: Delete all tickets (this will cascade and clean up related data)
 DELETE FROM tickets;
 
--- Step 2: Delete all bookings (in case there are any orphaned bookings)
+-- Step 2: Delete the payments and refunds recorded for them. Bookings with
+-- either can't be deleted otherwise, so the money ledger is only ever
+-- cleared on purpose.
+DELETE FROM refunds;
+DELETE FROM payments;
+
+-- Step 3: Delete all bookings (in case there are any orphaned bookings)
 DELETE FROM bookings;
 
--- Step 3: Reset any auto-increment sequences (if using serial columns)
+-- Step 4: Reset any auto-increment sequences (if using serial columns)
 -- Note: Since we're using UUIDs, this step is not needed, but included for completeness
 -- ALTER SEQUENCE IF EXISTS tickets_id_seq RESTART WITH 1;
 -- ALTER SEQUENCE IF EXISTS bookings_id_seq RESTART WITH 1;
 
--- Step 4: Verify deletion - these should return 0 rows
+-- Step 5: Verify deletion - these should return 0 rows
 SELECT COUNT(*) as remaining_tickets FROM tickets;
 SELECT COUNT(*) as remaining_bookings FROM bookings;
+SELECT COUNT(*) as remaining_payments FROM payments;
+SELECT COUNT(*) as remaining_refunds FROM refunds;
 
 -- Optional: Show summary of what was deleted
 SELECT 
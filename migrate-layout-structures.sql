@@ -0,0 +1,31 @@
+-- Upgrade stored layout structures to version 2
+-- Version 1 sections stored rows as a count plus seatsPerRow; version 2
+-- stores every row as { rowNumber, seats }. Seat codes are unchanged, so
+-- existing bookings keep pointing at the same seats.
+
+UPDATE layouts
+SET structure = jsonb_build_object(
+    'version', 2,
+    'sections', COALESCE((
+        SELECT jsonb_agg(
+            CASE
+                WHEN jsonb_typeof(section->'rows') = 'array' THEN
+                    jsonb_build_object('name', section->'name', 'rows', section->'rows')
+                ELSE
+                    jsonb_build_object(
+                        'name', section->'name',
+                        'rows', COALESCE((
+                            SELECT jsonb_agg(jsonb_build_object(
+                                'rowNumber', row_number,
+                                'seats', COALESCE((section->>'seatsPerRow')::INTEGER, 0)
+                            ) ORDER BY row_number)
+                            FROM generate_series(1, COALESCE((section->>'rows')::INTEGER, 0)) AS row_number
+                        ), '[]'::jsonb)
+                    )
+            END
+            ORDER BY ordinality
+        )
+        FROM jsonb_array_elements(structure->'sections') WITH ORDINALITY AS sections(section, ordinality)
+    ), '[]'::jsonb)
+)
+WHERE COALESCE((structure->>'version')::INTEGER, 1) < 2;
@@ -2,9 +2,12 @@ import React from 'react'
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
 import { DashboardProvider } from './contexts/DashboardContext'
+import { VenueProvider } from './contexts/VenueContext'
 import Layout from './components/Layout'
-import RoleProtectedRoute from './components/RoleProtectedRoute'
+import PermissionProtectedRoute from './components/PermissionProtectedRoute'
 import Login from './pages/Login'
+import ChangePassword from './pages/ChangePassword'
+import ResetPassword from './pages/ResetPassword'
 import Dashboard from './pages/Dashboard'
 import Shows from './pages/Shows'
 import Layouts from './pages/Layouts'
@@ -17,6 +20,11 @@ import Customers from './pages/Customers'
 import CustomerDetail from './pages/CustomerDetail'
 import CustomerReports from './pages/CustomerReports'
 import StaffManagement from './pages/StaffManagement'
+import CheckIn from './pages/CheckIn'
+import PromoCodes from './pages/PromoCodes'
+import Refunds from './pages/Refunds'
+import MyShift from './pages/MyShift'
+import CashShifts from './pages/CashShifts'
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, loading } = useAuth()
@@ -29,7 +37,16 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     )
   }
 
-  return user ? <>{children}</> : <Navigate to="/login" />
+  if (!user) {
+    return <Navigate to="/login" />
+  }
+
+  // Nothing else works until the user has a password of their own
+  if (user.must_change_password) {
+    return <ChangePassword />
+  }
+
+  return <>{children}</>
 }
 
 const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -49,86 +66,158 @@ const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 function App() {
   return (
     <AuthProvider>
-      <DashboardProvider>
-        <Router>
-          <Routes>
-            <Route
-              path="/login"
-              element={
-                <PublicRoute>
-                  <Login />
-                </PublicRoute>
-              }
-            />
-            <Route
-              path="/"
-              element={
-                <ProtectedRoute>
-                  <Layout />
-                </ProtectedRoute>
-              }
-            >
-              {/* Admin-only routes */}
-              <Route 
-                index 
+      <VenueProvider>
+        <DashboardProvider>
+          <Router>
+            <Routes>
+              <Route
+                path="/login"
                 element={
-                  <RoleProtectedRoute allowedRoles={['admin']} fallbackPath="/shows">
-                    <Dashboard />
-                  </RoleProtectedRoute>
-                } 
+                  <PublicRoute>
+                    <Login />
+                  </PublicRoute>
+                }
               />
-              <Route 
-                path="layouts" 
+              <Route path="/reset-password" element={<ResetPassword />} />
+              <Route
+                path="/"
                 element={
-                  <RoleProtectedRoute allowedRoles={['admin']} fallbackPath="/shows">
-                    <Layouts />
-                  </RoleProtectedRoute>
-                } 
-              />
-              <Route 
-                path="customer-reports" 
-                element={
-                  <RoleProtectedRoute allowedRoles={['admin']} fallbackPath="/shows">
-                    <CustomerReports />
-                  </RoleProtectedRoute>
-                } 
-              />
-              <Route 
-                path="reports" 
-                element={
-                  <RoleProtectedRoute allowedRoles={['admin']} fallbackPath="/shows">
-                    <Reports />
-                  </RoleProtectedRoute>
-                } 
-              />
-              <Route 
-                path="analytics" 
-                element={
-                  <RoleProtectedRoute allowedRoles={['admin']} fallbackPath="/shows">
-                    <Analytics />
-                  </RoleProtectedRoute>
-                } 
-              />
-              <Route 
-                path="staff" 
-                element={
-                  <RoleProtectedRoute allowedRoles={['admin']} fallbackPath="/shows">
-                    <StaffManagement />
-                  </RoleProtectedRoute>
-                } 
-              />
-              
-              {/* Routes accessible by both admin and staff */}
-              <Route path="shows" element={<Shows />} />
-              <Route path="booking" element={<Booking />} />
-              <Route path="tickets" element={<Tickets />} />
-              <Route path="customers" element={<Customers />} />
-              <Route path="customers/:customerId" element={<CustomerDetail />} />
-              <Route path="settings" element={<Settings />} />
-            </Route>
-          </Routes>
-        </Router>
-      </DashboardProvider>
+                  <ProtectedRoute>
+                    <Layout />
+                  </ProtectedRoute>
+                }
+              >
+                {/* Routes that need a permission */}
+                <Route 
+                  index 
+                  element={
+                    <PermissionProtectedRoute permission="report.view">
+                      <Dashboard />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="layouts" 
+                  element={
+                    <PermissionProtectedRoute permission="layout.edit">
+                      <Layouts />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="customer-reports" 
+                  element={
+                    <PermissionProtectedRoute permission="report.view">
+                      <CustomerReports />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="reports" 
+                  element={
+                    <PermissionProtectedRoute permission="report.view">
+                      <Reports />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="analytics" 
+                  element={
+                    <PermissionProtectedRoute permission="report.view">
+                      <Analytics />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="staff" 
+                  element={
+                    <PermissionProtectedRoute permission="staff.manage">
+                      <StaffManagement />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="promo-codes" 
+                  element={
+                    <PermissionProtectedRoute permission="promo.edit">
+                      <PromoCodes />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="refunds" 
+                  element={
+                    <PermissionProtectedRoute permission="refund.approve">
+                      <Refunds />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="cash-shifts" 
+                  element={
+                    <PermissionProtectedRoute permission="cash.manage">
+                      <CashShifts />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                
+                <Route 
+                  path="booking" 
+                  element={
+                    <PermissionProtectedRoute permission="booking.create">
+                      <Booking />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="tickets" 
+                  element={
+                    <PermissionProtectedRoute permission="ticket.view">
+                      <Tickets />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="check-in" 
+                  element={
+                    <PermissionProtectedRoute permission="ticket.checkin">
+                      <CheckIn />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="shift" 
+                  element={
+                    <PermissionProtectedRoute permission="cash.shift">
+                      <MyShift />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="customers" 
+                  element={
+                    <PermissionProtectedRoute permission="customer.view">
+                      <Customers />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="customers/:customerId" 
+                  element={
+                    <PermissionProtectedRoute permission="customer.view">
+                      <CustomerDetail />
+                    </PermissionProtectedRoute>
+                  } 
+                />
+                
+                {/* Routes open to everyone signed in */}
+                <Route path="shows" element={<Shows />} />
+                <Route path="settings" element={<Settings />} />
+              </Route>
+            </Routes>
+          </Router>
+        </DashboardProvider>
+      </VenueProvider>
     </AuthProvider>
   )
 }
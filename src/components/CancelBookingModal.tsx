@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useAuth } from '../contexts/AuthContext'
+import { useDarkMode } from '../hooks/useDarkMode'
+import { cancelBooking, CancelBookingResult } from '../utils/bookingCancellation'
+import { RefundPolicyRule, fetchRefundPolicy, describeRefundPolicy } from '../utils/refunds'
+
+interface CancelBookingModalProps {
+  bookingId: string
+  showTitle: string
+  seatCodes: string[] // Seats that can still be released
+  onClose: () => void
+  onCancelled: (result: CancelBookingResult) => void
+}
+
+const CancelBookingModal: React.FC<CancelBookingModalProps> = ({
+  bookingId,
+  showTitle,
+  seatCodes,
+  onClose,
+  onCancelled
+}) => {
+  const { user } = useAuth()
+  const darkMode = useDarkMode()
+  const [selectedSeats, setSelectedSeats] = useState<string[]>(seatCodes)
+  const [reason, setReason] = useState('')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [refundPolicy, setRefundPolicy] = useState<RefundPolicyRule[] | null>(null)
+
+  useEffect(() => {
+    fetchRefundPolicy()
+      .then(setRefundPolicy)
+      .catch(error => console.error('Error fetching refund policy:', error))
+  }, [])
+
+  const cancelsWholeBooking = selectedSeats.length === seatCodes.length
+
+  const toggleSeat = (seatCode: string) => {
+    setSelectedSeats(prev =>
+      prev.includes(seatCode)
+        ? prev.filter(code => code !== seatCode)
+        : [...prev, seatCode]
+    )
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (selectedSeats.length === 0) {
+      setError('Select at least one seat to cancel')
+      return
+    }
+
+    if (!reason.trim()) {
+      setError('Please enter a reason for the cancellation')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const result = await cancelBooking({
+        bookingId,
+        showTitle,
+        seatCodes: cancelsWholeBooking ? undefined : selectedSeats,
+        reason: reason.trim(),
+        performedBy: user?.email || 'unknown'
+      })
+      onCancelled(result)
+    } catch (error: any) {
+      setError(error.message || 'Failed to cancel booking')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-hidden">
+      <div className={`max-w-md w-full max-h-[90vh] overflow-y-auto rounded-2xl shadow-xl transition-colors duration-200 ${darkMode ? 'bg-slate-900 border border-slate-700' : 'bg-white'}`}>
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h3 className={`text-lg font-semibold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                Cancel Booking
+              </h3>
+              <p className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                {showTitle} · {bookingId.slice(0, 8)}...
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-slate-400 hover:text-slate-300 hover:bg-slate-800' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-100'}`}
+            >
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {/* Seat Selection */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className={`block text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                  Seats to release
+                </label>
+                <button
+                  type="button"
+                  onClick={() => setSelectedSeats(cancelsWholeBooking ? [] : seatCodes)}
+                  className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                >
+                  {cancelsWholeBooking ? 'Clear all' : 'Select all'}
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {seatCodes.map(seatCode => (
+                  <button
+                    key={seatCode}
+                    type="button"
+                    onClick={() => toggleSeat(seatCode)}
+                    className={`px-3 py-1 rounded-lg border text-sm font-medium transition-colors duration-200 ${
+                      selectedSeats.includes(seatCode)
+                        ? 'bg-red-100 border-red-400 text-red-700'
+                        : darkMode
+                          ? 'bg-slate-800 border-slate-600 text-slate-300'
+                          : 'bg-slate-50 border-slate-300 text-slate-700'
+                    }`}
+                  >
+                    {seatCode}
+                  </button>
+                ))}
+              </div>
+              <p className={`mt-2 text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                {cancelsWholeBooking
+                  ? 'The whole booking will be cancelled and all tickets revoked.'
+                  : `${selectedSeats.length} of ${seatCodes.length} seat(s) will be released. The rest of the booking stays confirmed.`}
+              </p>
+            </div>
+
+            {/* Reason */}
+            <div>
+              <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                Reason
+              </label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                required
+                placeholder="Why is this booking being cancelled?"
+                className={`w-full px-4 py-2 rounded-lg border transition-colors duration-200 ${
+                  darkMode
+                    ? 'bg-slate-800 border-slate-600 text-slate-100 focus:border-slate-500'
+                    : 'bg-white border-slate-300 text-slate-900 focus:border-slate-400'
+                } focus:outline-none focus:ring-2 focus:ring-primary-500/20`}
+              />
+            </div>
+
+            {refundPolicy && (
+              <p className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                A refund is raised for admin approval under the refund policy: {describeRefundPolicy(refundPolicy)}.
+              </p>
+            )}
+
+            {error && (
+              <div className="text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className={`flex-1 px-4 py-2 rounded-xl font-medium transition-colors duration-200 ${darkMode ? 'bg-slate-800 text-slate-300 border border-slate-700 hover:bg-slate-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+              >
+                Keep Booking
+              </button>
+              <button
+                type="submit"
+                disabled={submitting || selectedSeats.length === 0}
+                className={`flex-1 px-4 py-2 rounded-xl font-medium transition-colors duration-200 bg-red-600 text-white hover:bg-red-700 ${submitting || selectedSeats.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {submitting ? 'Cancelling...' : cancelsWholeBooking ? 'Cancel Booking' : 'Release Seats'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CancelBookingModal
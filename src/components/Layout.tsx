@@ -1,6 +1,10 @@
 import React from 'react'
 import { Outlet, Link, useLocation } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import { useVenue } from '../contexts/VenueContext'
+import { Permission } from '../lib/supabase'
+import { PASSWORD_POLICY_HINT, passwordPolicyError } from '../utils/passwords'
+import VenueSelect from './VenueSelect'
 import {
   HomeIcon,
   FilmIcon,
@@ -20,11 +24,17 @@ import {
   ChevronRightIcon,
   KeyIcon,
   UserIcon,
-  UsersIcon
+  UsersIcon,
+  QrCodeIcon,
+  TagIcon,
+  ReceiptRefundIcon,
+  BanknotesIcon,
+  CalculatorIcon
 } from '@heroicons/react/24/outline'
 
 const Layout: React.FC = () => {
-  const { user, signOut } = useAuth()
+  const { user, signOut, changePassword, can } = useAuth()
+  const { venueId, setVenueId } = useVenue()
   const location = useLocation()
   const [sidebarOpen, setSidebarOpen] = React.useState(false)
   const [signingOut, setSigningOut] = React.useState(false)
@@ -110,22 +120,16 @@ const Layout: React.FC = () => {
       return
     }
     
-    if (passwordForm.newPassword.length < 6) {
-      setPasswordError('New password must be at least 6 characters')
+    const policyError = passwordPolicyError(passwordForm.newPassword, user?.email || '')
+    if (policyError) {
+      setPasswordError(policyError)
       return
     }
     
     try {
       setPasswordLoading(true)
       
-      // Import supabase client
-      const { supabase } = await import('../lib/supabase')
-      
-      const { error } = await supabase.auth.updateUser({
-        password: passwordForm.newPassword
-      })
-      
-      if (error) throw error
+      await changePassword(passwordForm.currentPassword, passwordForm.newPassword)
       
       // Success
       setShowPasswordModal(false)
@@ -139,29 +143,27 @@ const Layout: React.FC = () => {
     }
   }
 
-  // Navigation items based on user role
+  // Navigation items the user's permissions allow
   const getNavigation = () => {
-    const baseNavigation = [
+    const allNavigation: { name: string; href: string; icon: typeof HomeIcon; permission?: Permission }[] = [
+      { name: 'Dashboard', href: '/', icon: HomeIcon, permission: 'report.view' },
       { name: 'Shows', href: '/shows', icon: FilmIcon },
-      { name: 'Book Seats', href: '/booking', icon: TicketIcon },
-      { name: 'Customers', href: '/customers', icon: UserIcon },
-      { name: 'Ticket History', href: '/tickets', icon: TicketIcon },
+      { name: 'Book Seats', href: '/booking', icon: TicketIcon, permission: 'booking.create' },
+      { name: 'Customers', href: '/customers', icon: UserIcon, permission: 'customer.view' },
+      { name: 'Ticket History', href: '/tickets', icon: TicketIcon, permission: 'ticket.view' },
+      { name: 'Check-in', href: '/check-in', icon: QrCodeIcon, permission: 'ticket.checkin' },
+      { name: 'My Shift', href: '/shift', icon: BanknotesIcon, permission: 'cash.shift' },
+      { name: 'Layouts', href: '/layouts', icon: Squares2X2Icon, permission: 'layout.edit' },
+      { name: 'Promo Codes', href: '/promo-codes', icon: TagIcon, permission: 'promo.edit' },
+      { name: 'Refunds', href: '/refunds', icon: ReceiptRefundIcon, permission: 'refund.approve' },
+      { name: 'Cash Shifts', href: '/cash-shifts', icon: CalculatorIcon, permission: 'cash.manage' },
+      { name: 'Customer Reports', href: '/customer-reports', icon: DocumentTextIcon, permission: 'report.view' },
+      { name: 'Reports', href: '/reports', icon: ChartBarIcon, permission: 'report.view' },
+      { name: 'Analytics', href: '/analytics', icon: PresentationChartLineIcon, permission: 'report.view' },
+      { name: 'Staff Management', href: '/staff', icon: UsersIcon, permission: 'staff.manage' },
     ]
 
-    if (user?.role === 'admin') {
-      return [
-        { name: 'Dashboard', href: '/', icon: HomeIcon },
-        ...baseNavigation,
-        { name: 'Layouts', href: '/layouts', icon: Squares2X2Icon },
-        { name: 'Customer Reports', href: '/customer-reports', icon: DocumentTextIcon },
-        { name: 'Reports', href: '/reports', icon: ChartBarIcon },
-        { name: 'Analytics', href: '/analytics', icon: PresentationChartLineIcon },
-        { name: 'Staff Management', href: '/staff', icon: UsersIcon },
-      ]
-    } else {
-      // Staff role - limited access
-      return baseNavigation
-    }
+    return allNavigation.filter(item => !item.permission || can(item.permission))
   }
 
   const navigation = getNavigation()
@@ -232,7 +234,7 @@ const Layout: React.FC = () => {
                   </div>
                   <div className="min-w-0 flex-1">
                     <div className={`text-base font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
-                      {user?.role === 'admin' ? 'Admin' : 'Staff'}
+                      {user?.role_label || user?.role}
                     </div>
                     <div className={`text-sm truncate transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
                       {user?.email}
@@ -358,7 +360,7 @@ const Layout: React.FC = () => {
               <div className="flex items-center space-x-3">
                 <div className="min-w-0 flex-1">
                   <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
-                    {user?.role === 'admin' ? 'Admin' : 'Staff'}
+                    {user?.role_label || user?.role}
                   </div>
                   <div className={`text-xs truncate transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
                     {user?.email}
@@ -422,6 +424,12 @@ const Layout: React.FC = () => {
 
             {/* Right - Actions */}
             <div className="flex items-center space-x-2 flex-shrink-0">
+              {/* Venue switcher - pages start out showing this venue */}
+              <VenueSelect
+                value={venueId}
+                onChange={setVenueId}
+                className={`max-w-[10rem] sm:max-w-none px-3 py-2 rounded-xl border text-sm transition-colors duration-200 ${darkMode ? 'bg-slate-800 border-slate-700 text-slate-100' : 'bg-white border-slate-200 text-slate-900'}`}
+              />
               <div className="relative">
                 <button
                   onClick={() => setShowNotifications(!showNotifications)}
@@ -610,6 +618,21 @@ const Layout: React.FC = () => {
             </div>
 
             <form onSubmit={handlePasswordChange} className="space-y-4">
+              <div>
+                <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                  Current Password
+                </label>
+                <input
+                  type="password"
+                  value={passwordForm.currentPassword}
+                  onChange={(e) => setPasswordForm({ ...passwordForm, currentPassword: e.target.value })}
+                  required
+                  autoComplete="current-password"
+                  className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-slate-800 border-slate-700 text-white placeholder-slate-400' : 'bg-white border-slate-300 text-slate-900'}`}
+                  placeholder="Enter current password"
+                />
+              </div>
+
               <div>
                 <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
                   New Password
@@ -619,10 +642,11 @@ const Layout: React.FC = () => {
                   value={passwordForm.newPassword}
                   onChange={(e) => setPasswordForm({ ...passwordForm, newPassword: e.target.value })}
                   required
-                  minLength={6}
+                  autoComplete="new-password"
                   className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-slate-800 border-slate-700 text-white placeholder-slate-400' : 'bg-white border-slate-300 text-slate-900'}`}
                   placeholder="Enter new password"
                 />
+                <p className={`mt-1 text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{PASSWORD_POLICY_HINT}</p>
               </div>
 
               <div>
@@ -634,7 +658,7 @@ const Layout: React.FC = () => {
                   value={passwordForm.confirmPassword}
                   onChange={(e) => setPasswordForm({ ...passwordForm, confirmPassword: e.target.value })}
                   required
-                  minLength={6}
+                  autoComplete="new-password"
                   className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-slate-800 border-slate-700 text-white placeholder-slate-400' : 'bg-white border-slate-300 text-slate-900'}`}
                   placeholder="Confirm new password"
                 />
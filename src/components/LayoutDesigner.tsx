@@ -0,0 +1,464 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { EyeIcon, PencilSquareIcon, TrashIcon, ArrowPathIcon } from '@heroicons/react/24/outline'
+import { Layout, LayoutFeature, LayoutFeatureType, LayoutStructure, SeatPosition } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { useDarkMode } from '../hooks/useDarkMode'
+import { parseLayoutStructure, validateLayoutStructure, getRowLetter } from '../utils/layoutStructure'
+import {
+  SEAT_SIZE,
+  SeatPositions,
+  generateDefaultLayout,
+  resolveSeatPositions,
+  arrangeRowInArc,
+  findSeatPlacementErrors,
+  fetchSeatPositions,
+  saveLayoutDesign
+} from '../utils/seatPositions'
+import { SeatPrices, fetchSeatPrices } from '../utils/seatPricing'
+import SeatCanvas, { FeatureBox, getSeatName } from './SeatCanvas'
+
+const GRID_SIZE = 10
+
+type DesignerMode = 'seat' | 'section' | 'AISLE' | 'BLOCKED'
+
+type DragState =
+  | { kind: 'seats'; start: SeatPosition; origins: SeatPositions }
+  | { kind: 'feature'; start: SeatPosition; featureId: string; origin: SeatPosition }
+  | { kind: 'draw'; start: SeatPosition; type: LayoutFeatureType }
+
+const MODES: { id: DesignerMode; name: string }[] = [
+  { id: 'seat', name: 'Move seats' },
+  { id: 'section', name: 'Move sections' },
+  { id: 'AISLE', name: 'Draw aisle' },
+  { id: 'BLOCKED', name: 'Draw blocked area' }
+]
+
+const snap = (value: number) => Math.round(value / GRID_SIZE) * GRID_SIZE
+
+interface LayoutDesignerProps {
+  layout: Layout
+  onClose: () => void
+  onSaved: () => void
+}
+
+const LayoutDesigner: React.FC<LayoutDesignerProps> = ({ layout, onClose, onSaved }) => {
+  const { user } = useAuth()
+  const darkMode = useDarkMode()
+  const [structure, setStructure] = useState<LayoutStructure>(() => {
+    const parsed = parseLayoutStructure(layout.structure)
+    return parsed.canvas ? parsed : { ...parsed, canvas: generateDefaultLayout(parsed).canvas }
+  })
+  const [positions, setPositions] = useState<SeatPositions>({})
+  const [seatPrices, setSeatPrices] = useState<SeatPrices>({})
+  const [mode, setMode] = useState<DesignerMode>('seat')
+  const [selectedSeat, setSelectedSeat] = useState<string | null>(null)
+  const [selectedFeatureId, setSelectedFeatureId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<LayoutFeature | null>(null)
+  const [rowCurve, setRowCurve] = useState(40)
+  const [preview, setPreview] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const canvasRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+
+  useEffect(() => {
+    const loadPositions = async () => {
+      try {
+        const saved = await fetchSeatPositions(layout.id)
+        setSeatPrices(await fetchSeatPrices(layout.id))
+        const parsed = parseLayoutStructure(layout.structure)
+        // A layout that has never been designed starts from the default arrangement
+        setPositions(parsed.canvas ? saved : generateDefaultLayout(parsed).positions)
+      } catch (error) {
+        console.error('Error fetching seat positions:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadPositions()
+  }, [layout])
+
+  const canvas = structure.canvas!
+  const seats = resolveSeatPositions(structure, positions)
+  const selected = seats.find(seat => seat.code === selectedSeat)
+  const selectedFeature = canvas.features.find(feature => feature.id === selectedFeatureId)
+
+  const updateCanvas = (changes: Partial<typeof canvas>) => {
+    setStructure({ ...structure, canvas: { ...canvas, ...changes } })
+  }
+
+  const updateFeature = (featureId: string, changes: Partial<LayoutFeature>) => {
+    updateCanvas({
+      features: canvas.features.map(feature => feature.id === featureId ? { ...feature, ...changes } : feature)
+    })
+  }
+
+  const getPointer = (e: React.PointerEvent): SeatPosition => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  const handleSeatPointerDown = (e: React.PointerEvent, seatCode: string) => {
+    e.stopPropagation()
+    setSelectedSeat(seatCode)
+    setSelectedFeatureId(null)
+
+    const seat = seats.find(s => s.code === seatCode)
+    if (!seat) return
+
+    // In section mode every seat in the section moves together
+    const moving = mode === 'section' ? seats.filter(s => s.section === seat.section) : [seat]
+    const origins: SeatPositions = {}
+    moving.forEach(s => {
+      origins[s.code] = s.position
+    })
+
+    dragRef.current = { kind: 'seats', start: getPointer(e), origins }
+    canvasRef.current?.setPointerCapture(e.pointerId)
+  }
+
+  const handleFeaturePointerDown = (e: React.PointerEvent, feature: LayoutFeature) => {
+    e.stopPropagation()
+    setSelectedFeatureId(feature.id)
+    setSelectedSeat(null)
+    dragRef.current = { kind: 'feature', start: getPointer(e), featureId: feature.id, origin: { x: feature.x, y: feature.y } }
+    canvasRef.current?.setPointerCapture(e.pointerId)
+  }
+
+  const handleCanvasPointerDown = (e: React.PointerEvent) => {
+    setSelectedSeat(null)
+    setSelectedFeatureId(null)
+
+    if (mode === 'AISLE' || mode === 'BLOCKED') {
+      dragRef.current = { kind: 'draw', start: getPointer(e), type: mode }
+      canvasRef.current?.setPointerCapture(e.pointerId)
+    }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+
+    const pointer = getPointer(e)
+    const dx = snap(pointer.x - drag.start.x)
+    const dy = snap(pointer.y - drag.start.y)
+
+    if (drag.kind === 'seats') {
+      const moved: SeatPositions = {}
+      Object.entries(drag.origins).forEach(([code, origin]) => {
+        moved[code] = { x: origin.x + dx, y: origin.y + dy }
+      })
+      setPositions(prev => ({ ...prev, ...moved }))
+    } else if (drag.kind === 'feature') {
+      updateFeature(drag.featureId, { x: drag.origin.x + dx, y: drag.origin.y + dy })
+    } else {
+      const x = snap(Math.min(drag.start.x, pointer.x))
+      const y = snap(Math.min(drag.start.y, pointer.y))
+      setDraft({
+        id: 'draft',
+        type: drag.type,
+        label: drag.type === 'AISLE' ? 'Aisle' : 'Blocked',
+        x,
+        y,
+        width: snap(Math.abs(pointer.x - drag.start.x)),
+        height: snap(Math.abs(pointer.y - drag.start.y))
+      })
+    }
+  }
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (canvasRef.current?.hasPointerCapture(e.pointerId)) {
+      canvasRef.current.releasePointerCapture(e.pointerId)
+    }
+
+    if (drag?.kind === 'draw' && draft) {
+      if (draft.width >= GRID_SIZE && draft.height >= GRID_SIZE) {
+        const feature = { ...draft, id: `feature-${Date.now()}` }
+        updateCanvas({ features: [...canvas.features, feature] })
+        setSelectedFeatureId(feature.id)
+        setMode('seat')
+      }
+      setDraft(null)
+    }
+  }
+
+  const handleCurveRow = (bulge: number) => {
+    if (!selected) return
+    const rowSeats = seats.filter(seat => seat.section === selected.section && seat.rowIndex === selected.rowIndex)
+    setPositions(prev => ({ ...prev, ...arrangeRowInArc(rowSeats, bulge) }))
+  }
+
+  const handleReset = () => {
+    if (!window.confirm('Reset every seat and area to the default arrangement?')) return
+    const defaults = generateDefaultLayout(structure)
+    setPositions(defaults.positions)
+    setStructure({ ...structure, canvas: defaults.canvas })
+    setSelectedSeat(null)
+    setSelectedFeatureId(null)
+  }
+
+  const handleSave = async () => {
+    const problems = [
+      ...validateLayoutStructure(structure),
+      ...findSeatPlacementErrors(structure, seats)
+    ]
+    setErrors(problems)
+    if (problems.length > 0) return
+
+    try {
+      setSaving(true)
+      await saveLayoutDesign(layout, structure, positions, seatPrices, user?.email || 'unknown')
+      onSaved()
+    } catch (error: any) {
+      setErrors([`Error saving layout: ${error.message || 'Please try again.'}`])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = `w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`
+  const labelClass = `block text-sm font-medium mb-1 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className={`rounded-2xl p-6 w-full max-w-7xl mx-4 h-[90vh] flex flex-col transition-colors duration-200 ${darkMode ? 'bg-gray-800' : 'bg-white'}`}>
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className={`text-2xl font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+              Design: {layout.name}
+            </h2>
+            <p className={`text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+              Drag seats into place, draw aisles and blocked areas, then preview the counter view
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setPreview(!preview)}
+            className={`flex items-center px-4 py-2 rounded-xl text-sm font-medium transition-colors ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'}`}
+          >
+            {preview ? <PencilSquareIcon className="h-5 w-5 mr-2" /> : <EyeIcon className="h-5 w-5 mr-2" />}
+            {preview ? 'Back to editing' : 'Preview'}
+          </button>
+        </div>
+
+        <div className="flex-1 flex gap-4 min-h-0">
+          {/* Tools */}
+          {!preview && (
+            <div className="w-64 flex-shrink-0 space-y-4 overflow-y-auto">
+              <div className="space-y-2">
+                {MODES.map(option => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setMode(option.id)}
+                    className={`w-full px-3 py-2 text-sm font-medium rounded-lg text-left transition-colors ${mode === option.id
+                      ? 'bg-primary-600 text-white'
+                      : darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                  >
+                    {option.name}
+                  </button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className={labelClass}>Width</label>
+                  <input
+                    type="number"
+                    min={200}
+                    step={GRID_SIZE}
+                    value={canvas.width}
+                    onChange={(e) => updateCanvas({ width: parseInt(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Height</label>
+                  <input
+                    type="number"
+                    min={200}
+                    step={GRID_SIZE}
+                    value={canvas.height}
+                    onChange={(e) => updateCanvas({ height: parseInt(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {selected && (
+                <div className={`rounded-xl p-3 space-y-2 ${darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                  <div className={`text-sm font-medium ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                    Seat {getSeatName(selected)} · {selected.section} row {getRowLetter(selected.rowIndex)}
+                  </div>
+                  <label className={labelClass}>Seat price (₹)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={seatPrices[selected.code] ?? ''}
+                    onChange={(e) => {
+                      const { [selected.code]: _, ...rest } = seatPrices
+                      setSeatPrices(e.target.value === '' ? rest : { ...rest, [selected.code]: parseFloat(e.target.value) || 0 })
+                    }}
+                    className={inputClass}
+                    placeholder="Tier or show price"
+                  />
+                  <label className={labelClass}>Row curve (px)</label>
+                  <input
+                    type="number"
+                    step={GRID_SIZE}
+                    value={rowCurve}
+                    onChange={(e) => setRowCurve(parseInt(e.target.value) || 0)}
+                    className={inputClass}
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleCurveRow(rowCurve)}
+                      className="flex-1 px-2 py-1 text-xs bg-primary-600 text-white rounded hover:bg-primary-700 transition-colors"
+                    >
+                      Curve row
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleCurveRow(0)}
+                      className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${darkMode ? 'bg-gray-600 text-gray-200 hover:bg-gray-500' : 'bg-gray-200 text-gray-800 hover:bg-gray-300'}`}
+                    >
+                      Straighten
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {selectedFeature && (
+                <div className={`rounded-xl p-3 space-y-2 ${darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                  <label className={labelClass}>Area label</label>
+                  <input
+                    type="text"
+                    value={selectedFeature.label}
+                    onChange={(e) => updateFeature(selectedFeature.id, { label: e.target.value })}
+                    className={inputClass}
+                    placeholder="e.g. Pillar, Pit"
+                  />
+                  {selectedFeature.type !== 'STAGE' && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        updateCanvas({ features: canvas.features.filter(feature => feature.id !== selectedFeature.id) })
+                        setSelectedFeatureId(null)
+                      }}
+                      className="flex items-center text-red-500 hover:text-red-700 text-sm"
+                    >
+                      <TrashIcon className="h-4 w-4 mr-1" />
+                      Remove area
+                    </button>
+                  )}
+                </div>
+              )}
+
+              <button
+                type="button"
+                onClick={handleReset}
+                className={`w-full flex items-center justify-center px-3 py-2 text-sm rounded-lg transition-colors ${darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'}`}
+              >
+                <ArrowPathIcon className="h-4 w-4 mr-2" />
+                Reset arrangement
+              </button>
+            </div>
+          )}
+
+          {/* Canvas */}
+          <div className={`flex-1 overflow-auto rounded-xl border ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            {loading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+              </div>
+            ) : preview ? (
+              <SeatCanvas structure={structure} seats={seats} />
+            ) : (
+              <div
+                ref={canvasRef}
+                onPointerDown={handleCanvasPointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                className={`relative select-none touch-none ${mode === 'AISLE' || mode === 'BLOCKED' ? 'cursor-crosshair' : ''}`}
+                style={{
+                  width: canvas.width,
+                  height: canvas.height,
+                  backgroundImage: `radial-gradient(circle, ${darkMode ? '#4b5563' : '#d1d5db'} 1px, transparent 1px)`,
+                  backgroundSize: `${GRID_SIZE * 2}px ${GRID_SIZE * 2}px`
+                }}
+              >
+                {canvas.features.map(feature => (
+                  <div key={feature.id} onPointerDown={(e) => handleFeaturePointerDown(e, feature)} className="cursor-move">
+                    <FeatureBox
+                      feature={feature}
+                      className={feature.id === selectedFeatureId ? 'ring-2 ring-primary-500' : ''}
+                    />
+                  </div>
+                ))}
+
+                {draft && <FeatureBox feature={draft} className="opacity-60" />}
+
+                {seats.map(seat => {
+                  const inSelectedRow = selected && seat.section === selected.section && seat.rowIndex === selected.rowIndex
+                  return (
+                    <div
+                      key={seat.code}
+                      onPointerDown={(e) => handleSeatPointerDown(e, seat.code)}
+                      style={{ left: seat.position.x, top: seat.position.y, width: SEAT_SIZE, height: SEAT_SIZE }}
+                      className={`absolute rounded border-2 text-[10px] font-medium flex items-center justify-center cursor-move ${seat.code === selectedSeat
+                        ? 'bg-primary-100 border-primary-500 text-primary-700'
+                        : inSelectedRow
+                          ? 'bg-blue-50 border-blue-300 text-blue-700'
+                          : 'bg-gray-50 border-gray-300 text-gray-700'
+                        }`}
+                      title={`${getSeatName(seat)} (${seat.code})`}
+                    >
+                      {seat.seatNumber}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className={`mt-4 p-4 rounded-xl border text-sm max-h-32 overflow-y-auto ${darkMode ? 'bg-red-900/20 border-red-800 text-red-300' : 'bg-red-50 border-red-300 text-red-700'}`}>
+            <div className="font-medium mb-1">Please fix the layout before saving:</div>
+            <ul className="list-disc list-inside space-y-0.5">
+              {errors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex space-x-4 pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className={`flex-1 py-3 px-4 rounded-xl font-medium transition-colors ${darkMode ? 'bg-gray-600 text-gray-200 hover:bg-gray-500' : 'bg-gray-200 text-gray-800 hover:bg-gray-300'}`}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="flex-1 bg-primary-600 text-white py-3 px-4 rounded-xl font-medium hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Design'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default LayoutDesigner
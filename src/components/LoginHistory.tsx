@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react'
+import { ClockIcon } from '@heroicons/react/24/outline'
+import { LoginAttempt } from '../lib/supabase'
+import { LOGIN_FAILURE_LABELS, fetchLoginHistory } from '../utils/loginSecurity'
+
+interface LoginHistoryProps {
+  member: { id: string; email: string }
+  onClose: () => void
+}
+
+// Recent sign-in attempts on one account, from the server's own record
+// rather than the activity log, so failed and locked-out attempts show too
+const LoginHistory: React.FC<LoginHistoryProps> = ({ member, onClose }) => {
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchLoginHistory(member.id)
+      .then(setAttempts)
+      .catch((error: any) => setError(error.message || 'Failed to load the login history'))
+      .finally(() => setLoading(false))
+  }, [member.id])
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-3xl w-full mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center mb-4">
+          <ClockIcon className="h-6 w-6 text-slate-700 mr-3" />
+          <h3 className="text-lg font-semibold text-gray-900">Login History for {member.email}</h3>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="overflow-y-auto flex-1 mb-6">
+          {loading ? (
+            <div className="text-center py-8 text-slate-500">Loading...</div>
+          ) : attempts.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">No sign-ins recorded yet</div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">When</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Result</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">IP Address</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Device</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {attempts.map(attempt => (
+                  <tr key={attempt.id}>
+                    <td className="px-4 py-2 text-sm text-slate-700 whitespace-nowrap">
+                      {new Date(attempt.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        attempt.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                      }`}>
+                        {attempt.success
+                          ? 'Signed in'
+                          : LOGIN_FAILURE_LABELS[attempt.failure_reason || 'INVALID_CREDENTIALS']}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-slate-500 whitespace-nowrap font-mono">
+                      {attempt.ip_address || 'Unknown'}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-slate-500 max-w-xs truncate" title={attempt.user_agent || undefined}>
+                      {attempt.user_agent || 'Unknown'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default LoginHistory
@@ -1,19 +1,20 @@
 import React from 'react'
 import { Navigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import { Permission } from '../lib/supabase'
 
-interface RoleProtectedRouteProps {
+interface PermissionProtectedRouteProps {
   children: React.ReactNode
-  allowedRoles: ('admin' | 'staff')[]
+  permission: Permission
   fallbackPath?: string
 }
 
-const RoleProtectedRoute: React.FC<RoleProtectedRouteProps> = ({ 
+const PermissionProtectedRoute: React.FC<PermissionProtectedRouteProps> = ({ 
   children, 
-  allowedRoles, 
-  fallbackPath = '/' 
+  permission, 
+  fallbackPath = '/shows' 
 }) => {
-  const { user, loading } = useAuth()
+  const { user, loading, can } = useAuth()
 
   if (loading) {
     return (
@@ -27,11 +28,11 @@ const RoleProtectedRoute: React.FC<RoleProtectedRouteProps> = ({
     return <Navigate to="/login" />
   }
 
-  if (!allowedRoles.includes(user.role)) {
+  if (!can(permission)) {
     return <Navigate to={fallbackPath} />
   }
 
   return <>{children}</>
 }
 
-export default RoleProtectedRoute
\ No newline at end of file
+export default PermissionProtectedRoute
@@ -0,0 +1,210 @@
+import React, { useState } from 'react'
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { Permission, Role } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { ADMIN_ROLE, PERMISSION_GROUPS, deleteRole, roleNameFromLabel, saveRole } from '../utils/permissions'
+
+interface RolePermissionsEditorProps {
+  roles: Role[]
+  // Users holding each role, so roles still in use can't be removed
+  userCounts: Record<string, number>
+  onChange: () => void
+}
+
+// Which permissions each role holds, for admins to change. The admin role
+// always holds every permission and isn't listed.
+const RolePermissionsEditor: React.FC<RolePermissionsEditorProps> = ({ roles, userCounts, onChange }) => {
+  const { user } = useAuth()
+  const [savingRole, setSavingRole] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [newRole, setNewRole] = useState({ label: '', description: '' })
+
+  const editableRoles = roles.filter(role => role.name !== ADMIN_ROLE)
+
+  const handleToggle = async (role: Role, permission: Permission) => {
+    if (!user) return
+
+    const permissions = role.permissions.includes(permission)
+      ? role.permissions.filter(p => p !== permission)
+      : [...role.permissions, permission]
+
+    setSavingRole(role.name)
+    setError('')
+
+    try {
+      await saveRole({ ...role, permissions }, false, user.email)
+      onChange()
+    } catch (error: any) {
+      setError(error.message || 'Failed to save the role')
+    } finally {
+      setSavingRole(null)
+    }
+  }
+
+  const handleAddRole = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    const name = roleNameFromLabel(newRole.label)
+    if (!name) {
+      setError('Give the role a name with at least one letter or number')
+      return
+    }
+    if (roles.some(role => role.name === name)) {
+      setError(`There is already a role called ${newRole.label.trim()}`)
+      return
+    }
+
+    setSavingRole(name)
+    setError('')
+
+    try {
+      await saveRole({
+        name,
+        label: newRole.label.trim(),
+        description: newRole.description.trim() || null,
+        permissions: []
+      }, true, user.email)
+      setNewRole({ label: '', description: '' })
+      setShowAddForm(false)
+      onChange()
+    } catch (error: any) {
+      setError(error.message || 'Failed to add the role')
+    } finally {
+      setSavingRole(null)
+    }
+  }
+
+  const handleDeleteRole = async (role: Role) => {
+    if (!user) return
+    if (!window.confirm(`Remove the ${role.label} role?`)) return
+
+    setSavingRole(role.name)
+    setError('')
+
+    try {
+      await deleteRole(role, user.email)
+      onChange()
+    } catch (error: any) {
+      setError(error.message || 'Failed to remove the role')
+    } finally {
+      setSavingRole(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200">
+      <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold">Roles and Permissions</h2>
+          <p className="text-sm text-slate-500">Admins can do everything, so they aren't listed</p>
+        </div>
+        <button
+          onClick={() => setShowAddForm(!showAddForm)}
+          className="text-slate-700 px-3 py-1.5 rounded-lg hover:bg-slate-100 flex items-center gap-1 text-sm font-medium"
+        >
+          <PlusIcon className="h-4 w-4" />
+          Add Role
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {showAddForm && (
+        <form onSubmit={handleAddRole} className="px-6 py-4 border-b border-slate-200 grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input
+            type="text"
+            value={newRole.label}
+            onChange={(e) => setNewRole({ ...newRole, label: e.target.value })}
+            required
+            maxLength={60}
+            className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 focus:border-transparent"
+            placeholder="Role name, e.g. Usher"
+          />
+          <input
+            type="text"
+            value={newRole.description}
+            onChange={(e) => setNewRole({ ...newRole, description: e.target.value })}
+            className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 focus:border-transparent"
+            placeholder="What they do (optional)"
+          />
+          <button
+            type="submit"
+            disabled={savingRole !== null}
+            className="bg-slate-900 text-white px-4 py-2 rounded-lg hover:bg-slate-800 disabled:opacity-50"
+          >
+            Create Role
+          </button>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                Permission
+              </th>
+              {editableRoles.map(role => (
+                <th key={role.name} className="px-3 py-3 text-center text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  <div className="flex items-center justify-center gap-1" title={role.description || undefined}>
+                    {role.label}
+                    {!role.built_in && !userCounts[role.name] && (
+                      <button
+                        onClick={() => handleDeleteRole(role)}
+                        disabled={savingRole !== null}
+                        className="text-red-500 hover:text-red-700 disabled:opacity-50"
+                        title="Remove role"
+                      >
+                        <TrashIcon className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </div>
+                  <div className="normal-case font-normal">
+                    {userCounts[role.name] || 0} {userCounts[role.name] === 1 ? 'user' : 'users'}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {PERMISSION_GROUPS.map(group => (
+              <React.Fragment key={group.name}>
+                <tr className="bg-slate-50/50">
+                  <td colSpan={editableRoles.length + 1} className="px-6 py-2 text-xs font-semibold text-slate-700">
+                    {group.name}
+                  </td>
+                </tr>
+                {group.permissions.map(permission => (
+                  <tr key={permission.key} className="hover:bg-slate-50">
+                    <td className="px-6 py-2 text-sm text-slate-700 whitespace-nowrap">
+                      {permission.label}
+                    </td>
+                    {editableRoles.map(role => (
+                      <td key={role.name} className="px-3 py-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={role.permissions.includes(permission.key)}
+                          onChange={() => handleToggle(role, permission.key)}
+                          disabled={savingRole !== null}
+                          className="h-4 w-4 rounded border-slate-300 text-slate-900 focus:ring-slate-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default RolePermissionsEditor
@@ -0,0 +1,170 @@
+import React from 'react'
+import { motion } from 'framer-motion'
+import { LayoutFeature, LayoutPriceTier, LayoutStructure } from '../lib/supabase'
+import { useDarkMode } from '../hooks/useDarkMode'
+import { getRowLetter } from '../utils/layoutStructure'
+import { PositionedSeat, SEAT_SIZE } from '../utils/seatPositions'
+
+export type SeatState = 'available' | 'selected' | 'held' | 'booked'
+
+const SEAT_STATE_CLASSES: Record<SeatState, string> = {
+  available: 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100 hover:border-gray-400',
+  selected: 'bg-green-100 border-green-400 text-green-700',
+  held: 'bg-amber-100 border-amber-400 text-amber-700 cursor-not-allowed',
+  booked: 'bg-red-100 border-red-400 text-red-600 cursor-not-allowed'
+}
+
+export const getSeatName = (seat: PositionedSeat) =>
+  `${seat.section.charAt(0).toUpperCase()}${getRowLetter(seat.rowIndex)}${seat.seatNumber}`
+
+// Stage, aisle and blocked areas, shared by the booking map and the designer
+export const FeatureBox: React.FC<{ feature: LayoutFeature; className?: string }> = ({ feature, className = '' }) => {
+  const style = {
+    left: feature.x,
+    top: feature.y,
+    width: feature.width,
+    height: feature.height
+  }
+
+  if (feature.type === 'STAGE') {
+    return (
+      <div style={style} className={`absolute bg-gradient-to-br from-blue-400 to-blue-600 rounded-2xl flex items-center justify-center text-white font-bold shadow-lg ${className}`}>
+        <div className="text-center">
+          <div className="text-sm sm:text-xl font-bold">Kalari</div>
+          <div className="text-xs sm:text-sm opacity-90">{feature.label || 'STAGE'}</div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      style={{
+        ...style,
+        backgroundImage: feature.type === 'BLOCKED'
+          ? 'repeating-linear-gradient(45deg, rgba(100,116,139,0.35) 0, rgba(100,116,139,0.35) 6px, transparent 6px, transparent 12px)'
+          : undefined
+      }}
+      className={`absolute rounded-md flex items-center justify-center text-[10px] font-medium uppercase tracking-wide ${feature.type === 'AISLE'
+        ? 'border border-dashed border-slate-300 bg-slate-100/60 text-slate-400'
+        : 'border border-slate-400 bg-slate-200/60 text-slate-600'
+        } ${className}`}
+    >
+      {feature.label}
+    </div>
+  )
+}
+
+// Seat states, plus the price of each tier when the layout has tiers
+export const SeatLegend: React.FC<{ tiers?: LayoutPriceTier[] }> = ({ tiers = [] }) => {
+  const darkMode = useDarkMode()
+  const labelClass = `transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`
+
+  return (
+    <>
+      <div className="flex justify-center mt-8 space-x-6 text-sm">
+        <div className="flex items-center">
+          <div className="w-4 h-4 bg-gray-50 border-2 border-gray-300 rounded mr-2"></div>
+          <span className={labelClass}>Available</span>
+        </div>
+        <div className="flex items-center">
+          <div className="w-4 h-4 bg-green-100 border-2 border-green-400 rounded mr-2"></div>
+          <span className={labelClass}>Selected</span>
+        </div>
+        <div className="flex items-center">
+          <div className="w-4 h-4 bg-amber-100 border-2 border-amber-400 rounded mr-2"></div>
+          <span className={labelClass}>Held</span>
+        </div>
+        <div className="flex items-center">
+          <div className="w-4 h-4 bg-red-100 border-2 border-red-400 rounded mr-2"></div>
+          <span className={labelClass}>Booked</span>
+        </div>
+      </div>
+      {tiers.length > 0 && (
+        <div className="flex flex-wrap justify-center mt-3 gap-2 text-sm">
+          {tiers.map(tier => (
+            <span
+              key={tier.name}
+              className={`px-3 py-1 rounded-full border transition-colors duration-200 ${darkMode ? 'border-gray-600 text-gray-300' : 'border-gray-300 text-gray-700'}`}
+            >
+              {tier.name} <span className="font-semibold">₹{tier.price}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
+
+interface SeatCanvasProps {
+  structure: LayoutStructure
+  seats: PositionedSeat[]
+  getSeatState?: (seatCode: string) => SeatState
+  onSeatClick?: (seatCode: string) => void
+  getSeatPrice?: (seatCode: string) => number
+  tiers?: LayoutPriceTier[] // Tier prices for the legend; defaults to the layout's own
+}
+
+// Seat map for layouts arranged in the designer. Booking renders this for
+// the counter and the designer renders it as its preview, so both match.
+const SeatCanvas: React.FC<SeatCanvasProps> = ({
+  structure,
+  seats,
+  getSeatState = () => 'available',
+  onSeatClick,
+  getSeatPrice,
+  tiers = structure.tiers
+}) => {
+  const darkMode = useDarkMode()
+  const canvas = structure.canvas
+  if (!canvas) return null
+
+  return (
+    <div className={`rounded-2xl p-2 sm:p-6 w-full transition-colors duration-200 ${darkMode ? 'bg-gray-800' : 'bg-white'}`}>
+      <div className="text-center mb-4 sm:mb-6">
+        <h3 className={`text-sm sm:text-lg font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          KALARI THEATER - SEATING PLAN
+        </h3>
+        <div className={`text-xs sm:text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          Complete Seating Layout
+        </div>
+      </div>
+
+      <div className="overflow-auto -mx-2 sm:mx-0 px-2 sm:px-0">
+        <div className="relative mx-auto" style={{ width: canvas.width, height: canvas.height }}>
+          {canvas.features.map(feature => (
+            <FeatureBox key={feature.id} feature={feature} />
+          ))}
+
+          {seats.map(seat => {
+            const state = getSeatState(seat.code)
+            const unavailable = state === 'booked' || state === 'held'
+            const seatName = getSeatName(seat)
+
+            return (
+              <motion.button
+                key={seat.code}
+                type="button"
+                onClick={() => onSeatClick?.(seat.code)}
+                disabled={unavailable || !onSeatClick}
+                whileHover={{ scale: unavailable || !onSeatClick ? 1 : 1.05 }}
+                whileTap={{ scale: unavailable || !onSeatClick ? 1 : 0.95 }}
+                style={{ left: seat.position.x, top: seat.position.y, width: SEAT_SIZE, height: SEAT_SIZE }}
+                className={`absolute rounded border-2 text-[10px] font-medium transition-colors ${SEAT_STATE_CLASSES[state]}`}
+                title={state === 'held'
+                  ? `${seatName} - held at another counter`
+                  : getSeatPrice ? `${seatName} - ₹${getSeatPrice(seat.code)}` : seatName}
+              >
+                {seat.seatNumber}
+              </motion.button>
+            )
+          })}
+        </div>
+      </div>
+
+      <SeatLegend tiers={tiers} />
+    </div>
+  )
+}
+
+export default SeatCanvas
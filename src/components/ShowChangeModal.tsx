@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { supabase, Layout, Show } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { useDarkMode } from '../hooks/useDarkMode'
+import { cancelShow, rescheduleShow, RescheduleTarget } from '../utils/showChanges'
+
+export type ShowChangeMode = 'CANCEL' | 'RESCHEDULE'
+
+interface ShowChangeModalProps {
+  show: Show
+  mode: ShowChangeMode
+  target?: RescheduleTarget // Fills in the new date, time and layout
+  layouts: Layout[]
+  onClose: () => void
+  onChanged: (summary: string) => void
+}
+
+const ShowChangeModal: React.FC<ShowChangeModalProps> = ({ show, mode, target, layouts, onClose, onChanged }) => {
+  const { user } = useAuth()
+  const darkMode = useDarkMode()
+  const [date, setDate] = useState(target?.date ?? show.date)
+  const [time, setTime] = useState(target?.time ?? show.time.slice(0, 5))
+  const [layoutId, setLayoutId] = useState(target?.layoutId ?? show.layout_id)
+  const [reason, setReason] = useState('')
+  const [bookingCount, setBookingCount] = useState<number | null>(null)
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    supabase
+      .from('bookings')
+      .select('id', { count: 'exact', head: true })
+      .eq('show_id', show.id)
+      .eq('status', 'CONFIRMED')
+      .then(({ count, error }) => {
+        if (error) {
+          console.error('Error counting bookings:', error)
+          return
+        }
+        setBookingCount(count || 0)
+      })
+  }, [show.id])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (!reason.trim()) {
+      setError(`Please enter a reason for the ${mode === 'CANCEL' ? 'cancellation' : 'reschedule'}`)
+      return
+    }
+
+    const performedBy = user?.email || 'unknown'
+
+    try {
+      setSubmitting(true)
+
+      if (mode === 'CANCEL') {
+        const result = await cancelShow(show, reason.trim(), performedBy)
+        if (!result.success) {
+          setError(result.error)
+          return
+        }
+        onChanged(`${show.title} is cancelled. ${result.cancelledBookings} booking(s) cancelled and ` +
+          `₹${result.refundAmount.toLocaleString()} in refunds raised for approval.`)
+        return
+      }
+
+      if (date === show.date && time === show.time.slice(0, 5) && layoutId === show.layout_id) {
+        setError('Choose a new date, time or layout')
+        return
+      }
+
+      const result = await rescheduleShow(
+        show,
+        { date, time, layoutId: layoutId !== show.layout_id ? layoutId : null },
+        reason.trim(),
+        performedBy
+      )
+      if (!result.success) {
+        setError(result.error)
+        return
+      }
+      onChanged(`${show.title} moved to ${format(parseISO(date), 'MMM dd, yyyy')}. ${result.movedBookings} booking(s) moved: ` +
+        `${result.keptSeats} seat(s) kept, ${result.reseatedSeats} re-seated` +
+        (result.refundedSeats > 0 ? `, ${result.refundedSeats} refunded for lack of space.` : '.'))
+    } catch (error: any) {
+      setError(error.message || `Failed to ${mode === 'CANCEL' ? 'cancel' : 'reschedule'} the show`)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const labelClass = `block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`
+  const inputClass = `w-full px-4 py-2 rounded-lg border transition-colors duration-200 ${
+    darkMode
+      ? 'bg-slate-800 border-slate-600 text-slate-100 focus:border-slate-500'
+      : 'bg-white border-slate-300 text-slate-900 focus:border-slate-400'
+  } focus:outline-none focus:ring-2 focus:ring-primary-500/20`
+  const noteClass = `text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-hidden">
+      <div className={`max-w-md w-full max-h-[90vh] overflow-y-auto rounded-2xl shadow-xl transition-colors duration-200 ${darkMode ? 'bg-slate-900 border border-slate-700' : 'bg-white'}`}>
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h3 className={`text-lg font-semibold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                {mode === 'CANCEL' ? 'Cancel Show' : 'Reschedule Show'}
+              </h3>
+              <p className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                {show.title} · {format(parseISO(show.date), 'MMM dd, yyyy')} {format(new Date(`2000-01-01T${show.time}`), 'h:mm a')}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-slate-400 hover:text-slate-300 hover:bg-slate-800' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-100'}`}
+            >
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === 'RESCHEDULE' && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className={labelClass}>New Date</label>
+                    <input type="date" value={date} onChange={(e) => setDate(e.target.value)} required className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>New Time</label>
+                    <input type="time" value={time} onChange={(e) => setTime(e.target.value)} required className={inputClass} />
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClass}>Layout</label>
+                  <select value={layoutId} onChange={(e) => setLayoutId(e.target.value)} className={inputClass}>
+                    {layouts.map(layout => (
+                      <option key={layout.id} value={layout.id}>{layout.name}</option>
+                    ))}
+                  </select>
+                  {layoutId !== show.layout_id && (
+                    <p className={`mt-2 ${noteClass}`}>
+                      Seats the new layout also has are kept. Everyone else is re-seated in layout order, and seats
+                      that no longer fit are refunded in full.
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+
+            {/* Reason */}
+            <div>
+              <label className={labelClass}>Reason</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                required
+                placeholder={mode === 'CANCEL' ? 'Why is this show being cancelled?' : 'Why is this show moving?'}
+                className={inputClass}
+              />
+              <p className={`mt-1 ${noteClass}`}>Included in the message sent to ticket holders.</p>
+            </div>
+
+            {bookingCount !== null && (
+              <p className={noteClass}>
+                {bookingCount === 0
+                  ? 'This show has no bookings.'
+                  : mode === 'CANCEL'
+                    ? `${bookingCount} booking(s) will be cancelled, their tickets revoked and full refunds raised for admin approval. Ticket holders are notified.`
+                    : `${bookingCount} booking(s) will move to the new date with their tickets. Ticket holders are notified.`}
+              </p>
+            )}
+
+            {error && (
+              <div className="text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className={`flex-1 px-4 py-2 rounded-xl font-medium transition-colors duration-200 ${darkMode ? 'bg-slate-800 text-slate-300 border border-slate-700 hover:bg-slate-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+              >
+                Keep Show
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className={`flex-1 px-4 py-2 rounded-xl font-medium transition-colors duration-200 text-white ${mode === 'CANCEL' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary-600 hover:bg-primary-700'} ${submitting ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {submitting
+                  ? mode === 'CANCEL' ? 'Cancelling...' : 'Rescheduling...'
+                  : mode === 'CANCEL' ? 'Cancel Show' : 'Reschedule'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ShowChangeModal
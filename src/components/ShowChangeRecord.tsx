@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { format, parseISO } from 'date-fns'
+import { CustomerNotification, Show, ShowBookingMove } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { useDarkMode } from '../hooks/useDarkMode'
+import { SHOW_STATUS_LABELS } from '../utils/showLifecycle'
+import {
+  fetchShowMoves,
+  fetchShowNotifications,
+  markNotificationSent,
+  notificationLink,
+  SHOW_MOVE_OUTCOME_LABELS
+} from '../utils/showChanges'
+
+interface ShowChangeRecordProps {
+  show: Show
+  movedTo?: Show // The show a rescheduled show's bookings went to
+}
+
+// What happened to every booking when a show was cancelled or rescheduled,
+// and the messages owed to ticket holders
+const ShowChangeRecord: React.FC<ShowChangeRecordProps> = ({ show, movedTo }) => {
+  const { user, can } = useAuth()
+  const darkMode = useDarkMode()
+  const [moves, setMoves] = useState<ShowBookingMove[]>([])
+  const [notifications, setNotifications] = useState<CustomerNotification[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchRecord = useCallback(async () => {
+    try {
+      const [showMoves, showNotifications] = await Promise.all([
+        fetchShowMoves(show.id),
+        fetchShowNotifications(show.id)
+      ])
+      setMoves(showMoves)
+      setNotifications(showNotifications)
+    } catch (error) {
+      console.error('Error fetching show change record:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [show.id])
+
+  useEffect(() => {
+    fetchRecord()
+  }, [fetchRecord])
+
+  const handleMarkSent = async (notification: CustomerNotification) => {
+    try {
+      await markNotificationSent(notification, user?.email || 'unknown')
+      await fetchRecord()
+    } catch (error: any) {
+      alert(error.message || 'Could not update the notification')
+    }
+  }
+
+  const pending = notifications.filter(notification => notification.status !== 'SENT')
+
+  const headingClass = `text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`
+  const mutedClass = `text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`
+  const cellClass = `py-2 pr-4 text-sm transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`
+
+  if (loading) {
+    return <div className={`py-4 text-sm ${mutedClass}`}>Loading...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className={mutedClass}>
+        {show.status && SHOW_STATUS_LABELS[show.status]}
+        {show.status_changed_at && ` ${format(new Date(show.status_changed_at), 'MMM dd, h:mm a')}`}
+        {show.status_changed_by && ` by ${show.status_changed_by}`}
+        {show.status_reason && ` · ${show.status_reason}`}
+        {movedTo && ` · now ${format(parseISO(movedTo.date), 'MMM dd, yyyy')} ${format(new Date(`2000-01-01T${movedTo.time}`), 'h:mm a')}`}
+      </div>
+
+      <div>
+        <h3 className={headingClass}>Seats ({moves.length})</h3>
+        {moves.length === 0 ? (
+          <div className={`text-sm ${mutedClass}`}>The show had no bookings.</div>
+        ) : (
+          <table className="min-w-full">
+            <tbody>
+              {moves.map(move => (
+                <tr key={move.id}>
+                  <td className={cellClass}>{move.booking?.customer?.name || move.booking?.booked_by || 'Booking removed'}</td>
+                  <td className={cellClass}>{move.from_seat}{move.to_seat && move.to_seat !== move.from_seat && ` → ${move.to_seat}`}</td>
+                  <td className={`py-2 text-sm font-medium ${move.outcome === 'REFUNDED' ? 'text-red-600' : move.outcome === 'RESEATED' ? 'text-amber-600' : 'text-green-600'}`}>
+                    {SHOW_MOVE_OUTCOME_LABELS[move.outcome]}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div>
+        <h3 className={headingClass}>Notifications ({pending.length} not sent)</h3>
+        {notifications.length === 0 ? (
+          <div className={`text-sm ${mutedClass}`}>Nobody to notify.</div>
+        ) : (
+          <ul className={`divide-y transition-colors duration-200 ${darkMode ? 'divide-slate-800' : 'divide-slate-200'}`}>
+            {notifications.map(notification => {
+              const link = notificationLink(notification)
+              return (
+                <li key={notification.id} className="py-3 flex items-start justify-between gap-4">
+                  <div>
+                    <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                      {notification.recipient_name || 'Customer'}
+                      <span className={`ml-2 font-normal ${mutedClass}`}>
+                        {notification.recipient_email || notification.recipient_phone || 'No contact details'}
+                      </span>
+                    </div>
+                    <div className={mutedClass}>{notification.message}</div>
+                    <div className={mutedClass}>
+                      {notification.status === 'SENT'
+                        ? `Sent${notification.sent_at ? ` ${format(new Date(notification.sent_at), 'MMM dd, h:mm a')}` : ''}${notification.sent_by ? ` by ${notification.sent_by}` : ''}`
+                        : notification.status === 'FAILED' ? 'Delivery failed' : 'Not sent yet'}
+                    </div>
+                  </div>
+                  {notification.status !== 'SENT' && can('show.cancel') && (
+                    <div className="flex gap-2 shrink-0">
+                      {link && (
+                        <a
+                          href={link}
+                          className="px-3 py-1 text-sm font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-colors"
+                        >
+                          {notification.recipient_email ? 'Email' : 'Text'}
+                        </a>
+                      )}
+                      <button
+                        onClick={() => handleMarkSent(notification)}
+                        className={`px-3 py-1 text-sm font-medium rounded-lg transition-colors duration-200 ${darkMode ? 'text-slate-300 hover:bg-slate-800' : 'text-slate-700 hover:bg-slate-100'}`}
+                      >
+                        Mark Sent
+                      </button>
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ShowChangeRecord
@@ -0,0 +1,29 @@
+import React from 'react'
+import { useVenue } from '../contexts/VenueContext'
+
+interface VenueSelectProps {
+  value: string // Blank for all venues
+  onChange: (venueId: string) => void
+  className: string
+  allLabel?: string
+}
+
+// Nothing to choose between until there is a second venue
+const VenueSelect: React.FC<VenueSelectProps> = ({ value, onChange, className, allLabel = 'All venues' }) => {
+  const { venues } = useVenue()
+
+  if (venues.length < 2) return null
+
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+      <option value="">{allLabel}</option>
+      {venues.map(venue => (
+        <option key={venue.id} value={venue.id}>
+          {venue.name}{venue.active ? '' : ' (closed)'}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+export default VenueSelect
@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import { supabase, Customer, Show, WaitlistEntry } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { useDarkMode } from '../hooks/useDarkMode'
+import { fetchWaitlist, joinWaitlist, cancelWaitlistEntry, isWaiting, WAITLIST_STATUS_LABELS } from '../utils/waitlist'
+import { isShowOpen } from '../utils/showLifecycle'
+
+interface WaitlistPanelProps {
+  show: Show
+  // Books an offer at this counter; leave out where staff only view the list
+  onClaim?: (entry: WaitlistEntry) => void
+}
+
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ show, onClaim }) => {
+  const { user } = useAuth()
+  const darkMode = useDarkMode()
+  const [entries, setEntries] = useState<WaitlistEntry[]>([])
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showAll, setShowAll] = useState(false)
+  const [customerId, setCustomerId] = useState('')
+  const [partySize, setPartySize] = useState('1')
+  const [notes, setNotes] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setEntries(await fetchWaitlist(show.id))
+    } catch (error) {
+      console.error('Error fetching waitlist:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [show.id])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  // Offers are made and taken on the server, so follow changes live
+  useEffect(() => {
+    const channel = supabase
+      .channel(`waitlist-${show.id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'waitlist_entries', filter: `show_id=eq.${show.id}` }, () => {
+        fetchEntries()
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [show.id, fetchEntries])
+
+  useEffect(() => {
+    supabase
+      .from('customers')
+      .select('*')
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching customers:', error)
+          return
+        }
+        setCustomers(data || [])
+      })
+  }, [])
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    const customer = customers.find(c => c.id === customerId)
+    if (!customer) {
+      setError('Select a customer')
+      return
+    }
+
+    const size = parseInt(partySize)
+    if (!size || size < 1) {
+      setError('Party size must be at least 1')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      await joinWaitlist(show, customer, size, notes.trim(), user?.email || 'unknown')
+      setCustomerId('')
+      setPartySize('1')
+      setNotes('')
+      await fetchEntries()
+    } catch (error: any) {
+      setError(error.message || 'Could not add to the waitlist')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    if (!window.confirm(`Remove ${entry.customer?.name || 'this customer'} from the waitlist?`)) return
+
+    try {
+      await cancelWaitlistEntry(entry, show.title, user?.email || 'unknown')
+      await fetchEntries()
+    } catch (error: any) {
+      alert(error.message || 'Could not remove from the waitlist')
+    }
+  }
+
+  const waiting = entries.filter(isWaiting)
+  const visibleEntries = showAll ? entries : waiting
+
+  const inputClass = `w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+    ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+    : 'bg-white border-gray-300 text-gray-900'
+    }`
+  const mutedClass = `text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+          Waitlist ({waiting.length} waiting, {waiting.reduce((sum, entry) => sum + entry.party_size, 0)} seats)
+        </h3>
+        <label className={`flex items-center ${mutedClass}`}>
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+            className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          Show past entries
+        </label>
+      </div>
+
+      {loading ? (
+        <div className={`py-4 text-sm ${mutedClass}`}>Loading waitlist...</div>
+      ) : visibleEntries.length === 0 ? (
+        <div className={`py-4 text-sm ${mutedClass}`}>Nobody is waiting for this show.</div>
+      ) : (
+        <ol className={`divide-y mb-4 transition-colors duration-200 ${darkMode ? 'divide-slate-800' : 'divide-slate-200'}`}>
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className="py-3 flex items-start justify-between gap-4">
+              <div>
+                <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                  {isWaiting(entry) && `${waiting.indexOf(entry) + 1}. `}{entry.customer?.name || 'Customer'} · {entry.party_size} seat(s)
+                </div>
+                <div className={mutedClass}>
+                  {WAITLIST_STATUS_LABELS[entry.status]}
+                  {entry.status === 'OFFERED' && entry.offered_seats && ` (${entry.offered_seats.join(', ')})`}
+                  {entry.status === 'OFFERED' && entry.offer_expires_at && ` until ${format(new Date(entry.offer_expires_at), 'h:mm a')}`}
+                  {' · '}joined {format(new Date(entry.created_at), 'MMM dd, h:mm a')}
+                  {entry.customer?.phone && ` · ${entry.customer.phone}`}
+                </div>
+                {entry.notes && <div className={mutedClass}>{entry.notes}</div>}
+              </div>
+              {isWaiting(entry) && (
+                <div className="flex gap-2 shrink-0">
+                  {entry.status === 'OFFERED' && onClaim && (
+                    <button
+                      onClick={() => onClaim(entry)}
+                      className="px-3 py-1 text-sm font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-colors"
+                    >
+                      Book
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRemove(entry)}
+                    className={`px-3 py-1 text-sm font-medium rounded-lg transition-colors duration-200 ${darkMode ? 'text-red-400 hover:bg-red-900/20' : 'text-red-600 hover:bg-red-50'}`}
+                  >
+                    Remove
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {isShowOpen(show.status) && (
+        <form onSubmit={handleJoin} className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+          <select value={customerId} onChange={(e) => setCustomerId(e.target.value)} className={`${inputClass} sm:col-span-2`}>
+            <option value="">Select customer</option>
+            {customers.map(customer => (
+              <option key={customer.id} value={customer.id}>
+                {customer.name}{customer.phone ? ` (${customer.phone})` : ''}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={partySize}
+            onChange={(e) => setPartySize(e.target.value)}
+            min="1"
+            placeholder="Party size"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-900 text-white hover:bg-slate-800 transition-colors disabled:opacity-50"
+          >
+            {submitting ? 'Adding...' : 'Add to Waitlist'}
+          </button>
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes (optional)"
+            className={`${inputClass} sm:col-span-4`}
+          />
+          {error && <p className="text-sm text-red-600 sm:col-span-4">{error}</p>}
+        </form>
+      )}
+    </div>
+  )
+}
+
+export default WaitlistPanel
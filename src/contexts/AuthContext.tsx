@@ -1,20 +1,34 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
-import { supabase } from '../lib/supabase'
+import { supabase, getSessionToken, setSessionToken, Permission } from '../lib/supabase'
+import { logLogin, logLogout } from '../utils/activityLogger'
+
+// Mirrors the session_settings default; the server sends the real value
+const DEFAULT_IDLE_MINUTES = 15
+// How often, at most, activity is reported to keep the session open
+const KEEP_ALIVE_INTERVAL_MS = 60 * 1000
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const
+const SESSION_ENDED_NOTICE = 'Your session has ended. Sign in again.'
 
 interface User {
   id: string
   email: string
-  role: 'admin' | 'staff'
+  role: string
+  role_label?: string
   full_name?: string
+  permissions: Permission[]
+  must_change_password?: boolean // Set until the user replaces a password someone else chose
 }
 
 interface AuthContextType {
   user: User | null
   loading: boolean
+  sessionNotice: string | null // Why the user was signed out, for the login page
   signIn: (email: string, password: string) => Promise<void>
   signOut: () => Promise<void>
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>
   isAdmin: () => boolean
   isStaff: () => boolean
+  can: (permission: Permission) => boolean
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -29,21 +43,93 @@ export const useAuth = () => {
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null)
+  const [expiresAt, setExpiresAt] = useState<string | null>(null)
+  const [idleMinutes, setIdleMinutes] = useState(DEFAULT_IDLE_MINUTES)
   const [loading, setLoading] = useState(true)
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null)
+
+  const clearSession = (notice: string | null = null) => {
+    setSessionToken(null)
+    setUser(null)
+    setExpiresAt(null)
+    setSessionNotice(notice)
+  }
 
   useEffect(() => {
-    // Check for stored user session
-    const storedUser = localStorage.getItem('kalari_user')
-    if (storedUser) {
+    // Left behind by the old sign-in, which kept the whole user here
+    localStorage.removeItem('kalari_user')
+
+    // Who the stored token belongs to, and their role, comes from the server
+    const restoreSession = async () => {
+      if (!getSessionToken()) {
+        setLoading(false)
+        return
+      }
+
       try {
-        setUser(JSON.parse(storedUser))
+        const { data, error } = await supabase.rpc('current_app_user')
+
+        if (error || !data.success) {
+          clearSession()
+        } else {
+          setUser(data.user)
+          setExpiresAt(data.expires_at)
+          setIdleMinutes(data.idle_minutes || DEFAULT_IDLE_MINUTES)
+        }
       } catch (error) {
-        localStorage.removeItem('kalari_user')
+        console.error('Error restoring session:', error)
+        clearSession()
+      } finally {
+        setLoading(false)
       }
     }
-    setLoading(false)
+
+    restoreSession()
   }, [])
 
+  // Back to the login page when the session runs out
+  useEffect(() => {
+    if (!expiresAt) return
+
+    const timer = setTimeout(() => clearSession(SESSION_ENDED_NOTICE), Math.max(0, new Date(expiresAt).getTime() - Date.now()))
+    return () => clearTimeout(timer)
+  }, [expiresAt])
+
+  // Signs out a terminal left unattended. The server ends idle sessions
+  // too, so while someone is using the app it is told so now and then.
+  const userId = user?.id
+  useEffect(() => {
+    if (!userId) return
+
+    let lastActivity = Date.now()
+    let lastKeepAlive = Date.now()
+
+    const handleActivity = () => {
+      lastActivity = Date.now()
+      if (lastActivity - lastKeepAlive < KEEP_ALIVE_INTERVAL_MS) return
+
+      lastKeepAlive = lastActivity
+      supabase.rpc('keep_session_alive').then(({ data }) => {
+        if (data && !data.success) clearSession(SESSION_ENDED_NOTICE)
+      })
+    }
+
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity >= idleMinutes * 60 * 1000) {
+        endSession(`You were signed out after ${idleMinutes} minutes without activity.`, { reason: 'IDLE' })
+      }
+    }, 15 * 1000)
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }))
+
+    return () => {
+      clearInterval(timer)
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity))
+    }
+    // Restarted only for a new user, not each time their details change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, idleMinutes])
+
   const signIn = async (email: string, password: string) => {
     try {
       const { data, error } = await supabase.rpc('authenticate_user', {
@@ -54,9 +140,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (error) throw error
 
       if (data.success) {
-        const userData = data.user
-        setUser(userData)
-        localStorage.setItem('kalari_user', JSON.stringify(userData))
+        setSessionToken(data.token)
+        setUser(data.user)
+        setExpiresAt(data.expires_at)
+        setIdleMinutes(data.idle_minutes || DEFAULT_IDLE_MINUTES)
+        setSessionNotice(null)
+
+        // Users who must change their password can't write the log yet;
+        // their sign-in is still in the login history
+        if (!data.user.must_change_password) {
+          await logLogin(data.user.id, data.user.email, data.ip_address || undefined)
+        }
       } else {
         throw new Error(data.error || 'Authentication failed')
       }
@@ -65,26 +159,51 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }
 
-  const signOut = async () => {
+  const endSession = async (notice: string | null, details?: any) => {
+    if (user && !user.must_change_password) {
+      await logLogout(user.id, user.email, details)
+    }
+
     try {
-      setUser(null)
-      localStorage.removeItem('kalari_user')
+      // Ends the session on the server, so the token can't be used again
+      await supabase.rpc('end_session')
     } catch (error) {
-      console.error('Error in signOut:', error)
-      throw error
+      console.error('Error ending session:', error)
+    } finally {
+      clearSession(notice)
     }
   }
 
+  const signOut = () => endSession(null)
+
+  // Ends the user's other sessions; this one carries on
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    const { data, error } = await supabase.rpc('change_password', {
+      p_current_password: currentPassword,
+      p_new_password: newPassword
+    })
+
+    if (error) throw error
+    if (!data.success) throw new Error(data.error || 'Failed to change password')
+
+    setUser(data.user)
+  }
+
   const isAdmin = () => user?.role === 'admin'
   const isStaff = () => user?.role === 'staff'
+  // What the user may do comes from their role's permissions; admins may do everything
+  const can = (permission: Permission) => isAdmin() || !!user?.permissions?.includes(permission)
 
   const value = {
     user,
     loading,
+    sessionNotice,
     signIn,
     signOut,
+    changePassword,
     isAdmin,
     isStaff,
+    can,
   }
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
@@ -1,6 +1,10 @@
 import React, { createContext, useContext, useState, useCallback, useRef } from 'react'
 import { supabase } from '../lib/supabase'
-import { differenceInDays, differenceInHours, differenceInMinutes, subWeeks, subMonths, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subDays } from 'date-fns'
+import { differenceInDays, differenceInHours, differenceInMinutes } from 'date-fns'
+import { parseLayoutStructure, getLayoutCapacity } from '../utils/layoutStructure'
+import { fetchApprovedRefunds, sumRefunds } from '../utils/refunds'
+import { venueDate, venueToday, venueDateTime, shiftDate, periodStart, previousPeriodStart } from '../utils/venueTime'
+import { useVenue } from './VenueContext'
 
 interface DashboardMetrics {
   totalRevenue: number
@@ -95,75 +99,43 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const [logsLoading, setLogsLoading] = useState(false)
   const lastFetchTime = useRef<number>(0)
   const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes cache
+  const { timezone, timezoneOf } = useVenue()
 
   const fetchMetrics = async (): Promise<DashboardMetrics> => {
-    const now = new Date()
-    const today = now.toISOString().split('T')[0]
-    const yesterday = subDays(now, 1).toISOString().split('T')[0]
-
-    // Date ranges
-    const thisWeekStart = startOfWeek(now).toISOString()
-    const thisWeekEnd = endOfWeek(now).toISOString()
-    const lastWeekStart = startOfWeek(subWeeks(now, 1)).toISOString()
-    const lastWeekEnd = endOfWeek(subWeeks(now, 1)).toISOString()
-
-    const thisMonthStart = startOfMonth(now).toISOString()
-    const thisMonthEnd = endOfMonth(now).toISOString()
-    const lastMonthStart = startOfMonth(subMonths(now, 1)).toISOString()
-    const lastMonthEnd = endOfMonth(subMonths(now, 1)).toISOString()
-
-    // Get all tickets for total revenue (including ACTIVE and COMPLETED)
+    // Days, weeks and months are the venue's, not the browser's or UTC's
+    const today = venueToday(timezone)
+    const yesterday = shiftDate(today, -1)
+    const thisWeek = periodStart(today, 'week')
+    const lastWeek = previousPeriodStart(today, 'week')
+    const thisMonth = periodStart(today, 'month')
+    const lastMonth = previousPeriodStart(today, 'month')
+
+    // Revenue is net: every ticket sold, cancelled ones included, less the
+    // refunds paid back in the same period
     const { data: allTickets } = await supabase
       .from('tickets')
       .select('price, generated_at, status')
-      .in('status', ['ACTIVE', 'COMPLETED'])
 
     if (!allTickets) return initialMetrics
 
-    // Calculate total revenue from all valid tickets
-    const totalRevenue = allTickets.reduce((sum, ticket) => sum + ticket.price, 0)
-
-    // Today's data
-    const todayTickets = allTickets.filter(ticket => {
-      const ticketDate = new Date(ticket.generated_at).toISOString().split('T')[0]
-      return ticketDate === today
-    })
-    const todayRevenue = todayTickets.reduce((sum, ticket) => sum + ticket.price, 0)
-
-    // Yesterday's data
-    const yesterdayTickets = allTickets.filter(ticket => {
-      const ticketDate = new Date(ticket.generated_at).toISOString().split('T')[0]
-      return ticketDate === yesterday
-    })
-    const yesterdayRevenue = yesterdayTickets.reduce((sum, ticket) => sum + ticket.price, 0)
-
-    // This week's data
-    const thisWeekTickets = allTickets.filter(ticket => {
-      const ticketDateTime = new Date(ticket.generated_at)
-      return ticketDateTime >= new Date(thisWeekStart) && ticketDateTime <= new Date(thisWeekEnd)
-    })
-    const weekRevenue = thisWeekTickets.reduce((sum, ticket) => sum + ticket.price, 0)
-
-    // Last week's data
-    const lastWeekTickets = allTickets.filter(ticket => {
-      const ticketDateTime = new Date(ticket.generated_at)
-      return ticketDateTime >= new Date(lastWeekStart) && ticketDateTime <= new Date(lastWeekEnd)
-    })
-    const lastWeekRevenue = lastWeekTickets.reduce((sum, ticket) => sum + ticket.price, 0)
-
-    // This month's data
-    const thisMonthTickets = allTickets.filter(ticket => {
-      const ticketDateTime = new Date(ticket.generated_at)
-      return ticketDateTime >= new Date(thisMonthStart) && ticketDateTime <= new Date(thisMonthEnd)
-    })
-    const monthRevenue = thisMonthTickets.reduce((sum, ticket) => sum + ticket.price, 0)
-
-    // Last month's data
-    const lastMonthTickets = allTickets.filter(ticket => {
-      const ticketDateTime = new Date(ticket.generated_at)
-      return ticketDateTime >= new Date(lastMonthStart) && ticketDateTime <= new Date(lastMonthEnd)
-    })
-    const lastMonthRevenue = lastMonthTickets.reduce((sum, ticket) => sum + ticket.price, 0)
+    const refunds = await fetchApprovedRefunds()
+
+    const tickets = allTickets.map(ticket => ({ ...ticket, day: venueDate(ticket.generated_at, timezone) }))
+    const refundDays = refunds.map(refund => ({ ...refund, day: venueDate(refund.reviewed_at!, timezone) }))
+
+    const revenueWhere = (inPeriod: (day: string) => boolean) =>
+      tickets.filter(ticket => inPeriod(ticket.day)).reduce((sum, ticket) => sum + ticket.price, 0) -
+      sumRefunds(refundDays.filter(refund => inPeriod(refund.day)))
+
+    const totalRevenue = allTickets.reduce((sum, ticket) => sum + ticket.price, 0) - sumRefunds(refunds)
+
+    const todayTickets = tickets.filter(ticket => ticket.day === today)
+    const todayRevenue = revenueWhere(day => day === today)
+    const yesterdayRevenue = revenueWhere(day => day === yesterday)
+    const weekRevenue = revenueWhere(day => periodStart(day, 'week') === thisWeek)
+    const lastWeekRevenue = revenueWhere(day => periodStart(day, 'week') === lastWeek)
+    const monthRevenue = revenueWhere(day => periodStart(day, 'month') === thisMonth)
+    const lastMonthRevenue = revenueWhere(day => periodStart(day, 'month') === lastMonth)
 
     // Calculate growth percentages
     const weeklyGrowth = lastWeekRevenue > 0 ? ((weekRevenue - lastWeekRevenue) / lastWeekRevenue) * 100 : (weekRevenue > 0 ? 100 : 0)
@@ -175,7 +147,7 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       todayRevenue,
       weekRevenue,
       monthRevenue,
-      todayBookings: todayTickets.length,
+      todayBookings: todayTickets.filter(ticket => ticket.status !== 'REVOKED').length,
       weeklyGrowth,
       monthlyGrowth,
       lastWeekRevenue,
@@ -186,7 +158,7 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   }
 
   const fetchUpcomingEvents = async (): Promise<UpcomingEvent[]> => {
-    const today = new Date().toISOString().split('T')[0]
+    const today = venueToday(timezone)
 
     // Get upcoming shows
     const { data: shows } = await supabase
@@ -207,7 +179,7 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
     for (const show of shows) {
       // Check if show has already started
-      const showDateTime = new Date(`${show.date}T${show.time}`)
+      const showDateTime = venueDateTime(show.date, show.time, timezoneOf(show.venue_id))
       
       // Skip shows that have already started
       if (showDateTime <= now) {
@@ -215,18 +187,7 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       }
 
       // Calculate total capacity
-      let capacity = 0
-      if (show.layout?.structure?.sections) {
-        show.layout.structure.sections.forEach((section: any) => {
-          if (section.rows && Array.isArray(section.rows)) {
-            // New format with individual row configuration
-            capacity += section.rows.reduce((sum: number, row: any) => sum + row.seats, 0)
-          } else {
-            // Fallback for old format
-            capacity += section.rows * section.seatsPerRow || 0
-          }
-        })
-      }
+      const capacity = show.layout ? getLayoutCapacity(parseLayoutStructure(show.layout.structure)) : 0
 
       // Get bookings for this show
       const { data: bookings } = await supabase
@@ -316,21 +277,18 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
     if (!tickets) return { dailyRevenue: [], weeklyTickets: [], monthlyTickets: 0 }
 
-    const now = new Date()
-    const thisMonthStart = startOfMonth(now).toISOString()
-    const thisMonthEnd = endOfMonth(now).toISOString()
+    const today = venueToday(timezone)
+    const thisMonth = periodStart(today, 'month')
+    const ticketDays = tickets.map(ticket => ({ ...ticket, day: venueDate(ticket.generated_at, timezone) }))
 
     // Get last 7 days of data
     const revenueArray: number[] = []
     const ticketsArray: number[] = []
 
     for (let i = 6; i >= 0; i--) {
-      const date = subDays(new Date(), i)
-      const dateStr = date.toISOString().split('T')[0]
+      const dateStr = shiftDate(today, -i)
 
-      const dayTickets = tickets.filter(ticket =>
-        ticket.generated_at.startsWith(dateStr)
-      )
+      const dayTickets = ticketDays.filter(ticket => ticket.day === dateStr)
 
       const dayRevenue = dayTickets.reduce((sum, ticket) => sum + ticket.price, 0)
 
@@ -339,9 +297,7 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
 
     // Calculate actual monthly tickets
-    const monthlyTicketsData = tickets.filter(ticket =>
-      ticket.generated_at >= thisMonthStart && ticket.generated_at <= thisMonthEnd
-    )
+    const monthlyTicketsData = ticketDays.filter(ticket => periodStart(ticket.day, 'month') === thisMonth)
 
     return {
       dailyRevenue: revenueArray,
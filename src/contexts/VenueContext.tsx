@@ -0,0 +1,93 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react'
+import { Venue } from '../lib/supabase'
+import { useAuth } from './AuthContext'
+import { fetchVenues } from '../utils/venues'
+import { DEFAULT_TIMEZONE } from '../utils/venueTime'
+
+interface VenueContextType {
+  venues: Venue[]
+  venueId: string // The venue picked in the header; blank for all venues
+  currentVenue: Venue | null
+  timezone: string // The timezone dates are read in when no venue is given
+  timezoneOf: (venueId?: string | null) => string
+  setVenueId: (venueId: string) => void
+  refreshVenues: () => Promise<void>
+}
+
+const VenueContext = createContext<VenueContextType | undefined>(undefined)
+
+export const useVenue = () => {
+  const context = useContext(VenueContext)
+  if (context === undefined) {
+    throw new Error('useVenue must be used within a VenueProvider')
+  }
+  return context
+}
+
+// A page's own venue filter. It follows the header switcher, but can be
+// changed on the page without switching venue everywhere else.
+export const useVenueFilter = () => {
+  const { venueId } = useVenue()
+  const [venueFilter, setVenueFilter] = useState(venueId)
+
+  useEffect(() => {
+    setVenueFilter(venueId)
+  }, [venueId])
+
+  return [venueFilter, setVenueFilter] as const
+}
+
+export const VenueProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth()
+  const [venues, setVenues] = useState<Venue[]>([])
+  // Each terminal remembers the venue it was last switched to
+  const [venueId, setVenueIdState] = useState(() => localStorage.getItem('venueId') || '')
+
+  const refreshVenues = useCallback(async () => {
+    try {
+      setVenues(await fetchVenues())
+    } catch (error) {
+      console.error('Error fetching venues:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (user) refreshVenues()
+  }, [user, refreshVenues])
+
+  // Forget a venue that no longer exists
+  useEffect(() => {
+    if (venueId && venues.length > 0 && !venues.some(venue => venue.id === venueId)) {
+      setVenueIdState('')
+      localStorage.removeItem('venueId')
+    }
+  }, [venueId, venues])
+
+  const setVenueId = (id: string) => {
+    setVenueIdState(id)
+    if (id) {
+      localStorage.setItem('venueId', id)
+    } else {
+      localStorage.removeItem('venueId')
+    }
+  }
+
+  const currentVenue = venues.find(venue => venue.id === venueId) || null
+  // With all venues picked, the first venue's clock stands in
+  const timezone = currentVenue?.timezone || venues[0]?.timezone || DEFAULT_TIMEZONE
+
+  const timezoneOf = (id?: string | null) =>
+    (id && venues.find(venue => venue.id === id)?.timezone) || timezone
+
+  const value = {
+    venues,
+    venueId,
+    currentVenue,
+    timezone,
+    timezoneOf,
+    setVenueId,
+    refreshVenues
+  }
+
+  return <VenueContext.Provider value={value}>{children}</VenueContext.Provider>
+}
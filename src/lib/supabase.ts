@@ -3,28 +3,168 @@ import { createClient } from '@supabase/supabase-js'
 const supabaseUrl = process.env.REACT_APP_SUPABASE_URL || 'YOUR_SUPABASE_URL'
 const supabaseAnonKey = process.env.REACT_APP_SUPABASE_ANON_KEY || 'YOUR_SUPABASE_ANON_KEY'
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+// The signed session token from authenticate_user. Every request carries
+// it, so the database knows who is asking; without one, requests are made
+// with the anon key alone.
+const SESSION_TOKEN_KEY = 'kalari_session'
+
+export const getSessionToken = () => localStorage.getItem(SESSION_TOKEN_KEY)
+
+export const setSessionToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(SESSION_TOKEN_KEY, token)
+  } else {
+    localStorage.removeItem(SESSION_TOKEN_KEY)
+  }
+}
+
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  accessToken: async () => getSessionToken()
+})
 
 // Database types
+export interface LayoutRow {
+  rowNumber: number
+  seats: number
+}
+
+export interface LayoutSection {
+  name: string
+  rows: LayoutRow[]
+  tier?: string // Name of the price tier; sections without one use the show price
+}
+
+// A named price band such as Front, VIP or General. Shows can override the
+// price per tier through Show.tier_prices.
+export interface LayoutPriceTier {
+  name: string
+  price: number
+}
+
+export type LayoutFeatureType = 'STAGE' | 'AISLE' | 'BLOCKED'
+
+// A rectangle on the designer canvas. Aisles and blocked areas (pillars,
+// the performance pit) are drawn on the seat map but never hold seats.
+export interface LayoutFeature {
+  id: string
+  type: LayoutFeatureType
+  label: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Set once a layout has been arranged in the designer; seat positions
+// live in the seats table
+export interface LayoutCanvas {
+  width: number
+  height: number
+  features: LayoutFeature[]
+}
+
+// Current layout structure. Read stored structures through
+// parseLayoutStructure, which upgrades older versions to this shape.
+export interface LayoutStructure {
+  version: 2
+  sections: LayoutSection[]
+  tiers?: LayoutPriceTier[]
+  canvas?: LayoutCanvas
+}
+
+// Version 1: every row in a section had the same number of seats
+export interface LegacyLayoutStructure {
+  version?: 1
+  sections: {
+    name: string
+    rows: number
+    seatsPerRow: number
+  }[]
+}
+
+// An arena shows are run at. Layouts belong to a venue and shows take the
+// venue of their layout.
+export interface Venue {
+  id: string
+  name: string
+  address: string | null
+  timezone: string // IANA zone show dates and times at the venue are in
+  contact_name: string | null
+  contact_phone: string | null
+  contact_email: string | null
+  active: boolean
+  created_by: string | null
+  created_at: string
+}
+
 export interface Layout {
   id: string
   name: string
-  structure: any
+  structure: LayoutStructure | LegacyLayoutStructure
+  venue_id: string
   created_at: string
 }
 
+export type TicketCategory = 'ADULT' | 'CHILD' | 'SENIOR' | 'FOREIGNER' | 'COMPLIMENTARY'
+
+// How a ticket category is priced for a show: a percentage of the seat price
+// or a fixed amount
+export interface CategoryPriceRule {
+  type: 'PERCENT' | 'FIXED'
+  value: number
+}
+
+export type ShowStatus = 'ACTIVE' | 'HOUSE_FULL' | 'SHOW_STARTED' | 'SHOW_DONE' | 'CANCELLED' | 'RESCHEDULED'
+
 export interface Show {
   id: string
   title: string
   date: string
   time: string
-  price: number
+  price: number // Price of seats in sections without a tier
+  tier_prices?: { [tierName: string]: number } // Per-show tier price overrides
+  category_prices?: Partial<Record<TicketCategory, CategoryPriceRule>>
+  group_min_seats?: number | null // Seats a group must book to get the group rate
+  group_discount_percent?: number | null // Group rate; no group rate when null
   description?: string
   layout_id: string
+  venue_id?: string // Set from the layout by the database
   active: boolean
-  status?: 'ACTIVE' | 'HOUSE_FULL' | 'SHOW_STARTED' | 'SHOW_DONE'
+  status?: ShowStatus
+  series_id?: string | null // Set for shows generated by a recurring series
+  status_reason?: string | null // Why the show was cancelled or rescheduled
+  status_changed_by?: string | null
+  status_changed_at?: string | null
+  rescheduled_to?: string | null // The show a rescheduled show's bookings moved to
   created_at: string
   layout?: Layout
+  series?: ShowSeries | null
+}
+
+export type SeriesFrequency = 'DAILY' | 'WEEKLY'
+
+// A recurrence rule that generated a batch of shows. It ends on until_date
+// or after occurrences shows, whichever is set.
+export interface ShowSeries {
+  id: string
+  title: string
+  frequency: SeriesFrequency
+  weekdays: number[] | null // 0 = Sunday to 6 = Saturday
+  start_date: string
+  until_date: string | null
+  occurrences: number | null
+  time: string
+  skip_holidays: boolean
+  created_by: string | null
+  created_at: string
+}
+
+export interface Holiday {
+  id: string
+  date: string
+  name: string
+  created_by: string | null
+  created_at: string
 }
 
 export interface Seat {
@@ -33,8 +173,13 @@ export interface Seat {
   section: string
   row: string
   seat_number: string
-  position: { x: number; y: number }
-  price: number
+  position: SeatPosition | null
+  price: number | null // Overrides the tier and show price for this seat
+}
+
+export interface SeatPosition {
+  x: number
+  y: number
 }
 
 export interface Customer {
@@ -56,8 +201,20 @@ export interface Booking {
   customer_id?: string
   booking_time: string
   status: 'CONFIRMED' | 'CANCELLED'
+  cancelled_at?: string
+  cancelled_by?: string
+  cancellation_reason?: string
+  promo_code_id?: string | null
+  promo_code?: string | null // Code as entered, kept if the promo code is deleted
+  discount_amount?: number
+  group_name?: string | null // Set on group bookings
+  group_discount_amount?: number
+  invoice_number?: string | null
+  season_pass_id?: string | null
   customer?: Customer
+  payments?: Payment[]
   show?: Show
+  tickets?: Ticket[]
 }
 
 export interface Ticket {
@@ -67,8 +224,210 @@ export interface Ticket {
   seat_id: string
   seat_code: string
   ticket_code: string
-  price: number
+  price: number // After the ticket's share of any booking discount
+  discount_amount?: number // Group rate and promo discount taken off this ticket
+  category: TicketCategory
+  season_pass_id?: string | null
   generated_by: string
   generated_at: string
-  status: 'ACTIVE' | 'REVOKED'
-}
\ No newline at end of file
+  status: 'ACTIVE' | 'COMPLETED' | 'REVOKED'
+  revoked_at?: string
+  checked_in_at?: string
+  checked_in_by?: string
+}
+
+export type PromoDiscountType = 'PERCENT' | 'FIXED'
+
+export interface PromoCode {
+  id: string
+  code: string
+  description?: string | null
+  discount_type: PromoDiscountType
+  discount_value: number
+  show_id: string | null // Only valid for this show when set
+  valid_from: string | null // Show dates the code applies to
+  valid_until: string | null
+  expires_at: string | null // The code stops working at this time
+  max_uses: number | null
+  max_uses_per_customer: number | null
+  active: boolean
+  created_by?: string
+  created_at: string
+  show?: Show
+}
+
+// Admissions a customer has paid for up front, spent one per ticket on any
+// show between valid_from and valid_until
+export interface SeasonPass {
+  id: string
+  customer_id: string
+  pass_code: string
+  name: string
+  admissions: number
+  valid_from: string | null
+  valid_until: string | null
+  price: number
+  active: boolean
+  created_by?: string
+  created_at: string
+  tickets?: Pick<Ticket, 'id' | 'status'>[]
+}
+
+export type PaymentMethod = 'CASH' | 'UPI' | 'CARD' | 'VOUCHER'
+
+// One part of what was collected for a booking; a booking paid by cash and
+// UPI has two
+export interface Payment {
+  id: string
+  booking_id: string
+  method: PaymentMethod
+  amount: number
+  reference: string | null
+  collected_by: string
+  collected_at: string
+}
+
+export type RefundStatus = 'PENDING' | 'APPROVED' | 'REJECTED'
+
+// Raised when seats are cancelled; paid out once an admin approves it
+export interface Refund {
+  id: string
+  booking_id: string
+  show_id: string | null
+  seat_codes: string[]
+  ticket_amount: number // What the cancelled tickets were sold for
+  policy_percent: number
+  amount: number
+  method: PaymentMethod
+  reason: string | null
+  status: RefundStatus
+  requested_by: string
+  requested_at: string
+  reviewed_by: string | null
+  reviewed_at: string | null
+  paid_by: string | null // Whose drawer a cash refund came out of
+  review_note: string | null
+  show?: Pick<Show, 'id' | 'title' | 'date' | 'time'>
+}
+
+export type CashShiftStatus = 'OPEN' | 'CLOSED'
+
+// A staff member's cash drawer from opening to closing. The expected and
+// counted figures are filled in when the shift is closed.
+export interface CashShift {
+  id: string
+  staff_email: string
+  staff_name: string | null
+  status: CashShiftStatus
+  opening_float: number
+  opened_at: string
+  closed_at: string | null
+  closed_by: string | null
+  expected_totals: Partial<Record<PaymentMethod, number>> | null
+  bookings: number | null
+  cash_refunds: number | null
+  expected_cash: number | null
+  counted_cash: number | null
+  variance: number | null // Counted less expected; negative when the drawer is short
+  notes: string | null
+}
+
+export type WaitlistStatus = 'WAITING' | 'OFFERED' | 'CLAIMED' | 'EXPIRED' | 'CANCELLED'
+
+// A customer waiting for seats at a full show. Freed seats are offered in
+// the order customers joined and held for them until offer_expires_at.
+export interface WaitlistEntry {
+  id: string
+  show_id: string
+  customer_id: string
+  party_size: number
+  notes: string | null
+  status: WaitlistStatus
+  offered_seats: string[] | null
+  offered_at: string | null
+  offer_expires_at: string | null
+  booking_id: string | null
+  created_by: string | null
+  created_at: string
+  customer?: Customer
+}
+
+export type ShowMoveOutcome = 'KEPT_SEAT' | 'RESEATED' | 'REFUNDED'
+
+// Where one seat went when its show was cancelled or rescheduled
+export interface ShowBookingMove {
+  id: string
+  from_show_id: string
+  to_show_id: string | null // Null when the seat was refunded
+  booking_id: string | null
+  ticket_id: string | null
+  from_seat: string
+  to_seat: string | null
+  outcome: ShowMoveOutcome
+  moved_by: string | null
+  moved_at: string
+  booking?: Pick<Booking, 'id' | 'booked_by' | 'customer_id'> & { customer?: Pick<Customer, 'name'> | null }
+}
+
+export type NotificationKind = 'SHOW_CANCELLED' | 'SHOW_RESCHEDULED'
+export type NotificationStatus = 'PENDING' | 'SENT' | 'FAILED'
+
+// A message owed to a ticket holder, waiting in the outbox until it is sent
+export interface CustomerNotification {
+  id: string
+  booking_id: string | null
+  customer_id: string | null
+  show_id: string | null
+  kind: NotificationKind
+  recipient_name: string | null
+  recipient_email: string | null
+  recipient_phone: string | null
+  message: string
+  status: NotificationStatus
+  sent_at: string | null
+  sent_by: string | null
+  created_at: string
+}
+
+// Mirrors the permissions table
+export type Permission =
+  | 'show.edit'
+  | 'show.cancel'
+  | 'layout.edit'
+  | 'booking.create'
+  | 'booking.cancel'
+  | 'ticket.view'
+  | 'ticket.checkin'
+  | 'customer.view'
+  | 'customer.edit'
+  | 'promo.edit'
+  | 'refund.approve'
+  | 'cash.shift'
+  | 'cash.manage'
+  | 'report.view'
+  | 'settings.edit'
+  | 'staff.manage'
+
+// A set of permissions users are given together. Admins hold every
+// permission, whatever is listed for them.
+export interface Role {
+  name: string // Lower-case letters, digits and dashes, e.g. box-office
+  label: string
+  description: string | null
+  built_in: boolean
+  permissions: Permission[]
+  created_at: string
+  updated_at: string
+}
+
+// A sign-in attempt, as recorded by authenticate_user
+export interface LoginAttempt {
+  id: string
+  user_id: string | null // Null when the email matched no one
+  email: string
+  success: boolean
+  failure_reason: 'INVALID_CREDENTIALS' | 'LOCKED' | null
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+}
@@ -1,10 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react'
-import { supabase } from '../lib/supabase'
-import { 
-  startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, 
-  startOfYear, endOfYear, subDays, subWeeks, subMonths, subYears,
-  format, parseISO
-} from 'date-fns'
+import { supabase, Refund } from '../lib/supabase'
+import { format, parseISO } from 'date-fns'
 import {
   CurrencyDollarIcon,
   TicketIcon,
@@ -13,7 +9,14 @@ import {
   UserGroupIcon
 } from '@heroicons/react/24/outline'
 import { useDarkMode } from '../hooks/useDarkMode'
+import { useAuth } from '../contexts/AuthContext'
 import { logActivity } from '../utils/activityLogger'
+import { parseLayoutStructure, getLayoutCapacity } from '../utils/layoutStructure'
+import { TICKET_CATEGORY_LABELS, CategoryBreakdown, summarizeByCategory } from '../utils/ticketCategories'
+import { fetchApprovedRefunds, sumRefunds } from '../utils/refunds'
+import { useVenue, useVenueFilter } from '../contexts/VenueContext'
+import VenueSelect from '../components/VenueSelect'
+import { DatePeriod, venueDate, venueToday, venueDayRange, shiftDate, periodStart, previousPeriodStart } from '../utils/venueTime'
 
 interface AnalyticsData {
   totalRevenue: number
@@ -25,6 +28,7 @@ interface AnalyticsData {
   yearlyData: YearlyData[]
   showPerformance: ShowPerformance[]
   customerPerformance: CustomerPerformance[]
+  categoryBreakdown: CategoryBreakdown[]
   revenueComparison: RevenueComparison
 }
 
@@ -80,6 +84,7 @@ interface CustomerPerformance {
 
 const Analytics: React.FC = () => {
   const darkMode = useDarkMode()
+  const { user } = useAuth()
   const [loading, setLoading] = useState(true)
   const [analytics, setAnalytics] = useState<AnalyticsData>({
     totalRevenue: 0,
@@ -91,6 +96,7 @@ const Analytics: React.FC = () => {
     yearlyData: [],
     showPerformance: [],
     customerPerformance: [],
+    categoryBreakdown: [],
     revenueComparison: {
       currentPeriod: 0,
       previousPeriod: 0,
@@ -100,85 +106,110 @@ const Analytics: React.FC = () => {
   })
 
   // Filter states
-  const [dateRange, setDateRange] = useState({
-    start: format(subDays(new Date(), 90), 'yyyy-MM-dd'), // Extended to 90 days for more data
-    end: format(new Date(), 'yyyy-MM-dd')
+  const { venues, timezone, timezoneOf } = useVenue()
+  const [dateRange, setDateRange] = useState(() => {
+    const today = venueToday(timezone)
+    return {
+      start: shiftDate(today, -90), // Extended to 90 days for more data
+      end: today
+    }
   })
   const [viewType] = useState<'daily' | 'monthly' | 'yearly'>('daily')
-  const [comparisonPeriod, setComparisonPeriod] = useState<'day' | 'week' | 'month' | 'year'>('month')
+  const [comparisonPeriod, setComparisonPeriod] = useState<DatePeriod>('month')
+  const [venueFilter, setVenueFilter] = useVenueFilter()
+  const venueName = venues.find(venue => venue.id === venueFilter)?.name || 'All venues'
+  // Days, months and years are counted on the venue's clock
+  const venueTimezone = timezoneOf(venueFilter)
 
   const fetchAnalyticsData = useCallback(async () => {
     try {
       setLoading(true)
       
       // Fetch all tickets with show information
-      const startDate = dateRange.start + 'T00:00:00'
-      const endDate = dateRange.end + 'T23:59:59'
+      const { from: startDate, to: endDate } = venueDayRange(dateRange.start, dateRange.end, venueTimezone)
       
       console.log('Fetching analytics data for date range:', { startDate, endDate })
       
-      const { data: tickets, error } = await supabase
+      // Fetch shows for capacity calculation
+      let showsQuery = supabase
+        .from('shows')
+        .select(`
+          *,
+          layout:layouts(structure)
+        `)
+      if (venueFilter) {
+        showsQuery = showsQuery.eq('venue_id', venueFilter)
+      }
+      const { data: shows } = await showsQuery
+
+      // Everything below is narrowed to the shows at the chosen venue
+      const venueShowIds = new Set((shows || []).map(show => show.id))
+      const atVenue = (showId?: string | null) => !venueFilter || (!!showId && venueShowIds.has(showId))
+
+      const { data: allRangeTickets, error } = await supabase
         .from('tickets')
         .select(`
           *,
           show:shows(id, title, date, time, price)
         `)
-        .in('status', ['ACTIVE', 'COMPLETED'])
         .gte('generated_at', startDate)
         .lte('generated_at', endDate)
 
       if (error) throw error
 
-      console.log('Fetched tickets:', tickets?.length || 0, 'tickets')
+      const tickets = allRangeTickets?.filter(ticket => atVenue(ticket.show_id))
 
-      // Fetch shows for capacity calculation
-      const { data: shows } = await supabase
-        .from('shows')
-        .select(`
-          *,
-          layout:layouts(structure)
-        `)
+      console.log('Fetched tickets:', tickets?.length || 0, 'tickets')
 
       if (!tickets || !shows) {
         console.log('No tickets or shows found')
         return
       }
 
+      // Revenue is net: cancelled tickets still count as sold, and refunds
+      // paid back in the date range come off
+      const refunds = (await fetchApprovedRefunds(startDate, endDate)).filter(refund => atVenue(refund.show_id))
+      const soldTickets = tickets.filter(ticket => ticket.status !== 'REVOKED')
+
       // Calculate basic metrics (filtered by date range)
-      const totalRevenue = tickets.reduce((sum, ticket) => sum + ticket.price, 0)
-      const totalTickets = tickets.length
+      const totalRevenue = tickets.reduce((sum, ticket) => sum + ticket.price, 0) - sumRefunds(refunds)
+      const totalTickets = soldTickets.length
       const averageTicketPrice = totalTickets > 0 ? totalRevenue / totalTickets : 0
       
       // Calculate average tickets per show (independent of date filter)
-      const { data: allTickets } = await supabase
+      const { data: everyTicket } = await supabase
         .from('tickets')
         .select(`
           id,
           show:shows(id)
         `)
         .in('status', ['ACTIVE', 'COMPLETED'])
-      
+
+      const allTickets = everyTicket?.filter((ticket: any) => atVenue(ticket.show?.id))
       const allUniqueShows = new Set(allTickets?.map((ticket: any) => ticket.show?.id).filter(Boolean) || [])
       const totalAllTickets = allTickets?.length || 0
       const averageTicketsPerShow = allUniqueShows.size > 0 ? totalAllTickets / allUniqueShows.size : 0
 
       // Process daily data
-      const dailyData = processDailyData(tickets)
+      const dailyData = processDailyData(tickets, refunds, venueTimezone)
       
       // Process monthly data
-      const monthlyData = processMonthlyData(tickets)
+      const monthlyData = processMonthlyData(tickets, refunds, venueTimezone)
       
       // Process yearly data
-      const yearlyData = processYearlyData(tickets)
+      const yearlyData = processYearlyData(tickets, refunds, venueTimezone)
 
       // Calculate show performance
-      const showPerformance = await calculateShowPerformance(shows, tickets)
+      const showPerformance = await calculateShowPerformance(shows, tickets, refunds)
 
       // Calculate customer performance
-      const customerPerformance = await calculateCustomerPerformance(startDate, endDate)
+      const customerPerformance = await calculateCustomerPerformance(startDate, endDate, atVenue)
+
+      // Tickets and revenue per ticket category
+      const categoryBreakdown = summarizeByCategory(soldTickets)
 
       // Calculate revenue comparison
-      const revenueComparison = calculateRevenueComparison(tickets, comparisonPeriod)
+      const revenueComparison = calculateRevenueComparison(tickets, refunds, comparisonPeriod, venueTimezone)
 
       console.log('Analytics data processed:', {
         totalRevenue,
@@ -199,6 +230,7 @@ const Analytics: React.FC = () => {
         yearlyData,
         showPerformance,
         customerPerformance,
+        categoryBreakdown,
         revenueComparison
       })
 
@@ -207,26 +239,33 @@ const Analytics: React.FC = () => {
     } finally {
       setLoading(false)
     }
-  }, [dateRange, comparisonPeriod])
+  }, [dateRange, comparisonPeriod, venueFilter, venueTimezone])
 
   useEffect(() => {
     fetchAnalyticsData()
   }, [fetchAnalyticsData])
 
-  const processDailyData = (tickets: any[]): DailyData[] => {
+  const processDailyData = (tickets: any[], refunds: Pick<Refund, 'amount' | 'show_id' | 'reviewed_at'>[], timezone: string): DailyData[] => {
     const dailyMap = new Map<string, { revenue: number; tickets: number; shows: Set<string> }>()
 
     tickets.forEach(ticket => {
-      const date = format(parseISO(ticket.generated_at), 'yyyy-MM-dd')
+      const date = venueDate(ticket.generated_at, timezone)
       const existing = dailyMap.get(date) || { revenue: 0, tickets: 0, shows: new Set() }
       
       existing.revenue += ticket.price
-      existing.tickets += 1
+      if (ticket.status !== 'REVOKED') existing.tickets += 1
       if (ticket.show?.id) existing.shows.add(ticket.show.id)
       
       dailyMap.set(date, existing)
     })
 
+    refunds.forEach(refund => {
+      const date = venueDate(refund.reviewed_at!, timezone)
+      const existing = dailyMap.get(date) || { revenue: 0, tickets: 0, shows: new Set() }
+      existing.revenue -= Number(refund.amount)
+      dailyMap.set(date, existing)
+    })
+
     return Array.from(dailyMap.entries())
       .map(([date, data]) => ({
         date,
@@ -237,20 +276,27 @@ const Analytics: React.FC = () => {
       .sort((a, b) => a.date.localeCompare(b.date))
   }
 
-  const processMonthlyData = (tickets: any[]): MonthlyData[] => {
+  const processMonthlyData = (tickets: any[], refunds: Pick<Refund, 'amount' | 'show_id' | 'reviewed_at'>[], timezone: string): MonthlyData[] => {
     const monthlyMap = new Map<string, { revenue: number; tickets: number; shows: Set<string> }>()
 
     tickets.forEach(ticket => {
-      const month = format(parseISO(ticket.generated_at), 'yyyy-MM')
+      const month = venueDate(ticket.generated_at, timezone).slice(0, 7)
       const existing = monthlyMap.get(month) || { revenue: 0, tickets: 0, shows: new Set() }
       
       existing.revenue += ticket.price
-      existing.tickets += 1
+      if (ticket.status !== 'REVOKED') existing.tickets += 1
       if (ticket.show?.id) existing.shows.add(ticket.show.id)
       
       monthlyMap.set(month, existing)
     })
 
+    refunds.forEach(refund => {
+      const month = venueDate(refund.reviewed_at!, timezone).slice(0, 7)
+      const existing = monthlyMap.get(month) || { revenue: 0, tickets: 0, shows: new Set() }
+      existing.revenue -= Number(refund.amount)
+      monthlyMap.set(month, existing)
+    })
+
     return Array.from(monthlyMap.entries())
       .map(([month, data]) => ({
         month,
@@ -261,20 +307,27 @@ const Analytics: React.FC = () => {
       .sort((a, b) => a.month.localeCompare(b.month))
   }
 
-  const processYearlyData = (tickets: any[]): YearlyData[] => {
+  const processYearlyData = (tickets: any[], refunds: Pick<Refund, 'amount' | 'show_id' | 'reviewed_at'>[], timezone: string): YearlyData[] => {
     const yearlyMap = new Map<string, { revenue: number; tickets: number; shows: Set<string> }>()
 
     tickets.forEach(ticket => {
-      const year = format(parseISO(ticket.generated_at), 'yyyy')
+      const year = venueDate(ticket.generated_at, timezone).slice(0, 4)
       const existing = yearlyMap.get(year) || { revenue: 0, tickets: 0, shows: new Set() }
       
       existing.revenue += ticket.price
-      existing.tickets += 1
+      if (ticket.status !== 'REVOKED') existing.tickets += 1
       if (ticket.show?.id) existing.shows.add(ticket.show.id)
       
       yearlyMap.set(year, existing)
     })
 
+    refunds.forEach(refund => {
+      const year = venueDate(refund.reviewed_at!, timezone).slice(0, 4)
+      const existing = yearlyMap.get(year) || { revenue: 0, tickets: 0, shows: new Set() }
+      existing.revenue -= Number(refund.amount)
+      yearlyMap.set(year, existing)
+    })
+
     return Array.from(yearlyMap.entries())
       .map(([year, data]) => ({
         year,
@@ -285,23 +338,12 @@ const Analytics: React.FC = () => {
       .sort((a, b) => a.year.localeCompare(b.year))
   }
 
-  const calculateShowPerformance = async (shows: any[], tickets: any[]): Promise<ShowPerformance[]> => {
+  const calculateShowPerformance = async (shows: any[], tickets: any[], refunds: Pick<Refund, 'amount' | 'show_id' | 'reviewed_at'>[]): Promise<ShowPerformance[]> => {
     const showPerformanceMap = new Map<string, { revenue: number; tickets: number; capacity: number; showName: string; showDate: string }>()
 
     // Calculate capacity for each show
     shows.forEach(show => {
-      let capacity = 0
-      if (show.layout?.structure?.sections) {
-        show.layout.structure.sections.forEach((section: any) => {
-          if (section.rows && Array.isArray(section.rows)) {
-            // New format with individual row configuration
-            capacity += section.rows.reduce((sum: number, row: any) => sum + row.seats, 0)
-          } else {
-            // Fallback for old format
-            capacity += section.rows * section.seatsPerRow || 0
-          }
-        })
-      }
+      const capacity = show.layout ? getLayoutCapacity(parseLayoutStructure(show.layout.structure)) : 0
 
       showPerformanceMap.set(show.id, {
         revenue: 0,
@@ -317,10 +359,15 @@ const Analytics: React.FC = () => {
       if (ticket.show?.id && showPerformanceMap.has(ticket.show.id)) {
         const existing = showPerformanceMap.get(ticket.show.id)!
         existing.revenue += ticket.price
-        existing.tickets += 1
+        if (ticket.status !== 'REVOKED') existing.tickets += 1
       }
     })
 
+    refunds.forEach(refund => {
+      const existing = refund.show_id && showPerformanceMap.get(refund.show_id)
+      if (existing) existing.revenue -= Number(refund.amount)
+    })
+
     return Array.from(showPerformanceMap.entries())
       .map(([showId, data]) => ({
         showName: data.showName,
@@ -334,7 +381,11 @@ const Analytics: React.FC = () => {
       .sort((a, b) => b.revenue - a.revenue)
   }
 
-  const calculateCustomerPerformance = async (startDate: string, endDate: string): Promise<CustomerPerformance[]> => {
+  const calculateCustomerPerformance = async (
+    startDate: string,
+    endDate: string,
+    atVenue: (showId?: string | null) => boolean
+  ): Promise<CustomerPerformance[]> => {
     try {
       // Fetch bookings with customer and ticket information
       const { data: bookings, error } = await supabase
@@ -342,6 +393,7 @@ const Analytics: React.FC = () => {
         .select(`
           id,
           customer_id,
+          show_id,
           booking_time,
           customers!customer_id(id, name, email),
           tickets(id, price, status)
@@ -366,7 +418,7 @@ const Analytics: React.FC = () => {
       }>()
 
       bookings.forEach((booking: any) => {
-        if (!booking.customers) return
+        if (!booking.customers || !atVenue(booking.show_id)) return
 
         const customer = booking.customers
         const customerId = customer.id
@@ -411,54 +463,19 @@ const Analytics: React.FC = () => {
     }
   }
 
-  const calculateRevenueComparison = (tickets: any[], period: string): RevenueComparison => {
-    const now = new Date()
-    let currentStart: Date, currentEnd: Date, previousStart: Date, previousEnd: Date
-
-    switch (period) {
-      case 'day':
-        currentStart = startOfDay(now)
-        currentEnd = endOfDay(now)
-        previousStart = startOfDay(subDays(now, 1))
-        previousEnd = endOfDay(subDays(now, 1))
-        break
-      case 'week':
-        currentStart = startOfWeek(now)
-        currentEnd = endOfWeek(now)
-        previousStart = startOfWeek(subWeeks(now, 1))
-        previousEnd = endOfWeek(subWeeks(now, 1))
-        break
-      case 'month':
-        currentStart = startOfMonth(now)
-        currentEnd = endOfMonth(now)
-        previousStart = startOfMonth(subMonths(now, 1))
-        previousEnd = endOfMonth(subMonths(now, 1))
-        break
-      case 'year':
-        currentStart = startOfYear(now)
-        currentEnd = endOfYear(now)
-        previousStart = startOfYear(subYears(now, 1))
-        previousEnd = endOfYear(subYears(now, 1))
-        break
-      default:
-        currentStart = startOfMonth(now)
-        currentEnd = endOfMonth(now)
-        previousStart = startOfMonth(subMonths(now, 1))
-        previousEnd = endOfMonth(subMonths(now, 1))
-    }
+  const calculateRevenueComparison = (tickets: any[], refunds: Pick<Refund, 'amount' | 'show_id' | 'reviewed_at'>[], period: DatePeriod, timezone: string): RevenueComparison => {
+    const today = venueToday(timezone)
+    const currentStart = periodStart(today, period)
+    const previousStart = previousPeriodStart(today, period)
+    const startOfPeriod = (instant: string) => periodStart(venueDate(instant, timezone), period)
 
-    const currentPeriodTickets = tickets.filter(ticket => {
-      const ticketDate = parseISO(ticket.generated_at)
-      return ticketDate >= currentStart && ticketDate <= currentEnd
-    })
+    const currentPeriodTickets = tickets.filter(ticket => startOfPeriod(ticket.generated_at) === currentStart)
+    const previousPeriodTickets = tickets.filter(ticket => startOfPeriod(ticket.generated_at) === previousStart)
 
-    const previousPeriodTickets = tickets.filter(ticket => {
-      const ticketDate = parseISO(ticket.generated_at)
-      return ticketDate >= previousStart && ticketDate <= previousEnd
-    })
+    const refundsIn = (start: string) => sumRefunds(refunds.filter(refund => startOfPeriod(refund.reviewed_at!) === start))
 
-    const currentPeriod = currentPeriodTickets.reduce((sum, ticket) => sum + ticket.price, 0)
-    const previousPeriod = previousPeriodTickets.reduce((sum, ticket) => sum + ticket.price, 0)
+    const currentPeriod = currentPeriodTickets.reduce((sum, ticket) => sum + ticket.price, 0) - refundsIn(currentStart)
+    const previousPeriod = previousPeriodTickets.reduce((sum, ticket) => sum + ticket.price, 0) - refundsIn(previousStart)
     const growthRate = previousPeriod > 0 ? ((currentPeriod - previousPeriod) / previousPeriod) * 100 : 0
 
     return {
@@ -476,18 +493,18 @@ const Analytics: React.FC = () => {
         totalTickets: analytics.totalTickets,
         averageTicketPrice: analytics.averageTicketPrice,
         averageTicketsPerShow: analytics.averageTicketsPerShow,
-        dateRange: dateRange
+        dateRange: dateRange,
+        venue: venueName
       },
       dailyData: analytics.dailyData,
       monthlyData: analytics.monthlyData,
       yearlyData: analytics.yearlyData,
       showPerformance: analytics.showPerformance,
       customerPerformance: analytics.customerPerformance,
+      categoryBreakdown: analytics.categoryBreakdown,
       revenueComparison: analytics.revenueComparison
     }
 
-    // Get current user email for logging
-    const { data: { user } } = await supabase.auth.getUser()
     const userEmail = user?.email || 'unknown'
 
     if (exportFormat === 'json') {
@@ -507,6 +524,7 @@ const Analytics: React.FC = () => {
         details: {
           format: 'JSON',
           dateRange: dateRange,
+          venue: venueName,
           totalRevenue: analytics.totalRevenue,
           totalTickets: analytics.totalTickets,
           exported_at: new Date().toISOString()
@@ -520,13 +538,14 @@ const Analytics: React.FC = () => {
       // Header with date range
       csvSections.push('Analytics Dashboard Report')
       csvSections.push(`Date Range: ${dateRange.start} to ${dateRange.end}`)
+      csvSections.push(`Venue: ${venueName}`)
       csvSections.push(`Generated: ${format(new Date(), 'yyyy-MM-dd h:mm:ss a')}`)
       csvSections.push('')
       
       // Summary metrics
       csvSections.push('SUMMARY METRICS')
       csvSections.push('Metric,Value')
-      csvSections.push(`Total Revenue,"${analytics.totalRevenue} INR"`)
+      csvSections.push(`Net Revenue,"${analytics.totalRevenue} INR"`)
       csvSections.push(`Total Tickets,${analytics.totalTickets}`)
       csvSections.push(`Average Ticket Price,"${analytics.averageTicketPrice.toFixed(0)} INR"`)
       csvSections.push(`Average Tickets Per Show,${analytics.averageTicketsPerShow.toFixed(0)}`)
@@ -574,6 +593,16 @@ const Analytics: React.FC = () => {
         csvSections.push('')
       }
       
+      // Ticket category data
+      if (analytics.categoryBreakdown.length > 0) {
+        csvSections.push('TICKET CATEGORIES')
+        csvSections.push('Category,Tickets,Revenue (INR)')
+        analytics.categoryBreakdown.forEach(entry => {
+          csvSections.push(`${TICKET_CATEGORY_LABELS[entry.category]},${entry.tickets},${entry.revenue}`)
+        })
+        csvSections.push('')
+      }
+
       // Customer performance data
       if (analytics.customerPerformance.length > 0) {
         csvSections.push('CUSTOMER PERFORMANCE')
@@ -601,6 +630,7 @@ const Analytics: React.FC = () => {
         details: {
           format: 'CSV',
           dateRange: dateRange,
+          venue: venueName,
           totalRevenue: analytics.totalRevenue,
           totalTickets: analytics.totalTickets,
           exported_at: new Date().toISOString()
@@ -659,6 +689,15 @@ const Analytics: React.FC = () => {
                   : 'bg-white border-gray-300 text-gray-900'
               }`}
             />
+            <VenueSelect
+              value={venueFilter}
+              onChange={setVenueFilter}
+              className={`w-full sm:w-auto px-3 py-2 border rounded-lg text-sm transition-colors duration-200 ${
+                darkMode 
+                  ? 'bg-gray-800 border-gray-600 text-white' 
+                  : 'bg-white border-gray-300 text-gray-900'
+              }`}
+            />
           </div>
 
           {/* Export */}
@@ -684,7 +723,7 @@ const Analytics: React.FC = () => {
             </div>
           </div>
           <div>
-            <h3 className={`text-sm font-medium mb-1 transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Total Revenue</h3>
+            <h3 className={`text-sm font-medium mb-1 transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Net Revenue</h3>
             <p className={`text-2xl font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>₹{analytics.totalRevenue.toLocaleString()}</p>
           </div>
         </div>
@@ -911,6 +950,35 @@ const Analytics: React.FC = () => {
         </div>
       </div>
 
+      {/* Ticket Categories */}
+      <div className={`rounded-2xl p-6 mb-8 shadow-sm border transition-colors duration-200 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+        <h3 className={`text-lg font-semibold mb-4 transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          Ticket Categories
+        </h3>
+
+        {analytics.categoryBreakdown.length === 0 ? (
+          <div className={`py-8 text-center text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            No ticket category data available
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {analytics.categoryBreakdown.map(entry => (
+              <div key={entry.category} className={`p-4 rounded-xl transition-colors duration-200 ${darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                  {TICKET_CATEGORY_LABELS[entry.category]}
+                </div>
+                <div className={`text-2xl font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                  {entry.tickets}
+                </div>
+                <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  ₹{entry.revenue.toLocaleString()} · {analytics.totalTickets > 0 ? ((entry.tickets / analytics.totalTickets) * 100).toFixed(1) : '0.0'}% of tickets
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Revenue Comparison Details */}
       <div className={`rounded-2xl p-6 shadow-sm border transition-colors duration-200 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
         <div className="flex items-center justify-between mb-6">
@@ -919,7 +987,7 @@ const Analytics: React.FC = () => {
           </h3>
           <select
             value={comparisonPeriod}
-            onChange={(e) => setComparisonPeriod(e.target.value as 'day' | 'week' | 'month' | 'year')}
+            onChange={(e) => setComparisonPeriod(e.target.value as DatePeriod)}
             className={`px-3 py-2 border rounded-lg text-sm transition-colors duration-200 ${
               darkMode 
                 ? 'bg-gray-700 border-gray-600 text-white' 
@@ -1,9 +1,40 @@
 import React, { useState, useEffect } from 'react'
-import { supabase, Show, Customer } from '../lib/supabase'
+import { supabase, Show, Customer, LayoutSection, LayoutRow, TicketCategory, PromoDiscountType, SeasonPass, PaymentMethod, WaitlistEntry } from '../lib/supabase'
 import { motion } from 'framer-motion'
 import { format } from 'date-fns'
+import { useAuth } from '../contexts/AuthContext'
+import { useVenue, useVenueFilter } from '../contexts/VenueContext'
+import { venueToday, shiftDate } from '../utils/venueTime'
 import { useDarkMode } from '../hooks/useDarkMode'
-import { logBookingCreation } from '../utils/activityLogger'
+import { bookSeats, BookedTicket } from '../utils/seatBooking'
+import { holdSeats, releaseSeatHolds, fetchOtherTerminalHolds } from '../utils/seatHolds'
+import { parseSeatCodes } from '../utils/bookingCancellation'
+import { advanceShowLifecycle } from '../utils/showLifecycle'
+import { parseLayoutStructure, getRowLetter, getSectionMaxRowSeats } from '../utils/layoutStructure'
+import { SeatPositions, fetchSeatPositions, resolveSeatPositions } from '../utils/seatPositions'
+import { getSeatPrice, getShowTierPrices, fetchSeatPrices, formatPriceRange } from '../utils/seatPricing'
+import { TICKET_CATEGORIES, TICKET_CATEGORY_LABELS, getTicketPrice } from '../utils/ticketCategories'
+import { validatePromoCode, getPromoDiscount, PROMO_ERROR_CODES, PromoErrorCode } from '../utils/promoCodes'
+import { qualifiesForGroupRate, getGroupRateShare, describeGroupRate, printGroupInvoice } from '../utils/groupBookings'
+import { fetchCustomerSeasonPasses, getSeasonPassBalance, canRedeemSeasonPass } from '../utils/seasonPasses'
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PAYMENT_METHODS_NEEDING_REFERENCE, PaymentInput, validatePayments } from '../utils/payments'
+import { claimWaitlistOffer } from '../utils/waitlist'
+import SeatCanvas, { SeatLegend, SeatState } from '../components/SeatCanvas'
+import WaitlistPanel from '../components/WaitlistPanel'
+import VenueSelect from '../components/VenueSelect'
+
+interface AppliedPromo {
+  code: string
+  discountType: PromoDiscountType
+  discountValue: number
+}
+
+// A payment row in the confirm dialog; amount stays a string while typing
+interface PaymentRow {
+  method: PaymentMethod
+  amount: string
+  reference: string
+}
 
 interface SeatData {
   id: string
@@ -12,6 +43,7 @@ interface SeatData {
   seat_number: string
   price: number
   booked: boolean
+  held: boolean // Held at another terminal
   seatName?: string
 }
 
@@ -21,15 +53,46 @@ const Booking: React.FC = () => {
   const [selectedShow, setSelectedShow] = useState<Show | null>(null)
   const [seats, setSeats] = useState<SeatData[]>([])
   const [selectedSeats, setSelectedSeats] = useState<string[]>([])
+  const [seatCategories, setSeatCategories] = useState<{ [seatId: string]: TicketCategory }>({})
   const [customers, setCustomers] = useState<Customer[]>([])
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
   const [loading, setLoading] = useState(false)
   const [showConfirmation, setShowConfirmation] = useState(false)
   const [showCustomerModal, setShowCustomerModal] = useState(false)
-  const [bookingResult, setBookingResult] = useState<any>(null)
+  const [bookingResult, setBookingResult] = useState<{
+    bookingId: string
+    tickets: BookedTicket[]
+    discountAmount: number
+    promoCode: string | null
+    groupName: string | null
+    groupDiscountAmount: number
+    invoiceNumber: string | null
+    paidWithSeasonPass: boolean
+    payments: PaymentInput[]
+    totalAmount: number
+  } | null>(null)
+  const [bookingConflict, setBookingConflict] = useState<{ error: string; conflicts: string[] } | null>(null)
   const [selectedDate, setSelectedDate] = useState<string>('') // Date filter state
   const [customerSearchTerm, setCustomerSearchTerm] = useState('')
   const [submittingCustomer, setSubmittingCustomer] = useState(false)
+  const [holdExpiresAt, setHoldExpiresAt] = useState<string | null>(null)
+  const [holdSecondsLeft, setHoldSecondsLeft] = useState<number | null>(null)
+  const [seatPositions, setSeatPositions] = useState<SeatPositions>({})
+  const [promoInput, setPromoInput] = useState('')
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null)
+  const [promoError, setPromoError] = useState<string | null>(null)
+  const [applyingPromo, setApplyingPromo] = useState(false)
+  const [isGroupBooking, setIsGroupBooking] = useState(false)
+  const [groupName, setGroupName] = useState('')
+  const [seasonPasses, setSeasonPasses] = useState<SeasonPass[]>([])
+  const [selectedSeasonPassId, setSelectedSeasonPassId] = useState('')
+  const [payments, setPayments] = useState<PaymentRow[]>([])
+  const [paymentError, setPaymentError] = useState<string | null>(null)
+  const [waitlistEntryId, setWaitlistEntryId] = useState<string | null>(null) // Offer being booked
+  const { user } = useAuth()
+  const { venues, timezone, timezoneOf } = useVenue()
+  const [venueFilter, setVenueFilter] = useVenueFilter()
+  const today = venueToday(timezoneOf(venueFilter))
   const darkMode = useDarkMode()
 
   // Filter customers based on search term
@@ -45,35 +108,132 @@ const Booking: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  // Season passes the selected customer could pay with
+  useEffect(() => {
+    setSelectedSeasonPassId('')
+    setSeasonPasses([])
+    if (!selectedCustomer) return
+
+    fetchCustomerSeasonPasses(selectedCustomer.id)
+      .then(setSeasonPasses)
+      .catch(error => console.error('Error fetching season passes:', error))
+  }, [selectedCustomer])
+
   useEffect(() => {
+    setBookingConflict(null)
     if (selectedShow) {
       fetchSeatsForShow(selectedShow.id)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedShow])
 
-  // Filter shows by selected date
+  // Release this terminal's holds when switching shows or leaving the page
+  useEffect(() => {
+    if (!selectedShow) return
+    const showId = selectedShow.id
+    return () => {
+      releaseSeatHolds(showId)
+      setSelectedSeats([])
+      setSeatCategories({})
+      setHoldExpiresAt(null)
+      setWaitlistEntryId(null)
+      // Promo codes can be limited to a show, so check again for the next one
+      setAppliedPromo(null)
+      setPromoInput('')
+      setPromoError(null)
+    }
+  }, [selectedShow])
+
+  // Keep the seat map live while other counters book, cancel and hold seats
   useEffect(() => {
-    if (selectedDate) {
-      const filteredShows = allShows.filter(show => show.date === selectedDate)
-      setShows(filteredShows)
-    } else {
-      setShows(allShows) // Show all shows if no date selected
+    if (!selectedShow) return
+    const showId = selectedShow.id
+
+    const channel = supabase
+      .channel(`seat-map-${showId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bookings', filter: `show_id=eq.${showId}` }, () => {
+        refreshBookedSeats(showId)
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'tickets', filter: `show_id=eq.${showId}` }, () => {
+        refreshBookedSeats(showId)
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'seat_holds' }, () => {
+        refreshHeldSeats(showId)
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedShow])
+
+  // Drop selected seats that another counter has booked in the meantime.
+  // Skipped while our own booking is in flight so it doesn't flag itself.
+  useEffect(() => {
+    if (loading) return
+
+    const takenSeats = selectedSeats.filter(seatId => seats.find(seat => seat.id === seatId)?.booked)
+    if (takenSeats.length === 0) return
+
+    setSelectedSeats(prev => prev.filter(seatId => !takenSeats.includes(seatId)))
+    setBookingConflict({
+      error: 'Some of your selected seats were just booked at another counter',
+      conflicts: takenSeats
+    })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [seats, loading])
+
+  // Count down the hold and drop the selection when it runs out
+  useEffect(() => {
+    if (!holdExpiresAt) {
+      setHoldSecondsLeft(null)
+      return
+    }
+
+    const tick = () => {
+      const secondsLeft = Math.max(0, Math.round((new Date(holdExpiresAt).getTime() - Date.now()) / 1000))
+      setHoldSecondsLeft(secondsLeft)
+      if (secondsLeft === 0) {
+        handleHoldExpired()
+      }
+    }
+
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [holdExpiresAt])
+
+  // Filter shows by selected date and venue
+  useEffect(() => {
+    setShows(allShows.filter(show =>
+      (!selectedDate || show.date === selectedDate) &&
+      (!venueFilter || show.venue_id === venueFilter)
+    ))
     // Reset selected show if it's not in the filtered results
-    if (selectedShow && selectedDate && selectedShow.date !== selectedDate) {
+    if (selectedShow && ((selectedDate && selectedShow.date !== selectedDate) ||
+      (venueFilter && selectedShow.venue_id !== venueFilter))) {
       setSelectedShow(null)
     }
-  }, [selectedDate, allShows, selectedShow])
+  }, [selectedDate, venueFilter, allShows, selectedShow])
 
   // Get unique dates from all shows for quick selection
   const getAvailableDates = () => {
-    const uniqueDates = new Set(allShows.map(show => show.date))
+    const uniqueDates = new Set(allShows
+      .filter(show => !venueFilter || show.venue_id === venueFilter)
+      .map(show => show.date))
     const dates = Array.from(uniqueDates).sort()
     return dates
   }
 
   const fetchActiveShows = async () => {
+    try {
+      await advanceShowLifecycle(user?.email || 'unknown')
+    } catch (error) {
+      console.error('Error advancing show statuses:', error)
+    }
+
     try {
       const { data, error } = await supabase
         .from('shows')
@@ -81,17 +241,14 @@ const Booking: React.FC = () => {
           *,
           layout:layouts(*)
         `)
-        .in('status', ['ACTIVE', 'SHOW_STARTED'])
-        .gte('date', new Date().toISOString().split('T')[0])
+        .in('status', ['ACTIVE', 'SHOW_STARTED', 'HOUSE_FULL']) // Full shows are listed for their waitlist
+        .gte('date', venueToday(timezone))
         .order('date')
 
       if (error) throw error
-      
-      const updatedShows = await checkAndUpdateShowStatuses(data || [])
-      const activeShows = updatedShows.filter(show => show.status === 'ACTIVE' || show.status === 'SHOW_STARTED')
-      
-      setAllShows(activeShows) // Store all shows
-      setShows(activeShows) // Initially show all shows
+
+      setAllShows(data || []) // Store all shows
+      setShows(data || []) // Initially show all shows
     } catch (error) {
       console.error('Error fetching shows:', error)
     }
@@ -111,148 +268,6 @@ const Booking: React.FC = () => {
     }
   }
 
-  const checkAndUpdateShowStatuses = async (shows: Show[]) => {
-    const updatedShows = []
-    
-    for (const show of shows) {
-      let updatedShow = { ...show }
-      
-      const showDateTime = new Date(`${show.date}T${show.time}`)
-      const now = new Date()
-      
-      const thirtyMinutesAfterShow = new Date(showDateTime.getTime() + 30 * 60 * 1000)
-
-      if (now > thirtyMinutesAfterShow && show.status !== 'SHOW_DONE') {
-        try {
-          console.log(`Updating show ${show.title} to SHOW_DONE and tickets to COMPLETED`)
-          
-          const { error: showError } = await supabase
-            .from('shows')
-            .update({ status: 'SHOW_DONE' })
-            .eq('id', show.id)
-
-          if (showError) {
-            console.error('Error updating show status:', showError)
-          } else {
-            const { error: ticketError } = await supabase
-              .from('tickets')
-              .update({ status: 'COMPLETED' })
-              .eq('show_id', show.id)
-              .in('status', ['ACTIVE'])
-
-            if (ticketError) {
-              console.error('Error updating ticket status:', ticketError)
-            } else {
-              console.log(`Successfully updated tickets for show ${show.title} to COMPLETED`)
-            }
-          }
-        } catch (error) {
-          console.error(`Error processing show ${show.title}:`, error)
-        }
-        
-        updatedShow.status = 'SHOW_DONE'
-      } 
-      else if (now > showDateTime && now <= thirtyMinutesAfterShow && show.status === 'ACTIVE') {
-        try {
-          console.log(`Updating show ${show.title} from ${show.status} to SHOW_STARTED`)
-          
-          const { error: showError } = await supabase
-            .from('shows')
-            .update({ status: 'SHOW_STARTED' })
-            .eq('id', show.id)
-
-          if (showError) {
-            console.error('Error updating show status to SHOW_STARTED:', showError)
-          } else {
-            console.log(`Successfully updated show ${show.title} to SHOW_STARTED`)
-          }
-        } catch (error) {
-          console.error(`Error processing show ${show.title}:`, error)
-        }
-        
-        updatedShow.status = 'SHOW_STARTED'
-      }
-      else if (now > showDateTime && show.status === 'HOUSE_FULL') {
-        try {
-          console.log(`Updating HOUSE_FULL show ${show.title} directly to SHOW_DONE and tickets to COMPLETED`)
-          
-          const { error: showError } = await supabase
-            .from('shows')
-            .update({ status: 'SHOW_DONE' })
-            .eq('id', show.id)
-
-          if (showError) {
-            console.error('Error updating show status:', showError)
-          } else {
-            const { error: ticketError } = await supabase
-              .from('tickets')
-              .update({ status: 'COMPLETED' })
-              .eq('show_id', show.id)
-              .in('status', ['ACTIVE'])
-
-            if (ticketError) {
-              console.error('Error updating ticket status:', ticketError)
-            } else {
-              console.log(`Successfully updated tickets for HOUSE_FULL show ${show.title} to COMPLETED`)
-            }
-          }
-        } catch (error) {
-          console.error(`Error processing show ${show.title}:`, error)
-        }
-        
-        updatedShow.status = 'SHOW_DONE'
-      } else if (show.status === 'ACTIVE') {
-        const isHouseFull = await checkIfHouseFull(show)
-        if (isHouseFull) {
-          await supabase
-            .from('shows')
-            .update({ status: 'HOUSE_FULL' })
-            .eq('id', show.id)
-          updatedShow.status = 'HOUSE_FULL'
-        }
-      }
-      
-      updatedShows.push(updatedShow)
-    }
-    
-    return updatedShows
-  }
-
-  const checkIfHouseFull = async (show: Show) => {
-    try {
-      if (!show.layout) return false
-      
-      const totalSeats = show.layout.structure.sections?.reduce((total: number, section: any) => {
-        if (section.rows && Array.isArray(section.rows)) {
-          return total + section.rows.reduce((sum: number, row: any) => sum + row.seats, 0)
-        }
-        return total + (section.rows * section.seatsPerRow || 0)
-      }, 0) || 0
-      
-      const { data: bookings } = await supabase
-        .from('bookings')
-        .select('seat_code')
-        .eq('show_id', show.id)
-        .eq('status', 'CONFIRMED')
-      
-      const bookedSeatsCount = bookings?.reduce((count, booking) => {
-        try {
-          const seats = JSON.parse(booking.seat_code)
-          return count + (Array.isArray(seats) ? seats.length : 1)
-        } catch {
-          return count + (booking.seat_code.includes(',') 
-            ? booking.seat_code.split(',').length 
-            : 1)
-        }
-      }, 0) || 0
-      
-      return bookedSeatsCount >= totalSeats
-    } catch (error) {
-      console.error('Error checking if house is full:', error)
-      return false
-    }
-  }
-
   const fetchSeatsForShow = async (showId: string) => {
     setLoading(true)
     try {
@@ -261,74 +276,41 @@ const Booking: React.FC = () => {
 
       const generatedSeats: SeatData[] = []
 
-      show.layout.structure.sections?.forEach((section: any) => {
+      const structure = parseLayoutStructure(show.layout.structure)
+      setSeatPositions(structure.canvas ? await fetchSeatPositions(show.layout.id) : {})
+      const seatPrices = await fetchSeatPrices(show.layout.id)
+
+      structure.sections.forEach(section => {
         const sectionPrefix = section.name.charAt(0).toUpperCase()
-        
-        if (section.rows && Array.isArray(section.rows)) {
-          section.rows.forEach((rowConfig: any, rowIndex: number) => {
-            const rowLetter = String.fromCharCode(65 + rowIndex)
-            
-            for (let seat = 1; seat <= rowConfig.seats; seat++) {
-              const seatName = `${sectionPrefix}${rowLetter}${seat}`
-              const seatId = `${section.name}-${rowLetter}-${seat}`
-              generatedSeats.push({
-                id: seatId,
-                section: section.name,
-                row: (rowIndex + 1).toString(),
-                seat_number: seat.toString(),
-                price: selectedShow?.price || 100,
-                booked: false,
-                seatName: seatName
-              })
-            }
-          })
-        } else {
-          for (let row = 1; row <= (section.rows || 0); row++) {
-            const rowLetter = String.fromCharCode(64 + row)
-
-            for (let seat = 1; seat <= (section.seatsPerRow || 0); seat++) {
-              const seatName = `${sectionPrefix}${rowLetter}${seat}`
-              const seatId = `${section.name}-${rowLetter}-${seat}`
-              generatedSeats.push({
-                id: seatId,
-                section: section.name,
-                row: row.toString(),
-                seat_number: seat.toString(),
-                price: selectedShow?.price || 100,
-                booked: false,
-                seatName: seatName
-              })
-            }
-          }
-        }
-      })
 
-      const { data: bookings } = await supabase
-        .from('bookings')
-        .select('seat_code')
-        .eq('show_id', showId)
-        .eq('status', 'CONFIRMED')
-
-      const bookedSeats = new Set<string>()
-      bookings?.forEach(booking => {
-        try {
-          const seats = JSON.parse(booking.seat_code)
-          if (Array.isArray(seats)) {
-            seats.forEach(seat => bookedSeats.add(seat))
-          } else {
-            bookedSeats.add(booking.seat_code)
-          }
-        } catch {
-          if (booking.seat_code.includes(',')) {
-            booking.seat_code.split(',').forEach((seat: string) => bookedSeats.add(seat.trim()))
-          } else {
-            bookedSeats.add(booking.seat_code)
+        section.rows.forEach((rowConfig, rowIndex) => {
+          const rowLetter = getRowLetter(rowIndex)
+
+          for (let seat = 1; seat <= rowConfig.seats; seat++) {
+            const seatName = `${sectionPrefix}${rowLetter}${seat}`
+            const seatId = `${section.name}-${rowLetter}-${seat}`
+            generatedSeats.push({
+              id: seatId,
+              section: section.name,
+              row: (rowIndex + 1).toString(),
+              seat_number: seat.toString(),
+              price: getSeatPrice(show, structure, seatId, seatPrices),
+              booked: false,
+              held: false,
+              seatName: seatName
+            })
           }
-        }
+        })
       })
 
+      const bookedSeats = await fetchBookedSeatCodes(showId)
+
+      const holds = await fetchOtherTerminalHolds(showId)
+      const heldSeats = new Set(holds.map(hold => hold.seat_code))
+
       generatedSeats.forEach(seat => {
         seat.booked = bookedSeats.has(seat.id)
+        seat.held = !seat.booked && heldSeats.has(seat.id)
       })
 
       setSeats(generatedSeats)
@@ -339,123 +321,312 @@ const Booking: React.FC = () => {
     }
   }
 
-  const toggleSeat = (seatId: string) => {
-    const seat = seats.find(s => s.id === seatId)
-    if (!seat || seat.booked) return
+  const fetchBookedSeatCodes = async (showId: string) => {
+    const { data: bookings, error } = await supabase
+      .from('bookings')
+      .select('seat_code')
+      .eq('show_id', showId)
+      .eq('status', 'CONFIRMED')
 
-    setSelectedSeats(prev =>
-      prev.includes(seatId)
-        ? prev.filter(id => id !== seatId)
-        : [...prev, seatId]
-    )
+    if (error) throw error
+
+    const bookedSeats = new Set<string>()
+    bookings?.forEach(booking => {
+      parseSeatCodes(booking.seat_code).forEach(seat => bookedSeats.add(seat))
+    })
+    return bookedSeats
   }
 
-  const getTotalAmount = () => {
-    const uniformPrice = selectedShow?.price || 100
-    return selectedSeats.length * uniformPrice
+  // Refresh booked seats in place, without the loading spinner
+  const refreshBookedSeats = async (showId: string) => {
+    try {
+      const bookedSeats = await fetchBookedSeatCodes(showId)
+      setSeats(prev => prev.map(seat => {
+        const booked = bookedSeats.has(seat.id)
+        return { ...seat, booked, held: booked ? false : seat.held }
+      }))
+    } catch (error) {
+      console.error('Error refreshing booked seats:', error)
+    }
   }
 
-  const handleContinueBooking = () => {
-    if (!selectedShow || selectedSeats.length === 0) return
-    setShowCustomerModal(true)
+  const refreshHeldSeats = async (showId: string) => {
+    try {
+      const holds = await fetchOtherTerminalHolds(showId)
+      const heldSeats = new Set(holds.map(hold => hold.seat_code))
+      setSeats(prev => prev.map(seat => ({ ...seat, held: !seat.booked && heldSeats.has(seat.id) })))
+    } catch (error) {
+      console.error('Error fetching seat holds:', error)
+    }
   }
 
-  const handleBookSeats = async () => {
-    if (!selectedShow || selectedSeats.length === 0 || !selectedCustomer) return
+  const handleHoldExpired = () => {
+    if (selectedShow) {
+      releaseSeatHolds(selectedShow.id)
+    }
+    setSelectedSeats([])
+    setHoldExpiresAt(null)
+    setShowCustomerModal(false)
+    alert('Your seat hold expired and the seats were released. Please select them again.')
+  }
 
-    try {
-      setLoading(true)
+  const toggleSeat = async (seatId: string) => {
+    const seat = seats.find(s => s.id === seatId)
+    if (!seat || seat.booked || seat.held || !selectedShow) return
 
-      const { data: existingBookings, error: checkError } = await supabase
-        .from('bookings')
-        .select('seat_code')
-        .eq('show_id', selectedShow.id)
-        .eq('status', 'CONFIRMED')
-
-      if (checkError) throw checkError
-
-      if (existingBookings && existingBookings.length > 0) {
-        const allBookedSeats = existingBookings.flatMap(booking => {
-          try {
-            return JSON.parse(booking.seat_code)
-          } catch {
-            return booking.seat_code.includes(',')
-              ? booking.seat_code.split(',').map((s: string) => s.trim())
-              : [booking.seat_code]
-          }
-        })
+    if (selectedSeats.includes(seatId)) {
+      const remainingSeats = selectedSeats.filter(id => id !== seatId)
+      setSelectedSeats(remainingSeats)
+      if (remainingSeats.length === 0) {
+        setHoldExpiresAt(null)
+      }
+      await releaseSeatHolds(selectedShow.id, [seatId])
+      return
+    }
 
-        const conflictingSeats = selectedSeats.filter(seat => allBookedSeats.includes(seat))
+    try {
+      const result = await holdSeats(selectedShow.id, [seatId])
 
-        if (conflictingSeats.length > 0) {
-          alert(`Some seats are already booked: ${conflictingSeats.join(', ')}. Please refresh and try again.`)
-          fetchSeatsForShow(selectedShow.id)
-          return
-        }
+      if (!result.success) {
+        alert(`Seat ${seat.seatName || seatId} was just taken at another counter.`)
+        fetchSeatsForShow(selectedShow.id)
+        return
       }
 
-      const bookingToInsert = {
-        show_id: selectedShow.id,
-        seat_code: JSON.stringify(selectedSeats),
-        booked_by: selectedCustomer.name,
-        customer_id: selectedCustomer.id,
-        booking_time: new Date().toISOString(),
-        status: 'CONFIRMED'
+      setSelectedSeats(prev => prev.includes(seatId) ? prev : [...prev, seatId])
+      setHoldExpiresAt(result.expiresAt)
+    } catch (error) {
+      console.error('Error holding seat:', error)
+      alert('Could not hold this seat. Please try again.')
+    }
+  }
+
+  // Same price the ticket will carry; see seat_price() in add-pricing-tiers.sql
+  const getSelectedShowSeatPrice = (seatId: string) =>
+    seats.find(s => s.id === seatId)?.price ?? selectedShow?.price ?? 0
+
+  const getSeatCategory = (seatId: string): TicketCategory => seatCategories[seatId] || 'ADULT'
+
+  const getSelectedSeatTicketPrice = (seatId: string) =>
+    selectedShow ? getTicketPrice(selectedShow, getSelectedShowSeatPrice(seatId), getSeatCategory(seatId)) : 0
+
+  const getSubtotalAmount = () =>
+    selectedSeats.reduce((sum, seatId) => sum + getSelectedSeatTicketPrice(seatId), 0)
+
+  const hasGroupRate = () =>
+    !!selectedShow && isGroupBooking && qualifiesForGroupRate(selectedShow, selectedSeats.length)
+
+  const getGroupDiscountAmount = () =>
+    hasGroupRate()
+      ? selectedSeats.reduce((sum, seatId) => sum + getGroupRateShare(selectedShow!, getSelectedSeatTicketPrice(seatId)), 0)
+      : 0
+
+  // Promo codes apply after the group rate
+  const getDiscountableAmount = () => getSubtotalAmount() - getGroupDiscountAmount()
+
+  // Recomputed as seats and categories change; the booking applies the same rule
+  const getDiscountAmount = () =>
+    appliedPromo ? getPromoDiscount(appliedPromo.discountType, appliedPromo.discountValue, getDiscountableAmount()) : 0
+
+  const getTotalAmount = () => getDiscountableAmount() - getDiscountAmount()
+
+  const redeemableSeasonPasses = selectedShow
+    ? seasonPasses.filter(pass => canRedeemSeasonPass(pass, selectedShow, selectedSeats.length))
+    : []
+
+  // Nothing is collected for season pass bookings or free tickets
+  const getPaymentInputs = (): PaymentInput[] =>
+    selectedSeasonPassId || getTotalAmount() === 0
+      ? []
+      : payments.map(payment => ({
+          method: payment.method,
+          amount: parseFloat(payment.amount) || 0,
+          reference: payment.reference.trim() || undefined
+        }))
+
+  const getPaymentRemaining = () =>
+    getTotalAmount() - payments.reduce((sum, payment) => sum + (parseFloat(payment.amount) || 0), 0)
+
+  const updatePayment = (index: number, changes: Partial<PaymentRow>) => {
+    setPayments(prev => prev.map((payment, i) => i === index ? { ...payment, ...changes } : payment))
+    setPaymentError(null)
+  }
+
+  // Adds a row for whatever is still owed, e.g. the UPI half of a split payment
+  const addSplitPayment = () => {
+    const remaining = Math.max(0, Math.round(getPaymentRemaining() * 100) / 100)
+    setPayments(prev => [...prev, { method: 'UPI', amount: remaining ? remaining.toString() : '', reference: '' }])
+  }
+
+  const handlePrintInvoice = () => {
+    if (!bookingResult?.invoiceNumber || !selectedShow) return
+    printGroupInvoice({
+      invoiceNumber: bookingResult.invoiceNumber,
+      groupName: bookingResult.groupName || selectedCustomer?.name || '',
+      customerName: selectedCustomer?.name,
+      issuedAt: new Date().toISOString(),
+      show: selectedShow,
+      tickets: bookingResult.tickets,
+      groupDiscount: bookingResult.groupDiscountAmount,
+      promoCode: bookingResult.promoCode,
+      promoDiscount: bookingResult.discountAmount
+    })
+  }
+
+  const clearPromo = () => {
+    setAppliedPromo(null)
+    setPromoInput('')
+    setPromoError(null)
+  }
+
+  const handleApplyPromo = async () => {
+    if (!selectedShow || !promoInput.trim()) return
+
+    try {
+      setApplyingPromo(true)
+      setPromoError(null)
+
+      const result = await validatePromoCode(promoInput, selectedShow.id, selectedCustomer?.id, getDiscountableAmount())
+
+      if (!result.success) {
+        setAppliedPromo(null)
+        setPromoError(result.error)
+        return
       }
 
-      const { data: bookings, error: bookingError } = await supabase
-        .from('bookings')
-        .insert([bookingToInsert])
-        .select()
+      setAppliedPromo({
+        code: result.code,
+        discountType: result.discountType,
+        discountValue: result.discountValue
+      })
+      setPromoInput(result.code)
+    } catch (error) {
+      console.error('Error checking promo code:', error)
+      setPromoError('Could not check this promo code. Please try again.')
+    } finally {
+      setApplyingPromo(false)
+    }
+  }
 
-      if (bookingError) throw bookingError
+  const handleContinueBooking = async () => {
+    if (!selectedShow || selectedSeats.length === 0) return
 
-      const booking = bookings[0]
+    if (isGroupBooking && !groupName.trim()) {
+      alert('Enter the group name for the invoice.')
+      return
+    }
 
-      const ticketsToInsert = selectedSeats.map(seatCode => ({
-        booking_id: booking.id,
-        show_id: selectedShow.id,
-        seat_code: seatCode,
-        ticket_code: `TKT-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        price: selectedShow.price || 100,
-        generated_by: 'admin',
-        generated_at: new Date().toISOString(),
-        status: 'ACTIVE'
-      }))
+    // Refresh the hold so it covers the time spent picking a customer
+    try {
+      const result = await holdSeats(selectedShow.id, selectedSeats)
+      if (!result.success) {
+        setBookingConflict({ error: result.error, conflicts: result.conflicts })
+        setSelectedSeats(prev => prev.filter(seatId => !result.conflicts.includes(seatId)))
+        fetchSeatsForShow(selectedShow.id)
+        return
+      }
+      setHoldExpiresAt(result.expiresAt)
+    } catch (error) {
+      console.error('Error refreshing seat hold:', error)
+    }
 
-      const { data: tickets, error: ticketError } = await supabase
-        .from('tickets')
-        .insert(ticketsToInsert)
-        .select()
+    setPayments([{ method: 'CASH', amount: getTotalAmount().toString(), reference: '' }])
+    setPaymentError(null)
+    setShowCustomerModal(true)
+  }
 
-      if (ticketError) throw ticketError
+  const handleBookSeats = async () => {
+    if (!selectedShow || selectedSeats.length === 0 || !selectedCustomer) return
 
-      const { data: { user } } = await supabase.auth.getUser()
-      const userEmail = user?.email || 'unknown'
-      
-      await logBookingCreation(
-        booking.id,
-        selectedShow.title,
-        userEmail,
-        {
-          seat_codes: selectedSeats,
-          seat_count: selectedSeats.length,
-          total_price: getTotalAmount(),
+    try {
+      setLoading(true)
+      setBookingConflict(null)
+
+      const result = await bookSeats({
+        showId: selectedShow.id,
+        showTitle: selectedShow.title,
+        seatCodes: selectedSeats,
+        seatCategories: Object.fromEntries(selectedSeats.map(seatId => [seatId, getSeatCategory(seatId)])),
+        bookedBy: selectedCustomer.name,
+        customerId: selectedCustomer.id,
+        // A season pass pays for the seats outright, so no promo code with it
+        promoCode: selectedSeasonPassId ? undefined : appliedPromo?.code,
+        groupName: isGroupBooking ? groupName.trim() : undefined,
+        seasonPassId: selectedSeasonPassId || undefined,
+        payments: getPaymentInputs(),
+        waitlistEntryId: waitlistEntryId || undefined,
+        performedBy: user?.email || 'unknown',
+        details: {
           show_date: selectedShow.date,
           show_time: selectedShow.time,
-          ticket_codes: tickets.map(t => t.ticket_code)
+          customer_id: selectedCustomer.id
+        }
+      })
+
+      if (!result.success) {
+        if (result.errorCode === 'INVALID_CATEGORY') {
+          alert(result.error)
+          return
+        }
+
+        // Totals moved since the dialog was filled in; let staff correct the payment
+        if (result.errorCode === 'PAYMENT_MISMATCH' || result.errorCode === 'INVALID_PAYMENT') {
+          setPaymentError(result.error)
+          setShowCustomerModal(true)
+          return
         }
-      )
+
+        if (result.errorCode.startsWith('SEASON_PASS_')) {
+          alert(result.error)
+          setSelectedSeasonPassId('')
+          fetchCustomerSeasonPasses(selectedCustomer.id).then(setSeasonPasses).catch(() => {})
+          return
+        }
+
+        // The code stopped applying since it was checked, or not for this customer
+        if (PROMO_ERROR_CODES.includes(result.errorCode as PromoErrorCode)) {
+          alert(`${result.error}. The booking was not made; book again without the promo code or try another.`)
+          setAppliedPromo(null)
+          setPromoError(result.error)
+          return
+        }
+
+        if (result.errorCode === 'SHOW_UNAVAILABLE') {
+          alert(result.error)
+          setSelectedShow(null)
+          setSelectedSeats([])
+          fetchActiveShows()
+          return
+        }
+
+        // Drop the seats someone else got first and show the fresh seat map
+        setBookingConflict({ error: result.error, conflicts: result.conflicts })
+        setSelectedSeats(prev => prev.filter(seatId => !result.conflicts.includes(seatId)))
+        fetchSeatsForShow(selectedShow.id)
+        return
+      }
 
       setBookingResult({
-        bookings,
-        tickets,
-        success: true,
-        message: `Successfully booked ${selectedSeats.length} seat(s)`,
-        totalAmount: getTotalAmount()
+        bookingId: result.bookingId,
+        tickets: result.tickets,
+        discountAmount: result.discountAmount,
+        promoCode: result.promoCode,
+        groupName: isGroupBooking ? groupName.trim() : null,
+        groupDiscountAmount: result.groupDiscountAmount,
+        invoiceNumber: result.invoiceNumber,
+        paidWithSeasonPass: !!result.seasonPassId,
+        payments: getPaymentInputs(),
+        totalAmount: result.totalAmount
       })
       setShowConfirmation(true)
       setSelectedSeats([])
+      setSeatCategories({})
+      clearPromo()
+      setIsGroupBooking(false)
+      setGroupName('')
+      setSelectedSeasonPassId('')
+      setHoldExpiresAt(null)
+      setWaitlistEntryId(null)
 
       fetchSeatsForShow(selectedShow.id)
     } catch (error) {
@@ -466,12 +637,46 @@ const Booking: React.FC = () => {
     }
   }
 
+  // Take a waitlist offer at this counter: the offered seats become this
+  // terminal's selection for the waiting customer, held until the offer ends
+  const handleClaimOffer = async (entry: WaitlistEntry) => {
+    if (!selectedShow) return
+
+    try {
+      await releaseSeatHolds(selectedShow.id)
+      const result = await claimWaitlistOffer(entry)
+      if (!result.success) {
+        alert(result.error)
+        return
+      }
+
+      setSelectedSeats(result.seatCodes)
+      setSeatCategories({})
+      setHoldExpiresAt(result.expiresAt)
+      setWaitlistEntryId(entry.id)
+      if (entry.customer) {
+        setSelectedCustomer(entry.customer)
+      }
+      fetchSeatsForShow(selectedShow.id)
+    } catch (error) {
+      console.error('Error claiming waitlist offer:', error)
+      alert('Could not claim the offer. Please try again.')
+    }
+  }
+
   const handleCustomerSelection = async () => {
     if (!selectedCustomer) {
       alert('Please select a customer to continue.')
       return
     }
 
+    const paymentInputs = getPaymentInputs()
+    const paymentProblem = paymentInputs.length > 0 ? validatePayments(paymentInputs, getTotalAmount()) : null
+    if (paymentProblem) {
+      setPaymentError(paymentProblem)
+      return
+    }
+
     try {
       setSubmittingCustomer(true)
       
@@ -490,8 +695,8 @@ const Booking: React.FC = () => {
   }
 
   // Helper function to render seats for a row
-  const renderRowSeats = (section: any, rowConfig: any, rowIndex: number, sectionSeats: any[]) => {
-    const rowLetter = String.fromCharCode(65 + rowIndex)
+  const renderRowSeats = (section: LayoutSection, rowConfig: LayoutRow, rowIndex: number, sectionSeats: SeatData[]) => {
+    const rowLetter = getRowLetter(rowIndex)
     const sectionPrefix = section.name.charAt(0).toUpperCase()
     
     return Array.from({ length: rowConfig.seats }, (_, seatIndex) => {
@@ -507,8 +712,9 @@ const Booking: React.FC = () => {
         section: section.name,
         row: (rowIndex + 1).toString(),
         seat_number: seatNumber.toString(),
-        price: selectedShow?.price || 100,
+        price: getSelectedShowSeatPrice(seatId),
         booked: false,
+        held: false,
         seatName: seatName
       }
 
@@ -516,16 +722,18 @@ const Booking: React.FC = () => {
         <motion.button
           key={seat.id}
           onClick={() => toggleSeat(seat.id)}
-          disabled={seat.booked}
-          whileHover={{ scale: seat.booked ? 1 : 1.05 }}
-          whileTap={{ scale: seat.booked ? 1 : 0.95 }}
+          disabled={seat.booked || seat.held}
+          whileHover={{ scale: seat.booked || seat.held ? 1 : 1.05 }}
+          whileTap={{ scale: seat.booked || seat.held ? 1 : 0.95 }}
           className={`w-7 h-6 sm:w-10 sm:h-8 rounded border text-[10px] sm:text-xs font-medium transition-all ${seat.booked
             ? 'bg-red-100 border-red-400 text-red-600 cursor-not-allowed'
-            : selectedSeats.includes(seat.id)
-              ? 'bg-green-100 border-green-400 text-green-700'
-              : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100 hover:border-gray-400'
+            : seat.held
+              ? 'bg-amber-100 border-amber-400 text-amber-700 cursor-not-allowed'
+              : selectedSeats.includes(seat.id)
+                ? 'bg-green-100 border-green-400 text-green-700'
+                : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100 hover:border-gray-400'
             }`}
-          title={`${seatName} - ₹${selectedShow?.price || 100}`}
+          title={seat.held ? `${seatName} - held at another counter` : `${seatName} - ₹${seat.price}`}
         >
           {seatNumber}
         </motion.button>
@@ -533,11 +741,49 @@ const Booking: React.FC = () => {
     })
   }
 
+  const getSeatState = (seatId: string): SeatState => {
+    const seat = seats.find(s => s.id === seatId)
+    if (seat?.booked) return 'booked'
+    if (seat?.held) return 'held'
+    return selectedSeats.includes(seatId) ? 'selected' : 'available'
+  }
+
+  // Layouts arranged in the designer use their own canvas; others use the grid
+  const renderWaitlist = () => selectedShow && (
+    <div className={`rounded-2xl shadow-sm border p-6 mb-6 transition-colors duration-200 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+      {selectedShow.status === 'HOUSE_FULL' && (
+        <p className="mb-4 text-sm text-amber-600">
+          This show is full. Add customers to the waitlist; seats freed by a cancellation are offered to them in order.
+        </p>
+      )}
+      <WaitlistPanel key={selectedShow.id} show={selectedShow} onClaim={handleClaimOffer} />
+    </div>
+  )
+
+  const renderSeatMap = () => {
+    if (!selectedShow?.layout) return null
+
+    const structure = parseLayoutStructure(selectedShow.layout.structure)
+    if (!structure.canvas) return renderRectangularSeatMap()
+
+    return (
+      <SeatCanvas
+        structure={structure}
+        seats={resolveSeatPositions(structure, seatPositions)}
+        getSeatState={getSeatState}
+        onSeatClick={toggleSeat}
+        getSeatPrice={getSelectedShowSeatPrice}
+        tiers={getShowTierPrices(selectedShow, structure)}
+      />
+    )
+  }
+
   // Rectangular system view with center-aligned East/West sections
   const renderRectangularSeatMap = () => {
     if (!selectedShow?.layout) return null
 
-    const sections = selectedShow.layout.structure.sections || []
+    const structure = parseLayoutStructure(selectedShow.layout.structure)
+    const { sections } = structure
 
     return (
       <div className={`rounded-2xl p-2 sm:p-6 w-full transition-colors duration-200 ${darkMode ? 'bg-gray-800' : 'bg-white'}`}>
@@ -568,7 +814,7 @@ const Booking: React.FC = () => {
             <div className="grid grid-cols-1 gap-4 sm:gap-8">
             
             {/* North Section - Top */}
-            {sections.filter((s: any) => s.name === 'North').map((section: any) => {
+            {sections.filter(s => s.name === 'North').map(section => {
               const sectionSeats = seats.filter(s => s.section === section.name)
               return (
                 <div key={section.name} className="border-2 border-dashed border-blue-300 p-2 sm:p-4 rounded-lg">
@@ -576,34 +822,18 @@ const Booking: React.FC = () => {
                     NORTH SECTION
                   </div>
                   <div className="space-y-1 sm:space-y-2">
-                    {Array.isArray(section.rows) ? (
-                      section.rows.slice().reverse().map((rowConfig: any, reverseIndex: number) => {
-                        const rowIndex = section.rows.length - 1 - reverseIndex
-                        const rowLetter = String.fromCharCode(65 + rowIndex)
-                        return (
-                          <div key={rowIndex} className="flex justify-center gap-0.5 sm:gap-1">
-                            <div className={`w-6 sm:w-8 text-xs font-bold flex items-center justify-center ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                              {rowLetter}
-                            </div>
-                            {renderRowSeats(section, rowConfig, rowIndex, sectionSeats)}
-                          </div>
-                        )
-                      })
-                    ) : (
-                      Array.from({ length: section.rows || 0 }, (_, rowIndex) => {
-                        const actualRowIndex = (section.rows || 0) - 1 - rowIndex
-                        const rowConfig = { seats: section.seatsPerRow || 0 }
-                        const rowLetter = String.fromCharCode(65 + actualRowIndex)
-                        return (
-                          <div key={rowIndex} className="flex justify-center gap-0.5 sm:gap-1">
-                            <div className={`w-6 sm:w-8 text-xs font-bold flex items-center justify-center ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                              {rowLetter}
-                            </div>
-                            {renderRowSeats(section, rowConfig, actualRowIndex, sectionSeats)}
+                    {section.rows.slice().reverse().map((rowConfig, reverseIndex) => {
+                      const rowIndex = section.rows.length - 1 - reverseIndex
+                      const rowLetter = getRowLetter(rowIndex)
+                      return (
+                        <div key={rowIndex} className="flex justify-center gap-0.5 sm:gap-1">
+                          <div className={`w-6 sm:w-8 text-xs font-bold flex items-center justify-center ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                            {rowLetter}
                           </div>
-                        )
-                      })
-                    )}
+                          {renderRowSeats(section, rowConfig, rowIndex, sectionSeats)}
+                        </div>
+                      )
+                    })}
                   </div>
                 </div>
               )
@@ -613,11 +843,9 @@ const Booking: React.FC = () => {
             <div className="grid grid-cols-3 gap-2 sm:gap-6 items-center">
               
               {/* West Section - Left (Vertical Layout with Center Alignment) */}
-              {sections.filter((s: any) => s.name === 'West').map((section: any) => {
+              {sections.filter(s => s.name === 'West').map(section => {
                 const sectionSeats = seats.filter(s => s.section === section.name)
-                const maxSeatsInRow = Array.isArray(section.rows) 
-                  ? Math.max(...section.rows.map((row: any) => row.seats))
-                  : (section.seatsPerRow || 0)
+                const maxSeatsInRow = getSectionMaxRowSeats(section)
                 
                 return (
                   <div key={section.name} className="border-2 border-dashed border-green-300 p-2 sm:p-4 rounded-lg">
@@ -625,137 +853,73 @@ const Booking: React.FC = () => {
                       WEST SECTION
                     </div>
                     <div className="flex gap-0.5 sm:gap-1 justify-center">
-                      {Array.isArray(section.rows) ? (
-                        [...section.rows].reverse().map((rowConfig: any, displayIndex: number) => {
-                          const rowIndex = section.rows.length - 1 - displayIndex
-                          const rowLetter = String.fromCharCode(65 + rowIndex)
-                          const paddingTop = Math.floor((maxSeatsInRow - rowConfig.seats) / 2)
-                          const paddingBottom = Math.ceil((maxSeatsInRow - rowConfig.seats) / 2)
-                          
-                          return (
-                            <div key={rowIndex} className="flex flex-col items-center gap-1">
-                              <div className={`text-xs font-bold mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                                {rowLetter}
-                              </div>
-                              <div className="flex flex-col gap-1 justify-center" style={{ minHeight: `${maxSeatsInRow * 2.5}rem` }}>
-                                {/* Top padding for center alignment */}
-                                {Array.from({ length: paddingTop }, (_, i) => (
-                                  <div key={`pad-top-${i}`} className="w-8 h-8"></div>
-                                ))}
-                                
-                                {/* Actual seats */}
-                                {Array.from({ length: rowConfig.seats }, (_, seatIndex) => {
-                                  const seatNumber = seatIndex + 1
-                                  const seatName = `W${rowLetter}${seatNumber}`
-                                  const seatId = `${section.name}-${rowLetter}-${seatNumber}`
-
-                                  const seat = sectionSeats.find(s =>
-                                    s.row === (rowIndex + 1).toString() &&
-                                    s.seat_number === seatNumber.toString()
-                                  ) || {
-                                    id: seatId,
-                                    section: section.name,
-                                    row: (rowIndex + 1).toString(),
-                                    seat_number: seatNumber.toString(),
-                                    price: selectedShow?.price || 100,
-                                    booked: false,
-                                    seatName: seatName
-                                  }
-
-                                  return (
-                                    <motion.button
-                                      key={seat.id}
-                                      onClick={() => toggleSeat(seat.id)}
-                                      disabled={seat.booked}
-                                      whileHover={{ scale: seat.booked ? 1 : 1.05 }}
-                                      whileTap={{ scale: seat.booked ? 1 : 0.95 }}
-                                      className={`w-8 h-8 rounded border-2 text-xs font-medium transition-all ${seat.booked
-                                        ? 'bg-red-100 border-red-400 text-red-600 cursor-not-allowed'
-                                        : selectedSeats.includes(seat.id)
-                                          ? 'bg-green-100 border-green-400 text-green-700'
-                                          : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100 hover:border-gray-400'
-                                        }`}
-                                      title={`${seatName} - ₹${selectedShow?.price || 100}`}
-                                    >
-                                      {seatNumber}
-                                    </motion.button>
-                                  )
-                                })}
-                                
-                                {/* Bottom padding for center alignment */}
-                                {Array.from({ length: paddingBottom }, (_, i) => (
-                                  <div key={`pad-bottom-${i}`} className="w-8 h-8"></div>
-                                ))}
-                              </div>
+                      {[...section.rows].reverse().map((rowConfig, displayIndex) => {
+                        const rowIndex = section.rows.length - 1 - displayIndex
+                        const rowLetter = getRowLetter(rowIndex)
+                        const paddingTop = Math.floor((maxSeatsInRow - rowConfig.seats) / 2)
+                        const paddingBottom = Math.ceil((maxSeatsInRow - rowConfig.seats) / 2)
+                        
+                        return (
+                          <div key={rowIndex} className="flex flex-col items-center gap-1">
+                            <div className={`text-xs font-bold mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                              {rowLetter}
                             </div>
-                          )
-                        })
-                      ) : (
-                        Array.from({ length: section.rows || 0 }, (_, displayIndex) => {
-                          const rowIndex = (section.rows || 0) - 1 - displayIndex
-                          const rowLetter = String.fromCharCode(65 + rowIndex)
-                          const paddingTop = Math.floor((maxSeatsInRow - (section.seatsPerRow || 0)) / 2)
-                          const paddingBottom = Math.ceil((maxSeatsInRow - (section.seatsPerRow || 0)) / 2)
-                          
-                          return (
-                            <div key={rowIndex} className="flex flex-col items-center gap-1">
-                              <div className={`text-xs font-bold mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                                {rowLetter}
-                              </div>
-                              <div className="flex flex-col gap-1 justify-center" style={{ minHeight: `${maxSeatsInRow * 2.5}rem` }}>
-                                {/* Top padding for center alignment */}
-                                {Array.from({ length: paddingTop }, (_, i) => (
-                                  <div key={`pad-top-${i}`} className="w-8 h-8"></div>
-                                ))}
-                                
-                                {/* Actual seats */}
-                                {Array.from({ length: section.seatsPerRow || 0 }, (_, seatIndex) => {
-                                  const seatNumber = seatIndex + 1
-                                  const seatName = `W${rowLetter}${seatNumber}`
-                                  const seatId = `${section.name}-${rowLetter}-${seatNumber}`
-
-                                  const seat = sectionSeats.find(s =>
-                                    s.row === (rowIndex + 1).toString() &&
-                                    s.seat_number === seatNumber.toString()
-                                  ) || {
-                                    id: seatId,
-                                    section: section.name,
-                                    row: (rowIndex + 1).toString(),
-                                    seat_number: seatNumber.toString(),
-                                    price: selectedShow?.price || 100,
-                                    booked: false,
-                                    seatName: seatName
-                                  }
-
-                                  return (
-                                    <motion.button
-                                      key={seat.id}
-                                      onClick={() => toggleSeat(seat.id)}
-                                      disabled={seat.booked}
-                                      whileHover={{ scale: seat.booked ? 1 : 1.05 }}
-                                      whileTap={{ scale: seat.booked ? 1 : 0.95 }}
-                                      className={`w-8 h-8 rounded border-2 text-xs font-medium transition-all ${seat.booked
-                                        ? 'bg-red-100 border-red-400 text-red-600 cursor-not-allowed'
+                            <div className="flex flex-col gap-1 justify-center" style={{ minHeight: `${maxSeatsInRow * 2.5}rem` }}>
+                              {/* Top padding for center alignment */}
+                              {Array.from({ length: paddingTop }, (_, i) => (
+                                <div key={`pad-top-${i}`} className="w-8 h-8"></div>
+                              ))}
+                              
+                              {/* Actual seats */}
+                              {Array.from({ length: rowConfig.seats }, (_, seatIndex) => {
+                                const seatNumber = seatIndex + 1
+                                const seatName = `W${rowLetter}${seatNumber}`
+                                const seatId = `${section.name}-${rowLetter}-${seatNumber}`
+
+                                const seat = sectionSeats.find(s =>
+                                  s.row === (rowIndex + 1).toString() &&
+                                  s.seat_number === seatNumber.toString()
+                                ) || {
+                                  id: seatId,
+                                  section: section.name,
+                                  row: (rowIndex + 1).toString(),
+                                  seat_number: seatNumber.toString(),
+                                  price: getSelectedShowSeatPrice(seatId),
+                                  booked: false,
+                                  held: false,
+                                  seatName: seatName
+                                }
+
+                                return (
+                                  <motion.button
+                                    key={seat.id}
+                                    onClick={() => toggleSeat(seat.id)}
+                                    disabled={seat.booked || seat.held}
+                                    whileHover={{ scale: seat.booked || seat.held ? 1 : 1.05 }}
+                                    whileTap={{ scale: seat.booked || seat.held ? 1 : 0.95 }}
+                                    className={`w-8 h-8 rounded border-2 text-xs font-medium transition-all ${seat.booked
+                                      ? 'bg-red-100 border-red-400 text-red-600 cursor-not-allowed'
+                                      : seat.held
+                                        ? 'bg-amber-100 border-amber-400 text-amber-700 cursor-not-allowed'
                                         : selectedSeats.includes(seat.id)
                                           ? 'bg-green-100 border-green-400 text-green-700'
                                           : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100 hover:border-gray-400'
-                                        }`}
-                                      title={`${seatName} - ₹${selectedShow?.price || 100}`}
-                                    >
-                                      {seatNumber}
-                                    </motion.button>
-                                  )
-                                })}
-                                
-                                {/* Bottom padding for center alignment */}
-                                {Array.from({ length: paddingBottom }, (_, i) => (
-                                  <div key={`pad-bottom-${i}`} className="w-8 h-8"></div>
-                                ))}
-                              </div>
+                                      }`}
+                                    title={seat.held ? `${seatName} - held at another counter` : `${seatName} - ₹${seat.price}`}
+                                  >
+                                    {seatNumber}
+                                  </motion.button>
+                                )
+                              })}
+                              
+                              {/* Bottom padding for center alignment */}
+                              {Array.from({ length: paddingBottom }, (_, i) => (
+                                <div key={`pad-bottom-${i}`} className="w-8 h-8"></div>
+                              ))}
                             </div>
-                          )
-                        })
-                      )}
+                          </div>
+                        )
+                      })}
                     </div>
                   </div>
                 )
@@ -775,11 +939,9 @@ const Booking: React.FC = () => {
               </div>
 
               {/* East Section - Right (Vertical Layout with Center Alignment) */}
-              {sections.filter((s: any) => s.name === 'East').map((section: any) => {
+              {sections.filter(s => s.name === 'East').map(section => {
                 const sectionSeats = seats.filter(s => s.section === section.name)
-                const maxSeatsInRow = Array.isArray(section.rows) 
-                  ? Math.max(...section.rows.map((row: any) => row.seats))
-                  : (section.seatsPerRow || 0)
+                const maxSeatsInRow = getSectionMaxRowSeats(section)
                 
                 return (
                   <div key={section.name} className="border-2 border-dashed border-purple-300 p-4 rounded-lg">
@@ -787,135 +949,72 @@ const Booking: React.FC = () => {
                       EAST SECTION
                     </div>
                     <div className="flex gap-1 justify-center">
-                      {Array.isArray(section.rows) ? (
-                        section.rows.map((rowConfig: any, rowIndex: number) => {
-                          const rowLetter = String.fromCharCode(65 + rowIndex)
-                          const paddingTop = Math.floor((maxSeatsInRow - rowConfig.seats) / 2)
-                          const paddingBottom = Math.ceil((maxSeatsInRow - rowConfig.seats) / 2)
-                          
-                          return (
-                            <div key={rowIndex} className="flex flex-col items-center gap-1">
-                              <div className={`text-xs font-bold mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                                {rowLetter}
-                              </div>
-                              <div className="flex flex-col gap-1 justify-center" style={{ minHeight: `${maxSeatsInRow * 2.5}rem` }}>
-                                {/* Top padding for center alignment */}
-                                {Array.from({ length: paddingTop }, (_, i) => (
-                                  <div key={`pad-top-${i}`} className="w-8 h-8"></div>
-                                ))}
-                                
-                                {/* Actual seats */}
-                                {Array.from({ length: rowConfig.seats }, (_, seatIndex) => {
-                                  const seatNumber = seatIndex + 1
-                                  const seatName = `E${rowLetter}${seatNumber}`
-                                  const seatId = `${section.name}-${rowLetter}-${seatNumber}`
-
-                                  const seat = sectionSeats.find(s =>
-                                    s.row === (rowIndex + 1).toString() &&
-                                    s.seat_number === seatNumber.toString()
-                                  ) || {
-                                    id: seatId,
-                                    section: section.name,
-                                    row: (rowIndex + 1).toString(),
-                                    seat_number: seatNumber.toString(),
-                                    price: selectedShow?.price || 100,
-                                    booked: false,
-                                    seatName: seatName
-                                  }
-
-                                  return (
-                                    <motion.button
-                                      key={seat.id}
-                                      onClick={() => toggleSeat(seat.id)}
-                                      disabled={seat.booked}
-                                      whileHover={{ scale: seat.booked ? 1 : 1.05 }}
-                                      whileTap={{ scale: seat.booked ? 1 : 0.95 }}
-                                      className={`w-8 h-8 rounded border-2 text-xs font-medium transition-all ${seat.booked
-                                        ? 'bg-red-100 border-red-400 text-red-600 cursor-not-allowed'
-                                        : selectedSeats.includes(seat.id)
-                                          ? 'bg-green-100 border-green-400 text-green-700'
-                                          : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100 hover:border-gray-400'
-                                        }`}
-                                      title={`${seatName} - ₹${selectedShow?.price || 100}`}
-                                    >
-                                      {seatNumber}
-                                    </motion.button>
-                                  )
-                                })}
-                                
-                                {/* Bottom padding for center alignment */}
-                                {Array.from({ length: paddingBottom }, (_, i) => (
-                                  <div key={`pad-bottom-${i}`} className="w-8 h-8"></div>
-                                ))}
-                              </div>
+                      {section.rows.map((rowConfig, rowIndex) => {
+                        const rowLetter = getRowLetter(rowIndex)
+                        const paddingTop = Math.floor((maxSeatsInRow - rowConfig.seats) / 2)
+                        const paddingBottom = Math.ceil((maxSeatsInRow - rowConfig.seats) / 2)
+                        
+                        return (
+                          <div key={rowIndex} className="flex flex-col items-center gap-1">
+                            <div className={`text-xs font-bold mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                              {rowLetter}
                             </div>
-                          )
-                        })
-                      ) : (
-                        Array.from({ length: section.rows || 0 }, (_, rowIndex) => {
-                          const rowLetter = String.fromCharCode(65 + rowIndex)
-                          const paddingTop = Math.floor((maxSeatsInRow - (section.seatsPerRow || 0)) / 2)
-                          const paddingBottom = Math.ceil((maxSeatsInRow - (section.seatsPerRow || 0)) / 2)
-                          
-                          return (
-                            <div key={rowIndex} className="flex flex-col items-center gap-1">
-                              <div className={`text-xs font-bold mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                                {rowLetter}
-                              </div>
-                              <div className="flex flex-col gap-1 justify-center" style={{ minHeight: `${maxSeatsInRow * 2.5}rem` }}>
-                                {/* Top padding for center alignment */}
-                                {Array.from({ length: paddingTop }, (_, i) => (
-                                  <div key={`pad-top-${i}`} className="w-8 h-8"></div>
-                                ))}
-                                
-                                {/* Actual seats */}
-                                {Array.from({ length: section.seatsPerRow || 0 }, (_, seatIndex) => {
-                                  const seatNumber = seatIndex + 1
-                                  const seatName = `E${rowLetter}${seatNumber}`
-                                  const seatId = `${section.name}-${rowLetter}-${seatNumber}`
-
-                                  const seat = sectionSeats.find(s =>
-                                    s.row === (rowIndex + 1).toString() &&
-                                    s.seat_number === seatNumber.toString()
-                                  ) || {
-                                    id: seatId,
-                                    section: section.name,
-                                    row: (rowIndex + 1).toString(),
-                                    seat_number: seatNumber.toString(),
-                                    price: selectedShow?.price || 100,
-                                    booked: false,
-                                    seatName: seatName
-                                  }
-
-                                  return (
-                                    <motion.button
-                                      key={seat.id}
-                                      onClick={() => toggleSeat(seat.id)}
-                                      disabled={seat.booked}
-                                      whileHover={{ scale: seat.booked ? 1 : 1.05 }}
-                                      whileTap={{ scale: seat.booked ? 1 : 0.95 }}
-                                      className={`w-8 h-8 rounded border-2 text-xs font-medium transition-all ${seat.booked
-                                        ? 'bg-red-100 border-red-400 text-red-600 cursor-not-allowed'
+                            <div className="flex flex-col gap-1 justify-center" style={{ minHeight: `${maxSeatsInRow * 2.5}rem` }}>
+                              {/* Top padding for center alignment */}
+                              {Array.from({ length: paddingTop }, (_, i) => (
+                                <div key={`pad-top-${i}`} className="w-8 h-8"></div>
+                              ))}
+                              
+                              {/* Actual seats */}
+                              {Array.from({ length: rowConfig.seats }, (_, seatIndex) => {
+                                const seatNumber = seatIndex + 1
+                                const seatName = `E${rowLetter}${seatNumber}`
+                                const seatId = `${section.name}-${rowLetter}-${seatNumber}`
+
+                                const seat = sectionSeats.find(s =>
+                                  s.row === (rowIndex + 1).toString() &&
+                                  s.seat_number === seatNumber.toString()
+                                ) || {
+                                  id: seatId,
+                                  section: section.name,
+                                  row: (rowIndex + 1).toString(),
+                                  seat_number: seatNumber.toString(),
+                                  price: getSelectedShowSeatPrice(seatId),
+                                  booked: false,
+                                  held: false,
+                                  seatName: seatName
+                                }
+
+                                return (
+                                  <motion.button
+                                    key={seat.id}
+                                    onClick={() => toggleSeat(seat.id)}
+                                    disabled={seat.booked || seat.held}
+                                    whileHover={{ scale: seat.booked || seat.held ? 1 : 1.05 }}
+                                    whileTap={{ scale: seat.booked || seat.held ? 1 : 0.95 }}
+                                    className={`w-8 h-8 rounded border-2 text-xs font-medium transition-all ${seat.booked
+                                      ? 'bg-red-100 border-red-400 text-red-600 cursor-not-allowed'
+                                      : seat.held
+                                        ? 'bg-amber-100 border-amber-400 text-amber-700 cursor-not-allowed'
                                         : selectedSeats.includes(seat.id)
                                           ? 'bg-green-100 border-green-400 text-green-700'
                                           : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100 hover:border-gray-400'
-                                        }`}
-                                      title={`${seatName} - ₹${selectedShow?.price || 100}`}
-                                    >
-                                      {seatNumber}
-                                    </motion.button>
-                                  )
-                                })}
-                                
-                                {/* Bottom padding for center alignment */}
-                                {Array.from({ length: paddingBottom }, (_, i) => (
-                                  <div key={`pad-bottom-${i}`} className="w-8 h-8"></div>
-                                ))}
-                              </div>
+                                      }`}
+                                    title={seat.held ? `${seatName} - held at another counter` : `${seatName} - ₹${seat.price}`}
+                                  >
+                                    {seatNumber}
+                                  </motion.button>
+                                )
+                              })}
+                              
+                              {/* Bottom padding for center alignment */}
+                              {Array.from({ length: paddingBottom }, (_, i) => (
+                                <div key={`pad-bottom-${i}`} className="w-8 h-8"></div>
+                              ))}
                             </div>
-                          )
-                        })
-                      )}
+                          </div>
+                        )
+                      })}
                     </div>
                   </div>
                 )
@@ -923,7 +1022,7 @@ const Booking: React.FC = () => {
             </div>
 
             {/* South Section - Bottom */}
-            {sections.filter((s: any) => s.name === 'South').map((section: any) => {
+            {sections.filter(s => s.name === 'South').map(section => {
               const sectionSeats = seats.filter(s => s.section === section.name)
               return (
                 <div key={section.name} className="border-2 border-dashed border-orange-300 p-4 rounded-lg">
@@ -931,53 +1030,24 @@ const Booking: React.FC = () => {
                     SOUTH SECTION
                   </div>
                   <div className="space-y-2">
-                    {Array.isArray(section.rows) ? (
-                      section.rows.map((rowConfig: any, rowIndex: number) => {
-                        const rowLetter = String.fromCharCode(65 + rowIndex)
-                        return (
-                          <div key={rowIndex} className="flex justify-center gap-1">
-                            <div className={`w-8 text-xs font-bold flex items-center justify-center ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                              {rowLetter}
-                            </div>
-                            {renderRowSeats(section, rowConfig, rowIndex, sectionSeats)}
+                    {section.rows.map((rowConfig, rowIndex) => {
+                      const rowLetter = getRowLetter(rowIndex)
+                      return (
+                        <div key={rowIndex} className="flex justify-center gap-1">
+                          <div className={`w-8 text-xs font-bold flex items-center justify-center ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                            {rowLetter}
                           </div>
-                        )
-                      })
-                    ) : (
-                      Array.from({ length: section.rows || 0 }, (_, rowIndex) => {
-                        const rowConfig = { seats: section.seatsPerRow || 0 }
-                        const rowLetter = String.fromCharCode(65 + rowIndex)
-                        return (
-                          <div key={rowIndex} className="flex justify-center gap-1">
-                            <div className={`w-8 text-xs font-bold flex items-center justify-center ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                              {rowLetter}
-                            </div>
-                            {renderRowSeats(section, rowConfig, rowIndex, sectionSeats)}
-                          </div>
-                        )
-                      })
-                    )}
+                          {renderRowSeats(section, rowConfig, rowIndex, sectionSeats)}
+                        </div>
+                      )
+                    })}
                   </div>
                 </div>
               )
             })}
             </div>
 
-            {/* Legend */}
-            <div className="flex justify-center mt-8 space-x-6 text-sm">
-              <div className="flex items-center">
-                <div className="w-4 h-4 bg-gray-50 border-2 border-gray-300 rounded mr-2"></div>
-                <span className={`transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Available</span>
-              </div>
-              <div className="flex items-center">
-                <div className="w-4 h-4 bg-green-100 border-2 border-green-400 rounded mr-2"></div>
-                <span className={`transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Selected</span>
-              </div>
-              <div className="flex items-center">
-                <div className="w-4 h-4 bg-red-100 border-2 border-red-400 rounded mr-2"></div>
-                <span className={`transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Booked</span>
-              </div>
-            </div>
+            <SeatLegend tiers={getShowTierPrices(selectedShow, structure)} />
           </div>
         </div>
       </div>
@@ -1003,7 +1073,7 @@ const Booking: React.FC = () => {
               type="date"
               value={selectedDate}
               onChange={(e) => setSelectedDate(e.target.value)}
-              min={new Date().toISOString().split('T')[0]} // Prevent selecting past dates
+              min={today} // Prevent selecting past dates
               className={`w-full px-4 py-2 rounded-lg border transition-colors duration-200 ${
                 darkMode 
                   ? 'bg-slate-800 border-slate-600 text-slate-100 focus:border-slate-500' 
@@ -1011,6 +1081,22 @@ const Booking: React.FC = () => {
               } focus:outline-none focus:ring-2 focus:ring-primary-500/20`}
             />
           </div>
+          {venues.length > 1 && (
+            <div className="flex-1">
+              <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                Venue
+              </label>
+              <VenueSelect
+                value={venueFilter}
+                onChange={setVenueFilter}
+                className={`w-full px-4 py-2 rounded-lg border transition-colors duration-200 ${
+                  darkMode
+                    ? 'bg-slate-800 border-slate-600 text-slate-100 focus:border-slate-500'
+                    : 'bg-white border-slate-300 text-slate-900 focus:border-slate-400'
+                } focus:outline-none focus:ring-2 focus:ring-primary-500/20`}
+              />
+            </div>
+          )}
           <div className="flex gap-2">
             <button
               onClick={() => setSelectedDate('')}
@@ -1023,7 +1109,7 @@ const Booking: React.FC = () => {
               Clear Filter
             </button>
             <button
-              onClick={() => setSelectedDate(new Date().toISOString().split('T')[0])}
+              onClick={() => setSelectedDate(today)}
               className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
                 darkMode
                   ? 'bg-primary-600 text-white hover:bg-primary-700'
@@ -1033,11 +1119,7 @@ const Booking: React.FC = () => {
               Today
             </button>
             <button
-              onClick={() => {
-                const tomorrow = new Date()
-                tomorrow.setDate(tomorrow.getDate() + 1)
-                setSelectedDate(tomorrow.toISOString().split('T')[0])
-              }}
+              onClick={() => setSelectedDate(shiftDate(today, 1))}
               className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
                 darkMode
                   ? 'bg-slate-600 text-white hover:bg-slate-500'
@@ -1139,8 +1221,14 @@ const Booking: React.FC = () => {
               <div className={`font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>{show.title}</div>
               <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
                 {format(new Date(show.date), 'MMM dd, yyyy')} at {format(new Date(`2000-01-01T${show.time}`), 'h:mm a')}
+                {venues.length > 1 && !venueFilter && ` · ${venues.find(venue => venue.id === show.venue_id)?.name || ''}`}
               </div>
-              <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>₹{show.price}</div>
+              <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                {show.layout ? formatPriceRange(show, parseLayoutStructure(show.layout.structure)) : `₹${show.price}`}
+              </div>
+              {show.status === 'HOUSE_FULL' && (
+                <div className="text-xs font-medium text-amber-600 mt-1">House Full · Waitlist open</div>
+              )}
             </button>
           ))}
         </div>
@@ -1148,6 +1236,9 @@ const Booking: React.FC = () => {
 
       {selectedShow && (
         <>
+          {/* A full house goes straight to its waitlist */}
+          {selectedShow.status === 'HOUSE_FULL' && renderWaitlist()}
+
           {/* Seat Map */}
           <div className={`rounded-2xl shadow-sm border p-6 mb-6 transition-colors duration-200 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
             <div className="flex justify-between items-center mb-6">
@@ -1166,15 +1257,37 @@ const Booking: React.FC = () => {
               )}
             </div>
 
+            {bookingConflict && (
+              <div className={`mb-6 p-4 rounded-xl border flex items-start justify-between ${darkMode ? 'bg-red-900/20 border-red-800 text-red-300' : 'bg-red-50 border-red-300 text-red-700'}`}>
+                <div>
+                  <div className="font-medium">{bookingConflict.error}</div>
+                  {bookingConflict.conflicts.length > 0 && (
+                    <div className="text-sm mt-1">
+                      Unavailable: {bookingConflict.conflicts.map(seatId => seats.find(s => s.id === seatId)?.seatName || seatId).join(', ')}.
+                      {' '}These seats were removed from your selection.
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => setBookingConflict(null)}
+                  className="ml-4 text-lg leading-none"
+                >
+                  ×
+                </button>
+              </div>
+            )}
+
             {loading ? (
               <div className="flex items-center justify-center h-64">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
               </div>
             ) : (
-              renderRectangularSeatMap()
+              renderSeatMap()
             )}
           </div>
 
+          {selectedShow.status !== 'HOUSE_FULL' && renderWaitlist()}
+
           {/* Booking Summary */}
           {selectedSeats.length > 0 && (
             <div className={`rounded-2xl shadow-sm border p-6 transition-colors duration-200 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
@@ -1189,13 +1302,117 @@ const Booking: React.FC = () => {
                   <span className={`transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Date & Time:</span>
                   <span className={`transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{format(new Date(selectedShow.date), 'MMM dd, yyyy')} at {format(new Date(`2000-01-01T${selectedShow.time}`), 'h:mm a')}</span>
                 </div>
-                <div className="flex justify-between">
-                  <span className={`transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Selected Seats:</span>
-                  <span className={`transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{selectedSeats.map(seatId => {
-                    const seat = seats.find(s => s.id === seatId)
-                    return seat?.seatName || seatId
-                  }).join(', ')}</span>
+                <div>
+                  <span className={`transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Tickets:</span>
+                  <div className="mt-2 space-y-2">
+                    {selectedSeats.map(seatId => {
+                      const seat = seats.find(s => s.id === seatId)
+                      return (
+                        <div key={seatId} className="flex items-center justify-between gap-3">
+                          <span className={`w-16 font-medium transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{seat?.seatName || seatId}</span>
+                          <select
+                            value={getSeatCategory(seatId)}
+                            onChange={(e) => setSeatCategories(prev => ({ ...prev, [seatId]: e.target.value as TicketCategory }))}
+                            className={`flex-1 px-3 py-1.5 text-sm border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                          >
+                            {TICKET_CATEGORIES.map(category => (
+                              <option key={category} value={category}>{TICKET_CATEGORY_LABELS[category]}</option>
+                            ))}
+                          </select>
+                          <span className={`w-20 text-right transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>₹{getSelectedSeatTicketPrice(seatId).toLocaleString()}</span>
+                        </div>
+                      )
+                    })}
+                  </div>
                 </div>
+                {holdSecondsLeft !== null && (
+                  <div className="flex justify-between">
+                    <span className={`transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Seats held for:</span>
+                    <span className={`font-medium ${holdSecondsLeft <= 60 ? 'text-red-600' : darkMode ? 'text-white' : 'text-gray-900'}`}>
+                      {Math.floor(holdSecondsLeft / 60)}:{String(holdSecondsLeft % 60).padStart(2, '0')}
+                    </span>
+                  </div>
+                )}
+                <div className={`border-t pt-3 transition-colors duration-200 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                  <label className={`flex items-center gap-2 text-sm transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    <input
+                      type="checkbox"
+                      checked={isGroupBooking}
+                      onChange={(e) => setIsGroupBooking(e.target.checked)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    Group booking (one invoice)
+                  </label>
+                  {isGroupBooking && (
+                    <div className="mt-2">
+                      <input
+                        type="text"
+                        value={groupName}
+                        onChange={(e) => setGroupName(e.target.value)}
+                        placeholder="School, company or tour operator"
+                        className={`w-full px-3 py-1.5 text-sm border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900'}`}
+                      />
+                      <p className={`mt-1 text-xs transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {describeGroupRate(selectedShow)}
+                        {selectedShow.group_discount_percent && !hasGroupRate() && ` (${selectedSeats.length} selected)`}
+                      </p>
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <label className={`block text-sm mb-1 transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Promo Code:</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={promoInput}
+                      onChange={(e) => {
+                        setPromoInput(e.target.value.toUpperCase())
+                        setAppliedPromo(null)
+                        setPromoError(null)
+                      }}
+                      onKeyDown={(e) => e.key === 'Enter' && handleApplyPromo()}
+                      placeholder="Enter code"
+                      className={`flex-1 px-3 py-1.5 text-sm uppercase border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900'}`}
+                    />
+                    {appliedPromo ? (
+                      <button
+                        onClick={clearPromo}
+                        className={`px-3 py-1.5 text-sm rounded-lg font-medium transition-colors ${darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                      >
+                        Remove
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleApplyPromo}
+                        disabled={applyingPromo || !promoInput.trim()}
+                        className="px-3 py-1.5 text-sm rounded-lg font-medium bg-primary-600 text-white hover:bg-primary-700 transition-colors disabled:opacity-50"
+                      >
+                        {applyingPromo ? 'Checking...' : 'Apply'}
+                      </button>
+                    )}
+                  </div>
+                  {promoError && (
+                    <p className="mt-1 text-sm text-red-600">{promoError}</p>
+                  )}
+                </div>
+                {(appliedPromo || hasGroupRate()) && (
+                  <div className="flex justify-between">
+                    <span className={`transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Subtotal:</span>
+                    <span className={`transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>₹{getSubtotalAmount().toLocaleString()}</span>
+                  </div>
+                )}
+                {hasGroupRate() && (
+                  <div className="flex justify-between">
+                    <span className="text-green-600">Group rate ({Number(selectedShow.group_discount_percent)}%):</span>
+                    <span className="text-green-600">-₹{getGroupDiscountAmount().toLocaleString()}</span>
+                  </div>
+                )}
+                {appliedPromo && (
+                  <div className="flex justify-between">
+                    <span className="text-green-600">Discount ({appliedPromo.code}):</span>
+                    <span className="text-green-600">-₹{getDiscountAmount().toLocaleString()}</span>
+                  </div>
+                )}
                 <div className={`flex justify-between text-lg font-bold border-t pt-2 transition-colors duration-200 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
                   <span className={`transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Total Amount:</span>
                   <span className={`transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>₹{getTotalAmount().toLocaleString()}</span>
@@ -1270,6 +1487,24 @@ const Booking: React.FC = () => {
                 </div>
               )}
               
+              {bookingResult.paidWithSeasonPass && (
+                <p className="text-sm mb-1 text-green-600">Paid with season pass</p>
+              )}
+              {bookingResult.groupDiscountAmount > 0 && (
+                <p className="text-sm mb-1 text-green-600">
+                  Group rate saved ₹{bookingResult.groupDiscountAmount.toLocaleString()}
+                </p>
+              )}
+              {bookingResult.promoCode && (
+                <p className="text-sm mb-1 text-green-600">
+                  {bookingResult.promoCode} saved ₹{bookingResult.discountAmount.toLocaleString()}
+                </p>
+              )}
+              {bookingResult.payments.length > 0 && (
+                <p className={`text-sm mb-1 transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                  Paid by {bookingResult.payments.map(payment => `${PAYMENT_METHOD_LABELS[payment.method]} ₹${payment.amount.toLocaleString()}`).join(' + ')}
+                </p>
+              )}
               <p className={`text-sm mb-8 transition-colors duration-200 ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
                 Total Amount: <span className={`font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>₹{bookingResult.totalAmount?.toLocaleString() || '0'}</span>
               </p>
@@ -1283,6 +1518,14 @@ const Booking: React.FC = () => {
                 >
                   View & Print Tickets
                 </button>
+                {bookingResult.invoiceNumber && (
+                  <button
+                    onClick={handlePrintInvoice}
+                    className={`w-full py-3 px-6 rounded-2xl font-medium transition-colors ${darkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-white border border-slate-300 text-slate-900 hover:bg-slate-50'}`}
+                  >
+                    Print Invoice {bookingResult.invoiceNumber}
+                  </button>
+                )}
                 <button
                   onClick={() => setShowConfirmation(false)}
                   className={`w-full py-3 px-6 rounded-2xl font-medium transition-colors ${darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
@@ -1427,6 +1670,101 @@ const Booking: React.FC = () => {
                 </div>
               )}
 
+              {/* Season Pass */}
+              {selectedCustomer && redeemableSeasonPasses.length > 0 && (
+                <div>
+                  <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                    Season Pass
+                  </label>
+                  <select
+                    value={selectedSeasonPassId}
+                    onChange={(e) => setSelectedSeasonPassId(e.target.value)}
+                    className={`w-full px-3 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${darkMode ? 'bg-slate-800 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`}
+                  >
+                    <option value="">Pay ₹{getTotalAmount().toLocaleString()}</option>
+                    {redeemableSeasonPasses.map(pass => (
+                      <option key={pass.id} value={pass.id}>
+                        {pass.name} ({pass.pass_code}) - {getSeasonPassBalance(pass)} admission(s) left
+                      </option>
+                    ))}
+                  </select>
+                  {selectedSeasonPassId && (
+                    <p className={`mt-1 text-xs ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                      Uses {selectedSeats.length} admission(s); {appliedPromo || hasGroupRate() ? 'discounts do not apply to pass bookings' : 'nothing to pay'}.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Payment */}
+              {!selectedSeasonPassId && getTotalAmount() > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className={`text-sm font-medium ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                      Payment (₹{getTotalAmount().toLocaleString()})
+                    </label>
+                    <button
+                      type="button"
+                      onClick={addSplitPayment}
+                      className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                    >
+                      + Split payment
+                    </button>
+                  </div>
+                  <div className="space-y-2">
+                    {payments.map((payment, index) => (
+                      <div key={index} className="flex gap-2">
+                        <select
+                          value={payment.method}
+                          onChange={(e) => updatePayment(index, { method: e.target.value as PaymentMethod })}
+                          className={`w-24 px-2 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${darkMode ? 'bg-slate-800 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`}
+                        >
+                          {PAYMENT_METHODS.map(method => (
+                            <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          value={payment.amount}
+                          onChange={(e) => updatePayment(index, { amount: e.target.value })}
+                          min="0"
+                          step="0.01"
+                          placeholder="Amount"
+                          className={`w-24 px-2 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${darkMode ? 'bg-slate-800 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`}
+                        />
+                        <input
+                          type="text"
+                          value={payment.reference}
+                          onChange={(e) => updatePayment(index, { reference: e.target.value })}
+                          placeholder={PAYMENT_METHODS_NEEDING_REFERENCE.includes(payment.method) ? 'Reference' : 'Reference (optional)'}
+                          className={`flex-1 min-w-0 px-2 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${darkMode ? 'bg-slate-800 border-slate-600 text-slate-100 placeholder-slate-400' : 'bg-white border-slate-300 text-slate-900'}`}
+                        />
+                        {payments.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => setPayments(prev => prev.filter((_, i) => i !== index))}
+                            className={`px-2 text-sm ${darkMode ? 'text-slate-400 hover:text-red-400' : 'text-slate-500 hover:text-red-600'}`}
+                            title="Remove payment"
+                          >
+                            ×
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {Math.abs(getPaymentRemaining()) >= 0.01 && (
+                    <p className={`mt-1 text-xs ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                      {getPaymentRemaining() > 0
+                        ? `₹${getPaymentRemaining().toLocaleString()} still to collect`
+                        : `₹${(-getPaymentRemaining()).toLocaleString()} more than the total`}
+                    </p>
+                  )}
+                </div>
+              )}
+              {paymentError && (
+                <p className="text-sm text-red-600">{paymentError}</p>
+              )}
+
               {/* Action Buttons */}
               <div className="flex space-x-3 pt-4">
                 <button
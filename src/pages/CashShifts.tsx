@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react'
+import { CashShift } from '../lib/supabase'
+import { format } from 'date-fns'
+import { PrinterIcon } from '@heroicons/react/24/outline'
+import { useDarkMode } from '../hooks/useDarkMode'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  fetchCashShifts,
+  closeCashShift,
+  hasCashDiscrepancy,
+  describeVariance,
+  printCashShiftReport
+} from '../utils/cashShifts'
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from '../utils/payments'
+
+const CashShifts: React.FC = () => {
+  const [shifts, setShifts] = useState<CashShift[]>([])
+  const [loading, setLoading] = useState(true)
+  const [discrepanciesOnly, setDiscrepanciesOnly] = useState(false)
+  const [staffFilter, setStaffFilter] = useState('')
+  const { user } = useAuth()
+  const darkMode = useDarkMode()
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      setShifts(await fetchCashShifts())
+    } catch (error) {
+      console.error('Error fetching cash shifts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // For a drawer someone left open; the admin counts it out for them
+  const handleClose = async (shift: CashShift) => {
+    const counted = window.prompt(`Cash counted in ${shift.staff_name || shift.staff_email}'s drawer (₹)`)
+    if (counted === null) return
+
+    try {
+      const result = await closeCashShift(shift, parseFloat(counted) || 0, 'Closed by admin', user?.email || 'unknown')
+      if (!result.success) {
+        alert(result.error)
+        return
+      }
+      await fetchData()
+    } catch (error) {
+      console.error('Error closing shift:', error)
+    }
+  }
+
+  const staffMembers = Array.from(new Set(shifts.map(shift => shift.staff_email))).sort()
+  const filteredShifts = shifts.filter(shift =>
+    (!staffFilter || shift.staff_email === staffFilter) &&
+    (!discrepanciesOnly || hasCashDiscrepancy(shift))
+  )
+  const closedShifts = filteredShifts.filter(shift => shift.status === 'CLOSED')
+  const netVariance = closedShifts.reduce((sum, shift) => sum + Number(shift.variance || 0), 0)
+
+  const headerClass = `px-4 py-4 text-left text-xs font-medium uppercase tracking-wider transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`
+  const cardClass = `p-4 rounded-xl border transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white border-slate-200'}`
+  const selectClass = `px-4 py-3 border rounded-xl text-sm transition-colors duration-200 ${darkMode ? 'bg-slate-800 border-slate-700 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className={`text-2xl sm:text-3xl font-semibold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+            Cash Shifts
+          </h1>
+          <p className={`mt-1 text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+            Every cash drawer opened and closed at the counter
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <select value={staffFilter} onChange={(e) => setStaffFilter(e.target.value)} className={selectClass}>
+            <option value="">All staff</option>
+            {staffMembers.map(email => (
+              <option key={email} value={email}>{email}</option>
+            ))}
+          </select>
+          <label className={`flex items-center text-sm transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+            <input
+              type="checkbox"
+              checked={discrepanciesOnly}
+              onChange={(e) => setDiscrepanciesOnly(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Discrepancies only
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        <div className={cardClass}>
+          <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>Open drawers</div>
+          <div className={`text-xl font-bold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+            {filteredShifts.filter(shift => shift.status === 'OPEN').length}
+          </div>
+        </div>
+        <div className={cardClass}>
+          <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>Shifts with discrepancies</div>
+          <div className={`text-xl font-bold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+            {closedShifts.filter(hasCashDiscrepancy).length} of {closedShifts.length}
+          </div>
+        </div>
+        <div className={cardClass}>
+          <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>Net variance</div>
+          <div className={`text-xl font-bold ${netVariance < 0 ? 'text-red-600' : darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+            {describeVariance(netVariance)}
+          </div>
+        </div>
+      </div>
+
+      <div className={`rounded-2xl shadow-sm border overflow-hidden transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white border-slate-200'}`}>
+        <div className="overflow-x-auto">
+          <table className={`min-w-full divide-y transition-colors duration-200 ${darkMode ? 'divide-slate-800' : 'divide-slate-200'}`}>
+            <thead className={`transition-colors duration-200 ${darkMode ? 'bg-slate-800/50' : 'bg-slate-50'}`}>
+              <tr>
+                <th className={headerClass}>Staff</th>
+                <th className={headerClass}>Shift</th>
+                <th className={headerClass}>Collected</th>
+                <th className={headerClass}>Expected Cash</th>
+                <th className={headerClass}>Counted</th>
+                <th className={headerClass}>Variance</th>
+                <th className={`${headerClass} text-center`}>Actions</th>
+              </tr>
+            </thead>
+            <tbody className={`divide-y transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 divide-slate-800' : 'bg-white divide-slate-200'}`}>
+              {filteredShifts.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className={`px-4 py-12 text-center transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                    <div className="text-lg mb-2">No shifts found</div>
+                    <div className="text-sm">Staff open a shift from My Shift before taking cash.</div>
+                  </td>
+                </tr>
+              ) : (
+                filteredShifts.map(shift => (
+                  <tr key={shift.id} className={`transition-colors duration-200 ${darkMode ? 'hover:bg-slate-800/50' : 'hover:bg-slate-50'}`}>
+                    <td className="px-4 py-4 whitespace-nowrap">
+                      <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>{shift.staff_name || shift.staff_email}</div>
+                      {shift.staff_name && (
+                        <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{shift.staff_email}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap">
+                      <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                        {format(new Date(shift.opened_at), 'MMM dd, h:mm a')}
+                        {shift.closed_at && ` - ${format(new Date(shift.closed_at), 'h:mm a')}`}
+                      </div>
+                      <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        {shift.status === 'OPEN' ? 'Open' : `${shift.bookings || 0} booking(s)`}
+                        {shift.closed_by && shift.closed_by !== shift.staff_email && ` · closed by ${shift.closed_by}`}
+                      </div>
+                    </td>
+                    <td className={`px-4 py-4 text-sm transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                      {shift.expected_totals
+                        ? PAYMENT_METHODS
+                            .filter(method => shift.expected_totals?.[method])
+                            .map(method => `${PAYMENT_METHOD_LABELS[method]} ₹${Number(shift.expected_totals?.[method]).toLocaleString()}`)
+                            .join(', ') || 'Nothing'
+                        : '-'}
+                    </td>
+                    <td className={`px-4 py-4 whitespace-nowrap text-sm transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                      {shift.expected_cash !== null ? `₹${Number(shift.expected_cash).toLocaleString()}` : '-'}
+                      <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        Float ₹{Number(shift.opening_float).toLocaleString()}
+                      </div>
+                    </td>
+                    <td className={`px-4 py-4 whitespace-nowrap text-sm transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                      {shift.counted_cash !== null ? `₹${Number(shift.counted_cash).toLocaleString()}` : '-'}
+                    </td>
+                    <td className="px-4 py-4">
+                      {shift.variance !== null ? (
+                        <span className={`text-sm font-medium ${hasCashDiscrepancy(shift) ? (Number(shift.variance) < 0 ? 'text-red-600' : 'text-amber-600') : 'text-green-600'}`}>
+                          {describeVariance(Number(shift.variance))}
+                        </span>
+                      ) : (
+                        <span className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>-</span>
+                      )}
+                      {shift.notes && (
+                        <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{shift.notes}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-center">
+                      {shift.status === 'CLOSED' ? (
+                        <button
+                          onClick={() => printCashShiftReport(shift)}
+                          className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-800' : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'}`}
+                          title="Print closing report"
+                        >
+                          <PrinterIcon className="h-4 w-4" />
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleClose(shift)}
+                          className="px-3 py-1 text-sm font-medium rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors"
+                        >
+                          Close
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CashShifts
@@ -0,0 +1,254 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { supabase, Show } from '../lib/supabase'
+import { format } from 'date-fns'
+import { motion } from 'framer-motion'
+import { QrCodeIcon, CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline'
+import { useAuth } from '../contexts/AuthContext'
+import { useDarkMode } from '../hooks/useDarkMode'
+import { useVenue } from '../contexts/VenueContext'
+import { venueToday } from '../utils/venueTime'
+import { checkInTicket, fetchAdmissionCounts, AdmissionCount, CheckInResult } from '../utils/ticketCheckIn'
+
+const CheckIn: React.FC = () => {
+  const { user } = useAuth()
+  const darkMode = useDarkMode()
+  const { timezone, timezoneOf } = useVenue()
+  const [shows, setShows] = useState<Show[]>([])
+  const [selectedShow, setSelectedShow] = useState<Show | null>(null)
+  const [counts, setCounts] = useState<{ [showId: string]: AdmissionCount }>({})
+  const [ticketCode, setTicketCode] = useState('')
+  const [lastResult, setLastResult] = useState<CheckInResult | null>(null)
+  const [recentScans, setRecentScans] = useState<CheckInResult[]>([])
+  const [loading, setLoading] = useState(true)
+  const [checking, setChecking] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // The venue's today; fetched again once the venue's timezone is known
+  useEffect(() => {
+    fetchTodaysShows(timezone)
+  }, [timezone])
+
+  // Keep admitted counts live while the gate is open
+  useEffect(() => {
+    if (shows.length === 0) return
+
+    const showIds = shows.map(show => show.id)
+    const refreshCounts = async () => {
+      try {
+        setCounts(await fetchAdmissionCounts(showIds))
+      } catch (error) {
+        console.error('Error fetching admission counts:', error)
+      }
+    }
+
+    refreshCounts()
+
+    const channel = supabase
+      .channel('gate-check-in')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'tickets' }, (payload: any) => {
+        const showId = payload.new?.show_id || payload.old?.show_id
+        if (!showId || showIds.includes(showId)) {
+          refreshCounts()
+        }
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [shows])
+
+  const fetchTodaysShows = async (timezone: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('shows')
+        .select('*')
+        .eq('date', venueToday(timezone))
+        .in('status', ['ACTIVE', 'HOUSE_FULL', 'SHOW_STARTED'])
+        .order('time')
+
+      if (error) throw error
+
+      setShows(data || [])
+      // Default to the first show of the day that is still open
+      if (data && data.length > 0) {
+        setSelectedShow(data[0])
+      }
+    } catch (error) {
+      console.error('Error fetching shows:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedShow || !ticketCode.trim()) return
+
+    try {
+      setChecking(true)
+      const result = await checkInTicket(ticketCode, selectedShow.id, timezoneOf(selectedShow.venue_id), user?.email || 'unknown')
+      setLastResult(result)
+      setRecentScans(prev => [result, ...prev].slice(0, 10))
+    } catch (error: any) {
+      setLastResult({
+        success: false,
+        ticketCode: ticketCode.trim(),
+        error: error.message || 'Check-in failed. Please try again.'
+      })
+    } finally {
+      setTicketCode('')
+      setChecking(false)
+      inputRef.current?.focus()
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className={`text-2xl sm:text-3xl font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>Gate Check-in</h1>
+        <p className={`mt-2 text-sm sm:text-base transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+          Scan or type ticket codes to admit guests for today's shows
+        </p>
+      </div>
+
+      {/* Show Selection */}
+      <div className={`rounded-2xl shadow-sm border p-6 mb-6 transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white border-slate-200'}`}>
+        <h2 className={`text-lg font-medium mb-4 transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>Today's Shows</h2>
+
+        {shows.length === 0 ? (
+          <div className={`text-center py-8 transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+            <div className="text-lg mb-2">No shows open for check-in today</div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+            {shows.map((show) => {
+              const count = counts[show.id] || { admitted: 0, issued: 0 }
+              return (
+                <button
+                  key={show.id}
+                  onClick={() => {
+                    setSelectedShow(show)
+                    setLastResult(null)
+                    inputRef.current?.focus()
+                  }}
+                  className={`p-4 rounded-xl border-2 text-left transition-all duration-200 ${selectedShow?.id === show.id
+                    ? darkMode
+                      ? 'border-slate-600 bg-slate-800 shadow-sm'
+                      : 'border-slate-300 bg-slate-50 shadow-sm'
+                    : darkMode
+                      ? 'border-slate-700 hover:border-slate-600 bg-slate-800/50 hover:bg-slate-800'
+                      : 'border-slate-200 hover:border-slate-300 bg-white hover:bg-slate-50'
+                    }`}
+                >
+                  <div className={`font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>{show.title}</div>
+                  <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                    {format(new Date(`2000-01-01T${show.time}`), 'h:mm a')}
+                  </div>
+                  <div className={`mt-2 text-2xl font-bold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                    {count.admitted}
+                    <span className={`text-sm font-medium ml-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>/ {count.issued} admitted</span>
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {selectedShow && (
+        <div className={`rounded-2xl shadow-sm border p-6 mb-6 transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white border-slate-200'}`}>
+          <h2 className={`text-lg font-medium mb-4 transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+            Checking in: {selectedShow.title}
+          </h2>
+
+          <form onSubmit={handleCheckIn} className="flex flex-col sm:flex-row gap-3">
+            <div className="relative flex-1">
+              <QrCodeIcon className={`absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`} />
+              <input
+                ref={inputRef}
+                type="text"
+                autoFocus
+                value={ticketCode}
+                onChange={(e) => setTicketCode(e.target.value)}
+                placeholder="Scan QR code or type ticket code..."
+                className={`w-full pl-10 pr-4 py-3 border rounded-xl font-mono focus:ring-2 focus:ring-slate-500 focus:border-transparent transition-all duration-200 ${darkMode ? 'bg-slate-800/50 border-slate-700 text-slate-100 placeholder-slate-400' : 'bg-slate-50 border-slate-300 text-slate-900 placeholder-slate-500'}`}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={checking || !ticketCode.trim()}
+              className="px-6 py-3 bg-primary-600 text-white rounded-xl font-medium hover:bg-primary-700 transition-colors disabled:opacity-50"
+            >
+              {checking ? 'Checking...' : 'Admit'}
+            </button>
+          </form>
+
+          {/* Last Result */}
+          {lastResult && (
+            <motion.div
+              key={`${lastResult.ticketCode}-${recentScans.length}`}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className={`mt-6 p-4 rounded-xl border-2 flex items-start ${lastResult.success
+                ? darkMode ? 'bg-green-900/20 border-green-700' : 'bg-green-50 border-green-400'
+                : darkMode ? 'bg-red-900/20 border-red-700' : 'bg-red-50 border-red-400'
+                }`}
+            >
+              {lastResult.success ? (
+                <CheckCircleIcon className="h-10 w-10 text-green-500 flex-shrink-0 mr-4" />
+              ) : (
+                <XCircleIcon className="h-10 w-10 text-red-500 flex-shrink-0 mr-4" />
+              )}
+              <div>
+                <div className={`text-xl font-bold ${lastResult.success ? 'text-green-600' : 'text-red-600'}`}>
+                  {lastResult.success ? `Admitted — Seat ${lastResult.ticket?.seat_code}` : 'Entry Denied'}
+                </div>
+                {!lastResult.success && (
+                  <div className={`text-sm mt-1 ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{lastResult.error}</div>
+                )}
+                <div className={`text-xs font-mono mt-1 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{lastResult.ticketCode}</div>
+              </div>
+            </motion.div>
+          )}
+        </div>
+      )}
+
+      {/* Recent Scans */}
+      {recentScans.length > 0 && (
+        <div className={`rounded-2xl shadow-sm border transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white border-slate-200'}`}>
+          <div className={`p-6 border-b ${darkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+            <h3 className={`text-lg font-semibold ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>Recent Scans</h3>
+          </div>
+          <div className={`divide-y ${darkMode ? 'divide-slate-800' : 'divide-slate-200'}`}>
+            {recentScans.map((scan, index) => (
+              <div key={`${scan.ticketCode}-${index}`} className="px-6 py-3 flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  {scan.success ? (
+                    <CheckCircleIcon className="h-5 w-5 text-green-500 flex-shrink-0 mr-3" />
+                  ) : (
+                    <XCircleIcon className="h-5 w-5 text-red-500 flex-shrink-0 mr-3" />
+                  )}
+                  <span className={`text-sm font-mono truncate ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>{scan.ticketCode}</span>
+                </div>
+                <span className={`text-sm ml-4 flex-shrink-0 ${scan.success ? 'text-green-600' : 'text-red-600'}`}>
+                  {scan.success ? `Seat ${scan.ticket?.seat_code}` : scan.errorCode?.replace('_', ' ') || 'ERROR'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CheckIn
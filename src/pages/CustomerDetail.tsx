@@ -1,9 +1,15 @@
 import React, { useState, useEffect } from 'react'
 import { useParams, Link } from 'react-router-dom'
-import { supabase, Customer, Booking } from '../lib/supabase'
+import { supabase, Customer, Booking, SeasonPass } from '../lib/supabase'
 import { motion } from 'framer-motion'
-import { format } from 'date-fns'
+import { format, parseISO } from 'date-fns'
 import { useDarkMode } from '../hooks/useDarkMode'
+import { useAuth } from '../contexts/AuthContext'
+import CancelBookingModal from '../components/CancelBookingModal'
+import { parseSeatCodes } from '../utils/bookingCancellation'
+import { isShowOpen } from '../utils/showLifecycle'
+import { getBookingTotal } from '../utils/seatPricing'
+import { fetchCustomerSeasonPasses, createSeasonPass, setSeasonPassActive, getSeasonPassBalance } from '../utils/seasonPasses'
 import {
   ArrowLeftIcon,
   UserIcon,
@@ -13,7 +19,9 @@ import {
   TicketIcon,
   CalendarIcon,
   CurrencyRupeeIcon,
-  ChartBarIcon
+  ChartBarIcon,
+  NoSymbolIcon,
+  PlusIcon
 } from '@heroicons/react/24/outline'
 
 const CustomerDetail: React.FC = () => {
@@ -21,6 +29,10 @@ const CustomerDetail: React.FC = () => {
   const [customer, setCustomer] = useState<Customer | null>(null)
   const [bookings, setBookings] = useState<Booking[]>([])
   const [loading, setLoading] = useState(true)
+  const [cancellingBooking, setCancellingBooking] = useState<Booking | null>(null)
+  const [seasonPasses, setSeasonPasses] = useState<SeasonPass[]>([])
+  const [showPassModal, setShowPassModal] = useState(false)
+  const [passForm, setPassForm] = useState({ name: '', admissions: '', valid_from: '', valid_until: '', price: '' })
   const [analytics, setAnalytics] = useState({
     totalBookings: 0,
     totalSpent: 0,
@@ -28,6 +40,7 @@ const CustomerDetail: React.FC = () => {
     averageSpent: 0
   })
   const darkMode = useDarkMode()
+  const { user, can } = useAuth()
 
   useEffect(() => {
     if (customerId) {
@@ -55,7 +68,8 @@ const CustomerDetail: React.FC = () => {
         .from('bookings')
         .select(`
           *,
-          show:shows(*)
+          show:shows(*),
+          tickets(price)
         `)
         .eq('customer_id', customerId)
         .order('booking_time', { ascending: false })
@@ -63,28 +77,16 @@ const CustomerDetail: React.FC = () => {
       if (bookingsError) throw bookingsError
       setBookings(bookingsData || [])
 
-      // Calculate analytics
-      const totalBookings = bookingsData?.length || 0
-      const totalTickets = bookingsData?.reduce((sum, booking) => {
-        try {
-          const seatCodes = JSON.parse(booking.seat_code)
-          return sum + (Array.isArray(seatCodes) ? seatCodes.length : 1)
-        } catch {
-          return sum + (booking.seat_code.includes(',') ? booking.seat_code.split(',').length : 1)
-        }
-      }, 0) || 0
-
-      const totalSpent = bookingsData?.reduce((sum, booking) => {
-        const seatCount = (() => {
-          try {
-            const seatCodes = JSON.parse(booking.seat_code)
-            return Array.isArray(seatCodes) ? seatCodes.length : 1
-          } catch {
-            return booking.seat_code.includes(',') ? booking.seat_code.split(',').length : 1
-          }
-        })()
-        return sum + (booking.show?.price || 0) * seatCount
-      }, 0) || 0
+      setSeasonPasses(await fetchCustomerSeasonPasses(customerId!))
+
+      // Calculate analytics (cancelled bookings don't count)
+      const confirmedBookings = bookingsData?.filter(booking => booking.status === 'CONFIRMED') || []
+      const totalBookings = confirmedBookings.length
+      const totalTickets = confirmedBookings.reduce((sum, booking) => {
+        return sum + parseSeatCodes(booking.seat_code).length
+      }, 0)
+
+      const totalSpent = confirmedBookings.reduce((sum, booking) => sum + getBookingTotal(booking), 0)
 
       setAnalytics({
         totalBookings,
@@ -98,7 +100,41 @@ const CustomerDetail: React.FC = () => {
     } finally {
       setLoading(false)
     }
-  } 
+  }
+
+  const handleIssuePass = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!customer) return
+
+    try {
+      await createSeasonPass({
+        customerId: customer.id,
+        customerName: customer.name,
+        name: passForm.name,
+        admissions: parseInt(passForm.admissions),
+        validFrom: passForm.valid_from || null,
+        validUntil: passForm.valid_until || null,
+        price: passForm.price ? parseFloat(passForm.price) : 0
+      }, user?.email || 'unknown')
+
+      setShowPassModal(false)
+      setPassForm({ name: '', admissions: '', valid_from: '', valid_until: '', price: '' })
+      setSeasonPasses(await fetchCustomerSeasonPasses(customer.id))
+    } catch (error) {
+      console.error('Error issuing season pass:', error)
+      alert('Could not issue the season pass. Please try again.')
+    }
+  }
+
+  const handleTogglePass = async (pass: SeasonPass) => {
+    try {
+      await setSeasonPassActive(pass, !pass.active, user?.email || 'unknown')
+      setSeasonPasses(await fetchCustomerSeasonPasses(pass.customer_id))
+    } catch (error) {
+      console.error('Error updating season pass:', error)
+    }
+  }
+
  if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -251,6 +287,67 @@ const CustomerDetail: React.FC = () => {
               </div>
             </div>
           </div>
+
+          {/* Season Passes */}
+          <div className={`mt-6 rounded-2xl shadow-sm border p-6 transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white border-slate-200'}`}>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className={`text-lg font-semibold ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                Season Passes
+              </h3>
+              {can('customer.edit') && (
+                <button
+                  onClick={() => setShowPassModal(true)}
+                  className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg transition-colors duration-200 ${darkMode ? 'text-primary-400 hover:bg-primary-900/20' : 'text-primary-600 hover:bg-primary-50'}`}
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" />
+                  Issue Pass
+                </button>
+              )}
+            </div>
+
+            {seasonPasses.length === 0 ? (
+              <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                No season passes.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {seasonPasses.map(pass => {
+                  const balance = getSeasonPassBalance(pass)
+                  return (
+                    <div key={pass.id} className={`p-3 rounded-xl border ${darkMode ? 'border-slate-700' : 'border-slate-200'} ${pass.active ? '' : 'opacity-60'}`}>
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <div className={`text-sm font-medium ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>{pass.name}</div>
+                          <div className={`text-xs font-mono ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{pass.pass_code}</div>
+                        </div>
+                        <div className="text-right">
+                          <div className={`text-lg font-bold ${balance > 0 ? 'text-green-600' : darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                            {balance} / {pass.admissions}
+                          </div>
+                          <div className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>admissions left</div>
+                        </div>
+                      </div>
+                      <div className={`mt-2 flex items-center justify-between text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        <span>
+                          {pass.valid_from || pass.valid_until
+                            ? `${pass.valid_from ? format(parseISO(pass.valid_from), 'MMM dd') : '...'} - ${pass.valid_until ? format(parseISO(pass.valid_until), 'MMM dd, yyyy') : '...'}`
+                            : 'Any show'}
+                        </span>
+                        {can('customer.edit') && (
+                          <button
+                            onClick={() => handleTogglePass(pass)}
+                            className={`font-medium ${pass.active ? 'text-red-600 hover:text-red-700' : 'text-primary-600 hover:text-primary-700'}`}
+                          >
+                            {pass.active ? 'Deactivate' : 'Reactivate'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Booking History */}
@@ -278,16 +375,11 @@ const CustomerDetail: React.FC = () => {
             ) : (
               <div className="divide-y divide-slate-200 dark:divide-slate-700">
                 {bookings.map((booking) => {
-                  const seatCount = (() => {
-                    try {
-                      const seatCodes = JSON.parse(booking.seat_code)
-                      return Array.isArray(seatCodes) ? seatCodes.length : 1
-                    } catch {
-                      return booking.seat_code.includes(',') ? booking.seat_code.split(',').length : 1
-                    }
-                  })()
+                  const seatCodes = parseSeatCodes(booking.seat_code)
+                  const seatCount = seatCodes.length
+                  const canCancel = booking.status === 'CONFIRMED' && isShowOpen(booking.show?.status) && can('booking.cancel')
                   
-                  const totalAmount = (booking.show?.price || 0) * seatCount
+                  const totalAmount = getBookingTotal(booking)
 
                   return (
                     <motion.div
@@ -332,10 +424,32 @@ const CustomerDetail: React.FC = () => {
                             </div>
                           </div>
                           
+                          {(booking.group_name || booking.season_pass_id) && (
+                            <div className={`mt-2 text-xs ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                              {booking.group_name && `Group: ${booking.group_name}${booking.invoice_number ? ` · ${booking.invoice_number}` : ''}`}
+                              {booking.season_pass_id && 'Paid with season pass'}
+                            </div>
+                          )}
                           <div className={`mt-2 text-xs ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>
                             Booked on {format(new Date(booking.booking_time), 'MMM dd, yyyy \'at\' h:mm a')}
                           </div>
+                          {booking.status === 'CANCELLED' && booking.cancelled_at && (
+                            <div className={`mt-1 text-xs ${darkMode ? 'text-red-400' : 'text-red-600'}`}>
+                              Cancelled on {format(new Date(booking.cancelled_at), 'MMM dd, yyyy \'at\' h:mm a')}
+                              {booking.cancelled_by && ` by ${booking.cancelled_by}`}
+                              {booking.cancellation_reason && ` — ${booking.cancellation_reason}`}
+                            </div>
+                          )}
                         </div>
+                        {canCancel && (
+                          <button
+                            onClick={() => setCancellingBooking(booking)}
+                            className={`ml-4 inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg transition-colors duration-200 ${darkMode ? 'text-red-400 hover:bg-red-900/20' : 'text-red-600 hover:bg-red-50'}`}
+                          >
+                            <NoSymbolIcon className="h-4 w-4 mr-1" />
+                            Cancel
+                          </button>
+                        )}
                       </div>
                     </motion.div>
                   )
@@ -345,6 +459,104 @@ const CustomerDetail: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* Issue Season Pass Modal */}
+      {showPassModal && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className={`rounded-2xl p-6 max-w-md w-full shadow-xl ${darkMode ? 'bg-slate-900 border border-slate-800' : 'bg-white border border-slate-200'}`}>
+            <h2 className={`text-xl font-medium mb-4 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+              Issue Season Pass
+            </h2>
+            <form onSubmit={handleIssuePass} className="space-y-4">
+              <div>
+                <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Pass Name</label>
+                <input
+                  type="text"
+                  value={passForm.name}
+                  onChange={(e) => setPassForm({ ...passForm, name: e.target.value })}
+                  required
+                  placeholder="Festival Week"
+                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${darkMode ? 'bg-slate-800 border-slate-600 text-slate-100 placeholder-slate-400' : 'bg-white border-slate-300 text-slate-900'}`}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Admissions</label>
+                  <input
+                    type="number"
+                    value={passForm.admissions}
+                    onChange={(e) => setPassForm({ ...passForm, admissions: e.target.value })}
+                    required
+                    min="1"
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${darkMode ? 'bg-slate-800 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`}
+                  />
+                </div>
+                <div>
+                  <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Price Paid (₹)</label>
+                  <input
+                    type="number"
+                    value={passForm.price}
+                    onChange={(e) => setPassForm({ ...passForm, price: e.target.value })}
+                    min="0"
+                    step="0.01"
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${darkMode ? 'bg-slate-800 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Valid From</label>
+                  <input
+                    type="date"
+                    value={passForm.valid_from}
+                    onChange={(e) => setPassForm({ ...passForm, valid_from: e.target.value })}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${darkMode ? 'bg-slate-800 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`}
+                  />
+                </div>
+                <div>
+                  <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Valid Until</label>
+                  <input
+                    type="date"
+                    value={passForm.valid_until}
+                    onChange={(e) => setPassForm({ ...passForm, valid_until: e.target.value })}
+                    min={passForm.valid_from || undefined}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${darkMode ? 'bg-slate-800 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`}
+                  />
+                </div>
+              </div>
+              <div className="flex space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowPassModal(false)}
+                  className={`flex-1 py-2 px-4 rounded-lg font-medium transition-colors ${darkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 py-2 px-4 rounded-lg font-medium bg-primary-600 text-white hover:bg-primary-700 transition-colors"
+                >
+                  Issue Pass
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Cancel Modal */}
+      {cancellingBooking && (
+        <CancelBookingModal
+          bookingId={cancellingBooking.id}
+          showTitle={cancellingBooking.show?.title || 'Unknown Show'}
+          seatCodes={parseSeatCodes(cancellingBooking.seat_code)}
+          onClose={() => setCancellingBooking(null)}
+          onCancelled={() => {
+            setCancellingBooking(null)
+            fetchCustomerData()
+          }}
+        />
+      )}
     </div>
   )
 }
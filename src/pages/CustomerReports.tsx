@@ -15,6 +15,7 @@ import {
   CurrencyRupeeIcon,
   ChartBarIcon
 } from '@heroicons/react/24/outline'
+import { getBookingTotal } from '../utils/seatPricing'
 
 interface CustomerAnalytics {
   totalBookings: number
@@ -58,7 +59,8 @@ const CustomerReports: React.FC = () => {
         .from('bookings')
         .select(`
           *,
-          show:shows(*)
+          show:shows(*),
+          tickets(price)
         `)
 
       if (bookingsError) throw bookingsError
@@ -77,17 +79,7 @@ const CustomerReports: React.FC = () => {
           }
         }, 0)
 
-        const totalSpent = customerBookings.reduce((sum, booking) => {
-          const seatCount = (() => {
-            try {
-              const seatCodes = JSON.parse(booking.seat_code)
-              return Array.isArray(seatCodes) ? seatCodes.length : 1
-            } catch {
-              return booking.seat_code.includes(',') ? booking.seat_code.split(',').length : 1
-            }
-          })()
-          return sum + (booking.show?.price || 0) * seatCount
-        }, 0)
+        const totalSpent = customerBookings.reduce((sum, booking) => sum + getBookingTotal(booking), 0)
 
         const lastBooking = customerBookings.length > 0 
           ? customerBookings.sort((a, b) => new Date(b.booking_time).getTime() - new Date(a.booking_time).getTime())[0].booking_time
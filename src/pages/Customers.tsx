@@ -3,6 +3,7 @@ import { supabase, Customer } from '../lib/supabase'
 import { motion } from 'framer-motion'
 import { format } from 'date-fns'
 import { useDarkMode } from '../hooks/useDarkMode'
+import { useAuth } from '../contexts/AuthContext'
 import {
   PlusIcon,
   PencilIcon,
@@ -15,6 +16,7 @@ import {
 } from '@heroicons/react/24/outline'
 
 const Customers: React.FC = () => {
+  const { can } = useAuth()
   const [customers, setCustomers] = useState<Customer[]>([])
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
@@ -182,13 +184,15 @@ const Customers: React.FC = () => {
               />
             </div>
           </div>
-          <button
-            onClick={() => setShowModal(true)}
-            className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium"
-          >
-            <PlusIcon className="h-5 w-5 mr-2" />
-            Add Customer
-          </button>
+          {can('customer.edit') && (
+            <button
+              onClick={() => setShowModal(true)}
+              className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium"
+            >
+              <PlusIcon className="h-5 w-5 mr-2" />
+              Add Customer
+            </button>
+          )}
         </div>
       </div>
 
@@ -293,22 +297,24 @@ const Customers: React.FC = () => {
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <div className="flex items-center justify-end space-x-2">
-                          <button
-                            onClick={() => handleEdit(customer)}
-                            className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-700' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-100'}`}
-                            title="Edit Customer"
-                          >
-                            <PencilIcon className="h-4 w-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDelete(customer)}
-                            className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-red-400 hover:text-red-300 hover:bg-red-900/20' : 'text-red-500 hover:text-red-700 hover:bg-red-50'}`}
-                            title="Delete Customer"
-                          >
-                            <TrashIcon className="h-4 w-4" />
-                          </button>
-                        </div>
+                        {can('customer.edit') && (
+                          <div className="flex items-center justify-end space-x-2">
+                            <button
+                              onClick={() => handleEdit(customer)}
+                              className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-700' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-100'}`}
+                              title="Edit Customer"
+                            >
+                              <PencilIcon className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(customer)}
+                              className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-red-400 hover:text-red-300 hover:bg-red-900/20' : 'text-red-500 hover:text-red-700 hover:bg-red-50'}`}
+                              title="Delete Customer"
+                            >
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          </div>
+                        )}
                       </td>
                     </motion.tr>
                   ))}
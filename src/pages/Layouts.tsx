@@ -1,49 +1,71 @@
 import React, { useState, useEffect } from 'react'
-import { supabase, Layout } from '../lib/supabase'
-import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { supabase, Layout, LayoutPriceTier, LayoutSection, LayoutStructure } from '../lib/supabase'
+import { PlusIcon, PencilIcon, TrashIcon, Squares2X2Icon } from '@heroicons/react/24/outline'
 import { useDarkMode } from '../hooks/useDarkMode'
+import { useVenue } from '../contexts/VenueContext'
+import LayoutDesigner from '../components/LayoutDesigner'
+import {
+  LAYOUT_STRUCTURE_VERSION,
+  parseLayoutStructure,
+  validateLayoutStructure,
+  getRowLetter,
+  getSectionCapacity,
+  getSectionMaxRowSeats,
+  getLayoutCapacity,
+  findSection
+} from '../utils/layoutStructure'
+
+const createDefaultStructure = (): LayoutStructure => ({
+  version: LAYOUT_STRUCTURE_VERSION,
+  sections: [
+    { 
+      name: 'North',
+      rows: [
+        { rowNumber: 1, seats: 16 },
+        { rowNumber: 2, seats: 16 },
+        { rowNumber: 3, seats: 14 },
+        { rowNumber: 4, seats: 12 },
+        { rowNumber: 5, seats: 10 }
+      ]
+    },
+    { 
+      name: 'South',
+      rows: [
+        { rowNumber: 1, seats: 12 },
+        { rowNumber: 2, seats: 12 },
+        { rowNumber: 3, seats: 10 },
+        { rowNumber: 4, seats: 8 },
+        { rowNumber: 5, seats: 6 }
+      ]
+    },
+    { 
+      name: 'East',
+      rows: Array.from({ length: 15 }, (_, i) => ({ rowNumber: i + 1, seats: 2 }))
+    },
+    { 
+      name: 'West',
+      rows: Array.from({ length: 15 }, (_, i) => ({ rowNumber: i + 1, seats: 2 }))
+    }
+  ]
+})
+
+const sectionSummary = (section?: LayoutSection) =>
+  section ? `${section.rows.length}R × ${getSectionCapacity(section)}S` : '0R × 0S'
 
 const Layouts: React.FC = () => {
   const [layouts, setLayouts] = useState<Layout[]>([])
   const [loading, setLoading] = useState(true)
   const darkMode = useDarkMode()
+  const { venues, venueId } = useVenue()
   const [showModal, setShowModal] = useState(false)
   const [editingLayout, setEditingLayout] = useState<Layout | null>(null)
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<{ name: string; venue_id: string; structure: LayoutStructure }>({
     name: '',
-    structure: {
-      sections: [
-        { 
-          name: 'North',
-          rows: [
-            { rowNumber: 1, seats: 16 },
-            { rowNumber: 2, seats: 16 },
-            { rowNumber: 3, seats: 14 },
-            { rowNumber: 4, seats: 12 },
-            { rowNumber: 5, seats: 10 }
-          ]
-        },
-        { 
-          name: 'South',
-          rows: [
-            { rowNumber: 1, seats: 12 },
-            { rowNumber: 2, seats: 12 },
-            { rowNumber: 3, seats: 10 },
-            { rowNumber: 4, seats: 8 },
-            { rowNumber: 5, seats: 6 }
-          ]
-        },
-        { 
-          name: 'East',
-          rows: Array.from({ length: 15 }, (_, i) => ({ rowNumber: i + 1, seats: 2 }))
-        },
-        { 
-          name: 'West',
-          rows: Array.from({ length: 15 }, (_, i) => ({ rowNumber: i + 1, seats: 2 }))
-        }
-      ]
-    }
+    venue_id: '',
+    structure: createDefaultStructure()
   })
+  const [formErrors, setFormErrors] = useState<string[]>([])
+  const [designingLayout, setDesigningLayout] = useState<Layout | null>(null)
 
   useEffect(() => {
     fetchLayouts()
@@ -67,10 +89,15 @@ const Layouts: React.FC = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    const errors = validateLayoutStructure(formData.structure)
+    setFormErrors(errors)
+    if (errors.length > 0) return
     
     try {
       const layoutData = {
         name: formData.name,
+        venue_id: formData.venue_id,
         structure: formData.structure
       }
 
@@ -100,32 +127,12 @@ const Layouts: React.FC = () => {
 
   const handleEdit = (layout: Layout) => {
     setEditingLayout(layout)
-    
-    // Convert old format to new format if needed
-    const convertedStructure = {
-      ...layout.structure,
-      sections: layout.structure.sections?.map((section: any) => {
-        if (Array.isArray(section.rows)) {
-          // Already in new format
-          return section
-        } else {
-          // Convert old format to new format
-          const rowCount = section.rows || 0
-          const seatsPerRow = section.seatsPerRow || 0
-          return {
-            name: section.name,
-            rows: Array.from({ length: rowCount }, (_, i) => ({
-              rowNumber: i + 1,
-              seats: seatsPerRow
-            }))
-          }
-        }
-      }) || []
-    }
-    
+    setFormErrors([])
+    // Older layouts are upgraded to the current structure here and saved in it
     setFormData({
       name: layout.name,
-      structure: convertedStructure
+      venue_id: layout.venue_id,
+      structure: parseLayoutStructure(layout.structure)
     })
     setShowModal(true)
   }
@@ -147,40 +154,12 @@ const Layouts: React.FC = () => {
   }
 
   const resetForm = () => {
+    setFormErrors([])
+    // New layouts go to the venue being worked on
     setFormData({
       name: '',
-      structure: {
-        sections: [
-          { 
-            name: 'North',
-            rows: [
-              { rowNumber: 1, seats: 16 },
-              { rowNumber: 2, seats: 16 },
-              { rowNumber: 3, seats: 14 },
-              { rowNumber: 4, seats: 12 },
-              { rowNumber: 5, seats: 10 }
-            ]
-          },
-          { 
-            name: 'South',
-            rows: [
-              { rowNumber: 1, seats: 12 },
-              { rowNumber: 2, seats: 12 },
-              { rowNumber: 3, seats: 10 },
-              { rowNumber: 4, seats: 8 },
-              { rowNumber: 5, seats: 6 }
-            ]
-          },
-          { 
-            name: 'East',
-            rows: Array.from({ length: 15 }, (_, i) => ({ rowNumber: i + 1, seats: 2 }))
-          },
-          { 
-            name: 'West',
-            rows: Array.from({ length: 15 }, (_, i) => ({ rowNumber: i + 1, seats: 2 }))
-          }
-        ]
-      }
+      venue_id: venueId || venues.find(venue => venue.active)?.id || '',
+      structure: createDefaultStructure()
     })
   }
 
@@ -218,6 +197,43 @@ const Layouts: React.FC = () => {
     })
   }
 
+  const updateTiers = (tiers: LayoutPriceTier[]) => {
+    setFormData({
+      ...formData,
+      structure: { ...formData.structure, tiers }
+    })
+  }
+
+  const updateTier = (tierIndex: number, field: keyof LayoutPriceTier, value: string | number) => {
+    const tiers = [...(formData.structure.tiers || [])]
+    const previousName = tiers[tierIndex].name
+    tiers[tierIndex] = { ...tiers[tierIndex], [field]: value }
+
+    // Keep sections pointing at a tier when it is renamed
+    const sections = field === 'name'
+      ? formData.structure.sections.map(section => section.tier === previousName ? { ...section, tier: value as string } : section)
+      : formData.structure.sections
+    setFormData({
+      ...formData,
+      structure: { ...formData.structure, tiers, sections }
+    })
+  }
+
+  const removeTier = (tierIndex: number) => {
+    const tiers = formData.structure.tiers || []
+    const removedName = tiers[tierIndex].name
+    setFormData({
+      ...formData,
+      structure: {
+        ...formData.structure,
+        tiers: tiers.filter((_, i) => i !== tierIndex),
+        sections: formData.structure.sections.map(section =>
+          section.tier === removedName ? { ...section, tier: undefined } : section
+        )
+      }
+    })
+  }
+
   const updateRowSeats = (sectionIndex: number, rowIndex: number, seats: number) => {
     const newSections = [...formData.structure.sections]
     newSections[sectionIndex].rows[rowIndex].seats = seats
@@ -260,11 +276,20 @@ const Layouts: React.FC = () => {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {layouts.map((layout) => (
+        {layouts.filter(layout => !venueId || layout.venue_id === venueId).map((layout) => {
+          const structure = parseLayoutStructure(layout.structure)
+          return (
           <div key={layout.id} className={`rounded-2xl shadow-sm border p-6 transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white border-slate-200'}`}>
             <div className="flex justify-between items-start mb-4">
               <h3 className={`text-lg font-semibold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{layout.name}</h3>
               <div className="flex space-x-2">
+                <button
+                  onClick={() => setDesigningLayout(layout)}
+                  className="text-primary-600 hover:text-primary-900"
+                  title="Design seat arrangement"
+                >
+                  <Squares2X2Icon className="h-5 w-5" />
+                </button>
                 <button
                   onClick={() => handleEdit(layout)}
                   className="text-primary-600 hover:text-primary-900"
@@ -281,19 +306,15 @@ const Layouts: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              {layout.structure.sections?.map((section: any, index: number) => {
-                const totalSeats = Array.isArray(section.rows) 
-                  ? section.rows.reduce((sum: number, row: any) => sum + row.seats, 0) 
-                  : (section.rows * section.seatsPerRow || 0)
-                const rowCount = Array.isArray(section.rows) 
-                  ? section.rows.length 
-                  : (section.rows || 0)
+              {structure.sections.map((section, index) => {
                 return (
                   <div key={index} className="flex justify-between text-sm">
-                    <span className={`transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{section.name}</span>
+                    <span className={`transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                      {section.name}{section.tier && ` · ${section.tier}`}
+                    </span>
                     <div className="text-right">
                       <div className={`transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
-                        {rowCount}R × {totalSeats}S
+                        {sectionSummary(section)}
                       </div>
 
                     </div>
@@ -304,13 +325,13 @@ const Layouts: React.FC = () => {
 
             <div className="mt-4 pt-4 border-t border-gray-200">
               <div className="text-sm text-gray-500">
-                Total Seats: {layout.structure.sections?.reduce((total: number, section: any) => {
-                  const sectionSeats = Array.isArray(section.rows) 
-                    ? section.rows.reduce((sum: number, row: any) => sum + row.seats, 0) 
-                    : (section.rows * section.seatsPerRow || 0)
-                  return total + sectionSeats
-                }, 0)}
+                Total Seats: {getLayoutCapacity(structure)}
               </div>
+              {venues.length > 1 && (
+                <div className="text-sm text-gray-500">
+                  Venue: {venues.find(venue => venue.id === layout.venue_id)?.name || 'Unknown'}
+                </div>
+              )}
             </div>
 
             {/* Enhanced theater-style visual representation */}
@@ -322,24 +343,15 @@ const Layouts: React.FC = () => {
                   <div className="text-xs text-gray-500 font-medium">NORTH</div>
                   <div className="flex space-x-0.5">
                     {(() => {
-                      const northSection = layout.structure.sections?.find((s: any) => s.name === 'North')
-                      const maxSeats = Array.isArray(northSection?.rows) 
-                        ? Math.max(...northSection.rows.map((r: any) => r.seats))
-                        : (northSection?.seatsPerRow || 0)
+                      const northSection = findSection(structure, 'North')
+                      const maxSeats = northSection ? getSectionMaxRowSeats(northSection) : 0
                       return Array.from({ length: Math.min(maxSeats, 12) }, (_, i) => (
                         <div key={i} className="w-1.5 h-1 bg-blue-300 rounded-sm"></div>
                       ))
                     })()}
                   </div>
                   <div className="text-xs text-gray-400">
-                    {(() => {
-                      const northSection = layout.structure.sections?.find((s: any) => s.name === 'North')
-                      const rowCount = Array.isArray(northSection?.rows) ? northSection.rows.length : (northSection?.rows || 0)
-                      const totalSeats = Array.isArray(northSection?.rows) 
-                        ? northSection.rows.reduce((sum: number, row: any) => sum + row.seats, 0)
-                        : ((northSection?.rows || 0) * (northSection?.seatsPerRow || 0))
-                      return `${rowCount}R × ${totalSeats}S`
-                    })()}
+                    {sectionSummary(findSection(structure, 'North'))}
                   </div>
                 </div>
                 
@@ -350,10 +362,8 @@ const Layouts: React.FC = () => {
                     <div className="text-xs text-gray-500 font-medium rotate-90">WEST</div>
                     <div className="flex space-x-0.5">
                       {(() => {
-                        const westSection = layout.structure.sections?.find((s: any) => s.name === 'West')
-                        const maxSeats = Array.isArray(westSection?.rows) 
-                          ? Math.max(...westSection.rows.map((r: any) => r.seats))
-                          : (westSection?.seatsPerRow || 0)
+                        const westSection = findSection(structure, 'West')
+                        const maxSeats = westSection ? getSectionMaxRowSeats(westSection) : 0
                         return Array.from({ length: Math.min(maxSeats, 2) }, (_, i) => (
                           <div key={i} className="flex flex-col space-y-0.5">
                             {Array.from({ length: Math.min(8, 8) }, (_, j) => (
@@ -364,14 +374,7 @@ const Layouts: React.FC = () => {
                       })()}
                     </div>
                     <div className="text-xs text-gray-400 text-center">
-                      {(() => {
-                        const westSection = layout.structure.sections?.find((s: any) => s.name === 'West')
-                        const rowCount = Array.isArray(westSection?.rows) ? westSection.rows.length : (westSection?.rows || 0)
-                        const totalSeats = Array.isArray(westSection?.rows) 
-                          ? westSection.rows.reduce((sum: number, row: any) => sum + row.seats, 0)
-                          : ((westSection?.rows || 0) * (westSection?.seatsPerRow || 0))
-                        return `${rowCount}R × ${totalSeats}S`
-                      })()}
+                      {sectionSummary(findSection(structure, 'West'))}
                     </div>
                   </div>
                   
@@ -391,10 +394,8 @@ const Layouts: React.FC = () => {
                     <div className="text-xs text-gray-500 font-medium rotate-90">EAST</div>
                     <div className="flex space-x-0.5">
                       {(() => {
-                        const eastSection = layout.structure.sections?.find((s: any) => s.name === 'East')
-                        const maxSeats = Array.isArray(eastSection?.rows) 
-                          ? Math.max(...eastSection.rows.map((r: any) => r.seats))
-                          : (eastSection?.seatsPerRow || 0)
+                        const eastSection = findSection(structure, 'East')
+                        const maxSeats = eastSection ? getSectionMaxRowSeats(eastSection) : 0
                         return Array.from({ length: Math.min(maxSeats, 2) }, (_, i) => (
                           <div key={i} className="flex flex-col space-y-0.5">
                             {Array.from({ length: Math.min(8, 8) }, (_, j) => (
@@ -405,14 +406,7 @@ const Layouts: React.FC = () => {
                       })()}
                     </div>
                     <div className="text-xs text-gray-400 text-center">
-                      {(() => {
-                        const eastSection = layout.structure.sections?.find((s: any) => s.name === 'East')
-                        const rowCount = Array.isArray(eastSection?.rows) ? eastSection.rows.length : (eastSection?.rows || 0)
-                        const totalSeats = Array.isArray(eastSection?.rows) 
-                          ? eastSection.rows.reduce((sum: number, row: any) => sum + row.seats, 0)
-                          : ((eastSection?.rows || 0) * (eastSection?.seatsPerRow || 0))
-                        return `${rowCount}R × ${totalSeats}S`
-                      })()}
+                      {sectionSummary(findSection(structure, 'East'))}
                     </div>
                   </div>
                 </div>
@@ -421,31 +415,23 @@ const Layouts: React.FC = () => {
                 <div className="flex flex-col items-center space-y-1">
                   <div className="flex space-x-0.5">
                     {(() => {
-                      const southSection = layout.structure.sections?.find((s: any) => s.name === 'South')
-                      const maxSeats = Array.isArray(southSection?.rows) 
-                        ? Math.max(...southSection.rows.map((r: any) => r.seats))
-                        : (southSection?.seatsPerRow || 0)
+                      const southSection = findSection(structure, 'South')
+                      const maxSeats = southSection ? getSectionMaxRowSeats(southSection) : 0
                       return Array.from({ length: Math.min(maxSeats, 12) }, (_, i) => (
                         <div key={i} className="w-1.5 h-1 bg-orange-300 rounded-sm"></div>
                       ))
                     })()}
                   </div>
                   <div className="text-xs text-gray-400">
-                    {(() => {
-                      const southSection = layout.structure.sections?.find((s: any) => s.name === 'South')
-                      const rowCount = Array.isArray(southSection?.rows) ? southSection.rows.length : (southSection?.rows || 0)
-                      const totalSeats = Array.isArray(southSection?.rows) 
-                        ? southSection.rows.reduce((sum: number, row: any) => sum + row.seats, 0)
-                        : ((southSection?.rows || 0) * (southSection?.seatsPerRow || 0))
-                      return `${rowCount}R × ${totalSeats}S`
-                    })()}
+                    {sectionSummary(findSection(structure, 'South'))}
                   </div>
                   <div className="text-xs text-gray-500 font-medium">SOUTH</div>
                 </div>
               </div>
             </div>
           </div>
-        ))}
+          )
+        })}
       </div>
 
       {/* Modal */}
@@ -471,6 +457,76 @@ const Layouts: React.FC = () => {
                 />
               </div>
 
+              <div>
+                <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                  Venue
+                </label>
+                <select
+                  value={formData.venue_id}
+                  onChange={(e) => setFormData({ ...formData, venue_id: e.target.value })}
+                  required
+                  className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                >
+                  <option value="">Select a venue</option>
+                  {venues.filter(venue => venue.active || venue.id === formData.venue_id).map(venue => (
+                    <option key={venue.id} value={venue.id}>{venue.name}</option>
+                  ))}
+                </select>
+                {editingLayout && formData.venue_id !== editingLayout.venue_id && (
+                  <p className={`mt-1 text-xs transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Shows using this layout move to the new venue too.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className={`text-lg font-medium transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Price Tiers</h3>
+                  <button
+                    type="button"
+                    onClick={() => updateTiers([
+                      ...(formData.structure.tiers || []),
+                      { name: `Tier ${(formData.structure.tiers || []).length + 1}`, price: 0 }
+                    ])}
+                    className="px-3 py-1 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+                  >
+                    + Add Tier
+                  </button>
+                </div>
+                <p className={`text-sm mb-3 transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                  Sections without a tier are charged the show price. Shows can override tier prices.
+                </p>
+                <div className="space-y-2">
+                  {(formData.structure.tiers || []).map((tier, tierIndex) => (
+                    <div key={tierIndex} className={`flex items-center space-x-3 p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                      <input
+                        type="text"
+                        value={tier.name}
+                        onChange={(e) => updateTier(tierIndex, 'name', e.target.value)}
+                        className={`flex-1 px-3 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                        placeholder="e.g., VIP, Front, General"
+                      />
+                      <span className={`text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>₹</span>
+                      <input
+                        type="number"
+                        value={tier.price}
+                        onChange={(e) => updateTier(tierIndex, 'price', parseFloat(e.target.value) || 0)}
+                        min="0"
+                        step="0.01"
+                        className={`w-28 px-3 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeTier(tierIndex)}
+                        className="text-red-500 hover:text-red-700 text-sm"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               <div>
                 <div className="flex justify-between items-center mb-4">
                   <h3 className={`text-lg font-medium transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Sections</h3>
@@ -525,7 +581,7 @@ const Layouts: React.FC = () => {
                       </div>
                       
                       {/* Section Basic Info */}
-                      <div className="grid grid-cols-1 gap-4 mb-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                         <div>
                           <label className={`block text-sm font-medium mb-1 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
                             Section Name
@@ -537,6 +593,23 @@ const Layouts: React.FC = () => {
                             className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
                           />
                         </div>
+                        <div>
+                          <label className={`block text-sm font-medium mb-1 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                            Price Tier
+                          </label>
+                          <select
+                            value={section.tier || ''}
+                            onChange={(e) => updateSection(sectionIndex, 'tier', e.target.value || undefined)}
+                            className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                          >
+                            <option value="">Show price</option>
+                            {(formData.structure.tiers || []).map((tier, tierIndex) => (
+                              <option key={tierIndex} value={tier.name}>
+                                {tier.name} (₹{tier.price})
+                              </option>
+                            ))}
+                          </select>
+                        </div>
                       </div>
 
                       {/* Row Configuration */}
@@ -557,11 +630,11 @@ const Layouts: React.FC = () => {
                         </div>
                         
                         <div className="space-y-2 max-h-48 overflow-y-auto">
-                          {Array.isArray(section.rows) && section.rows.map((row, rowIndex) => (
+                          {section.rows.map((row, rowIndex) => (
                             <div key={rowIndex} className={`flex items-center space-x-3 p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'bg-gray-800' : 'bg-white'}`}>
                               <div className="flex-shrink-0">
                                 <span className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                                  Row {String.fromCharCode(65 + rowIndex)}:
+                                  Row {getRowLetter(rowIndex)}:
                                 </span>
                               </div>
                               <div className="flex-1">
@@ -580,7 +653,7 @@ const Layouts: React.FC = () => {
                                   seats
                                 </span>
                               </div>
-                              {Array.isArray(section.rows) && section.rows.length > 1 && (
+                              {section.rows.length > 1 && (
                                 <button
                                   type="button"
                                   onClick={() => removeRowFromSection(sectionIndex, rowIndex)}
@@ -594,23 +667,15 @@ const Layouts: React.FC = () => {
                         </div>
                       </div>
                       
-                      {/* Fallback for old format */}
-                      {!Array.isArray(section.rows) && (
-                        <div className={`p-3 rounded-lg text-sm transition-colors duration-200 ${darkMode ? 'bg-gray-800 text-gray-400' : 'bg-gray-100 text-gray-600'}`}>
-                          <p>This layout uses the old format. Please edit and save to convert to the new row-by-row configuration.</p>
-                          <p className="mt-1">Current: {(section as any).rows || 0} rows × {(section as any).seatsPerRow || 0} seats per row</p>
-                        </div>
-                      )}
-                      
                       {/* Section Summary */}
                       <div className={`p-3 rounded-lg text-sm transition-colors duration-200 ${darkMode ? 'bg-gray-800 text-gray-400' : 'bg-gray-100 text-gray-600'}`}>
                         <div className="flex justify-between items-center">
                           <span>Total seats in {section.name}:</span>
-                          <span className="font-semibold">{Array.isArray(section.rows) ? section.rows.reduce((sum, row) => sum + row.seats, 0) : ((section as any).rows * (section as any).seatsPerRow || 0)} seats</span>
+                          <span className="font-semibold">{getSectionCapacity(section)} seats</span>
                         </div>
                         <div className="flex justify-between items-center mt-1">
                           <span>Number of rows:</span>
-                          <span className="font-semibold">{Array.isArray(section.rows) ? section.rows.length : ((section as any).rows || 0)} rows</span>
+                          <span className="font-semibold">{section.rows.length} rows</span>
                         </div>
                       </div>
                     </div>
@@ -624,10 +689,7 @@ const Layouts: React.FC = () => {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                   <div className="text-center">
                     <div className={`text-2xl font-bold transition-colors duration-200 ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}>
-                      {formData.structure.sections.reduce((total, section) => {
-                        const sectionSeats = section.rows.reduce((sum, row) => sum + row.seats, 0)
-                        return total + sectionSeats
-                      }, 0)}
+                      {getLayoutCapacity(formData.structure)}
                     </div>
                     <div className={`transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Total Seats</div>
                   </div>
@@ -640,6 +702,17 @@ const Layouts: React.FC = () => {
                 </div>
               </div>
 
+              {formErrors.length > 0 && (
+                <div className={`p-4 rounded-xl border text-sm ${darkMode ? 'bg-red-900/20 border-red-800 text-red-300' : 'bg-red-50 border-red-300 text-red-700'}`}>
+                  <div className="font-medium mb-1">Please fix the layout before saving:</div>
+                  <ul className="list-disc list-inside space-y-0.5">
+                    {formErrors.map(error => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="flex space-x-4 pt-4">
                 <button
                   type="button"
@@ -659,6 +732,17 @@ const Layouts: React.FC = () => {
           </div>
         </div>
       )}
+
+      {designingLayout && (
+        <LayoutDesigner
+          layout={designingLayout}
+          onClose={() => setDesigningLayout(null)}
+          onSaved={() => {
+            setDesigningLayout(null)
+            fetchLayouts()
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,256 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { CashShift } from '../lib/supabase'
+import { format } from 'date-fns'
+import { PrinterIcon } from '@heroicons/react/24/outline'
+import { useDarkMode } from '../hooks/useDarkMode'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  CashShiftTotals,
+  fetchOpenShift,
+  openCashShift,
+  fetchCashShiftTotals,
+  closeCashShift,
+  describeVariance,
+  printCashShiftReport
+} from '../utils/cashShifts'
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from '../utils/payments'
+
+const MyShift: React.FC = () => {
+  const { user } = useAuth()
+  const darkMode = useDarkMode()
+  const [shift, setShift] = useState<CashShift | null>(null)
+  const [totals, setTotals] = useState<CashShiftTotals | null>(null)
+  const [closedShift, setClosedShift] = useState<CashShift | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [openingFloat, setOpeningFloat] = useState('')
+  const [countedCash, setCountedCash] = useState('')
+  const [notes, setNotes] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchShift = useCallback(async () => {
+    if (!user) return
+    try {
+      const openShift = await fetchOpenShift(user.email)
+      setShift(openShift)
+      setTotals(openShift ? await fetchCashShiftTotals(openShift.id) : null)
+    } catch (error) {
+      console.error('Error fetching shift:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    fetchShift()
+  }, [fetchShift])
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+    setError(null)
+
+    try {
+      setSubmitting(true)
+      await openCashShift(user, parseFloat(openingFloat) || 0)
+      setOpeningFloat('')
+      setClosedShift(null)
+      await fetchShift()
+    } catch (error: any) {
+      setError(error.message || 'Could not open the shift')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!shift || !user) return
+    setError(null)
+
+    if (countedCash === '') {
+      setError('Enter the cash counted in the drawer')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const counted = parseFloat(countedCash) || 0
+      const result = await closeCashShift(shift, counted, notes.trim(), user.email)
+
+      if (!result.success) {
+        setError(result.error)
+        return
+      }
+
+      setClosedShift({
+        ...shift,
+        status: 'CLOSED',
+        closed_at: new Date().toISOString(),
+        closed_by: user.email,
+        expected_totals: result.expectedTotals,
+        bookings: result.bookings,
+        cash_refunds: result.cashRefunds,
+        expected_cash: result.expectedCash,
+        counted_cash: result.countedCash,
+        variance: result.variance,
+        notes: notes.trim() || null
+      })
+      setShift(null)
+      setTotals(null)
+      setCountedCash('')
+      setNotes('')
+    } catch (error: any) {
+      setError(error.message || 'Could not close the shift')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const inputClass = `w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+    ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+    : 'bg-white border-gray-300 text-gray-900'
+    }`
+  const labelClass = `block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`
+  const cardClass = `rounded-2xl shadow-sm border p-6 transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white border-slate-200'}`
+  const rowClass = `flex justify-between py-1 text-sm transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  const countedVariance = totals && countedCash !== '' ? (parseFloat(countedCash) || 0) - totals.expectedCash : null
+
+  return (
+    <div className="max-w-2xl">
+      <div className="mb-8">
+        <h1 className={`text-2xl sm:text-3xl font-semibold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+          My Shift
+        </h1>
+        <p className={`mt-1 text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+          Open your cash drawer at the start of a shift and count it out at the end
+        </p>
+      </div>
+
+      {closedShift && (
+        <div className={`${cardClass} mb-6`}>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className={`text-lg font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>Shift closed</h2>
+            <button
+              onClick={() => printCashShiftReport(closedShift)}
+              className="flex items-center px-4 py-2 rounded-xl text-sm font-medium bg-slate-900 text-white hover:bg-slate-800 transition-colors"
+            >
+              <PrinterIcon className="h-4 w-4 mr-2" />
+              Print Report
+            </button>
+          </div>
+          <div className={rowClass}><span>Expected in drawer</span><span>₹{Number(closedShift.expected_cash).toLocaleString()}</span></div>
+          <div className={rowClass}><span>Counted</span><span>₹{Number(closedShift.counted_cash).toLocaleString()}</span></div>
+          <div className={`flex justify-between py-1 text-sm font-medium ${Number(closedShift.variance) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+            <span>Variance</span><span>{describeVariance(Number(closedShift.variance))}</span>
+          </div>
+        </div>
+      )}
+
+      {!shift ? (
+        <form onSubmit={handleOpen} className={`${cardClass} space-y-4`}>
+          <h2 className={`text-lg font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>Open a shift</h2>
+          <div>
+            <label className={labelClass}>Opening float (₹)</label>
+            <input
+              type="number"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              min="0"
+              step="0.01"
+              placeholder="Cash in the drawer now"
+              className={inputClass}
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="bg-primary-600 text-white py-3 px-6 rounded-xl font-medium hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            {submitting ? 'Opening...' : 'Open Shift'}
+          </button>
+        </form>
+      ) : (
+        <div className="space-y-6">
+          <div className={cardClass}>
+            <h2 className={`text-lg font-medium mb-4 transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+              Open since {format(new Date(shift.opened_at), 'MMM dd, h:mm a')}
+            </h2>
+            {totals && (
+              <>
+                {PAYMENT_METHODS.map(method => (
+                  <div key={method} className={rowClass}>
+                    <span>{PAYMENT_METHOD_LABELS[method]}</span>
+                    <span>₹{Number(totals.expectedTotals[method] || 0).toLocaleString()}</span>
+                  </div>
+                ))}
+                <div className={`${rowClass} border-t mt-2 pt-2 ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                  <span>Opening float</span><span>₹{Number(shift.opening_float).toLocaleString()}</span>
+                </div>
+                {totals.cashRefunds > 0 && (
+                  <div className={rowClass}><span>Cash refunds paid</span><span>-₹{totals.cashRefunds.toLocaleString()}</span></div>
+                )}
+                <div className={`flex justify-between py-1 text-sm font-semibold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                  <span>Expected in drawer</span><span>₹{totals.expectedCash.toLocaleString()}</span>
+                </div>
+                <p className={`mt-2 text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                  {totals.bookings} booking(s) taken this shift
+                </p>
+              </>
+            )}
+          </div>
+
+          <form onSubmit={handleClose} className={`${cardClass} space-y-4`}>
+            <h2 className={`text-lg font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>Close shift</h2>
+            <div>
+              <label className={labelClass}>Cash counted (₹)</label>
+              <input
+                type="number"
+                value={countedCash}
+                onChange={(e) => setCountedCash(e.target.value)}
+                min="0"
+                step="0.01"
+                className={inputClass}
+              />
+              {countedVariance !== null && (
+                <p className={`mt-1 text-sm ${countedVariance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {describeVariance(countedVariance)}
+                </p>
+              )}
+            </div>
+            <div>
+              <label className={labelClass}>Notes (Optional)</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                placeholder="Explain any difference"
+                className={inputClass}
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              type="submit"
+              disabled={submitting}
+              className="bg-red-600 text-white py-3 px-6 rounded-xl font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              {submitting ? 'Closing...' : 'Close Shift'}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default MyShift
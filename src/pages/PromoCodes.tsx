@@ -0,0 +1,467 @@
+import React, { useState, useEffect } from 'react'
+import { supabase, Show, PromoCode, PromoDiscountType } from '../lib/supabase'
+import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { format, parseISO } from 'date-fns'
+import { useDarkMode } from '../hooks/useDarkMode'
+import { useAuth } from '../contexts/AuthContext'
+import { useVenue } from '../contexts/VenueContext'
+import { venueToday } from '../utils/venueTime'
+import {
+  fetchPromoCodes,
+  fetchPromoCodeUsage,
+  savePromoCode,
+  setPromoCodeActive,
+  deletePromoCode,
+  describePromoDiscount,
+  normalizePromoCode,
+  PromoCodeUsage
+} from '../utils/promoCodes'
+
+const emptyForm = {
+  code: '',
+  description: '',
+  discount_type: 'PERCENT' as PromoDiscountType,
+  discount_value: '',
+  show_id: '',
+  valid_from: '',
+  valid_until: '',
+  expires_at: '', // datetime-local value
+  max_uses: '',
+  max_uses_per_customer: ''
+}
+
+const PromoCodes: React.FC = () => {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([])
+  const [usage, setUsage] = useState<{ [promoCodeId: string]: PromoCodeUsage }>({})
+  const [shows, setShows] = useState<Show[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showModal, setShowModal] = useState(false)
+  const [editingPromo, setEditingPromo] = useState<PromoCode | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [formError, setFormError] = useState<string | null>(null)
+  const { user } = useAuth()
+  const darkMode = useDarkMode()
+  const { timezone } = useVenue()
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  useEffect(() => {
+    fetchShows(timezone)
+  }, [timezone])
+
+  const fetchData = async () => {
+    try {
+      const [codes, codeUsage] = await Promise.all([fetchPromoCodes(), fetchPromoCodeUsage()])
+      setPromoCodes(codes)
+      setUsage(codeUsage)
+    } catch (error) {
+      console.error('Error fetching promo codes:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchShows = async (timezone: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('shows')
+        .select('*')
+        .gte('date', venueToday(timezone))
+        .order('date', { ascending: true })
+
+      if (error) throw error
+      setShows(data || [])
+    } catch (error) {
+      console.error('Error fetching shows:', error)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setFormError(null)
+
+    const discountValue = parseFloat(formData.discount_value)
+    if (formData.discount_type === 'PERCENT' && discountValue > 100) {
+      setFormError('A percentage discount cannot be more than 100%')
+      return
+    }
+    if (formData.valid_from && formData.valid_until && formData.valid_until < formData.valid_from) {
+      setFormError('The last show date must be on or after the first show date')
+      return
+    }
+
+    try {
+      await savePromoCode({
+        code: normalizePromoCode(formData.code),
+        description: formData.description || null,
+        discount_type: formData.discount_type,
+        discount_value: discountValue,
+        show_id: formData.show_id || null,
+        valid_from: formData.valid_from || null,
+        valid_until: formData.valid_until || null,
+        expires_at: formData.expires_at ? new Date(formData.expires_at).toISOString() : null,
+        max_uses: formData.max_uses ? parseInt(formData.max_uses) : null,
+        max_uses_per_customer: formData.max_uses_per_customer ? parseInt(formData.max_uses_per_customer) : null,
+        active: editingPromo ? editingPromo.active : true
+      }, user?.email || 'unknown', editingPromo?.id)
+
+      setShowModal(false)
+      setEditingPromo(null)
+      setFormData(emptyForm)
+      await fetchData()
+    } catch (error: any) {
+      console.error('Error saving promo code:', error)
+      // 23505 is a unique violation on promo_codes.code
+      setFormError(error?.code === '23505' ? 'A promo code with this code already exists' : 'Could not save the promo code')
+    }
+  }
+
+  const handleEdit = (promo: PromoCode) => {
+    setEditingPromo(promo)
+    setFormError(null)
+    setFormData({
+      code: promo.code,
+      description: promo.description || '',
+      discount_type: promo.discount_type,
+      discount_value: promo.discount_value.toString(),
+      show_id: promo.show_id || '',
+      valid_from: promo.valid_from || '',
+      valid_until: promo.valid_until || '',
+      expires_at: promo.expires_at ? format(new Date(promo.expires_at), "yyyy-MM-dd'T'HH:mm") : '',
+      max_uses: promo.max_uses?.toString() || '',
+      max_uses_per_customer: promo.max_uses_per_customer?.toString() || ''
+    })
+    setShowModal(true)
+  }
+
+  const handleToggleActive = async (promo: PromoCode) => {
+    try {
+      await setPromoCodeActive(promo, !promo.active, user?.email || 'unknown')
+      await fetchData()
+    } catch (error) {
+      console.error('Error updating promo code:', error)
+    }
+  }
+
+  const handleDelete = async (promo: PromoCode) => {
+    if (window.confirm(`Delete promo code ${promo.code}? Bookings that used it keep the code and discount.`)) {
+      try {
+        await deletePromoCode(promo, user?.email || 'unknown')
+        await fetchData()
+      } catch (error) {
+        console.error('Error deleting promo code:', error)
+      }
+    }
+  }
+
+  const isExpired = (promo: PromoCode) => !!promo.expires_at && new Date(promo.expires_at) <= new Date()
+
+  const describeScope = (promo: PromoCode) => {
+    if (promo.show) {
+      return `${promo.show.title} (${format(parseISO(promo.show.date), 'MMM dd')})`
+    }
+    if (promo.valid_from && promo.valid_until) {
+      return `Shows ${format(parseISO(promo.valid_from), 'MMM dd')} - ${format(parseISO(promo.valid_until), 'MMM dd, yyyy')}`
+    }
+    if (promo.valid_from) return `Shows from ${format(parseISO(promo.valid_from), 'MMM dd, yyyy')}`
+    if (promo.valid_until) return `Shows until ${format(parseISO(promo.valid_until), 'MMM dd, yyyy')}`
+    return 'All shows'
+  }
+
+  const inputClass = `w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+    ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+    : 'bg-white border-gray-300 text-gray-900'
+    }`
+  const labelClass = `block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`
+  const headerClass = `px-4 py-4 text-left text-xs font-medium uppercase tracking-wider transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className={`text-2xl sm:text-3xl font-semibold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+            Promo Codes
+          </h1>
+          <p className={`mt-1 text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+            Discounts staff can apply at the counter
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setFormData(emptyForm)
+            setFormError(null)
+            setEditingPromo(null)
+            setShowModal(true)
+          }}
+          className="bg-slate-900 text-white px-6 py-3 rounded-xl font-medium hover:bg-slate-800 transition-all duration-200 flex items-center justify-center touch-manipulation shadow-sm"
+        >
+          <PlusIcon className="h-5 w-5 mr-2" />
+          <span>Add Promo Code</span>
+        </button>
+      </div>
+
+      <div className={`rounded-2xl shadow-sm border overflow-hidden transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white border-slate-200'}`}>
+        <div className="overflow-x-auto">
+          <table className={`min-w-full divide-y transition-colors duration-200 ${darkMode ? 'divide-slate-800' : 'divide-slate-200'}`}>
+            <thead className={`transition-colors duration-200 ${darkMode ? 'bg-slate-800/50' : 'bg-slate-50'}`}>
+              <tr>
+                <th className={headerClass}>Code</th>
+                <th className={headerClass}>Discount</th>
+                <th className={headerClass}>Applies To</th>
+                <th className={headerClass}>Uses</th>
+                <th className={headerClass}>Expires</th>
+                <th className={headerClass}>Status</th>
+                <th className={`${headerClass} text-center`}>Actions</th>
+              </tr>
+            </thead>
+            <tbody className={`divide-y transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 divide-slate-800' : 'bg-white divide-slate-200'}`}>
+              {promoCodes.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className={`px-4 py-12 text-center transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                    <div className="text-lg mb-2">No promo codes yet</div>
+                    <div className="text-sm">Create a code to offer discounts at the counter.</div>
+                  </td>
+                </tr>
+              ) : (
+                promoCodes.map(promo => {
+                  const promoUsage = usage[promo.id] || { bookings: 0, discount: 0 }
+                  const expired = isExpired(promo)
+                  return (
+                    <tr key={promo.id} className={`transition-colors duration-200 ${darkMode ? 'hover:bg-slate-800/50' : 'hover:bg-slate-50'}`}>
+                      <td className="px-4 py-4">
+                        <div className={`text-sm font-mono font-semibold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>{promo.code}</div>
+                        {promo.description && (
+                          <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>{promo.description}</div>
+                        )}
+                      </td>
+                      <td className={`px-4 py-4 whitespace-nowrap text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                        {describePromoDiscount(promo)}
+                      </td>
+                      <td className={`px-4 py-4 text-sm transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                        {describeScope(promo)}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap">
+                        <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                          {promoUsage.bookings}{promo.max_uses ? ` / ${promo.max_uses}` : ''}
+                        </div>
+                        <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                          ₹{promoUsage.discount.toLocaleString()} given
+                          {promo.max_uses_per_customer ? ` · ${promo.max_uses_per_customer} per customer` : ''}
+                        </div>
+                      </td>
+                      <td className={`px-4 py-4 whitespace-nowrap text-sm transition-colors duration-200 ${expired ? 'text-red-600' : darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                        {promo.expires_at ? format(new Date(promo.expires_at), 'MMM dd, yyyy h:mm a') : 'Never'}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap">
+                        <button
+                          onClick={() => handleToggleActive(promo)}
+                          className={`px-2 py-1 text-xs font-medium rounded-full ${promo.active && !expired
+                            ? darkMode
+                              ? 'bg-emerald-900/30 text-emerald-400 border border-emerald-800/50'
+                              : 'bg-emerald-100 text-emerald-800'
+                            : darkMode
+                              ? 'bg-slate-800 text-slate-300 border border-slate-700'
+                              : 'bg-slate-100 text-slate-700'
+                            }`}
+                          title={promo.active ? 'Switch off' : 'Switch on'}
+                        >
+                          {expired ? 'Expired' : promo.active ? 'Active' : 'Inactive'}
+                        </button>
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-center">
+                        <div className="flex justify-center space-x-2">
+                          <button
+                            onClick={() => handleEdit(promo)}
+                            className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-800' : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'}`}
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(promo)}
+                            className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-red-400 hover:text-red-300 hover:bg-red-900/20' : 'text-red-600 hover:text-red-700 hover:bg-red-50'}`}
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className={`rounded-2xl p-6 sm:p-8 max-w-md w-full max-h-[90vh] overflow-y-auto transition-colors duration-200 shadow-xl ${darkMode ? 'bg-slate-900 border border-slate-800' : 'bg-white border border-slate-200'}`}>
+            <h2 className={`text-2xl font-medium mb-6 transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+              {editingPromo ? 'Edit Promo Code' : 'Add Promo Code'}
+            </h2>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className={labelClass}>Code</label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                  required
+                  maxLength={30}
+                  className={`${inputClass} uppercase font-mono`}
+                />
+              </div>
+
+              <div>
+                <label className={labelClass}>Description (Optional)</label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Discount Type</label>
+                  <select
+                    value={formData.discount_type}
+                    onChange={(e) => setFormData({ ...formData, discount_type: e.target.value as PromoDiscountType })}
+                    className={inputClass}
+                  >
+                    <option value="PERCENT">Percentage</option>
+                    <option value="FIXED">Fixed amount</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>{formData.discount_type === 'PERCENT' ? 'Discount (%)' : 'Discount (₹)'}</label>
+                  <input
+                    type="number"
+                    value={formData.discount_value}
+                    onChange={(e) => setFormData({ ...formData, discount_value: e.target.value })}
+                    required
+                    min="0.01"
+                    max={formData.discount_type === 'PERCENT' ? '100' : undefined}
+                    step="0.01"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Show (Optional)</label>
+                <select
+                  value={formData.show_id}
+                  onChange={(e) => setFormData({ ...formData, show_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Any show</option>
+                  {/* Keep the current show selectable when editing a code for a past show */}
+                  {editingPromo?.show && !shows.some(show => show.id === editingPromo.show_id) && (
+                    <option value={editingPromo.show_id || ''}>{editingPromo.show.title}</option>
+                  )}
+                  {shows.map(show => (
+                    <option key={show.id} value={show.id}>
+                      {show.title} - {format(parseISO(show.date), 'MMM dd')} {format(new Date(`2000-01-01T${show.time}`), 'h:mm a')}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className={labelClass}>Show Dates (Optional)</label>
+                <div className="grid grid-cols-2 gap-4">
+                  <input
+                    type="date"
+                    value={formData.valid_from}
+                    onChange={(e) => setFormData({ ...formData, valid_from: e.target.value })}
+                    className={inputClass}
+                  />
+                  <input
+                    type="date"
+                    value={formData.valid_until}
+                    onChange={(e) => setFormData({ ...formData, valid_until: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Code Expires (Optional)</label>
+                <input
+                  type="datetime-local"
+                  value={formData.expires_at}
+                  onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Total Uses</label>
+                  <input
+                    type="number"
+                    value={formData.max_uses}
+                    onChange={(e) => setFormData({ ...formData, max_uses: e.target.value })}
+                    min="1"
+                    placeholder="Unlimited"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Uses per Customer</label>
+                  <input
+                    type="number"
+                    value={formData.max_uses_per_customer}
+                    onChange={(e) => setFormData({ ...formData, max_uses_per_customer: e.target.value })}
+                    min="1"
+                    placeholder="Unlimited"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {formError && (
+                <p className="text-sm text-red-600">{formError}</p>
+              )}
+
+              <div className="flex space-x-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className={`flex-1 py-3 px-4 rounded-xl font-medium transition-colors ${darkMode
+                    ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+                    }`}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 bg-primary-600 text-white py-3 px-4 rounded-xl font-medium hover:bg-primary-700 transition-colors"
+                >
+                  {editingPromo ? 'Update' : 'Create'} Code
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PromoCodes
@@ -0,0 +1,349 @@
+import React, { useState, useEffect } from 'react'
+import { Refund, RefundStatus, PaymentMethod } from '../lib/supabase'
+import { format, parseISO } from 'date-fns'
+import { useDarkMode } from '../hooks/useDarkMode'
+import { useAuth } from '../contexts/AuthContext'
+import { fetchRefunds, approveRefund, rejectRefund, sumRefunds, REFUND_STATUS_LABELS } from '../utils/refunds'
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from '../utils/payments'
+
+const emptyReview = {
+  amount: '',
+  method: 'CASH' as PaymentMethod,
+  note: '',
+  paidBy: ''
+}
+
+const Refunds: React.FC = () => {
+  const [refunds, setRefunds] = useState<Refund[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<RefundStatus | 'ALL'>('PENDING')
+  const [reviewing, setReviewing] = useState<Refund | null>(null)
+  const [reviewData, setReviewData] = useState(emptyReview)
+  const [reviewError, setReviewError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const { user } = useAuth()
+  const darkMode = useDarkMode()
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      setRefunds(await fetchRefunds())
+    } catch (error) {
+      console.error('Error fetching refunds:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openReview = (refund: Refund) => {
+    setReviewing(refund)
+    setReviewError(null)
+    setReviewData({
+      amount: Number(refund.amount).toString(),
+      method: refund.method,
+      note: '',
+      // Whoever cancelled at the counter usually hands the cash back
+      paidBy: refund.requested_by
+    })
+  }
+
+  const handleReview = async (approve: boolean) => {
+    if (!reviewing) return
+    setReviewError(null)
+
+    if (!approve && !reviewData.note.trim()) {
+      setReviewError('Enter a note explaining why the refund is rejected')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      if (approve) {
+        await approveRefund(reviewing, {
+          amount: parseFloat(reviewData.amount) || 0,
+          method: reviewData.method,
+          note: reviewData.note.trim(),
+          paidBy: reviewData.paidBy
+        }, user?.email || 'unknown')
+      } else {
+        await rejectRefund(reviewing, reviewData.note.trim(), user?.email || 'unknown')
+      }
+      setReviewing(null)
+      await fetchData()
+    } catch (error: any) {
+      console.error('Error reviewing refund:', error)
+      setReviewError(error.message || 'Could not save the review')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const filteredRefunds = statusFilter === 'ALL' ? refunds : refunds.filter(refund => refund.status === statusFilter)
+  const pendingRefunds = refunds.filter(refund => refund.status === 'PENDING')
+  const approvedRefunds = refunds.filter(refund => refund.status === 'APPROVED')
+
+  const statusClass = (status: RefundStatus) => {
+    switch (status) {
+      case 'APPROVED':
+        return darkMode ? 'bg-emerald-900/30 text-emerald-400 border border-emerald-800/50' : 'bg-emerald-100 text-emerald-800'
+      case 'REJECTED':
+        return darkMode ? 'bg-red-900/30 text-red-400 border border-red-800/50' : 'bg-red-100 text-red-800'
+      default:
+        return darkMode ? 'bg-amber-900/30 text-amber-400 border border-amber-800/50' : 'bg-amber-100 text-amber-800'
+    }
+  }
+
+  const inputClass = `w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+    ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+    : 'bg-white border-gray-300 text-gray-900'
+    }`
+  const labelClass = `block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`
+  const headerClass = `px-4 py-4 text-left text-xs font-medium uppercase tracking-wider transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`
+  const cardClass = `p-4 rounded-xl border transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white border-slate-200'}`
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className={`text-2xl sm:text-3xl font-semibold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+            Refunds
+          </h1>
+          <p className={`mt-1 text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+            Refunds raised by cancellations, waiting for approval
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as RefundStatus | 'ALL')}
+          className={`px-4 py-3 border rounded-xl text-sm transition-colors duration-200 ${darkMode ? 'bg-slate-800 border-slate-700 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`}
+        >
+          <option value="PENDING">Pending</option>
+          <option value="APPROVED">Approved</option>
+          <option value="REJECTED">Rejected</option>
+          <option value="ALL">All refunds</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <div className={cardClass}>
+          <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>Awaiting approval</div>
+          <div className={`text-xl font-bold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>₹{sumRefunds(pendingRefunds).toLocaleString()}</div>
+          <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{pendingRefunds.length} refund(s)</div>
+        </div>
+        <div className={cardClass}>
+          <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>Refunded</div>
+          <div className={`text-xl font-bold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>₹{sumRefunds(approvedRefunds).toLocaleString()}</div>
+          <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{approvedRefunds.length} refund(s)</div>
+        </div>
+      </div>
+
+      <div className={`rounded-2xl shadow-sm border overflow-hidden transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white border-slate-200'}`}>
+        <div className="overflow-x-auto">
+          <table className={`min-w-full divide-y transition-colors duration-200 ${darkMode ? 'divide-slate-800' : 'divide-slate-200'}`}>
+            <thead className={`transition-colors duration-200 ${darkMode ? 'bg-slate-800/50' : 'bg-slate-50'}`}>
+              <tr>
+                <th className={headerClass}>Show</th>
+                <th className={headerClass}>Seats</th>
+                <th className={headerClass}>Refund</th>
+                <th className={headerClass}>Reason</th>
+                <th className={headerClass}>Requested</th>
+                <th className={headerClass}>Status</th>
+                <th className={`${headerClass} text-center`}>Actions</th>
+              </tr>
+            </thead>
+            <tbody className={`divide-y transition-colors duration-200 ${darkMode ? 'bg-slate-900/50 divide-slate-800' : 'bg-white divide-slate-200'}`}>
+              {filteredRefunds.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className={`px-4 py-12 text-center transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                    <div className="text-lg mb-2">No refunds here</div>
+                    <div className="text-sm">Cancelling seats raises a refund under the refund policy.</div>
+                  </td>
+                </tr>
+              ) : (
+                filteredRefunds.map(refund => (
+                  <tr key={refund.id} className={`transition-colors duration-200 ${darkMode ? 'hover:bg-slate-800/50' : 'hover:bg-slate-50'}`}>
+                    <td className="px-4 py-4">
+                      <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>{refund.show?.title || 'Unknown Show'}</div>
+                      {refund.show && (
+                        <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                          {format(parseISO(refund.show.date), 'MMM dd, yyyy')} at {format(new Date(`2000-01-01T${refund.show.time}`), 'h:mm a')}
+                        </div>
+                      )}
+                    </td>
+                    <td className={`px-4 py-4 text-sm transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                      {refund.seat_codes.join(', ')}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap">
+                      <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                        ₹{Number(refund.amount).toLocaleString()} · {PAYMENT_METHOD_LABELS[refund.method]}
+                      </div>
+                      <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        {Number(refund.policy_percent)}% of ₹{Number(refund.ticket_amount).toLocaleString()}
+                      </div>
+                    </td>
+                    <td className={`px-4 py-4 text-sm transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                      {refund.reason || '-'}
+                      {refund.review_note && (
+                        <div className={`text-xs mt-1 transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                          Review: {refund.review_note}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap">
+                      <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>{refund.requested_by}</div>
+                      <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        {format(new Date(refund.requested_at), 'MMM dd, yyyy h:mm a')}
+                      </div>
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusClass(refund.status)}`}>
+                        {REFUND_STATUS_LABELS[refund.status]}
+                      </span>
+                      {refund.reviewed_by && (
+                        <div className={`text-xs mt-1 transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                          by {refund.reviewed_by}
+                        </div>
+                      )}
+                      {refund.paid_by && (
+                        <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                          paid from {refund.paid_by}'s drawer
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-center">
+                      {refund.status === 'PENDING' && (
+                        <button
+                          onClick={() => openReview(refund)}
+                          className="px-3 py-1 text-sm font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-colors"
+                        >
+                          Review
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Review Modal */}
+      {reviewing && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className={`rounded-2xl p-6 sm:p-8 max-w-md w-full max-h-[90vh] overflow-y-auto transition-colors duration-200 shadow-xl ${darkMode ? 'bg-slate-900 border border-slate-800' : 'bg-white border border-slate-200'}`}>
+            <h2 className={`text-2xl font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+              Review Refund
+            </h2>
+            <p className={`text-sm mb-6 transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+              {reviewing.show?.title || 'Unknown Show'} · {reviewing.seat_codes.join(', ')}. The policy allows {Number(reviewing.policy_percent)}% of ₹{Number(reviewing.ticket_amount).toLocaleString()}.
+            </p>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Amount (₹)</label>
+                  <input
+                    type="number"
+                    value={reviewData.amount}
+                    onChange={(e) => setReviewData({ ...reviewData, amount: e.target.value })}
+                    min="0"
+                    max={Number(reviewing.ticket_amount)}
+                    step="0.01"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Refund By</label>
+                  <select
+                    value={reviewData.method}
+                    onChange={(e) => setReviewData({ ...reviewData, method: e.target.value as PaymentMethod })}
+                    className={inputClass}
+                  >
+                    {PAYMENT_METHODS.map(method => (
+                      <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {reviewData.method === 'CASH' && (
+                <div>
+                  <label className={labelClass}>Paid From the Drawer Of</label>
+                  <select
+                    value={reviewData.paidBy}
+                    onChange={(e) => setReviewData({ ...reviewData, paidBy: e.target.value })}
+                    className={inputClass}
+                  >
+                    {Array.from(new Set([reviewing.requested_by, user?.email || 'unknown'])).map(email => (
+                      <option key={email} value={email}>
+                        {email === user?.email ? `${email} (you)` : email}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className={labelClass}>Note</label>
+                <textarea
+                  value={reviewData.note}
+                  onChange={(e) => setReviewData({ ...reviewData, note: e.target.value })}
+                  rows={3}
+                  placeholder="Required when rejecting"
+                  className={inputClass}
+                />
+              </div>
+
+              {reviewError && (
+                <p className="text-sm text-red-600">{reviewError}</p>
+              )}
+
+              <div className="flex space-x-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setReviewing(null)}
+                  className={`flex-1 py-3 px-4 rounded-xl font-medium transition-colors ${darkMode
+                    ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+                    }`}
+                >
+                  Close
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleReview(false)}
+                  disabled={submitting}
+                  className="flex-1 bg-red-600 text-white py-3 px-4 rounded-xl font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  Reject
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleReview(true)}
+                  disabled={submitting}
+                  className="flex-1 bg-primary-600 text-white py-3 px-4 rounded-xl font-medium hover:bg-primary-700 transition-colors disabled:opacity-50"
+                >
+                  Approve
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Refunds
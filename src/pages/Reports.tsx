@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react'
-import { supabase, Show } from '../lib/supabase'
+import { supabase, Show, TicketCategory, Payment } from '../lib/supabase'
 import { format } from 'date-fns'
 import { 
   DocumentArrowDownIcon,
@@ -7,7 +7,17 @@ import {
   CalendarIcon
 } from '@heroicons/react/24/outline'
 import { useDarkMode } from '../hooks/useDarkMode'
+import { useAuth } from '../contexts/AuthContext'
+import { useVenue, useVenueFilter } from '../contexts/VenueContext'
+import { venueToday } from '../utils/venueTime'
+import VenueSelect from '../components/VenueSelect'
 import { logActivity } from '../utils/activityLogger'
+import { parseLayoutStructure, parseSeatCode, findSection } from '../utils/layoutStructure'
+import { formatPriceRange } from '../utils/seatPricing'
+import { SHOW_STATUS_LABELS } from '../utils/showLifecycle'
+import { TICKET_CATEGORY_LABELS, CategoryBreakdown, summarizeByCategory } from '../utils/ticketCategories'
+import { PromoBreakdown, summarizeByPromoCode } from '../utils/promoCodes'
+import { PAYMENT_METHOD_LABELS, PaymentMethodTotal, CollectorCash, paymentsMatchTotal, summarizeByPaymentMethod, summarizeByCollector } from '../utils/payments'
 
 interface BookingReport {
   booking_id: string
@@ -16,24 +26,62 @@ interface BookingReport {
   show_time: string
   seat_codes: string[]
   total_tickets: number
-  total_amount: number
+  total_amount: number // After any promo discount
+  discount_amount: number
+  promo_code: string | null
+  payments: Pick<Payment, 'method' | 'amount' | 'reference' | 'collected_by'>[]
+  categories: TicketCategory[]
   booked_by: string
   booking_time: string
   status: string
 }
 
+// Money collected against the value of confirmed tickets for the show
+interface Reconciliation {
+  ticketsIssued: number
+  collected: number
+  byMethod: PaymentMethodTotal[]
+  byCollector: CollectorCash[]
+  unreconciledBookings: number // Confirmed bookings whose payments don't add up
+}
+
+const EMPTY_RECONCILIATION: Reconciliation = {
+  ticketsIssued: 0,
+  collected: 0,
+  byMethod: [],
+  byCollector: [],
+  unreconciledBookings: 0
+}
+
+interface TierRevenue {
+  tier: string
+  tickets: number
+  revenue: number
+}
+
+// Label for seats in sections without a price tier
+const SHOW_PRICE_TIER = 'Show price'
+
 const Reports: React.FC = () => {
   const [shows, setShows] = useState<Show[]>([])
   const [allShows, setAllShows] = useState<Show[]>([]) // Store all shows for filtering
   const [selectedShow, setSelectedShow] = useState<Show | null>(null)
   const [bookingData, setBookingData] = useState<BookingReport[]>([])
+  const [tierRevenue, setTierRevenue] = useState<TierRevenue[]>([])
+  const [categoryBreakdown, setCategoryBreakdown] = useState<CategoryBreakdown[]>([])
+  const [promoBreakdown, setPromoBreakdown] = useState<PromoBreakdown[]>([])
+  const [reconciliation, setReconciliation] = useState<Reconciliation>(EMPTY_RECONCILIATION)
   const [loading, setLoading] = useState(false)
   const darkMode = useDarkMode()
+  const { user } = useAuth()
+  const { venues, timezoneOf } = useVenue()
+  const [venueFilter, setVenueFilter] = useVenueFilter()
   const [selectedDate, setSelectedDate] = useState<string>('') // Date filter state
   const [summary, setSummary] = useState({
     totalBookings: 0,
     totalTickets: 0,
     totalRevenue: 0,
+    totalDiscount: 0,
     averageTicketsPerBooking: 0
   })
 
@@ -41,32 +89,39 @@ const Reports: React.FC = () => {
     fetchShows()
   }, [])
 
-  // Filter shows by selected date
+  // Filter shows by selected date and venue
   useEffect(() => {
-    if (selectedDate) {
-      const filteredShows = allShows.filter(show => show.date === selectedDate)
-      setShows(filteredShows)
-    } else {
-      setShows(allShows) // Show all shows if no date selected
-    }
+    setShows(allShows.filter(show =>
+      (!selectedDate || show.date === selectedDate) &&
+      (!venueFilter || show.venue_id === venueFilter)
+    ))
     // Reset selected show if it's not in the filtered results
-    if (selectedShow && selectedDate && selectedShow.date !== selectedDate) {
+    if (selectedShow && ((selectedDate && selectedShow.date !== selectedDate) ||
+      (venueFilter && selectedShow.venue_id !== venueFilter))) {
       setSelectedShow(null)
       setBookingData([])
+      setTierRevenue([])
+      setCategoryBreakdown([])
+      setPromoBreakdown([])
+      setReconciliation(EMPTY_RECONCILIATION)
       setSummary({
         totalBookings: 0,
         totalTickets: 0,
         totalRevenue: 0,
+        totalDiscount: 0,
         averageTicketsPerBooking: 0
       })
     }
-  }, [selectedDate, allShows, selectedShow])
+  }, [selectedDate, venueFilter, allShows, selectedShow])
 
   const fetchShows = async () => {
     try {
       const { data, error } = await supabase
         .from('shows')
-        .select('*')
+        .select(`
+          *,
+          layout:layouts(*)
+        `)
         .order('date', { ascending: false })
 
       if (error) throw error
@@ -90,7 +145,10 @@ const Reports: React.FC = () => {
             seat_code,
             booked_by,
             booking_time,
-            status
+            status,
+            promo_code,
+            discount_amount,
+            payments(method, amount, reference, collected_by)
           ),
           show:shows(
             title,
@@ -103,8 +161,11 @@ const Reports: React.FC = () => {
 
       if (error) throw error
 
-      // Group tickets by booking
+      // Group tickets by booking, and by the price tier of their section
       const bookingMap = new Map<string, BookingReport>()
+      const tierMap = new Map<string, TierRevenue>()
+      const show = allShows.find(s => s.id === showId)
+      const structure = parseLayoutStructure(show?.layout?.structure)
       
       tickets?.forEach((ticket: any) => {
         const bookingId = ticket.booking_id
@@ -130,6 +191,10 @@ const Reports: React.FC = () => {
             seat_codes: seatCodes,
             total_tickets: 0,
             total_amount: 0,
+            discount_amount: Number(ticket.booking.discount_amount || 0),
+            promo_code: ticket.booking.promo_code,
+            payments: ticket.booking.payments || [],
+            categories: [],
             booked_by: ticket.booking.booked_by,
             booking_time: ticket.booking.booking_time,
             status: ticket.booking.status
@@ -139,21 +204,50 @@ const Reports: React.FC = () => {
         const booking = bookingMap.get(bookingId)!
         booking.total_tickets += 1
         booking.total_amount += ticket.price
+        booking.categories.push(ticket.category || 'ADULT')
+
+        const section = parseSeatCode(ticket.seat_code)?.section
+        const tier = (section && findSection(structure, section)?.tier) || SHOW_PRICE_TIER
+        const tierTotals = tierMap.get(tier) || { tier, tickets: 0, revenue: 0 }
+        tierTotals.tickets += 1
+        tierTotals.revenue += ticket.price
+        tierMap.set(tier, tierTotals)
       })
 
       const reportData = Array.from(bookingMap.values())
       setBookingData(reportData)
+      setTierRevenue(Array.from(tierMap.values()).sort((a, b) => b.revenue - a.revenue))
+      setCategoryBreakdown(summarizeByCategory(tickets || []))
+      setPromoBreakdown(summarizeByPromoCode(reportData.filter(booking => booking.status === 'CONFIRMED')))
+
+      // Reconcile what was collected against tickets issued. Bookings made
+      // before payments were recorded show up as unreconciled.
+      const confirmedBookings = reportData.filter(booking => booking.status === 'CONFIRMED')
+      const confirmedPayments = confirmedBookings.flatMap(booking => booking.payments)
+      setReconciliation({
+        ticketsIssued: confirmedBookings.reduce((sum, booking) => sum + booking.total_amount, 0),
+        collected: confirmedPayments.reduce((sum, payment) => sum + Number(payment.amount), 0),
+        byMethod: summarizeByPaymentMethod(confirmedPayments),
+        byCollector: summarizeByCollector(confirmedPayments),
+        unreconciledBookings: confirmedBookings.filter(booking =>
+          !paymentsMatchTotal(booking.payments.map(payment => ({ amount: Number(payment.amount) })), booking.total_amount)
+        ).length
+      })
 
       // Calculate summary
       const totalBookings = reportData.length
       const totalTickets = reportData.reduce((sum, booking) => sum + booking.total_tickets, 0)
       const totalRevenue = reportData.reduce((sum, booking) => sum + booking.total_amount, 0)
+      const totalDiscount = reportData
+        .filter(booking => booking.status === 'CONFIRMED')
+        .reduce((sum, booking) => sum + booking.discount_amount, 0)
       const averageTicketsPerBooking = totalBookings > 0 ? totalTickets / totalBookings : 0
 
       setSummary({
         totalBookings,
         totalTickets,
         totalRevenue,
+        totalDiscount,
         averageTicketsPerBooking: Math.round(averageTicketsPerBooking * 100) / 100
       })
 
@@ -174,7 +268,12 @@ const Reports: React.FC = () => {
       'Show Time',
       'Seats',
       'Total Tickets',
+      'Categories',
+      'Promo Code',
+      'Discount (₹)',
       'Total Amount (₹)',
+      'Paid (₹)',
+      'Payment Methods',
       'Booked By',
       'Booking Time',
       'Status'
@@ -187,7 +286,16 @@ const Reports: React.FC = () => {
       booking.show_time,
       booking.seat_codes.join('; '),
       booking.total_tickets,
+      summarizeByCategory(booking.categories.map(category => ({ category, price: 0 })))
+        .map(entry => `${entry.tickets} ${TICKET_CATEGORY_LABELS[entry.category]}`)
+        .join('; '),
+      booking.promo_code || '',
+      booking.discount_amount,
       booking.total_amount,
+      booking.payments.reduce((sum, payment) => sum + Number(payment.amount), 0),
+      booking.payments
+        .map(payment => `${PAYMENT_METHOD_LABELS[payment.method]}${payment.reference ? ` (${payment.reference})` : ''}`)
+        .join('; '),
       booking.booked_by,
       format(new Date(booking.booking_time), 'MMM dd, yyyy h:mm a'),
       booking.status
@@ -212,7 +320,6 @@ const Reports: React.FC = () => {
 
     // Log the report export
     try {
-      const { data: { user } } = await supabase.auth.getUser()
       const userEmail = user?.email || 'unknown'
 
       await logActivity({
@@ -227,6 +334,11 @@ const Reports: React.FC = () => {
           totalBookings: bookingData.length,
           totalTickets: summary.totalTickets,
           totalRevenue: summary.totalRevenue,
+          totalDiscount: summary.totalDiscount,
+          discountsByPromoCode: promoBreakdown,
+          reconciliation,
+          revenueByTier: tierRevenue,
+          revenueByCategory: categoryBreakdown,
           exported_at: new Date().toISOString()
         },
         performedBy: userEmail
@@ -262,6 +374,22 @@ const Reports: React.FC = () => {
               } focus:outline-none focus:ring-2 focus:ring-blue-500/20`}
             />
           </div>
+          {venues.length > 1 && (
+            <div className="flex-1">
+              <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                Venue
+              </label>
+              <VenueSelect
+                value={venueFilter}
+                onChange={setVenueFilter}
+                className={`w-full px-4 py-2 rounded-lg border transition-colors duration-200 ${
+                  darkMode
+                    ? 'bg-gray-700 border-gray-600 text-gray-100 focus:border-gray-500'
+                    : 'bg-white border-gray-300 text-gray-900 focus:border-gray-400'
+                } focus:outline-none focus:ring-2 focus:ring-blue-500/20`}
+              />
+            </div>
+          )}
           <div className="flex gap-2">
             <button
               onClick={() => setSelectedDate('')}
@@ -274,7 +402,7 @@ const Reports: React.FC = () => {
               Clear Filter
             </button>
             <button
-              onClick={() => setSelectedDate(new Date().toISOString().split('T')[0])}
+              onClick={() => setSelectedDate(venueToday(timezoneOf(venueFilter)))}
               className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
                 darkMode
                   ? 'bg-blue-600 text-white hover:bg-blue-700'
@@ -349,7 +477,9 @@ const Reports: React.FC = () => {
               <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
                 {format(new Date(show.date), 'MMM dd, yyyy')} at {format(new Date(`2000-01-01T${show.time}`), 'h:mm a')}
               </div>
-              <div className="text-sm font-medium text-blue-600">₹{show.price}</div>
+              <div className="text-sm font-medium text-blue-600">
+                {show.layout ? formatPriceRange(show, parseLayoutStructure(show.layout.structure)) : `₹${show.price}`}
+              </div>
               <div className="mt-2">
                 <div className={`text-xs px-2 py-1 rounded-full inline-block ${
                   show.status === 'ACTIVE' 
@@ -364,14 +494,15 @@ const Reports: React.FC = () => {
                         ? darkMode
                           ? 'bg-yellow-900/20 text-yellow-400 border border-yellow-800'
                           : 'bg-yellow-100 text-yellow-800'
-                        : darkMode
-                          ? 'bg-gray-700 text-gray-300 border border-gray-600'
-                          : 'bg-gray-100 text-gray-800'
+                        : show.status === 'CANCELLED' || show.status === 'RESCHEDULED'
+                          ? darkMode
+                            ? 'bg-red-900/20 text-red-400 border border-red-800'
+                            : 'bg-red-100 text-red-800'
+                          : darkMode
+                            ? 'bg-gray-700 text-gray-300 border border-gray-600'
+                            : 'bg-gray-100 text-gray-800'
                 }`}>
-                  {show.status === 'ACTIVE' ? 'Active' : 
-                   show.status === 'HOUSE_FULL' ? 'House Full' : 
-                   show.status === 'SHOW_STARTED' ? 'Show Started' :
-                   'Show Done'}
+                  {SHOW_STATUS_LABELS[show.status || 'ACTIVE']}
                 </div>
               </div>
             </button>
@@ -423,6 +554,109 @@ const Reports: React.FC = () => {
                 </div>
               </div>
 
+              {/* Revenue by Price Tier */}
+              {tierRevenue.length > 1 && (
+                <div className="mb-6">
+                  <h3 className={`text-sm font-medium mb-3 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Revenue by Price Tier</h3>
+                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                    {tierRevenue.map(tier => (
+                      <div key={tier.tier} className={`p-4 rounded-xl border transition-colors duration-200 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                        <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{tier.tier}</div>
+                        <div className={`text-xl font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>₹{tier.revenue.toLocaleString()}</div>
+                        <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{tier.tickets} ticket(s)</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Tickets by Category */}
+              {categoryBreakdown.length > 0 && (
+                <div className="mb-6">
+                  <h3 className={`text-sm font-medium mb-3 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Tickets by Category</h3>
+                  <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+                    {categoryBreakdown.map(entry => (
+                      <div key={entry.category} className={`p-4 rounded-xl border transition-colors duration-200 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                        <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{TICKET_CATEGORY_LABELS[entry.category]}</div>
+                        <div className={`text-xl font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{entry.tickets}</div>
+                        <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>₹{entry.revenue.toLocaleString()}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Discounts by Promo Code */}
+              {promoBreakdown.length > 0 && (
+                <div className="mb-6">
+                  <h3 className={`text-sm font-medium mb-3 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    Discounts by Promo Code (₹{summary.totalDiscount.toLocaleString()} total)
+                  </h3>
+                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                    {promoBreakdown.map(entry => (
+                      <div key={entry.code} className={`p-4 rounded-xl border transition-colors duration-200 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                        <div className={`text-sm font-mono transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{entry.code}</div>
+                        <div className={`text-xl font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>₹{entry.discount.toLocaleString()}</div>
+                        <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{entry.bookings} booking(s)</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Payments & Reconciliation */}
+              {reconciliation.ticketsIssued > 0 && (
+                <div className="mb-6">
+                  <h3 className={`text-sm font-medium mb-3 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    Payments &amp; Reconciliation
+                  </h3>
+                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+                    <div className={`p-4 rounded-xl border transition-colors duration-200 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                      <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Tickets issued</div>
+                      <div className={`text-xl font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>₹{reconciliation.ticketsIssued.toLocaleString()}</div>
+                    </div>
+                    <div className={`p-4 rounded-xl border transition-colors duration-200 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                      <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Collected</div>
+                      <div className={`text-xl font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>₹{reconciliation.collected.toLocaleString()}</div>
+                    </div>
+                    <div className={`p-4 rounded-xl border transition-colors duration-200 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                      <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Difference</div>
+                      <div className={`text-xl font-bold ${paymentsMatchTotal([{ amount: reconciliation.collected }], reconciliation.ticketsIssued) ? 'text-green-600' : 'text-red-600'}`}>
+                        ₹{(reconciliation.collected - reconciliation.ticketsIssued).toLocaleString()}
+                      </div>
+                    </div>
+                    <div className={`p-4 rounded-xl border transition-colors duration-200 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                      <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>Unreconciled bookings</div>
+                      <div className={`text-xl font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{reconciliation.unreconciledBookings}</div>
+                    </div>
+                  </div>
+                  {reconciliation.byMethod.length > 0 && (
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+                      {reconciliation.byMethod.map(entry => (
+                        <div key={entry.method} className={`p-4 rounded-xl border transition-colors duration-200 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                          <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{PAYMENT_METHOD_LABELS[entry.method]}</div>
+                          <div className={`text-xl font-bold transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>₹{entry.amount.toLocaleString()}</div>
+                          <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{entry.payments} payment(s)</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {reconciliation.byCollector.length > 0 && (
+                    <div className={`rounded-xl border divide-y transition-colors duration-200 ${darkMode ? 'border-gray-700 divide-gray-700' : 'border-gray-200 divide-gray-200'}`}>
+                      {reconciliation.byCollector.map(entry => (
+                        <div key={entry.collectedBy} className="flex items-center justify-between px-4 py-2 text-sm">
+                          <span className={`transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>{entry.collectedBy}</span>
+                          <span className={`transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                            ₹{entry.cash.toLocaleString()} cash
+                            <span className={`ml-3 transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>₹{entry.other.toLocaleString()} other</span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Booking Details Table */}
               {bookingData.length > 0 ? (
                 <div className="overflow-x-auto">
@@ -482,6 +716,16 @@ const Reports: React.FC = () => {
                             <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
                               ₹{booking.total_amount.toLocaleString()}
                             </div>
+                            {booking.promo_code && (
+                              <div className="text-xs text-green-600">
+                                {booking.promo_code} -₹{booking.discount_amount.toLocaleString()}
+                              </div>
+                            )}
+                            {booking.payments.length > 0 && (
+                              <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                {booking.payments.map(payment => PAYMENT_METHOD_LABELS[payment.method]).join(' + ')}
+                              </div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{booking.booked_by}</div>
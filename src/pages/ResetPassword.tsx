@@ -0,0 +1,125 @@
+import React, { useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { PASSWORD_POLICY_HINT, passwordPolicyError, resetPasswordWithToken } from '../utils/passwords'
+
+// Where a reset link lands. Works without signing in; the link can only be
+// used once.
+const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [resetEmail, setResetEmail] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match')
+      return
+    }
+
+    // The email isn't known until the reset is done, so the server checks that part
+    const policyError = passwordPolicyError(newPassword, '')
+    if (policyError) {
+      setError(policyError)
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      setResetEmail(await resetPasswordWithToken(token, newPassword))
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset the password')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8">
+          <div className="text-center mb-8">
+            <div className="w-16 h-16 bg-slate-900 rounded-2xl flex items-center justify-center mx-auto mb-4">
+              <span className="text-white font-bold text-xl">K</span>
+            </div>
+            <h1 className="text-2xl font-semibold text-slate-900 mb-1">Reset Password</h1>
+            <p className="text-sm text-slate-500">Choose a new password for your account</p>
+          </div>
+
+          {resetEmail ? (
+            <div className="space-y-5 text-center">
+              <p className="text-sm text-slate-600">
+                The password for <span className="font-medium">{resetEmail}</span> has been changed.
+              </p>
+              <Link
+                to="/login"
+                className="block w-full bg-slate-900 text-white py-3 px-4 rounded-xl font-medium hover:bg-slate-800 transition-all duration-200"
+              >
+                Sign In
+              </Link>
+            </div>
+          ) : !token ? (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+              <p className="text-red-600 text-sm">This reset link is incomplete. Ask for a new one.</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div>
+                <label htmlFor="new-password" className="block text-sm font-medium text-slate-700 mb-2">
+                  New Password
+                </label>
+                <input
+                  id="new-password"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                  autoComplete="new-password"
+                  className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-slate-500 focus:border-transparent transition-all duration-200 bg-slate-50"
+                />
+                <p className="mt-1 text-xs text-slate-500">{PASSWORD_POLICY_HINT}</p>
+              </div>
+
+              <div>
+                <label htmlFor="confirm-password" className="block text-sm font-medium text-slate-700 mb-2">
+                  Confirm New Password
+                </label>
+                <input
+                  id="confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  autoComplete="new-password"
+                  className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-slate-500 focus:border-transparent transition-all duration-200 bg-slate-50"
+                />
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+                  <p className="text-red-600 text-sm">{error}</p>
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-slate-900 text-white py-3 px-4 rounded-xl font-medium hover:bg-slate-800 focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Saving...' : 'Save Password'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ResetPassword
@@ -1,15 +1,34 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
-import { format } from 'date-fns'
+import { format, parseISO } from 'date-fns'
 import { 
   UserIcon, 
   KeyIcon, 
-  DocumentArrowDownIcon
+  DocumentArrowDownIcon,
+  ClockIcon,
+  ReceiptRefundIcon,
+  CalendarDaysIcon,
+  BuildingOfficeIcon
 } from '@heroicons/react/24/outline'
+import {
+  SHOW_STATUS_TRANSITIONS,
+  SHOW_STATUS_LABELS,
+  ShowLifecycleSettings,
+  fetchShowLifecycleSettings,
+  updateShowLifecycleSettings
+} from '../utils/showLifecycle'
+import { ShowStatus, Holiday, Venue } from '../lib/supabase'
+import { RefundPolicyRule, fetchRefundPolicy, updateRefundPolicy, describeRefundPolicy } from '../utils/refunds'
+import { fetchHolidays, addHoliday, deleteHoliday } from '../utils/showSeries'
+import { VenueInput, EMPTY_VENUE, createVenue, updateVenue } from '../utils/venues'
+import { useVenue } from '../contexts/VenueContext'
+import { venueToday } from '../utils/venueTime'
+import { PASSWORD_POLICY_HINT, passwordPolicyError } from '../utils/passwords'
 
 const Settings: React.FC = () => {
-  const { user } = useAuth()
+  const { user, can, changePassword } = useAuth()
+  const { venues, timezone, refreshVenues } = useVenue()
   const [activeTab, setActiveTab] = useState('profile')
   const [loading, setLoading] = useState(false)
   const [message, setMessage] = useState('')
@@ -26,6 +45,46 @@ const Settings: React.FC = () => {
     confirmPassword: ''
   })
 
+  const [lifecycleSettings, setLifecycleSettings] = useState<ShowLifecycleSettings | null>(null)
+  const [refundPolicy, setRefundPolicy] = useState<RefundPolicyRule[] | null>(null)
+  const [holidays, setHolidays] = useState<Holiday[] | null>(null)
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' })
+  const [venueForm, setVenueForm] = useState<VenueInput & { active: boolean }>({ ...EMPTY_VENUE, active: true })
+  const [editingVenue, setEditingVenue] = useState<Venue | null>(null)
+
+  useEffect(() => {
+    if (activeTab === 'lifecycle' && !lifecycleSettings) {
+      fetchShowLifecycleSettings()
+        .then(setLifecycleSettings)
+        .catch(error => {
+          console.error('Error fetching lifecycle settings:', error)
+          setMessage('Error loading show lifecycle settings')
+        })
+    }
+  }, [activeTab, lifecycleSettings])
+
+  useEffect(() => {
+    if (activeTab === 'refunds' && !refundPolicy) {
+      fetchRefundPolicy()
+        .then(setRefundPolicy)
+        .catch(error => {
+          console.error('Error fetching refund policy:', error)
+          setMessage('Error loading refund policy')
+        })
+    }
+  }, [activeTab, refundPolicy])
+
+  useEffect(() => {
+    if (activeTab === 'holidays' && !holidays) {
+      fetchHolidays()
+        .then(setHolidays)
+        .catch(error => {
+          console.error('Error fetching holidays:', error)
+          setMessage('Error loading holidays')
+        })
+    }
+  }, [activeTab, holidays])
+
   const handleUpdateProfile = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
@@ -50,20 +109,157 @@ const Settings: React.FC = () => {
       return
     }
 
+    const policyError = passwordPolicyError(passwordData.newPassword, user?.email || '')
+    if (policyError) {
+      setMessage(`Error changing password: ${policyError}`)
+      return
+    }
+
     setLoading(true)
     setMessage('')
 
     try {
-      // In a real implementation, you would call your password update API
-      // For now, just show success message
-      setMessage('Password change functionality will be implemented with proper backend integration')
+      await changePassword(passwordData.currentPassword, passwordData.newPassword)
+      setMessage('Password changed successfully! You have been signed out everywhere else.')
       setPasswordData({
         currentPassword: '',
         newPassword: '',
         confirmPassword: ''
       })
     } catch (error: any) {
-      setMessage(error.message || 'Error updating password')
+      setMessage(`Error changing password: ${error.message || 'Please try again.'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleUpdateLifecycle = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!lifecycleSettings) return
+
+    if (lifecycleSettings.doneAfterMinutes < lifecycleSettings.startedAfterMinutes) {
+      setMessage('Error: a show cannot be done before it has started')
+      return
+    }
+
+    setLoading(true)
+    setMessage('')
+
+    try {
+      await updateShowLifecycleSettings(lifecycleSettings, user?.email || 'unknown')
+      setMessage('Show lifecycle settings updated successfully!')
+    } catch (error: any) {
+      setMessage(`Error updating show lifecycle settings: ${error.message || 'Please try again.'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateRefundRule = (index: number, changes: Partial<RefundPolicyRule>) => {
+    setRefundPolicy(prev => prev && prev.map((rule, i) => i === index ? { ...rule, ...changes } : rule))
+  }
+
+  const handleUpdateRefundPolicy = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!refundPolicy) return
+
+    if (refundPolicy.some(rule => rule.refundPercent < 0 || rule.refundPercent > 100)) {
+      setMessage('Error: refunds must be between 0% and 100%')
+      return
+    }
+    if (new Set(refundPolicy.map(rule => rule.hoursBeforeShow)).size !== refundPolicy.length) {
+      setMessage('Error: each rule needs a different number of hours')
+      return
+    }
+
+    setLoading(true)
+    setMessage('')
+
+    try {
+      await updateRefundPolicy(refundPolicy, user?.email || 'unknown')
+      setRefundPolicy(null) // Reload in the order the policy is applied
+      setMessage('Refund policy updated successfully!')
+    } catch (error: any) {
+      setMessage(`Error updating refund policy: ${error.message || 'Please try again.'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setMessage('')
+
+    try {
+      await addHoliday(newHoliday.date, newHoliday.name.trim(), user?.email || 'unknown')
+      setNewHoliday({ date: '', name: '' })
+      setHolidays(await fetchHolidays())
+      setMessage('Holiday added. Recurring shows created from now on will skip it.')
+    } catch (error: any) {
+      setMessage(`Error adding holiday: ${error.message || 'Please try again.'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    setMessage('')
+
+    try {
+      await deleteHoliday(holiday, user?.email || 'unknown')
+      setHolidays(prev => prev && prev.filter(h => h.id !== holiday.id))
+    } catch (error: any) {
+      setMessage(`Error removing holiday: ${error.message || 'Please try again.'}`)
+    }
+  }
+
+  const handleEditVenue = (venue: Venue) => {
+    setEditingVenue(venue)
+    setVenueForm({
+      name: venue.name,
+      address: venue.address,
+      timezone: venue.timezone,
+      contact_name: venue.contact_name,
+      contact_phone: venue.contact_phone,
+      contact_email: venue.contact_email,
+      active: venue.active
+    })
+  }
+
+  const resetVenueForm = () => {
+    setEditingVenue(null)
+    setVenueForm({ ...EMPTY_VENUE, active: true })
+  }
+
+  const handleSaveVenue = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setMessage('')
+
+    // Blank optional fields are stored as null
+    const { active, ...fields } = venueForm
+    const venue: VenueInput = {
+      name: fields.name,
+      timezone: fields.timezone.trim(),
+      address: fields.address?.trim() || null,
+      contact_name: fields.contact_name?.trim() || null,
+      contact_phone: fields.contact_phone?.trim() || null,
+      contact_email: fields.contact_email?.trim() || null
+    }
+
+    try {
+      if (editingVenue) {
+        await updateVenue(editingVenue, { ...venue, active }, user?.email || 'unknown')
+        setMessage('Venue updated successfully!')
+      } else {
+        await createVenue(venue, user?.email || 'unknown')
+        setMessage('Venue added. Create layouts for it from the Layouts page.')
+      }
+      resetVenueForm()
+      await refreshVenues()
+    } catch (error: any) {
+      setMessage(`Error saving venue: ${error.message || 'Please try again.'}`)
     } finally {
       setLoading(false)
     }
@@ -105,7 +301,7 @@ const Settings: React.FC = () => {
       const url = window.URL.createObjectURL(blob)
       const a = document.createElement('a')
       a.href = url
-      a.download = `Kalari-bookings-${new Date().toISOString().split('T')[0]}.csv`
+      a.download = `Kalari-bookings-${venueToday(timezone)}.csv`
       a.click()
       window.URL.revokeObjectURL(url)
 
@@ -121,6 +317,12 @@ const Settings: React.FC = () => {
     { id: 'profile', name: 'Profile', icon: UserIcon },
     { id: 'password', name: 'Password', icon: KeyIcon },
     { id: 'reports', name: 'Reports', icon: DocumentArrowDownIcon },
+    ...(can('settings.edit') ? [
+      { id: 'lifecycle', name: 'Show Lifecycle', icon: ClockIcon },
+      { id: 'refunds', name: 'Refund Policy', icon: ReceiptRefundIcon },
+      { id: 'holidays', name: 'Holidays', icon: CalendarDaysIcon },
+      { id: 'venues', name: 'Venues', icon: BuildingOfficeIcon }
+    ] : []),
   ]
 
   return (
@@ -244,9 +446,10 @@ const Settings: React.FC = () => {
                       value={passwordData.newPassword}
                       onChange={(e) => setPasswordData({ ...passwordData, newPassword: e.target.value })}
                       required
-                      minLength={6}
+                      autoComplete="new-password"
                       className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                     />
+                    <p className="mt-1 text-xs text-gray-500">{PASSWORD_POLICY_HINT}</p>
                   </div>
 
                   <div>
@@ -258,7 +461,7 @@ const Settings: React.FC = () => {
                       value={passwordData.confirmPassword}
                       onChange={(e) => setPasswordData({ ...passwordData, confirmPassword: e.target.value })}
                       required
-                      minLength={6}
+                      autoComplete="new-password"
                       className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                     />
                   </div>
@@ -274,6 +477,337 @@ const Settings: React.FC = () => {
               </div>
             )}
 
+            {activeTab === 'lifecycle' && (
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 mb-6">Show Lifecycle</h2>
+                {!lifecycleSettings ? (
+                  <div className="flex items-center justify-center h-32">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                  </div>
+                ) : (
+                  <form onSubmit={handleUpdateLifecycle} className="space-y-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Mark show started (minutes after start time)
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={lifecycleSettings.startedAfterMinutes}
+                        onChange={(e) => setLifecycleSettings({ ...lifecycleSettings, startedAfterMinutes: parseInt(e.target.value) || 0 })}
+                        required
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Mark show done (minutes after start time)
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={lifecycleSettings.doneAfterMinutes}
+                        onChange={(e) => setLifecycleSettings({ ...lifecycleSettings, doneAfterMinutes: parseInt(e.target.value) || 0 })}
+                        required
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                      <p className="text-sm text-gray-500 mt-1">Remaining active tickets are marked completed at this point</p>
+                    </div>
+
+                    <p className="text-sm text-gray-500">
+                      Show times are read in the timezone of the show's venue, set under Venues.
+                    </p>
+
+                    <div className="border border-gray-200 rounded-xl p-6">
+                      <h3 className="text-lg font-medium text-gray-900 mb-2">Allowed Transitions</h3>
+                      <div className="space-y-2 text-sm">
+                        {(Object.keys(SHOW_STATUS_TRANSITIONS) as ShowStatus[]).map(status => (
+                          <div key={status} className="flex justify-between">
+                            <span className="text-gray-600">{SHOW_STATUS_LABELS[status]}</span>
+                            <span className="font-medium">
+                              {SHOW_STATUS_TRANSITIONS[status].length > 0
+                                ? SHOW_STATUS_TRANSITIONS[status].map(next => SHOW_STATUS_LABELS[next]).join(', ')
+                                : 'Final'}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="bg-primary-600 text-white py-3 px-6 rounded-xl font-medium hover:bg-primary-700 transition-colors disabled:opacity-50"
+                    >
+                      {loading ? 'Saving...' : 'Save Lifecycle Settings'}
+                    </button>
+                  </form>
+                )}
+              </div>
+            )}
+
+            {activeTab === 'refunds' && (
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 mb-6">Refund Policy</h2>
+                {!refundPolicy ? (
+                  <div className="flex items-center justify-center h-32">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                  </div>
+                ) : (
+                  <form onSubmit={handleUpdateRefundPolicy} className="space-y-6">
+                    <p className="text-sm text-gray-600">
+                      Cancelling seats raises a refund of the ticket price for an admin to approve. The rule with the most
+                      hours that still applies sets the percent; after the show starts nothing is refunded.
+                    </p>
+
+                    <div className="space-y-3">
+                      {refundPolicy.map((rule, index) => (
+                        <div key={index} className="flex items-end gap-3">
+                          <div className="flex-1">
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              Hours before show
+                            </label>
+                            <input
+                              type="number"
+                              min={0}
+                              value={rule.hoursBeforeShow}
+                              onChange={(e) => updateRefundRule(index, { hoursBeforeShow: parseInt(e.target.value) || 0 })}
+                              required
+                              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            />
+                          </div>
+                          <div className="flex-1">
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              Refund (%)
+                            </label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={rule.refundPercent}
+                              onChange={(e) => updateRefundRule(index, { refundPercent: parseFloat(e.target.value) || 0 })}
+                              required
+                              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            />
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => setRefundPolicy(refundPolicy.filter((_, i) => i !== index))}
+                            className="px-4 py-3 text-sm font-medium text-red-600 hover:text-red-700"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => setRefundPolicy([...refundPolicy, { hoursBeforeShow: 0, refundPercent: 0 }])}
+                        className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                      >
+                        + Add rule
+                      </button>
+                    </div>
+
+                    <p className="text-sm text-gray-500">{describeRefundPolicy(refundPolicy)}</p>
+
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="bg-primary-600 text-white py-3 px-6 rounded-xl font-medium hover:bg-primary-700 transition-colors disabled:opacity-50"
+                    >
+                      {loading ? 'Saving...' : 'Save Refund Policy'}
+                    </button>
+                  </form>
+                )}
+              </div>
+            )}
+
+            {activeTab === 'holidays' && (
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 mb-6">Holidays</h2>
+                <p className="text-sm text-gray-600 mb-6">
+                  Recurring shows can skip these dates. Shows already scheduled on a holiday are not changed.
+                </p>
+
+                <form onSubmit={handleAddHoliday} className="flex flex-col sm:flex-row gap-3 mb-6">
+                  <input
+                    type="date"
+                    value={newHoliday.date}
+                    onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+                    required
+                    className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                  <input
+                    type="text"
+                    value={newHoliday.name}
+                    onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                    required
+                    placeholder="e.g. Onam"
+                    className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="bg-primary-600 text-white py-3 px-6 rounded-xl font-medium hover:bg-primary-700 transition-colors disabled:opacity-50"
+                  >
+                    Add Holiday
+                  </button>
+                </form>
+
+                {!holidays ? (
+                  <div className="flex items-center justify-center h-32">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                  </div>
+                ) : holidays.length === 0 ? (
+                  <p className="text-sm text-gray-500">No holidays on the calendar.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {holidays.map(holiday => (
+                      <li key={holiday.id} className="flex items-center justify-between py-3">
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{holiday.name}</div>
+                          <div className="text-xs text-gray-500">{format(parseISO(holiday.date), 'EEEE, MMM dd, yyyy')}</div>
+                        </div>
+                        <button
+                          onClick={() => handleDeleteHoliday(holiday)}
+                          className="text-sm font-medium text-red-600 hover:text-red-700"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {activeTab === 'venues' && (
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 mb-6">Venues</h2>
+
+                <ul className="divide-y divide-gray-200 mb-8">
+                  {venues.map(venue => (
+                    <li key={venue.id} className="flex items-start justify-between py-3">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">
+                          {venue.name}{!venue.active && <span className="ml-2 text-xs text-gray-500">Closed</span>}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {[venue.address, venue.timezone].filter(Boolean).join(' · ')}
+                        </div>
+                        {(venue.contact_name || venue.contact_phone || venue.contact_email) && (
+                          <div className="text-xs text-gray-500">
+                            {[venue.contact_name, venue.contact_phone, venue.contact_email].filter(Boolean).join(' · ')}
+                          </div>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleEditVenue(venue)}
+                        className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                      >
+                        Edit
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+
+                <form onSubmit={handleSaveVenue} className="space-y-4">
+                  <h3 className="text-lg font-medium text-gray-900">{editingVenue ? `Edit ${editingVenue.name}` : 'Add a Venue'}</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                      <input
+                        type="text"
+                        value={venueForm.name}
+                        onChange={(e) => setVenueForm({ ...venueForm, name: e.target.value })}
+                        required
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Timezone</label>
+                      <input
+                        type="text"
+                        value={venueForm.timezone}
+                        onChange={(e) => setVenueForm({ ...venueForm, timezone: e.target.value })}
+                        required
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        placeholder="e.g. Asia/Kolkata"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+                    <textarea
+                      value={venueForm.address || ''}
+                      onChange={(e) => setVenueForm({ ...venueForm, address: e.target.value })}
+                      rows={2}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Contact Name</label>
+                      <input
+                        type="text"
+                        value={venueForm.contact_name || ''}
+                        onChange={(e) => setVenueForm({ ...venueForm, contact_name: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Contact Phone</label>
+                      <input
+                        type="tel"
+                        value={venueForm.contact_phone || ''}
+                        onChange={(e) => setVenueForm({ ...venueForm, contact_phone: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Contact Email</label>
+                      <input
+                        type="email"
+                        value={venueForm.contact_email || ''}
+                        onChange={(e) => setVenueForm({ ...venueForm, contact_email: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                  {editingVenue && (
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={venueForm.active}
+                        onChange={(e) => setVenueForm({ ...venueForm, active: e.target.checked })}
+                        className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      Open for new shows
+                    </label>
+                  )}
+                  <div className="flex gap-3">
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="bg-primary-600 text-white py-3 px-6 rounded-xl font-medium hover:bg-primary-700 transition-colors disabled:opacity-50"
+                    >
+                      {loading ? 'Saving...' : editingVenue ? 'Save Venue' : 'Add Venue'}
+                    </button>
+                    {editingVenue && (
+                      <button
+                        type="button"
+                        onClick={resetVenueForm}
+                        className="py-3 px-6 rounded-xl font-medium bg-gray-200 text-gray-800 hover:bg-gray-300 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </form>
+              </div>
+            )}
+
             {activeTab === 'reports' && (
               <div>
                 <h2 className="text-xl font-semibold text-gray-900 mb-6">Export Reports</h2>
@@ -307,7 +841,7 @@ const Settings: React.FC = () => {
                             ? 'bg-purple-100 text-purple-800' 
                             : 'bg-blue-100 text-blue-800'
                         }`}>
-                          {user?.role === 'admin' ? 'Administrator' : 'Staff Member'}
+                          {user?.role_label || user?.role}
                         </span>
                       </div>
                       <div className="flex justify-between">
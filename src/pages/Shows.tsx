@@ -1,73 +1,140 @@
 import React, { useState, useEffect } from 'react'
-import { supabase, Show, Layout } from '../lib/supabase'
-import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline'
-import { format } from 'date-fns'
+import { supabase, Show, Layout, TicketCategory, CategoryPriceRule, Holiday, SeriesFrequency } from '../lib/supabase'
+import { PlusIcon, PencilIcon, TrashIcon, QueueListIcon, XCircleIcon, CalendarDaysIcon, ClipboardDocumentListIcon } from '@heroicons/react/24/outline'
+import { format, parseISO } from 'date-fns'
 import { useDarkMode } from '../hooks/useDarkMode'
 import { logShowDeletion, logShowCreation, logShowUpdate } from '../utils/activityLogger'
+import { advanceShowLifecycle, isShowOpen, SHOW_STATUS_LABELS } from '../utils/showLifecycle'
+import { parseLayoutStructure, getLayoutCapacity } from '../utils/layoutStructure'
+import { formatPriceRange } from '../utils/seatPricing'
+import { TICKET_CATEGORIES, TICKET_CATEGORY_LABELS, DEFAULT_CATEGORY_RULES, describeCategoryRule } from '../utils/ticketCategories'
+import { useAuth } from '../contexts/AuthContext'
+import { useVenue, useVenueFilter } from '../contexts/VenueContext'
+import { venueToday, shiftDate } from '../utils/venueTime'
+import VenueSelect from '../components/VenueSelect'
+import WaitlistPanel from '../components/WaitlistPanel'
+import ShowChangeModal, { ShowChangeMode } from '../components/ShowChangeModal'
+import ShowChangeRecord from '../components/ShowChangeRecord'
+import { RescheduleTarget } from '../utils/showChanges'
+import {
+  RecurrenceRule,
+  WEEKDAY_LABELS,
+  MAX_SERIES_SHOWS,
+  generateSeriesDates,
+  describeRecurrence,
+  createShowSeries,
+  updateShowSeries,
+  cancelShowSeries,
+  fetchHolidays
+} from '../utils/showSeries'
+
+// Category rules as edited in the form; a blank value uses the default rule
+type CategoryRuleInputs = Partial<Record<TicketCategory, { type: CategoryPriceRule['type']; value: string }>>
+
+// Repeat settings as edited in the form; NONE creates a single show
+interface RecurrenceInputs {
+  frequency: 'NONE' | SeriesFrequency
+  weekdays: number[]
+  ends: 'UNTIL' | 'COUNT'
+  untilDate: string
+  occurrences: string
+  skipHolidays: boolean
+}
+
+const NO_RECURRENCE: RecurrenceInputs = {
+  frequency: 'NONE',
+  weekdays: [],
+  ends: 'UNTIL',
+  untilDate: '',
+  occurrences: '',
+  skipHolidays: true
+}
 
 const Shows: React.FC = () => {
   const [shows, setShows] = useState<Show[]>([])
   const [allShows, setAllShows] = useState<Show[]>([]) // Store all shows for filtering
   const [layouts, setLayouts] = useState<Layout[]>([])
   const [loading, setLoading] = useState(true)
+  const { user, can } = useAuth()
+  const { venues, timezoneOf } = useVenue()
+  const [venueFilter, setVenueFilter] = useVenueFilter()
+  const today = venueToday(timezoneOf(venueFilter))
   const darkMode = useDarkMode()
   const [showModal, setShowModal] = useState(false)
   const [editingShow, setEditingShow] = useState<Show | null>(null)
   const [selectedDate, setSelectedDate] = useState<string>('') // Date filter state
+  const [waitlistShowId, setWaitlistShowId] = useState<string | null>(null) // Show whose waitlist is open
+  const [recurrence, setRecurrence] = useState<RecurrenceInputs>(NO_RECURRENCE)
+  const [editScope, setEditScope] = useState<'SHOW' | 'SERIES'>('SHOW') // What editing a series show changes
+  const [deletingShow, setDeletingShow] = useState<Show | null>(null) // Series show waiting for a delete choice
+  const [changingShow, setChangingShow] = useState<{ show: Show; mode: ShowChangeMode; target?: RescheduleTarget } | null>(null)
+  const [recordShowId, setRecordShowId] = useState<string | null>(null) // Cancelled or rescheduled show whose record is open
+  const [holidays, setHolidays] = useState<Holiday[]>([])
   const [formData, setFormData] = useState({
     title: '',
     date: '',
     time: '',
     price: '',
+    tier_prices: {} as { [tierName: string]: string }, // Blank uses the layout's tier price
+    category_prices: {} as CategoryRuleInputs,
+    group_min_seats: '',
+    group_discount_percent: '', // Blank means no group rate
     description: '',
     layout_id: ''
   })
 
+  const formLayoutTiers = parseLayoutStructure(layouts.find(layout => layout.id === formData.layout_id)?.structure).tiers || []
+
+  const recurrenceRule: RecurrenceRule | null = recurrence.frequency === 'NONE'
+    ? null
+    : {
+        frequency: recurrence.frequency,
+        weekdays: recurrence.weekdays,
+        startDate: formData.date,
+        untilDate: recurrence.ends === 'UNTIL' ? recurrence.untilDate || null : null,
+        occurrences: recurrence.ends === 'COUNT' ? parseInt(recurrence.occurrences) || null : null,
+        skipHolidays: recurrence.skipHolidays
+      }
+  const seriesPreview = recurrenceRule ? generateSeriesDates(recurrenceRule, holidays.map(holiday => holiday.date)) : null
+
   useEffect(() => {
     fetchShows()
     fetchLayouts()
+    fetchHolidays()
+      .then(setHolidays)
+      .catch(error => console.error('Error fetching holidays:', error))
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
-  // Filter shows by selected date
+  // Filter shows by selected date and venue
   useEffect(() => {
-    if (selectedDate) {
-      const filteredShows = allShows.filter(show => show.date === selectedDate)
-      setShows(filteredShows)
-    } else {
-      setShows(allShows) // Show all shows if no date selected
-    }
-  }, [selectedDate, allShows])
+    setShows(allShows.filter(show =>
+      (!selectedDate || show.date === selectedDate) &&
+      (!venueFilter || show.venue_id === venueFilter)
+    ))
+  }, [selectedDate, venueFilter, allShows])
 
   const fetchShows = async () => {
+    try {
+      await advanceShowLifecycle(user?.email || 'unknown')
+    } catch (error) {
+      console.error('Error advancing show statuses:', error)
+    }
+
     try {
       const { data, error } = await supabase
         .from('shows')
         .select(`
           *,
-          layout:layouts(*)
+          layout:layouts(*),
+          series:show_series(*)
         `)
         .order('date', { ascending: false })
 
       if (error) throw error
 
-      // Check and update show statuses automatically
-      if (data) {
-        await checkAndUpdateShowStatuses(data)
-        // Fetch again to get updated statuses
-        const { data: updatedData } = await supabase
-          .from('shows')
-          .select(`
-            *,
-            layout:layouts(*)
-          `)
-          .order('date', { ascending: false })
-        setAllShows(updatedData || []) // Store all shows
-        setShows(updatedData || []) // Initially show all shows
-      } else {
-        setAllShows([])
-        setShows([])
-      }
+      setAllShows(data || []) // Store all shows
+      setShows(data || []) // Initially show all shows
     } catch (error) {
       console.error('Error fetching shows:', error)
     } finally {
@@ -75,148 +142,6 @@ const Shows: React.FC = () => {
     }
   }
 
-  const checkAndUpdateShowStatuses = async (shows: Show[]) => {
-    for (const show of shows) {
-      try {
-        // Check if show is completed (current time is past show date + time)
-        const showDateTime = new Date(`${show.date}T${show.time}`)
-        const now = new Date()
-
-        console.log(`Checking show ${show.title}: Show time: ${showDateTime}, Current time: ${now}, Status: ${show.status}`)
-
-        const thirtyMinutesAfterShow = new Date(showDateTime.getTime() + 30 * 60 * 1000) // Add 30 minutes
-
-        // Check if show is done (30 minutes after show start time)
-        if (now > thirtyMinutesAfterShow && show.status !== 'SHOW_DONE') {
-          console.log(`Updating show ${show.title} to SHOW_DONE and tickets to COMPLETED`)
-
-          // Update show to SHOW_DONE
-          const { error: showError } = await supabase
-            .from('shows')
-            .update({ status: 'SHOW_DONE' })
-            .eq('id', show.id)
-
-          if (showError) {
-            console.error('Error updating show status:', showError)
-            continue
-          }
-
-          // Update all tickets for this show to COMPLETED status
-          const { error: ticketError } = await supabase
-            .from('tickets')
-            .update({ status: 'COMPLETED' })
-            .eq('show_id', show.id)
-            .in('status', ['ACTIVE']) // Update ACTIVE tickets
-
-          if (ticketError) {
-            console.error('Error updating ticket status:', ticketError)
-          } else {
-            console.log(`Successfully updated tickets for show ${show.title} to COMPLETED`)
-          }
-        }
-        // Check if show has started (current time is past show start time but less than 30 minutes)
-        else if (now > showDateTime && now <= thirtyMinutesAfterShow && show.status === 'ACTIVE') {
-          console.log(`Updating show ${show.title} from ${show.status} to SHOW_STARTED`)
-
-          const { error: showError } = await supabase
-            .from('shows')
-            .update({ status: 'SHOW_STARTED' })
-            .eq('id', show.id)
-
-          if (showError) {
-            console.error('Error updating show status to SHOW_STARTED:', showError)
-          } else {
-            console.log(`Successfully updated show ${show.title} to SHOW_STARTED`)
-          }
-        }
-        // Check if HOUSE_FULL show should go directly to SHOW_DONE when show time passes
-        else if (now > showDateTime && show.status === 'HOUSE_FULL') {
-          console.log(`Updating HOUSE_FULL show ${show.title} directly to SHOW_DONE and tickets to COMPLETED`)
-
-          // Update show to SHOW_DONE
-          const { error: showError } = await supabase
-            .from('shows')
-            .update({ status: 'SHOW_DONE' })
-            .eq('id', show.id)
-
-          if (showError) {
-            console.error('Error updating show status:', showError)
-            continue
-          }
-
-          // Update all tickets for this show to COMPLETED status
-          const { error: ticketError } = await supabase
-            .from('tickets')
-            .update({ status: 'COMPLETED' })
-            .eq('show_id', show.id)
-            .in('status', ['ACTIVE']) // Update ACTIVE tickets
-
-          if (ticketError) {
-            console.error('Error updating ticket status:', ticketError)
-          } else {
-            console.log(`Successfully updated tickets for HOUSE_FULL show ${show.title} to COMPLETED`)
-          }
-        }
-        // Check if house is full for ACTIVE shows
-        else if (show.status === 'ACTIVE') {
-          // Check if house is full
-          const isHouseFull = await checkIfHouseFull(show)
-          if (isHouseFull) {
-            await supabase
-              .from('shows')
-              .update({ status: 'HOUSE_FULL' })
-              .eq('id', show.id)
-          }
-        }
-      } catch (error) {
-        console.error(`Error processing show ${show.title}:`, error)
-      }
-    }
-  }
-
-  const checkIfHouseFull = async (show: Show) => {
-    try {
-      if (!show.layout) return false
-
-      // Calculate total seats from layout (support both new and old formats)
-      const totalSeats = show.layout.structure.sections?.reduce((total: number, section: any) => {
-        if (section.rows && Array.isArray(section.rows)) {
-          // New format with individual row configuration
-          return total + section.rows.reduce((sum: number, row: any) => sum + row.seats, 0)
-        }
-        // Fallback for old format
-        return total + (section.rows * section.seatsPerRow || 0)
-      }, 0) || 0
-
-      console.log(`Checking house full for show ${show.title}: Total seats = ${totalSeats}`)
-
-      // Count booked seats
-      const { data: bookings } = await supabase
-        .from('bookings')
-        .select('seat_code')
-        .eq('show_id', show.id)
-        .eq('status', 'CONFIRMED')
-
-      const bookedSeatsCount = bookings?.reduce((count, booking) => {
-        try {
-          const seats = JSON.parse(booking.seat_code)
-          return count + (Array.isArray(seats) ? seats.length : 1)
-        } catch {
-          return count + (booking.seat_code.includes(',')
-            ? booking.seat_code.split(',').length
-            : 1)
-        }
-      }, 0) || 0
-
-      console.log(`Booked seats: ${bookedSeatsCount}, Total seats: ${totalSeats}, Is house full: ${bookedSeatsCount >= totalSeats}`)
-
-      return bookedSeatsCount >= totalSeats
-    } catch (error) {
-      console.error('Error checking if house is full:', error)
-      return false
-    }
-  }
-
   const fetchLayouts = async () => {
     try {
       const { data, error } = await supabase
@@ -235,27 +160,89 @@ const Shows: React.FC = () => {
     e.preventDefault()
 
     try {
+      // Only keep overrides for tiers the chosen layout actually has
+      const tierPrices: { [tierName: string]: number } = {}
+      formLayoutTiers.forEach(tier => {
+        const override = formData.tier_prices[tier.name]
+        if (override !== undefined && override !== '') {
+          tierPrices[tier.name] = parseFloat(override)
+        }
+      })
+
+      const categoryPrices: Partial<Record<TicketCategory, CategoryPriceRule>> = {}
+      TICKET_CATEGORIES.forEach(category => {
+        const rule = formData.category_prices[category]
+        if (rule && rule.value !== '') {
+          categoryPrices[category] = { type: rule.type, value: parseFloat(rule.value) }
+        }
+      })
+
       const showData = {
         title: formData.title,
         date: formData.date,
         time: formData.time,
         price: parseFloat(formData.price),
+        tier_prices: tierPrices,
+        category_prices: categoryPrices,
+        group_min_seats: formData.group_discount_percent && formData.group_min_seats ? parseInt(formData.group_min_seats) : null,
+        group_discount_percent: formData.group_discount_percent ? parseFloat(formData.group_discount_percent) : null,
         description: formData.description,
         layout_id: formData.layout_id
       }
 
-      // Get current user email
-      const { data: { user } } = await supabase.auth.getUser()
       const userEmail = user?.email || 'unknown'
+      // Everything but the date is shared by the shows in a series
+      const { date, ...seriesShowData } = showData
+
+      if (editingShow?.series && editScope === 'SERIES') {
+        const result = await updateShowSeries(editingShow.series, seriesShowData, timezoneOf(editingShow.venue_id), userEmail)
+        alert(`Updated ${result.updated} upcoming show(s) in the series.` +
+          (result.keptDates.length > 0
+            ? ` ${result.keptDates.map(date => format(parseISO(date), 'MMM dd')).join(', ')} already have bookings, so they kept their time and layout; reschedule them one at a time.`
+            : ''))
+      } else if (!editingShow && recurrenceRule) {
+        const result = await createShowSeries(recurrenceRule, seriesShowData, holidays.map(holiday => holiday.date), userEmail)
+        alert(`Created ${result.created} show(s).` +
+          (result.skippedHolidays.length > 0 ? ` Skipped ${result.skippedHolidays.length} holiday(s).` : '') +
+          (result.truncated ? ` A series can have at most ${MAX_SERIES_SHOWS} shows, so the later dates were left out; start another series for them.` : ''))
+      } else if (editingShow) {
+        // A booked show has to take its ticket holders along when it moves,
+        // so a new date, time or layout goes through rescheduling instead
+        if (date !== editingShow.date ||
+          showData.time.slice(0, 5) !== editingShow.time.slice(0, 5) ||
+          showData.layout_id !== editingShow.layout_id) {
+          const { count, error: countError } = await supabase
+            .from('bookings')
+            .select('id', { count: 'exact', head: true })
+            .eq('show_id', editingShow.id)
+            .eq('status', 'CONFIRMED')
+
+          if (countError) throw countError
+
+          if (count) {
+            alert(`This show has ${count} booking(s). Reschedule it to change the date, time or layout, ` +
+              'so ticket holders are moved and told. Nothing was saved.')
+            if (can('show.cancel') && isShowOpen(editingShow.status)) {
+              setChangingShow({
+                show: editingShow,
+                mode: 'RESCHEDULE',
+                target: { date, time: showData.time.slice(0, 5), layoutId: showData.layout_id }
+              })
+            }
+            setShowModal(false)
+            setEditingShow(null)
+            resetForm()
+            return
+          }
+        }
 
-      if (editingShow) {
         // Capture changes before update
         const changes: any = {}
         if (editingShow.title !== showData.title) {
           changes.title = { from: editingShow.title, to: showData.title }
         }
-        if (editingShow.date !== showData.date) {
-          changes.date = { from: editingShow.date, to: showData.date }
+        if (editingShow.date !== date) {
+          changes.date = { from: editingShow.date, to: date }
         }
         if (editingShow.time !== showData.time) {
           changes.time = { from: editingShow.time, to: showData.time }
@@ -263,6 +250,19 @@ const Shows: React.FC = () => {
         if (editingShow.price !== showData.price) {
           changes.price = { from: editingShow.price, to: showData.price }
         }
+        if (JSON.stringify(editingShow.tier_prices || {}) !== JSON.stringify(showData.tier_prices)) {
+          changes.tier_prices = { from: editingShow.tier_prices || {}, to: showData.tier_prices }
+        }
+        if (JSON.stringify(editingShow.category_prices || {}) !== JSON.stringify(showData.category_prices)) {
+          changes.category_prices = { from: editingShow.category_prices || {}, to: showData.category_prices }
+        }
+        if ((editingShow.group_min_seats ?? null) !== showData.group_min_seats ||
+          (editingShow.group_discount_percent ?? null) !== showData.group_discount_percent) {
+          changes.group_rate = {
+            from: { min_seats: editingShow.group_min_seats ?? null, discount_percent: editingShow.group_discount_percent ?? null },
+            to: { min_seats: showData.group_min_seats, discount_percent: showData.group_discount_percent }
+          }
+        }
         if (editingShow.description !== showData.description) {
           changes.description = { from: editingShow.description || '', to: showData.description }
         }
@@ -304,6 +304,10 @@ const Shows: React.FC = () => {
               date: showData.date,
               time: showData.time,
               price: showData.price,
+              tier_prices: showData.tier_prices,
+              category_prices: showData.category_prices,
+              group_min_seats: showData.group_min_seats,
+              group_discount_percent: showData.group_discount_percent,
               description: showData.description,
               created_at: new Date().toISOString()
             }
@@ -315,66 +319,132 @@ const Shows: React.FC = () => {
       setEditingShow(null)
       resetForm()
       await fetchShows() // Refresh the shows list
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error saving show:', error)
+      if (recurrenceRule || editScope === 'SERIES') {
+        alert(error.message || 'Could not save the series')
+      }
     }
   }
 
   const handleEdit = (show: Show) => {
     setEditingShow(show)
+    setRecurrence(NO_RECURRENCE)
+    setEditScope('SHOW')
     setFormData({
       title: show.title,
       date: show.date,
       time: show.time,
       price: show.price.toString(),
+      tier_prices: Object.fromEntries(
+        Object.entries(show.tier_prices || {}).map(([tierName, price]) => [tierName, price.toString()])
+      ),
+      category_prices: Object.fromEntries(
+        Object.entries(show.category_prices || {}).map(([category, rule]) => [category, { type: rule.type, value: rule.value.toString() }])
+      ),
+      group_min_seats: show.group_min_seats?.toString() || '',
+      group_discount_percent: show.group_discount_percent?.toString() || '',
       description: show.description || '',
       layout_id: show.layout_id
     })
     setShowModal(true)
   }
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (show: Show) => {
+    // Series shows ask whether to remove one show or the rest of the series
+    if (show.series_id) {
+      setDeletingShow(show)
+      return
+    }
+
     if (window.confirm('Are you sure you want to delete this show?')) {
-      try {
-        // Get show details before deletion for logging
-        const { data: showToDelete } = await supabase
-          .from('shows')
-          .select('title, date, time')
-          .eq('id', id)
-          .single()
+      await deleteShow(show.id)
+    }
+  }
 
-        const { error } = await supabase
-          .from('shows')
-          .delete()
-          .eq('id', id)
+  const handleCancelSeries = async (show: Show) => {
+    if (!show.series) return
+    setDeletingShow(null)
 
-        if (error) throw error
+    try {
+      const result = await cancelShowSeries(show.series, 'Series cancelled', timezoneOf(show.venue_id), user?.email || 'unknown')
+      alert(`Removed ${result.deleted} upcoming show(s) from the series.` +
+        (result.cancelled > 0
+          ? ` Cancelled ${result.cancelled} show(s) with bookings and raised ₹${result.refundAmount.toLocaleString()} in refunds.`
+          : '') +
+        (result.failedDates.length > 0
+          ? ` Could not cancel ${result.failedDates.map(date => format(parseISO(date), 'MMM dd')).join(', ')}; cancel them one at a time.`
+          : ''))
+      fetchShows()
+    } catch (error: any) {
+      console.error('Error cancelling series:', error)
+      alert(error.message || 'Could not cancel the series')
+    }
+  }
 
-        // Log the deletion
-        if (showToDelete) {
-          // Get current user email
-          const { data: { user } } = await supabase.auth.getUser()
-          const userEmail = user?.email || 'unknown'
+  // Deleting a show takes its bookings and tickets with it, so a show
+  // with any booking, even a cancelled one, is cancelled instead and its
+  // payments and refunds stay on record
+  const deleteShow = async (id: string) => {
+    try {
+      const { count, error: countError } = await supabase
+        .from('bookings')
+        .select('id', { count: 'exact', head: true })
+        .eq('show_id', id)
 
-          await logShowDeletion(
-            id,
-            showToDelete.title,
-            userEmail,
-            {
-              date: showToDelete.date,
-              time: showToDelete.time,
-              deleted_at: new Date().toISOString()
-            }
-          )
-        }
+      if (countError) throw countError
+
+      if (count) {
+        const show = allShows.find(show => show.id === id)
+        alert(`This show has ${count} booking(s) on record. Cancel it instead so its bookings, payments and refunds are kept.`)
+        if (show && can('show.cancel') && isShowOpen(show.status)) setChangingShow({ show, mode: 'CANCEL' })
+        return
+      }
 
-        fetchShows()
-      } catch (error) {
-        console.error('Error deleting show:', error)
+      // Get show details before deletion for logging
+      const { data: showToDelete } = await supabase
+        .from('shows')
+        .select('title, date, time')
+        .eq('id', id)
+        .single()
+
+      const { error } = await supabase
+        .from('shows')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+
+      // Log the deletion
+      if (showToDelete) {
+        const userEmail = user?.email || 'unknown'
+
+        await logShowDeletion(
+          id,
+          showToDelete.title,
+          userEmail,
+          {
+            date: showToDelete.date,
+            time: showToDelete.time,
+            deleted_at: new Date().toISOString()
+          }
+        )
       }
+
+      fetchShows()
+    } catch (error) {
+      console.error('Error deleting show:', error)
     }
   }
 
+  const handleShowChanged = (summary: string) => {
+    const show = changingShow?.show
+    setChangingShow(null)
+    if (show) setRecordShowId(show.id)
+    alert(summary)
+    fetchShows()
+  }
+
 
 
 
@@ -385,9 +455,23 @@ const Shows: React.FC = () => {
       date: '',
       time: '',
       price: '',
+      tier_prices: {},
+      category_prices: {},
+      group_min_seats: '',
+      group_discount_percent: '',
       description: '',
       layout_id: ''
     })
+    setRecurrence(NO_RECURRENCE)
+  }
+
+  const toggleWeekday = (day: number) => {
+    setRecurrence({
+      ...recurrence,
+      weekdays: recurrence.weekdays.includes(day)
+        ? recurrence.weekdays.filter(d => d !== day)
+        : [...recurrence.weekdays, day]
+    })
   }
 
   if (loading) {
@@ -409,20 +493,21 @@ const Shows: React.FC = () => {
             Manage show timings and schedules
           </p>
         </div>
-        <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
-          <button
-            onClick={() => {
-              resetForm()
-              setEditingShow(null)
-              setShowModal(true)
-            }}
-            className="bg-slate-900 text-white px-6 py-3 rounded-xl font-medium hover:bg-slate-800 transition-all duration-200 flex items-center justify-center touch-manipulation shadow-sm"
-          >
-            <PlusIcon className="h-5 w-5 mr-2" />
-            <span>Add Show</span>
-          </button>
-
-        </div>
+        {can('show.edit') && (
+          <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+            <button
+              onClick={() => {
+                resetForm()
+                setEditingShow(null)
+                setShowModal(true)
+              }}
+              className="bg-slate-900 text-white px-6 py-3 rounded-xl font-medium hover:bg-slate-800 transition-all duration-200 flex items-center justify-center touch-manipulation shadow-sm"
+            >
+              <PlusIcon className="h-5 w-5 mr-2" />
+              <span>Add Show</span>
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Date Filter */}
@@ -444,6 +529,22 @@ const Shows: React.FC = () => {
               } focus:outline-none focus:ring-2 focus:ring-primary-500/20`}
             />
           </div>
+          {venues.length > 1 && (
+            <div className="flex-1">
+              <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                Venue
+              </label>
+              <VenueSelect
+                value={venueFilter}
+                onChange={setVenueFilter}
+                className={`w-full px-4 py-2 rounded-lg border transition-colors duration-200 ${
+                  darkMode
+                    ? 'bg-slate-800 border-slate-600 text-slate-100 focus:border-slate-500'
+                    : 'bg-white border-slate-300 text-slate-900 focus:border-slate-400'
+                } focus:outline-none focus:ring-2 focus:ring-primary-500/20`}
+              />
+            </div>
+          )}
           <div className="flex gap-2">
             <button
               onClick={() => setSelectedDate('')}
@@ -456,7 +557,7 @@ const Shows: React.FC = () => {
               Clear Filter
             </button>
             <button
-              onClick={() => setSelectedDate(new Date().toISOString().split('T')[0])}
+              onClick={() => setSelectedDate(today)}
               className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
                 darkMode
                   ? 'bg-primary-600 text-white hover:bg-primary-700'
@@ -466,11 +567,7 @@ const Shows: React.FC = () => {
               Today
             </button>
             <button
-              onClick={() => {
-                const tomorrow = new Date()
-                tomorrow.setDate(tomorrow.getDate() + 1)
-                setSelectedDate(tomorrow.toISOString().split('T')[0])
-              }}
+              onClick={() => setSelectedDate(shiftDate(today, 1))}
               className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
                 darkMode
                   ? 'bg-slate-600 text-white hover:bg-slate-500'
@@ -548,13 +645,19 @@ const Shows: React.FC = () => {
                   </tr>
                 ) : (
                   shows.map((show) => (
-                  <tr key={show.id} className={`transition-colors duration-200 ${darkMode ? 'hover:bg-slate-800/50' : 'hover:bg-slate-50'}`}>
+                  <React.Fragment key={show.id}>
+                  <tr className={`transition-colors duration-200 ${darkMode ? 'hover:bg-slate-800/50' : 'hover:bg-slate-50'}`}>
                     <td className="px-4 py-4">
                       <div>
                         <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>{show.title}</div>
                         {show.description && (
                           <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>{show.description}</div>
                         )}
+                        {show.series && (
+                          <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-primary-300' : 'text-primary-700'}`}>
+                            Repeats: {describeRecurrence(show.series)}
+                          </div>
+                        )}
                       </div>
                     </td>
                     <td className="px-4 py-4 whitespace-nowrap">
@@ -564,10 +667,22 @@ const Shows: React.FC = () => {
                       <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>{format(new Date(`2000-01-01T${show.time}`), 'h:mm a')}</div>
                     </td>
                     <td className="px-4 py-4 whitespace-nowrap text-center">
-                      <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>₹{show.price}</div>
+                      <div className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                        {show.layout ? formatPriceRange(show, parseLayoutStructure(show.layout.structure)) : `₹${show.price}`}
+                      </div>
                     </td>
                     <td className="px-4 py-4 whitespace-nowrap text-center">
                       <div className={`text-sm transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>{show.layout?.name || 'N/A'}</div>
+                      {venues.length > 1 && (
+                        <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                          {venues.find(venue => venue.id === show.venue_id)?.name}
+                        </div>
+                      )}
+                      {show.layout && (
+                        <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                          {getLayoutCapacity(parseLayoutStructure(show.layout.structure))} seats
+                        </div>
+                      )}
                     </td>
                     <td className="pl-1 pr-0 py-4 whitespace-nowrap text-center">
                       <div className="flex justify-center">
@@ -583,40 +698,103 @@ const Shows: React.FC = () => {
                               ? darkMode
                                 ? 'bg-blue-900/30 text-blue-400 border border-blue-800/50'
                                 : 'bg-blue-100 text-blue-800'
-                              : darkMode
-                                ? 'bg-slate-800 text-slate-300 border border-slate-700'
-                                : 'bg-slate-100 text-slate-700'
+                              : show.status === 'CANCELLED'
+                                ? darkMode
+                                  ? 'bg-red-900/30 text-red-400 border border-red-800/50'
+                                  : 'bg-red-100 text-red-800'
+                                : show.status === 'RESCHEDULED'
+                                  ? darkMode
+                                    ? 'bg-purple-900/30 text-purple-400 border border-purple-800/50'
+                                    : 'bg-purple-100 text-purple-800'
+                                  : darkMode
+                                    ? 'bg-slate-800 text-slate-300 border border-slate-700'
+                                    : 'bg-slate-100 text-slate-700'
                           }`}>
-                          {show.status === 'ACTIVE' ? 'Active' :
-                            show.status === 'HOUSE_FULL' ? 'House Full' :
-                              show.status === 'SHOW_STARTED' ? 'Show Started' :
-                                'Show Done'}
+                          {SHOW_STATUS_LABELS[show.status || 'ACTIVE']}
                         </span>
                       </div>
                     </td>
                     <td className="pl-0 pr-1 py-4 whitespace-nowrap text-sm font-medium text-center">
-                      {show.status === 'SHOW_DONE' ? (
+                      {show.status === 'CANCELLED' || show.status === 'RESCHEDULED' ? (
+                        <div className="flex justify-center">
+                          <button
+                            onClick={() => setRecordShowId(recordShowId === show.id ? null : show.id)}
+                            className={`p-2 rounded-lg transition-colors duration-200 ${recordShowId === show.id
+                              ? darkMode ? 'text-primary-300 bg-slate-800' : 'text-primary-700 bg-slate-100'
+                              : darkMode ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-800' : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'}`}
+                            title="Bookings moved and notifications"
+                          >
+                            <ClipboardDocumentListIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      ) : show.status === 'SHOW_DONE' ? (
                         <span className={`text-sm font-medium transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
                           Done
                         </span>
                       ) : (
                         <div className="flex justify-center space-x-2">
                           <button
-                            onClick={() => handleEdit(show)}
-                            className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-800' : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'}`}
-                          >
-                            <PencilIcon className="h-4 w-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDelete(show.id)}
-                            className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-red-400 hover:text-red-300 hover:bg-red-900/20' : 'text-red-600 hover:text-red-700 hover:bg-red-50'}`}
+                            onClick={() => setWaitlistShowId(waitlistShowId === show.id ? null : show.id)}
+                            className={`p-2 rounded-lg transition-colors duration-200 ${waitlistShowId === show.id
+                              ? darkMode ? 'text-primary-300 bg-slate-800' : 'text-primary-700 bg-slate-100'
+                              : darkMode ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-800' : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'}`}
+                            title="Waitlist"
                           >
-                            <TrashIcon className="h-4 w-4" />
+                            <QueueListIcon className="h-4 w-4" />
                           </button>
+                          {can('show.edit') && (
+                            <button
+                              onClick={() => handleEdit(show)}
+                              className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-800' : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'}`}
+                            >
+                              <PencilIcon className="h-4 w-4" />
+                            </button>
+                          )}
+                          {can('show.cancel') && isShowOpen(show.status) && (
+                            <button
+                              onClick={() => setChangingShow({ show, mode: 'RESCHEDULE' })}
+                              className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-800' : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'}`}
+                              title="Reschedule"
+                            >
+                              <CalendarDaysIcon className="h-4 w-4" />
+                            </button>
+                          )}
+                          {can('show.cancel') && isShowOpen(show.status) && (
+                            <button
+                              onClick={() => setChangingShow({ show, mode: 'CANCEL' })}
+                              className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-red-400 hover:text-red-300 hover:bg-red-900/20' : 'text-red-600 hover:text-red-700 hover:bg-red-50'}`}
+                              title="Cancel show"
+                            >
+                              <XCircleIcon className="h-4 w-4" />
+                            </button>
+                          )}
+                          {can('show.edit') && (
+                            <button
+                              onClick={() => handleDelete(show)}
+                              className={`p-2 rounded-lg transition-colors duration-200 ${darkMode ? 'text-red-400 hover:text-red-300 hover:bg-red-900/20' : 'text-red-600 hover:text-red-700 hover:bg-red-50'}`}
+                            >
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          )}
                         </div>
                       )}
                     </td>
                   </tr>
+                  {waitlistShowId === show.id && (
+                    <tr>
+                      <td colSpan={6} className={`px-4 py-4 transition-colors duration-200 ${darkMode ? 'bg-slate-800/30' : 'bg-slate-50'}`}>
+                        <WaitlistPanel show={show} />
+                      </td>
+                    </tr>
+                  )}
+                  {recordShowId === show.id && (
+                    <tr>
+                      <td colSpan={6} className={`px-4 py-4 transition-colors duration-200 ${darkMode ? 'bg-slate-800/30' : 'bg-slate-50'}`}>
+                        <ShowChangeRecord show={show} movedTo={allShows.find(other => other.id === show.rescheduled_to)} />
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                   ))
                 )}
               </tbody>
@@ -634,6 +812,37 @@ const Shows: React.FC = () => {
             </h2>
 
             <form onSubmit={handleSubmit} className="space-y-4">
+              {editingShow?.series && (
+                <div className={`p-3 rounded-xl border text-sm transition-colors duration-200 ${darkMode ? 'border-slate-700 text-gray-300' : 'border-slate-200 text-gray-700'}`}>
+                  <div className="mb-2">Part of a series: {describeRecurrence(editingShow.series)}</div>
+                  <div className="flex gap-4">
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        checked={editScope === 'SHOW'}
+                        onChange={() => setEditScope('SHOW')}
+                        className="mr-2 text-primary-600 focus:ring-primary-500"
+                      />
+                      This show only
+                    </label>
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        checked={editScope === 'SERIES'}
+                        onChange={() => setEditScope('SERIES')}
+                        className="mr-2 text-primary-600 focus:ring-primary-500"
+                      />
+                      All upcoming shows
+                    </label>
+                  </div>
+                  {editScope === 'SERIES' && (
+                    <p className={`mt-2 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      Shows that have started keep their details, and each show keeps its own date.
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div>
                 <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'
                   }`}>
@@ -655,14 +864,15 @@ const Shows: React.FC = () => {
                 <div>
                   <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'
                     }`}>
-                    Date
+                    {recurrenceRule ? 'Starts On' : 'Date'}
                   </label>
                   <input
                     type="date"
                     value={formData.date}
                     onChange={(e) => setFormData({ ...formData, date: e.target.value })}
                     required
-                    className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+                    disabled={editScope === 'SERIES'}
+                    className={`w-full disabled:opacity-50 px-4 py-3 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
                       ? 'bg-gray-700 border-gray-600 text-white'
                       : 'bg-white border-gray-300 text-gray-900'
                       }`}
@@ -686,11 +896,123 @@ const Shows: React.FC = () => {
                 </div>
               </div>
 
+              {!editingShow && (
+                <div>
+                  <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}>
+                    Repeat
+                  </label>
+                  <select
+                    value={recurrence.frequency}
+                    onChange={(e) => setRecurrence({ ...recurrence, frequency: e.target.value as RecurrenceInputs['frequency'] })}
+                    className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+                      ? 'bg-gray-700 border-gray-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-900'
+                      }`}
+                  >
+                    <option value="NONE">Does not repeat</option>
+                    <option value="DAILY">Daily</option>
+                    <option value="WEEKLY">Weekly on chosen days</option>
+                  </select>
+
+                  {recurrence.frequency !== 'NONE' && (
+                    <div className="mt-3 space-y-3">
+                      {recurrence.frequency === 'WEEKLY' && (
+                        <div className="flex flex-wrap gap-2">
+                          {WEEKDAY_LABELS.map((label, day) => (
+                            <button
+                              key={label}
+                              type="button"
+                              onClick={() => toggleWeekday(day)}
+                              className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${recurrence.weekdays.includes(day)
+                                ? 'bg-primary-600 text-white'
+                                : darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-700'
+                                }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <select
+                          value={recurrence.ends}
+                          onChange={(e) => setRecurrence({ ...recurrence, ends: e.target.value as RecurrenceInputs['ends'] })}
+                          className={`w-full px-4 py-2 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+                            ? 'bg-gray-700 border-gray-600 text-white'
+                            : 'bg-white border-gray-300 text-gray-900'
+                            }`}
+                        >
+                          <option value="UNTIL">Until a date</option>
+                          <option value="COUNT">Number of shows</option>
+                        </select>
+                        {recurrence.ends === 'UNTIL' ? (
+                          <input
+                            type="date"
+                            value={recurrence.untilDate}
+                            onChange={(e) => setRecurrence({ ...recurrence, untilDate: e.target.value })}
+                            min={formData.date}
+                            required
+                            className={`w-full px-4 py-2 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+                              ? 'bg-gray-700 border-gray-600 text-white'
+                              : 'bg-white border-gray-300 text-gray-900'
+                              }`}
+                          />
+                        ) : (
+                          <input
+                            type="number"
+                            value={recurrence.occurrences}
+                            onChange={(e) => setRecurrence({ ...recurrence, occurrences: e.target.value })}
+                            min="1"
+                            max={MAX_SERIES_SHOWS}
+                            step="1"
+                            required
+                            placeholder="Shows"
+                            className={`w-full px-4 py-2 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+                              ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                              : 'bg-white border-gray-300 text-gray-900'
+                              }`}
+                          />
+                        )}
+                      </div>
+
+                      <label className={`flex items-center text-sm transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                        <input
+                          type="checkbox"
+                          checked={recurrence.skipHolidays}
+                          onChange={(e) => setRecurrence({ ...recurrence, skipHolidays: e.target.checked })}
+                          className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        Skip holidays ({holidays.length} on the calendar)
+                      </label>
+
+                      {seriesPreview && (
+                        <p className={`text-xs transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                          {seriesPreview.dates.length === 0
+                            ? 'Pick a start date and when the series ends.'
+                            : `${seriesPreview.dates.length} show(s) from ${format(parseISO(seriesPreview.dates[0]), 'MMM dd')} to ${format(parseISO(seriesPreview.dates[seriesPreview.dates.length - 1]), 'MMM dd, yyyy')}`}
+                          {seriesPreview.skippedHolidays.length > 0 && `, skipping ${seriesPreview.skippedHolidays.length} holiday(s)`}
+                        </p>
+                      )}
+                      {seriesPreview?.truncated && (
+                        <p className={`text-xs transition-colors duration-200 ${darkMode ? 'text-amber-400' : 'text-amber-700'}`}>
+                          A series can have at most {MAX_SERIES_SHOWS} shows. Dates after {format(parseISO(seriesPreview.dates[seriesPreview.dates.length - 1]), 'MMM dd, yyyy')} will be left out.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div>
                 <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'
                   }`}>
                   Ticket Price (₹)
                 </label>
+                <p className={`text-xs mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Charged for sections without a price tier
+                </p>
                 <input
                   type="number"
                   value={formData.price}
@@ -720,14 +1042,134 @@ const Shows: React.FC = () => {
                     }`}
                 >
                   <option value="">Select a layout</option>
-                  {layouts.map((layout) => (
-                    <option key={layout.id} value={layout.id}>
-                      {layout.name}
-                    </option>
-                  ))}
+                  {layouts
+                    .filter(layout => !venueFilter || layout.venue_id === venueFilter || layout.id === formData.layout_id)
+                    .map((layout) => (
+                      <option key={layout.id} value={layout.id}>
+                        {layout.name} ({getLayoutCapacity(parseLayoutStructure(layout.structure))} seats)
+                        {venues.length > 1 && ` · ${venues.find(venue => venue.id === layout.venue_id)?.name || ''}`}
+                      </option>
+                    ))}
                 </select>
               </div>
 
+              {formLayoutTiers.length > 0 && (
+                <div>
+                  <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}>
+                    Tier Prices for this Show (₹)
+                  </label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {formLayoutTiers.map(tier => (
+                      <div key={tier.name}>
+                        <div className={`text-xs mb-1 transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{tier.name}</div>
+                        <input
+                          type="number"
+                          value={formData.tier_prices[tier.name] ?? ''}
+                          onChange={(e) => setFormData({
+                            ...formData,
+                            tier_prices: { ...formData.tier_prices, [tier.name]: e.target.value }
+                          })}
+                          min="0"
+                          step="0.01"
+                          placeholder={`${tier.price} (layout price)`}
+                          className={`w-full px-4 py-2 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+                            ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                            : 'bg-white border-gray-300 text-gray-900'
+                            }`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}>
+                  Ticket Category Prices
+                </label>
+                <div className="space-y-2">
+                  {TICKET_CATEGORIES.map(category => {
+                    const rule = formData.category_prices[category] || { type: DEFAULT_CATEGORY_RULES[category].type, value: '' }
+                    const setRule = (changes: Partial<typeof rule>) => setFormData({
+                      ...formData,
+                      category_prices: { ...formData.category_prices, [category]: { ...rule, ...changes } }
+                    })
+                    return (
+                      <div key={category} className="flex items-center gap-3">
+                        <span className={`w-28 text-sm transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                          {TICKET_CATEGORY_LABELS[category]}
+                        </span>
+                        <select
+                          value={rule.type}
+                          onChange={(e) => setRule({ type: e.target.value as CategoryPriceRule['type'] })}
+                          className={`px-3 py-2 text-sm border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+                            ? 'bg-gray-700 border-gray-600 text-white'
+                            : 'bg-white border-gray-300 text-gray-900'
+                            }`}
+                        >
+                          <option value="PERCENT">% of seat price</option>
+                          <option value="FIXED">Fixed ₹</option>
+                        </select>
+                        <input
+                          type="number"
+                          value={rule.value}
+                          onChange={(e) => setRule({ value: e.target.value })}
+                          min="0"
+                          step="0.01"
+                          placeholder={describeCategoryRule(DEFAULT_CATEGORY_RULES[category])}
+                          className={`flex-1 min-w-0 px-3 py-2 text-sm border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+                            ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                            : 'bg-white border-gray-300 text-gray-900'
+                            }`}
+                        />
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}>
+                  Group Rate (Optional)
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <div className={`text-xs mb-1 transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Minimum seats</div>
+                    <input
+                      type="number"
+                      value={formData.group_min_seats}
+                      onChange={(e) => setFormData({ ...formData, group_min_seats: e.target.value })}
+                      min="2"
+                      step="1"
+                      placeholder="Any size"
+                      className={`w-full px-4 py-2 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+                        ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                        : 'bg-white border-gray-300 text-gray-900'
+                        }`}
+                    />
+                  </div>
+                  <div>
+                    <div className={`text-xs mb-1 transition-colors duration-200 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Discount (%)</div>
+                    <input
+                      type="number"
+                      value={formData.group_discount_percent}
+                      onChange={(e) => setFormData({ ...formData, group_discount_percent: e.target.value })}
+                      min="0.01"
+                      max="100"
+                      step="0.01"
+                      placeholder="No group rate"
+                      className={`w-full px-4 py-2 border rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 ${darkMode
+                        ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                        : 'bg-white border-gray-300 text-gray-900'
+                        }`}
+                    />
+                  </div>
+                </div>
+              </div>
+
               <div>
                 <label className={`block text-sm font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-gray-300' : 'text-gray-700'
                   }`}>
@@ -761,13 +1203,69 @@ const Shows: React.FC = () => {
                   type="submit"
                   className="flex-1 bg-primary-600 text-white py-3 px-4 rounded-xl font-medium hover:bg-primary-700 transition-colors"
                 >
-                  {editingShow ? 'Update' : 'Create'} Show
+                  {editingShow
+                    ? editScope === 'SERIES' ? 'Update Series' : 'Update Show'
+                    : seriesPreview ? `Create ${seriesPreview.dates.length} Shows` : 'Create Show'}
                 </button>
               </div>
             </form>
           </div>
         </div>
       )}
+
+      {changingShow && (
+        <ShowChangeModal
+          show={changingShow.show}
+          mode={changingShow.mode}
+          target={changingShow.target}
+          layouts={layouts}
+          onClose={() => setChangingShow(null)}
+          onChanged={handleShowChanged}
+        />
+      )}
+
+      {deletingShow && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className={`rounded-2xl p-6 max-w-md w-full transition-colors duration-200 shadow-xl ${darkMode ? 'bg-slate-900 border border-slate-800' : 'bg-white border border-slate-200'}`}>
+            <h2 className={`text-lg font-medium mb-2 transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+              Delete {deletingShow.title}
+            </h2>
+            <p className={`text-sm mb-6 transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+              This show repeats{deletingShow.series ? ` (${describeRecurrence(deletingShow.series)})` : ''}. Removing the series
+              deletes upcoming shows nobody has booked and cancels the rest, refunding and telling their ticket holders.
+            </p>
+            <div className="flex flex-col gap-3">
+              <button
+                onClick={() => {
+                  const show = deletingShow
+                  setDeletingShow(null)
+                  deleteShow(show.id)
+                }}
+                className="py-3 px-4 rounded-xl font-medium bg-red-600 text-white hover:bg-red-700 transition-colors"
+              >
+                Delete {format(parseISO(deletingShow.date), 'MMM dd')} only
+              </button>
+              {deletingShow.series && (
+                <button
+                  onClick={() => handleCancelSeries(deletingShow)}
+                  className={`py-3 px-4 rounded-xl font-medium border transition-colors ${darkMode ? 'border-red-800 text-red-400 hover:bg-red-900/20' : 'border-red-300 text-red-600 hover:bg-red-50'}`}
+                >
+                  Remove all upcoming shows in the series
+                </button>
+              )}
+              <button
+                onClick={() => setDeletingShow(null)}
+                className={`py-3 px-4 rounded-xl font-medium transition-colors ${darkMode
+                  ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+                  }`}
+              >
+                Keep
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react'
-import { PlusIcon, TrashIcon, UserIcon, ExclamationTriangleIcon, PencilIcon } from '@heroicons/react/24/outline'
-import { supabase } from '../lib/supabase'
+import { PlusIcon, TrashIcon, UserIcon, ExclamationTriangleIcon, PencilIcon, KeyIcon, ClockIcon, LockOpenIcon } from '@heroicons/react/24/outline'
+import { supabase, Role } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { ADMIN_ROLE, fetchRoles } from '../utils/permissions'
+import { PASSWORD_POLICY_HINT, createPasswordReset, passwordPolicyError } from '../utils/passwords'
+import { isLocked, unlockUser } from '../utils/loginSecurity'
+import RolePermissionsEditor from '../components/RolePermissionsEditor'
+import LoginHistory from '../components/LoginHistory'
 
 interface Staff {
   id: string
@@ -10,10 +15,14 @@ interface Staff {
   full_name: string
   created_at: string
   active: boolean
+  must_change_password: boolean
+  failed_login_count: number
+  locked_until: string | null
 }
 
 const StaffManagement: React.FC = () => {
   const [staff, setStaff] = useState<Staff[]>([])
+  const [roles, setRoles] = useState<Role[]>([])
   const [loading, setLoading] = useState(true)
   const [showAddForm, setShowAddForm] = useState(false)
   const [showEditForm, setShowEditForm] = useState(false)
@@ -28,7 +37,8 @@ const StaffManagement: React.FC = () => {
     email: '',
     full_name: '',
     role: 'staff',
-    active: true
+    active: true,
+    must_change_password: false
   })
   const [formLoading, setFormLoading] = useState(false)
   const [error, setError] = useState('')
@@ -36,17 +46,40 @@ const StaffManagement: React.FC = () => {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [userToDeactivate, setUserToDeactivate] = useState<string | null>(null)
   const [userToDelete, setUserToDelete] = useState<string | null>(null)
-  const { user } = useAuth()
+  const [passwordReset, setPasswordReset] = useState<{ email: string; link: string; expiresAt: string } | null>(null)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [historyFor, setHistoryFor] = useState<Staff | null>(null)
+  const { user, isAdmin } = useAuth()
 
   useEffect(() => {
     fetchStaff()
+    loadRoles()
   }, [])
 
+  const loadRoles = async () => {
+    try {
+      setRoles(await fetchRoles())
+    } catch (error: any) {
+      console.error('Error fetching roles:', error)
+      setError('Failed to load roles')
+    }
+  }
+
+  // Only admins can make someone an admin, or change an admin's account
+  const assignableRoles = roles.filter(role => isAdmin() || role.name !== ADMIN_ROLE)
+  const canChange = (member: Staff) => isAdmin() || member.role !== ADMIN_ROLE
+  const roleLabel = (name: string) => roles.find(role => role.name === name)?.label || name
+
+  const userCounts = staff.reduce<Record<string, number>>((counts, member) => {
+    counts[member.role] = (counts[member.role] || 0) + 1
+    return counts
+  }, {})
+
   const fetchStaff = async () => {
     try {
       const { data, error } = await supabase
         .from('users')
-        .select('*')
+        .select('id, email, role, full_name, created_at, active, must_change_password, failed_login_count, locked_until') // Never the password hash
         .order('created_at', { ascending: false })
 
       if (error) throw error
@@ -61,9 +94,16 @@ const StaffManagement: React.FC = () => {
 
   const handleAddStaff = async (e: React.FormEvent) => {
     e.preventDefault()
-    setFormLoading(true)
     setError('')
 
+    const policyError = passwordPolicyError(formData.password, formData.email)
+    if (policyError) {
+      setError(policyError)
+      return
+    }
+
+    setFormLoading(true)
+
     try {
       const { data, error } = await supabase.rpc('create_user', {
         p_email: formData.email,
@@ -131,7 +171,8 @@ const StaffManagement: React.FC = () => {
       email: member.email,
       full_name: member.full_name || '',
       role: member.role,
-      active: member.active
+      active: member.active,
+      must_change_password: member.must_change_password
     })
     setShowEditForm(true)
   }
@@ -151,6 +192,7 @@ const StaffManagement: React.FC = () => {
           full_name: editFormData.full_name,
           role: editFormData.role,
           active: editFormData.active,
+          must_change_password: editFormData.must_change_password,
           updated_at: new Date().toISOString()
         })
         .eq('id', editingUser.id)
@@ -167,6 +209,42 @@ const StaffManagement: React.FC = () => {
     }
   }
 
+  const handleResetPassword = async (member: Staff) => {
+    if (!user) return
+    setError('')
+
+    try {
+      const { link, expiresAt } = await createPasswordReset(member, user.email)
+      setLinkCopied(false)
+      setPasswordReset({ email: member.email, link, expiresAt })
+    } catch (error: any) {
+      setError(error.message || 'Failed to reset password')
+    }
+  }
+
+  const handleUnlock = async (member: Staff) => {
+    if (!user) return
+    setError('')
+
+    try {
+      await unlockUser(member, user.email)
+      fetchStaff()
+    } catch (error: any) {
+      setError(error.message || 'Failed to unlock user')
+    }
+  }
+
+  const handleCopyResetLink = async () => {
+    if (!passwordReset) return
+
+    try {
+      await navigator.clipboard.writeText(passwordReset.link)
+      setLinkCopied(true)
+    } catch (error) {
+      console.error('Error copying reset link:', error)
+    }
+  }
+
   const handleDeleteUser = (userId: string) => {
     setUserToDelete(userId)
     setShowDeleteDialog(true)
@@ -204,7 +282,7 @@ const StaffManagement: React.FC = () => {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-2xl font-semibold text-slate-900">Staff Management</h1>
-          <p className="text-slate-600">Manage admin and staff user accounts</p>
+          <p className="text-slate-600">Manage user accounts and what each role can do</p>
         </div>
         <button
           onClick={() => setShowAddForm(true)}
@@ -261,9 +339,13 @@ const StaffManagement: React.FC = () => {
                   value={formData.password}
                   onChange={(e) => setFormData({ ...formData, password: e.target.value })}
                   required
+                  autoComplete="new-password"
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 focus:border-transparent"
                   placeholder="Enter password"
                 />
+                <p className="mt-1 text-xs text-slate-500">
+                  {PASSWORD_POLICY_HINT}. They choose their own when they first sign in.
+                </p>
               </div>
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-2">
@@ -274,8 +356,9 @@ const StaffManagement: React.FC = () => {
                   onChange={(e) => setFormData({ ...formData, role: e.target.value })}
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 focus:border-transparent"
                 >
-                  <option value="staff">Staff</option>
-                  <option value="admin">Admin</option>
+                  {assignableRoles.map(role => (
+                    <option key={role.name} value={role.name}>{role.label}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -339,8 +422,9 @@ const StaffManagement: React.FC = () => {
                   onChange={(e) => setEditFormData({ ...editFormData, role: e.target.value })}
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 focus:border-transparent"
                 >
-                  <option value="staff">Staff</option>
-                  <option value="admin">Admin</option>
+                  {assignableRoles.map(role => (
+                    <option key={role.name} value={role.name}>{role.label}</option>
+                  ))}
                 </select>
               </div>
               <div>
@@ -356,6 +440,15 @@ const StaffManagement: React.FC = () => {
                   <option value="inactive">Inactive</option>
                 </select>
               </div>
+              <label className="flex items-center gap-2 text-sm text-slate-700 md:col-span-2">
+                <input
+                  type="checkbox"
+                  checked={editFormData.must_change_password}
+                  onChange={(e) => setEditFormData({ ...editFormData, must_change_password: e.target.checked })}
+                  className="h-4 w-4 rounded border-slate-300 text-slate-900 focus:ring-slate-500"
+                />
+                Must choose a new password at next sign-in
+              </label>
             </div>
             <div className="flex gap-3">
               <button
@@ -428,7 +521,7 @@ const StaffManagement: React.FC = () => {
                         ? 'bg-purple-100 text-purple-800' 
                         : 'bg-blue-100 text-blue-800'
                     }`}>
-                      {member.role}
+                      {roleLabel(member.role)}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -439,54 +532,95 @@ const StaffManagement: React.FC = () => {
                     }`}>
                       {member.active ? 'Active' : 'Inactive'}
                     </span>
+                    {member.must_change_password && (
+                      <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-800">
+                        New password due
+                      </span>
+                    )}
+                    {isLocked(member) && (
+                      <span
+                        className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800"
+                        title={`Until ${new Date(member.locked_until!).toLocaleString()}`}
+                      >
+                        Locked
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
                     {new Date(member.created_at).toLocaleDateString()}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <div className="flex gap-3">
-                      <button
-                        onClick={() => handleEditUser(member)}
-                        className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50"
-                        title="Edit user"
-                      >
-                        <PencilIcon className="h-4 w-4" />
-                      </button>
+                    {canChange(member) && (
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => handleEditUser(member)}
+                          className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50"
+                          title="Edit user"
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+
+                        <button
+                          onClick={() => setHistoryFor(member)}
+                          className="text-slate-600 hover:text-slate-900 p-1 rounded hover:bg-slate-100"
+                          title="Login history"
+                        >
+                          <ClockIcon className="h-4 w-4" />
+                        </button>
                       
-                      {member.id !== user?.id && (
-                        <>
-                          {member.active ? (
+                        {member.id !== user?.id && (
+                          <>
                             <button
-                              onClick={() => handleDeactivateUser(member.id)}
-                              className="text-orange-600 hover:text-orange-900 p-1 rounded hover:bg-orange-50"
-                              title="Deactivate user"
+                              onClick={() => handleResetPassword(member)}
+                              className="text-slate-600 hover:text-slate-900 p-1 rounded hover:bg-slate-100"
+                              title="Reset password"
                             >
-                              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728L5.636 5.636m12.728 12.728L18.364 5.636M5.636 18.364l12.728-12.728" />
-                              </svg>
+                              <KeyIcon className="h-4 w-4" />
                             </button>
-                          ) : (
+
+                            {isLocked(member) && (
+                              <button
+                                onClick={() => handleUnlock(member)}
+                                className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
+                                title="Unlock user"
+                              >
+                                <LockOpenIcon className="h-4 w-4" />
+                              </button>
+                            )}
+
+                            {member.active ? (
+                              <button
+                                onClick={() => handleDeactivateUser(member.id)}
+                                className="text-orange-600 hover:text-orange-900 p-1 rounded hover:bg-orange-50"
+                                title="Deactivate user"
+                              >
+                                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728L5.636 5.636m12.728 12.728L18.364 5.636M5.636 18.364l12.728-12.728" />
+                                </svg>
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => handleActivateUser(member.id)}
+                                className="text-green-600 hover:text-green-900 p-1 rounded hover:bg-green-50"
+                                title="Activate user"
+                              >
+                                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                                </svg>
+                              </button>
+                            )}
+                          
                             <button
-                              onClick={() => handleActivateUser(member.id)}
-                              className="text-green-600 hover:text-green-900 p-1 rounded hover:bg-green-50"
-                              title="Activate user"
+                              onClick={() => handleDeleteUser(member.id)}
+                              className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
+                              title="Delete user permanently"
                             >
-                              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                              </svg>
+                              <TrashIcon className="h-4 w-4" />
                             </button>
-                          )}
-                          
-                          <button
-                            onClick={() => handleDeleteUser(member.id)}
-                            className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
-                            title="Delete user permanently"
-                          >
-                            <TrashIcon className="h-4 w-4" />
-                          </button>
-                        </>
-                      )}
-                    </div>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -495,6 +629,51 @@ const StaffManagement: React.FC = () => {
         </div>
       </div>
 
+      {isAdmin() && (
+        <RolePermissionsEditor roles={roles} userCounts={userCounts} onChange={loadRoles} />
+      )}
+
+      {historyFor && (
+        <LoginHistory member={historyFor} onClose={() => setHistoryFor(null)} />
+      )}
+
+      {/* Password Reset Link Dialog */}
+      {passwordReset && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4">
+            <div className="flex items-center mb-4">
+              <KeyIcon className="h-6 w-6 text-slate-700 mr-3" />
+              <h3 className="text-lg font-semibold text-gray-900">Password Reset Link</h3>
+            </div>
+            <p className="text-gray-600 mb-4">
+              Send this link to {passwordReset.email}. It works once, until{' '}
+              {new Date(passwordReset.expiresAt).toLocaleString()}. Their current password keeps working until they use it.
+            </p>
+            <input
+              type="text"
+              readOnly
+              value={passwordReset.link}
+              onFocus={(e) => e.target.select()}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-slate-50 text-sm font-mono mb-6"
+            />
+            <div className="flex gap-3">
+              <button
+                onClick={() => setPasswordReset(null)}
+                className="flex-1 bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleCopyResetLink}
+                className="flex-1 bg-slate-900 text-white px-4 py-2 rounded-lg hover:bg-slate-800"
+              >
+                {linkCopied ? 'Copied' : 'Copy Link'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Deactivation Confirmation Dialog */}
       {showConfirmDialog && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
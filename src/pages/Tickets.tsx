@@ -6,9 +6,17 @@ import {
   MagnifyingGlassIcon, 
   PrinterIcon, 
   XMarkIcon,
-  EyeIcon
+  EyeIcon,
+  NoSymbolIcon,
+  DocumentTextIcon
 } from '@heroicons/react/24/outline'
 import { useDarkMode } from '../hooks/useDarkMode'
+import { useAuth } from '../contexts/AuthContext'
+import CancelBookingModal from '../components/CancelBookingModal'
+import { TICKET_CATEGORY_LABELS, summarizeByCategory } from '../utils/ticketCategories'
+import { printGroupInvoice } from '../utils/groupBookings'
+import { useVenue } from '../contexts/VenueContext'
+import { venueDate, venueToday } from '../utils/venueTime'
 
 interface TicketWithDetails extends Ticket {
   show?: {
@@ -18,6 +26,12 @@ interface TicketWithDetails extends Ticket {
   }
   booking?: {
     customer_id: string
+    booking_time: string
+    group_name: string | null
+    group_discount_amount: number
+    invoice_number: string | null
+    promo_code: string | null
+    discount_amount: number
     customer?: {
       name: string
       email?: string
@@ -27,6 +41,12 @@ interface TicketWithDetails extends Ticket {
   booked_by: string
 }
 
+// e.g. "2 Adult, 1 Child"
+const formatCategoryCounts = (tickets: TicketWithDetails[]) =>
+  summarizeByCategory(tickets)
+    .map(entry => `${entry.tickets} ${TICKET_CATEGORY_LABELS[entry.category]}`)
+    .join(', ')
+
 interface BookingGroup {
   booking_id: string
   show?: {
@@ -49,6 +69,7 @@ interface BookingGroup {
 
 const Tickets: React.FC = () => {
   const darkMode = useDarkMode()
+  const { can } = useAuth()
   const [bookings, setBookings] = useState<BookingGroup[]>([])
   const [allBookings, setAllBookings] = useState<BookingGroup[]>([]) // Store all bookings for filtering
   const [loading, setLoading] = useState(true)
@@ -57,23 +78,24 @@ const Tickets: React.FC = () => {
   const [selectedDate, setSelectedDate] = useState<string>('') // Date filter state
   const [selectedBooking, setSelectedBooking] = useState<BookingGroup | null>(null)
   const [showPreview, setShowPreview] = useState(false)
+  const [cancellingBooking, setCancellingBooking] = useState<BookingGroup | null>(null)
+  const { timezone } = useVenue()
 
   useEffect(() => {
     fetchBookings()
   }, [])
 
-  // Filter bookings by ticket generated date
+  // Filter bookings by the venue day the tickets were generated on
   useEffect(() => {
     if (selectedDate) {
-      const filteredBookings = allBookings.filter(booking => {
-        const generatedDate = new Date(booking.generated_at).toISOString().split('T')[0]
-        return generatedDate === selectedDate
-      })
+      const filteredBookings = allBookings.filter(booking =>
+        venueDate(booking.generated_at, timezone) === selectedDate
+      )
       setBookings(filteredBookings)
     } else {
       setBookings(allBookings) // Show all bookings if no date selected
     }
-  }, [selectedDate, allBookings])
+  }, [selectedDate, allBookings, timezone])
 
   const fetchBookings = async () => {
     try {
@@ -84,6 +106,12 @@ const Tickets: React.FC = () => {
           show:shows(title, date, time),
           booking:bookings(
             customer_id,
+            booking_time,
+            group_name,
+            group_discount_amount,
+            invoice_number,
+            promo_code,
+            discount_amount,
             customer:customers(name, email, phone)
           )
         `)
@@ -112,14 +140,18 @@ const Tickets: React.FC = () => {
         groupedBookings[ticket.booking_id].tickets.push(ticket)
         groupedBookings[ticket.booking_id].total_price += ticket.price
         groupedBookings[ticket.booking_id].seat_codes.push(ticket.seat_code)
-        
-        // Update booking status based on ticket status
-        if (ticket.status === 'REVOKED') {
-          groupedBookings[ticket.booking_id].status = 'REVOKED'
-        }
       })
 
-      const bookingsList = Object.values(groupedBookings)
+      // A booking is ACTIVE while any ticket is, and REVOKED only once every ticket is revoked
+      const bookingsList = Object.values(groupedBookings).map(booking => {
+        const statuses = booking.tickets.map(ticket => ticket.status)
+        const status = statuses.includes('ACTIVE')
+          ? 'ACTIVE'
+          : statuses.every(status => status === 'REVOKED')
+            ? 'REVOKED'
+            : 'COMPLETED'
+        return { ...booking, status }
+      })
       setAllBookings(bookingsList) // Store all bookings
       setBookings(bookingsList) // Initially show all bookings
     } catch (error) {
@@ -139,14 +171,35 @@ const Tickets: React.FC = () => {
     
     const matchesStatus = statusFilter === 'all' || 
       (statusFilter === 'active' && booking.status === 'ACTIVE') ||
-      (statusFilter === 'completed' && booking.status === 'COMPLETED')
+      (statusFilter === 'completed' && booking.status === 'COMPLETED') ||
+      (statusFilter === 'cancelled' && booking.status === 'REVOKED')
     
     return matchesSearch && matchesStatus
   })
 
+  // Reprints the invoice issued when the group booked, covering the whole block
+  const handlePrintInvoice = (booking: BookingGroup) => {
+    const details = booking.tickets[0]?.booking
+    if (!details?.invoice_number || !booking.show) return
+
+    printGroupInvoice({
+      invoiceNumber: details.invoice_number,
+      groupName: details.group_name || booking.customer?.name || '',
+      customerName: booking.customer?.name,
+      issuedAt: details.booking_time,
+      show: booking.show,
+      tickets: booking.tickets,
+      groupDiscount: Number(details.group_discount_amount),
+      promoCode: details.promo_code,
+      promoDiscount: Number(details.discount_amount)
+    })
+  }
+
   const handlePrintBooking = (booking: BookingGroup) => {
-    // Use the same QR code API as a reliable source
-    const qrCodeUrl = `https://api.qrserver.com/v1/create-qr-code/?size=120x120&data=${encodeURIComponent(booking.booking_id)}`
+    // One QR code per admissible ticket so each guest can be checked in at the gate
+    const admissibleTickets = booking.tickets.filter(ticket => ticket.status !== 'REVOKED')
+    const qrCodeUrl = (ticketCode: string) =>
+      `https://api.qrserver.com/v1/create-qr-code/?size=120x120&data=${encodeURIComponent(ticketCode)}`
     
     const printWindow = window.open('', '_blank')
     if (!printWindow) return
@@ -234,10 +287,21 @@ const Tickets: React.FC = () => {
               text-align: center;
               margin: 24px 0;
             }
+            .qr-grid {
+              display: flex;
+              flex-wrap: wrap;
+              justify-content: center;
+              gap: 16px;
+            }
+            .qr-item {
+              text-align: center;
+              font-size: 12px;
+              color: #374151;
+            }
             .qr-code {
               width: 120px;
               height: 120px;
-              margin: 0 auto;
+              margin: 0 auto 4px;
               background: white;
               border-radius: 4px;
             }
@@ -288,6 +352,10 @@ const Tickets: React.FC = () => {
                   <span class="info-label">Quantity:</span>
                   <span class="info-value">${booking.tickets.length} ticket(s)</span>
                 </div>
+                <div class="info-row">
+                  <span class="info-label">Categories:</span>
+                  <span class="info-value">${formatCategoryCounts(booking.tickets)}</span>
+                </div>
                 <div class="info-row">
                   <span class="info-label">Total Price:</span>
                   <span class="info-value">₹${booking.total_price}</span>
@@ -301,7 +369,16 @@ const Tickets: React.FC = () => {
               </div>
 
               <div class="qr-section">
-                <img src="${qrCodeUrl}" alt="QR Code" class="qr-code" style="width: 120px; height: 120px;" />
+                <div class="qr-grid">
+                  ${admissibleTickets.map(ticket => `
+                  <div class="qr-item">
+                    <img src="${qrCodeUrl(ticket.ticket_code)}" alt="QR Code" class="qr-code" style="width: 120px; height: 120px;" />
+                    <div><strong>${ticket.seat_code}</strong></div>
+                    <div>${TICKET_CATEGORY_LABELS[ticket.category || 'ADULT']} · ₹${ticket.price}</div>
+                    <div>${ticket.ticket_code}</div>
+                  </div>
+                  `).join('')}
+                </div>
               </div>
 
               <div class="footer">
@@ -378,7 +455,7 @@ const Tickets: React.FC = () => {
               Clear Filter
             </button>
             <button
-              onClick={() => setSelectedDate(new Date().toISOString().split('T')[0])}
+              onClick={() => setSelectedDate(venueToday(timezone))}
               className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
                 darkMode
                   ? 'bg-primary-600 text-white hover:bg-primary-700'
@@ -433,6 +510,7 @@ const Tickets: React.FC = () => {
               <option value="all">All Status</option>
               <option value="active">Active</option>
               <option value="completed">Completed</option>
+              <option value="cancelled">Cancelled</option>
             </select>
           </div>
         </div>
@@ -585,6 +663,24 @@ const Tickets: React.FC = () => {
                             <PrinterIcon className="h-5 w-5" />
                           </button>
                         )}
+                        {booking.tickets[0]?.booking?.invoice_number && (
+                          <button
+                            onClick={() => handlePrintInvoice(booking)}
+                            className="text-slate-600 hover:text-slate-900"
+                            title={`Invoice ${booking.tickets[0].booking.invoice_number}`}
+                          >
+                            <DocumentTextIcon className="h-5 w-5" />
+                          </button>
+                        )}
+                        {booking.status === 'ACTIVE' && can('booking.cancel') && (
+                          <button
+                            onClick={() => setCancellingBooking(booking)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Cancel"
+                          >
+                            <NoSymbolIcon className="h-5 w-5" />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -595,6 +691,27 @@ const Tickets: React.FC = () => {
         </div>
       </div>
 
+      {/* Cancel Modal */}
+      {cancellingBooking && (
+        <CancelBookingModal
+          bookingId={cancellingBooking.booking_id}
+          showTitle={cancellingBooking.show?.title || 'Unknown Show'}
+          seatCodes={cancellingBooking.tickets
+            .filter(ticket => ticket.status === 'ACTIVE')
+            .map(ticket => ticket.seat_code)}
+          onClose={() => setCancellingBooking(null)}
+          onCancelled={(result) => {
+            setCancellingBooking(null)
+            alert((result.bookingCancelled
+              ? 'Booking cancelled and all tickets revoked.'
+              : `Released ${result.cancelledSeats.length} seat(s): ${result.cancelledSeats.join(', ')}`) +
+              (result.refundId ? `\nRefund of ₹${result.refundAmount.toLocaleString()} (${result.refundPercent}%) sent for approval.` : '') +
+              (result.waitlistOffers > 0 ? `\nFreed seats offered to ${result.waitlistOffers} customer(s) on the waitlist.` : ''))
+            fetchBookings()
+          }}
+        />
+      )}
+
       {/* Preview Modal */}
       {showPreview && selectedBooking && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-hidden">
@@ -661,6 +778,12 @@ const Tickets: React.FC = () => {
                       {selectedBooking.tickets.length} ticket(s)
                     </span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className={`font-medium transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Categories:</span>
+                    <span className={`transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                      {formatCategoryCounts(selectedBooking.tickets)}
+                    </span>
+                  </div>
                   <div className="flex justify-between">
                     <span className={`font-medium transition-colors duration-200 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>Total Price:</span>
                     <span className={`transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
@@ -669,15 +792,32 @@ const Tickets: React.FC = () => {
                   </div>
                 </div>
 
-                {/* QR Code */}
-                <div className="text-center mb-4">
-                  <QRCode
-                    value={selectedBooking.booking_id}
-                    size={120}
-                    bgColor={darkMode ? '#1e293b' : '#ffffff'}
-                    fgColor={darkMode ? '#f1f5f9' : '#000000'}
-                    className="mx-auto"
-                  />
+                {/* QR Codes - one per ticket for gate check-in */}
+                <div className="flex flex-wrap justify-center gap-4 mb-4">
+                  {selectedBooking.tickets
+                    .filter(ticket => ticket.status !== 'REVOKED')
+                    .map(ticket => (
+                      <div key={ticket.id} className="text-center">
+                        <QRCode
+                          value={ticket.ticket_code}
+                          size={120}
+                          bgColor={darkMode ? '#1e293b' : '#ffffff'}
+                          fgColor={darkMode ? '#f1f5f9' : '#000000'}
+                          className="mx-auto"
+                        />
+                        <div className={`mt-1 text-sm font-bold transition-colors duration-200 ${darkMode ? 'text-slate-100' : 'text-slate-900'}`}>
+                          {ticket.seat_code}
+                        </div>
+                        <div className={`text-xs transition-colors duration-200 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                          {TICKET_CATEGORY_LABELS[ticket.category || 'ADULT']} · ₹{ticket.price}
+                        </div>
+                        {ticket.checked_in_at && (
+                          <div className="text-xs text-green-600">
+                            Checked in {format(new Date(ticket.checked_in_at), 'h:mm a')}
+                          </div>
+                        )}
+                      </div>
+                    ))}
                 </div>
 
                 <div className="text-center text-xs space-y-1">
@@ -83,6 +83,17 @@ export const logShowDeletion = async (showId: string, showTitle: string, perform
   })
 }
 
+export const logShowStatusChange = async (showId: string, showTitle: string, performedBy: string, details?: any) => {
+  return logActivity({
+    action: 'STATUS_CHANGE',
+    entityType: 'SHOW',
+    entityId: showId,
+    entityName: showTitle,
+    details,
+    performedBy
+  })
+}
+
 export const logBookingCreation = async (bookingId: string, showTitle: string, performedBy: string, details?: any) => {
   return logActivity({
     action: 'BOOKING',
@@ -116,6 +127,17 @@ export const logTicketGeneration = async (ticketId: string, ticketCode: string,
   })
 }
 
+export const logTicketCheckIn = async (ticketId: string, ticketCode: string, performedBy: string, details?: any) => {
+  return logActivity({
+    action: 'CHECK_IN',
+    entityType: 'TICKET',
+    entityId: ticketId,
+    entityName: ticketCode,
+    details,
+    performedBy
+  })
+}
+
 export const logLayoutCreation = async (layoutId: string, layoutName: string, performedBy: string, details?: any) => {
   return logActivity({
     action: 'CREATE',
@@ -147,4 +169,28 @@ export const logLayoutDeletion = async (layoutId: string, layoutName: string, pe
     details,
     performedBy
   })
-}
\ No newline at end of file
+}
+
+export const logLogin = async (userId: string, email: string, ipAddress?: string) => {
+  return logActivity({
+    action: 'LOGIN',
+    entityType: 'USER',
+    entityId: userId,
+    entityName: email,
+    performedBy: email,
+    ipAddress,
+    userAgent: navigator.userAgent
+  })
+}
+
+export const logLogout = async (userId: string, email: string, details?: any) => {
+  return logActivity({
+    action: 'LOGOUT',
+    entityType: 'USER',
+    entityId: userId,
+    entityName: email,
+    details,
+    performedBy: email,
+    userAgent: navigator.userAgent
+  })
+}
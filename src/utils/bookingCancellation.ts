@@ -0,0 +1,78 @@
+import { supabase } from '../lib/supabase'
+import { logBookingCancellation } from './activityLogger'
+
+export interface CancelBookingParams {
+  bookingId: string
+  showTitle: string
+  seatCodes?: string[] // Omit to cancel every seat in the booking
+  reason: string
+  performedBy: string
+}
+
+export interface CancelBookingResult {
+  cancelledSeats: string[]
+  remainingSeats: string[]
+  revokedTickets: number
+  bookingCancelled: boolean
+  refundId: string | null // Pending refund raised for the cancelled tickets
+  refundAmount: number
+  refundPercent: number | null
+  waitlistOffers: number // Waiting customers offered the freed seats
+}
+
+// Booking seat codes are stored either as a JSON array or a comma separated list
+export const parseSeatCodes = (seatCode: string): string[] => {
+  try {
+    const seats = JSON.parse(seatCode)
+    return Array.isArray(seats) ? seats : [seatCode]
+  } catch {
+    return seatCode.includes(',')
+      ? seatCode.split(',').map(seat => seat.trim())
+      : [seatCode]
+  }
+}
+
+export const cancelBooking = async ({
+  bookingId,
+  showTitle,
+  seatCodes,
+  reason,
+  performedBy
+}: CancelBookingParams): Promise<CancelBookingResult> => {
+  const { data, error } = await supabase.rpc('cancel_booking_seats', {
+    p_booking_id: bookingId,
+    p_seat_codes: seatCodes && seatCodes.length > 0 ? seatCodes : null,
+    p_reason: reason
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    throw new Error(data.error || 'Cancellation failed')
+  }
+
+  const result: CancelBookingResult = {
+    cancelledSeats: data.cancelled_seats || [],
+    remainingSeats: data.remaining_seats || [],
+    revokedTickets: data.revoked_tickets || 0,
+    bookingCancelled: data.booking_cancelled,
+    refundId: data.refund_id || null,
+    refundAmount: Number(data.refund_amount || 0),
+    refundPercent: data.refund_percent ?? null,
+    waitlistOffers: data.waitlist_offers || 0
+  }
+
+  await logBookingCancellation(bookingId, showTitle, performedBy, {
+    reason,
+    cancelled_seats: result.cancelledSeats,
+    remaining_seats: result.remainingSeats,
+    revoked_tickets: result.revokedTickets,
+    partial: !result.bookingCancelled,
+    refund_id: result.refundId,
+    refund_amount: result.refundAmount,
+    refund_percent: result.refundPercent,
+    waitlist_offers: result.waitlistOffers
+  })
+
+  return result
+}
@@ -0,0 +1,222 @@
+import { format } from 'date-fns'
+import { supabase, CashShift, PaymentMethod } from '../lib/supabase'
+import { logActivity } from './activityLogger'
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from './payments'
+
+export type CashShiftErrorCode = 'SHIFT_NOT_FOUND' | 'SHIFT_CLOSED' | 'INVALID_COUNT'
+
+// What a shift should hold, worked out by cash_shift_totals() in add-cash-shifts.sql
+export interface CashShiftTotals {
+  expectedTotals: Partial<Record<PaymentMethod, number>>
+  bookings: number
+  cashRefunds: number
+  expectedCash: number // Opening float plus cash taken less cash refunds paid
+}
+
+export type CloseCashShiftResult =
+  | ({ success: true; countedCash: number; variance: number } & CashShiftTotals)
+  | { success: false; errorCode: CashShiftErrorCode; error: string }
+
+interface ShiftStaff {
+  email: string
+  full_name?: string
+}
+
+// Anything not to the paisa is a discrepancy for the admin to look at
+export const hasCashDiscrepancy = (shift: Pick<CashShift, 'variance'>) =>
+  shift.variance !== null && Math.abs(Number(shift.variance)) >= 0.01
+
+export const describeVariance = (variance: number) =>
+  Math.abs(variance) < 0.01
+    ? 'Balanced'
+    : variance < 0
+      ? `₹${Math.abs(variance).toLocaleString()} short`
+      : `₹${variance.toLocaleString()} over`
+
+const toTotals = (data: any): CashShiftTotals => ({
+  expectedTotals: data.expected_totals || {},
+  bookings: data.bookings || 0,
+  cashRefunds: Number(data.cash_refunds || 0),
+  expectedCash: Number(data.expected_cash || 0)
+})
+
+export const fetchOpenShift = async (staffEmail: string): Promise<CashShift | null> => {
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .select('*')
+    .eq('staff_email', staffEmail)
+    .eq('status', 'OPEN')
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+export const openCashShift = async (staff: ShiftStaff, openingFloat: number) => {
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .insert([{
+      staff_email: staff.email,
+      staff_name: staff.full_name || null,
+      opening_float: openingFloat
+    }])
+    .select()
+    .single()
+
+  if (error) {
+    // 23505 is the one-open-shift-per-staff index
+    if (error.code === '23505') {
+      throw new Error('You already have an open shift')
+    }
+    throw error
+  }
+
+  await logActivity({
+    action: 'OPEN',
+    entityType: 'SHIFT',
+    entityId: data.id,
+    entityName: staff.full_name || staff.email,
+    details: { opening_float: openingFloat },
+    performedBy: staff.email
+  })
+
+  return data as CashShift
+}
+
+export const fetchCashShiftTotals = async (shiftId: string): Promise<CashShiftTotals> => {
+  const { data, error } = await supabase.rpc('cash_shift_totals', {
+    p_shift_id: shiftId
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    throw new Error(data.error || 'Could not work out the shift totals')
+  }
+
+  return toTotals(data)
+}
+
+export const closeCashShift = async (
+  shift: CashShift,
+  countedCash: number,
+  notes: string,
+  performedBy: string
+): Promise<CloseCashShiftResult> => {
+  const { data, error } = await supabase.rpc('close_cash_shift', {
+    p_shift_id: shift.id,
+    p_counted_cash: countedCash,
+    p_notes: notes || null
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    return {
+      success: false,
+      errorCode: data.error_code,
+      error: data.error || 'Could not close the shift'
+    }
+  }
+
+  const totals = toTotals(data)
+  const variance = Number(data.variance)
+
+  await logActivity({
+    action: 'CLOSE',
+    entityType: 'SHIFT',
+    entityId: shift.id,
+    entityName: shift.staff_name || shift.staff_email,
+    details: {
+      opening_float: Number(shift.opening_float),
+      expected_totals: totals.expectedTotals,
+      expected_cash: totals.expectedCash,
+      counted_cash: countedCash,
+      variance,
+      closed_for: performedBy !== shift.staff_email ? shift.staff_email : undefined,
+      notes: notes || null
+    },
+    performedBy
+  })
+
+  return { success: true, countedCash, variance, ...totals }
+}
+
+// Every shift, newest first, for the admin view
+export const fetchCashShifts = async (): Promise<CashShift[]> => {
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .select('*')
+    .order('opened_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Opens the closing report for a closed shift in a print window, the same
+// way invoices are printed
+export const printCashShiftReport = (shift: CashShift) => {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) return
+
+  const money = (amount: number) => `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+  const totals = shift.expected_totals || {}
+  const variance = Number(shift.variance || 0)
+
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Shift Report - ${shift.staff_name || shift.staff_email}</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0; padding: 32px; color: #111827; max-width: 480px; }
+          .title { font-size: 24px; font-weight: bold; }
+          .muted { color: #6b7280; font-size: 14px; }
+          h2 { font-size: 16px; margin: 24px 0 8px; border-bottom: 2px solid #111827; padding-bottom: 4px; }
+          .row { display: flex; justify-content: space-between; padding: 4px 0; font-size: 14px; }
+          .total { border-top: 1px solid #e5e7eb; font-weight: bold; margin-top: 4px; }
+          .short { color: #dc2626; }
+          .signature { margin-top: 48px; display: flex; justify-content: space-between; font-size: 12px; color: #6b7280; }
+          .signature div { border-top: 1px solid #111827; width: 45%; padding-top: 4px; }
+        </style>
+      </head>
+      <body>
+        <div class="title">KALARI BOOKING</div>
+        <div class="muted">Cash Drawer Closing Report</div>
+
+        <h2>Shift</h2>
+        <div class="row"><span>Staff</span><span>${shift.staff_name || shift.staff_email}</span></div>
+        <div class="row"><span>Opened</span><span>${format(new Date(shift.opened_at), 'MMM dd, yyyy h:mm a')}</span></div>
+        <div class="row"><span>Closed</span><span>${shift.closed_at ? format(new Date(shift.closed_at), 'MMM dd, yyyy h:mm a') : 'Open'}</span></div>
+        ${shift.closed_by && shift.closed_by !== shift.staff_email ? `<div class="row"><span>Closed by</span><span>${shift.closed_by}</span></div>` : ''}
+        <div class="row"><span>Bookings taken</span><span>${shift.bookings || 0}</span></div>
+
+        <h2>Collected</h2>
+        ${PAYMENT_METHODS.map(method => `<div class="row"><span>${PAYMENT_METHOD_LABELS[method]}</span><span>${money(Number(totals[method] || 0))}</span></div>`).join('')}
+
+        <h2>Cash Drawer</h2>
+        <div class="row"><span>Opening float</span><span>${money(Number(shift.opening_float))}</span></div>
+        <div class="row"><span>Cash taken</span><span>${money(Number(totals.CASH || 0))}</span></div>
+        ${Number(shift.cash_refunds || 0) > 0 ? `<div class="row"><span>Cash refunds paid</span><span>-${money(Number(shift.cash_refunds))}</span></div>` : ''}
+        <div class="row total"><span>Expected in drawer</span><span>${money(Number(shift.expected_cash || 0))}</span></div>
+        <div class="row"><span>Counted</span><span>${money(Number(shift.counted_cash || 0))}</span></div>
+        <div class="row total ${variance < 0 ? 'short' : ''}"><span>Variance</span><span>${describeVariance(variance)}</span></div>
+        ${shift.notes ? `<p class="muted">Notes: ${shift.notes}</p>` : ''}
+
+        <div class="signature">
+          <div>Staff signature</div>
+          <div>Supervisor signature</div>
+        </div>
+
+        <script>
+          window.onload = function() {
+            setTimeout(function() {
+              window.print();
+            }, 500);
+          };
+        </script>
+      </body>
+    </html>
+  `)
+  printWindow.document.close()
+}
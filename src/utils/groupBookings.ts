@@ -0,0 +1,146 @@
+import { format, parseISO } from 'date-fns'
+import { Show, TicketCategory } from '../lib/supabase'
+import { TICKET_CATEGORY_LABELS } from './ticketCategories'
+
+type GroupRatedShow = Pick<Show, 'group_min_seats' | 'group_discount_percent'>
+
+// Mirrors book_seats_atomic in add-group-bookings-season-passes.sql: a group
+// booking gets the rate once it has at least group_min_seats seats
+export const qualifiesForGroupRate = (show: GroupRatedShow, seatCount: number) =>
+  !!show.group_discount_percent && seatCount >= (show.group_min_seats || 1)
+
+// Group rate taken off one ticket, rounded per ticket like the booking does
+export const getGroupRateShare = (show: GroupRatedShow, ticketPrice: number) =>
+  Math.round(ticketPrice * Number(show.group_discount_percent || 0)) / 100
+
+export const describeGroupRate = (show: GroupRatedShow) =>
+  show.group_discount_percent
+    ? `${Number(show.group_discount_percent)}% off for ${show.group_min_seats || 1}+ seats`
+    : 'No group rate'
+
+export interface GroupInvoice {
+  invoiceNumber: string
+  groupName: string
+  customerName?: string
+  issuedAt: string
+  show: Pick<Show, 'title' | 'date' | 'time'>
+  // price is what was charged; discount_amount is the group rate and promo
+  // discount taken off it
+  tickets: { seat_code: string; category?: TicketCategory | null; price: number; discount_amount?: number | null }[]
+  groupDiscount: number
+  promoCode?: string | null
+  promoDiscount: number
+}
+
+interface InvoiceLine {
+  category: TicketCategory
+  unitPrice: number
+  seats: string[]
+}
+
+// One line per category and list price so a block of 80 seats stays readable
+const groupInvoiceLines = (invoice: GroupInvoice): InvoiceLine[] => {
+  const lines = new Map<string, InvoiceLine>()
+  invoice.tickets.forEach(ticket => {
+    const category = ticket.category || 'ADULT'
+    const unitPrice = Number(ticket.price) + Number(ticket.discount_amount || 0)
+    const key = `${category}:${unitPrice}`
+    const line = lines.get(key) || { category, unitPrice, seats: [] }
+    line.seats.push(ticket.seat_code)
+    lines.set(key, line)
+  })
+  return Array.from(lines.values())
+}
+
+// Opens the invoice for a whole group booking in a print window, the same way
+// tickets are printed
+export const printGroupInvoice = (invoice: GroupInvoice) => {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) return
+
+  const lines = groupInvoiceLines(invoice)
+  const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.seats.length, 0)
+  const total = invoice.tickets.reduce((sum, ticket) => sum + Number(ticket.price), 0)
+  const money = (amount: number) => `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Invoice ${invoice.invoiceNumber}</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0; padding: 32px; color: #111827; }
+          .header { display: flex; justify-content: space-between; margin-bottom: 32px; }
+          .title { font-size: 24px; font-weight: bold; }
+          .muted { color: #6b7280; font-size: 14px; }
+          table { width: 100%; border-collapse: collapse; margin: 24px 0; font-size: 14px; }
+          th { text-align: left; border-bottom: 2px solid #111827; padding: 8px; }
+          td { border-bottom: 1px solid #e5e7eb; padding: 8px; vertical-align: top; }
+          .amount { text-align: right; white-space: nowrap; }
+          .seats { color: #6b7280; font-size: 12px; margin-top: 4px; }
+          .totals { margin-left: auto; width: 320px; font-size: 14px; }
+          .totals div { display: flex; justify-content: space-between; padding: 4px 0; }
+          .grand-total { border-top: 2px solid #111827; font-weight: bold; font-size: 16px; margin-top: 4px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <div>
+            <div class="title">KALARI BOOKING</div>
+            <div class="muted">Tax Invoice</div>
+          </div>
+          <div style="text-align: right">
+            <div><strong>${invoice.invoiceNumber}</strong></div>
+            <div class="muted">${format(new Date(invoice.issuedAt), 'MMM dd, yyyy h:mm a')}</div>
+          </div>
+        </div>
+
+        <div><strong>Billed to:</strong> ${invoice.groupName}</div>
+        ${invoice.customerName ? `<div class="muted">Contact: ${invoice.customerName}</div>` : ''}
+        <div class="muted" style="margin-top: 8px">
+          ${invoice.show.title} · ${format(parseISO(invoice.show.date), 'MMM dd, yyyy')} at ${format(new Date(`2000-01-01T${invoice.show.time}`), 'h:mm a')}
+        </div>
+
+        <table>
+          <thead>
+            <tr>
+              <th>Description</th>
+              <th class="amount">Qty</th>
+              <th class="amount">Unit Price</th>
+              <th class="amount">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${lines.map(line => `
+            <tr>
+              <td>
+                ${TICKET_CATEGORY_LABELS[line.category]} ticket
+                <div class="seats">${line.seats.join(', ')}</div>
+              </td>
+              <td class="amount">${line.seats.length}</td>
+              <td class="amount">${money(line.unitPrice)}</td>
+              <td class="amount">${money(line.unitPrice * line.seats.length)}</td>
+            </tr>
+            `).join('')}
+          </tbody>
+        </table>
+
+        <div class="totals">
+          <div><span>Subtotal</span><span>${money(subtotal)}</span></div>
+          ${invoice.groupDiscount > 0 ? `<div><span>Group rate</span><span>-${money(invoice.groupDiscount)}</span></div>` : ''}
+          ${invoice.promoDiscount > 0 ? `<div><span>Promo ${invoice.promoCode || ''}</span><span>-${money(invoice.promoDiscount)}</span></div>` : ''}
+          <div class="grand-total"><span>Total (${invoice.tickets.length} seats)</span><span>${money(total)}</span></div>
+        </div>
+
+        <script>
+          window.onload = function() {
+            setTimeout(function() {
+              window.print();
+            }, 500);
+          };
+        </script>
+      </body>
+    </html>
+  `)
+  printWindow.document.close()
+}
@@ -0,0 +1,149 @@
+import { LayoutStructure } from '../lib/supabase'
+import {
+  LAYOUT_STRUCTURE_VERSION,
+  parseLayoutStructure,
+  validateLayoutStructure,
+  getLayoutCapacity
+} from './layoutStructure'
+
+// The sample layout supabase-schema.sql creates, in the version 1 format
+const MAIN_HALL_V1 = {
+  sections: [
+    { name: 'North', rows: 5, seatsPerRow: 10, price: 100 },
+    { name: 'South', rows: 5, seatsPerRow: 10, price: 100 },
+    { name: 'East', rows: 3, seatsPerRow: 8, price: 150 },
+    { name: 'West', rows: 3, seatsPerRow: 8, price: 150 }
+  ]
+}
+
+const validLayout = (): LayoutStructure => ({
+  version: 2,
+  sections: [
+    { name: 'Front', tier: 'VIP', rows: [{ rowNumber: 1, seats: 4 }, { rowNumber: 2, seats: 6 }] },
+    { name: 'Back', rows: [{ rowNumber: 1, seats: 8 }] }
+  ],
+  tiers: [{ name: 'VIP', price: 500 }],
+  canvas: {
+    width: 40,
+    height: 30,
+    features: [{ id: 'stage', type: 'STAGE', label: 'Stage', x: 10, y: 0, width: 20, height: 4 }]
+  }
+})
+
+describe('parseLayoutStructure', () => {
+  it('upgrades version 1 layouts to a row per seat count', () => {
+    const structure = parseLayoutStructure(MAIN_HALL_V1)
+
+    expect(structure.version).toBe(LAYOUT_STRUCTURE_VERSION)
+    expect(structure.sections.map(section => section.name)).toEqual(['North', 'South', 'East', 'West'])
+    expect(structure.sections[2].rows).toEqual([
+      { rowNumber: 1, seats: 8 },
+      { rowNumber: 2, seats: 8 },
+      { rowNumber: 3, seats: 8 }
+    ])
+    expect(getLayoutCapacity(structure)).toBe(148)
+    expect(validateLayoutStructure(structure)).toEqual([])
+  })
+
+  it('keeps a current layout as it is', () => {
+    expect(parseLayoutStructure(validLayout())).toEqual(validLayout())
+  })
+
+  it('renumbers rows and drops counts that are not whole seats', () => {
+    const structure = parseLayoutStructure({
+      sections: [{ name: 'Side', rows: [{ rowNumber: 4, seats: 3.7 }, { seats: 'x' }, null] }]
+    })
+
+    expect(structure.sections[0].rows).toEqual([
+      { rowNumber: 1, seats: 3 },
+      { rowNumber: 2, seats: 0 },
+      { rowNumber: 3, seats: 0 }
+    ])
+  })
+
+  it('reads anything that is not a layout as an empty one', () => {
+    for (const raw of [null, undefined, 'North', 42, [], { sections: 'North' }]) {
+      expect(parseLayoutStructure(raw)).toEqual({ version: LAYOUT_STRUCTURE_VERSION, sections: [] })
+    }
+  })
+
+  it('fills in missing names, prices and feature ids, and drops unknown features', () => {
+    const structure = parseLayoutStructure({
+      sections: [{ rows: 1, seatsPerRow: 2 }],
+      tiers: [{ name: 'Balcony' }, 'VIP'],
+      canvas: {
+        width: 20,
+        height: 10,
+        features: [
+          { type: 'AISLE', x: 2, y: 3, width: 1, height: 5 },
+          { type: 'FOUNTAIN', x: 0, y: 0, width: 1, height: 1 },
+          'STAGE'
+        ]
+      }
+    })
+
+    expect(structure.sections[0].name).toBe('')
+    expect(structure.tiers).toEqual([{ name: 'Balcony', price: 0 }, { name: '', price: 0 }])
+    expect(structure.canvas?.features).toEqual([
+      { id: 'feature-1', type: 'AISLE', label: '', x: 2, y: 3, width: 1, height: 5 }
+    ])
+  })
+})
+
+describe('validateLayoutStructure', () => {
+  it('accepts a valid layout', () => {
+    expect(validateLayoutStructure(validLayout())).toEqual([])
+  })
+
+  it('needs at least one section', () => {
+    expect(validateLayoutStructure({ version: 2, sections: [] })).toEqual(['A layout needs at least one section'])
+  })
+
+  it('needs named, distinct sections', () => {
+    const structure = validLayout()
+    structure.sections[1].name = ' front '
+    expect(validateLayoutStructure(structure)).toEqual(['Section name " front " is used more than once'])
+
+    structure.sections[1].name = ''
+    expect(validateLayoutStructure(structure)).toEqual(['Section 2 has no name'])
+  })
+
+  it('needs between 1 and 26 rows, each with a seat', () => {
+    const structure = validLayout()
+    structure.sections[0].rows = []
+    structure.sections[1].rows = Array.from({ length: 27 }, (_, index) => ({ rowNumber: index + 1, seats: 1 }))
+    structure.sections[1].rows[1].seats = 0
+
+    expect(validateLayoutStructure(structure)).toEqual([
+      'Front has no rows',
+      'Back has more than 26 rows',
+      'Back row B needs at least one seat'
+    ])
+  })
+
+  it('checks price tiers and the sections that use them', () => {
+    const structure = validLayout()
+    structure.tiers = [{ name: 'VIP', price: -1 }, { name: 'VIP', price: 100 }, { name: ' ', price: 50 }]
+    structure.sections[1].tier = 'Balcony'
+
+    expect(validateLayoutStructure(structure)).toEqual([
+      'Price tier "VIP" needs a price of 0 or more',
+      'Price tier "VIP" is used more than once',
+      'Tier 3 has no name',
+      'Back uses price tier "Balcony", which does not exist'
+    ])
+  })
+
+  it('keeps canvas areas on the canvas', () => {
+    const structure = validLayout()
+    structure.canvas!.features.push(
+      { id: 'pillar', type: 'BLOCKED', label: 'Pillar', x: 38, y: 10, width: 4, height: 2 },
+      { id: 'aisle', type: 'AISLE', label: '', x: 5, y: 5, width: 0, height: 10 }
+    )
+
+    expect(validateLayoutStructure(structure)).toEqual([
+      'Area "Pillar" extends past the edge of the canvas',
+      'Area "aisle" has no size'
+    ])
+  })
+})
@@ -0,0 +1,207 @@
+import { LayoutCanvas, LayoutFeature, LayoutPriceTier, LayoutSection, LayoutStructure } from '../lib/supabase'
+
+export const LAYOUT_STRUCTURE_VERSION = 2
+
+const toCount = (value: unknown): number => {
+  const count = Number(value)
+  return Number.isFinite(count) && count > 0 ? Math.floor(count) : 0
+}
+
+// Stored structures are JSON of any past version, so nothing about their
+// shape is taken on trust
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const toText = (value: unknown): string => typeof value === 'string' ? value : ''
+
+const migrateSection = (section: unknown): LayoutSection => {
+  const fields = isRecord(section) ? section : {}
+  const name = toText(fields.name)
+
+  if (Array.isArray(fields.rows)) {
+    const migrated: LayoutSection = {
+      name,
+      rows: fields.rows.map((row: unknown, index: number) => ({
+        rowNumber: index + 1,
+        seats: toCount(isRecord(row) ? row.seats : undefined)
+      }))
+    }
+    if (typeof fields.tier === 'string' && fields.tier) {
+      migrated.tier = fields.tier
+    }
+    return migrated
+  }
+
+  // Version 1: rows is a count and every row has seatsPerRow seats
+  const seatsPerRow = toCount(fields.seatsPerRow)
+  return {
+    name,
+    rows: Array.from({ length: toCount(fields.rows) }, (_, index) => ({
+      rowNumber: index + 1,
+      seats: seatsPerRow
+    }))
+  }
+}
+
+const migrateTiers = (tiers: unknown): LayoutPriceTier[] | undefined => {
+  if (!Array.isArray(tiers)) return undefined
+
+  return tiers.map((tier: unknown) => {
+    const fields = isRecord(tier) ? tier : {}
+    return {
+      name: toText(fields.name),
+      price: Number(fields.price) || 0
+    }
+  })
+}
+
+const FEATURE_TYPES: LayoutFeature['type'][] = ['STAGE', 'AISLE', 'BLOCKED']
+
+type StoredFeature = Record<string, unknown> & { type: LayoutFeature['type'] }
+
+const isStoredFeature = (value: unknown): value is StoredFeature =>
+  isRecord(value) && FEATURE_TYPES.some(type => type === value.type)
+
+const migrateCanvas = (canvas: unknown): LayoutCanvas | undefined => {
+  if (!isRecord(canvas)) return undefined
+
+  const features = Array.isArray(canvas.features) ? canvas.features : []
+  return {
+    width: toCount(canvas.width),
+    height: toCount(canvas.height),
+    features: features
+      .filter(isStoredFeature)
+      .map((feature, index) => ({
+        id: typeof feature.id === 'string' ? feature.id : `feature-${index + 1}`,
+        type: feature.type,
+        label: toText(feature.label),
+        x: Number(feature.x) || 0,
+        y: Number(feature.y) || 0,
+        width: toCount(feature.width),
+        height: toCount(feature.height)
+      }))
+  }
+}
+
+// Reads a stored structure of any version into the current model.
+// Never throws; run validateLayoutStructure on the result before saving.
+export const parseLayoutStructure = (raw: unknown): LayoutStructure => {
+  const fields = isRecord(raw) ? raw : {}
+  const sections = Array.isArray(fields.sections) ? fields.sections : []
+
+  const structure: LayoutStructure = {
+    version: LAYOUT_STRUCTURE_VERSION,
+    sections: sections.map(migrateSection)
+  }
+
+  const tiers = migrateTiers(fields.tiers)
+  if (tiers) {
+    structure.tiers = tiers
+  }
+
+  const canvas = migrateCanvas(fields.canvas)
+  if (canvas) {
+    structure.canvas = canvas
+  }
+
+  return structure
+}
+
+// Returns a list of problems; an empty list means the structure is valid
+export const validateLayoutStructure = (structure: LayoutStructure): string[] => {
+  const errors: string[] = []
+  const names = new Set<string>()
+
+  if (structure.sections.length === 0) {
+    errors.push('A layout needs at least one section')
+  }
+
+  const tierNames = new Set<string>()
+  structure.tiers?.forEach((tier, index) => {
+    const label = tier.name.trim() || `Tier ${index + 1}`
+
+    if (!tier.name.trim()) {
+      errors.push(`${label} has no name`)
+    } else if (tierNames.has(tier.name.trim())) {
+      errors.push(`Price tier "${tier.name}" is used more than once`)
+    }
+    tierNames.add(tier.name.trim())
+
+    if (!Number.isFinite(tier.price) || tier.price < 0) {
+      errors.push(`Price tier "${label}" needs a price of 0 or more`)
+    }
+  })
+
+  structure.sections.forEach((section, index) => {
+    const label = section.name.trim() || `Section ${index + 1}`
+
+    if (section.tier && !tierNames.has(section.tier)) {
+      errors.push(`${label} uses price tier "${section.tier}", which does not exist`)
+    }
+
+    if (!section.name.trim()) {
+      errors.push(`${label} has no name`)
+    } else if (names.has(section.name.trim().toLowerCase())) {
+      errors.push(`Section name "${section.name}" is used more than once`)
+    }
+    names.add(section.name.trim().toLowerCase())
+
+    if (section.rows.length === 0) {
+      errors.push(`${label} has no rows`)
+    }
+    if (section.rows.length > 26) {
+      errors.push(`${label} has more than 26 rows`)
+    }
+
+    section.rows.forEach((row, rowIndex) => {
+      if (!Number.isInteger(row.seats) || row.seats < 1) {
+        errors.push(`${label} row ${getRowLetter(rowIndex)} needs at least one seat`)
+      }
+    })
+  })
+
+  structure.canvas?.features.forEach(feature => {
+    const label = feature.label || feature.type.toLowerCase()
+    if (feature.width < 1 || feature.height < 1) {
+      errors.push(`Area "${label}" has no size`)
+    } else if (
+      feature.x < 0 || feature.y < 0 ||
+      feature.x + feature.width > structure.canvas!.width ||
+      feature.y + feature.height > structure.canvas!.height
+    ) {
+      errors.push(`Area "${label}" extends past the edge of the canvas`)
+    }
+  })
+
+  return errors
+}
+
+// Rows are lettered A, B, C... from the stage outwards
+export const getRowLetter = (rowIndex: number) => String.fromCharCode(65 + rowIndex)
+
+// Seat codes are what bookings and tickets store, e.g. North-A-12
+export const getSeatCode = (sectionName: string, rowIndex: number, seatNumber: number) =>
+  `${sectionName}-${getRowLetter(rowIndex)}-${seatNumber}`
+
+// Splits a seat code back into its parts; null for codes in any other format
+export const parseSeatCode = (seatCode: string) => {
+  const match = seatCode.match(/^(.+)-([A-Z])-(\d+)$/)
+  if (!match) return null
+  return {
+    section: match[1],
+    rowIndex: match[2].charCodeAt(0) - 65,
+    seatNumber: parseInt(match[3])
+  }
+}
+
+export const getSectionCapacity = (section: LayoutSection) =>
+  section.rows.reduce((sum, row) => sum + row.seats, 0)
+
+export const getSectionMaxRowSeats = (section: LayoutSection) =>
+  section.rows.reduce((max, row) => Math.max(max, row.seats), 0)
+
+export const getLayoutCapacity = (structure: LayoutStructure) =>
+  structure.sections.reduce((total, section) => total + getSectionCapacity(section), 0)
+
+export const findSection = (structure: LayoutStructure, name: string): LayoutSection | undefined =>
+  structure.sections.find(section => section.name === name)
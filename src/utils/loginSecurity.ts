@@ -0,0 +1,40 @@
+import { supabase, LoginAttempt } from '../lib/supabase'
+import { logActivity } from './activityLogger'
+
+export const LOGIN_FAILURE_LABELS: Record<NonNullable<LoginAttempt['failure_reason']>, string> = {
+  INVALID_CREDENTIALS: 'Wrong password',
+  LOCKED: 'Account locked'
+}
+
+export const isLocked = (member: { locked_until: string | null }) =>
+  !!member.locked_until && new Date(member.locked_until).getTime() > Date.now()
+
+export const fetchLoginHistory = async (userId: string, limit = 50): Promise<LoginAttempt[]> => {
+  const { data, error } = await supabase
+    .from('login_attempts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return data || []
+}
+
+// Lifts a lockout, and clears the failures that led to it
+export const unlockUser = async (member: { id: string; email: string }, performedBy: string) => {
+  const { error } = await supabase
+    .from('users')
+    .update({ failed_login_count: 0, locked_until: null })
+    .eq('id', member.id)
+
+  if (error) throw error
+
+  await logActivity({
+    action: 'UNLOCK',
+    entityType: 'USER',
+    entityId: member.id,
+    entityName: member.email,
+    performedBy
+  })
+}
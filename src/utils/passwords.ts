@@ -0,0 +1,55 @@
+import { supabase } from '../lib/supabase'
+import { logActivity } from './activityLogger'
+
+// Mirrors private.password_policy_error, which has the final say
+export const PASSWORD_MIN_LENGTH = 10
+export const PASSWORD_POLICY_HINT = `At least ${PASSWORD_MIN_LENGTH} characters, with letters and numbers, and not your email address`
+
+export const passwordPolicyError = (password: string, email: string): string | null => {
+  const emailName = email.split('@')[0].toLowerCase()
+
+  if (password.length < PASSWORD_MIN_LENGTH) return `Passwords need at least ${PASSWORD_MIN_LENGTH} characters`
+  if (!/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) return 'Passwords need both letters and numbers'
+  if (emailName.length >= 3 && password.toLowerCase().includes(emailName)) {
+    return "Passwords can't contain your email address"
+  }
+  return null
+}
+
+export const resetLink = (token: string) =>
+  `${window.location.origin}/reset-password?token=${encodeURIComponent(token)}`
+
+// Starts a reset for a user and returns the one-time link to pass on to them
+export const createPasswordReset = async (
+  member: { id: string; email: string },
+  performedBy: string
+): Promise<{ link: string; expiresAt: string }> => {
+  const { data, error } = await supabase.rpc('create_password_reset', { p_user_id: member.id })
+
+  if (error) throw error
+  if (!data.success) throw new Error(data.error || 'Failed to reset the password')
+
+  await logActivity({
+    action: 'RESET_PASSWORD',
+    entityType: 'USER',
+    entityId: member.id,
+    entityName: member.email,
+    details: { expires_at: data.expires_at },
+    performedBy
+  })
+
+  return { link: resetLink(data.token), expiresAt: data.expires_at }
+}
+
+// Sets a new password with a reset link's token, returning whose it was
+export const resetPasswordWithToken = async (token: string, password: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('reset_password_with_token', {
+    p_token: token,
+    p_new_password: password
+  })
+
+  if (error) throw error
+  if (!data.success) throw new Error(data.error || 'Failed to reset the password')
+
+  return data.email
+}
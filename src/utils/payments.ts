@@ -0,0 +1,89 @@
+import { Payment, PaymentMethod } from '../lib/supabase'
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'UPI', 'CARD', 'VOUCHER']
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  CASH: 'Cash',
+  UPI: 'UPI',
+  CARD: 'Card',
+  VOUCHER: 'Voucher'
+}
+
+// Methods staff must enter a reference for: the UPI transaction id, card
+// slip number or voucher code
+export const PAYMENT_METHODS_NEEDING_REFERENCE: PaymentMethod[] = ['UPI', 'CARD', 'VOUCHER']
+
+// A payment as entered at the counter, before it is sent with the booking
+export interface PaymentInput {
+  method: PaymentMethod
+  amount: number
+  reference?: string
+}
+
+export type PaymentErrorCode = 'INVALID_PAYMENT' | 'PAYMENT_MISMATCH'
+
+// Amounts are compared in paise so split payments like 333.33 + 666.67 add up
+export const paymentsMatchTotal = (payments: Pick<PaymentInput, 'amount'>[], total: number) =>
+  Math.round(payments.reduce((sum, payment) => sum + payment.amount, 0) * 100) === Math.round(total * 100)
+
+// Problems with payments entered at the counter, for display before booking
+export const validatePayments = (payments: PaymentInput[], total: number): string | null => {
+  if (payments.some(payment => !(payment.amount > 0))) {
+    return 'Every payment needs an amount above zero'
+  }
+  const missingReference = payments.find(payment =>
+    PAYMENT_METHODS_NEEDING_REFERENCE.includes(payment.method) && !payment.reference?.trim()
+  )
+  if (missingReference) {
+    return `Enter the reference for the ${PAYMENT_METHOD_LABELS[missingReference.method]} payment`
+  }
+  if (!paymentsMatchTotal(payments, total)) {
+    return `Payments must add up to ₹${total.toLocaleString()}`
+  }
+  return null
+}
+
+export interface PaymentMethodTotal {
+  method: PaymentMethod
+  payments: number
+  amount: number
+}
+
+// Collected amounts per method, in PAYMENT_METHODS order
+export const summarizeByPaymentMethod = (payments: Pick<Payment, 'method' | 'amount'>[]): PaymentMethodTotal[] => {
+  const totals = new Map<PaymentMethod, PaymentMethodTotal>()
+
+  payments.forEach(payment => {
+    const entry = totals.get(payment.method) || { method: payment.method, payments: 0, amount: 0 }
+    entry.payments += 1
+    entry.amount += Number(payment.amount)
+    totals.set(payment.method, entry)
+  })
+
+  return PAYMENT_METHODS
+    .filter(method => totals.has(method))
+    .map(method => totals.get(method)!)
+}
+
+export interface CollectorCash {
+  collectedBy: string
+  cash: number
+  other: number
+}
+
+// Cash each staff member should be holding, with everything else they took
+export const summarizeByCollector = (payments: Pick<Payment, 'method' | 'amount' | 'collected_by'>[]): CollectorCash[] => {
+  const totals = new Map<string, CollectorCash>()
+
+  payments.forEach(payment => {
+    const entry = totals.get(payment.collected_by) || { collectedBy: payment.collected_by, cash: 0, other: 0 }
+    if (payment.method === 'CASH') {
+      entry.cash += Number(payment.amount)
+    } else {
+      entry.other += Number(payment.amount)
+    }
+    totals.set(payment.collected_by, entry)
+  })
+
+  return Array.from(totals.values()).sort((a, b) => b.cash - a.cash)
+}
@@ -0,0 +1,114 @@
+import { supabase, Permission, Role } from '../lib/supabase'
+import { logActivity } from './activityLogger'
+
+export const ADMIN_ROLE = 'admin'
+
+// Grouped the way the role editor lists them
+export const PERMISSION_GROUPS: { name: string; permissions: { key: Permission; label: string }[] }[] = [
+  {
+    name: 'Shows',
+    permissions: [
+      { key: 'show.edit', label: 'Add, edit and delete shows' },
+      { key: 'show.cancel', label: 'Cancel and reschedule shows' },
+      { key: 'layout.edit', label: 'Design layouts' }
+    ]
+  },
+  {
+    name: 'Box office',
+    permissions: [
+      { key: 'booking.create', label: 'Sell tickets' },
+      { key: 'booking.cancel', label: 'Cancel bookings' },
+      { key: 'ticket.view', label: 'See ticket history' },
+      { key: 'ticket.checkin', label: 'Check tickets in' },
+      { key: 'cash.shift', label: 'Run a cash drawer' }
+    ]
+  },
+  {
+    name: 'Customers',
+    permissions: [
+      { key: 'customer.view', label: 'See customers' },
+      { key: 'customer.edit', label: 'Edit customers and sell season passes' }
+    ]
+  },
+  {
+    name: 'Money and reports',
+    permissions: [
+      { key: 'promo.edit', label: 'Manage promo codes' },
+      { key: 'refund.approve', label: 'Approve refunds' },
+      { key: 'cash.manage', label: 'See and close every cash shift' },
+      { key: 'report.view', label: 'See the dashboard, reports and analytics' }
+    ]
+  },
+  {
+    name: 'Administration',
+    permissions: [
+      { key: 'settings.edit', label: 'Change venues and settings' },
+      { key: 'staff.manage', label: 'Add staff and change their roles' }
+    ]
+  }
+]
+
+// A role name from its label, e.g. "Box Office" becomes box-office
+export const roleNameFromLabel = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+
+export const fetchRoles = async (): Promise<Role[]> => {
+  const { data, error } = await supabase
+    .from('roles')
+    .select('*, role_permissions(permission)')
+    .order('created_at')
+    .order('label')
+
+  if (error) throw error
+
+  return (data || []).map(({ role_permissions, ...role }: any) => ({
+    ...role,
+    permissions: (role_permissions || []).map((row: { permission: Permission }) => row.permission)
+  }))
+}
+
+export const saveRole = async (
+  role: Pick<Role, 'name' | 'label' | 'description' | 'permissions'>,
+  isNew: boolean,
+  performedBy: string
+) => {
+  const { data, error } = await supabase.rpc('save_role', {
+    p_name: role.name,
+    p_label: role.label,
+    p_description: role.description,
+    p_permissions: role.permissions
+  })
+
+  if (error) throw error
+  if (!data.success) throw new Error(data.error || 'Failed to save the role')
+
+  await logActivity({
+    action: isNew ? 'CREATE' : 'UPDATE',
+    entityType: 'ROLE',
+    entityName: role.label,
+    details: { name: role.name, permissions: role.permissions },
+    performedBy
+  })
+}
+
+export const deleteRole = async (role: Role, performedBy: string) => {
+  const { error } = await supabase
+    .from('roles')
+    .delete()
+    .eq('name', role.name)
+
+  if (error) {
+    if (error.code === '23503') {
+      throw new Error(`Move everyone with the ${role.label} role to another role first`)
+    }
+    throw error
+  }
+
+  await logActivity({
+    action: 'DELETE',
+    entityType: 'ROLE',
+    entityName: role.label,
+    details: { name: role.name },
+    performedBy
+  })
+}
@@ -0,0 +1,205 @@
+import { supabase, Booking, PromoCode, PromoDiscountType } from '../lib/supabase'
+import { logActivity } from './activityLogger'
+
+export type PromoErrorCode =
+  | 'PROMO_NOT_FOUND'
+  | 'PROMO_INACTIVE'
+  | 'PROMO_EXPIRED'
+  | 'PROMO_NOT_VALID_FOR_SHOW'
+  | 'PROMO_USAGE_LIMIT'
+  | 'PROMO_CUSTOMER_REQUIRED'
+  | 'PROMO_CUSTOMER_LIMIT'
+
+export const PROMO_ERROR_CODES: PromoErrorCode[] = [
+  'PROMO_NOT_FOUND',
+  'PROMO_INACTIVE',
+  'PROMO_EXPIRED',
+  'PROMO_NOT_VALID_FOR_SHOW',
+  'PROMO_USAGE_LIMIT',
+  'PROMO_CUSTOMER_REQUIRED',
+  'PROMO_CUSTOMER_LIMIT'
+]
+
+export type PromoValidationResult =
+  | {
+      success: true
+      promoCodeId: string
+      code: string
+      discountType: PromoDiscountType
+      discountValue: number
+      maxUsesPerCustomer: number | null
+      discountAmount: number
+    }
+  | {
+      success: false
+      errorCode: PromoErrorCode
+      error: string
+    }
+
+// Everything on a promo code the admin page edits
+export type PromoCodeInput = Omit<PromoCode, 'id' | 'created_by' | 'created_at' | 'show'>
+
+export interface PromoCodeUsage {
+  bookings: number
+  discount: number
+}
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase()
+
+export const describePromoDiscount = (promo: Pick<PromoCode, 'discount_type' | 'discount_value'>) =>
+  promo.discount_type === 'PERCENT' ? `${Number(promo.discount_value)}% off` : `₹${Number(promo.discount_value)} off`
+
+// Mirrors the discount worked out in validate_promo_code() in add-promo-codes.sql
+export const getPromoDiscount = (discountType: PromoDiscountType, discountValue: number, subtotal: number) =>
+  discountType === 'PERCENT'
+    ? Math.round(subtotal * discountValue) / 100
+    : Math.min(discountValue, subtotal)
+
+// Checks a code for the counter before booking. book_seats_atomic runs the
+// same check again when the seats are booked, so this is only a preview of
+// the discount.
+export const validatePromoCode = async (
+  code: string,
+  showId: string,
+  customerId: string | undefined,
+  subtotal: number
+): Promise<PromoValidationResult> => {
+  const { data, error } = await supabase.rpc('validate_promo_code', {
+    p_code: normalizePromoCode(code),
+    p_show_id: showId,
+    p_customer_id: customerId || null,
+    p_subtotal: subtotal
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    return {
+      success: false,
+      errorCode: data.error_code,
+      error: data.error || 'Promo code not accepted'
+    }
+  }
+
+  return {
+    success: true,
+    promoCodeId: data.promo_code_id,
+    code: data.code,
+    discountType: data.discount_type,
+    discountValue: Number(data.discount_value),
+    maxUsesPerCustomer: data.max_uses_per_customer ?? null,
+    discountAmount: Number(data.discount_amount)
+  }
+}
+
+export const fetchPromoCodes = async (): Promise<PromoCode[]> => {
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select(`
+      *,
+      show:shows(id, title, date, time)
+    `)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Confirmed bookings and total discount given per promo code id
+export const fetchPromoCodeUsage = async (): Promise<{ [promoCodeId: string]: PromoCodeUsage }> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('promo_code_id, discount_amount')
+    .eq('status', 'CONFIRMED')
+    .not('promo_code_id', 'is', null)
+
+  if (error) throw error
+
+  const usage: { [promoCodeId: string]: PromoCodeUsage } = {}
+  data?.forEach(booking => {
+    const entry = usage[booking.promo_code_id] || { bookings: 0, discount: 0 }
+    entry.bookings += 1
+    entry.discount += Number(booking.discount_amount)
+    usage[booking.promo_code_id] = entry
+  })
+  return usage
+}
+
+// Creates the promo code, or updates it when id is given
+export const savePromoCode = async (input: PromoCodeInput, performedBy: string, id?: string) => {
+  const promo = { ...input, code: normalizePromoCode(input.code) }
+
+  const { data, error } = id
+    ? await supabase.from('promo_codes').update(promo).eq('id', id).select().single()
+    : await supabase.from('promo_codes').insert([{ ...promo, created_by: performedBy }]).select().single()
+
+  if (error) throw error
+
+  await logActivity({
+    action: id ? 'UPDATE' : 'CREATE',
+    entityType: 'PROMO_CODE',
+    entityId: data.id,
+    entityName: data.code,
+    details: promo,
+    performedBy
+  })
+
+  return data as PromoCode
+}
+
+export const setPromoCodeActive = async (promo: PromoCode, active: boolean, performedBy: string) => {
+  const { error } = await supabase
+    .from('promo_codes')
+    .update({ active })
+    .eq('id', promo.id)
+
+  if (error) throw error
+
+  await logActivity({
+    action: active ? 'ACTIVATE' : 'DEACTIVATE',
+    entityType: 'PROMO_CODE',
+    entityId: promo.id,
+    entityName: promo.code,
+    performedBy
+  })
+}
+
+// Bookings that used the code keep its text in bookings.promo_code
+export const deletePromoCode = async (promo: PromoCode, performedBy: string) => {
+  const { error } = await supabase
+    .from('promo_codes')
+    .delete()
+    .eq('id', promo.id)
+
+  if (error) throw error
+
+  await logActivity({
+    action: 'DELETE',
+    entityType: 'PROMO_CODE',
+    entityId: promo.id,
+    entityName: promo.code,
+    details: { discount: describePromoDiscount(promo) },
+    performedBy
+  })
+}
+
+export interface PromoBreakdown {
+  code: string
+  bookings: number
+  discount: number
+}
+
+// Bookings and discount per code, largest discount first
+export const summarizeByPromoCode = (bookings: Pick<Booking, 'promo_code' | 'discount_amount'>[]): PromoBreakdown[] => {
+  const totals = new Map<string, PromoBreakdown>()
+
+  bookings.forEach(booking => {
+    if (!booking.promo_code) return
+    const entry = totals.get(booking.promo_code) || { code: booking.promo_code, bookings: 0, discount: 0 }
+    entry.bookings += 1
+    entry.discount += Number(booking.discount_amount || 0)
+    totals.set(booking.promo_code, entry)
+  })
+
+  return Array.from(totals.values()).sort((a, b) => b.discount - a.discount)
+}
@@ -0,0 +1,168 @@
+import { supabase, PaymentMethod, Refund } from '../lib/supabase'
+import { logActivity } from './activityLogger'
+
+export interface RefundPolicyRule {
+  hoursBeforeShow: number // Applies when cancelling at least this many hours before the show
+  refundPercent: number
+}
+
+export interface RefundReview {
+  amount: number
+  method: PaymentMethod
+  note: string
+  paidBy: string // Staff member whose drawer pays a cash refund; their shift is short by it
+}
+
+export const REFUND_STATUS_LABELS: Record<Refund['status'], string> = {
+  PENDING: 'Pending',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected'
+}
+
+// Most notice first, the order refund_policy_percent() in add-refunds.sql
+// checks them in
+export const sortRefundPolicy = (rules: RefundPolicyRule[]) =>
+  [...rules].sort((a, b) => b.hoursBeforeShow - a.hoursBeforeShow)
+
+export const describeRefundPolicy = (rules: RefundPolicyRule[]) =>
+  rules.length === 0
+    ? 'No refunds'
+    : sortRefundPolicy(rules)
+        .map(rule => rule.hoursBeforeShow > 0
+          ? `${rule.refundPercent}% up to ${rule.hoursBeforeShow}h before the show`
+          : `${rule.refundPercent}% until the show starts`)
+        .join(', ')
+
+export const fetchRefundPolicy = async (): Promise<RefundPolicyRule[]> => {
+  const { data, error } = await supabase
+    .from('refund_policy_settings')
+    .select('rules')
+    .eq('id', 1)
+    .single()
+
+  if (error) throw error
+
+  return sortRefundPolicy((data.rules || []).map((rule: any) => ({
+    hoursBeforeShow: Number(rule.hours_before_show),
+    refundPercent: Number(rule.refund_percent)
+  })))
+}
+
+export const updateRefundPolicy = async (rules: RefundPolicyRule[], performedBy: string) => {
+  const sorted = sortRefundPolicy(rules)
+
+  const { error } = await supabase
+    .from('refund_policy_settings')
+    .update({
+      rules: sorted.map(rule => ({
+        hours_before_show: rule.hoursBeforeShow,
+        refund_percent: rule.refundPercent
+      })),
+      updated_by: performedBy,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', 1)
+
+  if (error) throw error
+
+  await logActivity({
+    action: 'UPDATE',
+    entityType: 'SETTINGS',
+    entityName: 'Refund policy',
+    details: { rules: sorted },
+    performedBy
+  })
+}
+
+export const fetchRefunds = async (): Promise<Refund[]> => {
+  const { data, error } = await supabase
+    .from('refunds')
+    .select(`
+      *,
+      show:shows(id, title, date, time)
+    `)
+    .order('requested_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Approved refunds, for taking off ticket sales. from and to limit them to
+// when the money was paid back.
+export const fetchApprovedRefunds = async (from?: string, to?: string): Promise<Pick<Refund, 'amount' | 'show_id' | 'reviewed_at'>[]> => {
+  let query = supabase
+    .from('refunds')
+    .select('amount, show_id, reviewed_at')
+    .eq('status', 'APPROVED')
+
+  if (from) query = query.gte('reviewed_at', from)
+  if (to) query = query.lte('reviewed_at', to)
+
+  const { data, error } = await query
+
+  if (error) throw error
+  return data || []
+}
+
+export const sumRefunds = (refunds: Pick<Refund, 'amount'>[]) =>
+  refunds.reduce((sum, refund) => sum + Number(refund.amount), 0)
+
+// Only pending refunds can be reviewed, so two admins can't pay the same
+// refund out twice. The database records whoever is signed in as the reviewer.
+const reviewRefund = async (refund: Refund, approve: boolean, review: Partial<RefundReview>) => {
+  const { data, error } = await supabase.rpc('review_refund', {
+    p_refund_id: refund.id,
+    p_approve: approve,
+    p_amount: review.amount,
+    p_method: review.method,
+    p_note: review.note || null,
+    p_paid_by: review.method === 'CASH' ? review.paidBy : null
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    throw new Error(data.error || 'Could not save the review')
+  }
+}
+
+export const approveRefund = async (refund: Refund, review: RefundReview, performedBy: string) => {
+  if (review.amount < 0 || review.amount > Number(refund.ticket_amount)) {
+    throw new Error(`Refund must be between ₹0 and ₹${Number(refund.ticket_amount).toLocaleString()}`)
+  }
+
+  await reviewRefund(refund, true, review)
+
+  await logActivity({
+    action: 'APPROVE',
+    entityType: 'REFUND',
+    entityId: refund.id,
+    entityName: `${refund.show?.title || 'Booking'} - ${refund.seat_codes.join(', ')}`,
+    details: {
+      booking_id: refund.booking_id,
+      amount: review.amount,
+      policy_amount: Number(refund.amount),
+      method: review.method,
+      paid_by: review.method === 'CASH' ? review.paidBy : undefined,
+      note: review.note || null
+    },
+    performedBy
+  })
+}
+
+export const rejectRefund = async (refund: Refund, note: string, performedBy: string) => {
+  await reviewRefund(refund, false, { note })
+
+  await logActivity({
+    action: 'REJECT',
+    entityType: 'REFUND',
+    entityId: refund.id,
+    entityName: `${refund.show?.title || 'Booking'} - ${refund.seat_codes.join(', ')}`,
+    details: {
+      booking_id: refund.booking_id,
+      policy_amount: Number(refund.amount),
+      note: note || null
+    },
+    performedBy
+  })
+}
@@ -0,0 +1,98 @@
+import { supabase, SeasonPass, Show } from '../lib/supabase'
+import { logActivity } from './activityLogger'
+
+export type SeasonPassErrorCode = 'SEASON_PASS_NOT_FOUND' | 'SEASON_PASS_INVALID' | 'SEASON_PASS_BALANCE'
+
+export interface SeasonPassInput {
+  customerId: string
+  customerName: string
+  name: string
+  admissions: number
+  validFrom: string | null
+  validUntil: string | null
+  price: number
+}
+
+// Mirrors season_pass_balance() in add-group-bookings-season-passes.sql.
+// Select passes with tickets(id, status) to use this.
+export const getSeasonPassBalance = (pass: SeasonPass) =>
+  pass.admissions - (pass.tickets || []).filter(ticket => ticket.status !== 'REVOKED').length
+
+// Whether the pass can pay for seatCount seats at this show; the booking
+// checks the same again
+export const canRedeemSeasonPass = (pass: SeasonPass, show: Pick<Show, 'date'>, seatCount: number) =>
+  pass.active &&
+  (!pass.valid_from || show.date >= pass.valid_from) &&
+  (!pass.valid_until || show.date <= pass.valid_until) &&
+  getSeasonPassBalance(pass) >= seatCount
+
+export const fetchCustomerSeasonPasses = async (customerId: string): Promise<SeasonPass[]> => {
+  const { data, error } = await supabase
+    .from('season_passes')
+    .select(`
+      *,
+      tickets(id, status)
+    `)
+    .eq('customer_id', customerId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+const generatePassCode = () =>
+  `SP-${Math.random().toString(36).slice(2, 8).toUpperCase()}`
+
+export const createSeasonPass = async (input: SeasonPassInput, performedBy: string) => {
+  const { data, error } = await supabase
+    .from('season_passes')
+    .insert([{
+      customer_id: input.customerId,
+      pass_code: generatePassCode(),
+      name: input.name,
+      admissions: input.admissions,
+      valid_from: input.validFrom,
+      valid_until: input.validUntil,
+      price: input.price,
+      created_by: performedBy
+    }])
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await logActivity({
+    action: 'CREATE',
+    entityType: 'SEASON_PASS',
+    entityId: data.id,
+    entityName: `${data.pass_code} - ${input.customerName}`,
+    details: {
+      name: input.name,
+      admissions: input.admissions,
+      valid_from: input.validFrom,
+      valid_until: input.validUntil,
+      price: input.price
+    },
+    performedBy
+  })
+
+  return data as SeasonPass
+}
+
+export const setSeasonPassActive = async (pass: SeasonPass, active: boolean, performedBy: string) => {
+  const { error } = await supabase
+    .from('season_passes')
+    .update({ active })
+    .eq('id', pass.id)
+
+  if (error) throw error
+
+  await logActivity({
+    action: active ? 'ACTIVATE' : 'DEACTIVATE',
+    entityType: 'SEASON_PASS',
+    entityId: pass.id,
+    entityName: pass.pass_code,
+    details: { balance: getSeasonPassBalance(pass) },
+    performedBy
+  })
+}
@@ -0,0 +1,142 @@
+import { supabase, TicketCategory } from '../lib/supabase'
+import { logBookingCreation } from './activityLogger'
+import { PaymentErrorCode, PaymentInput } from './payments'
+import { PromoErrorCode } from './promoCodes'
+import { SeasonPassErrorCode } from './seasonPasses'
+import { getTerminalId } from './seatHolds'
+
+export type BookSeatsErrorCode =
+  | 'SEAT_CONFLICT'
+  | 'SHOW_UNAVAILABLE'
+  | 'NO_SEATS'
+  | 'INVALID_CATEGORY'
+  | PromoErrorCode
+  | SeasonPassErrorCode
+  | PaymentErrorCode
+
+export interface BookSeatsParams {
+  showId: string
+  showTitle: string
+  seatCodes: string[]
+  seatCategories?: { [seatCode: string]: TicketCategory } // Seats left out are booked as ADULT
+  bookedBy: string // Customer name recorded on the booking
+  customerId?: string
+  promoCode?: string // Checked again and applied when the seats are booked
+  groupName?: string // Books the seats as one group booking with an invoice
+  seasonPassId?: string // Pays for every seat from the customer's season pass
+  payments?: PaymentInput[] // Recorded with the booking; must add up to the total
+  waitlistEntryId?: string // The waitlist offer the seats were claimed from
+  performedBy: string // Staff member issuing the tickets, for the booking log; the database records the signed-in user
+  details?: any // Extra fields for the booking log
+}
+
+export interface BookedTicket {
+  id: string
+  booking_id: string
+  seat_code: string
+  ticket_code: string
+  price: number
+  discount_amount: number
+  category: TicketCategory
+}
+
+export type BookSeatsResult =
+  | {
+      success: true
+      bookingId: string
+      tickets: BookedTicket[]
+      subtotalAmount: number
+      discountAmount: number
+      promoCode: string | null
+      groupDiscountAmount: number
+      invoiceNumber: string | null // Set for group bookings
+      seasonPassId: string | null
+      paidAmount: number
+      totalAmount: number // After the discount
+    }
+  | {
+      success: false
+      errorCode: BookSeatsErrorCode
+      error: string
+      conflicts: string[]
+    }
+
+// Books seats through book_seats_atomic so the conflict check, booking and
+// tickets happen in one transaction under the show lock. Seats held by this
+// terminal are bookable; holds from other terminals count as conflicts.
+// Business rejections come back as a result; only transport failures throw.
+export const bookSeats = async ({
+  showId,
+  showTitle,
+  seatCodes,
+  seatCategories = {},
+  bookedBy,
+  customerId,
+  promoCode,
+  groupName,
+  seasonPassId,
+  payments,
+  waitlistEntryId,
+  performedBy,
+  details
+}: BookSeatsParams): Promise<BookSeatsResult> => {
+  const { data, error } = await supabase.rpc('book_seats_atomic', {
+    p_show_id: showId,
+    p_seat_codes: seatCodes,
+    p_booked_by: bookedBy,
+    p_customer_id: customerId || null,
+    p_holder_id: getTerminalId(),
+    p_seat_categories: seatCategories,
+    p_promo_code: promoCode || null,
+    p_group_name: groupName || null,
+    p_season_pass_id: seasonPassId || null,
+    p_payments: payments
+      ? payments.map(payment => ({ method: payment.method, amount: payment.amount, reference: payment.reference || null }))
+      : null,
+    p_waitlist_entry_id: waitlistEntryId || null
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    return {
+      success: false,
+      errorCode: data.error_code,
+      error: data.error || 'Booking failed',
+      conflicts: data.conflicts || []
+    }
+  }
+
+  const tickets: BookedTicket[] = data.tickets || []
+
+  await logBookingCreation(data.booking_id, showTitle, performedBy, {
+    ...details,
+    seat_codes: seatCodes,
+    seat_count: seatCodes.length,
+    seat_categories: seatCategories,
+    promo_code: data.promo_code,
+    discount_amount: data.discount_amount,
+    group_name: groupName || null,
+    group_discount_amount: data.group_discount_amount,
+    invoice_number: data.invoice_number,
+    season_pass_id: data.season_pass_id,
+    payments: payments || [],
+    waitlist_entry_id: waitlistEntryId || null,
+    total_price: data.total_amount,
+    ticket_codes: tickets.map(ticket => ticket.ticket_code)
+  })
+
+  return {
+    success: true,
+    bookingId: data.booking_id,
+    tickets,
+    subtotalAmount: data.subtotal_amount,
+    discountAmount: data.discount_amount,
+    promoCode: data.promo_code,
+    groupDiscountAmount: data.group_discount_amount,
+    invoiceNumber: data.invoice_number,
+    seasonPassId: data.season_pass_id,
+    paidAmount: data.paid_amount,
+    totalAmount: data.total_amount
+  }
+}
@@ -0,0 +1,77 @@
+import { supabase } from '../lib/supabase'
+
+export const HOLD_DURATION_SECONDS = 300
+
+export interface SeatHold {
+  id: string
+  show_id: string
+  seat_code: string
+  holder_id: string
+  held_by?: string
+  expires_at: string
+}
+
+export type HoldSeatsResult =
+  | { success: true; expiresAt: string }
+  | { success: false; error: string; conflicts: string[] }
+
+// Each browser tab is its own booking terminal, so holds are keyed per tab
+// rather than per user: the same staff member may run two counters.
+export const getTerminalId = (): string => {
+  let terminalId = sessionStorage.getItem('kalari_terminal_id')
+  if (!terminalId) {
+    terminalId = `TERM-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    sessionStorage.setItem('kalari_terminal_id', terminalId)
+  }
+  return terminalId
+}
+
+export const holdSeats = async (showId: string, seatCodes: string[]): Promise<HoldSeatsResult> => {
+  const { data, error } = await supabase.rpc('hold_seats', {
+    p_show_id: showId,
+    p_seat_codes: seatCodes,
+    p_holder_id: getTerminalId(),
+    p_hold_seconds: HOLD_DURATION_SECONDS
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    return {
+      success: false,
+      error: data.error || 'Could not hold seats',
+      conflicts: data.conflicts || []
+    }
+  }
+
+  return { success: true, expiresAt: data.expires_at }
+}
+
+// Omit seatCodes to release everything this terminal holds on the show.
+// An empty list releases nothing: the RPC reads null as every seat.
+export const releaseSeatHolds = async (showId: string, seatCodes?: string[]) => {
+  if (seatCodes && seatCodes.length === 0) return
+
+  const { error } = await supabase.rpc('release_seat_holds', {
+    p_show_id: showId,
+    p_holder_id: getTerminalId(),
+    p_seat_codes: seatCodes ?? null
+  })
+
+  if (error) {
+    console.error('Error releasing seat holds:', error)
+  }
+}
+
+// Live holds placed by other terminals
+export const fetchOtherTerminalHolds = async (showId: string): Promise<SeatHold[]> => {
+  const { data, error } = await supabase
+    .from('seat_holds')
+    .select('*')
+    .eq('show_id', showId)
+    .neq('holder_id', getTerminalId())
+    .gt('expires_at', new Date().toISOString())
+
+  if (error) throw error
+  return data || []
+}
@@ -0,0 +1,252 @@
+import { supabase, Layout, LayoutCanvas, LayoutStructure, SeatPosition } from '../lib/supabase'
+import { logLayoutUpdate } from './activityLogger'
+import { getRowLetter, getSeatCode } from './layoutStructure'
+import { SeatPrices } from './seatPricing'
+
+export const SEAT_SIZE = 28 // Seat buttons are SEAT_SIZE px square on the canvas
+export const SEAT_SPACING = 34
+export const CANVAS_MARGIN = 40
+
+const STAGE_WIDTH = 200
+const STAGE_HEIGHT = 160
+const SECTION_GAP = 40
+
+export type SeatPositions = { [seatCode: string]: SeatPosition }
+
+export interface PositionedSeat {
+  code: string
+  section: string
+  rowIndex: number
+  seatNumber: number
+  position: SeatPosition
+}
+
+// Lays sections out around a central stage the way the booking grid does:
+// North above, South below, West and East to the sides with rows running
+// outwards from the stage. Any other section is stacked underneath.
+export const generateDefaultLayout = (structure: LayoutStructure): { positions: SeatPositions; canvas: LayoutCanvas } => {
+  const positions: SeatPositions = {}
+  const stage = { x: -STAGE_WIDTH / 2, y: -STAGE_HEIGHT / 2 }
+  const south = structure.sections.find(section => section.name.toLowerCase() === 'south')
+  let nextOtherY = -stage.y + SECTION_GAP + (south ? south.rows.length * SEAT_SPACING + SECTION_GAP : 0)
+
+  structure.sections.forEach(section => {
+    const key = section.name.toLowerCase()
+    const longestRow = section.rows.reduce((max, row) => Math.max(max, row.seats), 0)
+
+    section.rows.forEach((row, rowIndex) => {
+      for (let seat = 1; seat <= row.seats; seat++) {
+        const along = (seat - 1 - (row.seats - 1) / 2) * SEAT_SPACING - SEAT_SIZE / 2
+        const away = rowIndex * SEAT_SPACING
+        let position: SeatPosition
+
+        if (key === 'north') {
+          position = { x: along, y: stage.y - SECTION_GAP - SEAT_SIZE - away }
+        } else if (key === 'south') {
+          position = { x: along, y: -stage.y + SECTION_GAP + away }
+        } else if (key === 'west') {
+          position = { x: stage.x - SECTION_GAP - SEAT_SIZE - away, y: along }
+        } else if (key === 'east') {
+          position = { x: -stage.x + SECTION_GAP + away, y: along }
+        } else {
+          const left = -((longestRow - 1) / 2) * SEAT_SPACING - SEAT_SIZE / 2
+          position = { x: left + (seat - 1) * SEAT_SPACING, y: nextOtherY + away }
+        }
+
+        positions[getSeatCode(section.name, rowIndex, seat)] = position
+      }
+    })
+
+    if (!['north', 'south', 'west', 'east'].includes(key)) {
+      nextOtherY += section.rows.length * SEAT_SPACING + SECTION_GAP
+    }
+  })
+
+  // Shift everything so the top-left seat sits at the margin
+  const allPoints = [...Object.values(positions), stage, { x: -stage.x, y: -stage.y }]
+  const minX = Math.min(...allPoints.map(point => point.x))
+  const minY = Math.min(...allPoints.map(point => point.y))
+  const offsetX = CANVAS_MARGIN - minX
+  const offsetY = CANVAS_MARGIN - minY
+
+  Object.keys(positions).forEach(code => {
+    positions[code] = { x: positions[code].x + offsetX, y: positions[code].y + offsetY }
+  })
+
+  const maxX = Math.max(...Object.values(positions).map(point => point.x + SEAT_SIZE), -stage.x + offsetX)
+  const maxY = Math.max(...Object.values(positions).map(point => point.y + SEAT_SIZE), -stage.y + offsetY)
+
+  return {
+    positions,
+    canvas: {
+      width: Math.ceil(maxX + CANVAS_MARGIN),
+      height: Math.ceil(maxY + CANVAS_MARGIN),
+      features: [{
+        id: 'stage',
+        type: 'STAGE',
+        label: 'Stage',
+        x: stage.x + offsetX,
+        y: stage.y + offsetY,
+        width: STAGE_WIDTH,
+        height: STAGE_HEIGHT
+      }]
+    }
+  }
+}
+
+// Every seat in the structure with its saved position, falling back to the
+// default arrangement for seats added since the layout was last designed.
+// Booking and the designer preview both place seats through this.
+export const resolveSeatPositions = (structure: LayoutStructure, saved: SeatPositions): PositionedSeat[] => {
+  const defaults = generateDefaultLayout(structure).positions
+  const seats: PositionedSeat[] = []
+
+  structure.sections.forEach(section => {
+    section.rows.forEach((row, rowIndex) => {
+      for (let seatNumber = 1; seatNumber <= row.seats; seatNumber++) {
+        const code = getSeatCode(section.name, rowIndex, seatNumber)
+        seats.push({
+          code,
+          section: section.name,
+          rowIndex,
+          seatNumber,
+          position: saved[code] || defaults[code]
+        })
+      }
+    })
+  })
+
+  return seats
+}
+
+// Bends a row into an arc through its first and last seat. bulge is how far
+// the middle of the row moves off the straight line, in px; negative values
+// bend it the other way.
+export const arrangeRowInArc = (seats: PositionedSeat[], bulge: number): SeatPositions => {
+  if (seats.length < 3) return {}
+
+  const sorted = [...seats].sort((a, b) => a.seatNumber - b.seatNumber)
+  const first = sorted[0].position
+  const last = sorted[sorted.length - 1].position
+  const dx = last.x - first.x
+  const dy = last.y - first.y
+  const length = Math.hypot(dx, dy) || 1
+  // Unit normal to the chord from first to last seat
+  const nx = -dy / length
+  const ny = dx / length
+
+  const arranged: SeatPositions = {}
+  sorted.forEach((seat, index) => {
+    const t = index / (sorted.length - 1)
+    const offset = bulge * 4 * t * (1 - t)
+    arranged[seat.code] = {
+      x: Math.round(first.x + dx * t + nx * offset),
+      y: Math.round(first.y + dy * t + ny * offset)
+    }
+  })
+  return arranged
+}
+
+// Seats that sit off the canvas or on top of the stage, an aisle or a
+// blocked area
+export const findSeatPlacementErrors = (structure: LayoutStructure, seats: PositionedSeat[]): string[] => {
+  const canvas = structure.canvas
+  if (!canvas) return []
+
+  const errors: string[] = []
+  seats.forEach(seat => {
+    const { x, y } = seat.position
+    if (x < 0 || y < 0 || x + SEAT_SIZE > canvas.width || y + SEAT_SIZE > canvas.height) {
+      errors.push(`Seat ${seat.code} is outside the canvas`)
+      return
+    }
+
+    const overlapping = canvas.features.find(feature =>
+      x < feature.x + feature.width &&
+      x + SEAT_SIZE > feature.x &&
+      y < feature.y + feature.height &&
+      y + SEAT_SIZE > feature.y
+    )
+    if (overlapping) {
+      errors.push(`Seat ${seat.code} overlaps ${overlapping.label || overlapping.type.toLowerCase()}`)
+    }
+  })
+  return errors
+}
+
+export const fetchSeatPositions = async (layoutId: string): Promise<SeatPositions> => {
+  const { data, error } = await supabase
+    .from('seats')
+    .select('section, row, seat_number, position')
+    .eq('layout_id', layoutId)
+
+  if (error) throw error
+
+  const positions: SeatPositions = {}
+  data?.forEach(seat => {
+    if (seat.position) {
+      positions[`${seat.section}-${seat.row}-${seat.seat_number}`] = seat.position
+    }
+  })
+  return positions
+}
+
+// Saves the canvas into the layout structure and every seat position and
+// seat price into the seats table. Seats no longer in the structure are removed.
+export const saveLayoutDesign = async (
+  layout: Layout,
+  structure: LayoutStructure,
+  positions: SeatPositions,
+  prices: SeatPrices,
+  performedBy: string
+) => {
+  const seatRows = resolveSeatPositions(structure, positions).map(seat => ({
+    layout_id: layout.id,
+    section: seat.section,
+    row: getRowLetter(seat.rowIndex),
+    seat_number: seat.seatNumber.toString(),
+    position: seat.position,
+    price: prices[seat.code] ?? null
+  }))
+
+  const { error: layoutError } = await supabase
+    .from('layouts')
+    .update({ structure })
+    .eq('id', layout.id)
+
+  if (layoutError) throw layoutError
+
+  const { error: seatError } = await supabase
+    .from('seats')
+    .upsert(seatRows, { onConflict: 'layout_id,section,row,seat_number' })
+
+  if (seatError) throw seatError
+
+  const { data: existing, error: existingError } = await supabase
+    .from('seats')
+    .select('id, section, row, seat_number')
+    .eq('layout_id', layout.id)
+
+  if (existingError) throw existingError
+
+  const current = new Set(seatRows.map(seat => `${seat.section}-${seat.row}-${seat.seat_number}`))
+  const staleIds = (existing || [])
+    .filter(seat => !current.has(`${seat.section}-${seat.row}-${seat.seat_number}`))
+    .map(seat => seat.id)
+
+  if (staleIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('seats')
+      .delete()
+      .in('id', staleIds)
+
+    if (deleteError) throw deleteError
+  }
+
+  await logLayoutUpdate(layout.id, layout.name, performedBy, {
+    designer: true,
+    seats_positioned: seatRows.length,
+    seats_priced: seatRows.filter(seat => seat.price !== null).length,
+    features: structure.canvas?.features.map(feature => ({ type: feature.type, label: feature.label })) || []
+  })
+}
@@ -0,0 +1,83 @@
+import { supabase, Booking, Show, LayoutStructure } from '../lib/supabase'
+import { findSection, parseSeatCode } from './layoutStructure'
+
+// Prices set on individual seats, keyed by seat code
+export type SeatPrices = { [seatCode: string]: number }
+
+export interface ShowTierPrice {
+  name: string
+  price: number
+  overridden: boolean // Set by the show rather than the layout
+}
+
+type PricedShow = Pick<Show, 'price' | 'tier_prices'>
+
+// The layout's tiers with the show's overrides applied
+export const getShowTierPrices = (show: PricedShow, structure: LayoutStructure): ShowTierPrice[] =>
+  (structure.tiers || []).map(tier => {
+    const override = show.tier_prices?.[tier.name]
+    return {
+      name: tier.name,
+      price: override ?? tier.price,
+      overridden: override !== undefined
+    }
+  })
+
+// Mirrors seat_price() in add-pricing-tiers.sql, which prices the tickets:
+// seat price, then the show's tier override, then the layout tier, then the
+// show price
+export const getSeatPrice = (
+  show: PricedShow,
+  structure: LayoutStructure,
+  seatCode: string,
+  seatPrices: SeatPrices = {}
+): number => {
+  if (seatPrices[seatCode] !== undefined) return seatPrices[seatCode]
+
+  const parsed = parseSeatCode(seatCode)
+  const tierName = parsed ? findSection(structure, parsed.section)?.tier : undefined
+  if (!tierName) return show.price
+
+  const override = show.tier_prices?.[tierName]
+  if (override !== undefined) return override
+
+  const tier = structure.tiers?.find(t => t.name === tierName)
+  return tier ? tier.price : show.price
+}
+
+// Lowest and highest section price for a show, ignoring per-seat prices
+export const getShowPriceRange = (show: PricedShow, structure: LayoutStructure) => {
+  const tierPrices = getShowTierPrices(show, structure)
+  const prices = structure.sections.map(section =>
+    tierPrices.find(tier => tier.name === section.tier)?.price ?? show.price
+  )
+  if (prices.length === 0) prices.push(show.price)
+
+  return { min: Math.min(...prices), max: Math.max(...prices) }
+}
+
+export const formatPriceRange = (show: PricedShow, structure: LayoutStructure) => {
+  const { min, max } = getShowPriceRange(show, structure)
+  return min === max ? `₹${min}` : `₹${min} - ₹${max}`
+}
+
+// What the customer paid: the sum of the booking's ticket prices. Select
+// bookings with tickets(price) to use this.
+export const getBookingTotal = (booking: Pick<Booking, 'tickets'>) =>
+  (booking.tickets || []).reduce((sum, ticket) => sum + Number(ticket.price), 0)
+
+export const fetchSeatPrices = async (layoutId: string): Promise<SeatPrices> => {
+  const { data, error } = await supabase
+    .from('seats')
+    .select('section, row, seat_number, price')
+    .eq('layout_id', layoutId)
+    .not('price', 'is', null)
+
+  if (error) throw error
+
+  const prices: SeatPrices = {}
+  data?.forEach(seat => {
+    prices[`${seat.section}-${seat.row}-${seat.seat_number}`] = Number(seat.price)
+  })
+  return prices
+}
@@ -0,0 +1,189 @@
+import { supabase, CustomerNotification, Show, ShowBookingMove, ShowMoveOutcome } from '../lib/supabase'
+import { logActivity } from './activityLogger'
+
+export type ShowChangeErrorCode = 'REASON_REQUIRED' | 'SHOW_UNAVAILABLE' | 'INVALID_DATE' | 'LAYOUT_NOT_FOUND'
+
+type ShowChangeFailure = { success: false; errorCode: ShowChangeErrorCode; error: string }
+
+export type CancelShowResult =
+  | { success: true; cancelledBookings: number; revokedTickets: number; refundAmount: number }
+  | ShowChangeFailure
+
+export type RescheduleShowResult =
+  | { success: true; newShowId: string; movedBookings: number; keptSeats: number; reseatedSeats: number; refundedSeats: number }
+  | ShowChangeFailure
+
+export interface RescheduleTarget {
+  date: string
+  time: string
+  layoutId: string | null // Null keeps the show's layout
+}
+
+export const SHOW_MOVE_OUTCOME_LABELS: Record<ShowMoveOutcome, string> = {
+  KEPT_SEAT: 'Same seat',
+  RESEATED: 'Re-seated',
+  REFUNDED: 'Refunded'
+}
+
+// Cancels the show on the server: every booking is cancelled, its tickets
+// revoked and a full refund raised for admin approval
+export const cancelShow = async (
+  show: Pick<Show, 'id' | 'title' | 'date' | 'time' | 'status'>,
+  reason: string,
+  performedBy: string
+): Promise<CancelShowResult> => {
+  const { data, error } = await supabase.rpc('cancel_show', {
+    p_show_id: show.id,
+    p_reason: reason
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    return {
+      success: false,
+      errorCode: data.error_code,
+      error: data.error || 'Could not cancel the show'
+    }
+  }
+
+  await logActivity({
+    action: 'CANCELLATION',
+    entityType: 'SHOW',
+    entityId: show.id,
+    entityName: show.title,
+    details: {
+      date: show.date,
+      time: show.time,
+      previous_status: show.status,
+      reason,
+      cancelled_bookings: data.cancelled_bookings,
+      revoked_tickets: data.revoked_tickets,
+      refund_amount: data.refund_amount
+    },
+    performedBy
+  })
+
+  return {
+    success: true,
+    cancelledBookings: data.cancelled_bookings,
+    revokedTickets: data.revoked_tickets,
+    refundAmount: Number(data.refund_amount)
+  }
+}
+
+// Moves the show to a new date and time. The server creates the new show
+// and moves every booking to it, keeping seat codes the new layout has.
+export const rescheduleShow = async (
+  show: Pick<Show, 'id' | 'title' | 'date' | 'time' | 'layout_id'>,
+  target: RescheduleTarget,
+  reason: string,
+  performedBy: string
+): Promise<RescheduleShowResult> => {
+  const { data, error } = await supabase.rpc('reschedule_show', {
+    p_show_id: show.id,
+    p_date: target.date,
+    p_time: target.time,
+    p_reason: reason,
+    p_layout_id: target.layoutId
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    return {
+      success: false,
+      errorCode: data.error_code,
+      error: data.error || 'Could not reschedule the show'
+    }
+  }
+
+  await logActivity({
+    action: 'RESCHEDULE',
+    entityType: 'SHOW',
+    entityId: show.id,
+    entityName: show.title,
+    details: {
+      from_date: show.date,
+      from_time: show.time,
+      to_date: target.date,
+      to_time: target.time,
+      to_show_id: data.new_show_id,
+      layout_changed: Boolean(target.layoutId && target.layoutId !== show.layout_id),
+      reason,
+      moved_bookings: data.moved_bookings,
+      kept_seats: data.kept_seats,
+      reseated_seats: data.reseated_seats,
+      refunded_seats: data.refunded_seats
+    },
+    performedBy
+  })
+
+  return {
+    success: true,
+    newShowId: data.new_show_id,
+    movedBookings: data.moved_bookings,
+    keptSeats: data.kept_seats,
+    reseatedSeats: data.reseated_seats,
+    refundedSeats: data.refunded_seats
+  }
+}
+
+// Where every seat of a cancelled or rescheduled show went
+export const fetchShowMoves = async (showId: string): Promise<ShowBookingMove[]> => {
+  const { data, error } = await supabase
+    .from('show_booking_moves')
+    .select(`
+      *,
+      booking:bookings(id, booked_by, customer_id, customer:customers(name))
+    `)
+    .eq('from_show_id', showId)
+    .order('moved_at')
+    .order('from_seat')
+
+  if (error) throw error
+  return data || []
+}
+
+export const fetchShowNotifications = async (showId: string): Promise<CustomerNotification[]> => {
+  const { data, error } = await supabase
+    .from('customer_notifications')
+    .select('*')
+    .eq('show_id', showId)
+    .order('created_at')
+
+  if (error) throw error
+  return data || []
+}
+
+// For messages staff sent by hand, so the delivery job doesn't send them again
+export const markNotificationSent = async (notification: CustomerNotification, performedBy: string) => {
+  const { error } = await supabase
+    .from('customer_notifications')
+    .update({ status: 'SENT', sent_at: new Date().toISOString(), sent_by: performedBy })
+    .eq('id', notification.id)
+    .neq('status', 'SENT')
+
+  if (error) throw error
+
+  await logActivity({
+    action: 'SEND',
+    entityType: 'NOTIFICATION',
+    entityId: notification.id,
+    entityName: notification.recipient_name || undefined,
+    details: { kind: notification.kind, booking_id: notification.booking_id, show_id: notification.show_id },
+    performedBy
+  })
+}
+
+// Opens the staff member's own mail or SMS app with the message filled in
+export const notificationLink = (notification: CustomerNotification) => {
+  if (notification.recipient_email) {
+    const subject = notification.kind === 'SHOW_CANCELLED' ? 'Show cancelled' : 'Show rescheduled'
+    return `mailto:${notification.recipient_email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(notification.message)}`
+  }
+  if (notification.recipient_phone) {
+    return `sms:${notification.recipient_phone}?body=${encodeURIComponent(notification.message)}`
+  }
+  return null
+}
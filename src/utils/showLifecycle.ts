@@ -0,0 +1,104 @@
+import { supabase, ShowStatus } from '../lib/supabase'
+import { logActivity, logShowStatusChange } from './activityLogger'
+
+// Mirrors the show_status_transitions table; the database rejects anything else
+export const SHOW_STATUS_TRANSITIONS: Record<ShowStatus, ShowStatus[]> = {
+  ACTIVE: ['HOUSE_FULL', 'SHOW_STARTED', 'SHOW_DONE', 'CANCELLED', 'RESCHEDULED'],
+  HOUSE_FULL: ['ACTIVE', 'SHOW_DONE', 'CANCELLED', 'RESCHEDULED'],
+  SHOW_STARTED: ['SHOW_DONE', 'CANCELLED', 'RESCHEDULED'],
+  SHOW_DONE: [],
+  CANCELLED: [],
+  RESCHEDULED: []
+}
+
+export const SHOW_STATUS_LABELS: Record<ShowStatus, string> = {
+  ACTIVE: 'Active',
+  HOUSE_FULL: 'House Full',
+  SHOW_STARTED: 'Show Started',
+  SHOW_DONE: 'Show Done',
+  CANCELLED: 'Cancelled',
+  RESCHEDULED: 'Rescheduled'
+}
+
+// Shows still going ahead, which can be changed, cancelled or rescheduled
+export const isShowOpen = (status?: ShowStatus) =>
+  status === undefined || status === 'ACTIVE' || status === 'HOUSE_FULL' || status === 'SHOW_STARTED'
+
+export interface ShowLifecycleSettings {
+  startedAfterMinutes: number // Minutes after start time before a show is marked SHOW_STARTED
+  doneAfterMinutes: number // Minutes after start time before a show is marked SHOW_DONE
+}
+
+export interface ShowStatusChange {
+  showId: string
+  showTitle: string
+  fromStatus: ShowStatus
+  toStatus: ShowStatus
+  completedTickets: number
+}
+
+// Runs the same lifecycle pass as the scheduled job, so a page always shows
+// current statuses even between scheduler runs. Changes are logged here
+// rather than in the database so they carry the staff member's name.
+export const advanceShowLifecycle = async (performedBy: string): Promise<ShowStatusChange[]> => {
+  const { data, error } = await supabase.rpc('advance_show_lifecycle', {
+    p_log_changes: false
+  })
+
+  if (error) throw error
+
+  const changes: ShowStatusChange[] = (data.changes || []).map((change: any) => ({
+    showId: change.show_id,
+    showTitle: change.show_title,
+    fromStatus: change.from_status,
+    toStatus: change.to_status,
+    completedTickets: change.completed_tickets
+  }))
+
+  for (const change of changes) {
+    await logShowStatusChange(change.showId, change.showTitle, performedBy, {
+      from_status: change.fromStatus,
+      to_status: change.toStatus,
+      completed_tickets: change.completedTickets
+    })
+  }
+
+  return changes
+}
+
+export const fetchShowLifecycleSettings = async (): Promise<ShowLifecycleSettings> => {
+  const { data, error } = await supabase
+    .from('show_lifecycle_settings')
+    .select('*')
+    .eq('id', 1)
+    .single()
+
+  if (error) throw error
+
+  return {
+    startedAfterMinutes: data.started_after_minutes,
+    doneAfterMinutes: data.done_after_minutes
+  }
+}
+
+export const updateShowLifecycleSettings = async (settings: ShowLifecycleSettings, performedBy: string) => {
+  const { error } = await supabase
+    .from('show_lifecycle_settings')
+    .update({
+      started_after_minutes: settings.startedAfterMinutes,
+      done_after_minutes: settings.doneAfterMinutes,
+      updated_by: performedBy,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', 1)
+
+  if (error) throw error
+
+  await logActivity({
+    action: 'UPDATE',
+    entityType: 'SETTINGS',
+    entityName: 'Show lifecycle',
+    details: settings,
+    performedBy
+  })
+}
@@ -0,0 +1,107 @@
+import { MAX_SERIES_SHOWS, RecurrenceRule, generateSeriesDates } from './showSeries'
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: 'DAILY',
+  weekdays: [],
+  startDate: '2025-03-10', // A Monday
+  untilDate: null,
+  occurrences: null,
+  skipHolidays: false,
+  ...overrides
+})
+
+describe('generateSeriesDates', () => {
+  it('repeats daily up to and including the until date', () => {
+    expect(generateSeriesDates(rule({ untilDate: '2025-03-13' }), [])).toEqual({
+      dates: ['2025-03-10', '2025-03-11', '2025-03-12', '2025-03-13'],
+      skippedHolidays: [],
+      truncated: false
+    })
+  })
+
+  it('falls only on the chosen weekdays', () => {
+    const { dates } = generateSeriesDates(rule({
+      frequency: 'WEEKLY',
+      weekdays: [5, 0], // Friday and Sunday
+      untilDate: '2025-03-24'
+    }), [])
+
+    expect(dates).toEqual(['2025-03-14', '2025-03-16', '2025-03-21', '2025-03-23'])
+  })
+
+  it('stops after the number of occurrences', () => {
+    const { dates } = generateSeriesDates(rule({
+      frequency: 'WEEKLY',
+      weekdays: [1],
+      occurrences: 3
+    }), [])
+
+    expect(dates).toEqual(['2025-03-10', '2025-03-17', '2025-03-24'])
+  })
+
+  it('stops at whichever of the until date and occurrences comes first', () => {
+    expect(generateSeriesDates(rule({ untilDate: '2025-03-11', occurrences: 5 }), []).dates)
+      .toEqual(['2025-03-10', '2025-03-11'])
+    expect(generateSeriesDates(rule({ untilDate: '2025-03-31', occurrences: 2 }), []).dates)
+      .toEqual(['2025-03-10', '2025-03-11'])
+  })
+
+  it('skips holidays without counting them as occurrences', () => {
+    const holidays = ['2025-03-11', '2025-03-14', '2025-03-12']
+
+    expect(generateSeriesDates(rule({ occurrences: 3, skipHolidays: true }), holidays)).toEqual({
+      dates: ['2025-03-10', '2025-03-13', '2025-03-15'],
+      skippedHolidays: ['2025-03-11', '2025-03-12', '2025-03-14'],
+      truncated: false
+    })
+  })
+
+  it('keeps holidays when asked not to skip them', () => {
+    expect(generateSeriesDates(rule({ occurrences: 2 }), ['2025-03-11']).dates).toEqual(['2025-03-10', '2025-03-11'])
+  })
+
+  it('ignores holidays on days the series does not fall on', () => {
+    const { skippedHolidays } = generateSeriesDates(rule({
+      frequency: 'WEEKLY',
+      weekdays: [1],
+      untilDate: '2025-03-17',
+      skipHolidays: true
+    }), ['2025-03-12', '2025-03-17'])
+
+    expect(skippedHolidays).toEqual(['2025-03-17'])
+  })
+
+  it('falls on no dates without a start, an end or a weekday', () => {
+    const none = { dates: [], skippedHolidays: [], truncated: false }
+
+    expect(generateSeriesDates(rule({ startDate: '', untilDate: '2025-03-20' }), [])).toEqual(none)
+    expect(generateSeriesDates(rule({}), [])).toEqual(none)
+    expect(generateSeriesDates(rule({ frequency: 'WEEKLY', untilDate: '2025-03-20' }), [])).toEqual(none)
+    expect(generateSeriesDates(rule({ untilDate: '2025-03-09' }), [])).toEqual(none)
+  })
+
+  it('stops at the cap and says the later dates were left out', () => {
+    const { dates, truncated } = generateSeriesDates(rule({ untilDate: '2030-12-31' }), [])
+
+    expect(dates).toHaveLength(MAX_SERIES_SHOWS)
+    expect(dates[dates.length - 1]).toBe('2026-03-10')
+    expect(truncated).toBe(true)
+  })
+
+  it('is not truncated when the series ends exactly at the cap', () => {
+    const { dates, truncated } = generateSeriesDates(rule({ untilDate: '2026-03-10' }), [])
+
+    expect(dates).toHaveLength(MAX_SERIES_SHOWS)
+    expect(truncated).toBe(false)
+  })
+
+  it('leaves holidays past the cap out of the skipped list', () => {
+    const { skippedHolidays, truncated } = generateSeriesDates(
+      rule({ untilDate: '2030-12-31', skipHolidays: true }),
+      ['2025-03-11', '2026-03-20']
+    )
+
+    expect(skippedHolidays).toEqual(['2025-03-11'])
+    expect(truncated).toBe(true)
+  })
+})
@@ -0,0 +1,330 @@
+import { addDays, format, getDay, parseISO } from 'date-fns'
+import { supabase, Holiday, Show, ShowSeries, SeriesFrequency } from '../lib/supabase'
+import { logActivity } from './activityLogger'
+import { cancelShow } from './showChanges'
+import { venueToday } from './venueTime'
+
+// Stops a mistyped end date from generating years of shows
+export const MAX_SERIES_SHOWS = 366
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export interface RecurrenceRule {
+  frequency: SeriesFrequency
+  weekdays: number[] // WEEKLY only: 0 = Sunday to 6 = Saturday
+  startDate: string
+  untilDate: string | null
+  occurrences: number | null // Counts shows actually scheduled, not skipped holidays
+  skipHolidays: boolean
+}
+
+// Show fields every show in a series shares
+export type SeriesShowData = Omit<Show, 'id' | 'date' | 'active' | 'status' | 'series_id' | 'created_at' | 'layout' | 'series'>
+
+export interface SeriesDates {
+  dates: string[]
+  skippedHolidays: string[]
+  truncated: boolean // The rule goes on past MAX_SERIES_SHOWS shows; the later dates are left out
+}
+
+export const generateSeriesDates = (rule: RecurrenceRule, holidayDates: string[]): SeriesDates => {
+  const holidays = new Set(holidayDates)
+  const dates: string[] = []
+  const skippedHolidays: string[] = []
+  let truncated = false
+
+  // A weekly rule without days never falls on a date
+  if (!rule.startDate || (!rule.untilDate && !rule.occurrences) ||
+    (rule.frequency === 'WEEKLY' && rule.weekdays.length === 0)) {
+    return { dates, skippedHolidays, truncated }
+  }
+
+  // Ends at the until date or the occurrence count, or at the first date
+  // past the cap
+  for (let day = parseISO(rule.startDate); ; day = addDays(day, 1)) {
+    const date = format(day, 'yyyy-MM-dd')
+    if (rule.untilDate && date > rule.untilDate) break
+    if (rule.occurrences && dates.length >= rule.occurrences) break
+    if (rule.frequency === 'WEEKLY' && !rule.weekdays.includes(getDay(day))) continue
+
+    if (rule.skipHolidays && holidays.has(date)) {
+      // Holidays past the cap weren't going to be shows anyway
+      if (dates.length < MAX_SERIES_SHOWS) skippedHolidays.push(date)
+      continue
+    }
+
+    if (dates.length >= MAX_SERIES_SHOWS) {
+      truncated = true
+      break
+    }
+
+    dates.push(date)
+  }
+
+  return { dates, skippedHolidays, truncated }
+}
+
+export const describeRecurrence = (series: Pick<ShowSeries, 'frequency' | 'weekdays' | 'until_date' | 'occurrences'>) => {
+  const days = series.frequency === 'DAILY'
+    ? 'Daily'
+    : `Weekly on ${[...(series.weekdays || [])].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ')}`
+
+  return series.until_date
+    ? `${days} until ${format(parseISO(series.until_date), 'MMM dd, yyyy')}`
+    : `${days}, ${series.occurrences} shows`
+}
+
+export const createShowSeries = async (
+  rule: RecurrenceRule,
+  showData: SeriesShowData,
+  holidayDates: string[],
+  performedBy: string
+) => {
+  const { dates, skippedHolidays, truncated } = generateSeriesDates(rule, holidayDates)
+  if (dates.length === 0) {
+    throw new Error('This repeat rule does not fall on any dates')
+  }
+
+  const { data: series, error: seriesError } = await supabase
+    .from('show_series')
+    .insert([{
+      title: showData.title,
+      frequency: rule.frequency,
+      weekdays: rule.frequency === 'WEEKLY' ? rule.weekdays : null,
+      start_date: rule.startDate,
+      until_date: rule.untilDate,
+      occurrences: rule.untilDate ? null : rule.occurrences,
+      time: showData.time,
+      skip_holidays: rule.skipHolidays,
+      created_by: performedBy
+    }])
+    .select()
+    .single()
+
+  if (seriesError) throw seriesError
+
+  const { error } = await supabase
+    .from('shows')
+    .insert(dates.map(date => ({ ...showData, date, series_id: series.id })))
+
+  if (error) {
+    // Don't leave an empty series behind
+    await supabase.from('show_series').delete().eq('id', series.id)
+    throw error
+  }
+
+  await logActivity({
+    action: 'CREATE',
+    entityType: 'SHOW_SERIES',
+    entityId: series.id,
+    entityName: showData.title,
+    details: {
+      recurrence: describeRecurrence(series),
+      time: showData.time,
+      price: showData.price,
+      layout_id: showData.layout_id,
+      shows_created: dates.length,
+      first_date: dates[0],
+      last_date: dates[dates.length - 1],
+      skipped_holidays: skippedHolidays,
+      truncated
+    },
+    performedBy
+  })
+
+  return { series: series as ShowSeries, created: dates.length, skippedHolidays, truncated }
+}
+
+// Applies the changes to every show in the series that hasn't started yet,
+// counting from today at the series' venue. Each show keeps its own date. A
+// show with confirmed bookings also keeps its time and layout, since moving
+// its ticket holders goes through reschedule_show; the dates of those that
+// would have changed come back for staff to reschedule one at a time.
+export const updateShowSeries = async (
+  series: Pick<ShowSeries, 'id' | 'title'>,
+  changes: SeriesShowData,
+  timezone: string,
+  performedBy: string
+) => {
+  const { data: upcoming, error } = await supabase
+    .from('shows')
+    .select('id, date, time, layout_id, bookings(status)')
+    .eq('series_id', series.id)
+    .gte('date', venueToday(timezone))
+    .in('status', ['ACTIVE', 'HOUSE_FULL'])
+    .order('date')
+
+  if (error) throw error
+
+  const isBooked = (show: { bookings?: { status: string }[] }) =>
+    (show.bookings || []).some(booking => booking.status === 'CONFIRMED')
+  const openIds = (upcoming || []).filter(show => !isBooked(show)).map(show => show.id)
+  const booked = (upcoming || []).filter(isBooked)
+  const { time, layout_id, ...details } = changes
+
+  if (openIds.length > 0) {
+    const { error: updateError } = await supabase
+      .from('shows')
+      .update(changes)
+      .in('id', openIds)
+
+    if (updateError) throw updateError
+  }
+
+  if (booked.length > 0) {
+    const { error: updateError } = await supabase
+      .from('shows')
+      .update(details)
+      .in('id', booked.map(show => show.id))
+
+    if (updateError) throw updateError
+  }
+
+  const keptDates = booked
+    .filter(show => show.time.slice(0, 5) !== time.slice(0, 5) || show.layout_id !== layout_id)
+    .map(show => show.date)
+
+  const { error: seriesError } = await supabase
+    .from('show_series')
+    .update({ title: changes.title, time })
+    .eq('id', series.id)
+
+  if (seriesError) throw seriesError
+
+  await logActivity({
+    action: 'UPDATE',
+    entityType: 'SHOW_SERIES',
+    entityId: series.id,
+    entityName: changes.title,
+    details: {
+      previous_title: series.title,
+      changes,
+      shows_updated: upcoming?.length || 0,
+      kept_time_and_layout: keptDates
+    },
+    performedBy
+  })
+
+  return { updated: upcoming?.length || 0, keptDates }
+}
+
+// Takes every upcoming show in the series off sale. Shows nobody has ever
+// booked are deleted. A show with any booking, even a cancelled one, is
+// cancelled through cancel_show instead, so ticket holders are refunded and
+// told and its payments and refunds stay on record. Dates that couldn't be
+// cancelled come back for staff to deal with. Upcoming means from today at
+// the series' venue.
+export const cancelShowSeries = async (
+  series: Pick<ShowSeries, 'id' | 'title'>,
+  reason: string,
+  timezone: string,
+  performedBy: string
+) => {
+  const { data: upcoming, error } = await supabase
+    .from('shows')
+    .select('id, title, date, time, status, bookings(id)')
+    .eq('series_id', series.id)
+    .gte('date', venueToday(timezone))
+    .in('status', ['ACTIVE', 'HOUSE_FULL'])
+    .order('date')
+
+  if (error) throw error
+
+  const hasBookings = (show: { bookings?: { id: string }[] }) => (show.bookings || []).length > 0
+  const deleteIds = (upcoming || []).filter(show => !hasBookings(show)).map(show => show.id)
+  const booked = (upcoming || []).filter(hasBookings)
+
+  if (deleteIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('shows')
+      .delete()
+      .in('id', deleteIds)
+
+    if (deleteError) throw deleteError
+  }
+
+  let cancelled = 0
+  let refundAmount = 0
+  const failedDates: string[] = []
+
+  for (const show of booked) {
+    const result = await cancelShow(show, reason, performedBy)
+    if (result.success) {
+      cancelled++
+      refundAmount += result.refundAmount
+    } else {
+      failedDates.push(show.date)
+    }
+  }
+
+  await logActivity({
+    action: 'DELETE',
+    entityType: 'SHOW_SERIES',
+    entityId: series.id,
+    entityName: series.title,
+    details: {
+      reason,
+      shows_deleted: deleteIds.length,
+      shows_cancelled: cancelled,
+      refund_amount: refundAmount,
+      not_cancelled: failedDates
+    },
+    performedBy
+  })
+
+  return { deleted: deleteIds.length, cancelled, refundAmount, failedDates }
+}
+
+export const fetchHolidays = async (): Promise<Holiday[]> => {
+  const { data, error } = await supabase
+    .from('holidays')
+    .select('*')
+    .order('date')
+
+  if (error) throw error
+  return data || []
+}
+
+export const addHoliday = async (date: string, name: string, performedBy: string) => {
+  const { data, error } = await supabase
+    .from('holidays')
+    .insert([{ date, name, created_by: performedBy }])
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('There is already a holiday on that date')
+    }
+    throw error
+  }
+
+  await logActivity({
+    action: 'CREATE',
+    entityType: 'HOLIDAY',
+    entityId: data.id,
+    entityName: name,
+    details: { date },
+    performedBy
+  })
+
+  return data as Holiday
+}
+
+export const deleteHoliday = async (holiday: Holiday, performedBy: string) => {
+  const { error } = await supabase
+    .from('holidays')
+    .delete()
+    .eq('id', holiday.id)
+
+  if (error) throw error
+
+  await logActivity({
+    action: 'DELETE',
+    entityType: 'HOLIDAY',
+    entityId: holiday.id,
+    entityName: holiday.name,
+    details: { date: holiday.date },
+    performedBy
+  })
+}
@@ -0,0 +1,59 @@
+import { Show, TicketCategory, CategoryPriceRule } from '../lib/supabase'
+
+export const TICKET_CATEGORIES: TicketCategory[] = ['ADULT', 'CHILD', 'SENIOR', 'FOREIGNER', 'COMPLIMENTARY']
+
+export const TICKET_CATEGORY_LABELS: Record<TicketCategory, string> = {
+  ADULT: 'Adult',
+  CHILD: 'Child',
+  SENIOR: 'Senior',
+  FOREIGNER: 'Foreigner',
+  COMPLIMENTARY: 'Complimentary'
+}
+
+// Used for categories a show has no rule for; matches ticket_price() in
+// add-ticket-categories.sql
+export const DEFAULT_CATEGORY_RULES: Record<TicketCategory, CategoryPriceRule> = {
+  ADULT: { type: 'PERCENT', value: 100 },
+  CHILD: { type: 'PERCENT', value: 100 },
+  SENIOR: { type: 'PERCENT', value: 100 },
+  FOREIGNER: { type: 'PERCENT', value: 100 },
+  COMPLIMENTARY: { type: 'FIXED', value: 0 }
+}
+
+export const getCategoryRule = (show: Pick<Show, 'category_prices'>, category: TicketCategory): CategoryPriceRule =>
+  show.category_prices?.[category] ?? DEFAULT_CATEGORY_RULES[category]
+
+// Price of a ticket in this category for a seat priced at seatPrice
+export const getTicketPrice = (show: Pick<Show, 'category_prices'>, seatPrice: number, category: TicketCategory) => {
+  const rule = getCategoryRule(show, category)
+  return rule.type === 'FIXED' ? rule.value : Math.round(seatPrice * rule.value) / 100
+}
+
+export const describeCategoryRule = (rule: CategoryPriceRule) => {
+  if (rule.type === 'FIXED') return rule.value === 0 ? 'Free' : `₹${rule.value}`
+  return rule.value === 100 ? 'Seat price' : `${rule.value}% of seat price`
+}
+
+export interface CategoryBreakdown {
+  category: TicketCategory
+  tickets: number
+  revenue: number
+}
+
+// Ticket counts and revenue per category, in TICKET_CATEGORIES order.
+// Tickets issued before categories existed count as ADULT.
+export const summarizeByCategory = (tickets: { category?: TicketCategory | null; price: number }[]): CategoryBreakdown[] => {
+  const totals = new Map<TicketCategory, CategoryBreakdown>()
+
+  tickets.forEach(ticket => {
+    const category = ticket.category || 'ADULT'
+    const entry = totals.get(category) || { category, tickets: 0, revenue: 0 }
+    entry.tickets += 1
+    entry.revenue += Number(ticket.price)
+    totals.set(category, entry)
+  })
+
+  return TICKET_CATEGORIES
+    .filter(category => totals.has(category))
+    .map(category => totals.get(category)!)
+}
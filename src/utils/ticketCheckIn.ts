@@ -0,0 +1,98 @@
+import { supabase } from '../lib/supabase'
+import { logTicketCheckIn } from './activityLogger'
+import { venueClockTime } from './venueTime'
+
+export type CheckInErrorCode = 'NOT_FOUND' | 'WRONG_SHOW' | 'REVOKED' | 'COMPLETED' | 'ALREADY_USED'
+
+export interface CheckedInTicket {
+  id: string
+  booking_id: string
+  show_id: string
+  show_title: string
+  seat_code: string
+  ticket_code: string
+  checked_in_at: string
+  checked_in_by: string
+}
+
+export interface CheckInResult {
+  success: boolean
+  ticketCode: string
+  ticket?: CheckedInTicket
+  errorCode?: CheckInErrorCode
+  error?: string
+}
+
+export interface AdmissionCount {
+  admitted: number
+  issued: number
+}
+
+// Rejected tickets are an expected outcome at the gate, so they come back as
+// a result instead of a thrown error. Only transport failures throw. Times
+// are read on the clock of the show's venue.
+export const checkInTicket = async (
+  ticketCode: string,
+  showId: string,
+  timezone: string,
+  performedBy: string
+): Promise<CheckInResult> => {
+  const code = ticketCode.trim()
+
+  const { data, error } = await supabase.rpc('check_in_ticket', {
+    p_ticket_code: code,
+    p_show_id: showId
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    return {
+      success: false,
+      ticketCode: code,
+      errorCode: data.error_code,
+      error: data.error_code === 'ALREADY_USED' && data.checked_in_at
+        ? `This ticket was already used at ${venueClockTime(data.checked_in_at, timezone)}` +
+          (data.checked_in_by ? ` by ${data.checked_in_by}` : '')
+        : data.error || 'Check-in failed'
+    }
+  }
+
+  const ticket: CheckedInTicket = data.ticket
+
+  await logTicketCheckIn(ticket.id, ticket.ticket_code, performedBy, {
+    show_id: ticket.show_id,
+    show_title: ticket.show_title,
+    seat_code: ticket.seat_code,
+    booking_id: ticket.booking_id
+  })
+
+  return { success: true, ticketCode: code, ticket }
+}
+
+// Admitted vs. issued (non-revoked) tickets for each show
+export const fetchAdmissionCounts = async (showIds: string[]): Promise<{ [showId: string]: AdmissionCount }> => {
+  const counts: { [showId: string]: AdmissionCount } = {}
+  showIds.forEach(id => {
+    counts[id] = { admitted: 0, issued: 0 }
+  })
+
+  if (showIds.length === 0) return counts
+
+  const { data, error } = await supabase
+    .from('tickets')
+    .select('show_id, checked_in_at')
+    .in('show_id', showIds)
+    .neq('status', 'REVOKED')
+
+  if (error) throw error
+
+  data?.forEach(ticket => {
+    const count = counts[ticket.show_id]
+    if (!count) return
+    count.issued += 1
+    if (ticket.checked_in_at) count.admitted += 1
+  })
+
+  return counts
+}
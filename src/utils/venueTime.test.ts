@@ -0,0 +1,111 @@
+import {
+  venueDate,
+  venueToday,
+  venueClockTime,
+  venueDateTime,
+  venueDayRange,
+  shiftDate,
+  periodStart,
+  previousPeriodStart
+} from './venueTime'
+
+const KOLKATA = 'Asia/Kolkata' // UTC+5:30 all year
+const NEW_YORK = 'America/New_York'
+
+describe('venueDate', () => {
+  it('puts a late-evening IST sale on the venue day, not the UTC day', () => {
+    // 23:45 IST on 14 Mar is 18:15 UTC the same day
+    expect(venueDate('2025-03-14T18:15:00Z', KOLKATA)).toBe('2025-03-14')
+    // 00:15 IST on 15 Mar is still 14 Mar in UTC
+    expect(venueDate('2025-03-14T18:45:00Z', KOLKATA)).toBe('2025-03-15')
+  })
+
+  it('turns the day exactly at venue midnight', () => {
+    expect(venueDate('2025-03-14T18:29:59.999Z', KOLKATA)).toBe('2025-03-14')
+    expect(venueDate('2025-03-14T18:30:00Z', KOLKATA)).toBe('2025-03-15')
+  })
+
+  it('rolls over months and years', () => {
+    expect(venueDate('2024-12-31T18:30:00Z', KOLKATA)).toBe('2025-01-01')
+    expect(venueDate('2025-01-01T03:00:00Z', NEW_YORK)).toBe('2024-12-31')
+  })
+
+  it('gives the venue today for a given now', () => {
+    expect(venueToday(KOLKATA, new Date('2025-03-14T20:00:00Z'))).toBe('2025-03-15')
+    expect(venueToday(NEW_YORK, new Date('2025-03-15T02:00:00Z'))).toBe('2025-03-14')
+  })
+})
+
+describe('venueClockTime', () => {
+  it('reads an instant on the venue clock, not the UTC one', () => {
+    expect(venueClockTime('2025-03-14T13:35:00Z', KOLKATA)).toBe('07:05 PM')
+    expect(venueClockTime('2025-03-15T02:00:00Z', NEW_YORK)).toBe('10:00 PM')
+  })
+
+  it('writes midnight and noon as 12', () => {
+    expect(venueClockTime('2025-03-14T18:30:00Z', KOLKATA)).toBe('12:00 AM')
+    expect(venueClockTime('2025-03-14T06:30:00Z', KOLKATA)).toBe('12:00 PM')
+  })
+})
+
+describe('venueDateTime', () => {
+  it('reads a show time as wall-clock time at the venue', () => {
+    expect(venueDateTime('2025-03-14', '19:30', KOLKATA).toISOString()).toBe('2025-03-14T14:00:00.000Z')
+    expect(venueDateTime('2025-03-14', '19:30:00', NEW_YORK).toISOString()).toBe('2025-03-14T23:30:00.000Z')
+  })
+
+  it('puts a midnight show at the start of its venue day', () => {
+    expect(venueDateTime('2025-03-15', '00:00', KOLKATA).toISOString()).toBe('2025-03-14T18:30:00.000Z')
+    expect(venueDateTime('2025-03-14', '23:59', KOLKATA).toISOString()).toBe('2025-03-14T18:29:00.000Z')
+  })
+
+  it('round-trips with venueDate', () => {
+    const instant = venueDateTime('2025-03-14', '23:59', KOLKATA)
+    expect(venueDate(instant, KOLKATA)).toBe('2025-03-14')
+  })
+
+  it('follows daylight saving changes', () => {
+    expect(venueDateTime('2025-01-15', '20:00', NEW_YORK).toISOString()).toBe('2025-01-16T01:00:00.000Z')
+    expect(venueDateTime('2025-07-15', '20:00', NEW_YORK).toISOString()).toBe('2025-07-16T00:00:00.000Z')
+    // 02:30 does not exist on 9 Mar 2025 in New York; it is read as 03:30
+    expect(venueDateTime('2025-03-09', '02:30', NEW_YORK).toISOString()).toBe('2025-03-09T07:30:00.000Z')
+    expect(venueDateTime('2025-03-30', '02:30', 'Europe/Berlin').toISOString()).toBe('2025-03-30T01:30:00.000Z')
+  })
+})
+
+describe('venueDayRange', () => {
+  it('covers the venue days from midnight to midnight', () => {
+    expect(venueDayRange('2025-03-14', '2025-03-14', KOLKATA)).toEqual({
+      from: '2025-03-13T18:30:00.000Z',
+      to: '2025-03-14T18:29:59.999Z'
+    })
+    expect(venueDayRange('2025-03-01', '2025-03-31', NEW_YORK)).toEqual({
+      from: '2025-03-01T05:00:00.000Z',
+      to: '2025-04-01T03:59:59.999Z'
+    })
+  })
+})
+
+describe('calendar arithmetic', () => {
+  it('shifts dates across month, year and leap day boundaries', () => {
+    expect(shiftDate('2025-03-31', 1)).toBe('2025-04-01')
+    expect(shiftDate('2025-01-01', -1)).toBe('2024-12-31')
+    expect(shiftDate('2024-02-28', 1)).toBe('2024-02-29')
+  })
+
+  it('finds the start of each period', () => {
+    // 14 Mar 2025 is a Friday
+    expect(periodStart('2025-03-14', 'day')).toBe('2025-03-14')
+    expect(periodStart('2025-03-14', 'week')).toBe('2025-03-09')
+    expect(periodStart('2025-03-09', 'week')).toBe('2025-03-09')
+    expect(periodStart('2025-03-14', 'month')).toBe('2025-03-01')
+    expect(periodStart('2025-03-14', 'year')).toBe('2025-01-01')
+  })
+
+  it('finds the start of the period before', () => {
+    expect(previousPeriodStart('2025-03-01', 'day')).toBe('2025-02-28')
+    expect(previousPeriodStart('2025-03-14', 'week')).toBe('2025-03-02')
+    expect(previousPeriodStart('2025-01-14', 'month')).toBe('2024-12-01')
+    expect(previousPeriodStart('2025-03-14', 'year')).toBe('2024-01-01')
+  })
+})
@@ -0,0 +1,118 @@
+// Show dates and times are wall-clock values at the venue, and "today" is
+// the venue's today, whatever the timezone of the browser or the database.
+// Calendar dates are passed around as yyyy-MM-dd strings so they can be
+// compared and used in queries directly.
+
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata'
+
+export type DatePeriod = 'day' | 'week' | 'month' | 'year'
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+const zonedParts = (instant: Date, timezone: string) => {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    formatters.set(timezone, formatter)
+  }
+
+  const parts: Record<string, number> = {}
+  formatter.formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10)
+  })
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24, // Some engines still write midnight as 24
+    minute: parts.minute,
+    second: parts.second
+  }
+}
+
+// How far the venue's clock is ahead of UTC at an instant, in milliseconds
+const zoneOffset = (instant: Date, timezone: string) => {
+  const parts = zonedParts(instant, timezone)
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return wallClock - (instant.getTime() - instant.getUTCMilliseconds())
+}
+
+const toUTCDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+const fromUTCDate = (date: Date) =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+
+// Calendar arithmetic, which no timezone can shift
+export const shiftDate = (date: string, days: number) => {
+  const shifted = toUTCDate(date)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return fromUTCDate(shifted)
+}
+
+// The venue's calendar date at an instant
+export const venueDate = (instant: Date | string, timezone: string) => {
+  const parts = zonedParts(typeof instant === 'string' ? new Date(instant) : instant, timezone)
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`
+}
+
+export const venueToday = (timezone: string, now: Date = new Date()) => venueDate(now, timezone)
+
+// The venue's clock time at an instant, as 07:05 PM
+export const venueClockTime = (instant: Date | string, timezone: string) => {
+  const { hour, minute } = zonedParts(typeof instant === 'string' ? new Date(instant) : instant, timezone)
+  return `${pad(hour % 12 || 12)}:${pad(minute)} ${hour < 12 ? 'AM' : 'PM'}`
+}
+
+// The instant a show date and time happen at the venue. A time skipped by
+// a daylight saving change is read as the time after the change.
+export const venueDateTime = (date: string, time: string, timezone: string) => {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute, second = 0] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second)
+
+  const firstOffset = zoneOffset(new Date(wallClock), timezone)
+  const offset = zoneOffset(new Date(wallClock - firstOffset), timezone)
+  const instant = wallClock - offset
+  if (zoneOffset(new Date(instant), timezone) === offset) return new Date(instant)
+
+  // The time was skipped by the change; like Postgres, take the later reading
+  return new Date(Math.max(instant, wallClock - firstOffset))
+}
+
+// First and last instant of a run of venue days, for timestamp filters
+export const venueDayRange = (startDate: string, endDate: string, timezone: string) => ({
+  from: venueDateTime(startDate, '00:00', timezone).toISOString(),
+  to: new Date(venueDateTime(shiftDate(endDate, 1), '00:00', timezone).getTime() - 1).toISOString()
+})
+
+// First day of the day, week (from Sunday), month or year a date is in
+export const periodStart = (date: string, period: DatePeriod) => {
+  switch (period) {
+    case 'week':
+      return shiftDate(date, -toUTCDate(date).getUTCDay())
+    case 'month':
+      return `${date.slice(0, 7)}-01`
+    case 'year':
+      return `${date.slice(0, 4)}-01-01`
+    default:
+      return date
+  }
+}
+
+export const previousPeriodStart = (date: string, period: DatePeriod) =>
+  periodStart(shiftDate(periodStart(date, period), -1), period)
@@ -0,0 +1,99 @@
+import { supabase, Venue } from '../lib/supabase'
+import { logActivity } from './activityLogger'
+
+export type VenueInput = Pick<Venue, 'name' | 'address' | 'timezone' | 'contact_name' | 'contact_phone' | 'contact_email'>
+
+export const EMPTY_VENUE: VenueInput = {
+  name: '',
+  address: null,
+  timezone: 'Asia/Kolkata',
+  contact_name: null,
+  contact_phone: null,
+  contact_email: null
+}
+
+// Checked here because Postgres only finds a bad zone when a time is converted
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const fetchVenues = async (): Promise<Venue[]> => {
+  const { data, error } = await supabase
+    .from('venues')
+    .select('*')
+    .order('created_at')
+
+  if (error) throw error
+  return data || []
+}
+
+const checkVenue = (venue: VenueInput) => {
+  if (!venue.name.trim()) {
+    throw new Error('Enter a venue name')
+  }
+  if (!isValidTimezone(venue.timezone)) {
+    throw new Error(`${venue.timezone} is not a known timezone`)
+  }
+}
+
+export const createVenue = async (venue: VenueInput, performedBy: string) => {
+  checkVenue(venue)
+
+  const { data, error } = await supabase
+    .from('venues')
+    .insert([{ ...venue, name: venue.name.trim(), created_by: performedBy }])
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`There is already a venue called ${venue.name.trim()}`)
+    }
+    throw error
+  }
+
+  await logActivity({
+    action: 'CREATE',
+    entityType: 'VENUE',
+    entityId: data.id,
+    entityName: data.name,
+    details: venue,
+    performedBy
+  })
+
+  return data as Venue
+}
+
+export const updateVenue = async (venue: Venue, changes: VenueInput & { active: boolean }, performedBy: string) => {
+  checkVenue(changes)
+
+  const { data, error } = await supabase
+    .from('venues')
+    .update({ ...changes, name: changes.name.trim() })
+    .eq('id', venue.id)
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`There is already a venue called ${changes.name.trim()}`)
+    }
+    throw error
+  }
+
+  await logActivity({
+    action: 'UPDATE',
+    entityType: 'VENUE',
+    entityId: venue.id,
+    entityName: data.name,
+    details: { previous_name: venue.name, previous_timezone: venue.timezone, changes },
+    performedBy
+  })
+
+  return data as Venue
+}
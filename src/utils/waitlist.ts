@@ -0,0 +1,124 @@
+import { supabase, Customer, WaitlistEntry, WaitlistStatus } from '../lib/supabase'
+import { logActivity } from './activityLogger'
+import { getTerminalId } from './seatHolds'
+
+export type WaitlistErrorCode = 'ENTRY_NOT_FOUND' | 'NO_OFFER' | 'OFFER_EXPIRED'
+
+export type ClaimWaitlistOfferResult =
+  | { success: true; seatCodes: string[]; expiresAt: string }
+  | { success: false; errorCode: WaitlistErrorCode; error: string }
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  WAITING: 'Waiting',
+  OFFERED: 'Seats offered',
+  CLAIMED: 'Booked',
+  EXPIRED: 'Offer expired',
+  CANCELLED: 'Cancelled'
+}
+
+// Entries still in line or holding an offer
+export const isWaiting = (entry: Pick<WaitlistEntry, 'status'>) =>
+  entry.status === 'WAITING' || entry.status === 'OFFERED'
+
+// The show's waitlist in the order customers joined. Offers that ran out are
+// passed on first, so the list is current even without pg_cron.
+export const fetchWaitlist = async (showId: string): Promise<WaitlistEntry[]> => {
+  const { error: expireError } = await supabase.rpc('expire_waitlist_offers', {
+    p_show_id: showId
+  })
+
+  if (expireError) throw expireError
+
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .select(`
+      *,
+      customer:customers(*)
+    `)
+    .eq('show_id', showId)
+    .order('created_at')
+
+  if (error) throw error
+  return data || []
+}
+
+export const joinWaitlist = async (
+  show: { id: string; title: string },
+  customer: Customer,
+  partySize: number,
+  notes: string,
+  performedBy: string
+) => {
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .insert([{
+      show_id: show.id,
+      customer_id: customer.id,
+      party_size: partySize,
+      notes: notes || null,
+      created_by: performedBy
+    }])
+    .select()
+    .single()
+
+  if (error) {
+    // 23505 is the one-entry-per-customer index
+    if (error.code === '23505') {
+      throw new Error(`${customer.name} is already on the waitlist for this show`)
+    }
+    throw error
+  }
+
+  await logActivity({
+    action: 'CREATE',
+    entityType: 'WAITLIST',
+    entityId: data.id,
+    entityName: `${show.title} - ${customer.name}`,
+    details: { show_id: show.id, customer_id: customer.id, party_size: partySize, notes: notes || null },
+    performedBy
+  })
+
+  return data as WaitlistEntry
+}
+
+export const cancelWaitlistEntry = async (entry: WaitlistEntry, showTitle: string, performedBy: string) => {
+  const { data, error } = await supabase.rpc('cancel_waitlist_entry', {
+    p_entry_id: entry.id
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    throw new Error(data.error || 'Could not remove the customer from the waitlist')
+  }
+
+  await logActivity({
+    action: 'CANCELLATION',
+    entityType: 'WAITLIST',
+    entityId: entry.id,
+    entityName: `${showTitle} - ${entry.customer?.name || 'Customer'}`,
+    details: { show_id: entry.show_id, party_size: entry.party_size, offered_seats: entry.offered_seats },
+    performedBy
+  })
+}
+
+// Moves the offered seats to this terminal's hold so they can be booked for
+// the customer before the offer runs out
+export const claimWaitlistOffer = async (entry: WaitlistEntry): Promise<ClaimWaitlistOfferResult> => {
+  const { data, error } = await supabase.rpc('claim_waitlist_offer', {
+    p_entry_id: entry.id,
+    p_holder_id: getTerminalId()
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    return {
+      success: false,
+      errorCode: data.error_code,
+      error: data.error || 'Could not claim the offer'
+    }
+  }
+
+  return { success: true, seatCodes: data.seat_codes || [], expiresAt: data.expires_at }
+}
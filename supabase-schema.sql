@@ -191,14 +191,4 @@ SELECT 'Main Hall 360°', '{
 }'
 WHERE NOT EXISTS (SELECT 1 FROM layouts WHERE name = 'Main Hall 360°');
 
--- Row Level Security (RLS) - Enable if needed
--- ALTER TABLE layouts ENABLE ROW LEVEL SECURITY;
--- ALTER TABLE shows ENABLE ROW LEVEL SECURITY;
--- ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
--- ALTER TABLE tickets ENABLE ROW LEVEL SECURITY;
-
--- Create policies for authenticated users (admin only)
--- CREATE POLICY "Admin can do everything on layouts" ON layouts FOR ALL USING (auth.role() = 'authenticated');
--- CREATE POLICY "Admin can do everything on shows" ON shows FOR ALL USING (auth.role() = 'authenticated');
--- CREATE POLICY "Admin can do everything on bookings" ON bookings FOR ALL USING (auth.role() = 'authenticated');
--- CREATE POLICY "Admin can do everything on tickets" ON tickets FOR ALL USING (auth.role() = 'authenticated');
\ No newline at end of file
+-- Row Level Security is set up by add-row-level-security.sql